@@ -0,0 +1,237 @@
+/**
+ * `ctx-sync agent` command group.
+ *
+ * Holds the private key in a background process, much like ssh-agent:
+ *   - `agent start`  — load the key (asking for the passphrase if it is
+ *     protected) into a detached agent, optionally for a limited time.
+ *   - `agent stop`   — make the agent forget the key and exit.
+ *   - `agent status` — show whether the agent is running and until when.
+ *
+ * While the agent runs, every other command asks it to unwrap file keys
+ * and sign roster entries over a 0o600 Unix socket instead of reading
+ * `key.txt` (see `core/key-agent`). `ctx-sync key unlock` and
+ * `ctx-sync key lock` start and stop the same agent.
+ *
+ * @module commands/agent
+ */
+
+import { spawn } from 'node:child_process';
+import { Option } from 'commander';
+import type { Command } from 'commander';
+import { withErrorHandler } from '../utils/errors.js';
+import { isKeyWrapped, loadKey, unwrapKey } from '../core/key-store.js';
+import { startKeyAgent, getAgentStatus, lockKeyAgent } from '../core/key-agent.js';
+import { readKeyFromStdin, getConfigDir } from './init.js';
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** Options for agent start */
+export interface AgentStartOptions {
+  /** Passphrase for a protected key (prompted for or read from stdin by the CLI) */
+  passphrase?: string;
+  /** Minutes to keep the key; omit to keep it until stopped */
+  ttlMinutes?: number;
+  /** Spawns the detached agent process (for testing) */
+  spawnFn?: (args: string[], identity: string) => { pid?: number | undefined };
+}
+
+/** Result of agent start */
+export interface AgentStartResult {
+  /** Pid of the agent process */
+  pid: number;
+  /** Public key of the key the agent holds */
+  publicKey: string;
+  /** When the agent forgets the key (`null`: when stopped) */
+  expiresAt: Date | null;
+}
+
+/** Result of agent status */
+export interface AgentStatusResult {
+  running: boolean;
+  publicKey: string | null;
+  expiresAt: Date | null;
+}
+
+// ─── Core Logic ───────────────────────────────────────────────────────────
+
+/**
+ * Spawn a detached `ctx-sync agent start --serve` process and hand it
+ * the key over stdin.
+ */
+function spawnAgent(args: string[], identity: string): { pid?: number | undefined } {
+  const child = spawn(process.execPath, [...process.execArgv, process.argv[1] ?? '', ...args], {
+    detached: true,
+    stdio: ['pipe', 'ignore', 'ignore'],
+    env: process.env,
+  });
+  child.stdin.end(identity + '\n');
+  child.unref();
+  return child;
+}
+
+/**
+ * Serve a key read from stdin until it is stopped or the TTL runs out
+ * (the detached side of `agent start`).
+ */
+async function serveAgent(ttlMinutes?: number): Promise<void> {
+  const identity = (await readKeyFromStdin()).trim();
+  const agent = await startKeyAgent(
+    getConfigDir(),
+    identity,
+    ttlMinutes === undefined ? undefined : ttlMinutes * 60_000,
+  );
+
+  const onSignal = (): void => agent.stop();
+  process.once('SIGTERM', onSignal);
+  process.once('SIGINT', onSignal);
+  await agent.done;
+}
+
+/**
+ * Execute `ctx-sync agent start`.
+ *
+ * Loads the key (unwrapping it if it is passphrase-protected) and
+ * starts the agent. Starting again replaces a running agent, which also
+ * restarts its TTL.
+ *
+ * @param options - Passphrase and TTL.
+ * @returns The agent's pid and when it forgets the key.
+ * @throws If the TTL is invalid, the passphrase is missing or wrong, or
+ *   the agent does not come up.
+ */
+export async function executeAgentStart(
+  options: AgentStartOptions = {},
+): Promise<AgentStartResult> {
+  const configDir = getConfigDir();
+
+  const { ttlMinutes } = options;
+  if (ttlMinutes !== undefined && (!Number.isFinite(ttlMinutes) || ttlMinutes <= 0)) {
+    throw new Error('TTL must be a positive number of minutes.');
+  }
+
+  let identity: string;
+  if (isKeyWrapped(configDir)) {
+    if (options.passphrase === undefined) {
+      throw new Error('Your key is passphrase-protected. Start the agent with: ctx-sync key unlock');
+    }
+    identity = await unwrapKey(configDir, options.passphrase);
+  } else {
+    identity = loadKey(configDir);
+  }
+  await lockKeyAgent(configDir);
+
+  const args = ['agent', 'start', '--serve'];
+  if (ttlMinutes !== undefined) {
+    args.push('--ttl', String(ttlMinutes));
+  }
+  const child = (options.spawnFn ?? spawnAgent)(args, identity);
+  if (child.pid === undefined) {
+    throw new Error('Failed to start the key agent.');
+  }
+
+  // Wait for the agent to start listening
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const status = await getAgentStatus(configDir);
+    if (status) {
+      return { pid: child.pid, ...status };
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error('The key agent did not start.');
+}
+
+/**
+ * Execute `ctx-sync agent stop`.
+ *
+ * @returns Whether an agent was running.
+ */
+export async function executeAgentStop(): Promise<{ wasRunning: boolean }> {
+  return { wasRunning: await lockKeyAgent(getConfigDir()) };
+}
+
+/**
+ * Execute `ctx-sync agent status`.
+ */
+export async function executeAgentStatus(): Promise<AgentStatusResult> {
+  const status = await getAgentStatus(getConfigDir());
+  return {
+    running: status !== null,
+    publicKey: status?.publicKey ?? null,
+    expiresAt: status?.expiresAt ?? null,
+  };
+}
+
+/**
+ * Describe when the agent forgets the key, for display.
+ */
+export function formatAgentExpiry(expiresAt: Date | null): string {
+  return expiresAt ? `until ${expiresAt.toLocaleTimeString()}` : 'until stopped';
+}
+
+// ─── Commander Registration ───────────────────────────────────────────────
+
+/**
+ * Register the `ctx-sync agent` command group on the given program.
+ */
+export function registerAgentCommand(program: Command): void {
+  const agentCmd = program
+    .command('agent')
+    .description('Hold your private key in a background agent');
+
+  // ── agent start ───────────────────────────────────────────────────
+  agentCmd
+    .command('start')
+    .description('Start the key agent')
+    .option('--ttl <minutes>', 'Minutes to keep the key (default: until stopped)')
+    .option('--stdin', 'Read the passphrase from stdin')
+    .addOption(new Option('--serve', 'Run the agent (started by agent start)').hideHelp())
+    .action(withErrorHandler(async (opts: { ttl?: string; stdin?: boolean; serve?: boolean }) => {
+      const ttlMinutes = opts.ttl === undefined ? undefined : Number(opts.ttl);
+      if (opts.serve) {
+        await serveAgent(ttlMinutes);
+        return;
+      }
+
+      const { readPassphrase } = await import('./key.js');
+      const result = await executeAgentStart({
+        passphrase: isKeyWrapped(getConfigDir()) ? await readPassphrase(opts) : undefined,
+        ttlMinutes,
+      });
+      const chalk = (await import('chalk')).default;
+
+      console.log(chalk.green(`✓ Key agent started (pid ${String(result.pid)})`));
+      console.log(`   Holding ${result.publicKey} ${formatAgentExpiry(result.expiresAt)}`);
+      console.log(chalk.dim('   Stop it with: ctx-sync agent stop'));
+    }));
+
+  // ── agent stop ────────────────────────────────────────────────────
+  agentCmd
+    .command('stop')
+    .description('Make the agent forget the key and exit')
+    .action(withErrorHandler(async () => {
+      const result = await executeAgentStop();
+      const chalk = (await import('chalk')).default;
+
+      if (result.wasRunning) {
+        console.log(chalk.green('✓ Key agent stopped'));
+      } else {
+        console.log(chalk.dim('Key agent is not running.'));
+      }
+    }));
+
+  // ── agent status ──────────────────────────────────────────────────
+  agentCmd
+    .command('status')
+    .description('Show whether the key agent is running')
+    .action(withErrorHandler(async () => {
+      const result = await executeAgentStatus();
+      const chalk = (await import('chalk')).default;
+
+      if (result.running) {
+        console.log(chalk.green('Key agent is running'));
+        console.log(`   Holding ${result.publicKey ?? ''} ${formatAgentExpiry(result.expiresAt)}`);
+      } else {
+        console.log(chalk.dim('Key agent is not running.'));
+      }
+    }));
+}
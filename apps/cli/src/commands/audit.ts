@@ -6,6 +6,8 @@
  *   - Config directory permissions (0o700).
  *   - Remote transport security (SSH/HTTPS only).
  *   - All state files are .age (no plaintext .json state).
+ *   - Every .age file is encrypted for every current recipient.
+ *   - The team roster's hash chain and signatures verify.
  *   - Git history scan for plaintext secret patterns.
  *   - Repo size report.
  *
@@ -21,6 +23,11 @@ import type { Command } from 'commander';
 import { withErrorHandler } from '../utils/errors.js';
 import { STATE_FILES } from '@ctx-sync/shared';
 import { verifyPermissions } from '../core/key-store.js';
+import { readRecipientStanzas } from '../core/encryption.js';
+import { getRecipients, memberHasAccess } from '../core/recipients.js';
+import { checkPinnedRoster, verifyRoster } from '../core/roster.js';
+import type { RosterState } from '../core/roster.js';
+import { listStateFiles, projectOfStateFile } from '../core/state-manager.js';
 import { validateRemoteUrl } from '../core/transport.js';
 import { getConfigDir, getSyncDir } from './init.js';
 
@@ -241,6 +248,114 @@ export function checkStateFiles(syncDir: string): {
   return { findings, stateFileCount: ageFiles.length };
 }
 
+/**
+ * Check that every .age file is encrypted for every current recipient.
+ *
+ * Age headers carry one stanza per recipient but not the recipient's
+ * key, so the check compares the number of X25519 stanzas with the
+ * owner plus the team members in `recipients.json` with access to the
+ * file (project blobs also count that project's scoped members). Fewer
+ * stanzas means a teammate can no longer decrypt the file; more means a
+ * removed member may still be able to.
+ */
+export function checkRecipientCoverage(configDir: string, syncDir: string): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+
+  if (!fs.existsSync(syncDir)) {
+    return findings;
+  }
+
+  const members = getRecipients(configDir)?.members ?? [];
+  const ageFiles = listStateFiles(syncDir).filter((e) => !e.startsWith('.'));
+
+  let covered = 0;
+  for (const file of ageFiles) {
+    const project = projectOfStateFile(file) ?? undefined;
+    const expected = 1 + members.filter((m) => memberHasAccess(m, project)).length;
+
+    const ciphertext = fs.readFileSync(path.join(syncDir, file), 'utf-8');
+    if (!ciphertext.trim()) continue;
+
+    let stanzas: number;
+    try {
+      stanzas = readRecipientStanzas(ciphertext).filter((t) => t === 'X25519').length;
+    } catch {
+      findings.push({
+        severity: 'warning',
+        check: 'recipients',
+        message: `Could not read the Age header of ${file}.`,
+      });
+      continue;
+    }
+
+    if (stanzas < expected) {
+      findings.push({
+        severity: 'critical',
+        check: 'recipients',
+        message: `${file} is encrypted for ${String(stanzas)} of ${String(expected)} recipients — some team members cannot decrypt it.`,
+      });
+    } else if (stanzas > expected) {
+      findings.push({
+        severity: 'warning',
+        check: 'recipients',
+        message: `${file} is encrypted for ${String(stanzas)} recipients but only ${String(expected)} are configured — a removed member may still decrypt it.`,
+      });
+    } else {
+      covered++;
+    }
+  }
+
+  if (covered > 0 && findings.length === 0) {
+    findings.push({
+      severity: 'info',
+      check: 'recipients',
+      message: 'All encrypted state files are encrypted for all of their recipients.',
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Verify the team roster in the sync repo.
+ *
+ * Replays the whole membership log, checking every hash link and
+ * signature, and that it starts from the genesis entry this machine
+ * pinned.
+ */
+export function checkRoster(configDir: string, syncDir: string): AuditFinding[] {
+  let roster: RosterState | null;
+  try {
+    roster = verifyRoster(syncDir);
+  } catch (err) {
+    return [{
+      severity: 'critical',
+      check: 'roster',
+      message: err instanceof Error ? err.message : String(err),
+    }];
+  }
+
+  if (!roster) {
+    return [];
+  }
+
+  try {
+    checkPinnedRoster(configDir, roster);
+  } catch (err) {
+    return [{
+      severity: 'critical',
+      check: 'roster',
+      message: err instanceof Error ? err.message : String(err),
+    }];
+  }
+
+  return [{
+    severity: 'info',
+    check: 'roster',
+    message: `Team roster verified (${String(roster.history.length)} entries, ${String(roster.members.length)} members).`,
+  }];
+}
+
 /**
  * Scan Git history for plaintext secret patterns.
  */
@@ -375,10 +490,16 @@ export function executeAudit(): AuditResult {
   const stateFiles = checkStateFiles(syncDir);
   allFindings.push(...stateFiles.findings);
 
-  // 4. Git history scan
+  // 4. Recipient coverage
+  allFindings.push(...checkRecipientCoverage(configDir, syncDir));
+
+  // 5. Team roster
+  allFindings.push(...checkRoster(configDir, syncDir));
+
+  // 6. Git history scan
   allFindings.push(...checkGitHistory(syncDir));
 
-  // 5. Repo size
+  // 7. Repo size
   const repoSize = checkRepoSize(syncDir);
   allFindings.push(...repoSize.findings);
 
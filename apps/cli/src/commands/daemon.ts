@@ -0,0 +1,307 @@
+/**
+ * `ctx-sync daemon` command group.
+ *
+ * Runs `ctx-sync sync` automatically in the background:
+ *   - `daemon start` — start the daemon (detached unless `--foreground`).
+ *   - `daemon stop` — stop a running daemon.
+ *   - `daemon status` — show whether the daemon is running and its recent log.
+ *
+ * The daemon reuses `executeSync()`. It never resolves a conflict that
+ * needs a decision; it aborts the merge and stops instead (see
+ * `core/sync-daemon`). The pidfile and the sanitized log live in the
+ * config directory.
+ *
+ * @module commands/daemon
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { spawn } from 'node:child_process';
+import type { Command } from 'commander';
+import { withErrorHandler } from '../utils/errors.js';
+import { createGit } from '../core/git-sync.js';
+import {
+  startSyncDaemon,
+  watchStateFiles,
+  appendDaemonLog,
+  readDaemonLog,
+  readDaemonPid,
+  writeDaemonPid,
+  removeDaemonPid,
+  isProcessRunning,
+  DAEMON_LOG_FILE,
+  DEFAULT_INTERVAL_MS,
+} from '../core/sync-daemon.js';
+import type { DaemonStopReason } from '../core/sync-daemon.js';
+import { executeSync } from './sync.js';
+import { getConfigDir, getSyncDir } from './init.js';
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** Options for daemon start */
+export interface DaemonStartOptions {
+  /** Minutes between pulls (default 5) */
+  intervalMinutes?: number;
+  /** Run in the current process until stopped instead of detaching */
+  foreground?: boolean;
+  /** Spawns the detached daemon process (for testing) */
+  spawnFn?: (args: string[]) => { pid?: number | undefined };
+}
+
+/** Result of daemon start */
+export interface DaemonStartResult {
+  /** Pid of the daemon process */
+  pid: number;
+  /** Path of the daemon log */
+  logFile: string;
+  /** Why the daemon ended (foreground mode only) */
+  stopReason?: DaemonStopReason;
+}
+
+/** Result of daemon stop */
+export interface DaemonStopResult {
+  /** Whether a running daemon was signalled */
+  wasRunning: boolean;
+  /** Pid of the stopped daemon */
+  pid: number | null;
+}
+
+/** Result of daemon status */
+export interface DaemonStatusResult {
+  running: boolean;
+  pid: number | null;
+  logFile: string;
+  /** The last lines of the daemon log */
+  recentLog: string[];
+}
+
+// ─── Core Logic ───────────────────────────────────────────────────────────
+
+/**
+ * Return the pid of the running daemon, cleaning up a stale pidfile.
+ */
+function findRunningDaemon(configDir: string): number | null {
+  const pid = readDaemonPid(configDir);
+  if (pid === null) {
+    return null;
+  }
+  if (!isProcessRunning(pid)) {
+    removeDaemonPid(configDir);
+    return null;
+  }
+  return pid;
+}
+
+/**
+ * Spawn a detached `ctx-sync daemon start --foreground` process.
+ */
+function spawnDetached(args: string[]): { pid?: number | undefined } {
+  const child = spawn(process.execPath, [...process.execArgv, process.argv[1] ?? '', ...args], {
+    detached: true,
+    stdio: 'ignore',
+    env: process.env,
+  });
+  child.unref();
+  return child;
+}
+
+/**
+ * Run the daemon loop in this process until it is stopped.
+ *
+ * Writes the pidfile, stops cleanly on SIGTERM/SIGINT and removes the
+ * pidfile on exit.
+ *
+ * @param intervalMs - Time between pulls.
+ * @returns Why the loop ended.
+ */
+async function runDaemon(intervalMs: number): Promise<DaemonStopReason> {
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+
+  writeDaemonPid(configDir, process.pid);
+
+  const daemon = startSyncDaemon({
+    sync: (resolveFn) => executeSync({ noInteractive: true, resolveFn }),
+    abortMerge: async () => {
+      await createGit(syncDir).merge(['--abort']);
+    },
+    log: (message) => appendDaemonLog(configDir, message),
+    watch: (onChange) => watchStateFiles(syncDir, onChange),
+    intervalMs,
+  });
+
+  const onSignal = (): void => daemon.stop();
+  process.once('SIGTERM', onSignal);
+  process.once('SIGINT', onSignal);
+
+  try {
+    return await daemon.done;
+  } finally {
+    process.off('SIGTERM', onSignal);
+    process.off('SIGINT', onSignal);
+    if (readDaemonPid(configDir) === process.pid) {
+      removeDaemonPid(configDir);
+    }
+  }
+}
+
+/**
+ * Execute `ctx-sync daemon start`.
+ *
+ * @param options - Interval and foreground options.
+ * @returns The daemon's pid and log path.
+ * @throws If a daemon is already running or no sync repo exists.
+ */
+export async function executeDaemonStart(
+  options: DaemonStartOptions = {},
+): Promise<DaemonStartResult> {
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+  const logFile = path.join(configDir, DAEMON_LOG_FILE);
+
+  if (!fs.existsSync(syncDir) || !fs.existsSync(path.join(syncDir, '.git'))) {
+    throw new Error('No sync repository found. Run `ctx-sync init` first.');
+  }
+
+  const intervalMinutes = options.intervalMinutes ?? DEFAULT_INTERVAL_MS / 60_000;
+  if (!Number.isFinite(intervalMinutes) || intervalMinutes <= 0) {
+    throw new Error('Interval must be a positive number of minutes.');
+  }
+
+  // A detached daemon finds its own pid, written by the process that spawned it
+  const running = findRunningDaemon(configDir);
+  if (running !== null && running !== process.pid) {
+    throw new Error(`Daemon is already running (pid ${String(running)}). Stop it with: ctx-sync daemon stop`);
+  }
+
+  if (options.foreground) {
+    const stopReason = await runDaemon(intervalMinutes * 60_000);
+    return { pid: process.pid, logFile, stopReason };
+  }
+
+  const child = (options.spawnFn ?? spawnDetached)([
+    'daemon',
+    'start',
+    '--foreground',
+    '--interval',
+    String(intervalMinutes),
+  ]);
+  if (child.pid === undefined) {
+    throw new Error('Failed to start the daemon process.');
+  }
+
+  writeDaemonPid(configDir, child.pid);
+  return { pid: child.pid, logFile };
+}
+
+/**
+ * Execute `ctx-sync daemon stop`.
+ *
+ * Sends SIGTERM to the daemon and removes the pidfile.
+ */
+export function executeDaemonStop(): DaemonStopResult {
+  const configDir = getConfigDir();
+  const pid = findRunningDaemon(configDir);
+
+  if (pid === null) {
+    return { wasRunning: false, pid: null };
+  }
+
+  process.kill(pid, 'SIGTERM');
+  removeDaemonPid(configDir);
+  return { wasRunning: true, pid };
+}
+
+/**
+ * Execute `ctx-sync daemon status`.
+ *
+ * @param logLines - Number of log lines to include.
+ */
+export function executeDaemonStatus(logLines = 5): DaemonStatusResult {
+  const configDir = getConfigDir();
+  const pid = readDaemonPid(configDir);
+  const running = pid !== null && isProcessRunning(pid);
+
+  return {
+    running,
+    pid: running ? pid : null,
+    logFile: path.join(configDir, DAEMON_LOG_FILE),
+    recentLog: readDaemonLog(configDir, logLines),
+  };
+}
+
+// ─── Commander Registration ───────────────────────────────────────────────
+
+/**
+ * Register the `ctx-sync daemon` command group on the given program.
+ */
+export function registerDaemonCommand(program: Command): void {
+  const daemonCmd = program
+    .command('daemon')
+    .description('Sync automatically in the background');
+
+  // ── daemon start ──────────────────────────────────────────────────
+  daemonCmd
+    .command('start')
+    .description('Start the background sync daemon')
+    .option('--interval <minutes>', 'Minutes between pulls', '5')
+    .option('--foreground', 'Run in this terminal instead of detaching')
+    .action(withErrorHandler(async (opts: { interval: string; foreground?: boolean }) => {
+      const chalk = (await import('chalk')).default;
+      const foreground = opts.foreground === true;
+
+      if (foreground) {
+        console.log(chalk.dim('Running sync daemon in the foreground (Ctrl+C to stop)...'));
+      }
+
+      const result = await executeDaemonStart({
+        intervalMinutes: Number(opts.interval),
+        foreground,
+      });
+
+      if (result.stopReason === 'conflict') {
+        console.log(chalk.yellow('⚠ Daemon stopped: a conflict needs your decision.'));
+        console.log(chalk.dim('   Run `ctx-sync sync` to resolve it.'));
+      } else if (!foreground) {
+        console.log(chalk.green(`✅ Sync daemon started (pid ${String(result.pid)})`));
+        console.log(chalk.dim(`   Log: ${result.logFile}`));
+      }
+    }));
+
+  // ── daemon stop ───────────────────────────────────────────────────
+  daemonCmd
+    .command('stop')
+    .description('Stop the background sync daemon')
+    .action(withErrorHandler(async () => {
+      const result = executeDaemonStop();
+      const chalk = (await import('chalk')).default;
+
+      if (result.wasRunning) {
+        console.log(chalk.green(`✓ Stopped sync daemon (pid ${String(result.pid)})`));
+      } else {
+        console.log(chalk.dim('Sync daemon is not running.'));
+      }
+    }));
+
+  // ── daemon status ─────────────────────────────────────────────────
+  daemonCmd
+    .command('status')
+    .description('Show whether the sync daemon is running')
+    .action(withErrorHandler(async () => {
+      const result = executeDaemonStatus();
+      const chalk = (await import('chalk')).default;
+
+      if (result.running) {
+        console.log(chalk.green(`Sync daemon is running (pid ${String(result.pid)})`));
+      } else {
+        console.log(chalk.dim('Sync daemon is not running.'));
+      }
+
+      if (result.recentLog.length > 0) {
+        console.log(chalk.bold(`\nRecent log (${result.logFile}):`));
+        for (const line of result.recentLog) {
+          console.log(chalk.dim(`  ${line}`));
+        }
+      }
+    }));
+}
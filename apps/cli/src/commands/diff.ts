@@ -0,0 +1,223 @@
+/**
+ * `ctx-sync diff [file]` command.
+ *
+ * Shows what changed in the encrypted state, decrypted in memory, as a
+ * structural diff per state file:
+ *   - `ctx-sync diff` — uncommitted changes (last commit → working tree).
+ *   - `ctx-sync diff --staged` — staged changes (last commit → index).
+ *   - `ctx-sync diff --remote` — what a sync would push (remote branch
+ *     as of the last pull or push → working tree).
+ *
+ * Env var values are shown only as keyed hashes, so the output tells
+ * whether a value changed without revealing it.
+ *
+ * The same conversion serves Git as a `textconv` driver:
+ * `ctx-sync diff --setup-textconv` registers it in the sync repo, and
+ * Git then calls `ctx-sync diff --textconv <file>` for `git diff` and
+ * `git log -p`.
+ *
+ * @module commands/diff
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Command } from 'commander';
+import { withErrorHandler } from '../utils/errors.js';
+import { connectAgentKey } from '../core/key-agent.js';
+import { isKeyWrapped, loadKey, resolvePrivateKey } from '../core/key-store.js';
+import type { PrivateKey } from '../core/encryption.js';
+import { configureTextconv, resolveCommit } from '../core/git-sync.js';
+import { diffStateSides, textconvState } from '../core/state-diff.js';
+import type { DiffSide, StateFileDiff } from '../core/state-diff.js';
+import { parseStateFileType } from '../core/state-history.js';
+import { getConfigDir, getSyncDir } from './init.js';
+
+/** Git diff driver name registered by `--setup-textconv` */
+export const TEXTCONV_DRIVER = 'ctx-sync';
+
+/** Remote branch `--remote` compares against */
+const REMOTE_BRANCH = 'origin/main';
+
+/** Options for the diff command */
+export interface DiffOptions {
+  /** Compare the index with the last commit */
+  staged?: boolean;
+  /** Compare the working tree with the remote branch */
+  remote?: boolean;
+  /** Only this state file (e.g. 'env-vars') */
+  file?: string;
+}
+
+/** Result of the diff command */
+export interface DiffResult {
+  /** What the diff is from, for display */
+  from: string;
+  /** What the diff is to, for display */
+  to: string;
+  /** One entry per state file that differs */
+  files: StateFileDiff[];
+}
+
+/**
+ * Execute the diff command logic.
+ *
+ * @param options - Which sides to compare, and which file.
+ * @returns The per-file diffs.
+ * @throws If `--staged` and `--remote` are both set, or `--remote` has
+ *   no remote branch to compare with.
+ */
+export async function executeDiff(options: DiffOptions = {}): Promise<DiffResult> {
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+
+  if (!fs.existsSync(path.join(syncDir, '.git'))) {
+    throw new Error('No sync repository found. Run `ctx-sync init` first.');
+  }
+  if (options.staged && options.remote) {
+    throw new Error('Use either --staged or --remote, not both.');
+  }
+
+  const fileType = options.file ? parseStateFileType(options.file) : undefined;
+
+  let base: DiffSide | null;
+  let from: string;
+  if (options.remote) {
+    const remote = await resolveCommit(syncDir, REMOTE_BRANCH);
+    if (!remote) {
+      throw new Error(
+        `No remote branch to compare with (${REMOTE_BRANCH}).\n` +
+          'Add a remote and sync first: ctx-sync sync',
+      );
+    }
+    base = { kind: 'commit', ref: remote };
+    from = REMOTE_BRANCH;
+  } else {
+    const head = await resolveCommit(syncDir, 'HEAD');
+    base = head ? { kind: 'commit', ref: head } : null;
+    from = 'HEAD';
+  }
+  const target: DiffSide = options.staged ? { kind: 'index' } : { kind: 'worktree' };
+
+  const privateKey = await resolvePrivateKey(configDir);
+  const files = await diffStateSides(syncDir, base, target, privateKey, fileType);
+
+  return { from, to: options.staged ? 'index' : 'working tree', files };
+}
+
+/**
+ * The key for the textconv driver, without prompting: Git runs it with
+ * no terminal to prompt on.
+ */
+async function keyWithoutPrompt(configDir: string): Promise<PrivateKey | null> {
+  try {
+    return (await connectAgentKey(configDir)) ?? (isKeyWrapped(configDir) ? null : loadKey(configDir));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Execute `ctx-sync diff --textconv <file>`: convert an encrypted
+ * state file to diffable text for Git.
+ *
+ * @param filePath - The file Git passes to the driver.
+ * @returns The text to print.
+ */
+export async function executeTextconv(filePath: string): Promise<string> {
+  return textconvState(filePath, await keyWithoutPrompt(getConfigDir()));
+}
+
+/**
+ * Execute `ctx-sync diff --setup-textconv`: register the textconv
+ * driver for `.age` files in the sync repo.
+ *
+ * @returns The command Git will run.
+ */
+export async function executeSetupTextconv(): Promise<string> {
+  const syncDir = getSyncDir();
+  if (!fs.existsSync(path.join(syncDir, '.git'))) {
+    throw new Error('No sync repository found. Run `ctx-sync init` first.');
+  }
+
+  const command = 'ctx-sync diff --textconv';
+  await configureTextconv(syncDir, TEXTCONV_DRIVER, command);
+  return command;
+}
+
+/**
+ * Format the diff for terminal display.
+ *
+ * @param result - The diff result to format.
+ * @returns Formatted string for terminal output.
+ */
+export function formatDiffOutput(result: DiffResult): string {
+  const lines: string[] = [];
+
+  for (const file of result.files) {
+    lines.push('');
+    lines.push(`  ${file.file}`);
+    if (file.unreadable) {
+      lines.push('    (cannot be decrypted with this key)');
+    } else if (file.lines.length === 0) {
+      lines.push('    (re-encrypted, no content change)');
+    }
+    for (const line of file.lines) {
+      switch (line.op) {
+        case '+':
+          lines.push(`    + ${line.path}: ${line.after ?? ''}`);
+          break;
+        case '-':
+          lines.push(`    - ${line.path}: ${line.before ?? ''}`);
+          break;
+        case '~':
+          lines.push(`    ~ ${line.path}: ${line.before ?? ''} → ${line.after ?? ''}`);
+          break;
+      }
+    }
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Register the `diff` command on the given Commander program.
+ */
+export function registerDiffCommand(program: Command): void {
+  program
+    .command('diff [file]')
+    .description('Show decrypted changes to the state (env values shown as hashes)')
+    .option('--staged', 'Compare staged changes with the last commit')
+    .option('--remote', 'Compare with the remote branch (what a sync would push)')
+    .option('--textconv <path>', 'Print an encrypted file as diffable text (for Git)')
+    .option('--setup-textconv', 'Make `git diff` and `git log -p` in the sync repo decrypt state')
+    .action(withErrorHandler(async (file: string | undefined, opts: Record<string, unknown>) => {
+      if (typeof opts['textconv'] === 'string') {
+        process.stdout.write(await executeTextconv(opts['textconv']));
+        return;
+      }
+
+      const chalk = (await import('chalk')).default;
+
+      if (opts['setupTextconv'] === true) {
+        const command = await executeSetupTextconv();
+        console.log(chalk.green(`✓ Git will decrypt state for diffs with: ${command}`));
+        console.log(chalk.dim(`   Try: git -C ${getSyncDir()} log -p`));
+        return;
+      }
+
+      const result = await executeDiff({
+        staged: opts['staged'] === true,
+        remote: opts['remote'] === true,
+        file,
+      });
+
+      if (result.files.length === 0) {
+        console.log(chalk.dim(`No state changes between ${result.from} and the ${result.to}.`));
+        return;
+      }
+
+      console.log(chalk.bold(`State changes: ${result.from} → ${result.to}`));
+      console.log(formatDiffOutput(result));
+    }));
+}
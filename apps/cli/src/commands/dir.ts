@@ -7,6 +7,7 @@
  *   - `dir unpin <path>` — unpin a directory.
  *   - `dir list` — list recent and pinned directories.
  *   - `dir remove <path>` — remove a directory from the recent list.
+ *   - `dir flush` — record the visits queued by the shell hook.
  *
  * @module commands/dir
  */
@@ -14,19 +15,37 @@
 import type { Command } from 'commander';
 import { withErrorHandler } from '../utils/errors.js';
 import { STATE_FILES } from '@ctx-sync/shared';
-import { identityToRecipient } from 'age-encryption';
-import { loadKey } from '../core/key-store.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { resolveRecipients } from '../core/recipients.js';
 import { commitState } from '../core/git-sync.js';
 import {
   visitDirectory,
+  visitDirectories,
   pinDirectory,
   unpinDirectory,
   removeRecentDirectory,
   getTopDirectories,
   getPinnedDirectories,
 } from '../core/directories-handler.js';
+import {
+  acquireFlushLock,
+  takeVisitQueue,
+  completeVisitFlush,
+} from '../core/shell-integration.js';
 import { getConfigDir, getSyncDir } from './init.js';
 
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** Result of dir flush */
+export interface DirFlushResult {
+  /** Number of queued visits read */
+  queued: number;
+  /** Number of visits recorded (queued visits outside home are skipped) */
+  recorded: number;
+  /** Whether another flush was already running */
+  busy: boolean;
+}
+
 // ─── Core Logic ───────────────────────────────────────────────────────────
 
 /**
@@ -39,10 +58,10 @@ export async function executeDirVisit(
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
 
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey);
 
-  await visitDirectory(syncDir, dirPath, publicKey, privateKey);
+  await visitDirectory(syncDir, dirPath, recipients, privateKey);
 
   if (!noSync) {
     await commitState(
@@ -55,6 +74,49 @@ export async function executeDirVisit(
   return { path: dirPath };
 }
 
+/**
+ * Execute `ctx-sync dir flush`.
+ *
+ * Records every visit queued by the shell hook in one write. The commit
+ * message only carries a count, so visited paths never appear in the
+ * sync repo's history.
+ */
+export async function executeDirFlush(noSync = false): Promise<DirFlushResult> {
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+
+  const release = acquireFlushLock(configDir);
+  if (!release) {
+    return { queued: 0, recorded: 0, busy: true };
+  }
+
+  try {
+    const visits = takeVisitQueue(configDir);
+    if (visits.length === 0) {
+      return { queued: 0, recorded: 0, busy: false };
+    }
+
+    const privateKey = await resolvePrivateKey(configDir);
+    const recipients = await resolveRecipients(configDir, privateKey);
+
+    const recorded = await visitDirectories(syncDir, visits, recipients, privateKey);
+    // Saved: a failed commit below must not record the batch twice
+    completeVisitFlush(configDir);
+
+    if (recorded.length > 0 && !noSync) {
+      await commitState(
+        syncDir,
+        [STATE_FILES.DIRECTORIES, STATE_FILES.MANIFEST],
+        `dir: record ${String(recorded.length)} visits`,
+      );
+    }
+
+    return { queued: visits.length, recorded: recorded.length, busy: false };
+  } finally {
+    release();
+  }
+}
+
 /**
  * Execute `ctx-sync dir pin <path>`.
  */
@@ -65,10 +127,10 @@ export async function executeDirPin(
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
 
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey);
 
-  const pinned = await pinDirectory(syncDir, dirPath, publicKey, privateKey);
+  const pinned = await pinDirectory(syncDir, dirPath, recipients, privateKey);
 
   if (pinned && !noSync) {
     await commitState(
@@ -91,10 +153,10 @@ export async function executeDirUnpin(
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
 
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey);
 
-  const unpinned = await unpinDirectory(syncDir, dirPath, publicKey, privateKey);
+  const unpinned = await unpinDirectory(syncDir, dirPath, recipients, privateKey);
 
   if (unpinned && !noSync) {
     await commitState(
@@ -117,13 +179,13 @@ export async function executeDirRemove(
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
 
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey);
 
   const removed = await removeRecentDirectory(
     syncDir,
     dirPath,
-    publicKey,
+    recipients,
     privateKey,
   );
 
@@ -150,7 +212,7 @@ export async function executeDirList(
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
 
-  const privateKey = loadKey(configDir);
+  const privateKey = await resolvePrivateKey(configDir);
 
   const pinned = await getPinnedDirectories(syncDir, privateKey);
   const recent = await getTopDirectories(syncDir, privateKey, limit);
@@ -220,6 +282,22 @@ export function registerDirCommand(program: Command): void {
       }
     }));
 
+  // ── dir flush ─────────────────────────────────────────────────────
+  dirCmd
+    .command('flush')
+    .description('Record directory visits queued by the shell hook')
+    .option('--no-sync', 'Skip committing to sync repo')
+    .action(withErrorHandler(async (opts: { sync: boolean }) => {
+      const result = await executeDirFlush(!opts.sync);
+      if (result.busy) {
+        console.log('Another flush is already running.');
+      } else if (result.queued === 0) {
+        console.log('No queued directory visits.');
+      } else {
+        console.log(`✓ Recorded ${String(result.recorded)} of ${String(result.queued)} queued visits`);
+      }
+    }));
+
   // ── dir list ──────────────────────────────────────────────────────
   dirCmd
     .command('list')
@@ -19,11 +19,12 @@ import * as path from 'node:path';
 import { execSync } from 'node:child_process';
 import type { Command } from 'commander';
 import { withErrorHandler } from '../utils/errors.js';
-import type { StateFile, DockerState } from '@ctx-sync/shared';
+import type { DockerState } from '@ctx-sync/shared';
 import { STATE_FILES } from '@ctx-sync/shared';
-import { identityToRecipient } from 'age-encryption';
-import { loadKey } from '../core/key-store.js';
-import { readState } from '../core/state-manager.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { resolveRecipients } from '../core/recipients.js';
+import { projectStateFile } from '../core/state-manager.js';
+import { readMergedProjects } from '../core/machine-state.js';
 import { commitState } from '../core/git-sync.js';
 import {
   formatCommandsForDisplay,
@@ -199,16 +200,16 @@ export async function executeDockerTrack(
   }
 
   // Load key
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
 
   // Determine project name
   let projectName = options.project;
   if (!projectName) {
     // Try to find from tracked projects
-    const state = await readState<StateFile>(syncDir, privateKey, 'state');
-    const matchingProject = state?.projects.find(
-      (p) => p.path === path.resolve(projectDir),
+    const projects = await readMergedProjects(syncDir, privateKey);
+    const resolvedDir = path.resolve(projectDir);
+    const matchingProject = projects?.find((p) =>
+      p.machines.some((view) => view.path === resolvedDir),
     );
     projectName = matchingProject?.name ?? path.basename(path.resolve(projectDir));
   }
@@ -228,13 +229,14 @@ export async function executeDockerTrack(
     throw new Error('Failed to parse Docker Compose file.');
   }
 
-  await saveDockerState(syncDir, projectName, entry, publicKey, privateKey);
+  const recipients = await resolveRecipients(configDir, privateKey, projectName);
+  await saveDockerState(syncDir, projectName, entry, recipients, privateKey);
 
   // Commit if requested
   if (!options.noSync) {
     await commitState(
       syncDir,
-      [STATE_FILES.DOCKER_STATE, STATE_FILES.MANIFEST],
+      [projectStateFile(syncDir, 'docker-state', projectName), STATE_FILES.MANIFEST],
       `feat: track Docker services for ${projectName}`,
     );
   }
@@ -309,7 +311,7 @@ export async function executeDockerStart(
     throw new Error('No sync repository found. Run `ctx-sync init` first.');
   }
 
-  const privateKey = loadKey(configDir);
+  const privateKey = await resolvePrivateKey(configDir);
 
   // Load Docker state for the project
   const projectDocker = await loadDockerState(syncDir, projectName, privateKey);
@@ -423,7 +425,7 @@ export async function executeDockerStop(
     throw new Error('No sync repository found. Run `ctx-sync init` first.');
   }
 
-  const privateKey = loadKey(configDir);
+  const privateKey = await resolvePrivateKey(configDir);
   const projectDocker = await loadDockerState(syncDir, projectName, privateKey);
 
   if (!projectDocker) {
@@ -514,7 +516,7 @@ export async function executeDockerStatus(
     throw new Error('No sync repository found. Run `ctx-sync init` first.');
   }
 
-  const privateKey = loadKey(configDir);
+  const privateKey = await resolvePrivateKey(configDir);
   const allDocker = await loadAllDockerState(syncDir, privateKey);
 
   if (!allDocker) {
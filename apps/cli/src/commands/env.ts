@@ -6,11 +6,27 @@
  *   - `env add <project> <key>` — Add single var (hidden input / stdin)
  *   - `env scan <project>` — Scan current shell environment
  *   - `env list <project>` — List env vars (values hidden by default)
+ *   - `env export <project>` — Print env vars for other tools (dotenv,
+ *     JSON, sh, fish, Docker env-file, Kubernetes Secret)
+ *
+ *   - `env group import|add|list` — Manage env groups: vars stored once
+ *     (e.g. `AWS_*`) and used by many projects
+ *   - `env link|unlink <project> <group>` — Make a project use a group
+ *
+ * `--env <profile>` on import, add, list and export works on a named
+ * profile (e.g. `staging`) instead of the project's own vars. A profile
+ * inherits the project's own vars and overrides them; both override the
+ * groups the project uses.
+ *
+ * `env add --ref <reference>` stores a reference to a secret kept by an
+ * external provider (`op://…`, `pass:…`, `vault:…#field`) instead of a
+ * value; it is resolved by the provider's CLI whenever the var is used.
  *
  * Security:
  *   - Secret values are NEVER accepted as CLI arguments.
  *   - All env vars encrypted by default (encrypt-by-default).
- *   - Values are never displayed in CLI output unless --show-values.
+ *   - Values are never displayed in CLI output unless --show-values,
+ *     or explicitly exported with `env export`.
  *
  * @module commands/env
  */
@@ -20,19 +36,33 @@ import * as path from 'node:path';
 import type { Command } from 'commander';
 import { withErrorHandler } from '../utils/errors.js';
 import { STATE_FILES, DEFAULT_SAFE_LIST } from '@ctx-sync/shared';
-import { identityToRecipient } from 'age-encryption';
-import { loadKey } from '../core/key-store.js';
+import type { EnvVars } from '@ctx-sync/shared';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { resolveRecipients } from '../core/recipients.js';
+import { projectStateFile, readState } from '../core/state-manager.js';
 import { commitState } from '../core/git-sync.js';
 import { getConfigDir, getSyncDir } from './init.js';
 import type { ListedEnvVar } from '../core/env-handler.js';
+import { ENV_EXPORT_FORMATS, filterEnvVars, formatEnvVars } from '../core/env-export.js';
+import type { EnvExportFormat } from '../core/env-export.js';
+import { getSecretProviders, resolveSecretRef, validateSecretRef } from '../core/secret-refs.js';
 import {
+  DEFAULT_ENV_PROFILE,
   parseEnvFile,
   importEnvVars,
   addEnvVar,
+  addEnvRef,
   listEnvVars,
   validateKeyArg,
   readValueFromStdin,
   shouldEncrypt,
+  envGroupKey,
+  importEnvGroup,
+  linkEnvGroup,
+  listEnvGroups,
+  unlinkEnvGroup,
+  validateGroupName,
+  skippedGroupsWarning,
 } from '../core/env-handler.js';
 
 /**
@@ -44,6 +74,8 @@ export interface EnvImportOptions {
   stdin?: boolean;
   allowPlain?: boolean;
   noSync?: boolean;
+  /** Env profile to import into (default: the project's own vars) */
+  profile?: string;
 }
 
 /**
@@ -63,8 +95,8 @@ export async function executeEnvImport(
 ): Promise<EnvImportResult> {
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey, options.project);
 
   let content: string;
 
@@ -110,16 +142,17 @@ export async function executeEnvImport(
     options.project,
     parsed,
     syncDir,
-    publicKey,
+    recipients,
     privateKey,
+    options.profile,
   );
 
   // Commit
   if (!options.noSync) {
     await commitState(
       syncDir,
-      [STATE_FILES.ENV_VARS, STATE_FILES.MANIFEST],
-      `feat: import ${importedCount} env vars for ${options.project}`,
+      [projectStateFile(syncDir, 'env-vars', options.project), STATE_FILES.MANIFEST],
+      `feat: import ${importedCount} env vars for ${profileLabel(options.project, options.profile)}`,
     );
   }
 
@@ -135,6 +168,10 @@ export interface EnvAddOptions {
   stdin?: boolean;
   fromFd?: number;
   noSync?: boolean;
+  /** Env profile to add to (default: the project's own vars) */
+  profile?: string;
+  /** Store a reference to an external secret (e.g. `op://vault/item/field`) instead of a value */
+  ref?: string;
 }
 
 /**
@@ -145,45 +182,62 @@ export async function executeEnvAdd(
 ): Promise<void> {
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey, options.project);
 
   // Validate key does not contain embedded value
   validateKeyArg(options.key);
 
-  let value: string;
-
-  if (options.value !== undefined) {
-    // Value provided programmatically (from hidden prompt or stdin)
-    value = options.value;
-  } else if (options.stdin) {
-    value = await readValueFromStdin();
+  if (options.ref !== undefined) {
+    validateSecretRef(options.ref, getSecretProviders(configDir));
+    await addEnvRef(
+      options.project,
+      options.key,
+      options.ref,
+      syncDir,
+      recipients,
+      privateKey,
+      options.profile,
+    );
   } else {
-    throw new Error(
-      'A value is required.\n' +
-        'Use interactive prompt or --stdin to provide the value securely.',
+    await addEnvVar(
+      options.project,
+      options.key,
+      await readAddedValue(options),
+      syncDir,
+      recipients,
+      privateKey,
+      options.profile,
     );
   }
 
-  await addEnvVar(
-    options.project,
-    options.key,
-    value,
-    syncDir,
-    publicKey,
-    privateKey,
-  );
-
   // Commit
   if (!options.noSync) {
     await commitState(
       syncDir,
-      [STATE_FILES.ENV_VARS, STATE_FILES.MANIFEST],
-      `feat: add env var ${options.key} for ${options.project}`,
+      [projectStateFile(syncDir, 'env-vars', options.project), STATE_FILES.MANIFEST],
+      `feat: add env var ${options.key} for ${profileLabel(options.project, options.profile)}`,
     );
   }
 }
 
+/**
+ * The value for env add: given programmatically, or read from stdin.
+ */
+async function readAddedValue(options: EnvAddOptions & { value?: string }): Promise<string> {
+  if (options.value !== undefined) {
+    // Value provided programmatically (from hidden prompt or stdin)
+    return options.value;
+  }
+  if (options.stdin) {
+    return readValueFromStdin();
+  }
+  throw new Error(
+    'A value is required.\n' +
+      'Use interactive prompt or --stdin to provide the value securely.',
+  );
+}
+
 /**
  * Options for env scan.
  */
@@ -269,8 +323,8 @@ export async function executeEnvScan(
 ): Promise<number> {
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey, options.project);
 
   const vars = selectedKeys
     .map((key) => ({
@@ -287,7 +341,7 @@ export async function executeEnvScan(
     options.project,
     vars,
     syncDir,
-    publicKey,
+    recipients,
     privateKey,
   );
 
@@ -295,7 +349,7 @@ export async function executeEnvScan(
   if (!options.noSync) {
     await commitState(
       syncDir,
-      [STATE_FILES.ENV_VARS, STATE_FILES.MANIFEST],
+      [projectStateFile(syncDir, 'env-vars', options.project), STATE_FILES.MANIFEST],
       `feat: scan ${count} env vars for ${options.project}`,
     );
   }
@@ -309,6 +363,10 @@ export async function executeEnvScan(
 export interface EnvListOptions {
   project: string;
   showValues?: boolean;
+  /** Env profile to list (default: the project's own vars) */
+  profile?: string;
+  /** Called with the linked groups this key is not a recipient of */
+  onSkippedGroups?: (groups: string[]) => void;
 }
 
 /**
@@ -317,14 +375,319 @@ export interface EnvListOptions {
 export async function executeEnvList(options: EnvListOptions): Promise<ListedEnvVar[]> {
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
-  const privateKey = loadKey(configDir);
+  const privateKey = await resolvePrivateKey(configDir);
 
-  return listEnvVars(
+  const vars = await listEnvVars(
     options.project,
     syncDir,
     privateKey,
     options.showValues ?? false,
+    options.profile,
+    { onSkippedGroups: options.onSkippedGroups },
+  );
+  return options.showValues ? resolveListedRefs(vars, configDir) : vars;
+}
+
+/**
+ * Replace the values of listed secret references by their secrets.
+ */
+async function resolveListedRefs(
+  vars: ListedEnvVar[],
+  configDir: string,
+): Promise<ListedEnvVar[]> {
+  if (!vars.some((v) => v.ref !== undefined)) return vars;
+
+  const providers = getSecretProviders(configDir);
+  const resolved: ListedEnvVar[] = [];
+  for (const v of vars) {
+    resolved.push(
+      v.ref !== undefined ? { ...v, value: await resolveSecretRef(v.ref, providers) } : v,
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Options for env export.
+ */
+export interface EnvExportOptions {
+  project: string;
+  format: string;
+  /** Only these keys */
+  only?: string[];
+  /** All keys but these */
+  except?: string[];
+  /** Secret name for `k8s-secret` (default: the project name) */
+  name?: string;
+  /** Env profile to export (default: the project's own vars) */
+  profile?: string;
+  /** Called with the linked groups this key is not a recipient of */
+  onSkippedGroups?: (groups: string[]) => void;
+}
+
+/**
+ * Execute env export: decrypt the project's env vars and render them.
+ *
+ * @returns The rendered text.
+ * @throws If the format is unknown, a key in `only` is not set, or a
+ *   key or value cannot be represented in the format.
+ */
+export async function executeEnvExport(options: EnvExportOptions): Promise<string> {
+  if (!(ENV_EXPORT_FORMATS as readonly string[]).includes(options.format)) {
+    throw new Error(
+      `Unknown format: ${options.format}\n` + `Valid formats: ${ENV_EXPORT_FORMATS.join(', ')}`,
+    );
+  }
+
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+  const privateKey = await resolvePrivateKey(configDir);
+
+  const listed = filterEnvVars(
+    await listEnvVars(options.project, syncDir, privateKey, true, options.profile, {
+      onSkippedGroups: options.onSkippedGroups,
+    }),
+    options.only,
+    options.except,
   );
+  const vars = (await resolveListedRefs(listed, configDir)).map(({ key, value }) => ({
+    key,
+    value,
+  }));
+
+  return formatEnvVars(vars, options.format as EnvExportFormat, {
+    secretName: options.name ?? options.project,
+  });
+}
+
+// ─── Groups ───────────────────────────────────────────────────────────────
+
+/**
+ * Options for the env group import command.
+ */
+export interface EnvGroupImportOptions {
+  group: string;
+  file?: string;
+  stdin?: boolean;
+  noSync?: boolean;
+}
+
+/**
+ * Execute env group import: add the vars of a .env file (or stdin) to
+ * a group, creating it if needed.
+ *
+ * @returns The count of imported variables.
+ */
+export async function executeEnvGroupImport(options: EnvGroupImportOptions): Promise<number> {
+  validateGroupName(options.group);
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey);
+
+  let content: string;
+  if (options.stdin) {
+    content = await readValueFromStdin();
+  } else if (options.file) {
+    const filePath = path.resolve(options.file);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    content = fs.readFileSync(filePath, 'utf-8');
+  } else {
+    throw new Error(
+      'Provide a file path or use --stdin, e.g.:\n' +
+        `  ctx-sync env group import ${options.group} aws.env\n` +
+        `  cat aws.env | ctx-sync env group import ${options.group} --stdin`,
+    );
+  }
+
+  const parsed = parseEnvFile(content);
+  if (parsed.length === 0) {
+    throw new Error('No environment variables found in input.');
+  }
+
+  const count = await importEnvGroup(options.group, parsed, syncDir, recipients, privateKey);
+
+  if (!options.noSync) {
+    await commitState(
+      syncDir,
+      [STATE_FILES.ENV_VARS, STATE_FILES.MANIFEST],
+      `feat: import ${count} env vars into group ${options.group}`,
+    );
+  }
+
+  return count;
+}
+
+/**
+ * Options for the env group add command.
+ */
+export interface EnvGroupAddOptions {
+  group: string;
+  key: string;
+  /** The value (from hidden prompt, stdin or a file descriptor — never CLI args) */
+  value: string;
+  noSync?: boolean;
+}
+
+/**
+ * Execute env group add (single variable), e.g. after a token rotates.
+ */
+export async function executeEnvGroupAdd(options: EnvGroupAddOptions): Promise<void> {
+  validateGroupName(options.group);
+  validateKeyArg(options.key);
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey);
+
+  await importEnvGroup(
+    options.group,
+    [{ key: options.key, value: options.value }],
+    syncDir,
+    recipients,
+    privateKey,
+  );
+
+  if (!options.noSync) {
+    await commitState(
+      syncDir,
+      [STATE_FILES.ENV_VARS, STATE_FILES.MANIFEST],
+      `feat: add env var ${options.key} to group ${options.group}`,
+    );
+  }
+}
+
+/** A group and its keys (never values) */
+export interface EnvGroupSummary {
+  group: string;
+  keys: string[];
+}
+
+/**
+ * Execute env group list: every group with its keys.
+ */
+export async function executeEnvGroupList(): Promise<EnvGroupSummary[]> {
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+  const privateKey = await resolvePrivateKey(configDir);
+
+  const envVars = await readState<EnvVars>(syncDir, privateKey, 'env-vars');
+  return listEnvGroups(envVars).map((group) => ({
+    group,
+    keys: Object.keys(envVars?.[envGroupKey(group)] ?? {}),
+  }));
+}
+
+/**
+ * Options for env link / unlink.
+ */
+export interface EnvLinkOptions {
+  project: string;
+  group: string;
+  noSync?: boolean;
+}
+
+/**
+ * Execute env link: make a project use a group.
+ *
+ * @returns `false` if the project already used the group.
+ */
+export async function executeEnvLink(options: EnvLinkOptions): Promise<boolean> {
+  return changeGroupLink(options, linkEnvGroup, 'uses');
+}
+
+/**
+ * Execute env unlink: stop a project from using a group.
+ *
+ * @returns `false` if the project did not use the group.
+ */
+export async function executeEnvUnlink(options: EnvLinkOptions): Promise<boolean> {
+  return changeGroupLink(options, unlinkEnvGroup, 'stops using');
+}
+
+async function changeGroupLink(
+  options: EnvLinkOptions,
+  change: typeof linkEnvGroup,
+  verb: string,
+): Promise<boolean> {
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey, options.project);
+
+  const changed = await change(options.project, options.group, syncDir, recipients, privateKey);
+
+  if (changed && !options.noSync) {
+    await commitState(
+      syncDir,
+      [projectStateFile(syncDir, 'env-vars', options.project), STATE_FILES.MANIFEST],
+      `feat: ${options.project} ${verb} env group ${options.group}`,
+    );
+  }
+  return changed;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+/**
+ * Read a secret value from stdin, a file descriptor, or a hidden prompt.
+ *
+ * @param key - The variable key (for the prompt).
+ * @param options - `stdin` / `fromFd` flags.
+ * @param fdExample - Example command shown when the descriptor cannot be read.
+ */
+async function readSecretValue(
+  key: string,
+  options: { stdin?: boolean; fromFd?: number },
+  fdExample: string,
+): Promise<string> {
+  if (options.stdin) {
+    // Read from stdin
+    return readValueFromStdin();
+  }
+  if (options.fromFd !== undefined) {
+    // Read from file descriptor
+    try {
+      const fd = fs.openSync(`/dev/fd/${options.fromFd}`, 'r');
+      const buffer = Buffer.alloc(65536);
+      const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null);
+      fs.closeSync(fd);
+      return buffer.slice(0, bytesRead).toString('utf-8').trim();
+    } catch {
+      throw new Error(
+        `Failed to read from file descriptor ${options.fromFd}.\n` +
+          `Open it in the shell first, e.g.: ${fdExample}`,
+      );
+    }
+  }
+  // Interactive prompt with hidden input
+  const Enquirer = (await import('enquirer')).default;
+  const enquirer = new Enquirer<{ value: string }>();
+  const response = await enquirer.prompt({
+    type: 'password',
+    name: 'value',
+    message: `Enter value for ${key}:`,
+  });
+  return response.value;
+}
+
+/** A project name, with the env profile when it is not the default */
+function profileLabel(project: string, profile: string = DEFAULT_ENV_PROFILE): string {
+  return profile === DEFAULT_ENV_PROFILE ? project : `${project} (${profile})`;
+}
+
+/** Split a `--only` / `--except` list */
+function parseKeyList(value: unknown): string[] | undefined {
+  return typeof value === 'string'
+    ? value.split(',').map((key) => key.trim()).filter(Boolean)
+    : undefined;
+}
+
+/** Warn on stderr about env groups left out, so exported output stays clean */
+function warnSkippedGroups(groups: string[]): void {
+  console.error(`⚠️  ${skippedGroupsWarning(groups)}`);
 }
 
 /**
@@ -341,6 +704,7 @@ export function registerEnvCommand(program: Command): void {
     .description('Import environment variables from a .env file')
     .option('--stdin', 'Read .env content from stdin')
     .option('--allow-plain', 'Store safe-listed keys as plaintext (not recommended)')
+    .option('--env <profile>', 'Import into this env profile (e.g. staging)')
     .option('--no-sync', 'Skip syncing to Git after import')
     .action(withErrorHandler(async (project: string, file: string | undefined, opts: Record<string, unknown>) => {
       const options: EnvImportOptions = {
@@ -349,6 +713,7 @@ export function registerEnvCommand(program: Command): void {
           stdin: opts['stdin'] as boolean | undefined,
           allowPlain: opts['allowPlain'] as boolean | undefined,
           noSync: opts['sync'] === false,
+          profile: opts['env'] as string | undefined,
         };
 
         const result = await executeEnvImport(options);
@@ -356,7 +721,7 @@ export function registerEnvCommand(program: Command): void {
         const chalk = (await import('chalk')).default;
         console.log(
           chalk.green(`✅ Imported ${result.importedCount} env vars`) +
-            ` for ${project}`,
+            ` for ${profileLabel(project, options.profile)}`,
         );
         console.log(
           chalk.dim(`   🔐 All ${result.importedCount} encrypted (encrypt-by-default)`),
@@ -379,6 +744,8 @@ export function registerEnvCommand(program: Command): void {
     .description('Add a single environment variable (secure input)')
     .option('--stdin', 'Read value from stdin')
     .option('--from-fd <fd>', 'Read value from file descriptor')
+    .option('--ref <reference>', 'Store a reference to an external secret (op://…, pass:…, vault:…#field)')
+    .option('--env <profile>', 'Add to this env profile (e.g. staging)')
     .option('--no-sync', 'Skip syncing to Git')
     .action(withErrorHandler(async (project: string, key: string, opts: Record<string, unknown>) => {
       const addOptions: EnvAddOptions & { value?: string } = {
@@ -387,45 +754,36 @@ export function registerEnvCommand(program: Command): void {
           stdin: opts['stdin'] as boolean | undefined,
           fromFd: opts['fromFd'] !== undefined ? Number(opts['fromFd']) : undefined,
           noSync: opts['sync'] === false,
+          profile: opts['env'] as string | undefined,
+          ref: opts['ref'] as string | undefined,
         };
 
         // Validate key does not contain embedded value (security check)
         validateKeyArg(key);
 
-        if (addOptions.stdin) {
-          // Read from stdin
-          addOptions.value = await readValueFromStdin();
-        } else if (addOptions.fromFd !== undefined) {
-          // Read from file descriptor
-          try {
-            const fd = fs.openSync(`/dev/fd/${addOptions.fromFd}`, 'r');
-            const buffer = Buffer.alloc(65536);
-            const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null);
-            fs.closeSync(fd);
-            addOptions.value = buffer.slice(0, bytesRead).toString('utf-8').trim();
-          } catch {
-            throw new Error(
-              `Failed to read from file descriptor ${addOptions.fromFd}.\n` +
-                `Usage: ctx-sync env add ${project} ${key} --from-fd 3 3< <(pass show key)`,
-            );
+        if (addOptions.ref !== undefined) {
+          if (addOptions.stdin || addOptions.fromFd !== undefined) {
+            throw new Error('--ref stores a reference, not a value: drop --stdin and --from-fd.');
           }
         } else {
-          // Interactive prompt with hidden input
-          const Enquirer = (await import('enquirer')).default;
-          const enquirer = new Enquirer<{ value: string }>();
-          const response = await enquirer.prompt({
-            type: 'password',
-            name: 'value',
-            message: `Enter value for ${key}:`,
-          });
-          addOptions.value = response.value;
+          addOptions.value = await readSecretValue(
+            key,
+            addOptions,
+            `ctx-sync env add ${project} ${key} --from-fd 3 3< <(pass show key)`,
+          );
         }
 
         await executeEnvAdd(addOptions);
 
         const chalk = (await import('chalk')).default;
-        console.log(chalk.green(`✅ Added ${key}`) + ` for ${project}`);
-        console.log(chalk.dim('   🔐 Encrypted and saved'));
+        console.log(chalk.green(`✅ Added ${key}`) + ` for ${profileLabel(project, addOptions.profile)}`);
+        console.log(
+          chalk.dim(
+            addOptions.ref !== undefined
+              ? `   🔗 Refers to ${addOptions.ref} — read from the provider when used`
+              : '   🔐 Encrypted and saved',
+          ),
+        );
     }));
 
   // --- env scan ---
@@ -494,12 +852,19 @@ export function registerEnvCommand(program: Command): void {
     .command('list <project>')
     .description('List environment variables for a project')
     .option('--show-values', 'Show decrypted values (use with caution)')
+    .option('--env <profile>', 'List this env profile, inherited vars included')
     .action(withErrorHandler(async (project: string, opts: Record<string, unknown>) => {
       const showValues = opts['showValues'] as boolean | undefined;
-        const vars = await executeEnvList({ project, showValues });
+        const profile = opts['env'] as string | undefined;
+        const vars = await executeEnvList({
+          project,
+          showValues,
+          profile,
+          onSkippedGroups: warnSkippedGroups,
+        });
 
         if (vars.length === 0) {
-          console.log(`No environment variables for project "${project}".`);
+          console.log(`No environment variables for ${profileLabel(project, profile)}.`);
           console.log('\nImport from a .env file:');
           console.log(`  $ ctx-sync env import ${project} .env`);
           return;
@@ -514,15 +879,167 @@ export function registerEnvCommand(program: Command): void {
         }
 
         console.log(
-          chalk.bold(`Environment variables for ${project} (${vars.length}):\n`),
+          chalk.bold(`Environment variables for ${profileLabel(project, profile)} (${vars.length}):\n`),
         );
 
         for (const v of vars) {
           const added = new Date(v.addedAt);
-          console.log(`  ${chalk.cyan(v.key)} = ${v.value}`);
+          const source = v.group
+            ? chalk.dim(` (from group ${v.group})`)
+            : v.inherited && profile
+              ? chalk.dim(` (from ${DEFAULT_ENV_PROFILE})`)
+              : '';
+          const ref = v.ref !== undefined ? chalk.dim(` → ${v.ref}`) : '';
+          console.log(`  ${chalk.cyan(v.key)} = ${v.value}${ref}${source}`);
           console.log(
             chalk.dim(`     Added: ${added.toLocaleDateString()} ${added.toLocaleTimeString()}`),
           );
         }
     }));
+
+  // --- env export ---
+  env
+    .command('export <project>')
+    .description('Print env vars for other tools (decrypted values)')
+    .option('--format <format>', `Output format: ${ENV_EXPORT_FORMATS.join('|')}`, 'dotenv')
+    .option('--only <keys>', 'Only these keys (comma-separated)')
+    .option('--except <keys>', 'All keys but these (comma-separated)')
+    .option('--name <name>', 'Secret name for k8s-secret (default: the project name)')
+    .option('--env <profile>', 'Export this env profile, inherited vars included')
+    .option('--fd <fd>', 'Write to this file descriptor instead of stdout')
+    .action(withErrorHandler(async (project: string, opts: Record<string, unknown>) => {
+      const fd = opts['fd'] !== undefined ? Number(opts['fd']) : 1;
+      if (!Number.isInteger(fd) || fd < 1) {
+        throw new Error(`Invalid file descriptor: ${String(opts['fd'])}`);
+      }
+
+      const output = await executeEnvExport({
+        project,
+        format: opts['format'] as string,
+        only: parseKeyList(opts['only']),
+        except: parseKeyList(opts['except']),
+        name: opts['name'] as string | undefined,
+        profile: opts['env'] as string | undefined,
+        onSkippedGroups: warnSkippedGroups,
+      });
+
+      if (fd === 1 && process.stdout.isTTY) {
+        const chalk = (await import('chalk')).default;
+        console.error(chalk.yellow('⚠️  Printing decrypted values — be careful with screen sharing!'));
+      }
+
+      if (fd === 1) {
+        process.stdout.write(output);
+        return;
+      }
+      try {
+        const bytes = Buffer.from(output, 'utf-8');
+        for (let written = 0; written < bytes.length;) {
+          written += fs.writeSync(fd, bytes, written);
+        }
+      } catch {
+        throw new Error(
+          `Failed to write to file descriptor ${String(fd)}.\n` +
+            `Open it in the shell first, e.g.: ctx-sync env export ${project} --fd 3 3> secrets.env`,
+        );
+      }
+    }));
+
+  // --- env group ---
+  const group = env
+    .command('group')
+    .description('Manage env groups: vars stored once and used by many projects');
+
+  group
+    .command('import <group> [file]')
+    .description('Import env vars from a .env file into a group')
+    .option('--stdin', 'Read .env content from stdin')
+    .option('--no-sync', 'Skip syncing to Git after import')
+    .action(withErrorHandler(async (name: string, file: string | undefined, opts: Record<string, unknown>) => {
+      const count = await executeEnvGroupImport({
+        group: name,
+        file,
+        stdin: opts['stdin'] as boolean | undefined,
+        noSync: opts['sync'] === false,
+      });
+
+      const chalk = (await import('chalk')).default;
+      console.log(chalk.green(`✅ Imported ${count} env vars`) + ` into group ${name}`);
+      console.log(chalk.dim('   🔐 Encrypted and saved to env-vars.age'));
+    }));
+
+  group
+    .command('add <group> <key>')
+    .description('Add or replace a single variable in a group (secure input)')
+    .option('--stdin', 'Read value from stdin')
+    .option('--from-fd <fd>', 'Read value from file descriptor')
+    .option('--no-sync', 'Skip syncing to Git')
+    .action(withErrorHandler(async (name: string, key: string, opts: Record<string, unknown>) => {
+      validateKeyArg(key);
+      const value = await readSecretValue(
+        key,
+        {
+          stdin: opts['stdin'] as boolean | undefined,
+          fromFd: opts['fromFd'] !== undefined ? Number(opts['fromFd']) : undefined,
+        },
+        `ctx-sync env group add ${name} ${key} --from-fd 3 3< <(pass show key)`,
+      );
+
+      await executeEnvGroupAdd({ group: name, key, value, noSync: opts['sync'] === false });
+
+      const chalk = (await import('chalk')).default;
+      console.log(chalk.green(`✅ Added ${key}`) + ` to group ${name}`);
+      console.log(chalk.dim('   🔐 Encrypted and saved'));
+    }));
+
+  group
+    .command('list')
+    .description('List env groups and their keys (values are never shown)')
+    .action(withErrorHandler(async () => {
+      const groups = await executeEnvGroupList();
+
+      if (groups.length === 0) {
+        console.log('No env groups yet.');
+        console.log('\nCreate one from a .env file:');
+        console.log('  $ ctx-sync env group import aws aws.env');
+        return;
+      }
+
+      const chalk = (await import('chalk')).default;
+      for (const { group: name, keys } of groups) {
+        console.log(`${chalk.bold(name)} (${keys.length})`);
+        console.log(chalk.dim(`  ${keys.join(', ')}`));
+      }
+    }));
+
+  // --- env link / unlink ---
+  env
+    .command('link <project> <group>')
+    .description('Make a project use an env group (its own vars still win)')
+    .option('--no-sync', 'Skip syncing to Git')
+    .action(withErrorHandler(async (project: string, name: string, opts: Record<string, unknown>) => {
+      const linked = await executeEnvLink({ project, group: name, noSync: opts['sync'] === false });
+
+      const chalk = (await import('chalk')).default;
+      console.log(
+        linked
+          ? chalk.green(`✅ ${project} now uses env group ${name}`)
+          : `${project} already uses env group ${name}.`,
+      );
+    }));
+
+  env
+    .command('unlink <project> <group>')
+    .description('Stop a project from using an env group')
+    .option('--no-sync', 'Skip syncing to Git')
+    .action(withErrorHandler(async (project: string, name: string, opts: Record<string, unknown>) => {
+      const unlinked = await executeEnvUnlink({ project, group: name, noSync: opts['sync'] === false });
+
+      const chalk = (await import('chalk')).default;
+      console.log(
+        unlinked
+          ? chalk.green(`✅ ${project} no longer uses env group ${name}`)
+          : `${project} does not use env group ${name}.`,
+      );
+    }));
 }
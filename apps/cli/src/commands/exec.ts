@@ -0,0 +1,107 @@
+/**
+ * `ctx-sync exec <project> -- <command...>` command.
+ *
+ * Runs a command with the project's env vars decrypted in memory and
+ * merged over the current environment. Unlike `restore`, no `.env` file
+ * is written: the secrets exist only in the child's environment.
+ * `--env <profile>` injects a named env profile instead. Secret
+ * references (`op://…`) are read from their providers at this point.
+ *
+ * Signals are forwarded to the command, and ctx-sync exits with the
+ * command's exit code (or is killed by the same signal), so it can be
+ * used in scripts and process managers like the command itself.
+ *
+ * @module commands/exec
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Command } from 'commander';
+import { withErrorHandler } from '../utils/errors.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { readMergedProjects, findProject } from '../core/machine-state.js';
+import { readEnvVars, resolveEnvProfile, skippedGroupsWarning } from '../core/env-handler.js';
+import { getSecretProviders, resolveSecretRefs } from '../core/secret-refs.js';
+import { buildExecEnv, exitCodeOf, runWithEnv } from '../core/env-exec.js';
+import type { ExecOutcome } from '../core/env-exec.js';
+import { getConfigDir, getSyncDir } from './init.js';
+
+/** Options for the exec command */
+export interface ExecOptions {
+  /** Working directory for the command (default: the current one) */
+  cwd?: string;
+  /** Env profile to inject (default: the project's own vars) */
+  profile?: string;
+  /** Override for running the command (for testing) */
+  runFn?: typeof runWithEnv;
+}
+
+/**
+ * Execute the exec command logic.
+ *
+ * @param projectName - The project whose env vars to inject.
+ * @param argv - The command and its arguments.
+ * @param options - Working directory, env profile and runner override.
+ * @returns How the command ended.
+ * @throws If no command is given, or the project or profile does not exist.
+ */
+export async function executeExec(
+  projectName: string,
+  argv: string[],
+  options: ExecOptions = {},
+): Promise<ExecOutcome> {
+  const [command, ...args] = argv;
+  if (!command) {
+    throw new Error('No command given. Usage: ctx-sync exec <project> -- <command...>');
+  }
+
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+
+  if (!fs.existsSync(syncDir) || !fs.existsSync(path.join(syncDir, '.git'))) {
+    throw new Error('No sync repository found. Run `ctx-sync init` first.');
+  }
+
+  const privateKey = await resolvePrivateKey(configDir);
+
+  const projects = await readMergedProjects(syncDir, privateKey);
+  const project = projects ? findProject(projects, projectName) : undefined;
+  if (!project) {
+    throw new Error(
+      `Project "${projectName}" not found.\n` + 'List tracked projects with: ctx-sync list',
+    );
+  }
+
+  const envVars = await readEnvVars(syncDir, privateKey, project.name, {
+    onSkippedGroups: (groups) => console.warn(`⚠️  ${skippedGroupsWarning(groups)}`),
+  });
+  const env = buildExecEnv(
+    process.env,
+    await resolveSecretRefs(
+      resolveEnvProfile(envVars, project.name, options.profile),
+      getSecretProviders(configDir),
+    ),
+  );
+
+  return (options.runFn ?? runWithEnv)(command, args, env, options.cwd);
+}
+
+/**
+ * Register the `exec` command on the given Commander program.
+ */
+export function registerExecCommand(program: Command): void {
+  program
+    .command('exec <project> <command...>')
+    .description('Run a command with the project\'s env vars injected (no .env file written)')
+    .usage('<project> [--env <profile>] -- <command...>')
+    .option('--env <profile>', 'Inject this env profile (e.g. staging)')
+    .action(withErrorHandler(async (projectName: string, argv: string[], opts: Record<string, unknown>) => {
+      const outcome = await executeExec(projectName, argv, { profile: opts['env'] as string | undefined });
+
+      // Die the way the command did, so the parent shell sees the same status
+      if (outcome.signal) {
+        process.kill(process.pid, outcome.signal);
+      }
+      process.exit(exitCodeOf(outcome));
+    }));
+}
@@ -0,0 +1,98 @@
+/**
+ * `ctx-sync history [file]` command.
+ *
+ * Lists the commits in the sync repo that changed state, newest first.
+ * Each commit's versions are decrypted in memory and compared with the
+ * version before, so the log reads as "projects added, env keys
+ * changed, blockers resolved" rather than as opaque ciphertext churn.
+ *
+ * Env var values are never shown — only the names of the keys that
+ * were added, changed or removed.
+ *
+ * @module commands/history
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Command } from 'commander';
+import { withErrorHandler } from '../utils/errors.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import {
+  DEFAULT_HISTORY_LIMIT,
+  getStateHistory,
+  parseStateFileType,
+} from '../core/state-history.js';
+import type { HistoryEntry } from '../core/state-history.js';
+import { getConfigDir, getSyncDir } from './init.js';
+
+/** Options for the history command */
+export interface HistoryOptions {
+  /** Only commits that changed this state file (e.g. 'env-vars') */
+  file?: string;
+  /** Most commits to list */
+  limit?: number;
+}
+
+/**
+ * Execute the history command logic.
+ *
+ * @param options - File filter and commit limit.
+ * @returns The commits that changed state, newest first.
+ */
+export async function executeHistory(options: HistoryOptions = {}): Promise<HistoryEntry[]> {
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+
+  if (!fs.existsSync(path.join(syncDir, '.git'))) {
+    throw new Error('No sync repository found. Run `ctx-sync init` first.');
+  }
+
+  const fileType = options.file ? parseStateFileType(options.file) : undefined;
+  const privateKey = await resolvePrivateKey(configDir);
+
+  return getStateHistory(syncDir, privateKey, { fileType, limit: options.limit });
+}
+
+/**
+ * Register the `history` command on the given Commander program.
+ */
+export function registerHistoryCommand(program: Command): void {
+  program
+    .command('history [file]')
+    .description('Show what changed in each state commit (never shows secret values)')
+    .option('-n, --limit <count>', 'Most commits to show', String(DEFAULT_HISTORY_LIMIT))
+    .action(withErrorHandler(async (file: string | undefined, opts: Record<string, unknown>) => {
+      const chalk = (await import('chalk')).default;
+
+      const limit = Number(opts['limit']);
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error(`Invalid limit: ${String(opts['limit'])}. Use a positive whole number.`);
+      }
+
+      const entries = await executeHistory({ file, limit });
+
+      if (entries.length === 0) {
+        console.log(chalk.dim(`No ${file ? `${file} ` : ''}history yet.`));
+        return;
+      }
+
+      for (const entry of entries) {
+        console.log('');
+        console.log(
+          `${chalk.yellow(entry.hash.slice(0, 7))} ${chalk.dim(new Date(entry.date).toLocaleString())}  ${entry.message}`,
+        );
+        for (const change of entry.changes) {
+          console.log(`  ${chalk.cyan(change.file)}`);
+          if (change.unreadable) {
+            console.log(chalk.red('    cannot be decrypted with this key'));
+          }
+          for (const line of change.summary) {
+            console.log(`    • ${line}`);
+          }
+        }
+      }
+      console.log('');
+      console.log(chalk.dim('  Restore a version with: ctx-sync rollback <commit> [--file <file>]'));
+      console.log('');
+    }));
+}
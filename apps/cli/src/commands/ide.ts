@@ -0,0 +1,126 @@
+/**
+ * `ctx-sync ide` command group.
+ *
+ * Captures editor state so it can be restored on another machine:
+ *   - `ide capture <project>` — save the project's VS Code extensions,
+ *     workspace settings changes and open editors (with cursor
+ *     positions) to `ide-state.age`.
+ *
+ * `ctx-sync track` captures the same state. It is restored by
+ * `ctx-sync restore`, where extension installs, the settings update and
+ * reopening the last file go through the usual approval prompt.
+ *
+ * @module commands/ide
+ */
+
+import type { Command } from 'commander';
+import { withErrorHandler } from '../utils/errors.js';
+import { STATE_FILES } from '@ctx-sync/shared';
+import type { ProjectIdeState } from '@ctx-sync/shared';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { resolveRecipients } from '../core/recipients.js';
+import { commitState } from '../core/git-sync.js';
+import { readMergedProjects, findProject, getLocalView } from '../core/machine-state.js';
+import { captureIdeState, saveIdeState } from '../core/ide-state.js';
+import { getConfigDir, getSyncDir } from './init.js';
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** Options for IDE capture */
+export interface IdeCaptureOptions {
+  /** Skip the Git commit */
+  noSync?: boolean;
+}
+
+/** Result of IDE capture */
+export interface IdeCaptureResult {
+  /** The tracked project name */
+  project: string;
+  /** The captured state */
+  ideState: ProjectIdeState;
+}
+
+// ─── Core Logic ───────────────────────────────────────────────────────────
+
+/**
+ * Execute `ctx-sync ide capture <project>`.
+ *
+ * @param projectName - The tracked project to capture VS Code state for.
+ * @param options - Sync options.
+ * @returns The captured state.
+ * @throws If the project is not tracked or no VS Code state is found.
+ */
+export async function executeIdeCapture(
+  projectName: string,
+  options: IdeCaptureOptions = {},
+): Promise<IdeCaptureResult> {
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey);
+
+  const projects = await readMergedProjects(syncDir, privateKey);
+  const project = projects ? findProject(projects, projectName) : null;
+  if (!project) {
+    throw new Error(
+      `Project "${projectName}" not found. Track it first with \`ctx-sync track\`.`,
+    );
+  }
+
+  const projectPath = getLocalView(project)?.path ?? project.path;
+  const ideState = await captureIdeState(projectPath);
+  if (!ideState) {
+    throw new Error(
+      `No VS Code state found for "${project.name}".\n` +
+        'Make sure the `code` command is on your PATH, or open the project folder in VS Code first.',
+    );
+  }
+
+  await saveIdeState(syncDir, project.name, ideState, recipients, privateKey);
+
+  if (!options.noSync) {
+    await commitState(
+      syncDir,
+      [STATE_FILES.IDE_STATE, STATE_FILES.MANIFEST],
+      `ide: capture ${project.name}`,
+    );
+  }
+
+  return { project: project.name, ideState };
+}
+
+// ─── Commander Registration ───────────────────────────────────────────────
+
+/**
+ * Register the `ctx-sync ide` command group on the given program.
+ */
+export function registerIdeCommand(program: Command): void {
+  const ideCmd = program
+    .command('ide')
+    .description('Capture editor state for restore');
+
+  // ── ide capture ───────────────────────────────────────────────────
+  ideCmd
+    .command('capture <project>')
+    .description('Save the project\'s VS Code extensions, settings and open editors')
+    .option('--no-sync', 'Skip committing to sync repo')
+    .action(withErrorHandler(async (projectName: string, opts: { sync: boolean }) => {
+      const result = await executeIdeCapture(projectName, { noSync: !opts.sync });
+      const chalk = (await import('chalk')).default;
+      const { extensions, settings, editors } = result.ideState.vscode;
+
+      console.log(
+        chalk.green(
+          `✓ Captured VS Code state for ${result.project} ` +
+            `(${String(extensions.length)} extensions, ${String(Object.keys(settings).length)} settings, ` +
+            `${String(editors.length)} open editors)`,
+        ),
+      );
+      const [last] = editors;
+      if (last) {
+        console.log(`   Last file: ${last.file}:${String(last.line)}:${String(last.column)}`);
+      }
+      console.log(chalk.dim('   Restored with: ctx-sync restore ' + result.project));
+    }));
+}
@@ -3,6 +3,8 @@
  *
  * Handles first-time setup (key generation, Git repo init, remote config)
  * and `--restore` flow (key restoration, repo clone, state decryption).
+ * With `--from-shares`, the key is rebuilt from `ctx-sync key backup`
+ * shares instead of being pasted in.
  *
  * @module commands/init
  */
@@ -12,12 +14,15 @@ import * as path from 'node:path';
 import * as os from 'node:os';
 import type { Command } from 'commander';
 import { VERSION, SYNC_DIR, CONFIG_DIR, STATE_FILES } from '@ctx-sync/shared';
-import type { Manifest } from '@ctx-sync/shared';
-import { generateKey } from '../core/encryption.js';
+import type { Manifest, StateFile, LegacyStateFile } from '@ctx-sync/shared';
+import { generateKey, getPublicKey } from '../core/encryption.js';
 import { decryptState } from '../core/encryption.js';
-import { saveKey, loadKey } from '../core/key-store.js';
+import { saveKey, resolvePrivateKey } from '../core/key-store.js';
+import { combineShares, parseShare, splitShareText } from '../core/key-backup.js';
 import { initRepo, addRemote, commitState, pushState } from '../core/git-sync.js';
 import { validateRemoteUrl } from '../core/transport.js';
+import { mergeProjects, normalizeStateFile } from '../core/machine-state.js';
+import { pinClonedRoster } from '../core/roster.js';
 import { withErrorHandler } from '../utils/errors.js';
 
 /** Options for the init command */
@@ -28,6 +33,8 @@ export interface InitOptions {
   remote?: string;
   stdin?: boolean;
   force?: boolean;
+  /** Rebuild the key from key backup shares (for --restore) */
+  fromShares?: boolean;
 }
 
 /** Result of a fresh init */
@@ -115,9 +122,8 @@ export async function executeInit(options: InitOptions): Promise<InitResult> {
   if (keyExists && !options.force) {
     // Key already exists — skip key generation, just update remote config
     keySkipped = true;
-    const { identityToRecipient } = await import('age-encryption');
-    const existingKey = loadKey(configDir);
-    publicKey = await identityToRecipient(existingKey);
+    const existingKey = await resolvePrivateKey(configDir);
+    publicKey = await getPublicKey(existingKey);
   } else {
     // Generate new key (fresh init or --force)
     const keyPair = await generateKey();
@@ -180,21 +186,25 @@ export async function executeInit(options: InitOptions): Promise<InitResult> {
 /**
  * Execute the restore flow.
  *
- * 1. Accept private key (from --stdin or prompt).
+ * 1. Accept private key (from --stdin or prompt), or rebuild it from
+ *    key backup shares.
  * 2. Save key with 0o600 permissions.
  * 3. Prompt for Git remote URL (or use --remote).
  * 4. Validate remote URL.
- * 5. Clone the sync repo to ~/.context-sync/.
+ * 5. Clone the sync repo to ~/.context-sync/ and pin its team roster.
  * 6. Decrypt manifest, list found projects.
  * 7. Print summary.
  */
 export async function executeRestore(
-  options: InitOptions & { key?: string },
+  options: InitOptions & { key?: string; shares?: string[] },
 ): Promise<RestoreResult> {
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
 
   // 1-2. Save provided key
+  if (options.shares) {
+    options.key = await combineShares(options.shares);
+  }
   if (!options.key) {
     throw new Error(
       'Private key is required for restore.\n' +
@@ -238,6 +248,13 @@ export async function executeRestore(
     const { createGit: createGitInstance } = await import('../core/git-sync.js');
     const git = createGitInstance('.');
     await git.clone(remoteUrl, syncDir);
+
+    // Trust the roster of the repo the user chose; one swapped in later is refused
+    try {
+      pinClonedRoster(syncDir, configDir, await getPublicKey(trimmedKey));
+    } catch {
+      // An unverified roster is reported by the next pull
+    }
   } else {
     // Just init locally (no remote to clone from)
     await initRepo(syncDir);
@@ -251,21 +268,14 @@ export async function executeRestore(
   const stateFile = path.join(syncDir, STATE_FILES.STATE);
   if (fs.existsSync(stateFile)) {
     try {
-      const privateKey = loadKey(configDir);
+      const privateKey = await resolvePrivateKey(configDir);
       const ciphertext = fs.readFileSync(stateFile, 'utf-8');
-      const state = await decryptState<{ projects?: Array<{ name: string }> }>(
-        ciphertext,
-        privateKey,
-      );
-
-      if (state.projects && Array.isArray(state.projects)) {
-        projectCount = state.projects.length;
-        for (const project of state.projects) {
-          if (project.name) {
-            projectNames.push(project.name);
-          }
-        }
+      const state = await decryptState<StateFile | LegacyStateFile>(ciphertext, privateKey);
+
+      for (const project of mergeProjects(normalizeStateFile(state))) {
+        projectNames.push(project.name);
       }
+      projectCount = projectNames.length;
     } catch {
       // Decryption failed — wrong key or corrupted state
       // Not fatal for setup, but we track it to show a warning
@@ -306,6 +316,38 @@ export function readKeyFromStdin(): Promise<string> {
   });
 }
 
+/**
+ * Prompt for key backup shares one at a time until there are enough to
+ * rebuild the key. A mistyped share is reported and asked for again.
+ */
+async function readSharesFromPrompt(): Promise<string[]> {
+  const Enquirer = (await import('enquirer')).default;
+  const chalk = (await import('chalk')).default;
+  const shares: string[] = [];
+  let threshold: number | undefined;
+
+  while (threshold === undefined || shares.length < threshold) {
+    const enquirer = new Enquirer<{ share: string }>();
+    const response = await enquirer.prompt({
+      type: 'input',
+      name: 'share',
+      message: threshold === undefined
+        ? 'Key share 1 (CTXS1-...):'
+        : `Key share ${String(shares.length + 1)} of ${String(threshold)}:`,
+    } as Parameters<typeof enquirer.prompt>[0]);
+
+    for (const share of splitShareText(response.share)) {
+      try {
+        threshold = parseShare(share, shares.length + 1).threshold;
+        shares.push(share);
+      } catch (err) {
+        console.log(chalk.yellow(err instanceof Error ? err.message : String(err)));
+      }
+    }
+  }
+  return shares;
+}
+
 /**
  * Register the `init` command on the given Commander program.
  */
@@ -318,20 +360,33 @@ export function registerInitCommand(program: Command): void {
     .option('--skip-backup', 'Skip key backup prompt (not recommended)')
     .option('--remote <url>', 'Git remote URL for syncing')
     .option('--stdin', 'Read private key from stdin (for --restore)')
+    .option('--from-shares', 'Rebuild the private key from key backup shares (for --restore)')
     .option('--force', 'Force re-initialization (regenerates encryption key)')
     .action(withErrorHandler(async (opts: Record<string, unknown>) => {
-      const options: InitOptions & { key?: string } = {
+      const options: InitOptions & { key?: string; shares?: string[] } = {
         restore: opts['restore'] as boolean | undefined,
         noInteractive: opts['interactive'] === false,
         skipBackup: opts['skipBackup'] as boolean | undefined,
         remote: opts['remote'] as string | undefined,
         stdin: opts['stdin'] as boolean | undefined,
         force: opts['force'] as boolean | undefined,
+        fromShares: opts['fromShares'] as boolean | undefined,
       };
 
       if (options.restore) {
           // Restore flow
-          if (options.stdin) {
+          if (options.fromShares) {
+            if (options.stdin) {
+              options.shares = splitShareText(await readKeyFromStdin());
+            } else if (!options.noInteractive) {
+              options.shares = await readSharesFromPrompt();
+            } else {
+              throw new Error(
+                'Key shares are required for restore.\n' +
+                  'Use --stdin to pipe the shares, or run without --no-interactive for a prompt.',
+              );
+            }
+          } else if (options.stdin) {
             options.key = await readKeyFromStdin();
           } else if (!options.noInteractive) {
             // Interactive prompt for key
@@ -353,7 +408,10 @@ export function registerInitCommand(program: Command): void {
           const result = await executeRestore(options);
 
           const chalk = (await import('chalk')).default;
-          console.log(chalk.green('✅ Key restored') + ' (permissions set to 600)');
+          console.log(
+            chalk.green(options.shares ? '✅ Key rebuilt from shares' : '✅ Key restored') +
+              ' (permissions set to 600)',
+          );
           console.log(`📂 Sync directory: ${result.syncDir}`);
 
           if (result.remoteUrl) {
@@ -408,6 +466,7 @@ export function registerInitCommand(program: Command): void {
                 chalk.yellow('\n⚠️  IMPORTANT: Back up your private key NOW!'),
               );
               console.log('Save it to 1Password, Bitwarden, or another password manager.');
+              console.log('Or split it into paper shares: ctx-sync key backup --shares 5 --threshold 3');
             }
           }
 
@@ -0,0 +1,123 @@
+/**
+ * `ctx-sync jump` command.
+ *
+ * Prints the tracked directory that best matches the given fragments,
+ * ranked by frecency (visit count weighted by recency). The shell hook
+ * from `ctx-sync shell-init` wraps it in a function that `cd`s to the
+ * result.
+ *
+ * Visits still waiting in the shell hook's queue are counted too, and
+ * directories that do not exist on this machine are skipped.
+ *
+ * @module commands/jump
+ */
+
+import * as fs from 'node:fs';
+import type { Command } from 'commander';
+import { withErrorHandler } from '../utils/errors.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import {
+  loadDirectories,
+  addVisits,
+  rankDirectories,
+  frecencyScore,
+} from '../core/directories-handler.js';
+import { peekVisitQueue } from '../core/shell-integration.js';
+import { getConfigDir, getSyncDir } from './init.js';
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** Options for jump */
+export interface JumpOptions {
+  /** Directory to exclude from the results (default: the current directory) */
+  cwd?: string;
+}
+
+/** One ranked directory */
+export interface JumpCandidate {
+  path: string;
+  score: number;
+}
+
+/** Result of jump */
+export interface JumpResult {
+  /** The best match */
+  path: string;
+  /** All matches, best first */
+  candidates: JumpCandidate[];
+}
+
+// ─── Core Logic ───────────────────────────────────────────────────────────
+
+/**
+ * Check whether a path is an existing directory on this machine.
+ */
+function isDirectory(dirPath: string): boolean {
+  try {
+    return fs.statSync(dirPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Execute `ctx-sync jump <fragments...>`.
+ *
+ * @param keywords - Path fragments to match.
+ * @param options  - Directory to exclude.
+ * @returns The best match and the full ranking.
+ * @throws If no tracked directory matches.
+ */
+export async function executeJump(
+  keywords: string[],
+  options: JumpOptions = {},
+): Promise<JumpResult> {
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+  const cwd = options.cwd ?? process.cwd();
+
+  const privateKey = await resolvePrivateKey(configDir);
+  const state = await loadDirectories(syncDir, privateKey);
+  addVisits(state, peekVisitQueue(configDir), new Date().toISOString());
+
+  const now = Date.now();
+  const candidates = rankDirectories(state.recentDirs, keywords, now)
+    .filter((dir) => dir.path !== cwd && isDirectory(dir.path))
+    .map((dir) => ({ path: dir.path, score: frecencyScore(dir, now) }));
+
+  const best = candidates[0];
+  if (!best) {
+    throw new Error(
+      keywords.length > 0
+        ? `No tracked directory matches "${keywords.join(' ')}".`
+        : 'No tracked directories yet. Enable the shell hook with: eval "$(ctx-sync shell-init bash)"',
+    );
+  }
+
+  return { path: best.path, candidates };
+}
+
+// ─── Commander Registration ───────────────────────────────────────────────
+
+/**
+ * Register the `ctx-sync jump` command on the given program.
+ */
+export function registerJumpCommand(program: Command): void {
+  program
+    .command('jump [fragments...]')
+    .description('Print the best-matching tracked directory (frecency-ranked)')
+    .option('-l, --list', 'List all matches with their scores')
+    .action(withErrorHandler(async (fragments: string[], opts: { list?: boolean }) => {
+      const result = await executeJump(fragments);
+
+      if (opts.list) {
+        for (const candidate of result.candidates) {
+          console.log(`${candidate.score.toFixed(2).padStart(8)}  ${candidate.path}`);
+        }
+        return;
+      }
+
+      // Plain path only: the shell function reads it with $(...)
+      console.log(result.path);
+    }));
+}
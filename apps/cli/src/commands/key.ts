@@ -2,15 +2,25 @@
  * `ctx-sync key` command group.
  *
  * Manages encryption key lifecycle:
- *   - `key show`   — display public key (NEVER the private key).
+ *   - `key show`   — display public key and roster signing key (NEVER the private key).
  *   - `key verify`  — check key file and config directory permissions.
- *   - `key rotate`  — generate new key, re-encrypt all state, rewrite Git history.
+ *   - `key rotate`  — generate new key, re-encrypt all state for all recipients,
+ *     optionally rewrite Git history.
  *   - `key update`  — restore a rotated key from another machine (stdin/prompt).
+ *   - `key protect` / `key unprotect` — wrap or unwrap the key with a passphrase.
+ *   - `key unlock`  — keep a wrapped key unlocked in the key agent for a while.
+ *   - `key lock`    — make the agent forget the key now.
+ *   - `key backup`  — split the key into Shamir shares for paper backup.
  *
  * **Security:**
  *   - `key show` never outputs the private key.
- *   - `key rotate` rewrites Git history so old encrypted blobs are purged.
+ *   - `key rotate --rewrite-history` rewrites Git history so old encrypted
+ *     blobs are purged.
  *   - `key update` reads the new private key from stdin, never from CLI args.
+ *   - Passphrases are prompted for or read from stdin, never from CLI args.
+ *   - The key agent holds the key in memory only, behind a 0o600 socket
+ *     (see `commands/agent`).
+ *   - `key backup` works offline; share files are written with 0o600.
  *
  * @module commands/key
  */
@@ -21,25 +31,46 @@ import * as readline from 'node:readline';
 import type { Command } from 'commander';
 import { withErrorHandler } from '../utils/errors.js';
 import { identityToRecipient } from 'age-encryption';
-import { generateKey, decryptState, encryptState } from '../core/encryption.js';
+import { STATE_FILES } from '@ctx-sync/shared';
+import { generateKey, getPublicKey, decryptState, encryptStateForRecipients } from '../core/encryption.js';
 import {
   saveKey,
+  saveWrappedKey,
+  unwrapKey,
+  isKeyWrapped,
   loadKey,
+  resolvePrivateKey,
   verifyPermissions,
   KEY_FILE_PERMS,
 } from '../core/key-store.js';
+import { lockKeyAgent, DEFAULT_UNLOCK_TTL_MS } from '../core/key-agent.js';
 import {
   listStateFiles,
+  projectOfStateFile,
   readManifest,
   writeManifest,
 } from '../core/state-manager.js';
+import { getAllRecipientKeys, getRecipients, saveRecipients } from '../core/recipients.js';
+import { getSigningPublicKey, rotateRosterKey } from '../core/roster.js';
+import { recordKeyRotation } from '../core/key-rotation.js';
+import { commitState } from '../core/git-sync.js';
+import { splitKey, formatShare } from '../core/key-backup.js';
+import { encodeQr, renderQr } from '../core/qr-code.js';
+import { executeAgentStart, formatAgentExpiry } from './agent.js';
+import type { AgentStartOptions, AgentStartResult } from './agent.js';
+import { collectSyncFiles } from './sync.js';
 import { getConfigDir, getSyncDir } from './init.js';
 
+/** Commit message of a key rotation */
+const ROTATION_COMMIT_MESSAGE = 'key: rotate — re-encrypted all state with new key';
+
 // ─── Interfaces ───────────────────────────────────────────────────────────
 
 /** Result of key show */
 export interface KeyShowResult {
   publicKey: string;
+  /** Roster signing key, shared with `team add --signing-key` */
+  signingKey: string;
 }
 
 /** Result of key verify */
@@ -49,6 +80,8 @@ export interface KeyVerifyResult {
   keyFilePerms: number | null;
   configDirPerms: number | null;
   issues: string[];
+  /** Whether the key file is wrapped with a passphrase */
+  wrapped: boolean;
 }
 
 /** Options for key rotate */
@@ -57,6 +90,13 @@ export interface KeyRotateOptions {
   noInteractive?: boolean;
   /** Skip force-push to remote (for testing / local-only setups) */
   noForcePush?: boolean;
+  /** Rewrite Git history so no blob encrypted for the old key remains */
+  rewriteHistory?: boolean;
+  /**
+   * Passphrase for the new key, required when the old key is
+   * passphrase-protected (prompted for or read from stdin by the CLI)
+   */
+  passphrase?: string;
 }
 
 /** Result of key rotate */
@@ -65,6 +105,14 @@ export interface KeyRotateResult {
   newPublicKey: string;
   filesReEncrypted: string[];
   gitHistoryRewritten: boolean;
+  /** Whether the rotation was committed to the sync repo */
+  committed: boolean;
+  /** Roster entry that records the new key (`null`: not recorded) */
+  rosterSeq: number | null;
+  /** The roster lists the old key but it may not record the rotation */
+  rosterNeedsReAdd: boolean;
+  /** The new key was saved passphrase-protected, like the old one */
+  wrapped: boolean;
 }
 
 /** Options for key update */
@@ -81,101 +129,186 @@ export interface KeyUpdateResult {
   configDir: string;
 }
 
+/** Options for key protect / unprotect / unlock */
+export interface KeyPassphraseOptions {
+  /** The passphrase (prompted for or read from stdin by the CLI) */
+  passphrase: string;
+}
+
+/** Options for key unlock */
+export interface KeyUnlockOptions extends KeyPassphraseOptions {
+  /** Minutes to keep the key unlocked (default 15) */
+  ttlMinutes?: number;
+  /** Spawns the detached agent process (for testing) */
+  spawnFn?: AgentStartOptions['spawnFn'];
+}
+
+/** Options for key backup */
+export interface KeyBackupOptions {
+  /** Number of shares to make */
+  shares: number;
+  /** Shares needed to rebuild the key */
+  threshold: number;
+  /** Passphrase for a protected key (prompted for or read from stdin by the CLI) */
+  passphrase?: string;
+  /** Add a QR code to each printed share */
+  qr?: boolean;
+  /** Write each share to its own file in this directory */
+  outputDir?: string;
+}
+
+/** Result of key backup */
+export interface KeyBackupResult {
+  publicKey: string;
+  threshold: number;
+  /** The shares, as text */
+  shares: string[];
+  /** Printable sheet for each share */
+  sheets: string[];
+  /** Share files written (with `outputDir`) */
+  files: string[];
+}
+
 // ─── Core Logic ───────────────────────────────────────────────────────────
 
 /**
  * Execute `ctx-sync key show`.
  *
- * Loads the private key and derives the public key from it.
+ * Gets the public key and roster signing key, from the key agent or by
+ * deriving them from the private key.
  * NEVER outputs or returns the private key.
  */
 export async function executeKeyShow(): Promise<KeyShowResult> {
   const configDir = getConfigDir();
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
-  return { publicKey };
+  const privateKey = await resolvePrivateKey(configDir);
+  const publicKey = await getPublicKey(privateKey);
+  return { publicKey, signingKey: getSigningPublicKey(privateKey) };
 }
 
 /**
  * Execute `ctx-sync key verify`.
  *
- * Checks that the key file and config directory have correct permissions.
+ * Checks that the key file and config directory have correct permissions,
+ * and reports whether the key is wrapped with a passphrase.
  */
 export function executeKeyVerify(): KeyVerifyResult {
   const configDir = getConfigDir();
-  return verifyPermissions(configDir);
+  return { ...verifyPermissions(configDir), wrapped: isKeyWrapped(configDir) };
 }
 
 /**
  * Execute `ctx-sync key rotate`.
  *
  * 1. Generate a new key pair.
- * 2. Decrypt ALL .age files with the old key.
- * 3. Re-encrypt ALL with the new key.
- * 4. Save the new private key (0o600).
- * 5. Rewrite Git history to remove old encrypted blobs.
- * 6. Optionally force-push to remote.
- * 7. Return result for display.
+ * 2. Decrypt ALL .age files with the old key and re-encrypt them, in
+ *    memory, for the current recipients with the new key in place of
+ *    the old one (team members keep access).
+ * 3. Record the rotation in the team roster, if this key may sign it,
+ *    and in `key-rotations.jsonl` for this key's other machines.
+ * 4. Save the new private key (0o600), wrapped with the given passphrase
+ *    if the old one was, and write the re-encrypted files.
+ * 5. Commit, or with `rewriteHistory` rewrite Git history to remove the
+ *    old encrypted blobs.
+ * 6. Return result for display.
+ *
+ * @throws If the key is passphrase-protected and no passphrase for the
+ *   new key is given — it is never stored in plain text instead.
  */
 export async function executeKeyRotate(
-  _options: KeyRotateOptions = {},
+  options: KeyRotateOptions = {},
 ): Promise<KeyRotateResult> {
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
 
-  // 1. Load old key
-  const oldPrivateKey = loadKey(configDir);
-  const oldPublicKey = await identityToRecipient(oldPrivateKey);
+  const wasWrapped = isKeyWrapped(configDir);
+  if (wasWrapped && !options.passphrase) {
+    throw new Error(
+      'Your key is passphrase-protected. Enter a passphrase for the new key to rotate it.',
+    );
+  }
 
-  // 2. Generate new key pair
+  // 1. Load old key and generate the new key pair
+  const oldPrivateKey = await resolvePrivateKey(configDir);
+  const oldPublicKey = await getPublicKey(oldPrivateKey);
   const { publicKey: newPublicKey, privateKey: newPrivateKey } =
     await generateKey();
 
-  // 3. Re-encrypt all .age files
-  const ageFiles = listStateFiles(syncDir);
-  const filesReEncrypted: string[] = [];
-
-  for (const filename of ageFiles) {
-    const filePath = path.join(syncDir, filename);
-    const ciphertext = fs.readFileSync(filePath, 'utf-8');
+  // 2. Re-encrypt all .age files in memory, so nothing is written unless
+  //    every file decrypts. The owner's key comes first in the recipient
+  //    list; the new key takes its place.
+  const reEncrypted = new Map<string, string>();
+  for (const filename of listStateFiles(syncDir)) {
+    const ciphertext = fs.readFileSync(path.join(syncDir, filename), 'utf-8');
 
     if (!ciphertext.trim()) {
       continue; // Skip empty files
     }
 
-    // Decrypt with old key, re-encrypt with new key
+    const project = projectOfStateFile(filename) ?? undefined;
+    const recipients = [newPublicKey, ...getAllRecipientKeys(configDir, oldPublicKey, project).slice(1)];
     const plainData = await decryptState<unknown>(ciphertext, oldPrivateKey);
-    const newCiphertext = await encryptState(plainData, newPublicKey);
-    fs.writeFileSync(filePath, newCiphertext, 'utf-8');
-    filesReEncrypted.push(filename);
+    reEncrypted.set(filename, await encryptStateForRecipients(plainData, recipients));
   }
 
-  // 4. Save the new private key
-  saveKey(configDir, newPrivateKey);
+  // 3. Tell the team and this key's other machines about the new key
+  const rosterEntry = await rotateRosterKey(syncDir, configDir, oldPrivateKey, newPrivateKey);
+  await recordKeyRotation(syncDir, oldPrivateKey, newPublicKey);
+
+  // 4. Save the new private key, make the agent forget the old one, and
+  //    write the re-encrypted files
+  if (wasWrapped) {
+    await saveWrappedKey(configDir, newPrivateKey, options.passphrase as string);
+  } else {
+    saveKey(configDir, newPrivateKey);
+  }
+  await lockKeyAgent(configDir);
+  setOwnerPublicKey(configDir, newPublicKey);
+
+  for (const [filename, ciphertext] of reEncrypted) {
+    fs.writeFileSync(path.join(syncDir, filename), ciphertext, 'utf-8');
+  }
 
-  // 5. Update manifest
   const manifest = readManifest(syncDir);
   if (manifest) {
     manifest.lastSync = new Date().toISOString();
     writeManifest(syncDir, manifest);
   }
 
-  // 6. Rewrite Git history to remove old encrypted blobs
+  // 5. Commit, rewriting history instead if asked to
   let gitHistoryRewritten = false;
-  const gitDir = path.join(syncDir, '.git');
-
-  if (fs.existsSync(gitDir)) {
-    gitHistoryRewritten = await rewriteGitHistory(syncDir);
+  let committed = false;
+  if (fs.existsSync(path.join(syncDir, '.git'))) {
+    if (options.rewriteHistory) {
+      gitHistoryRewritten = await rewriteGitHistory(syncDir);
+    }
+    committed =
+      gitHistoryRewritten ||
+      (await commitState(syncDir, collectSyncFiles(syncDir), ROTATION_COMMIT_MESSAGE)) !== null;
   }
 
   return {
     oldPublicKey,
     newPublicKey,
-    filesReEncrypted,
+    filesReEncrypted: [...reEncrypted.keys()],
     gitHistoryRewritten,
+    committed,
+    rosterSeq: rosterEntry?.seq ?? null,
+    rosterNeedsReAdd: rosterEntry === null && fs.existsSync(path.join(syncDir, STATE_FILES.ROSTER)),
+    wrapped: wasWrapped,
   };
 }
 
+/**
+ * Point the local recipients config at this machine's new key.
+ */
+function setOwnerPublicKey(configDir: string, publicKey: string): void {
+  const config = getRecipients(configDir);
+  if (config && config.ownerPublicKey !== publicKey) {
+    config.ownerPublicKey = publicKey;
+    saveRecipients(configDir, config);
+  }
+}
+
 /**
  * Rewrite Git history to remove old encrypted blobs.
  *
@@ -196,7 +329,7 @@ async function rewriteGitHistory(syncDir: string): Promise<boolean> {
     await git.add('.');
 
     // Commit
-    await git.commit('key: rotate — re-encrypted all state with new key');
+    await git.commit(ROTATION_COMMIT_MESSAGE);
 
     // Delete old main/master branch, rename orphan
     const branches = await git.branchLocal();
@@ -257,12 +390,166 @@ export async function executeKeyUpdate(
   // Derive public key to verify it's valid
   const publicKey = await identityToRecipient(trimmedKey);
 
-  // Save with secure permissions
+  // Save with secure permissions, and make the agent forget the old key
   saveKey(configDir, trimmedKey);
+  await lockKeyAgent(configDir);
+  setOwnerPublicKey(configDir, publicKey);
 
   return { publicKey, configDir };
 }
 
+/**
+ * Execute `ctx-sync key protect`.
+ *
+ * Wraps the key file with an scrypt passphrase, in the same format
+ * `age -p` writes, so the key on disk (and in backups) is useless
+ * without the passphrase.
+ *
+ * @throws If the key is already wrapped or the passphrase is empty.
+ */
+export async function executeKeyProtect(options: KeyPassphraseOptions): Promise<void> {
+  const configDir = getConfigDir();
+  if (isKeyWrapped(configDir)) {
+    throw new Error('Your key is already passphrase-protected.');
+  }
+  await saveWrappedKey(configDir, loadKey(configDir), options.passphrase);
+}
+
+/**
+ * Execute `ctx-sync key unprotect`.
+ *
+ * Unwraps the key file back to a plain key (0o600) and locks the agent.
+ *
+ * @throws If the key is not wrapped or the passphrase is wrong.
+ */
+export async function executeKeyUnprotect(options: KeyPassphraseOptions): Promise<void> {
+  const configDir = getConfigDir();
+  const privateKey = await unwrapKey(configDir, options.passphrase);
+  saveKey(configDir, privateKey);
+  await lockKeyAgent(configDir);
+}
+
+/**
+ * Execute `ctx-sync key unlock`.
+ *
+ * Unwraps the key and starts the key agent, which serves it to later
+ * commands until the TTL runs out. Unlocking again restarts the TTL.
+ *
+ * @throws If the key is not wrapped, the passphrase is wrong or the
+ *   agent does not come up.
+ */
+export async function executeKeyUnlock(options: KeyUnlockOptions): Promise<AgentStartResult> {
+  const configDir = getConfigDir();
+  if (!isKeyWrapped(configDir)) {
+    throw new Error('Your key is not passphrase-protected. Start the agent with: ctx-sync agent start');
+  }
+
+  return executeAgentStart({
+    passphrase: options.passphrase,
+    ttlMinutes: options.ttlMinutes ?? DEFAULT_UNLOCK_TTL_MS / 60_000,
+    spawnFn: options.spawnFn,
+  });
+}
+
+/**
+ * Execute `ctx-sync key lock`.
+ *
+ * @returns Whether the key was unlocked.
+ */
+export async function executeKeyLock(): Promise<{ wasUnlocked: boolean }> {
+  return { wasUnlocked: await lockKeyAgent(getConfigDir()) };
+}
+
+/**
+ * Lay out one share as a printable sheet: a heading, the share in
+ * groups of five and, optionally, a QR code of it.
+ */
+function formatShareSheet(
+  share: string,
+  index: number,
+  result: { publicKey: string; threshold: number; total: number },
+  qr: boolean,
+): string {
+  const lines = [
+    `ctx-sync key share ${String(index)} of ${String(result.total)} (any ${String(result.threshold)} rebuild the key)`,
+    `Public key: ${result.publicKey}`,
+    '',
+    formatShare(share),
+  ];
+  if (qr) {
+    lines.push('', renderQr(encodeQr(share)));
+  }
+  lines.push('', 'Restore with: ctx-sync init --restore --from-shares', '');
+  return lines.join('\n');
+}
+
+/**
+ * Execute `ctx-sync key backup`.
+ *
+ * Splits the private key into Shamir shares (see `core/key-backup`) and
+ * lays each out for printing. Works entirely offline. The key agent
+ * never hands out the key, so a protected key is unwrapped with its
+ * passphrase here.
+ *
+ * @throws If the counts are invalid or the passphrase is missing or wrong.
+ */
+export async function executeKeyBackup(options: KeyBackupOptions): Promise<KeyBackupResult> {
+  const configDir = getConfigDir();
+
+  let privateKey: string;
+  if (isKeyWrapped(configDir)) {
+    if (options.passphrase === undefined) {
+      throw new Error('Your key is passphrase-protected. Enter the passphrase to back it up.');
+    }
+    privateKey = await unwrapKey(configDir, options.passphrase);
+  } else {
+    privateKey = loadKey(configDir);
+  }
+
+  const shares = await splitKey(privateKey, options.shares, options.threshold);
+  const publicKey = await getPublicKey(privateKey);
+  const layout = { publicKey, threshold: options.threshold, total: shares.length };
+  const sheets = shares.map((share, i) => formatShareSheet(share, i + 1, layout, options.qr ?? false));
+
+  const files: string[] = [];
+  if (options.outputDir) {
+    fs.mkdirSync(options.outputDir, { recursive: true, mode: 0o700 });
+    sheets.forEach((sheet, i) => {
+      const file = path.join(options.outputDir ?? '', `ctx-sync-share-${String(i + 1)}-of-${String(shares.length)}.txt`);
+      fs.writeFileSync(file, sheet, { mode: KEY_FILE_PERMS });
+      fs.chmodSync(file, KEY_FILE_PERMS);
+      files.push(file);
+    });
+  }
+
+  return { publicKey, threshold: options.threshold, shares, sheets, files };
+}
+
+/**
+ * Read a passphrase for the CLI: from stdin with `--stdin`, otherwise
+ * from a hidden prompt (asked twice when setting a new one).
+ */
+export async function readPassphrase(opts: { stdin?: boolean }, confirm = false): Promise<string> {
+  if (opts.stdin) {
+    return (await readKeyFromStdin()).replace(/\r?\n$/, '');
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error('No terminal to prompt for the passphrase on. Pipe it in with --stdin.');
+  }
+
+  const { default: Enquirer } = await import('enquirer');
+  const ask = async (message: string): Promise<string> => {
+    const enquirer = new Enquirer<{ passphrase: string }>();
+    return (await enquirer.prompt({ type: 'password', name: 'passphrase', message })).passphrase;
+  };
+
+  const passphrase = await ask('Passphrase:');
+  if (confirm && (await ask('Repeat passphrase:')) !== passphrase) {
+    throw new Error('Passphrases do not match.');
+  }
+  return passphrase;
+}
+
 /**
  * Read a private key from stdin (pipe mode).
  */
@@ -315,6 +602,7 @@ export function registerKeyCommand(program: Command): void {
     .action(withErrorHandler(async () => {
       const result = await executeKeyShow();
       console.log(`Public key: ${result.publicKey}`);
+      console.log(`Signing key: ${result.signingKey}`);
     }));
 
   // ── key verify ────────────────────────────────────────────────────
@@ -328,6 +616,11 @@ export function registerKeyCommand(program: Command): void {
         console.log('✓ Key verification passed');
         console.log(`  Key file: permissions ${result.keyFilePerms?.toString(8) ?? 'n/a'}`);
         console.log(`  Config dir: permissions ${result.configDirPerms?.toString(8) ?? 'n/a'}`);
+        console.log(
+          result.wrapped
+            ? '  Key: passphrase-protected'
+            : '  Key: not passphrase-protected (protect it with: ctx-sync key protect)',
+        );
       } else {
         console.error('✗ Key verification failed:');
         for (const issue of result.issues) {
@@ -342,9 +635,19 @@ export function registerKeyCommand(program: Command): void {
     .command('rotate')
     .description('Rotate encryption key — re-encrypts all state')
     .option('-n, --no-interactive', 'Skip confirmation prompts')
-    .action(withErrorHandler(async (opts: { interactive: boolean }) => {
+    .option('--rewrite-history', 'Also rewrite Git history to purge blobs encrypted for the old key')
+    .option('--stdin', 'Read the new key\'s passphrase from stdin (passphrase-protected keys)')
+    .action(withErrorHandler(async (opts: {
+      interactive: boolean;
+      rewriteHistory?: boolean;
+      stdin?: boolean;
+    }) => {
+      // A protected key stays protected: ask for the new key's passphrase
+      const askPassphrase = isKeyWrapped(getConfigDir()) && (opts.stdin || opts.interactive);
       const result = await executeKeyRotate({
         noInteractive: !opts.interactive,
+        rewriteHistory: opts.rewriteHistory,
+        passphrase: askPassphrase ? await readPassphrase(opts, true) : undefined,
       });
 
       console.log('✓ Key rotation complete');
@@ -355,9 +658,24 @@ export function registerKeyCommand(program: Command): void {
       );
       if (result.gitHistoryRewritten) {
         console.log('  Git history: rewritten (old blobs purged)');
+      } else if (result.committed) {
+        console.log('  Git history: kept (old blobs stay readable with the old key; see --rewrite-history)');
+      }
+      if (result.rosterSeq !== null) {
+        console.log(`  Team roster: new key recorded (#${String(result.rosterSeq)})`);
+      } else if (result.rosterNeedsReAdd) {
+        console.log('  Team roster: ask a team member to add your new key with ctx-sync team add');
+      }
+      if (result.wrapped) {
+        console.log('  New key: passphrase-protected (unlock it with: ctx-sync key unlock)');
       }
       console.log(
-        '\n⚠ IMPORTANT: All other machines must run:\n' +
+        result.gitHistoryRewritten
+          ? `\n⚠ Force-push the rewritten history: git -C ${getSyncDir()} push --force`
+          : '\n⚠ Push the rotation with: ctx-sync sync',
+      );
+      console.log(
+        '⚠ IMPORTANT: All other machines must run:\n' +
           '  ctx-sync key update\n' +
           '  Then paste the new private key.',
       );
@@ -375,4 +693,88 @@ export function registerKeyCommand(program: Command): void {
       console.log(`  Saved to: ${result.configDir}`);
       console.log(`  Permissions: ${KEY_FILE_PERMS.toString(8)}`);
     }));
+
+  // ── key protect ───────────────────────────────────────────────────
+  keyCmd
+    .command('protect')
+    .description('Wrap your private key with a passphrase')
+    .option('--stdin', 'Read the passphrase from stdin')
+    .action(withErrorHandler(async (opts: { stdin?: boolean }) => {
+      await executeKeyProtect({ passphrase: await readPassphrase(opts, true) });
+      console.log('✓ Key is now passphrase-protected');
+      console.log('  Unlock it for a while with: ctx-sync key unlock');
+    }));
+
+  // ── key unprotect ─────────────────────────────────────────────────
+  keyCmd
+    .command('unprotect')
+    .description('Store your private key without a passphrase again')
+    .option('--stdin', 'Read the passphrase from stdin')
+    .action(withErrorHandler(async (opts: { stdin?: boolean }) => {
+      await executeKeyUnprotect({ passphrase: await readPassphrase(opts) });
+      console.log('✓ Key is no longer passphrase-protected');
+      console.log(`  Permissions: ${KEY_FILE_PERMS.toString(8)}`);
+    }));
+
+  // ── key unlock ────────────────────────────────────────────────────
+  keyCmd
+    .command('unlock')
+    .description('Keep a passphrase-protected key unlocked for a while')
+    .option('--ttl <minutes>', 'Minutes to keep the key unlocked', String(DEFAULT_UNLOCK_TTL_MS / 60_000))
+    .option('--stdin', 'Read the passphrase from stdin')
+    .action(withErrorHandler(async (opts: { ttl: string; stdin?: boolean }) => {
+      const result = await executeKeyUnlock({
+        passphrase: await readPassphrase(opts),
+        ttlMinutes: Number(opts.ttl),
+      });
+      console.log(`✓ Key unlocked ${formatAgentExpiry(result.expiresAt)}`);
+      console.log('  Lock it now with: ctx-sync key lock');
+    }));
+
+  // ── key lock ──────────────────────────────────────────────────────
+  keyCmd
+    .command('lock')
+    .description('Forget the unlocked key now')
+    .action(withErrorHandler(async () => {
+      const result = await executeKeyLock();
+      console.log(result.wasUnlocked ? '✓ Key locked' : 'Key was not unlocked.');
+    }));
+
+  // ── key backup ────────────────────────────────────────────────────
+  keyCmd
+    .command('backup')
+    .description('Split your private key into shares for paper backup')
+    .requiredOption('--shares <n>', 'Number of shares to make', Number)
+    .requiredOption('--threshold <k>', 'Shares needed to rebuild the key', Number)
+    .option('--qr', 'Print a QR code with each share')
+    .option('-o, --output <dir>', 'Write each share to its own file instead of printing')
+    .option('--stdin', 'Read the passphrase from stdin')
+    .action(withErrorHandler(async (opts: {
+      shares: number;
+      threshold: number;
+      qr?: boolean;
+      output?: string;
+      stdin?: boolean;
+    }) => {
+      const result = await executeKeyBackup({
+        shares: opts.shares,
+        threshold: opts.threshold,
+        passphrase: isKeyWrapped(getConfigDir()) ? await readPassphrase(opts) : undefined,
+        qr: opts.qr,
+        outputDir: opts.output,
+      });
+
+      if (result.files.length > 0) {
+        console.log(`✓ Wrote ${String(result.files.length)} key shares:`);
+        for (const file of result.files) {
+          console.log(`  ${file}`);
+        }
+      } else {
+        console.log(result.sheets.join('\n' + '─'.repeat(60) + '\n\n'));
+      }
+      console.log(
+        `\nAny ${String(result.threshold)} of these shares rebuild your key; fewer reveal nothing.\n` +
+          'Print them, keep them in separate places and delete any copies on disk.',
+      );
+    }));
 }
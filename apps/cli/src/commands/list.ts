@@ -2,22 +2,24 @@
  * `ctx-sync list` command.
  *
  * Reads the encrypted state file, decrypts it, and lists all
- * tracked projects with key metadata (name, path, branch, last accessed).
+ * tracked projects with key metadata (name, path, branch, last accessed)
+ * plus the machine that last touched each one.
  *
  * @module commands/list
  */
 
 import type { Command } from 'commander';
 import { withErrorHandler } from '../utils/errors.js';
-import type { StateFile, Project } from '@ctx-sync/shared';
-import { loadKey } from '../core/key-store.js';
-import { readState } from '../core/state-manager.js';
+import type { Project } from '@ctx-sync/shared';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { readMergedProjects } from '../core/machine-state.js';
+import type { MergedProject } from '../core/machine-state.js';
 import { getConfigDir, getSyncDir } from './init.js';
 
 /** Result returned by executeList */
 export interface ListResult {
-  /** All tracked projects */
-  projects: Project[];
+  /** All tracked projects, merged across machines */
+  projects: MergedProject[];
 }
 
 /**
@@ -25,22 +27,18 @@ export interface ListResult {
  *
  * 1. Load the private key.
  * 2. Read and decrypt state.age.
- * 3. Return the list of tracked projects.
+ * 3. Merge the per-machine snapshots and return the tracked projects.
  *
  * @returns List result with all tracked projects.
  */
 export async function executeList(): Promise<ListResult> {
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
-  const privateKey = loadKey(configDir);
+  const privateKey = await resolvePrivateKey(configDir);
 
-  const state = await readState<StateFile>(syncDir, privateKey, 'state');
+  const projects = await readMergedProjects(syncDir, privateKey);
 
-  if (!state || !state.projects || state.projects.length === 0) {
-    return { projects: [] };
-  }
-
-  return { projects: state.projects };
+  return { projects: projects ?? [] };
 }
 
 /**
@@ -50,7 +48,10 @@ export async function executeList(): Promise<ListResult> {
  * @param index - The index in the list (1-based for display).
  * @returns Formatted string for console output.
  */
-export function formatProject(project: Project, index: number): string {
+export function formatProject(
+  project: Project & Partial<Pick<MergedProject, 'lastMachine' | 'machines'>>,
+  index: number,
+): string {
   const lines: string[] = [];
   lines.push(`  ${index}. ${project.name}`);
   lines.push(`     Path:     ${project.path}`);
@@ -67,6 +68,15 @@ export function formatProject(project: Project, index: number): string {
   const accessed = new Date(project.lastAccessed);
   lines.push(`     Tracked:  ${accessed.toLocaleDateString()} ${accessed.toLocaleTimeString()}`);
 
+  if (project.lastMachine) {
+    lines.push(`     Machine:  ${project.lastMachine.hostname}`);
+  }
+
+  // Every other machine's view of the project
+  for (const view of project.machines?.slice(1) ?? []) {
+    lines.push(`       ↳ ${view.machine.hostname}: ${view.git.branch} (${view.path})`);
+  }
+
   return lines.join('\n');
 }
 
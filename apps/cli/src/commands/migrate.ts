@@ -0,0 +1,177 @@
+/**
+ * `ctx-sync migrate` command.
+ *
+ * Upgrades every encrypted state file to the schema version this CLI
+ * writes. Each file is decrypted in memory, passed through the registered
+ * migrations (see `STATE_MIGRATIONS`), validated, and re-encrypted for its
+ * recipients — a project blob for that project's recipients. The manifest
+ * records the new schema versions.
+ *
+ * All files are read before any is written, so a file written by a newer
+ * CLI aborts the migration without touching the others.
+ *
+ * @module commands/migrate
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Command } from 'commander';
+import { STATE_FILES } from '@ctx-sync/shared';
+import { withErrorHandler } from '../utils/errors.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { resolveRecipients } from '../core/recipients.js';
+import { commitState } from '../core/git-sync.js';
+import {
+  readStateFile,
+  writeStateFile,
+  listStateFiles,
+  stateFileTypeOf,
+  projectOfStateFile,
+  getStateFileSchemaVersion,
+  currentSchemaVersion,
+  STATE_MIGRATIONS,
+} from '../core/state-manager.js';
+import type { StateData, StateFileType } from '../core/state-manager.js';
+import { getConfigDir, getSyncDir } from './init.js';
+
+/** Options for the migrate command */
+export interface MigrateOptions {
+  /** Report what would change without writing anything */
+  dryRun?: boolean;
+  /** Skip the Git commit */
+  noSync?: boolean;
+}
+
+/** A state file handled by the migration */
+export interface MigratedFile {
+  /** The state file, relative to the sync dir (e.g. 'state.age', 'projects/api/env-vars.age') */
+  file: string;
+  /** Schema version before the migration */
+  from: number;
+  /** Schema version after the migration */
+  to: number;
+  /** Descriptions of the migrations that were applied */
+  applied: string[];
+}
+
+/** Result of the migrate command */
+export interface MigrateResult {
+  /** Every state file that was (or in dry-run mode, would be) re-encrypted */
+  files: MigratedFile[];
+  /** Whether the result was committed to the sync repo */
+  committed: boolean;
+}
+
+/**
+ * Execute the migrate command logic.
+ *
+ * 1. Decrypt and upgrade every existing state file, project blobs included.
+ * 2. Re-encrypt each file at its current schema version for its recipients.
+ * 3. Commit the state files and manifest.
+ *
+ * @param options - Migrate command options.
+ * @returns The files handled and whether they were committed.
+ * @throws StateVersionError if any file was written by a newer CLI.
+ */
+export async function executeMigrate(options: MigrateOptions = {}): Promise<MigrateResult> {
+  const syncDir = getSyncDir();
+
+  if (!fs.existsSync(syncDir) || !fs.existsSync(path.join(syncDir, '.git'))) {
+    throw new Error('No sync repository found. Run `ctx-sync init` first.');
+  }
+
+  const configDir = getConfigDir();
+  const privateKey = await resolvePrivateKey(configDir);
+
+  // 1. Read everything first so an unsupported file aborts before any write
+  const pending: Array<{ fileType: StateFileType; data: StateData; entry: MigratedFile }> = [];
+  for (const file of listStateFiles(syncDir)) {
+    const fileType = stateFileTypeOf(file);
+    if (!fileType) continue;
+
+    const from = getStateFileSchemaVersion(syncDir, file);
+    const to = currentSchemaVersion(fileType);
+    const data = await readStateFile(syncDir, file, privateKey, fileType);
+    if (data === null) continue;
+
+    const applied = STATE_MIGRATIONS[fileType]
+      .filter((m) => m.from >= from && m.from < to)
+      .map((m) => m.description);
+    pending.push({ fileType, data, entry: { file, from, to, applied } });
+  }
+
+  const result: MigrateResult = { files: pending.map((p) => p.entry), committed: false };
+  if (options.dryRun || pending.length === 0) {
+    return result;
+  }
+
+  // 2. Re-encrypt at the current version, each project's blobs for its recipients
+  const recipientsByProject = new Map<string | null, string[]>();
+  for (const { fileType, data, entry } of pending) {
+    const project = projectOfStateFile(entry.file);
+    let recipients = recipientsByProject.get(project);
+    if (!recipients) {
+      recipients = await resolveRecipients(configDir, privateKey, project ?? undefined);
+      recipientsByProject.set(project, recipients);
+    }
+    await writeStateFile(syncDir, entry.file, data, recipients, fileType);
+  }
+
+  // 3. Commit
+  if (!options.noSync) {
+    const hash = await commitState(
+      syncDir,
+      [...result.files.map((f) => f.file), STATE_FILES.MANIFEST],
+      'migrate: upgrade state to current schema versions',
+    );
+    result.committed = hash !== null;
+  }
+
+  return result;
+}
+
+/**
+ * Register the `migrate` command on the given Commander program.
+ */
+export function registerMigrateCommand(program: Command): void {
+  program
+    .command('migrate')
+    .description('Re-encrypt all state files at the current schema version')
+    .option('--dry-run', 'Show what would be migrated without writing')
+    .option('--no-sync', 'Skip the Git commit')
+    .action(withErrorHandler(async (opts: Record<string, unknown>) => {
+      const options: MigrateOptions = {
+        dryRun: opts['dryRun'] === true,
+        noSync: opts['sync'] === false,
+      };
+
+      const chalk = (await import('chalk')).default;
+
+      const result = await executeMigrate(options);
+
+      if (result.files.length === 0) {
+        console.log(chalk.dim('No state files to migrate.'));
+        return;
+      }
+
+      for (const file of result.files) {
+        const change =
+          file.from === file.to
+            ? `v${String(file.to)} (re-encrypted)`
+            : `v${String(file.from)} → v${String(file.to)}`;
+        console.log(`   ${file.file}: ${change}`);
+        for (const description of file.applied) {
+          console.log(chalk.dim(`      - ${description}`));
+        }
+      }
+
+      if (options.dryRun) {
+        console.log(chalk.yellow('Dry run — nothing was written.'));
+      } else {
+        console.log(chalk.green(`✅ Migrated ${String(result.files.length)} state file(s)`));
+        if (result.committed) {
+          console.log(chalk.dim('   Run `ctx-sync sync` to push the upgraded files.'));
+        }
+      }
+    }));
+}
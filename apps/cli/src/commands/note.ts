@@ -18,15 +18,15 @@ import * as path from 'node:path';
 import type { Command } from 'commander';
 import { withErrorHandler } from '../utils/errors.js';
 import type {
-  StateFile,
   MentalContext,
   ProjectMentalContext,
   RelatedLink,
 } from '@ctx-sync/shared';
 import { STATE_FILES } from '@ctx-sync/shared';
-import { identityToRecipient } from 'age-encryption';
-import { loadKey } from '../core/key-store.js';
-import { readState, writeState } from '../core/state-manager.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { resolveRecipients } from '../core/recipients.js';
+import { readProjectState, writeProjectState, projectStateFile } from '../core/state-manager.js';
+import { readMergedProjects, findProject } from '../core/machine-state.js';
 import { commitState } from '../core/git-sync.js';
 import { getConfigDir, getSyncDir } from './init.js';
 
@@ -410,20 +410,17 @@ export async function executeNote(
   }
 
   // Load key
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
 
   // 1. Verify the project exists in state
-  const state = await readState<StateFile>(syncDir, privateKey, 'state');
-  if (!state) {
+  const projects = await readMergedProjects(syncDir, privateKey);
+  if (!projects) {
     throw new Error('No state file found. Track a project first with `ctx-sync track`.');
   }
 
-  const project = state.projects.find(
-    (p) => p.name === projectName || p.id === projectName,
-  );
+  const project = findProject(projects, projectName);
   if (!project) {
-    const availableNames = state.projects.map((p) => p.name).join(', ');
+    const availableNames = projects.map((p) => p.name).join(', ');
     throw new Error(
       `Project "${projectName}" not found.\n` +
         (availableNames
@@ -433,10 +430,11 @@ export async function executeNote(
   }
 
   // 2. Load existing mental context
-  const mentalContextData = await readState<MentalContext>(
+  const mentalContextData = await readProjectState<MentalContext>(
     syncDir,
     privateKey,
     'mental-context',
+    project.name,
   );
   const existingContext = mentalContextData?.[project.name] ?? null;
   const isNew = existingContext === null;
@@ -462,13 +460,14 @@ export async function executeNote(
   const allMentalContext: MentalContext = mentalContextData ?? {};
   allMentalContext[project.name] = mergedContext;
 
-  await writeState(syncDir, allMentalContext, publicKey, 'mental-context');
+  const recipients = await resolveRecipients(configDir, privateKey, project.name);
+  await writeProjectState(syncDir, allMentalContext, recipients, 'mental-context', project.name);
 
   // 6. Optionally commit
   if (!options.noSync) {
     await commitState(
       syncDir,
-      [STATE_FILES.MENTAL_CONTEXT, STATE_FILES.MANIFEST],
+      [projectStateFile(syncDir, 'mental-context', project.name), STATE_FILES.MANIFEST],
       `feat: update mental context for ${project.name}`,
     );
   }
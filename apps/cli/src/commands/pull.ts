@@ -1,11 +1,22 @@
 /**
  * `ctx-sync pull` command.
  *
- * Pulls the latest encrypted state from the remote. Does NOT commit or
- * push — this is a one-way pull operation.
+ * Pulls the latest encrypted state from the remote. Does NOT push, and
+ * commits nothing unless the user approves a rollback (see below) —
+ * this is a one-way pull operation.
  *
  * Validates remote URL (transport security) before every pull.
- * Handles merge conflicts on .age files (never auto-merges).
+ * Merges conflicting .age files record by record, like `sync` (see
+ * `mergeConflicts()`), asking about fields both sides changed when run
+ * interactively.
+ * Applies membership changes from the signed team roster once it
+ * verifies, and tells the user when their key was rotated on another
+ * machine.
+ *
+ * Finally checks that this machine can still decrypt the pulled state.
+ * Files it cannot read are reported with the likely cause; for a file
+ * it is no longer a recipient of, the last version it can decrypt is
+ * looked up so the user can roll back to it (as a new commit).
  *
  * @module commands/pull
  */
@@ -13,19 +24,56 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import type { Command } from 'commander';
+import { STATE_FILES } from '@ctx-sync/shared';
+import type { KeyRotationRecord } from '@ctx-sync/shared';
 import { withErrorHandler } from '../utils/errors.js';
-import { listStateFiles } from '../core/state-manager.js';
+import type { DecryptionError } from '../utils/errors.js';
+import {
+  listStateFiles,
+  findUnreadableStateFiles,
+  projectOfStateFile,
+  stateFileTypeOf,
+  writeStateFile,
+} from '../core/state-manager.js';
+import type { StateData } from '../core/state-manager.js';
+import { readStateAtCommit } from '../core/state-history.js';
+import { getPublicKey } from '../core/encryption.js';
+import type { PrivateKey } from '../core/encryption.js';
+import { isKeyWrapped, loadKey, resolvePrivateKey } from '../core/key-store.js';
+import { connectAgentKey } from '../core/key-agent.js';
+import { commitState, findLastDecryptableCommit } from '../core/git-sync.js';
+import { resolveRecipients } from '../core/recipients.js';
+import type { FileCommit } from '../core/git-sync.js';
+import { verifyRoster } from '../core/roster.js';
 import {
   validateSyncRemote,
   pullWithConflictDetection,
-  resolveConflicts,
+  mergeConflicts,
+  keepLocal,
+  promptConflictChoice,
+  reconcileRoster,
+  printRosterResult,
+  detectKeyRotation,
+  printKeyRotation,
 } from './sync.js';
-import { getSyncDir } from './init.js';
+import type { RosterChanges } from '../core/roster.js';
+import type { ConflictResolver, ResolvedConflict } from '../core/state-merge.js';
+import { getConfigDir, getSyncDir } from './init.js';
 
 /** Options for the pull command */
 export interface PullOptions {
   /** Non-interactive mode — keep local version on conflict */
   noInteractive?: boolean;
+  /** Settles fields changed on both sides (default: keep local) */
+  resolveFn?: ConflictResolver;
+}
+
+/** A state file this machine cannot decrypt after the pull */
+export interface UnreadableStateFile {
+  /** Why it cannot be decrypted */
+  error: DecryptionError;
+  /** Last commit whose version this key can decrypt (not-a-recipient only) */
+  rollbackTo: FileCommit | null;
 }
 
 /** Result of a pull operation */
@@ -36,10 +84,22 @@ export interface PullResult {
   hadConflicts: boolean;
   /** Files that had merge conflicts */
   conflictFiles: string[];
+  /** Conflicting files that were merged record by record */
+  mergedFiles: string[];
+  /** Field-level conflicts that had to be settled */
+  resolvedConflicts: ResolvedConflict[];
   /** Number of state files available after pull */
   stateFileCount: number;
   /** Whether the repo has a remote configured */
   hasRemote: boolean;
+  /** Membership changes pulled from the team roster */
+  rosterChanges: RosterChanges | null;
+  /** Why the pulled roster was not trusted, if it failed verification */
+  rosterError: string | null;
+  /** Record of this machine's key being rotated on another machine */
+  keyRotation: KeyRotationRecord | null;
+  /** Pulled state files this machine cannot decrypt */
+  unreadable: UnreadableStateFile[];
 }
 
 /**
@@ -47,8 +107,12 @@ export interface PullResult {
  *
  * 1. Validate remote URL.
  * 2. Pull latest from remote (with conflict detection).
- * 3. Handle merge conflicts (keep local in non-interactive mode).
- * 4. Report available state files.
+ * 3. Merge conflicting files (keep local where both sides changed a
+ *    field, unless a resolver decides).
+ * 4. Apply the verified team roster to the local recipients.
+ * 5. Check whether this machine's key was rotated elsewhere.
+ * 6. Report available state files.
+ * 7. Otherwise check that they still decrypt with this machine's key.
  *
  * @param options - Pull command options.
  * @returns Pull result with operation details.
@@ -67,8 +131,14 @@ export async function executePull(options: PullOptions = {}): Promise<PullResult
     pulled: false,
     hadConflicts: false,
     conflictFiles: [],
+    mergedFiles: [],
+    resolvedConflicts: [],
     stateFileCount: 0,
     hasRemote: false,
+    rosterChanges: null,
+    rosterError: null,
+    keyRotation: null,
+    unreadable: [],
   };
 
   // 1. Validate remote
@@ -91,17 +161,127 @@ export async function executePull(options: PullOptions = {}): Promise<PullResult
     result.hadConflicts = true;
     result.conflictFiles = pullResult.conflictFiles;
 
-    // In non-interactive mode, keep local version (safest default)
-    const useLocal = options.noInteractive !== false;
-    await resolveConflicts(syncDir, pullResult.conflictFiles, useLocal);
+    // Fields changed on both sides go to the resolver (default: keep local)
+    const merge = await mergeConflicts(
+      syncDir,
+      pullResult.conflictFiles,
+      options.resolveFn ?? keepLocal,
+    );
+    result.mergedFiles = merge.merged;
+    result.resolvedConflicts = merge.conflicts;
   }
 
-  // 4. Count available state files
+  // 4. Trust membership changes only from a verified roster
+  const roster = await reconcileRoster(syncDir);
+  result.rosterChanges = roster.rosterChanges;
+  result.rosterError = roster.rosterError;
+
+  // 5. Was this machine's key rotated elsewhere?
+  result.keyRotation = await detectKeyRotation(syncDir);
+
+  // 6. Count available state files
   result.stateFileCount = listStateFiles(syncDir).length;
 
+  // 7. Can this machine still read what it pulled? (A rotated key
+  //    cannot, and step 5 already says why.)
+  if (!result.keyRotation) {
+    result.unreadable = await checkPulledState(syncDir);
+  }
+
   return result;
 }
 
+/**
+ * Get this machine's key if it can be used without prompting for a
+ * passphrase, or `null`.
+ */
+async function keyWithoutPrompt(configDir: string): Promise<PrivateKey | null> {
+  try {
+    return (await connectAgentKey(configDir)) ?? (isKeyWrapped(configDir) ? null : loadKey(configDir));
+  } catch {
+    return null; // No usable key — nothing to check
+  }
+}
+
+/**
+ * List the state files this key is expected to read: all of them,
+ * or only its projects' blobs if the roster scopes it to projects.
+ */
+function expectedReadable(syncDir: string, publicKey: string): string[] {
+  let projects: string[] | undefined;
+  try {
+    projects = verifyRoster(syncDir)?.members.find((m) => m.publicKey === publicKey)?.projects;
+  } catch {
+    // An unverified roster is reported by step 4
+  }
+  return listStateFiles(syncDir).filter(
+    (file) => !projects || projects.includes(projectOfStateFile(file) ?? ''),
+  );
+}
+
+/**
+ * Try to decrypt the pulled state files. Skipped when the key is
+ * locked, so a pull never asks for the passphrase just to check.
+ */
+async function checkPulledState(syncDir: string): Promise<UnreadableStateFile[]> {
+  const privateKey = await keyWithoutPrompt(getConfigDir());
+  if (!privateKey) {
+    return [];
+  }
+
+  const files = expectedReadable(syncDir, await getPublicKey(privateKey));
+  const unreadable: UnreadableStateFile[] = [];
+  for (const error of await findUnreadableStateFiles(syncDir, privateKey, files)) {
+    const rollbackTo =
+      error.reason === 'not-a-recipient'
+        ? await findLastDecryptableCommit(syncDir, error.file, privateKey)
+        : null;
+    unreadable.push({ error, rollbackTo });
+  }
+  return unreadable;
+}
+
+/**
+ * Roll an unreadable state file back to the last version this machine
+ * can decrypt, as a new commit.
+ *
+ * Like `rollback`, the old version is decrypted, upgraded to the current
+ * schema version and encrypted again for the file's current recipients,
+ * so the rest of the team can still read it.
+ *
+ * @param file - An unreadable file reported by `executePull()`.
+ * @returns The new commit hash, or `null` if nothing changed.
+ * @throws If there is no version to roll back to.
+ */
+export async function rollbackUnreadable(file: UnreadableStateFile): Promise<string | null> {
+  const relPath = file.error.file;
+  const fileType = stateFileTypeOf(relPath);
+  if (!file.rollbackTo || !fileType) {
+    throw new Error(`No earlier version of ${relPath} can be decrypted with this key.`);
+  }
+
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+  const { hash } = file.rollbackTo;
+  const privateKey = await resolvePrivateKey(configDir);
+  const data = await readStateAtCommit(syncDir, hash, relPath, privateKey);
+  if (data === null) {
+    throw new Error(`No earlier version of ${relPath} can be decrypted with this key.`);
+  }
+
+  const recipients = await resolveRecipients(
+    configDir,
+    privateKey,
+    projectOfStateFile(relPath) ?? undefined,
+  );
+  await writeStateFile(syncDir, relPath, data as StateData, recipients, fileType);
+  return commitState(
+    syncDir,
+    [relPath, STATE_FILES.MANIFEST],
+    `rollback: ${relPath} to ${hash.slice(0, 7)} (last version this key can decrypt)`,
+  );
+}
+
 /**
  * Register the `pull` command on the given Commander program.
  */
@@ -119,6 +299,12 @@ export function registerPullCommand(program: Command): void {
       const { default: ora } = await import('ora');
 
       const spinner = ora('Pulling from remote...').start();
+      if (!options.noInteractive && process.stdin.isTTY) {
+        options.resolveFn = (conflict) => {
+          spinner.stop();
+          return promptConflictChoice(conflict);
+        };
+      }
 
       const result = await executePull(options);
 
@@ -129,17 +315,53 @@ export function registerPullCommand(program: Command): void {
           chalk.yellow(`⚠ Merge conflicts resolved on ${result.conflictFiles.length} file(s):`),
         );
         for (const file of result.conflictFiles) {
-          console.log(chalk.yellow(`   - ${file}`));
+          const how = result.mergedFiles.includes(file) ? 'merged' : 'whole file kept';
+          console.log(chalk.yellow(`   - ${file} (${how})`));
+        }
+        for (const conflict of result.resolvedConflicts) {
+          console.log(
+            chalk.dim(`   ${conflict.file}: ${conflict.field} — kept ${conflict.choice}`),
+          );
         }
-        console.log(chalk.dim('   Local version kept (encrypted files cannot be merged).'));
       }
 
       if (result.pulled) {
         console.log(chalk.green('✅ Pulled latest from remote'));
       }
 
+      await printRosterResult(result);
+      await printKeyRotation(result);
+
       console.log(
         chalk.dim(`   ${result.stateFileCount} encrypted state file(s) available`),
       );
+
+      for (const file of result.unreadable) {
+        console.log(chalk.yellow(`\n⚠ ${file.error.message}`));
+        console.log(chalk.dim(`   ${file.error.suggestion}`));
+        if (!file.rollbackTo) continue;
+
+        const { hash, date, message } = file.rollbackTo;
+        const target = `${hash.slice(0, 7)} (${date}, "${message}")`;
+        if (options.noInteractive || !process.stdin.isTTY) {
+          console.log(`   Last version you can decrypt: ${target}`);
+          console.log(chalk.dim('   Run ctx-sync pull in a terminal to roll back to it.'));
+          continue;
+        }
+
+        const Enquirer = (await import('enquirer')).default;
+        const enquirer = new Enquirer<{ rollback: boolean }>();
+        const response = await enquirer.prompt({
+          type: 'confirm',
+          name: 'rollback',
+          message: `Roll ${file.error.file} back to ${target}?`,
+          initial: false,
+        } as Parameters<typeof enquirer.prompt>[0]);
+        if (response.rollback) {
+          await rollbackUnreadable(file);
+          console.log(chalk.green(`✓ Rolled ${file.error.file} back to ${hash.slice(0, 7)}`));
+          console.log(chalk.dim('   Push it with: ctx-sync sync'));
+        }
+      }
     }));
 }
@@ -7,11 +7,18 @@
  *   2. Resolve local project path (cross-machine path resolution via `--path`).
  *   3. Display project info (directory, branch, env var count).
  *   4. Display mental context (if available).
- *   5. Collect commands to execute (Docker services, auto-start services).
+ *   5. Collect commands to execute (runtime installs for pinned tool
+ *      versions missing here, Docker services, auto-start services,
+ *      tmux session, VS Code extensions/settings/last file).
  *   6. Present commands for user approval (MANDATORY — no bypass).
  *   7. Execute approved commands.
- *   8. Set up env vars (.env file) in the project directory.
+ *   8. Set up env vars (.env file) in the project directory, unless
+ *      `--no-env-file` is set (use `ctx-sync exec` to run commands with
+ *      the env vars injected instead). `--env <profile>` picks a named
+ *      env profile (e.g. `staging`) over the project's own vars. Secret
+ *      references (`op://…`) are read from their providers first.
  *   9. Checkout correct git branch (if repo exists locally).
+ *  10. Recreate missing git worktrees next to the local project path.
  *
  * **Cross-machine support:** When the stored `project.path` does not exist
  * on the current machine (common when restoring on a different OS or file
@@ -29,24 +36,52 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import type { Command } from 'commander';
 import type {
-  StateFile,
-  Project,
-  EnvVars,
   DockerState,
   MentalContext,
   ServiceState,
   ProjectMentalContext,
 } from '@ctx-sync/shared';
-import { identityToRecipient } from 'age-encryption';
-import { loadKey } from '../core/key-store.js';
-import { readState } from '../core/state-manager.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { readState, readProjectState } from '../core/state-manager.js';
+import type { ReadStateOptions } from '../core/state-manager.js';
+import { readMergedProjects, findProject, getLocalView } from '../core/machine-state.js';
+import type { MergedProject } from '../core/machine-state.js';
 import {
   formatCommandsForDisplay,
   presentCommandsForApproval,
 } from '../core/command-validator.js';
 import type { PendingCommand, ApprovalResult } from '../core/command-validator.js';
+import type { ConflictResolver } from '../core/state-merge.js';
+import {
+  loadSessions,
+  buildSessionCommands,
+  isTmuxAvailable,
+  tmuxSessionExists,
+  sendToPane,
+} from '../core/session-handler.js';
+import {
+  loadIdeState,
+  buildIdeCommands,
+  isVSCodeAvailable,
+  listExtensions,
+  applyWorkspaceSettings,
+} from '../core/ide-state.js';
+import { restoreWorktrees } from '../core/git-worktrees.js';
+import type { WorktreeRestoreResult } from '../core/git-worktrees.js';
+import {
+  checkToolVersions,
+  detectVersionManagers,
+  buildToolInstallCommands,
+  formatToolCheck,
+} from '../core/tool-versions.js';
+import type { ToolCheck } from '../core/tool-versions.js';
+import { quoteDotenv } from '../core/env-export.js';
+import { readEnvVars, resolveEnvProfile, skippedGroupsWarning } from '../core/env-handler.js';
+import { getSecretProviders, resolveSecretRefs } from '../core/secret-refs.js';
+import { getPublicKey } from '../core/encryption.js';
+import type { PrivateKey } from '../core/encryption.js';
 import { getConfigDir, getSyncDir } from './init.js';
-import { withErrorHandler } from '../utils/errors.js';
+import { DecryptionError, withErrorHandler } from '../utils/errors.js';
 
 /** Options for the restore command */
 export interface RestoreOptions {
@@ -62,12 +97,20 @@ export interface RestoreOptions {
   selectFn?: (cmd: PendingCommand, index: number) => Promise<boolean>;
   /** Callback invoked before command approval prompt (used to stop spinners) */
   onBeforeApproval?: () => void;
+  /** Drop malformed state entries instead of failing */
+  repair?: boolean;
+  /** Do not write the env vars to a .env file */
+  noEnvFile?: boolean;
+  /** Env profile to restore (default: the project's own vars) */
+  profile?: string;
+  /** Settles fields changed on both sides of a pull conflict (default: keep local) */
+  resolveFn?: ConflictResolver;
 }
 
 /** Result of a restore operation */
 export interface RestoreResult {
-  /** The project that was restored */
-  project: Project;
+  /** The project that was restored (merged across machines) */
+  project: MergedProject;
   /** Whether we pulled from remote before restoring */
   pulled: boolean;
   /** Number of env vars available for the project */
@@ -76,8 +119,12 @@ export interface RestoreResult {
   envFileWritten: boolean;
   /** Whether the git branch was checked out */
   branchCheckedOut: boolean;
+  /** Git worktrees recreated on this machine (and those that failed) */
+  worktrees: WorktreeRestoreResult;
   /** Mental context for the project (if available) */
   mentalContext: ProjectMentalContext | null;
+  /** Pinned tool versions that are missing or different on this machine */
+  toolMismatches: ToolCheck[];
   /** Commands that were presented for approval */
   commandsPresented: PendingCommand[];
   /** Approval result */
@@ -90,31 +137,64 @@ export interface RestoreResult {
   localPath: string;
   /** Whether the path was resolved differently from the stored project.path */
   pathResolved: boolean;
+  /** Malformed entries dropped by `--repair`, per state file */
+  repaired: Array<{ file: string; dropped: string[] }>;
+  /** Env groups left out because this key is not a recipient of them */
+  skippedGroups: string[];
+}
+
+/**
+ * Read repo-wide state, treating a file this key is not a recipient of
+ * (it is scoped to some projects) as empty.
+ */
+async function readSharedState<T>(read: () => Promise<T>, empty: T): Promise<T> {
+  try {
+    return await read();
+  } catch (err) {
+    if (err instanceof DecryptionError && err.reason === 'not-a-recipient') {
+      return empty;
+    }
+    throw err;
+  }
 }
 
 /**
  * Collect all commands that need to be executed for a project restore.
  *
- * Gathers Docker service commands and auto-start service commands from
- * the encrypted state files. Supports cross-machine path resolution for
- * Docker commands via the `localPath` parameter.
+ * Gathers Docker service commands, auto-start service commands, the
+ * project's tmux session and its VS Code state from the encrypted state
+ * files. Supports cross-machine path resolution for Docker commands, tmux
+ * pane directories and VS Code files via the `localPath` parameter.
+ *
+ * The tmux session is skipped if tmux is not installed or a session
+ * with the same name is already running. Services, tmux sessions and
+ * VS Code state are repo-wide, so a member scoped to some projects
+ * restores without them.
  *
  * @param projectName - The name of the project to restore.
  * @param syncDir - The sync directory path.
  * @param privateKey - The Age private key for decryption.
  * @param localPath - Optional resolved local path for cross-machine support.
+ * @param readOptions - Repair options passed through to `readState()`.
  * @returns List of pending commands for approval.
  */
 export async function collectRestoreCommands(
   projectName: string,
   syncDir: string,
-  privateKey: string,
+  privateKey: PrivateKey,
   localPath?: string,
+  readOptions: ReadStateOptions = {},
 ): Promise<PendingCommand[]> {
   const commands: PendingCommand[] = [];
 
   // Collect Docker service commands (with cross-machine path resolution)
-  const dockerState = await readState<DockerState>(syncDir, privateKey, 'docker-state');
+  const dockerState = await readProjectState<DockerState>(
+    syncDir,
+    privateKey,
+    'docker-state',
+    projectName,
+    readOptions,
+  );
   if (dockerState && dockerState[projectName]) {
     const projectDocker = dockerState[projectName];
     if (projectDocker) {
@@ -142,7 +222,10 @@ export async function collectRestoreCommands(
   }
 
   // Collect auto-start service commands
-  const serviceState = await readState<ServiceState>(syncDir, privateKey, 'services');
+  const serviceState = await readSharedState(
+    () => readState<ServiceState>(syncDir, privateKey, 'services', readOptions),
+    null,
+  );
   if (serviceState) {
     const projectServices = serviceState.services.filter(
       (s) => s.project === projectName && s.autoStart,
@@ -156,6 +239,30 @@ export async function collectRestoreCommands(
     }
   }
 
+  // Collect the tmux session (pane cwds remapped to this machine)
+  const sessions = await readSharedState(() => loadSessions(syncDir, privateKey, readOptions), {});
+  const session = sessions[projectName];
+  if (session && isTmuxAvailable() && !tmuxSessionExists(session.name)) {
+    commands.push(
+      ...buildSessionCommands(session, (cwd) =>
+        resolvePaneCwd(cwd, session.projectPath, localPath ?? session.projectPath),
+      ),
+    );
+  }
+
+  // Collect VS Code extensions, settings and the last open file
+  const ideStates = await readSharedState(() => loadIdeState(syncDir, privateKey, readOptions), {});
+  const ideState = ideStates[projectName];
+  if (ideState) {
+    commands.push(
+      ...buildIdeCommands(
+        ideState,
+        localPath ?? ideState.projectPath,
+        isVSCodeAvailable() ? listExtensions() : null,
+      ),
+    );
+  }
+
   return commands;
 }
 
@@ -183,12 +290,7 @@ export function writeEnvFile(
   lines.push('');
 
   for (const [key, entry] of Object.entries(envVars)) {
-    // Quote values that contain spaces, newlines, or special characters
-    const needsQuotes = /[\s"'\\#]/.test(entry.value) || entry.value === '';
-    const escapedValue = needsQuotes
-      ? `"${entry.value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
-      : entry.value;
-    lines.push(`${key}=${escapedValue}`);
+    lines.push(`${key}=${quoteDotenv(entry.value)}`);
   }
 
   const envPath = path.join(projectPath, '.env');
@@ -269,6 +371,31 @@ export function resolveLocalPath(
   return { resolvedPath: cwd, pathResolved: true };
 }
 
+/**
+ * Resolve a tmux pane's working directory on this machine.
+ *
+ * A directory inside the project is rebased onto the project's local
+ * path, then resolved like the project itself via `resolveLocalPath()`.
+ * If it does not exist here, the pane opens in the project directory.
+ *
+ * @param paneCwd - The pane cwd on the capturing machine.
+ * @param capturedProjectPath - The project path on the capturing machine.
+ * @param localPath - The project path on this machine.
+ * @returns The directory to open the pane in.
+ */
+export function resolvePaneCwd(
+  paneCwd: string,
+  capturedProjectPath: string,
+  localPath: string,
+): string {
+  const relative = path.relative(capturedProjectPath, paneCwd);
+  const insideProject = !relative.startsWith('..') && !path.isAbsolute(relative);
+  const candidate = insideProject ? path.join(localPath, relative) : paneCwd;
+
+  const { resolvedPath, pathResolved } = resolveLocalPath(candidate);
+  return pathResolved ? localPath : resolvedPath;
+}
+
 /**
  * Execute the restore command logic.
  *
@@ -295,34 +422,40 @@ export async function executeRestore(
   // Auto-pull latest from remote before restoring (unless --no-pull)
   let pulled = false;
   if (!options.noPull) {
-    const { validateSyncRemote, pullWithConflictDetection, resolveConflicts } = await import('./sync.js');
+    const { validateSyncRemote, pullWithConflictDetection, mergeConflicts, keepLocal } =
+      await import('./sync.js');
     const remoteUrl = await validateSyncRemote(syncDir);
     if (remoteUrl) {
       const pullResult = await pullWithConflictDetection(syncDir);
       pulled = pullResult.pulled;
       if (pullResult.conflictFiles.length > 0) {
-        await resolveConflicts(syncDir, pullResult.conflictFiles, true);
+        await mergeConflicts(syncDir, pullResult.conflictFiles, options.resolveFn ?? keepLocal);
       }
     }
   }
 
   // Load key
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
+  const publicKey = await getPublicKey(privateKey);
   // publicKey is available for future use (re-encryption after restore)
   void publicKey;
 
+  // With --repair, malformed entries are dropped (and reported) instead of failing
+  const repaired: RestoreResult['repaired'] = [];
+  const readOptions: ReadStateOptions = {
+    repair: options.repair,
+    onRepair: (file, dropped) => repaired.push({ file, dropped }),
+  };
+
   // 1. Decrypt state and find the project
-  const state = await readState<StateFile>(syncDir, privateKey, 'state');
-  if (!state) {
+  const projects = await readMergedProjects(syncDir, privateKey, readOptions);
+  if (!projects) {
     throw new Error('No state file found. Track a project first with `ctx-sync track`.');
   }
 
-  const project = state.projects.find(
-    (p) => p.name === projectName || p.id === projectName,
-  );
+  const project = findProject(projects, projectName);
   if (!project) {
-    const availableNames = state.projects.map((p) => p.name).join(', ');
+    const availableNames = projects.map((p) => p.name).join(', ');
     throw new Error(
       `Project "${projectName}" not found.\n` +
         (availableNames
@@ -331,41 +464,62 @@ export async function executeRestore(
     );
   }
 
-  // Resolve the effective local path (cross-machine support)
+  // Resolve the effective local path (cross-machine support). Prefer the
+  // path this machine recorded, if it ever tracked the project itself.
+  const storedPath = getLocalView(project)?.path ?? project.path;
   const { resolvedPath: localPath, pathResolved } = resolveLocalPath(
-    project.path,
+    storedPath,
     options,
   );
 
   if (pathResolved && !options.localPath) {
     // Warn when falling back to cwd (not an explicit override)
     console.warn(
-      `⚠️  Stored path "${project.path}" not found on this machine. Using "${localPath}" instead.`,
+      `⚠️  Stored path "${storedPath}" not found on this machine. Using "${localPath}" instead.`,
     );
   }
 
   // 2. Count env vars
-  const envVars = await readState<EnvVars>(syncDir, privateKey, 'env-vars');
-  const projectEnvVars = envVars?.[project.name] ?? {};
+  let skippedGroups: string[] = [];
+  const envVars = await readEnvVars(syncDir, privateKey, project.name, {
+    ...readOptions,
+    onSkippedGroups: (groups) => (skippedGroups = groups),
+  });
+  let projectEnvVars = resolveEnvProfile(envVars, project.name, options.profile);
   const envVarCount = Object.keys(projectEnvVars).length;
 
+  // Secret references are read from their providers before anything
+  // runs, so a provider that is signed out stops the restore early
+  if (envVarCount > 0 && !options.noEnvFile) {
+    projectEnvVars = await resolveSecretRefs(projectEnvVars, getSecretProviders(configDir));
+  }
+
   // 3. Load mental context
-  const mentalContextData = await readState<MentalContext>(
+  const mentalContextData = await readProjectState<MentalContext>(
     syncDir,
     privateKey,
     'mental-context',
+    project.name,
+    readOptions,
   );
   const mentalContext = mentalContextData?.[project.name] ?? null;
 
-  // 4. Collect commands to be executed (pass localPath for Docker cross-machine resolution)
-  const commandsPresented = await collectRestoreCommands(
-    project.name,
-    syncDir,
-    privateKey,
-    localPath,
+  // 4. Check pinned tool versions — installs run first, after approval
+  const toolMismatches = checkToolVersions(project.tools?.required ?? []).filter(
+    (check) => check.status === 'missing' || check.status === 'mismatch',
   );
-
-  // 5. Stop spinner and display context before approval prompt
+  const installCommands =
+    toolMismatches.length > 0
+      ? buildToolInstallCommands(toolMismatches, project.tools?.installed ?? {}, detectVersionManagers())
+      : [];
+
+  // 5. Collect commands to be executed (pass localPath for Docker cross-machine resolution)
+  const commandsPresented = [
+    ...installCommands,
+    ...(await collectRestoreCommands(project.name, syncDir, privateKey, localPath, readOptions)),
+  ];
+
+  // 6. Stop spinner and display context before approval prompt
   if (options.onBeforeApproval) {
     options.onBeforeApproval();
   }
@@ -382,18 +536,25 @@ export async function executeRestore(
     selectFn: options.selectFn,
   });
 
-  // 6. Execute approved commands (using resolved local path)
+  // 7. Execute approved commands (using resolved local path)
   const executedCommands: string[] = [];
   const failedCommands: Array<{ command: string; error: string }> = [];
 
   for (const cmd of approval.approved) {
     try {
-      const { execSync } = await import('node:child_process');
-      execSync(cmd.command, {
-        cwd: cmd.cwd ?? localPath,
-        stdio: 'pipe',
-        timeout: 60000,
-      });
+      if (cmd.tmuxPane) {
+        // Typed into the restored pane rather than run by us
+        sendToPane(cmd.tmuxPane, cmd.command);
+      } else if (cmd.settingsFile) {
+        applyWorkspaceSettings(cmd.settingsFile.path, cmd.settingsFile.settings);
+      } else {
+        const { execSync } = await import('node:child_process');
+        execSync(cmd.command, {
+          cwd: cmd.cwd ?? localPath,
+          stdio: 'pipe',
+          timeout: 60000,
+        });
+      }
       executedCommands.push(cmd.command);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
@@ -401,31 +562,42 @@ export async function executeRestore(
     }
   }
 
-  // 7. Write env vars to .env file (using resolved local path)
+  // 8. Write env vars to .env file (using resolved local path)
   let envFileWritten = false;
-  if (envVarCount > 0 && fs.existsSync(localPath)) {
+  if (envVarCount > 0 && !options.noEnvFile && fs.existsSync(localPath)) {
     envFileWritten = writeEnvFile(localPath, projectEnvVars);
   }
 
-  // 8. Checkout git branch (using resolved local path)
+  // 9. Checkout git branch (using resolved local path)
   const branchCheckedOut = await checkoutBranch(
     localPath,
     project.git.branch,
   );
 
+  // 10. Recreate missing worktrees (paths remapped to the resolved local path)
+  const worktrees = await restoreWorktrees(
+    localPath,
+    project.path,
+    project.git.worktrees ?? [],
+  );
+
   return {
     project,
     pulled,
     envVarCount,
     envFileWritten,
     branchCheckedOut,
+    worktrees,
     mentalContext,
+    toolMismatches,
     commandsPresented,
     approval,
     executedCommands,
     failedCommands,
     localPath,
     pathResolved,
+    repaired,
+    skippedGroups,
   };
 }
 
@@ -496,11 +668,17 @@ export function registerRestoreCommand(program: Command): void {
     .option('--no-interactive', 'Show commands but skip execution (safe default)')
     .option('--no-pull', 'Skip pulling from remote before restoring')
     .option('--path <dir>', 'Local project directory (use when the project is at a different path on this machine)')
+    .option('--repair', 'Drop malformed state entries instead of failing')
+    .option('--no-env-file', 'Do not write env vars to a .env file (use `ctx-sync exec` instead)')
+    .option('--env <profile>', 'Restore this env profile (e.g. staging) instead of the default vars')
     .action(withErrorHandler(async (projectName: string, opts: Record<string, unknown>) => {
       const options: RestoreOptions = {
         noInteractive: opts['interactive'] === false,
         noPull: opts['pull'] === false,
         localPath: opts['path'] as string | undefined,
+        repair: opts['repair'] === true,
+        noEnvFile: opts['envFile'] === false,
+        profile: opts['env'] as string | undefined,
       };
 
       const chalk = (await import('chalk')).default;
@@ -508,6 +686,14 @@ export function registerRestoreCommand(program: Command): void {
 
       const spinner = ora(options.noPull ? 'Decrypting state files...' : 'Pulling latest and decrypting...').start();
 
+      if (!options.noInteractive && !options.noPull && process.stdin.isTTY) {
+        const { promptConflictChoice } = await import('./sync.js');
+        options.resolveFn = (conflict) => {
+          spinner.stop();
+          return promptConflictChoice(conflict);
+        };
+      }
+
       options.onBeforeApproval = () => {
         spinner.stop();
 
@@ -522,6 +708,18 @@ export function registerRestoreCommand(program: Command): void {
         console.log(chalk.green('✅ Pulled latest from remote'));
       }
 
+      for (const { file, dropped } of result.repaired) {
+        console.log(
+          chalk.yellow(`⚠️  Dropped ${String(dropped.length)} malformed entr${dropped.length === 1 ? 'y' : 'ies'} from ${file}:`),
+        );
+        for (const field of dropped) {
+          console.log(chalk.dim(`   - ${field}`));
+        }
+      }
+      if (result.skippedGroups.length > 0) {
+        console.log(chalk.yellow(`⚠️  ${skippedGroupsWarning(result.skippedGroups)}`));
+      }
+
       // Display project info
       console.log(chalk.green(`\n✅ Restored: ${result.project.name}`));
       console.log('');
@@ -532,14 +730,31 @@ export function registerRestoreCommand(program: Command): void {
         console.log(`📂 Directory: ${result.localPath}`);
       }
       console.log(`🌿 Branch: ${result.project.git.branch}`);
-      console.log(`🔐 Env vars: ${result.envVarCount} decrypted`);
+      console.log(
+        `🔐 Env vars: ${result.envVarCount} decrypted` +
+          (options.profile ? ` (profile: ${options.profile})` : ''),
+      );
+
+      for (const check of result.toolMismatches) {
+        console.log(chalk.yellow(`⚠️  ${formatToolCheck(check)}`));
+      }
 
       if (result.branchCheckedOut) {
         console.log(chalk.dim('   Git branch checked out'));
       }
 
+      for (const worktree of result.worktrees.created) {
+        console.log(chalk.dim(`   Worktree created: ${worktree.path} (${worktree.branch})`));
+      }
+      for (const { path: worktreePath, branch, error } of result.worktrees.failed) {
+        console.log(chalk.yellow(`   ⚠️  Worktree ${worktreePath} (${branch}) not created: ${error}`));
+      }
+
       if (result.envFileWritten) {
         console.log(chalk.dim('   .env file written'));
+      } else if (options.noEnvFile && result.envVarCount > 0) {
+        const envFlag = options.profile ? ` --env ${options.profile}` : '';
+        console.log(chalk.dim(`   No .env file written — run commands with: ctx-sync exec ${result.project.name}${envFlag} -- <command>`));
       }
 
       // Display mental context
@@ -0,0 +1,161 @@
+/**
+ * `ctx-sync rollback <commit> [--file <file>]` command.
+ *
+ * Restores the state files (or one of them) as they were at a past
+ * commit, as a new commit on top — history is never rewritten, so the
+ * rollback is pushed with `ctx-sync sync` like any other change.
+ *
+ * Each restored version is decrypted, upgraded to the current schema
+ * and validated, then re-encrypted for the current recipients: a team
+ * member added since that commit can still read the restored state.
+ * State files that did not exist at the commit are left alone.
+ *
+ * @module commands/rollback
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Command } from 'commander';
+import { STATE_FILES } from '@ctx-sync/shared';
+import { withErrorHandler } from '../utils/errors.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { resolveRecipients } from '../core/recipients.js';
+import { commitState, listFilesAtCommit, resolveCommit } from '../core/git-sync.js';
+import {
+  isProjectScoped,
+  projectOfStateFile,
+  stateFileTypeOf,
+  writeStateFile,
+} from '../core/state-manager.js';
+import type { StateData } from '../core/state-manager.js';
+import { parseStateFileType, readStateAtCommit } from '../core/state-history.js';
+import { getConfigDir, getSyncDir } from './init.js';
+
+/** Options for the rollback command */
+export interface RollbackOptions {
+  /** Only restore this state file (e.g. 'env-vars') */
+  file?: string;
+}
+
+/** Result of the rollback command */
+export interface RollbackResult {
+  /** The full hash of the commit restored from */
+  commit: string;
+  /** The state files restored, relative to the sync dir */
+  restored: string[];
+  /** Project blobs skipped because the project is no longer shared on its own */
+  skipped: string[];
+  /** The new commit, or `null` if the state already matched */
+  newCommit: string | null;
+}
+
+/**
+ * Execute the rollback command logic.
+ *
+ * @param commit - The commit to restore from (hash, prefix or ref).
+ * @param options - Which state file to restore.
+ * @returns What was restored.
+ * @throws If the commit is unknown, or has none of the requested state.
+ * @throws DecryptionError if this key cannot decrypt a version to restore.
+ */
+export async function executeRollback(
+  commit: string,
+  options: RollbackOptions = {},
+): Promise<RollbackResult> {
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+
+  if (!fs.existsSync(path.join(syncDir, '.git'))) {
+    throw new Error('No sync repository found. Run `ctx-sync init` first.');
+  }
+
+  const fileType = options.file ? parseStateFileType(options.file) : undefined;
+  const hash = await resolveCommit(syncDir, commit);
+  if (!hash) {
+    throw new Error(`Unknown commit: ${commit}\nList state commits with: ctx-sync history`);
+  }
+
+  const files = (await listFilesAtCommit(syncDir, hash)).filter((file) => {
+    const type = stateFileTypeOf(file);
+    return type !== null && (!fileType || type === fileType);
+  });
+  if (files.length === 0) {
+    throw new Error(`Commit ${hash.slice(0, 7)} has no ${options.file ?? 'state'} to restore.`);
+  }
+
+  const privateKey = await resolvePrivateKey(configDir);
+  const restored: string[] = [];
+  const skipped: string[] = [];
+
+  // Decrypt every version first, so a failure leaves the working tree alone
+  const versions: Array<{ file: string; data: unknown }> = [];
+  for (const file of files) {
+    const project = projectOfStateFile(file);
+    if (project && !isProjectScoped(syncDir, project)) {
+      skipped.push(file);
+      continue;
+    }
+    const data = await readStateAtCommit(syncDir, hash, file, privateKey);
+    const current = await readStateAtCommit(syncDir, 'HEAD', file, privateKey).catch(() => null);
+    // Re-encrypting identical state would only churn the ciphertext
+    if (JSON.stringify(data) !== JSON.stringify(current)) {
+      versions.push({ file, data });
+    }
+  }
+
+  for (const { file, data } of versions) {
+    const type = stateFileTypeOf(file);
+    if (!type || data === null) continue;
+    const recipients = await resolveRecipients(
+      configDir,
+      privateKey,
+      projectOfStateFile(file) ?? undefined,
+    );
+    await writeStateFile(syncDir, file, data as StateData, recipients, type);
+    restored.push(file);
+  }
+
+  const newCommit = restored.length > 0
+    ? await commitState(
+      syncDir,
+      [...restored, STATE_FILES.MANIFEST],
+      `rollback: ${options.file ?? 'state'} to ${hash.slice(0, 7)}`,
+    )
+    : null;
+
+  return { commit: hash, restored, skipped, newCommit };
+}
+
+/**
+ * Register the `rollback` command on the given Commander program.
+ */
+export function registerRollbackCommand(program: Command): void {
+  program
+    .command('rollback <commit>')
+    .description('Restore state from a past commit as a new commit')
+    .option('--file <file>', 'Only restore this state file (e.g. env-vars)')
+    .action(withErrorHandler(async (commit: string, opts: Record<string, unknown>) => {
+      const chalk = (await import('chalk')).default;
+
+      const result = await executeRollback(commit, {
+        file: opts['file'] as string | undefined,
+      });
+      const short = result.commit.slice(0, 7);
+
+      for (const file of result.skipped) {
+        console.log(chalk.yellow(`⚠ Skipped ${file}: its project is no longer shared on its own`));
+      }
+
+      if (!result.newCommit) {
+        console.log(chalk.dim(`State already matches ${short} — nothing to roll back.`));
+        return;
+      }
+
+      console.log(chalk.green(`✓ Rolled back to ${short}`));
+      for (const file of result.restored) {
+        console.log(`   ${file}`);
+      }
+      console.log(chalk.dim(`   New commit: ${result.newCommit.slice(0, 7)}`));
+      console.log(chalk.dim('   Push it with: ctx-sync sync'));
+    }));
+}
@@ -17,11 +17,11 @@
 import { execSync } from 'node:child_process';
 import type { Command } from 'commander';
 import { withErrorHandler } from '../utils/errors.js';
-import type { StateFile, Service } from '@ctx-sync/shared';
+import type { Service } from '@ctx-sync/shared';
 import { STATE_FILES } from '@ctx-sync/shared';
-import { identityToRecipient } from 'age-encryption';
-import { loadKey } from '../core/key-store.js';
-import { readState } from '../core/state-manager.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { resolveRecipients } from '../core/recipients.js';
+import { readMergedProjects } from '../core/machine-state.js';
 import { commitState } from '../core/git-sync.js';
 import {
   presentCommandsForApproval,
@@ -38,6 +38,7 @@ import {
   getAutoStartServices,
 } from '../core/services-handler.js';
 import { getConfigDir, getSyncDir } from './init.js';
+import type { PrivateKey } from '../core/encryption.js';
 
 // ─── Interfaces ───────────────────────────────────────────────────────────
 
@@ -85,14 +86,12 @@ export interface ServiceStartResult {
 async function resolveProjectName(
   projectArg: string,
   syncDir: string,
-  privateKey: string,
+  privateKey: PrivateKey,
 ): Promise<string> {
   // Check if the project exists in tracked state
-  const stateData = await readState<StateFile>(syncDir, privateKey, 'state');
-  if (stateData) {
-    const match = stateData.projects.find((p) => p.name === projectArg);
-    if (match) return match.name;
-  }
+  const projects = await readMergedProjects(syncDir, privateKey);
+  const match = projects?.find((p) => p.name === projectArg);
+  if (match) return match.name;
   return projectArg;
 }
 
@@ -107,8 +106,8 @@ export async function executeServiceAdd(
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
 
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey);
 
   const projectName = await resolveProjectName(project, syncDir, privateKey);
 
@@ -126,7 +125,7 @@ export async function executeServiceAdd(
     throw new Error(`Invalid service:\n  ${errors.join('\n  ')}`);
   }
 
-  await addService(syncDir, service, publicKey, privateKey);
+  await addService(syncDir, service, recipients, privateKey);
 
   // Commit to sync repo
   if (!options.noSync) {
@@ -157,15 +156,15 @@ export async function executeServiceRemove(
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
 
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey);
 
   const projectName = await resolveProjectName(project, syncDir, privateKey);
   const removed = await removeService(
     syncDir,
     projectName,
     name,
-    publicKey,
+    recipients,
     privateKey,
   );
 
@@ -203,7 +202,7 @@ export async function executeServiceStart(
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
 
-  const privateKey = loadKey(configDir);
+  const privateKey = await resolvePrivateKey(configDir);
   const projectName = await resolveProjectName(project, syncDir, privateKey);
 
   const autoStart = await getAutoStartServices(syncDir, privateKey, projectName);
@@ -260,7 +259,7 @@ export async function executeServiceList(
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
 
-  const privateKey = loadKey(configDir);
+  const privateKey = await resolvePrivateKey(configDir);
 
   if (project) {
     const projectName = await resolveProjectName(project, syncDir, privateKey);
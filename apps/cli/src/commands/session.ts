@@ -0,0 +1,141 @@
+/**
+ * `ctx-sync session` command group.
+ *
+ * Captures terminal sessions so they can be recreated on restore:
+ *   - `session capture <project>` — save the project's tmux session
+ *     (windows, panes, working directories and running programs) to
+ *     `sessions.age`.
+ *
+ * The session is recreated by `ctx-sync restore`, where the layout and
+ * every pane command go through the usual approval prompt.
+ *
+ * @module commands/session
+ */
+
+import type { Command } from 'commander';
+import { withErrorHandler } from '../utils/errors.js';
+import { STATE_FILES } from '@ctx-sync/shared';
+import type { TmuxSession } from '@ctx-sync/shared';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { resolveRecipients } from '../core/recipients.js';
+import { commitState } from '../core/git-sync.js';
+import { readMergedProjects, findProject, getLocalView } from '../core/machine-state.js';
+import {
+  listTmuxSessions,
+  currentTmuxSession,
+  captureTmuxSession,
+  saveSession,
+} from '../core/session-handler.js';
+import { getConfigDir, getSyncDir } from './init.js';
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** Options for session capture */
+export interface SessionCaptureOptions {
+  /** tmux session to capture (default: one named after the project, else the current one) */
+  session?: string;
+  /** Skip the Git commit */
+  noSync?: boolean;
+}
+
+/** Result of session capture */
+export interface SessionCaptureResult {
+  /** The tracked project name */
+  project: string;
+  /** The captured session */
+  session: TmuxSession;
+  /** Number of panes captured */
+  paneCount: number;
+}
+
+// ─── Core Logic ───────────────────────────────────────────────────────────
+
+/**
+ * Execute `ctx-sync session capture <project>`.
+ *
+ * @param projectName - The tracked project to attach the session to.
+ * @param options - Session name and sync options.
+ * @returns The captured session.
+ * @throws If the project is not tracked or no matching session is running.
+ */
+export async function executeSessionCapture(
+  projectName: string,
+  options: SessionCaptureOptions = {},
+): Promise<SessionCaptureResult> {
+  const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey);
+
+  const projects = await readMergedProjects(syncDir, privateKey);
+  const project = projects ? findProject(projects, projectName) : null;
+  if (!project) {
+    throw new Error(
+      `Project "${projectName}" not found. Track it first with \`ctx-sync track\`.`,
+    );
+  }
+
+  const windows = listTmuxSessions();
+  const sessionName =
+    options.session ??
+    (windows[project.name] ? project.name : currentTmuxSession());
+  if (!sessionName) {
+    throw new Error(
+      `No tmux session named "${project.name}" is running.\n` +
+        'Pass one with --session <name>, or run this command inside the session.',
+    );
+  }
+
+  const projectPath = getLocalView(project)?.path ?? project.path;
+  const session = captureTmuxSession(sessionName, projectPath, windows);
+
+  await saveSession(syncDir, project.name, session, recipients, privateKey);
+
+  if (!options.noSync) {
+    await commitState(
+      syncDir,
+      [STATE_FILES.SESSIONS, STATE_FILES.MANIFEST],
+      `session: capture ${project.name}`,
+    );
+  }
+
+  return {
+    project: project.name,
+    session,
+    paneCount: session.windows.reduce((sum, w) => sum + w.panes.length, 0),
+  };
+}
+
+// ─── Commander Registration ───────────────────────────────────────────────
+
+/**
+ * Register the `ctx-sync session` command group on the given program.
+ */
+export function registerSessionCommand(program: Command): void {
+  const sessionCmd = program
+    .command('session')
+    .description('Capture terminal sessions for restore');
+
+  // ── session capture ───────────────────────────────────────────────
+  sessionCmd
+    .command('capture <project>')
+    .description('Save the project\'s tmux windows and panes')
+    .option('-s, --session <name>', 'tmux session to capture (default: named after the project, or the current one)')
+    .option('--no-sync', 'Skip committing to sync repo')
+    .action(withErrorHandler(async (projectName: string, opts: { session?: string; sync: boolean }) => {
+      const result = await executeSessionCapture(projectName, {
+        session: opts.session,
+        noSync: !opts.sync,
+      });
+      const chalk = (await import('chalk')).default;
+
+      console.log(
+        chalk.green(
+          `✓ Captured tmux session "${result.session.name}" for ${result.project} ` +
+            `(${String(result.session.windows.length)} windows, ${String(result.paneCount)} panes)`,
+        ),
+      );
+      console.log(chalk.dim('   Restored with: ctx-sync restore ' + result.project));
+    }));
+}
@@ -0,0 +1,69 @@
+/**
+ * `ctx-sync shell-init` command.
+ *
+ * Prints a hook for bash, zsh or fish that records directory visits on
+ * every `cd` and defines a jump function (default `j`) around
+ * `ctx-sync jump`. Add it to the shell's startup file:
+ *
+ *   eval "$(ctx-sync shell-init bash)"     # ~/.bashrc
+ *   eval "$(ctx-sync shell-init zsh)"      # ~/.zshrc
+ *   ctx-sync shell-init fish | source      # ~/.config/fish/config.fish
+ *
+ * See `core/shell-integration` for how visits are queued and flushed.
+ *
+ * @module commands/shell-init
+ */
+
+import type { Command } from 'commander';
+import { withErrorHandler } from '../utils/errors.js';
+import {
+  SUPPORTED_SHELLS,
+  isSupportedShell,
+  renderShellHook,
+  ensureVisitQueue,
+} from '../core/shell-integration.js';
+import { getConfigDir } from './init.js';
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** Options for shell-init */
+export interface ShellInitOptions {
+  /** Name of the jump function (default `j`) */
+  jumpFunction?: string;
+}
+
+// ─── Core Logic ───────────────────────────────────────────────────────────
+
+/**
+ * Execute `ctx-sync shell-init <shell>`.
+ *
+ * Creates the visit queue (permissions 600) so the hook never has to.
+ *
+ * @param shell   - The target shell.
+ * @param options - Jump function name.
+ * @returns The hook script.
+ * @throws If the shell is not supported.
+ */
+export function executeShellInit(shell: string, options: ShellInitOptions = {}): string {
+  if (!isSupportedShell(shell)) {
+    throw new Error(`Unsupported shell: "${shell}". Supported: ${SUPPORTED_SHELLS.join(', ')}.`);
+  }
+
+  const queueFile = ensureVisitQueue(getConfigDir());
+  return renderShellHook(shell, { queueFile, jumpFunction: options.jumpFunction });
+}
+
+// ─── Commander Registration ───────────────────────────────────────────────
+
+/**
+ * Register the `ctx-sync shell-init` command on the given program.
+ */
+export function registerShellInitCommand(program: Command): void {
+  program
+    .command('shell-init <shell>')
+    .description(`Print a hook that tracks directories on cd (${SUPPORTED_SHELLS.join(', ')})`)
+    .option('--cmd <name>', 'Name of the jump function', 'j')
+    .action(withErrorHandler(async (shell: string, opts: { cmd: string }) => {
+      process.stdout.write(executeShellInit(shell, { jumpFunction: opts.cmd }));
+    }));
+}
@@ -2,8 +2,9 @@
  * `ctx-sync show <project>` command.
  *
  * Decrypts and displays the full context for a project — state,
- * env var count, mental context, Docker services, running services —
- * in a readable, formatted terminal output.
+ * env var count and profile names, pinned tool versions (checked against this machine),
+ * mental context, Docker services, running services — in a readable,
+ * formatted terminal output.
  *
  * This is the "at-a-glance" view that answers: "What was I doing on
  * this project, and what do I need to get back to work?"
@@ -16,24 +17,38 @@ import * as path from 'node:path';
 import type { Command } from 'commander';
 import { withErrorHandler } from '../utils/errors.js';
 import type {
-  StateFile,
   Project,
-  EnvVars,
   DockerState,
   MentalContext,
   ServiceState,
   ProjectMentalContext,
 } from '@ctx-sync/shared';
-import { loadKey } from '../core/key-store.js';
-import { readState } from '../core/state-manager.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { readState, readProjectState } from '../core/state-manager.js';
+import { readMergedProjects, findProject } from '../core/machine-state.js';
+import type { MergedProject } from '../core/machine-state.js';
+import {
+  listEnvProfiles,
+  listLinkedGroups,
+  readEnvVars,
+  resolveEnvProfile,
+} from '../core/env-handler.js';
+import { checkToolVersions, formatToolCheck } from '../core/tool-versions.js';
+import type { ToolCheck } from '../core/tool-versions.js';
 import { getConfigDir, getSyncDir } from './init.js';
 
 /** Result of the show command */
 export interface ShowResult {
-  /** The project entry */
-  project: Project;
+  /** The project entry (merged across machines when read from state) */
+  project: Project & Partial<Pick<MergedProject, 'lastMachine' | 'machines'>>;
   /** Number of env vars for the project */
   envVarCount: number;
+  /** Env profiles of the project (names only), when it has named ones */
+  envProfiles?: string[];
+  /** Env groups the project uses, when it uses any */
+  envGroups?: string[];
+  /** Pinned tool versions checked against this machine */
+  toolChecks: ToolCheck[];
   /** Mental context for the project (if any) */
   mentalContext: ProjectMentalContext | null;
   /** Docker state for the project (if any) */
@@ -71,19 +86,17 @@ export async function executeShow(projectName: string): Promise<ShowResult> {
   }
 
   // Load key
-  const privateKey = loadKey(configDir);
+  const privateKey = await resolvePrivateKey(configDir);
 
   // 1. Find the project in state
-  const state = await readState<StateFile>(syncDir, privateKey, 'state');
-  if (!state) {
+  const projects = await readMergedProjects(syncDir, privateKey);
+  if (!projects) {
     throw new Error('No state file found. Track a project first with `ctx-sync track`.');
   }
 
-  const project = state.projects.find(
-    (p) => p.name === projectName || p.id === projectName,
-  );
+  const project = findProject(projects, projectName);
   if (!project) {
-    const availableNames = state.projects.map((p) => p.name).join(', ');
+    const availableNames = projects.map((p) => p.name).join(', ');
     throw new Error(
       `Project "${projectName}" not found.\n` +
         (availableNames
@@ -93,20 +106,30 @@ export async function executeShow(projectName: string): Promise<ShowResult> {
   }
 
   // 2. Count env vars
-  const envVars = await readState<EnvVars>(syncDir, privateKey, 'env-vars');
-  const projectEnvVars = envVars?.[project.name] ?? {};
-  const envVarCount = Object.keys(projectEnvVars).length;
+  const envVars = await readEnvVars(syncDir, privateKey, project.name);
+  const envVarCount = Object.keys(resolveEnvProfile(envVars, project.name)).length;
+  const envProfiles = listEnvProfiles(envVars, project.name);
+  const envGroups = listLinkedGroups(envVars, project.name);
+
+  // 3. Check pinned tool versions against this machine
+  const toolChecks = checkToolVersions(project.tools?.required ?? []);
 
-  // 3. Load mental context
-  const mentalContextData = await readState<MentalContext>(
+  // 4. Load mental context
+  const mentalContextData = await readProjectState<MentalContext>(
     syncDir,
     privateKey,
     'mental-context',
+    project.name,
   );
   const mentalContext = mentalContextData?.[project.name] ?? null;
 
-  // 4. Load Docker state
-  const dockerState = await readState<DockerState>(syncDir, privateKey, 'docker-state');
+  // 5. Load Docker state
+  const dockerState = await readProjectState<DockerState>(
+    syncDir,
+    privateKey,
+    'docker-state',
+    project.name,
+  );
   const projectDocker = dockerState?.[project.name];
   const dockerServices = projectDocker?.services.map((s) => ({
     name: s.name,
@@ -115,7 +138,7 @@ export async function executeShow(projectName: string): Promise<ShowResult> {
     autoStart: s.autoStart,
   })) ?? [];
 
-  // 5. Load service state
+  // 6. Load service state
   const serviceState = await readState<ServiceState>(syncDir, privateKey, 'services');
   const services = serviceState?.services
     .filter((s) => s.project === project.name)
@@ -129,6 +152,9 @@ export async function executeShow(projectName: string): Promise<ShowResult> {
   return {
     project,
     envVarCount,
+    ...(envProfiles.length > 1 ? { envProfiles } : {}),
+    ...(envGroups.length > 0 ? { envGroups } : {}),
+    toolChecks,
     mentalContext,
     dockerServices,
     services,
@@ -158,6 +184,12 @@ export function formatShowOutput(result: ShowResult, _useChalk = true): string {
   lines.push(`  📂 Directory: ${result.project.path}`);
   lines.push(`  🌿 Branch:    ${result.project.git.branch}`);
   lines.push(`  🔐 Env vars:  ${result.envVarCount}`);
+  if (result.envProfiles) {
+    lines.push(`     Profiles:  ${result.envProfiles.join(', ')}`);
+  }
+  if (result.envGroups) {
+    lines.push(`     Groups:    ${result.envGroups.join(', ')}`);
+  }
 
   if (result.project.git.hasUncommitted) {
     lines.push(`  ⚠  Uncommitted changes`);
@@ -167,8 +199,41 @@ export function formatShowOutput(result: ShowResult, _useChalk = true): string {
     lines.push(`  📦 Stash count: ${result.project.git.stashCount}`);
   }
 
+  const worktrees = result.project.git.worktrees ?? [];
+  if (worktrees.length > 0) {
+    lines.push(`  🌳 Worktrees:`);
+    for (const worktree of worktrees) {
+      lines.push(`     • ${worktree.branch} — ${worktree.path}`);
+    }
+  }
+
+  if (result.toolChecks.length > 0) {
+    lines.push(`  🧰 Tools:`);
+    for (const check of result.toolChecks) {
+      const icon = check.status === 'ok' ? '✓' : check.status === 'unknown' ? '?' : '⚠';
+      lines.push(`     ${icon} ${formatToolCheck(check)}`);
+    }
+  }
+
   lines.push(`  🕐 Last accessed: ${formatTimestamp(result.project.lastAccessed)}`);
 
+  if (result.project.lastMachine) {
+    lines.push(`  💻 Last machine: ${result.project.lastMachine.hostname}`);
+  }
+
+  // Per-machine views (only worth a section when more than one machine tracks it)
+  if (result.project.machines && result.project.machines.length > 1) {
+    lines.push('');
+    lines.push('  💻 Machines');
+    lines.push('  ──────────');
+    for (const view of result.project.machines) {
+      const dirty = view.git.hasUncommitted ? ', uncommitted changes' : '';
+      const stashes = view.git.stashCount > 0 ? `, ${view.git.stashCount} stash(es)` : '';
+      lines.push(`     • ${view.machine.hostname} — ${view.git.branch}${dirty}${stashes}`);
+      lines.push(`       ${view.path} (${formatTimestamp(view.lastAccessed)})`);
+    }
+  }
+
   // Mental context
   if (result.mentalContext) {
     lines.push('');
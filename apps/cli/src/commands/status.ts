@@ -9,9 +9,10 @@
 
 import type { Command } from 'commander';
 import { withErrorHandler } from '../utils/errors.js';
-import type { StateFile, Manifest } from '@ctx-sync/shared';
-import { loadKey } from '../core/key-store.js';
-import { readState, readManifest } from '../core/state-manager.js';
+import type { Manifest } from '@ctx-sync/shared';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { readManifest } from '../core/state-manager.js';
+import { readMergedProjects } from '../core/machine-state.js';
 import { getStatus } from '../core/git-sync.js';
 import { getConfigDir, getSyncDir } from './init.js';
 
@@ -31,6 +32,16 @@ export interface SyncInfo {
   behind: number;
 }
 
+/** How one machine last saw a project */
+export interface MachineProjectStatus {
+  hostname: string;
+  path: string;
+  branch: string;
+  hasUncommitted: boolean;
+  stashCount: number;
+  lastAccessed: string;
+}
+
 /** Per-project status */
 export interface ProjectStatus {
   name: string;
@@ -39,6 +50,10 @@ export interface ProjectStatus {
   hasUncommitted: boolean;
   stashCount: number;
   lastAccessed: string;
+  /** Hostname of the machine that touched the project most recently */
+  lastMachine: string;
+  /** Every machine's view of the project (most recent first) */
+  machines: MachineProjectStatus[];
 }
 
 /** Result returned by executeStatus */
@@ -52,7 +67,7 @@ export interface StatusResult {
  *
  * 1. Read manifest for last sync time.
  * 2. Get sync repo status (pending changes, remote).
- * 3. Read state.age for per-project info.
+ * 3. Read state.age and merge per-machine snapshots for per-project info.
  *
  * @returns Status result with sync and project info.
  */
@@ -108,20 +123,27 @@ export async function executeStatus(): Promise<StatusResult> {
   // Read per-project status
   const projects: ProjectStatus[] = [];
   try {
-    const privateKey = loadKey(configDir);
-    const state = await readState<StateFile>(syncDir, privateKey, 'state');
-
-    if (state?.projects) {
-      for (const project of state.projects) {
-        projects.push({
-          name: project.name,
-          path: project.path,
-          branch: project.git.branch,
-          hasUncommitted: project.git.hasUncommitted,
-          stashCount: project.git.stashCount,
-          lastAccessed: project.lastAccessed,
-        });
-      }
+    const privateKey = await resolvePrivateKey(configDir);
+    const merged = await readMergedProjects(syncDir, privateKey);
+
+    for (const project of merged ?? []) {
+      projects.push({
+        name: project.name,
+        path: project.path,
+        branch: project.git.branch,
+        hasUncommitted: project.git.hasUncommitted,
+        stashCount: project.git.stashCount,
+        lastAccessed: project.lastAccessed,
+        lastMachine: project.lastMachine.hostname,
+        machines: project.machines.map((view) => ({
+          hostname: view.machine.hostname,
+          path: view.path,
+          branch: view.git.branch,
+          hasUncommitted: view.git.hasUncommitted,
+          stashCount: view.git.stashCount,
+          lastAccessed: view.lastAccessed,
+        })),
+      });
     }
   } catch {
     // State file might not exist yet
@@ -192,6 +214,7 @@ export function registerStatusCommand(program: Command): void {
 
           console.log(`  ${statusIcon} ${project.name}`);
           console.log(`    Branch: ${project.branch}`);
+          console.log(chalk.dim(`    Last touched on: ${project.lastMachine}`));
 
           if (project.hasUncommitted) {
             console.log(chalk.yellow('    Uncommitted changes'));
@@ -200,6 +223,11 @@ export function registerStatusCommand(program: Command): void {
           if (project.stashCount > 0) {
             console.log(chalk.yellow(`    ${project.stashCount} stash(es)`));
           }
+
+          for (const view of project.machines.slice(1)) {
+            const dirty = view.hasUncommitted ? ', uncommitted changes' : '';
+            console.log(chalk.dim(`    ↳ ${view.hostname}: ${view.branch}${dirty}`));
+          }
         }
     }));
 }
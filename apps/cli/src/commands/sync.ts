@@ -4,13 +4,20 @@
  * Performs a full bidirectional sync:
  *   1. Validate remote URL (transport security).
  *   2. Pull latest from remote (if remote exists).
- *   3. Detect and handle merge conflicts on encrypted (.age) files.
- *   4. Commit all .age files + manifest.json.
- *   5. Push to remote.
+ *   3. Detect and merge conflicts on encrypted (.age) files.
+ *   4. Apply the signed team roster to the local recipients, and check
+ *      whether this machine's key was rotated elsewhere.
+ *   5. Commit all .age files, manifest.json, roster.jsonl and
+ *      key-rotations.jsonl.
+ *   6. Push to remote.
  *
- * Merge conflicts on .age files are NEVER auto-merged — the user must
- * choose which version to keep (local or remote) because encrypted blobs
- * cannot be meaningfully merged.
+ * Conflicting .age files are merged semantically: the base, local and
+ * remote blobs are decrypted in memory, merged record by record, and
+ * re-encrypted. The user is only asked about fields that both sides
+ * changed. Plaintext is never written to disk. Files that cannot be
+ * decrypted or merged fall back to keeping one whole version, except the
+ * team roster, whose local entries are signed again on top of the remote
+ * ones.
  *
  * @module commands/sync
  */
@@ -19,11 +26,36 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import type { Command } from 'commander';
 import { STATE_FILES, VERSION } from '@ctx-sync/shared';
+import type { KeyRotationRecord, Manifest } from '@ctx-sync/shared';
+import type { SimpleGit } from 'simple-git';
 import { commitState, pushState, createGit } from '../core/git-sync.js';
 import { validateRemoteUrl } from '../core/transport.js';
-import { readManifest, writeManifest, listStateFiles } from '../core/state-manager.js';
-import { getSyncDir } from './init.js';
-import { withErrorHandler } from '../utils/errors.js';
+import {
+  readManifest,
+  writeManifest,
+  listStateFiles,
+  stateFileTypeOf,
+  projectOfStateFile,
+  validateState,
+  migrateState,
+  currentSchemaVersion,
+} from '../core/state-manager.js';
+import { decryptState, encryptStateForRecipients } from '../core/encryption.js';
+import type { PrivateKey } from '../core/encryption.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { resolveRecipients } from '../core/recipients.js';
+import { applyRoster, mergeRosters } from '../core/roster.js';
+import type { RosterChanges } from '../core/roster.js';
+import { findKeyRotation, mergeKeyRotations } from '../core/key-rotation.js';
+import { mergeState, mergeManifests } from '../core/state-merge.js';
+import type {
+  ConflictChoice,
+  ConflictResolver,
+  MergeConflict,
+  ResolvedConflict,
+} from '../core/state-merge.js';
+import { getConfigDir, getSyncDir } from './init.js';
+import { withErrorHandler, SecurityError, SyncConflictError } from '../utils/errors.js';
 
 /** Options for the sync command */
 export interface SyncOptions {
@@ -33,6 +65,8 @@ export interface SyncOptions {
   noPush?: boolean;
   /** Non-interactive mode — use local version on conflict */
   noInteractive?: boolean;
+  /** Settles fields changed on both sides (default: keep local) */
+  resolveFn?: ConflictResolver;
 }
 
 /** Result of a sync operation */
@@ -51,8 +85,18 @@ export interface SyncResult {
   hadConflicts: boolean;
   /** Files that had merge conflicts */
   conflictFiles: string[];
+  /** Conflicting files that were merged record by record */
+  mergedFiles: string[];
+  /** Field-level conflicts that had to be settled */
+  resolvedConflicts: ResolvedConflict[];
   /** Whether the repo has a remote configured */
   hasRemote: boolean;
+  /** Membership changes pulled from the team roster */
+  rosterChanges: RosterChanges | null;
+  /** Why the pulled roster was not trusted, if it failed verification */
+  rosterError: string | null;
+  /** Record of this machine's key being rotated on another machine */
+  keyRotation: KeyRotationRecord | null;
 }
 
 /**
@@ -76,12 +120,54 @@ export async function validateSyncRemote(syncDir: string): Promise<string | null
   return url;
 }
 
+/**
+ * Apply the pulled team roster to the local recipients.
+ *
+ * A roster that fails verification leaves the recipients untouched and
+ * is reported instead of thrown, so the rest of the sync still runs.
+ *
+ * @param syncDir - The sync directory path.
+ * @returns The membership changes, and the verification error if any.
+ */
+export async function reconcileRoster(
+  syncDir: string,
+): Promise<{ rosterChanges: RosterChanges | null; rosterError: string | null }> {
+  if (!fs.existsSync(path.join(syncDir, STATE_FILES.ROSTER))) {
+    return { rosterChanges: null, rosterError: null };
+  }
+
+  const configDir = getConfigDir();
+  try {
+    const rosterChanges = await applyRoster(syncDir, configDir, await resolvePrivateKey(configDir));
+    return { rosterChanges, rosterError: null };
+  } catch (err) {
+    if (err instanceof SecurityError) {
+      return { rosterChanges: null, rosterError: err.message };
+    }
+    throw err;
+  }
+}
+
+/**
+ * Check whether this machine's key was rotated on another machine,
+ * from the signed records in `key-rotations.jsonl`.
+ *
+ * @param syncDir - The sync directory path.
+ * @returns The latest rotation of this key, or `null` if it is current.
+ */
+export async function detectKeyRotation(syncDir: string): Promise<KeyRotationRecord | null> {
+  if (!fs.existsSync(path.join(syncDir, STATE_FILES.KEY_ROTATIONS))) {
+    return null;
+  }
+  return findKeyRotation(syncDir, await resolvePrivateKey(getConfigDir()));
+}
+
 /**
  * Pull latest from the remote, detecting merge conflicts.
  *
  * Attempts `git pull`. If a merge conflict is detected on `.age` files,
- * returns the list of conflicting files. Conflicts on .age files are
- * NEVER auto-merged — the user must resolve them.
+ * returns the list of conflicting files. Git cannot merge encrypted
+ * blobs itself — see `mergeConflicts()`.
  *
  * @param syncDir - The sync directory path.
  * @returns List of files with merge conflicts (empty if no conflicts).
@@ -103,7 +189,8 @@ export async function pullWithConflictDetection(
   validateRemoteUrl(url);
 
   try {
-    await git.pull('origin', 'main');
+    // Always merge (never rebase) so diverged .age files surface as conflicts
+    await git.pull('origin', 'main', ['--no-rebase']);
     return { pulled: true, conflictFiles: [] };
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
@@ -123,8 +210,8 @@ export async function pullWithConflictDetection(
 /**
  * Resolve merge conflicts on .age files by choosing local or remote version.
  *
- * Encrypted files cannot be meaningfully merged, so the user must choose
- * one version. In non-interactive mode, local version is kept (safest default).
+ * Keeps one whole version of each file. Used as the fallback for files
+ * that `mergeConflicts()` cannot merge record by record.
  *
  * @param syncDir - The sync directory path.
  * @param conflictFiles - Files with conflicts.
@@ -149,8 +236,272 @@ export async function resolveConflicts(
   }
 }
 
+/** Result of semantically merging conflicted files */
+export interface MergeConflictsResult {
+  /** Files merged record by record */
+  merged: string[];
+  /** Files resolved by keeping one whole version */
+  fallback: string[];
+  /** Field-level conflicts that had to be settled */
+  conflicts: ResolvedConflict[];
+}
+
+/** Resolver that always keeps the local side. */
+export const keepLocal: ConflictResolver = () => Promise.resolve('local');
+
+/**
+ * Read one stage of a conflicted file from the Git index.
+ *
+ * Stage 1 is the common ancestor, 2 is ours (local), 3 is theirs (remote).
+ *
+ * @returns The blob contents, or `null` if that stage does not exist.
+ */
+async function readStage(git: SimpleGit, stage: 1 | 2 | 3, file: string): Promise<string | null> {
+  try {
+    return await git.show([`:${String(stage)}:${file}`]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the manifest as each side of a merge saw it.
+ *
+ * When `manifest.json` is not itself conflicted, the working-tree manifest
+ * applies to every stage. Must be called before the manifest is resolved.
+ */
+async function readManifestStages(
+  git: SimpleGit,
+  syncDir: string,
+): Promise<Record<1 | 2 | 3, Manifest | null>> {
+  const parse = (blob: string | null): Manifest | null => {
+    try {
+      return blob !== null ? (JSON.parse(blob) as Manifest) : readManifest(syncDir);
+    } catch {
+      return null;
+    }
+  };
+  return {
+    1: parse(await readStage(git, 1, STATE_FILES.MANIFEST)),
+    2: parse(await readStage(git, 2, STATE_FILES.MANIFEST)),
+    3: parse(await readStage(git, 3, STATE_FILES.MANIFEST)),
+  };
+}
+
+/**
+ * Merge conflicted files semantically.
+ *
+ * For each conflicted `.age` file, the base, local and remote blobs are
+ * read from the Git index, decrypted in memory, upgraded to the current
+ * schema version, merged record by record (see `core/state-merge`) and
+ * re-encrypted for the file's recipients (a project's own blobs only for
+ * the members with access to it). Only the ciphertext is written to disk.
+ * `manifest.json` is merged by keeping the newest timestamps,
+ * `key-rotations.jsonl` by keeping the records of both sides, and
+ * `roster.jsonl` by signing the local entries again on top of the remote
+ * ones (see `mergeRosters()`).
+ *
+ * Files that cannot be merged (unknown type, missing stage, decryption
+ * failure, or a side written in a newer schema version) fall back to
+ * `resolveConflicts()`, with the resolver choosing which whole version to
+ * keep. The roster never does: it is merged or the sync stops.
+ *
+ * @param syncDir - The sync directory path.
+ * @param conflictFiles - Files with conflicts.
+ * @param resolve - Called for each field that both sides changed; throwing
+ *   `SyncConflictError` aborts the merge instead of falling back.
+ * @throws {SecurityError} If either side of the roster does not verify.
+ * @throws {SyncConflictError} If the roster cannot be merged.
+ * @returns Which files were merged and which conflicts were settled.
+ */
+export async function mergeConflicts(
+  syncDir: string,
+  conflictFiles: string[],
+  resolve: ConflictResolver = keepLocal,
+): Promise<MergeConflictsResult> {
+  const git = createGit(syncDir);
+  const result: MergeConflictsResult = { merged: [], fallback: [], conflicts: [] };
+
+  const configDir = getConfigDir();
+  let privateKey: PrivateKey | null = null;
+  const loadKey = async (): Promise<PrivateKey> => {
+    privateKey ??= await resolvePrivateKey(configDir);
+    return privateKey;
+  };
+  // A project's own blobs are encrypted only for the members with access to it
+  const recipientsByProject = new Map<string | null, string[]>();
+  const recipientsFor = async (file: string): Promise<string[]> => {
+    const project = projectOfStateFile(file);
+    let recipients = recipientsByProject.get(project);
+    if (!recipients) {
+      recipients = await resolveRecipients(configDir, await loadKey(), project ?? undefined);
+      recipientsByProject.set(project, recipients);
+    }
+    return recipients;
+  };
+
+  const manifests = await readManifestStages(git, syncDir);
+  const schemaVersionAt = (stage: 1 | 2 | 3, file: string): number =>
+    manifests[stage]?.files[file]?.schemaVersion ?? 1;
+  const resolvedVersions = new Map<string, number>();
+
+  for (const file of conflictFiles) {
+    const fileType = stateFileTypeOf(file);
+    let mergedContent: string | null = null;
+
+    const base = await readStage(git, 1, file);
+    const local = await readStage(git, 2, file);
+    const remote = await readStage(git, 3, file);
+
+    if (file === STATE_FILES.ROSTER) {
+      // Keeping one whole roster would drop the other side's team changes
+      if (local === null || remote === null) {
+        throw new SyncConflictError(
+          file,
+          '(entire file)',
+          `Restore ${file} on the side that deleted it, then sync again.`,
+        );
+      }
+      mergedContent = await mergeRosters(configDir, local, remote, await loadKey());
+    } else if (file === STATE_FILES.KEY_ROTATIONS && local !== null && remote !== null) {
+      mergedContent = mergeKeyRotations(local, remote);
+    } else if (local !== null && remote !== null) {
+      try {
+        if (file === STATE_FILES.MANIFEST) {
+          const manifest = mergeManifests(
+            JSON.parse(local) as Manifest,
+            JSON.parse(remote) as Manifest,
+          );
+          mergedContent = JSON.stringify(manifest, null, 2);
+        } else if (fileType) {
+          const key = await loadKey();
+          const open = async (blob: string, stage: 1 | 2 | 3): Promise<unknown> =>
+            migrateState(
+              fileType,
+              await decryptState(blob, key),
+              schemaVersionAt(stage, file),
+            );
+          const merge = await mergeState(
+            fileType,
+            base?.trim() ? await open(base, 1) : null,
+            await open(local, 2),
+            await open(remote, 3),
+            resolve,
+          );
+          validateState(fileType, merge.merged);
+          mergedContent = await encryptStateForRecipients(merge.merged, await recipientsFor(file));
+          result.conflicts.push(...merge.conflicts);
+          resolvedVersions.set(file, currentSchemaVersion(fileType));
+        }
+      } catch (err: unknown) {
+        // A resolver that refuses to decide stops the whole merge
+        if (err instanceof SyncConflictError) {
+          throw err;
+        }
+        // Undecryptable, too new, malformed or invalid after merge — keep a whole version
+        mergedContent = null;
+      }
+    }
+
+    if (mergedContent === null) {
+      const choice: ConflictChoice = await resolve({
+        file,
+        field: '(entire file)',
+        local: 'local version',
+        remote: 'remote version',
+      });
+      await resolveConflicts(syncDir, [file], choice === 'local');
+      result.fallback.push(file);
+      if (fileType) {
+        resolvedVersions.set(file, schemaVersionAt(choice === 'local' ? 2 : 3, file));
+      }
+      continue;
+    }
+
+    fs.writeFileSync(path.join(syncDir, file), mergedContent, 'utf-8');
+    await git.add(file);
+    result.merged.push(file);
+  }
+
+  // Record the schema version of each resolved file: merged files were
+  // re-encrypted at the current version, kept files retain their own
+  const manifest = resolvedVersions.size > 0 ? readManifest(syncDir) : null;
+  if (manifest) {
+    for (const [name, schemaVersion] of resolvedVersions) {
+      manifest.files[name] = {
+        lastModified: manifest.files[name]?.lastModified ?? new Date().toISOString(),
+        schemaVersion,
+      };
+    }
+    writeManifest(syncDir, manifest);
+    await git.add(STATE_FILES.MANIFEST);
+  }
+
+  return result;
+}
+
+/**
+ * Ask the user which side of a conflict to keep.
+ *
+ * @param conflict - The field that both sides changed.
+ * @returns The side to keep.
+ */
+export async function promptConflictChoice(conflict: MergeConflict): Promise<ConflictChoice> {
+  const { default: Enquirer } = await import('enquirer');
+  const enquirer = new Enquirer();
+  const response = (await enquirer.prompt({
+    type: 'select',
+    name: 'choice',
+    message: `${conflict.file}: ${conflict.field} changed on both machines`,
+    choices: [
+      { name: 'local', message: `Keep local:  ${conflict.local}` },
+      { name: 'remote', message: `Keep remote: ${conflict.remote}` },
+    ],
+  })) as { choice: string };
+  return response.choice === 'remote' ? 'remote' : 'local';
+}
+
+/**
+ * Print the outcome of applying the pulled team roster.
+ *
+ * @param result - The roster fields of a sync or pull result.
+ */
+export async function printRosterResult(
+  result: Pick<SyncResult, 'rosterChanges' | 'rosterError'>,
+): Promise<void> {
+  const chalk = (await import('chalk')).default;
+  if (result.rosterError) {
+    console.log(chalk.red(`❌ ${result.rosterError}`));
+    console.log(chalk.dim('   Team membership was not updated. Run `ctx-sync audit` for details.'));
+    return;
+  }
+  for (const name of result.rosterChanges?.added ?? []) {
+    console.log(chalk.green(`✅ Team roster: ${name} is now a recipient`));
+  }
+  for (const name of result.rosterChanges?.removed ?? []) {
+    console.log(chalk.yellow(`⚠ Team roster: ${name} is no longer a recipient`));
+  }
+}
+
 /**
- * Collect all syncable files (all .age files + manifest.json) in the sync dir.
+ * Tell the user their key was rotated on another machine.
+ *
+ * @param result - The key rotation field of a sync or pull result.
+ */
+export async function printKeyRotation(result: Pick<SyncResult, 'keyRotation'>): Promise<void> {
+  if (!result.keyRotation) {
+    return;
+  }
+  const chalk = (await import('chalk')).default;
+  const { machine, at } = result.keyRotation;
+  console.log(chalk.yellow(`⚠ Your key was rotated on ${machine} (${at.slice(0, 10)}).`));
+  console.log(chalk.yellow('   This machine cannot decrypt the synced state until you run: ctx-sync key update'));
+  console.log(chalk.dim(`   Then paste the new private key from ${machine}.`));
+}
+
+/**
+ * Collect all syncable files (all .age files, manifest.json, the team
+ * roster and the key rotation records) in the sync dir.
  *
  * @param syncDir - The sync directory path.
  * @returns List of file paths relative to the sync dir.
@@ -162,10 +513,11 @@ export function collectSyncFiles(syncDir: string): string[] {
   const ageFiles = listStateFiles(syncDir);
   files.push(...ageFiles);
 
-  // Add manifest.json if it exists
-  const manifestPath = path.join(syncDir, STATE_FILES.MANIFEST);
-  if (fs.existsSync(manifestPath)) {
-    files.push(STATE_FILES.MANIFEST);
+  // Add manifest.json, the team roster and rotation records if they exist
+  for (const file of [STATE_FILES.MANIFEST, STATE_FILES.ROSTER, STATE_FILES.KEY_ROTATIONS]) {
+    if (fs.existsSync(path.join(syncDir, file))) {
+      files.push(file);
+    }
   }
 
   return files;
@@ -203,7 +555,12 @@ export async function executeSync(options: SyncOptions = {}): Promise<SyncResult
     fileCount: 0,
     hadConflicts: false,
     conflictFiles: [],
+    mergedFiles: [],
+    resolvedConflicts: [],
     hasRemote: false,
+    rosterChanges: null,
+    rosterError: null,
+    keyRotation: null,
   };
 
   // 1. Validate remote (if exists)
@@ -220,14 +577,24 @@ export async function executeSync(options: SyncOptions = {}): Promise<SyncResult
       result.hadConflicts = true;
       result.conflictFiles = pullResult.conflictFiles;
 
-      // In non-interactive mode, keep local version (safest default)
-      // In interactive mode, this would prompt the user
-      const useLocal = options.noInteractive !== false;
-      await resolveConflicts(syncDir, pullResult.conflictFiles, useLocal);
+      // Fields changed on both sides go to the resolver (default: keep local)
+      const merge = await mergeConflicts(
+        syncDir,
+        pullResult.conflictFiles,
+        options.resolveFn ?? keepLocal,
+      );
+      result.mergedFiles = merge.merged;
+      result.resolvedConflicts = merge.conflicts;
     }
+
+    // 4. Trust membership changes only from a verified roster
+    const roster = await reconcileRoster(syncDir);
+    result.rosterChanges = roster.rosterChanges;
+    result.rosterError = roster.rosterError;
+    result.keyRotation = await detectKeyRotation(syncDir);
   }
 
-  // 4. Update manifest timestamp
+  // 5. Update manifest timestamp
   const manifest = readManifest(syncDir) ?? {
     version: VERSION,
     lastSync: new Date().toISOString(),
@@ -236,7 +603,7 @@ export async function executeSync(options: SyncOptions = {}): Promise<SyncResult
   manifest.lastSync = new Date().toISOString();
   writeManifest(syncDir, manifest);
 
-  // 5. Collect and commit all sync files
+  // 6. Collect and commit all sync files
   const files = collectSyncFiles(syncDir);
   result.fileCount = files.length;
 
@@ -246,7 +613,7 @@ export async function executeSync(options: SyncOptions = {}): Promise<SyncResult
     result.commitHash = hash;
   }
 
-  // 6. Push to remote (if exists and not skipped)
+  // 7. Push to remote (if exists and not skipped)
   if (result.hasRemote && !options.noPush) {
     await pushState(syncDir);
     result.pushed = true;
@@ -271,6 +638,9 @@ export function registerSyncCommand(program: Command): void {
         noPush: opts['push'] === false,
         noInteractive: opts['interactive'] === false,
       };
+      if (!options.noInteractive && process.stdin.isTTY) {
+        options.resolveFn = promptConflictChoice;
+      }
 
       const chalk = (await import('chalk')).default;
       const { default: ora } = await import('ora');
@@ -292,15 +662,23 @@ export function registerSyncCommand(program: Command): void {
           chalk.yellow(`⚠ Merge conflicts resolved on ${result.conflictFiles.length} file(s):`),
         );
         for (const file of result.conflictFiles) {
-          console.log(chalk.yellow(`   - ${file}`));
+          const how = result.mergedFiles.includes(file) ? 'merged' : 'whole file kept';
+          console.log(chalk.yellow(`   - ${file} (${how})`));
+        }
+        for (const conflict of result.resolvedConflicts) {
+          console.log(
+            chalk.dim(`   ${conflict.file}: ${conflict.field} — kept ${conflict.choice}`),
+          );
         }
-        console.log(chalk.dim('   Local version kept (encrypted files cannot be merged).'));
       }
 
       if (result.pulled) {
         console.log(chalk.green('✅ Pulled latest from remote'));
       }
 
+      await printRosterResult(result);
+      await printKeyRotation(result);
+
       if (result.committed) {
         console.log(
           chalk.green(`✅ Committed ${result.fileCount} file(s)`),
@@ -3,15 +3,24 @@
  *
  * Manages team members (multi-recipient encryption):
  *   - `team add --name <n> --key <pubkey>` — add a team member with fingerprint verification.
+ *   - `team add ... --project <p>` — share only one project's env vars, Docker
+ *     state and mental context; the project moves into its own blobs.
  *   - `team remove <name>` — remove a team member and re-encrypt all state.
- *   - `team list` — list all team members and their public keys.
+ *   - `team list` — list all team members, their public keys and which
+ *     projects each can decrypt.
  *   - `team revoke <pubkey>` — immediately revoke a key and re-encrypt all state.
  *
+ * Every change is also appended to the signed roster in the sync repo
+ * (see `core/roster`), which `pull` and `sync` apply on the other
+ * members' machines; `team list` shows who approved each change.
+ *
  * **Security:**
  *   - Adding a member prompts for out-of-band fingerprint verification.
  *   - Removing/revoking a member triggers full re-encryption of all state files
  *     so the revoked key can no longer decrypt current or future data.
  *   - Recipients config is stored locally and NEVER synced to Git.
+ *   - Roster entries are signed; only members with full access and a
+ *     registered signing key can add or remove members.
  *
  * @module commands/team
  */
@@ -19,26 +28,42 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import type { Command } from 'commander';
+import type { LegacyStateFile, StateFile } from '@ctx-sync/shared';
 import { withErrorHandler } from '../utils/errors.js';
-import { identityToRecipient } from 'age-encryption';
-import { decryptState, encryptStateForRecipients } from '../core/encryption.js';
+import { decryptState, encryptStateForRecipients, getPublicKey } from '../core/encryption.js';
 import {
-  loadKey,
+  resolvePrivateKey,
 } from '../core/key-store.js';
 import {
   listStateFiles,
+  projectOfStateFile,
   readManifest,
+  readState,
+  scopeProjectState,
   writeManifest,
 } from '../core/state-manager.js';
+import {
+  readMergedProjects,
+  findProject,
+  normalizeStateFile,
+  writeProjectRecord,
+} from '../core/machine-state.js';
 import {
   addRecipient,
   removeRecipientByName,
   removeRecipientByKey,
   getRecipients,
   initRecipients,
-  getAllRecipientKeys,
+  resolveRecipients,
   computeFingerprint,
 } from '../core/recipients.js';
+import {
+  appendRosterEntry,
+  ensureRoster,
+  isValidSigningKey,
+  verifyRoster,
+} from '../core/roster.js';
+import type { RosterHistoryItem } from '../core/roster.js';
 import { getConfigDir, getSyncDir } from './init.js';
 
 // ─── Interfaces ───────────────────────────────────────────────────────────
@@ -47,6 +72,10 @@ import { getConfigDir, getSyncDir } from './init.js';
 export interface TeamAddOptions {
   name: string;
   key: string;
+  /** Only share this project's state with the member */
+  project?: string;
+  /** The member's roster signing key, so they can approve team changes */
+  signingKey?: string;
   /** Skip fingerprint verification prompt (for testing) */
   noVerify?: boolean;
 }
@@ -56,6 +85,10 @@ export interface TeamAddResult {
   name: string;
   publicKey: string;
   fingerprint: string;
+  /** Projects the member can decrypt; unset means every project */
+  projects?: string[];
+  /** Sequence number of the roster entry recording the change */
+  rosterSeq: number;
 }
 
 /** Result of team remove / revoke */
@@ -63,6 +96,8 @@ export interface TeamRemoveResult {
   name: string;
   publicKey: string;
   filesReEncrypted: string[];
+  /** Sequence number of the roster entry recording the change */
+  rosterSeq: number;
 }
 
 /** Result of team list */
@@ -73,7 +108,13 @@ export interface TeamListResult {
     publicKey: string;
     fingerprint: string;
     addedAt: string;
+    /** Projects the member can decrypt; unset means every project */
+    projects?: string[];
   }>;
+  /** Every project shared with a scoped member, sorted */
+  projects: string[];
+  /** Verified roster changes, oldest first (empty without a roster) */
+  history: RosterHistoryItem[];
 }
 
 // ─── Core Logic ───────────────────────────────────────────────────────────
@@ -88,8 +129,8 @@ async function ensureRecipientsInit(): Promise<void> {
   const config = getRecipients(configDir);
 
   if (!config) {
-    const privateKey = loadKey(configDir);
-    const publicKey = await identityToRecipient(privateKey);
+    const privateKey = await resolvePrivateKey(configDir);
+    const publicKey = await getPublicKey(privateKey);
     initRecipients(configDir, publicKey);
   }
 }
@@ -106,9 +147,8 @@ async function reEncryptAllState(): Promise<string[]> {
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
 
-  const privateKey = loadKey(configDir);
-  const ownerPublicKey = await identityToRecipient(privateKey);
-  const allKeys = getAllRecipientKeys(configDir, ownerPublicKey);
+  const privateKey = await resolvePrivateKey(configDir);
+  const sharedKeys = await resolveRecipients(configDir, privateKey);
 
   const ageFiles = listStateFiles(syncDir);
   const filesReEncrypted: string[] = [];
@@ -121,9 +161,14 @@ async function reEncryptAllState(): Promise<string[]> {
       continue;
     }
 
+    // Project blobs go to that project's recipients, everything else to
+    // the repo-wide set
+    const project = projectOfStateFile(filename);
+    const keys = project ? await resolveRecipients(configDir, privateKey, project) : sharedKeys;
+
     // Decrypt with owner's key, re-encrypt for all current recipients
     const plainData = await decryptState<unknown>(ciphertext, privateKey);
-    const newCiphertext = await encryptStateForRecipients(plainData, allKeys);
+    const newCiphertext = await encryptStateForRecipients(plainData, keys);
     fs.writeFileSync(filePath, newCiphertext, 'utf-8');
     filesReEncrypted.push(filename);
   }
@@ -143,6 +188,13 @@ async function reEncryptAllState(): Promise<string[]> {
  *
  * Adds a new team member to the recipients list and re-encrypts
  * all state files so the new member can decrypt them.
+ *
+ * With `project`, the member only receives that project's env vars,
+ * Docker state and mental context: the project is moved into its own
+ * blobs first, so the repo-wide files stay unreadable to them.
+ *
+ * The addition is signed into the roster; if the sync repo has no
+ * roster yet, one is started from the current recipients.
  */
 export async function executeTeamAdd(
   options: TeamAddOptions,
@@ -150,15 +202,56 @@ export async function executeTeamAdd(
   await ensureRecipientsInit();
 
   const configDir = getConfigDir();
-  const member = addRecipient(configDir, options.name, options.key);
+  const syncDir = getSyncDir();
+  const privateKey = await resolvePrivateKey(configDir);
+
+  if (options.signingKey && !isValidSigningKey(options.signingKey)) {
+    throw new Error(
+      'Invalid signing key. Ask the member for the signing key shown by `ctx-sync key show`.',
+    );
+  }
+
+  await ensureRoster(syncDir, configDir, privateKey);
+
+  let project: string | undefined;
+  if (options.project) {
+    const projects = await readMergedProjects(syncDir, privateKey);
+    const found = projects ? findProject(projects, options.project) : null;
+    if (!found) {
+      throw new Error(
+        `Project "${options.project}" not found. Track it first with \`ctx-sync track\`.`,
+      );
+    }
+    project = found.name;
+  }
+
+  const member = addRecipient(configDir, options.name, options.key, project, options.signingKey);
+
+  if (project) {
+    const projectRecipients = await resolveRecipients(configDir, privateKey, project);
+    await scopeProjectState(
+      syncDir,
+      project,
+      privateKey,
+      projectRecipients,
+      await resolveRecipients(configDir, privateKey),
+    );
+    // The member cannot read state.age, so the project carries its own record
+    const state = await readState<StateFile | LegacyStateFile>(syncDir, privateKey, 'state');
+    await writeProjectRecord(syncDir, normalizeStateFile(state), projectRecipients, project);
+  }
 
   // Re-encrypt all state for all recipients (including the new member)
   await reEncryptAllState();
 
+  const entry = await appendRosterEntry(syncDir, privateKey, 'add', member);
+
   return {
     name: member.name,
     publicKey: member.publicKey,
     fingerprint: member.fingerprint,
+    ...(member.projects ? { projects: member.projects } : {}),
+    rosterSeq: entry.seq,
   };
 }
 
@@ -174,15 +267,22 @@ export async function executeTeamRemove(
   await ensureRecipientsInit();
 
   const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+  const privateKey = await resolvePrivateKey(configDir);
+  await ensureRoster(syncDir, configDir, privateKey);
+
   const removed = removeRecipientByName(configDir, name);
 
   // Re-encrypt ALL state without the removed member
   const filesReEncrypted = await reEncryptAllState();
 
+  const entry = await appendRosterEntry(syncDir, privateKey, 'remove', removed);
+
   return {
     name: removed.name,
     publicKey: removed.publicKey,
     filesReEncrypted,
+    rosterSeq: entry.seq,
   };
 }
 
@@ -198,22 +298,32 @@ export async function executeTeamRevoke(
   await ensureRecipientsInit();
 
   const configDir = getConfigDir();
+  const syncDir = getSyncDir();
+  const privateKey = await resolvePrivateKey(configDir);
+  await ensureRoster(syncDir, configDir, privateKey);
+
   const removed = removeRecipientByKey(configDir, publicKey);
 
   // Re-encrypt ALL state without the revoked key
   const filesReEncrypted = await reEncryptAllState();
 
+  const entry = await appendRosterEntry(syncDir, privateKey, 'revoke', removed);
+
   return {
     name: removed.name,
     publicKey: removed.publicKey,
     filesReEncrypted,
+    rosterSeq: entry.seq,
   };
 }
 
 /**
  * Execute `ctx-sync team list`.
  *
- * Returns the owner's public key and all team members.
+ * Returns the owner's public key, all team members and the verified
+ * roster history.
+ *
+ * @throws {SecurityError} If the roster in the sync repo does not verify.
  */
 export async function executeTeamList(): Promise<TeamListResult> {
   await ensureRecipientsInit();
@@ -234,10 +344,63 @@ export async function executeTeamList(): Promise<TeamListResult> {
       publicKey: m.publicKey,
       fingerprint: m.fingerprint,
       addedAt: m.addedAt,
+      ...(m.projects ? { projects: m.projects } : {}),
     })),
+    projects: [...new Set(config.members.flatMap((m) => m.projects ?? []))].sort(),
+    history: verifyRoster(getSyncDir())?.history ?? [],
   };
 }
 
+/**
+ * Format the member × project access matrix for `team list`.
+ *
+ * The `all` column is the repo-wide state; each further column is a
+ * project with its own blobs.
+ *
+ * @param result - The team list result.
+ * @returns The matrix lines (empty if there are no members).
+ */
+export function formatTeamMatrix(result: TeamListResult): string[] {
+  if (result.members.length === 0) {
+    return [];
+  }
+
+  const columns = ['all', ...result.projects];
+  const nameWidth = Math.max('Member'.length, ...result.members.map((m) => m.name.length)) + 2;
+  const row = (name: string, cells: string[]): string =>
+    '  ' + name.padEnd(nameWidth) + cells.map((c, i) => c.padEnd((columns[i] ?? '').length + 2)).join('');
+
+  const lines = [row('Member', columns)];
+  for (const member of result.members) {
+    const marks = columns.map((column) => {
+      const access = !member.projects || (column !== 'all' && member.projects.includes(column));
+      return access ? '✓' : '·';
+    });
+    lines.push(row(member.name, marks));
+  }
+
+  return lines.map((line) => line.trimEnd());
+}
+
+/**
+ * Format the roster history for `team list`: one line per change, with
+ * the member who approved it.
+ *
+ * @param history - Verified roster changes, oldest first.
+ * @returns The history lines.
+ */
+export function formatRosterHistory(history: RosterHistoryItem[]): string[] {
+  return history.map((item) => {
+    const change =
+      item.action === 'genesis'
+        ? `${item.member} started the roster`
+        : item.action === 'rotate'
+          ? `${item.member} rotated their key`
+          : `${item.action} ${item.member} — approved by ${item.approvedBy}`;
+    return `  #${String(item.seq)}  ${item.at.slice(0, 10)}  ${change}`;
+  });
+}
+
 // ─── Commander Registration ───────────────────────────────────────────────
 
 /**
@@ -254,8 +417,16 @@ export function registerTeamCommand(program: Command): void {
     .description('Add a team member as an encryption recipient')
     .requiredOption('--name <name>', 'Human-readable name for the team member')
     .requiredOption('--key <pubkey>', 'Age public key (age1...)')
+    .option('--project <project>', 'Only share this project\'s state with the member')
+    .option('--signing-key <key>', 'The member\'s roster signing key, so they can approve team changes')
     .option('--no-verify', 'Skip fingerprint verification prompt')
-    .action(withErrorHandler(async (opts: { name: string; key: string; verify: boolean }) => {
+    .action(withErrorHandler(async (opts: {
+      name: string;
+      key: string;
+      project?: string;
+      signingKey?: string;
+      verify: boolean;
+    }) => {
       // Show fingerprint for verification
       if (opts.verify) {
         const fingerprint = computeFingerprint(opts.key);
@@ -268,13 +439,19 @@ export function registerTeamCommand(program: Command): void {
       const result = await executeTeamAdd({
         name: opts.name,
         key: opts.key,
+        ...(opts.project ? { project: opts.project } : {}),
+        ...(opts.signingKey ? { signingKey: opts.signingKey } : {}),
         noVerify: !opts.verify,
       });
 
       console.log(`✓ Added team member: ${result.name}`);
       console.log(`  Public key: ${result.publicKey}`);
       console.log(`  Fingerprint: ${result.fingerprint}`);
+      if (result.projects) {
+        console.log(`  Projects: ${result.projects.join(', ')}`);
+      }
       console.log('  All state re-encrypted for new recipient set.');
+      console.log(`  Recorded in the team roster (entry #${String(result.rosterSeq)}).`);
     }));
 
   // ── team remove ───────────────────────────────────────────────────
@@ -292,6 +469,7 @@ export function registerTeamCommand(program: Command): void {
       console.log(
         `  ${result.name} can no longer decrypt any state files.`,
       );
+      console.log(`  Recorded in the team roster (entry #${String(result.rosterSeq)}).`);
     }));
 
   // ── team list ─────────────────────────────────────────────────────
@@ -316,6 +494,22 @@ export function registerTeamCommand(program: Command): void {
           console.log(`    Key: ${member.publicKey}`);
           console.log(`    Fingerprint: ${member.fingerprint}`);
           console.log(`    Added: ${member.addedAt}`);
+          if (member.projects) {
+            console.log(`    Projects: ${member.projects.join(', ')}`);
+          }
+        }
+        console.log('');
+        console.log('Access:');
+        for (const line of formatTeamMatrix(result)) {
+          console.log(line);
+        }
+      }
+
+      if (result.history.length > 0) {
+        console.log('');
+        console.log('Roster (verified):');
+        for (const line of formatRosterHistory(result.history)) {
+          console.log(line);
         }
       }
     }));
@@ -335,5 +529,6 @@ export function registerTeamCommand(program: Command): void {
       console.log(
         `  ${result.name} can no longer decrypt new or existing state.`,
       );
+      console.log(`  Recorded in the team roster (entry #${String(result.rosterSeq)}).`);
     }));
 }
@@ -2,7 +2,8 @@
  * `ctx-sync track` command.
  *
  * Detects the current project's Git state, validates the path,
- * encrypts the project entry, and writes it to `state.age`.
+ * encrypts the project entry, and writes it to this machine's
+ * snapshot in `state.age`.
  *
  * Phase 16 enhancements: Step-by-step wizard with auto-detection,
  * .env import, Docker tracking, mental context, and summary.
@@ -13,16 +14,35 @@
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import * as os from 'node:os';
 import * as crypto from 'node:crypto';
 import type { Command } from 'commander';
-import type { Project, StateFile, MentalContext } from '@ctx-sync/shared';
+import type {
+  Project,
+  StateFile,
+  LegacyStateFile,
+  MentalContext,
+  ProjectIdeState,
+} from '@ctx-sync/shared';
 import { STATE_FILES } from '@ctx-sync/shared';
-import { identityToRecipient } from 'age-encryption';
 import { validateProjectPath } from '../core/path-validator.js';
-import { loadKey } from '../core/key-store.js';
-import { readState, writeState } from '../core/state-manager.js';
+import { resolvePrivateKey } from '../core/key-store.js';
+import { resolveRecipients } from '../core/recipients.js';
+import {
+  readState,
+  readProjectState,
+  writeState,
+  writeProjectState,
+  projectStateFile,
+} from '../core/state-manager.js';
+import {
+  getMachineInfo,
+  getMachineSnapshot,
+  normalizeStateFile,
+  writeProjectRecord,
+} from '../core/machine-state.js';
 import { commitState } from '../core/git-sync.js';
+import { detectWorktrees } from '../core/git-worktrees.js';
+import { detectToolVersions } from '../core/tool-versions.js';
 import { getConfigDir, getSyncDir } from './init.js';
 import { withErrorHandler } from '../utils/errors.js';
 
@@ -82,13 +102,16 @@ export interface TrackResult {
   dockerServicesTracked: number;
   /** Whether mental context was set */
   mentalContextSet: boolean;
+  /** VS Code state captured for the project (`null` if none was found) */
+  ideState: ProjectIdeState | null;
 }
 
 /**
  * Detect Git information for a project directory.
  *
  * @param projectPath - Absolute path to the project directory.
- * @returns Git metadata (branch, remote, uncommitted, stash count).
+ * @returns Git metadata (branch, remote, uncommitted, stash count,
+ *          linked worktrees).
  */
 export async function detectGitInfo(
   projectPath: string,
@@ -131,7 +154,10 @@ export async function detectGitInfo(
       // stash list can fail on repos with no stashes — that's fine
     }
 
-    return { branch, remote, hasUncommitted, stashCount };
+    // Linked worktrees
+    const worktrees = await detectWorktrees(projectPath);
+
+    return { branch, remote, hasUncommitted, stashCount, worktrees };
   } catch {
     return defaultGit;
   }
@@ -169,20 +195,6 @@ export function detectProjectName(projectPath: string, gitRemote: string): strin
   return path.basename(projectPath);
 }
 
-/**
- * Derive the machine ID for the current host.
- *
- * Uses hostname as a simple machine identifier.
- * A more robust approach (hardware ID) can be added later.
- */
-function getMachineInfo(): { id: string; hostname: string } {
-  const hostname = os.hostname();
-  return {
-    id: crypto.createHash('sha256').update(hostname).digest('hex').slice(0, 16),
-    hostname,
-  };
-}
-
 /**
  * Run the interactive wizard to collect user choices.
  *
@@ -264,10 +276,11 @@ async function runWizard(context: WizardContext): Promise<WizardAnswers> {
  *
  * 1. Resolve and validate the project path.
  * 2. Auto-detect project name from Git remote / directory.
- * 3. Detect Git info, .env, docker-compose.
+ * 3. Detect Git info, pinned runtime versions, .env, docker-compose.
  * 4. Run interactive wizard (if not --yes or --no-interactive).
  * 5. Build or update the Project entry.
- * 6. Optionally import .env, track Docker, set mental context.
+ * 6. Optionally import .env, track Docker, set mental context; capture
+ *    VS Code state.
  * 7. Encrypt and write state.age.
  * 8. Optionally commit to the sync repo.
  *
@@ -282,14 +295,16 @@ export async function executeTrack(options: TrackOptions): Promise<TrackResult>
   // 2. Load key and derive public key
   const configDir = getConfigDir();
   const syncDir = getSyncDir();
-  const privateKey = loadKey(configDir);
-  const publicKey = await identityToRecipient(privateKey);
+  const privateKey = await resolvePrivateKey(configDir);
+  const recipients = await resolveRecipients(configDir, privateKey);
 
-  // 3. Detect Git info
+  // 3. Detect Git info and pinned runtime versions
   const gitInfo = await detectGitInfo(projectPath);
+  const tools = detectToolVersions(projectPath);
 
   // 4. Auto-detect project name
   const projectName = options.name ?? detectProjectName(projectPath, gitInfo.remote);
+  const projectRecipients = await resolveRecipients(configDir, privateKey, projectName);
 
   // 5. Check for .env and docker-compose
   const envFileFound = fs.existsSync(path.join(projectPath, '.env'));
@@ -299,39 +314,43 @@ export async function executeTrack(options: TrackOptions): Promise<TrackResult>
     fs.existsSync(path.join(projectPath, 'compose.yml')) ||
     fs.existsSync(path.join(projectPath, 'compose.yaml'));
 
-  // 6. Read existing state (or create new)
-  const existingState = await readState<StateFile>(syncDir, privateKey, 'state');
-  const machine = getMachineInfo();
-
-  const state: StateFile = existingState ?? {
-    machine,
-    projects: [],
-  };
-
-  // Ensure machine info is current
-  state.machine = machine;
+  // 6. Read existing state (or create new) and select this machine's snapshot
+  const existingState = await readState<StateFile | LegacyStateFile>(
+    syncDir,
+    privateKey,
+    'state',
+  );
+  const state = normalizeStateFile(existingState);
+  const snapshot = getMachineSnapshot(state, getMachineInfo());
 
-  // 7. Find or create project entry
-  const existingIndex = state.projects.findIndex(
+  // 7. Find or create project entry (only this machine's snapshot is modified)
+  const existingIndex = snapshot.projects.findIndex(
     (p) => p.path === projectPath,
   );
   const isNew = existingIndex === -1;
 
-  const existingProject = isNew ? undefined : state.projects[existingIndex];
+  const existingProject = isNew ? undefined : snapshot.projects[existingIndex];
+
+  // Reuse the ID another machine assigned to the same project, if any
+  const knownId = Object.values(state.machines)
+    .flatMap((s) => s.projects)
+    .find((p) => p.name === projectName)?.id;
 
   const project: Project = {
-    id: existingProject?.id ?? crypto.randomUUID(),
+    id: existingProject?.id ?? knownId ?? crypto.randomUUID(),
     name: projectName,
     path: projectPath,
     git: gitInfo,
+    ...(tools ? { tools } : {}),
     lastAccessed: new Date().toISOString(),
   };
 
   if (isNew) {
-    state.projects.push(project);
+    snapshot.projects.push(project);
   } else {
-    state.projects[existingIndex] = project;
+    snapshot.projects[existingIndex] = project;
   }
+  snapshot.updatedAt = project.lastAccessed;
 
   // 8. Run wizard (unless --yes or --no-interactive)
   let wizardAnswers: WizardAnswers | null = null;
@@ -384,7 +403,7 @@ export async function executeTrack(options: TrackOptions): Promise<TrackResult>
         projectName,
         vars,
         syncDir,
-        publicKey,
+        projectRecipients,
         privateKey,
       );
     } catch {
@@ -399,7 +418,7 @@ export async function executeTrack(options: TrackOptions): Promise<TrackResult>
         await import('../core/docker-handler.js');
       const entry = buildDockerStateEntry(projectName, projectPath);
       if (entry) {
-        await saveDockerState(syncDir, projectName, entry, publicKey, privateKey);
+        await saveDockerState(syncDir, projectName, entry, projectRecipients, privateKey);
         dockerServicesTracked = entry.services.length;
       }
     } catch {
@@ -411,10 +430,11 @@ export async function executeTrack(options: TrackOptions): Promise<TrackResult>
   if (wizardAnswers?.currentTask) {
     try {
       const { mergeContext } = await import('./note.js');
-      const existingMentalContext = await readState<MentalContext>(
+      const existingMentalContext = await readProjectState<MentalContext>(
         syncDir,
         privateKey,
         'mental-context',
+        projectName,
       );
       const mcData: MentalContext = existingMentalContext ?? {};
       const existing = mcData[projectName] ?? null;
@@ -423,29 +443,49 @@ export async function executeTrack(options: TrackOptions): Promise<TrackResult>
         nextSteps: wizardAnswers.nextSteps,
       });
       mcData[projectName] = merged;
-      await writeState(syncDir, mcData, publicKey, 'mental-context');
+      await writeProjectState(syncDir, mcData, projectRecipients, 'mental-context', projectName);
       mentalContextSet = true;
     } catch {
       // Mental context failure is non-fatal
     }
   }
 
-  // 12. Write encrypted state
-  await writeState(syncDir, state, publicKey, 'state');
+  // 12. Capture VS Code state (extensions, settings changes, open editors)
+  let ideState: ProjectIdeState | null = null;
+  try {
+    const { captureIdeState, saveIdeState } = await import('../core/ide-state.js');
+    ideState = await captureIdeState(projectPath);
+    if (ideState) {
+      await saveIdeState(syncDir, projectName, ideState, recipients, privateKey);
+    }
+  } catch {
+    // IDE capture failure is non-fatal
+    ideState = null;
+  }
 
-  // 13. Collect all files that need committing
+  // 13. Write encrypted state (and a scoped project's own copy of its record)
+  await writeState(syncDir, state, recipients, 'state');
+  const recordFile = await writeProjectRecord(syncDir, state, projectRecipients, projectName);
+
+  // 14. Collect all files that need committing
   const filesToCommit: string[] = [STATE_FILES.STATE, STATE_FILES.MANIFEST];
+  if (recordFile) {
+    filesToCommit.push(recordFile);
+  }
   if (envVarsImported > 0) {
-    filesToCommit.push(STATE_FILES.ENV_VARS);
+    filesToCommit.push(projectStateFile(syncDir, 'env-vars', projectName));
   }
   if (dockerServicesTracked > 0) {
-    filesToCommit.push(STATE_FILES.DOCKER_STATE);
+    filesToCommit.push(projectStateFile(syncDir, 'docker-state', projectName));
   }
   if (mentalContextSet) {
-    filesToCommit.push(STATE_FILES.MENTAL_CONTEXT);
+    filesToCommit.push(projectStateFile(syncDir, 'mental-context', projectName));
+  }
+  if (ideState) {
+    filesToCommit.push(STATE_FILES.IDE_STATE);
   }
 
-  // 14. Optionally commit
+  // 15. Optionally commit
   if (!options.noSync && (wizardAnswers?.confirmCommit !== false)) {
     await commitState(
       syncDir,
@@ -462,6 +502,7 @@ export async function executeTrack(options: TrackOptions): Promise<TrackResult>
     envVarsImported,
     dockerServicesTracked,
     mentalContextSet,
+    ideState,
   };
 }
 
@@ -512,6 +553,11 @@ export function registerTrackCommand(program: Command): void {
         );
       }
 
+      if (result.project.tools) {
+        const pinned = result.project.tools.required.map((r) => `${r.tool} ${r.version}`);
+        console.log(`   Tools: ${[...new Set(pinned)].join(', ')}`);
+      }
+
       // Wizard results
       if (result.envVarsImported > 0) {
         console.log(
@@ -541,6 +587,15 @@ export function registerTrackCommand(program: Command): void {
         console.log(chalk.green('   ✅ Mental context saved'));
       }
 
+      if (result.ideState) {
+        const { extensions, editors } = result.ideState.vscode;
+        console.log(
+          chalk.green(
+            `   ✅ VS Code state saved (${String(extensions.length)} extensions, ${String(editors.length)} open editors)`,
+          ),
+        );
+      }
+
       console.log(
         chalk.dim('\n   State encrypted and saved to state.age'),
       );
@@ -33,6 +33,10 @@ export interface PendingCommand {
   port?: number;
   /** Optional Docker image name */
   image?: string;
+  /** tmux pane (0-based window/pane positions) to type the command into instead of running it */
+  tmuxPane?: { session: string; window: number; pane: number };
+  /** Settings to merge into this JSON file instead of running the command */
+  settingsFile?: { path: string; settings: Record<string, unknown> };
 }
 
 /** Result of presenting commands for approval */
@@ -215,11 +219,68 @@ export function validateDockerImage(image: string): ValidationResult {
   return { suspicious: false, reason: '' };
 }
 
+/**
+ * Workspace settings whose values name a program, a path or a command
+ * that VS Code (or one of its extensions) runs.
+ */
+const SUSPICIOUS_SETTING_KEYS: readonly RegExp[] = [
+  // Shells and profiles for the integrated terminal
+  /^terminal\.integrated\.(profiles|defaultProfile|shell|shellArgs|automationProfile|automationShell|env)\b/,
+  // e.g. python.defaultInterpreterPath, git.path, php.validate.executablePath
+  /(^|\.)[A-Za-z]*([Pp]ath|[Ee]xecutable|[Cc]ommand|[Ss]hell)$/,
+  // Tasks and extensions that run commands
+  /^tasks?\.|runonsave|^code-runner\./i,
+];
+
+/** A string that is a file path (absolute, home-relative or relative) */
+const PATH_LIKE = /^(~|\.{1,2})?[\\/]|^[A-Za-z]:[\\/]/;
+
+/** Every string inside a setting value */
+function settingStrings(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(settingStrings);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(settingStrings);
+  return [];
+}
+
+/**
+ * Validate a VS Code workspace setting before it is written.
+ *
+ * Flags settings that name a program, a path or a command (e.g.
+ * `terminal.integrated.profiles.*`, `python.defaultInterpreterPath`,
+ * `git.path`), and values that are paths or look like suspicious
+ * commands — a synced setting like this makes VS Code run something.
+ *
+ * @param key - The setting name.
+ * @param value - The setting value.
+ * @returns Validation result with suspicious flag and reason.
+ */
+export function validateWorkspaceSetting(key: string, value: unknown): ValidationResult {
+  if (SUSPICIOUS_SETTING_KEYS.some((pattern) => pattern.test(key))) {
+    return {
+      suspicious: true,
+      reason: `${key} sets a program, path or command that VS Code may run.`,
+    };
+  }
+
+  for (const text of settingStrings(value)) {
+    if (PATH_LIKE.test(text.trim())) {
+      return { suspicious: true, reason: `${key} points to a path: ${text}` };
+    }
+    const command = validateCommand(text);
+    if (command.suspicious) {
+      return { suspicious: true, reason: `${key}: ${command.reason}` };
+    }
+  }
+
+  return { suspicious: false, reason: '' };
+}
+
 /**
  * Format commands for display to the user before execution.
  *
- * Groups commands by category (Docker services, auto-start services)
- * and adds warning indicators for suspicious commands.
+ * Groups commands by category (Docker services, auto-start services,
+ * tmux sessions, VS Code) and adds warning indicators for suspicious commands.
  *
  * @param commands - The list of commands pending approval.
  * @returns Formatted string for terminal display.
@@ -261,6 +322,22 @@ export function formatCommandsForDisplay(commands: PendingCommand[]): string {
       if (cmd.cwd) {
         lines.push(`│      Working dir: ${cmd.cwd}`);
       }
+      if (cmd.tmuxPane) {
+        lines.push(
+          `│      Pane: ${cmd.tmuxPane.session}, window ${String(cmd.tmuxPane.window + 1)}, pane ${String(cmd.tmuxPane.pane + 1)}`,
+        );
+      }
+
+      if (cmd.settingsFile) {
+        lines.push('│      Settings:');
+        for (const [key, value] of Object.entries(cmd.settingsFile.settings)) {
+          lines.push(`│        ${key} = ${JSON.stringify(value)}`);
+          const setting = validateWorkspaceSetting(key, value);
+          if (setting.suspicious) {
+            lines.push(`│        ⚠️  WARNING: ${setting.reason}`);
+          }
+        }
+      }
 
       if (validation.suspicious) {
         lines.push(`│      ⚠️  WARNING: ${validation.reason}`);
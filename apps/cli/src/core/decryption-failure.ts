@@ -0,0 +1,148 @@
+/**
+ * Decryption failure diagnosis.
+ *
+ * Age reports most failures to decrypt a state file as the same bare
+ * error. This module works out the likely cause, so the user is told
+ * what to do about it:
+ *
+ *   - `wrong-identity` — this machine holds a different key than the
+ *     one the file was written for (the key was rotated elsewhere, or
+ *     another key was set up here).
+ *   - `not-a-recipient` — the file is shared, but not with this key
+ *     (removed from the team, or added after the file was written).
+ *   - `truncated` — the armor or the payload is cut off or damaged.
+ *   - `schema-mismatch` — the file decrypted, but is not state JSON.
+ *
+ * Age headers do not name their recipients, so a not-a-recipient error
+ * lists the recipient stanza types next to this machine's public key.
+ * `findLastDecryptableCommit()` in `core/git-sync` finds a version of
+ * the file to roll back to.
+ *
+ * @module core/decryption-failure
+ */
+
+import { DecryptionError } from '../utils/errors.js';
+import { getPublicKey, readRecipientStanzas } from './encryption.js';
+import type { PrivateKey } from './encryption.js';
+import { findKeyRotation } from './key-rotation.js';
+import { verifyRoster } from './roster.js';
+import { projectOfStateFile } from './state-manager.js';
+
+/**
+ * List the recipient stanzas of a file, or none if its header cannot
+ * be read.
+ */
+function safeStanzas(ciphertext: string): string[] {
+  try {
+    return readRecipientStanzas(ciphertext);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * How a verified team roster leaves this key out of a file — the key is
+ * not listed, or is scoped to projects the file does not belong to — or
+ * `null` if it does not. A roster that does not verify tells us nothing
+ * here; pull reports it separately.
+ */
+function rosterExclusion(syncDir: string, publicKey: string, relPath: string): string | null {
+  let roster: ReturnType<typeof verifyRoster>;
+  try {
+    roster = verifyRoster(syncDir);
+  } catch {
+    return null;
+  }
+  if (!roster) return null;
+
+  const member = roster.members.find((m) => m.publicKey === publicKey);
+  if (!member) return 'The team roster does not list your key.';
+  const project = projectOfStateFile(relPath);
+  if (member.projects && (!project || !member.projects.includes(project))) {
+    return `The team roster only shares ${member.projects.join(', ')} with your key.`;
+  }
+  return null;
+}
+
+/**
+ * Work out why a state file could not be decrypted.
+ *
+ * @param syncDir - The sync directory path.
+ * @param relPath - The state file, relative to `syncDir`.
+ * @param ciphertext - The file's contents.
+ * @param privateKey - The key that failed to decrypt it.
+ * @param err - The error decryption (or JSON parsing) threw.
+ * @returns The classified error.
+ */
+export async function diagnoseDecryptionFailure(
+  syncDir: string,
+  relPath: string,
+  ciphertext: string,
+  privateKey: PrivateKey,
+  err: unknown,
+): Promise<DecryptionError> {
+  const detail = err instanceof Error ? err.message : String(err);
+
+  if (err instanceof SyntaxError) {
+    return new DecryptionError(
+      relPath,
+      'schema-mismatch',
+      `${relPath} decrypted, but does not contain ctx-sync state (${detail}).`,
+      'It may have been written by an incompatible client.\n' +
+        '  Upgrade ctx-sync on this machine: npm install -g ctx-sync@latest',
+    );
+  }
+
+  const stanzas = safeStanzas(ciphertext);
+
+  if (!detail.toLowerCase().includes('no identity matched')) {
+    return new DecryptionError(
+      relPath,
+      'truncated',
+      `${relPath} is truncated or damaged (${detail}).`,
+      'The file may have been cut off by an interrupted write or a bad merge.\n' +
+        `  Check its history with: ctx-sync history ${relPath}`,
+      stanzas,
+    );
+  }
+
+  const rotation = await findKeyRotation(syncDir, privateKey);
+  if (rotation) {
+    return new DecryptionError(
+      relPath,
+      'wrong-identity',
+      `${relPath} is encrypted for a newer key: yours was rotated on ${rotation.machine} (${rotation.at}).`,
+      'Run: ctx-sync key update\n' + `  Then paste the new private key from ${rotation.machine}.`,
+      stanzas,
+    );
+  }
+
+  const publicKey = await getPublicKey(privateKey);
+  const comparison =
+    `  Recipient stanzas: ${stanzas.join(', ') || 'none'} (${String(stanzas.length)})\n` +
+    `  Your public key:   ${publicKey} — matches none of them`;
+  const leftOut = rosterExclusion(syncDir, publicKey, relPath);
+
+  if (leftOut || stanzas.length > 1) {
+    return new DecryptionError(
+      relPath,
+      'not-a-recipient',
+      `You are not a recipient of ${relPath}.\n${comparison}` +
+        (leftOut ? `\n  ${leftOut}` : ''),
+      'You may have been removed from the team, or added after this file was last written.\n' +
+        '  Ask a team member to add your key: ctx-sync team add\n' +
+        '  Or roll back to the last version you can decrypt: ctx-sync pull\n' +
+        `  Earlier versions: ctx-sync history ${relPath}`,
+      stanzas,
+    );
+  }
+
+  return new DecryptionError(
+    relPath,
+    'wrong-identity',
+    `${relPath} is encrypted for a different key than the one on this machine.\n${comparison}`,
+    'All your machines must share the same private key.\n' +
+      '  Fix: ctx-sync init --restore  (paste the key from your other machine)',
+    stanzas,
+  );
+}
@@ -14,6 +14,7 @@
 import type { RecentDirectory, DirectoryState } from '@ctx-sync/shared';
 import { readState, writeState } from './state-manager.js';
 import { validateProjectPath } from './path-validator.js';
+import type { PrivateKey } from './encryption.js';
 
 // ─── Constants ────────────────────────────────────────────────────────────
 
@@ -32,17 +33,88 @@ function emptyState(): DirectoryState {
   return { recentDirs: [], pinnedDirs: [] };
 }
 
+/**
+ * Record one visit in `recentDirs` (mutates the state).
+ */
+function applyVisit(state: DirectoryState, validatedPath: string, now: string): void {
+  const existing = state.recentDirs.find((d) => d.path === validatedPath);
+  if (existing) {
+    existing.frequency += 1;
+    existing.lastVisit = now;
+  } else {
+    state.recentDirs.push({
+      path: validatedPath,
+      frequency: 1,
+      lastVisit: now,
+    });
+  }
+}
+
 /**
  * Sort recent directories by frequency (descending), then by lastVisit
  * (most recent first).
  */
-function sortRecent(dirs: RecentDirectory[]): RecentDirectory[] {
+export function sortRecent(dirs: RecentDirectory[]): RecentDirectory[] {
   return [...dirs].sort((a, b) => {
     if (b.frequency !== a.frequency) return b.frequency - a.frequency;
     return b.lastVisit.localeCompare(a.lastVisit);
   });
 }
 
+/**
+ * Score a directory by frequency weighted by how recently it was
+ * visited (the same buckets zoxide uses).
+ *
+ * @param dir - The recent directory entry.
+ * @param now - Current time in ms (default: `Date.now()`).
+ */
+export function frecencyScore(dir: RecentDirectory, now = Date.now()): number {
+  const age = now - Date.parse(dir.lastVisit);
+  const hour = 60 * 60 * 1000;
+
+  if (age < hour) return dir.frequency * 4;
+  if (age < 24 * hour) return dir.frequency * 2;
+  if (age < 7 * 24 * hour) return dir.frequency / 2;
+  return dir.frequency / 4;
+}
+
+/**
+ * Rank recent directories matching the given keywords by frecency.
+ *
+ * Matching is case-insensitive: every keyword must appear in the path,
+ * in order, and the last keyword must appear in the final path
+ * component (so `ctx cli` matches `~/code/ctx-sync/apps/cli` but not
+ * `~/code/cli-tools/ctx`).
+ *
+ * @param dirs     - Recent directories to rank.
+ * @param keywords - Path fragments to match (no keywords matches all).
+ * @param now      - Current time in ms (default: `Date.now()`).
+ * @returns Matching directories, best match first.
+ */
+export function rankDirectories(
+  dirs: RecentDirectory[],
+  keywords: string[],
+  now = Date.now(),
+): RecentDirectory[] {
+  const needles = keywords.map((k) => k.toLowerCase()).filter((k) => k.length > 0);
+
+  const matches = dirs.filter((dir) => {
+    const haystack = dir.path.toLowerCase();
+    let from = 0;
+    for (const needle of needles) {
+      const at = haystack.indexOf(needle, from);
+      if (at === -1) return false;
+      from = at + needle.length;
+    }
+    const last = needles[needles.length - 1];
+    if (last === undefined) return true;
+    const basename = haystack.slice(haystack.lastIndexOf('/') + 1);
+    return basename.includes(last);
+  });
+
+  return matches.sort((a, b) => frecencyScore(b, now) - frecencyScore(a, now));
+}
+
 // ─── Public API ───────────────────────────────────────────────────────────
 
 /**
@@ -55,7 +127,7 @@ function sortRecent(dirs: RecentDirectory[]): RecentDirectory[] {
  */
 export async function loadDirectories(
   syncDir: string,
-  privateKey: string,
+  privateKey: PrivateKey,
 ): Promise<DirectoryState> {
   const state = await readState<DirectoryState>(
     syncDir,
@@ -68,16 +140,16 @@ export async function loadDirectories(
 /**
  * Save (overwrite) the entire directory state.
  *
- * @param syncDir   - The sync directory.
- * @param state     - The complete `DirectoryState` to persist.
- * @param publicKey - Age public key for encryption.
+ * @param syncDir    - The sync directory.
+ * @param state      - The complete `DirectoryState` to persist.
+ * @param recipients - Age public key(s) to encrypt for.
  */
 export async function saveDirectories(
   syncDir: string,
   state: DirectoryState,
-  publicKey: string,
+  recipients: string | string[],
 ): Promise<void> {
-  await writeState(syncDir, state, publicKey, 'directories');
+  await writeState(syncDir, state, recipients, 'directories');
 }
 
 /**
@@ -92,38 +164,82 @@ export async function saveDirectories(
  *
  * @param syncDir    - The sync directory.
  * @param dirPath    - The directory path to record (will be validated).
- * @param publicKey  - Age public key for encryption.
+ * @param recipients - Age public key(s) to encrypt for.
  * @param privateKey - Age private key for decryption.
  * @throws If the path fails validation.
  */
 export async function visitDirectory(
   syncDir: string,
   dirPath: string,
-  publicKey: string,
-  privateKey: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
 ): Promise<void> {
   // Validate the path — throws on traversal / blocked paths
   const validatedPath = validateProjectPath(dirPath);
 
   const state = await loadDirectories(syncDir, privateKey);
-  const now = new Date().toISOString();
+  applyVisit(state, validatedPath, new Date().toISOString());
 
-  const existing = state.recentDirs.find((d) => d.path === validatedPath);
-  if (existing) {
-    existing.frequency += 1;
-    existing.lastVisit = now;
-  } else {
-    state.recentDirs.push({
-      path: validatedPath,
-      frequency: 1,
-      lastVisit: now,
-    });
+  // Sort and prune
+  state.recentDirs = sortRecent(state.recentDirs).slice(0, MAX_RECENT_DIRS);
+
+  await saveDirectories(syncDir, state, recipients);
+}
+
+/**
+ * Apply a batch of visits to an in-memory directory state.
+ *
+ * Paths that fail validation (e.g. a `cd` outside the home directory)
+ * are skipped instead of aborting the batch. The list is re-sorted and
+ * pruned to `MAX_RECENT_DIRS`.
+ *
+ * @param state    - The state to update (mutated).
+ * @param dirPaths - The visited paths, oldest first.
+ * @param now      - ISO timestamp to record as the last visit.
+ * @returns The validated paths that were applied.
+ */
+export function addVisits(state: DirectoryState, dirPaths: string[], now: string): string[] {
+  const applied: string[] = [];
+  for (const dirPath of dirPaths) {
+    let validatedPath: string;
+    try {
+      validatedPath = validateProjectPath(dirPath);
+    } catch {
+      continue;
+    }
+    applyVisit(state, validatedPath, now);
+    applied.push(validatedPath);
   }
 
-  // Sort and prune
   state.recentDirs = sortRecent(state.recentDirs).slice(0, MAX_RECENT_DIRS);
+  return applied;
+}
 
-  await saveDirectories(syncDir, state, publicKey);
+/**
+ * Record a batch of directory visits with a single read and write.
+ *
+ * Used to flush the visits queued by the shell hook (see `addVisits()`
+ * for how invalid paths are handled).
+ *
+ * @param syncDir    - The sync directory.
+ * @param dirPaths   - The visited paths, oldest first.
+ * @param recipients - Age public key(s) to encrypt for.
+ * @param privateKey - Age private key for decryption.
+ * @returns The validated paths that were recorded.
+ */
+export async function visitDirectories(
+  syncDir: string,
+  dirPaths: string[],
+  recipients: string | string[],
+  privateKey: PrivateKey,
+): Promise<string[]> {
+  const state = await loadDirectories(syncDir, privateKey);
+  const recorded = addVisits(state, dirPaths, new Date().toISOString());
+
+  if (recorded.length > 0) {
+    await saveDirectories(syncDir, state, recipients);
+  }
+  return recorded;
 }
 
 /**
@@ -134,7 +250,7 @@ export async function visitDirectory(
  *
  * @param syncDir    - The sync directory.
  * @param dirPath    - The directory path to pin (will be validated).
- * @param publicKey  - Age public key for encryption.
+ * @param recipients - Age public key(s) to encrypt for.
  * @param privateKey - Age private key for decryption.
  * @returns `true` if the directory was newly pinned, `false` if already pinned.
  * @throws If the path fails validation.
@@ -142,8 +258,8 @@ export async function visitDirectory(
 export async function pinDirectory(
   syncDir: string,
   dirPath: string,
-  publicKey: string,
-  privateKey: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
 ): Promise<boolean> {
   const validatedPath = validateProjectPath(dirPath);
 
@@ -154,7 +270,7 @@ export async function pinDirectory(
   }
 
   state.pinnedDirs.push(validatedPath);
-  await saveDirectories(syncDir, state, publicKey);
+  await saveDirectories(syncDir, state, recipients);
   return true;
 }
 
@@ -163,7 +279,7 @@ export async function pinDirectory(
  *
  * @param syncDir    - The sync directory.
  * @param dirPath    - The directory path to unpin (will be validated).
- * @param publicKey  - Age public key for encryption.
+ * @param recipients - Age public key(s) to encrypt for.
  * @param privateKey - Age private key for decryption.
  * @returns `true` if the directory was unpinned, `false` if it was not pinned.
  * @throws If the path fails validation.
@@ -171,8 +287,8 @@ export async function pinDirectory(
 export async function unpinDirectory(
   syncDir: string,
   dirPath: string,
-  publicKey: string,
-  privateKey: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
 ): Promise<boolean> {
   const validatedPath = validateProjectPath(dirPath);
 
@@ -184,7 +300,7 @@ export async function unpinDirectory(
     return false;
   }
 
-  await saveDirectories(syncDir, state, publicKey);
+  await saveDirectories(syncDir, state, recipients);
   return true;
 }
 
@@ -193,15 +309,15 @@ export async function unpinDirectory(
  *
  * @param syncDir    - The sync directory.
  * @param dirPath    - The directory path to remove.
- * @param publicKey  - Age public key for encryption.
+ * @param recipients - Age public key(s) to encrypt for.
  * @param privateKey - Age private key for decryption.
  * @returns `true` if the directory was removed, `false` if not found.
  */
 export async function removeRecentDirectory(
   syncDir: string,
   dirPath: string,
-  publicKey: string,
-  privateKey: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
 ): Promise<boolean> {
   const validatedPath = validateProjectPath(dirPath);
 
@@ -213,7 +329,7 @@ export async function removeRecentDirectory(
     return false;
   }
 
-  await saveDirectories(syncDir, state, publicKey);
+  await saveDirectories(syncDir, state, recipients);
   return true;
 }
 
@@ -227,7 +343,7 @@ export async function removeRecentDirectory(
  */
 export async function getTopDirectories(
   syncDir: string,
-  privateKey: string,
+  privateKey: PrivateKey,
   limit = 10,
 ): Promise<RecentDirectory[]> {
   const state = await loadDirectories(syncDir, privateKey);
@@ -243,7 +359,7 @@ export async function getTopDirectories(
  */
 export async function getPinnedDirectories(
   syncDir: string,
-  privateKey: string,
+  privateKey: PrivateKey,
 ): Promise<string[]> {
   const state = await loadDirectories(syncDir, privateKey);
   return [...state.pinnedDirs];
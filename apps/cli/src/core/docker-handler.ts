@@ -15,7 +15,13 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { execSync } from 'node:child_process';
 import type { DockerService, DockerState } from '@ctx-sync/shared';
-import { readState, writeState } from './state-manager.js';
+import {
+  readState,
+  readProjectState,
+  writeProjectState,
+  listScopedProjects,
+} from './state-manager.js';
+import type { PrivateKey } from './encryption.js';
 
 /**
  * Known Docker Compose file names (in priority order).
@@ -558,25 +564,30 @@ export function buildDockerStateEntry(
  * @param syncDir - The sync directory path.
  * @param projectName - The project name (key in DockerState).
  * @param entry - The Docker state entry for the project.
- * @param publicKey - The Age public key for encryption.
+ * @param recipients - Age public key(s) to encrypt for.
  * @param privateKey - The Age private key for reading existing state.
  */
 export async function saveDockerState(
   syncDir: string,
   projectName: string,
   entry: DockerState[string],
-  publicKey: string,
-  privateKey: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
 ): Promise<void> {
   // Read existing state
-  const existing = await readState<DockerState>(syncDir, privateKey, 'docker-state');
+  const existing = await readProjectState<DockerState>(
+    syncDir,
+    privateKey,
+    'docker-state',
+    projectName,
+  );
   const dockerState: DockerState = existing ?? {};
 
   // Merge the new entry
   dockerState[projectName] = entry;
 
   // Write encrypted state
-  await writeState(syncDir, dockerState, publicKey, 'docker-state');
+  await writeProjectState(syncDir, dockerState, recipients, 'docker-state', projectName);
 }
 
 /**
@@ -590,9 +601,14 @@ export async function saveDockerState(
 export async function loadDockerState(
   syncDir: string,
   projectName: string,
-  privateKey: string,
+  privateKey: PrivateKey,
 ): Promise<DockerState[string] | null> {
-  const dockerState = await readState<DockerState>(syncDir, privateKey, 'docker-state');
+  const dockerState = await readProjectState<DockerState>(
+    syncDir,
+    privateKey,
+    'docker-state',
+    projectName,
+  );
   if (!dockerState) return null;
   return dockerState[projectName] ?? null;
 }
@@ -600,15 +616,26 @@ export async function loadDockerState(
 /**
  * Load all Docker state from encrypted storage.
  *
+ * Includes projects whose Docker state lives in their own blobs.
+ *
  * @param syncDir - The sync directory path.
  * @param privateKey - The Age private key for decryption.
  * @returns Full Docker state, or `null` if no docker-state.age exists.
  */
 export async function loadAllDockerState(
   syncDir: string,
-  privateKey: string,
+  privateKey: PrivateKey,
 ): Promise<DockerState | null> {
-  return readState<DockerState>(syncDir, privateKey, 'docker-state');
+  const shared = await readState<DockerState>(syncDir, privateKey, 'docker-state');
+  const scoped = listScopedProjects(syncDir);
+  if (scoped.length === 0) return shared;
+
+  const all: DockerState = { ...shared };
+  for (const project of scoped) {
+    const entry = await loadDockerState(syncDir, project, privateKey);
+    if (entry) all[project] = entry;
+  }
+  return all;
 }
 
 /**
@@ -616,17 +643,22 @@ export async function loadAllDockerState(
  *
  * @param syncDir - The sync directory path.
  * @param projectName - The project name to remove.
- * @param publicKey - The Age public key for re-encryption.
+ * @param recipients - Age public key(s) to encrypt for.
  * @param privateKey - The Age private key for decryption.
  * @returns `true` if the project was found and removed.
  */
 export async function removeDockerState(
   syncDir: string,
   projectName: string,
-  publicKey: string,
-  privateKey: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
 ): Promise<boolean> {
-  const dockerState = await readState<DockerState>(syncDir, privateKey, 'docker-state');
+  const dockerState = await readProjectState<DockerState>(
+    syncDir,
+    privateKey,
+    'docker-state',
+    projectName,
+  );
   if (!dockerState || !(projectName in dockerState)) {
     return false;
   }
@@ -637,6 +669,6 @@ export async function removeDockerState(
       updated[key] = value;
     }
   }
-  await writeState(syncDir, updated, publicKey, 'docker-state');
+  await writeProjectState(syncDir, updated, recipients, 'docker-state', projectName);
   return true;
 }
@@ -11,6 +11,27 @@
 import { Encrypter, Decrypter, generateIdentity, identityToRecipient } from 'age-encryption';
 import { armor } from 'age-encryption';
 
+/**
+ * A private key held by `ctx-sync agent` instead of this process.
+ *
+ * Only the public halves are known locally. File keys are unwrapped and
+ * roster entries signed by the agent, so the identity never enters the
+ * CLI process.
+ */
+export interface AgentKey {
+  /** The matching Age public key (age1...) */
+  publicKey: string;
+  /** The matching roster signing key (base64 Ed25519) */
+  signingKey: string;
+  /** Ask the agent for the file key of an Age header (including its MAC) */
+  unwrapFileKey: (header: Uint8Array) => Promise<Uint8Array>;
+  /** Ask the agent to sign data with the roster signing key */
+  sign: (data: Buffer) => Promise<Buffer>;
+}
+
+/** An Age private key (AGE-SECRET-KEY-...), or one held by the agent */
+export type PrivateKey = string | AgentKey;
+
 /**
  * Generate a new Age key pair.
  *
@@ -22,6 +43,16 @@ export async function generateKey(): Promise<{ publicKey: string; privateKey: st
   return { publicKey, privateKey };
 }
 
+/**
+ * Get the Age public key for a private key.
+ *
+ * @param privateKey - The private key, or a handle to one in the agent.
+ * @returns The Age public key (age1...).
+ */
+export async function getPublicKey(privateKey: PrivateKey): Promise<string> {
+  return typeof privateKey === 'string' ? identityToRecipient(privateKey) : privateKey.publicKey;
+}
+
 /**
  * Encrypt a plaintext string with an Age public key.
  *
@@ -40,15 +71,24 @@ export async function encrypt(plaintext: string, publicKey: string): Promise<str
 /**
  * Decrypt an ASCII-armored Age ciphertext with a private key.
  *
+ * With a key held by the agent, only the header goes over the socket;
+ * the agent returns the file key and the payload is decrypted here.
+ *
  * @param ciphertext - The ASCII-armored Age ciphertext.
- * @param privateKey - The Age private key (AGE-SECRET-KEY-...).
+ * @param privateKey - The Age private key (AGE-SECRET-KEY-...), or a
+ *   handle to one in the agent.
  * @returns The decrypted plaintext string.
  * @throws If the private key cannot decrypt the ciphertext.
  */
-export async function decrypt(ciphertext: string, privateKey: string): Promise<string> {
+export async function decrypt(ciphertext: string, privateKey: PrivateKey): Promise<string> {
   const decrypter = new Decrypter();
-  decrypter.addIdentity(privateKey);
   const decoded = armor.decode(ciphertext);
+  if (typeof privateKey === 'string') {
+    decrypter.addIdentity(privateKey);
+  } else {
+    const fileKey = await privateKey.unwrapFileKey(splitHeader(decoded).header);
+    decrypter.addIdentity({ unwrapFileKey: () => fileKey });
+  }
   return decrypter.decrypt(decoded, 'text');
 }
 
@@ -74,7 +114,7 @@ export async function encryptState<T>(data: T, publicKey: string): Promise<strin
  * @returns The decrypted and parsed data.
  * @throws If decryption fails or the JSON is invalid.
  */
-export async function decryptState<T>(ciphertext: string, privateKey: string): Promise<T> {
+export async function decryptState<T>(ciphertext: string, privateKey: PrivateKey): Promise<T> {
   const json = await decrypt(ciphertext, privateKey);
   return JSON.parse(json) as T;
 }
@@ -123,3 +163,41 @@ export async function encryptStateForRecipients<T>(
   const json = JSON.stringify(data);
   return encryptForRecipients(json, publicKeys);
 }
+
+/**
+ * List the recipient stanza types in an Age ciphertext's header.
+ *
+ * Age headers do not name recipients: each X25519 stanza holds only an
+ * ephemeral share, so a file encrypted for three keys shows three
+ * `X25519` entries. Only the header is parsed — nothing is decrypted.
+ *
+ * @param ciphertext - The ASCII-armored Age ciphertext.
+ * @returns The stanza types in header order (e.g. `['X25519', 'X25519']`).
+ * @throws If the input is not an Age v1 file.
+ */
+export function readRecipientStanzas(ciphertext: string): string[] {
+  const { lines } = splitHeader(armor.decode(ciphertext));
+  return lines
+    .filter((line) => line.startsWith('-> '))
+    .map((line) => line.slice(3).split(' ')[0] ?? '');
+}
+
+/**
+ * Split the header off a binary Age file.
+ *
+ * @returns The full header (through the MAC line) and its lines before
+ *   the MAC.
+ * @throws If the input is not an Age v1 file.
+ */
+function splitHeader(file: Uint8Array): { header: Uint8Array; lines: string[] } {
+  const decoded = Buffer.from(file);
+  const macStart = decoded.indexOf('\n--- ');
+  const macEnd = decoded.indexOf('\n', macStart + 1);
+  const lines = decoded.subarray(0, Math.max(macStart, 0)).toString('latin1').split('\n');
+
+  if (macStart === -1 || macEnd === -1 || lines[0] !== 'age-encryption.org/v1') {
+    throw new Error('Not an Age v1 encrypted file.');
+  }
+
+  return { header: decoded.subarray(0, macEnd + 1), lines };
+}
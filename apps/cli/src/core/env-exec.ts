@@ -0,0 +1,104 @@
+/**
+ * Run a command with decrypted env vars injected.
+ *
+ * The env vars are merged over the current environment in memory and
+ * passed straight to the child process — nothing is written to disk,
+ * unlike a `.env` file. The child inherits stdio; signals sent to
+ * ctx-sync are forwarded to it, and its exit status is reported back
+ * so the caller can exit the same way.
+ *
+ * @module core/env-exec
+ */
+
+import { spawn } from 'node:child_process';
+import * as os from 'node:os';
+import type { EnvVars } from '@ctx-sync/shared';
+
+/** Signals forwarded to the child while it runs */
+export const FORWARDED_SIGNALS: readonly NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP', 'SIGQUIT'];
+
+/** How a child process ended */
+export interface ExecOutcome {
+  /** Exit code, or `null` if the child was killed by a signal */
+  exitCode: number | null;
+  /** The signal that killed the child, if any */
+  signal: NodeJS.Signals | null;
+}
+
+/**
+ * Merge a project's env vars over a base environment. Decrypted values
+ * win over variables already set.
+ *
+ * @param base - The environment to start from (usually `process.env`).
+ * @param vars - The project's decrypted env vars.
+ * @returns A new environment object.
+ */
+export function buildExecEnv(base: NodeJS.ProcessEnv, vars: EnvVars[string]): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { ...base };
+  for (const [key, entry] of Object.entries(vars)) {
+    env[key] = entry.value;
+  }
+  return env;
+}
+
+/**
+ * The exit code a shell reports for an outcome: the child's own code,
+ * or 128 + the signal number when a signal killed it.
+ */
+export function exitCodeOf(outcome: ExecOutcome): number {
+  if (outcome.exitCode !== null) {
+    return outcome.exitCode;
+  }
+  const signalNumber = outcome.signal ? os.constants.signals[outcome.signal] : undefined;
+  return 128 + (signalNumber ?? 0);
+}
+
+/**
+ * Spawn a command with the given environment and wait for it to end.
+ *
+ * The command is run directly, not through a shell. While it runs, the
+ * signals in `FORWARDED_SIGNALS` are passed on to it instead of ending
+ * this process.
+ *
+ * @param command - The program to run.
+ * @param args - Its arguments.
+ * @param env - The complete environment for the child.
+ * @param cwd - The working directory (default: the current one).
+ * @returns How the child ended.
+ * @throws If the command cannot be started (e.g. it does not exist).
+ */
+export function runWithEnv(
+  command: string,
+  args: string[],
+  env: NodeJS.ProcessEnv,
+  cwd: string = process.cwd(),
+): Promise<ExecOutcome> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { env, cwd, stdio: 'inherit' });
+
+    const forward = (signal: NodeJS.Signals): void => {
+      child.kill(signal);
+    };
+    for (const signal of FORWARDED_SIGNALS) {
+      process.on(signal, forward);
+    }
+    const stopForwarding = (): void => {
+      for (const signal of FORWARDED_SIGNALS) {
+        process.off(signal, forward);
+      }
+    };
+
+    child.once('error', (err: NodeJS.ErrnoException) => {
+      stopForwarding();
+      reject(
+        err.code === 'ENOENT'
+          ? new Error(`Command not found: ${command}`)
+          : new Error(`Could not run ${command}: ${err.message}`),
+      );
+    });
+    child.once('exit', (exitCode, signal) => {
+      stopForwarding();
+      resolve({ exitCode, signal });
+    });
+  });
+}
@@ -0,0 +1,169 @@
+/**
+ * Env var export formats.
+ *
+ * Renders a project's decrypted env vars for other tools, with the
+ * quoting each format needs so any value round-trips:
+ *   - `dotenv` — `KEY=value`, double-quoted and escaped when needed.
+ *   - `json` — a `{ "KEY": "value" }` object.
+ *   - `sh` — `export KEY='value'` (POSIX shells).
+ *   - `fish` — `set -gx KEY 'value'`.
+ *   - `docker` — `docker run --env-file` lines, which have no quoting.
+ *   - `k8s-secret` — a Kubernetes `Secret` manifest (base64 data).
+ *
+ * A key or value a format cannot represent is an error naming the key
+ * (never the value) rather than output that would be read back wrong.
+ *
+ * @module core/env-export
+ */
+
+import { shellQuote } from '../utils/shell.js';
+
+/** Supported export formats */
+export const ENV_EXPORT_FORMATS = ['dotenv', 'json', 'sh', 'fish', 'docker', 'k8s-secret'] as const;
+
+/** An export format */
+export type EnvExportFormat = (typeof ENV_EXPORT_FORMATS)[number];
+
+/** A key and its decrypted value */
+export interface ExportedEnvVar {
+  key: string;
+  value: string;
+}
+
+/** Options for `formatEnvVars()` */
+export interface EnvExportOptions {
+  /** `metadata.name` of a `k8s-secret` */
+  secretName?: string;
+}
+
+/** Keys a shell can assign */
+const SHELL_KEY = /^[A-Za-z_][A-Za-z0-9_]*$/;
+/** Keys a line-based env file can hold */
+const LINE_KEY = /^[^=\s#]+$/;
+/** Keys Kubernetes accepts in a Secret's data */
+const K8S_KEY = /^[-._a-zA-Z0-9]+$/;
+
+// ─── Filtering ────────────────────────────────────────────────────────────
+
+/**
+ * Keep only the listed keys and/or drop the excluded ones.
+ *
+ * @param vars - The env vars.
+ * @param only - Keys to keep (all when empty or absent).
+ * @param except - Keys to drop.
+ * @returns The filtered env vars, in their original order.
+ * @throws If a key in `only` is not set.
+ */
+export function filterEnvVars<T extends ExportedEnvVar>(
+  vars: T[],
+  only: string[] = [],
+  except: string[] = [],
+): T[] {
+  const missing = only.filter((key) => !vars.some((v) => v.key === key));
+  if (missing.length > 0) {
+    throw new Error(`Not set for this project: ${missing.join(', ')}`);
+  }
+  return vars.filter(
+    (v) => (only.length === 0 || only.includes(v.key)) && !except.includes(v.key),
+  );
+}
+
+// ─── Formats ──────────────────────────────────────────────────────────────
+
+function checkKeys(vars: ExportedEnvVar[], pattern: RegExp, format: EnvExportFormat): void {
+  const invalid = vars.filter((v) => !pattern.test(v.key)).map((v) => v.key);
+  if (invalid.length > 0) {
+    throw new Error(
+      `Cannot export ${invalid.map((key) => JSON.stringify(key)).join(', ')} as ${format}: not a valid key for this format.\n` +
+        'Leave them out with --except.',
+    );
+  }
+}
+
+/** Quote a dotenv value the way `restore` writes `.env` files */
+export function quoteDotenv(value: string): string {
+  const needsQuotes = /[\s"'\\#]/.test(value) || value === '';
+  return needsQuotes
+    ? `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+    : value;
+}
+
+/** Single-quote for fish, where `\` and `'` are escaped inside quotes */
+function quoteFish(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/** Make a Kubernetes object name (DNS subdomain) from a project name */
+function k8sName(name: string): string {
+  const cleaned = name
+    .toLowerCase()
+    .replace(/[^a-z0-9.-]+/g, '-')
+    .replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, '')
+    .slice(0, 253);
+  return cleaned || 'env';
+}
+
+function formatK8sSecret(vars: ExportedEnvVar[], name: string): string {
+  const lines = [
+    'apiVersion: v1',
+    'kind: Secret',
+    'metadata:',
+    `  name: ${k8sName(name)}`,
+    'type: Opaque',
+  ];
+  if (vars.length === 0) {
+    lines.push('data: {}');
+  } else {
+    lines.push('data:');
+    for (const { key, value } of vars) {
+      lines.push(`  ${JSON.stringify(key)}: ${Buffer.from(value, 'utf-8').toString('base64')}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render env vars in an export format.
+ *
+ * @param vars - The env vars, in output order.
+ * @param format - The format.
+ * @param options - Format-specific options.
+ * @returns The rendered text, ending in a newline.
+ * @throws If a key (or, for `docker`, a value) cannot be represented.
+ */
+export function formatEnvVars(
+  vars: ExportedEnvVar[],
+  format: EnvExportFormat,
+  options: EnvExportOptions = {},
+): string {
+  const lines = (render: (v: ExportedEnvVar) => string): string =>
+    vars.map(render).map((line) => `${line}\n`).join('');
+
+  switch (format) {
+    case 'dotenv':
+      checkKeys(vars, LINE_KEY, format);
+      return lines(({ key, value }) => `${key}=${quoteDotenv(value)}`);
+    case 'json':
+      return JSON.stringify(Object.fromEntries(vars.map((v) => [v.key, v.value])), null, 2) + '\n';
+    case 'sh':
+      checkKeys(vars, SHELL_KEY, format);
+      return lines(({ key, value }) => `export ${key}=${shellQuote(value)}`);
+    case 'fish':
+      checkKeys(vars, SHELL_KEY, format);
+      return lines(({ key, value }) => `set -gx ${key} ${quoteFish(value)}`);
+    case 'docker': {
+      checkKeys(vars, LINE_KEY, format);
+      const multiline = vars.filter((v) => /[\r\n]/.test(v.value)).map((v) => v.key);
+      if (multiline.length > 0) {
+        throw new Error(
+          `Cannot export ${multiline.join(', ')} as docker: Docker env files cannot hold line breaks.\n` +
+            'Leave them out with --except, or use --format dotenv.',
+        );
+      }
+      return lines(({ key, value }) => `${key}=${value}`);
+    }
+    case 'k8s-secret':
+      checkKeys(vars, K8S_KEY, format);
+      return formatK8sSecret(vars, options.secretName ?? 'env');
+  }
+}
@@ -9,12 +9,30 @@
  * Secrets are NEVER accepted as CLI arguments — only via interactive
  * prompt (hidden input), stdin pipe, or file descriptor.
  *
+ * A project's vars can be split into named profiles (e.g. `staging`),
+ * each inheriting the project's own vars and overriding some of them.
+ * Vars shared by many projects (e.g. `AWS_*`) are kept once in named
+ * groups that projects use; the project's own vars win over a group's.
+ *
+ * A var can also hold a reference to a secret kept by an external
+ * provider (see `core/secret-refs`); only the reference is stored.
+ *
  * @module core/env-handler
  */
 
 import { DEFAULT_SAFE_LIST } from '@ctx-sync/shared';
 import type { EnvVars, EnvVarEntry } from '@ctx-sync/shared';
-import { readState, writeState } from './state-manager.js';
+import {
+  PROJECT_KEY_SEPARATOR,
+  isProjectScoped,
+  readProjectState,
+  readState,
+  writeProjectState,
+  writeState,
+} from './state-manager.js';
+import type { ReadStateOptions } from './state-manager.js';
+import type { PrivateKey } from './encryption.js';
+import { DecryptionError } from '../utils/errors.js';
 
 /**
  * Determine whether an environment variable should be encrypted.
@@ -201,37 +219,42 @@ export function parseEnvFile(content: string): ParsedEnvVar[] {
  * file is a single encrypted blob.
  *
  * @param project - The project name.
- * @param vars - Array of key-value pairs to import.
+ * @param vars - Array of key-value pairs to import (`ref` marks a secret reference).
  * @param stateDir - The sync directory path.
- * @param publicKey - The Age public key for encryption.
+ * @param recipients - Age public key(s) to encrypt for.
  * @param privateKey - The Age private key for decryption (to read existing state).
+ * @param profile - The env profile to import into (default: the project's own vars).
  * @returns The count of imported variables.
  */
 export async function importEnvVars(
   project: string,
-  vars: ParsedEnvVar[],
+  vars: Array<ParsedEnvVar & { ref?: boolean }>,
   stateDir: string,
-  publicKey: string,
-  privateKey: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
+  profile: string = DEFAULT_ENV_PROFILE,
 ): Promise<number> {
+  const bucketKey = envVarsKey(project, profile);
+
   // Read existing env vars
   const existing =
-    (await readState<EnvVars>(stateDir, privateKey, 'env-vars')) ?? {};
+    (await readProjectState<EnvVars>(stateDir, privateKey, 'env-vars', project)) ?? {};
 
-  // Ensure project bucket exists
-  const projectBucket: Record<string, EnvVarEntry> = existing[project] ?? {};
-  existing[project] = projectBucket;
+  // Ensure project (or profile) bucket exists
+  const projectBucket: Record<string, EnvVarEntry> = existing[bucketKey] ?? {};
+  existing[bucketKey] = projectBucket;
 
   const now = new Date().toISOString();
-  for (const { key, value } of vars) {
+  for (const { key, value, ref } of vars) {
     projectBucket[key] = {
       value,
       addedAt: now,
+      ...(ref ? { ref: true } : {}),
     } satisfies EnvVarEntry;
   }
 
   // Write encrypted state
-  await writeState(stateDir, existing, publicKey, 'env-vars');
+  await writeProjectState(stateDir, existing, recipients, 'env-vars', project);
 
   return vars.length;
 }
@@ -243,18 +266,51 @@ export async function importEnvVars(
  * @param key - The variable key.
  * @param value - The variable value (must come from hidden input / stdin, NEVER CLI args).
  * @param stateDir - The sync directory path.
- * @param publicKey - The Age public key.
+ * @param recipients - Age public key(s) to encrypt for.
  * @param privateKey - The Age private key.
+ * @param profile - The env profile to add to (default: the project's own vars).
  */
 export async function addEnvVar(
   project: string,
   key: string,
   value: string,
   stateDir: string,
-  publicKey: string,
-  privateKey: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
+  profile: string = DEFAULT_ENV_PROFILE,
 ): Promise<void> {
-  await importEnvVars(project, [{ key, value }], stateDir, publicKey, privateKey);
+  await importEnvVars(project, [{ key, value }], stateDir, recipients, privateKey, profile);
+}
+
+/**
+ * Add an env var that refers to a secret kept by an external provider.
+ *
+ * @param project - The project name.
+ * @param key - The variable key.
+ * @param ref - The reference (e.g. `op://vault/item/field`), checked by
+ *   `validateSecretRef`. The secret itself is never stored.
+ * @param stateDir - The sync directory path.
+ * @param recipients - Age public key(s) to encrypt for.
+ * @param privateKey - The Age private key.
+ * @param profile - The env profile to add to (default: the project's own vars).
+ */
+export async function addEnvRef(
+  project: string,
+  key: string,
+  ref: string,
+  stateDir: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
+  profile: string = DEFAULT_ENV_PROFILE,
+): Promise<void> {
+  await importEnvVars(
+    project,
+    [{ key, value: ref, ref: true }],
+    stateDir,
+    recipients,
+    privateKey,
+    profile,
+  );
 }
 
 /** A listed env var (value optionally hidden) */
@@ -262,35 +318,447 @@ export interface ListedEnvVar {
   key: string;
   value: string;
   addedAt: string;
+  /** Whether the value comes from the project's own vars or a group rather than the profile */
+  inherited: boolean;
+  /** The env group the value comes from, if any */
+  group?: string;
+  /**
+   * For a secret reference, the reference. `value` is then the
+   * reference too (when shown) until resolved with `resolveSecretRef`.
+   */
+  ref?: string;
 }
 
 /**
- * List environment variables for a project.
+ * List environment variables for a project, including those of the
+ * env groups it uses.
  *
  * @param project - The project name.
  * @param stateDir - The sync directory path.
  * @param privateKey - The Age private key for decryption.
  * @param showValues - If `true`, decrypted values are returned; otherwise masked as '********'.
+ * @param profile - The env profile to list (default: the project's own vars).
+ * @param options - Where to report groups that were left out (see `readEnvVars`).
  * @returns Array of env vars (values hidden by default).
+ * @throws If the profile does not exist.
  */
 export async function listEnvVars(
   project: string,
   stateDir: string,
-  privateKey: string,
+  privateKey: PrivateKey,
   showValues: boolean = false,
+  profile: string = DEFAULT_ENV_PROFILE,
+  options: ReadEnvVarsOptions = {},
 ): Promise<ListedEnvVar[]> {
-  const envVars = await readState<EnvVars>(stateDir, privateKey, 'env-vars');
+  const envVars = await readEnvVars(stateDir, privateKey, project, options);
+
+  return Object.entries(resolveEnvSources(envVars, project, profile)).map(
+    ([key, { entry, profile: from, group }]) => ({
+      key,
+      value: showValues ? entry.value : '********',
+      addedAt: entry.addedAt,
+      inherited: from !== profile,
+      ...(group !== undefined ? { group } : {}),
+      ...(entry.ref ? { ref: entry.value } : {}),
+    }),
+  );
+}
+
+/** Options for reading a project's env vars */
+export interface ReadEnvVarsOptions extends ReadStateOptions {
+  /** Called with the linked groups left out because this key is not a recipient of them */
+  onSkippedGroups?: (groups: string[]) => void;
+}
+
+/**
+ * Read the env vars that hold `project`, with the env groups it uses.
+ *
+ * Groups are kept in the repo-wide file. For a project with its own
+ * blob, the groups it uses are read from there too; a member scoped to
+ * the project, who is not a recipient of the repo-wide file, gets the
+ * project's vars without its groups, and `onSkippedGroups` is told which
+ * ones were left out.
+ *
+ * @param stateDir - The sync directory path.
+ * @param privateKey - The Age private key for decryption.
+ * @param project - The project name.
+ * @param options - Repair behaviour for malformed data, and where to
+ *   report skipped groups.
+ * @throws DecryptionError if the repo-wide file cannot be decrypted for
+ *   any other reason (e.g. it is corrupted).
+ */
+export async function readEnvVars(
+  stateDir: string,
+  privateKey: PrivateKey,
+  project: string,
+  options: ReadEnvVarsOptions = {},
+): Promise<EnvVars | null> {
+  const envVars = await readProjectState<EnvVars>(
+    stateDir,
+    privateKey,
+    'env-vars',
+    project,
+    options,
+  );
+  const groups = listLinkedGroups(envVars, project);
+  if (groups.length === 0 || !isProjectScoped(stateDir, project)) {
+    return envVars;
+  }
+
+  let shared: EnvVars;
+  try {
+    shared = (await readState<EnvVars>(stateDir, privateKey, 'env-vars', options)) ?? {};
+  } catch (err) {
+    if (err instanceof DecryptionError && err.reason === 'not-a-recipient') {
+      options.onSkippedGroups?.(groups);
+      return envVars;
+    }
+    throw err;
+  }
+  const groupVars = Object.fromEntries(
+    groups.flatMap((group) => {
+      const vars = shared[envGroupKey(group)];
+      return vars ? [[envGroupKey(group), vars]] : [];
+    }),
+  );
+  return { ...envVars, ...groupVars };
+}
+
+/**
+ * Describe env groups left out by `readEnvVars`, for a warning.
+ *
+ * @param groups - The skipped group names.
+ */
+export function skippedGroupsWarning(groups: string[]): string {
+  const names = groups.join(', ');
+  return (
+    `Env group${groups.length === 1 ? '' : 's'} ${names} left out: ` +
+    'they are shared through the repo-wide env vars, which are not encrypted for your key.'
+  );
+}
 
-  if (!envVars || !envVars[project]) {
+// ─── Profiles ─────────────────────────────────────────────────────────────
+
+/** The profile holding a project's own vars, which every other profile inherits */
+export const DEFAULT_ENV_PROFILE = 'default';
+
+/** Profile and group names: letters, digits, `.`, `_` and `-` */
+const ENV_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Check that a profile name is usable (e.g. `staging`, `prod-readonly`).
+ *
+ * @param profile - The profile name.
+ * @returns The profile name.
+ * @throws If the name is empty or has characters other than letters,
+ *   digits, `.`, `_` and `-`.
+ */
+export function validateProfileName(profile: string): string {
+  if (!ENV_NAME.test(profile)) {
+    throw new Error(
+      `Invalid env profile name: "${profile}"\n` +
+        'Use letters, digits, ".", "_" and "-" (e.g. staging, prod-readonly).',
+    );
+  }
+  return profile;
+}
+
+/**
+ * The env-vars key a project's profile is stored under: the project
+ * name for its own vars, `<project>/<profile>` for a named profile.
+ *
+ * Named profiles live in the same file (or project blob) as the
+ * project's own vars, so they are merged, shared and rotated with them.
+ *
+ * @param project - The project name.
+ * @param profile - The profile name.
+ */
+export function envVarsKey(project: string, profile: string = DEFAULT_ENV_PROFILE): string {
+  return profile === DEFAULT_ENV_PROFILE
+    ? project
+    : `${project}${PROJECT_KEY_SEPARATOR}${validateProfileName(profile)}`;
+}
+
+/**
+ * List a project's env profiles, the default first.
+ *
+ * @param envVars - Decrypted env vars holding the project.
+ * @param project - The project name.
+ * @returns Profile names, or an empty array if the project has none.
+ */
+export function listEnvProfiles(envVars: EnvVars | null, project: string): string[] {
+  if (!envVars) {
     return [];
   }
+  const prefix = `${project}${PROJECT_KEY_SEPARATOR}`;
+  const named = Object.keys(envVars)
+    .filter((key) => key.startsWith(prefix))
+    .map((key) => key.slice(prefix.length))
+    .filter((name) => ENV_NAME.test(name))
+    .sort();
+  return envVars[project] !== undefined || named.length > 0
+    ? [DEFAULT_ENV_PROFILE, ...named]
+    : [];
+}
+
+/**
+ * The env vars a project's profile resolves to: the vars of the groups
+ * the project uses, overridden by the project's own vars, overridden by
+ * the profile's.
+ *
+ * @param envVars - Decrypted env vars holding the project (and its groups).
+ * @param project - The project name.
+ * @param profile - The profile name.
+ * @returns Key → entry, inherited keys first.
+ * @throws If a named profile does not exist, so a typo never falls
+ *   back to another environment's values.
+ */
+export function resolveEnvProfile(
+  envVars: EnvVars | null,
+  project: string,
+  profile: string = DEFAULT_ENV_PROFILE,
+): Record<string, EnvVarEntry> {
+  return Object.fromEntries(
+    Object.entries(resolveEnvSources(envVars, project, profile)).map(([key, { entry }]) => [
+      key,
+      entry,
+    ]),
+  );
+}
+
+/** A resolved env var and where its value comes from */
+interface ResolvedEnvVar {
+  entry: EnvVarEntry;
+  /** The profile that sets it, or `null` when it comes from a group */
+  profile: string | null;
+  group?: string;
+}
+
+function resolveEnvSources(
+  envVars: EnvVars | null,
+  project: string,
+  profile: string,
+): Record<string, ResolvedEnvVar> {
+  const own = profile === DEFAULT_ENV_PROFILE ? undefined : envVars?.[envVarsKey(project, profile)];
+  if (profile !== DEFAULT_ENV_PROFILE && !own) {
+    const profiles = listEnvProfiles(envVars, project);
+    throw new Error(
+      `Env profile "${profile}" not found for ${project}.\n` +
+        (profiles.length > 0
+          ? `Profiles: ${profiles.join(', ')}`
+          : `Create it with: ctx-sync env import ${project} <file> --env ${profile}`),
+    );
+  }
+
+  const resolved: Record<string, ResolvedEnvVar> = {};
+  for (const group of listLinkedGroups(envVars, project)) {
+    for (const [key, entry] of Object.entries(envVars?.[envGroupKey(group)] ?? {})) {
+      resolved[key] = { entry, profile: null, group };
+    }
+  }
+  for (const [key, entry] of Object.entries(envVars?.[project] ?? {})) {
+    resolved[key] = { entry, profile: DEFAULT_ENV_PROFILE };
+  }
+  for (const [key, entry] of Object.entries(own ?? {})) {
+    resolved[key] = { entry, profile };
+  }
+  return resolved;
+}
+
+// ─── Groups ───────────────────────────────────────────────────────────────
+
+/**
+ * Marks a project's reference to a group: `<project>/@<group>`, an
+ * empty entry in the project's vars. `@` cannot start a profile name.
+ */
+const GROUP_REF_MARK = '@';
+
+/**
+ * Check that a group name is usable (e.g. `aws`, `sentry`).
+ *
+ * @param group - The group name.
+ * @returns The group name.
+ * @throws If the name is empty or has characters other than letters,
+ *   digits, `.`, `_` and `-`.
+ */
+export function validateGroupName(group: string): string {
+  if (!ENV_NAME.test(group)) {
+    throw new Error(
+      `Invalid env group name: "${group}"\n` + 'Use letters, digits, ".", "_" and "-" (e.g. aws).',
+    );
+  }
+  return group;
+}
+
+/**
+ * The env-vars key a group's vars are stored under: `/<group>`.
+ *
+ * No project name can produce a key starting with `/`, so groups belong
+ * to no project and stay in the repo-wide file.
+ *
+ * @param group - The group name.
+ */
+export function envGroupKey(group: string): string {
+  return `${PROJECT_KEY_SEPARATOR}${validateGroupName(group)}`;
+}
+
+/**
+ * The group of a group key (`/<group>`), or `null` if the key is not one.
+ */
+export function parseEnvGroupKey(key: string): string | null {
+  return key.startsWith(PROJECT_KEY_SEPARATOR) ? key.slice(PROJECT_KEY_SEPARATOR.length) : null;
+}
+
+/**
+ * The env-vars key marking that a project uses a group.
+ *
+ * @param project - The project name.
+ * @param group - The group name.
+ */
+export function envGroupRefKey(project: string, group: string): string {
+  return `${project}${PROJECT_KEY_SEPARATOR}${GROUP_REF_MARK}${validateGroupName(group)}`;
+}
+
+/**
+ * The project and group of a group reference key, or `null` if the key
+ * is not one.
+ */
+export function parseEnvGroupRef(key: string): { project: string; group: string } | null {
+  const at = key.indexOf(`${PROJECT_KEY_SEPARATOR}${GROUP_REF_MARK}`);
+  if (at <= 0) {
+    return null;
+  }
+  const group = key.slice(at + PROJECT_KEY_SEPARATOR.length + GROUP_REF_MARK.length);
+  return { project: key.slice(0, at), group };
+}
+
+/**
+ * List the env groups stored in the repo-wide env vars.
+ *
+ * @param envVars - Decrypted repo-wide env vars.
+ * @returns Group names, sorted.
+ */
+export function listEnvGroups(envVars: EnvVars | null): string[] {
+  return Object.keys(envVars ?? {})
+    .flatMap((key) => {
+      const group = parseEnvGroupKey(key);
+      return group !== null ? [group] : [];
+    })
+    .sort();
+}
+
+/**
+ * List the env groups a project uses, in the order they were linked (a
+ * later group wins when two set the same key).
+ *
+ * @param envVars - Decrypted env vars holding the project.
+ * @param project - The project name.
+ */
+export function listLinkedGroups(envVars: EnvVars | null, project: string): string[] {
+  return Object.keys(envVars ?? {}).flatMap((key) => {
+    const ref = parseEnvGroupRef(key);
+    return ref && ref.project === project ? [ref.group] : [];
+  });
+}
+
+/**
+ * Import env vars into a group. Groups live in the repo-wide file, so
+ * they are encrypted for its recipients.
+ *
+ * @param group - The group name.
+ * @param vars - Array of key-value pairs to import.
+ * @param stateDir - The sync directory path.
+ * @param recipients - Age public key(s) of the repo-wide file.
+ * @param privateKey - The Age private key for decryption.
+ * @returns The count of imported variables.
+ */
+export async function importEnvGroup(
+  group: string,
+  vars: ParsedEnvVar[],
+  stateDir: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
+): Promise<number> {
+  const groupKey = envGroupKey(group);
+  const existing = (await readState<EnvVars>(stateDir, privateKey, 'env-vars')) ?? {};
+
+  const now = new Date().toISOString();
+  const bucket: Record<string, EnvVarEntry> = existing[groupKey] ?? {};
+  for (const { key, value } of vars) {
+    bucket[key] = { value, addedAt: now } satisfies EnvVarEntry;
+  }
+  existing[groupKey] = bucket;
+
+  await writeState(stateDir, existing, recipients, 'env-vars');
+  return vars.length;
+}
+
+/**
+ * Make a project use a group.
+ *
+ * @param project - The project name.
+ * @param group - The group name.
+ * @param stateDir - The sync directory path.
+ * @param recipients - Age public key(s) of the project's env vars.
+ * @param privateKey - The Age private key for decryption.
+ * @returns `false` if the project already used the group.
+ * @throws If the group does not exist.
+ */
+export async function linkEnvGroup(
+  project: string,
+  group: string,
+  stateDir: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
+): Promise<boolean> {
+  const shared = await readState<EnvVars>(stateDir, privateKey, 'env-vars');
+  if (!shared?.[envGroupKey(group)]) {
+    const groups = listEnvGroups(shared);
+    throw new Error(
+      `Env group "${group}" not found.\n` +
+        (groups.length > 0
+          ? `Groups: ${groups.join(', ')}`
+          : `Create it with: ctx-sync env group import ${group} <file>`),
+    );
+  }
 
-  const projectVars = envVars[project] ?? {};
-  return Object.entries(projectVars).map(([key, entry]) => ({
-    key,
-    value: showValues ? entry.value : '********',
-    addedAt: entry.addedAt,
-  }));
+  const existing =
+    (await readProjectState<EnvVars>(stateDir, privateKey, 'env-vars', project)) ?? {};
+  const refKey = envGroupRefKey(project, group);
+  if (existing[refKey]) {
+    return false;
+  }
+  existing[refKey] = {};
+  await writeProjectState(stateDir, existing, recipients, 'env-vars', project);
+  return true;
+}
+
+/**
+ * Stop a project from using a group. The group itself is kept.
+ *
+ * @param project - The project name.
+ * @param group - The group name.
+ * @param stateDir - The sync directory path.
+ * @param recipients - Age public key(s) of the project's env vars.
+ * @param privateKey - The Age private key for decryption.
+ * @returns `false` if the project did not use the group.
+ */
+export async function unlinkEnvGroup(
+  project: string,
+  group: string,
+  stateDir: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
+): Promise<boolean> {
+  const existing =
+    (await readProjectState<EnvVars>(stateDir, privateKey, 'env-vars', project)) ?? {};
+  const refKey = envGroupRefKey(project, group);
+  if (!existing[refKey]) {
+    return false;
+  }
+  const rest = Object.fromEntries(Object.entries(existing).filter(([key]) => key !== refKey));
+  await writeProjectState(stateDir, rest, recipients, 'env-vars', project);
+  return true;
 }
 
 /**
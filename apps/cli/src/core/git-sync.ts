@@ -13,6 +13,11 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { simpleGit, type SimpleGit, type StatusResult } from 'simple-git';
 import { validateRemoteUrl } from './transport.js';
+import { decryptState } from './encryption.js';
+import type { PrivateKey } from './encryption.js';
+
+/** Most past versions of a file searched for one a key can decrypt */
+const MAX_ROLLBACK_SEARCH = 100;
 
 /**
  * Create a simple-git instance with credential prompt suppression.
@@ -32,6 +37,16 @@ export function createGit(dir: string): SimpleGit {
   return simpleGit(dir).env({ ...process.env, GIT_TERMINAL_PROMPT: '0' });
 }
 
+/** A commit that changed a file */
+export interface FileCommit {
+  /** Full commit hash */
+  hash: string;
+  /** Commit date (ISO 8601) */
+  date: string;
+  /** Commit subject */
+  message: string;
+}
+
 /** Result of a getStatus() call */
 export interface SyncStatus {
   /** List of changed/untracked files */
@@ -210,3 +225,141 @@ export async function getStatus(dir: string): Promise<SyncStatus> {
     isClean: status.isClean(),
   };
 }
+
+/**
+ * List the commits that changed a file, newest first.
+ *
+ * @param dir - The Git repository directory.
+ * @param relPath - The file, relative to `dir`.
+ * @returns The commits, or an empty list if the file has no history.
+ */
+export async function listFileCommits(dir: string, relPath: string): Promise<FileCommit[]> {
+  const log = await createGit(dir).log({ file: relPath });
+  return log.all.map((commit) => ({ hash: commit.hash, date: commit.date, message: commit.message }));
+}
+
+/**
+ * Read a file as it was at a commit.
+ *
+ * @param dir - The Git repository directory.
+ * @param commit - The commit hash.
+ * @param relPath - The file, relative to `dir`.
+ * @returns The file contents, or `null` if the file did not exist then.
+ */
+export async function readFileAtCommit(
+  dir: string,
+  commit: string,
+  relPath: string,
+): Promise<string | null> {
+  try {
+    return await createGit(dir).show([`${commit}:${relPath}`]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a file as it is staged in the index.
+ *
+ * @param dir - The Git repository directory.
+ * @param relPath - The file, relative to `dir`.
+ * @returns The staged contents, or `null` if the file is not in the index.
+ */
+export async function readFileInIndex(dir: string, relPath: string): Promise<string | null> {
+  try {
+    return await createGit(dir).show([`:${relPath}`]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List the files staged in the index.
+ *
+ * @param dir - The Git repository directory.
+ * @returns Paths relative to `dir`.
+ */
+export async function listIndexFiles(dir: string): Promise<string[]> {
+  const output = await createGit(dir).raw(['ls-files']);
+  return output.split('\n').filter(Boolean);
+}
+
+/**
+ * Register a Git diff driver for `.age` files in a repository, so
+ * `git diff` and `git log -p` run them through `command` first.
+ *
+ * The attributes go in `.git/info/attributes`, not a committed
+ * `.gitattributes`: machines without the driver keep plain diffs.
+ *
+ * @param dir - The Git repository directory.
+ * @param driver - The diff driver name.
+ * @param command - The textconv command; Git appends the file path.
+ */
+export async function configureTextconv(dir: string, driver: string, command: string): Promise<void> {
+  await createGit(dir).addConfig(`diff.${driver}.textconv`, command);
+
+  const attributesFile = path.join(dir, '.git', 'info', 'attributes');
+  const line = `*.age diff=${driver}`;
+  const existing = fs.existsSync(attributesFile) ? fs.readFileSync(attributesFile, 'utf-8') : '';
+  if (!existing.split('\n').includes(line)) {
+    fs.mkdirSync(path.dirname(attributesFile), { recursive: true });
+    fs.writeFileSync(attributesFile, `${existing}${existing && !existing.endsWith('\n') ? '\n' : ''}${line}\n`);
+  }
+}
+
+/**
+ * Resolve a commit-ish (hash prefix, `HEAD~2`, tag) to a full commit hash.
+ *
+ * @param dir - The Git repository directory.
+ * @param ref - The commit-ish.
+ * @returns The full commit hash, or `null` if it names no commit.
+ */
+export async function resolveCommit(dir: string, ref: string): Promise<string | null> {
+  try {
+    return (await createGit(dir).revparse(['--verify', '--quiet', `${ref}^{commit}`])).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List the files tracked at a commit.
+ *
+ * @param dir - The Git repository directory.
+ * @param commit - The commit hash.
+ * @returns Paths relative to `dir`.
+ */
+export async function listFilesAtCommit(dir: string, commit: string): Promise<string[]> {
+  const output = await createGit(dir).raw(['ls-tree', '-r', '--name-only', commit]);
+  return output.split('\n').filter(Boolean);
+}
+
+/**
+ * Find the last version of a state file this key can decrypt.
+ *
+ * @param dir - The Git repository directory.
+ * @param relPath - The state file, relative to `dir`.
+ * @param privateKey - This machine's key.
+ * @returns The newest commit whose version decrypts, or `null` if none
+ *   of the last versions do.
+ */
+export async function findLastDecryptableCommit(
+  dir: string,
+  relPath: string,
+  privateKey: PrivateKey,
+): Promise<FileCommit | null> {
+  const commits = await listFileCommits(dir, relPath);
+
+  for (const commit of commits.slice(0, MAX_ROLLBACK_SEARCH)) {
+    const ciphertext = await readFileAtCommit(dir, commit.hash, relPath);
+    if (!ciphertext?.trim()) continue;
+
+    try {
+      await decryptState<unknown>(ciphertext, privateKey);
+      return commit;
+    } catch {
+      // Not readable with this key either — keep looking
+    }
+  }
+  return null;
+}
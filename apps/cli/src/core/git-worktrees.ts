@@ -0,0 +1,164 @@
+/**
+ * Git worktree module.
+ *
+ * Detects the linked worktrees of a tracked project (`git worktree list`)
+ * and recreates missing ones on restore with `git worktree add`, using
+ * the branches synced through the project's remote.
+ *
+ * Worktree paths are stored as recorded on the tracking machine. On
+ * restore they are remapped relative to the project root, so a worktree
+ * at `~/code/app-feature` next to `~/code/app` lands next to the
+ * project's local path on the new machine.
+ *
+ * @module core/git-worktrees
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { GitWorktree } from '@ctx-sync/shared';
+import { createGit } from './git-sync.js';
+import { validateProjectPath } from './path-validator.js';
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** Result of recreating worktrees on restore */
+export interface WorktreeRestoreResult {
+  /** Worktrees that were created */
+  created: GitWorktree[];
+  /** Worktrees that could not be created */
+  failed: Array<GitWorktree & { error: string }>;
+}
+
+// ─── Detection ────────────────────────────────────────────────────────────
+
+/**
+ * Parse `git worktree list --porcelain` output.
+ *
+ * The first entry is the main worktree (the project itself) and is
+ * skipped, as are bare entries and worktrees on a detached HEAD, which
+ * have no branch to recreate them from.
+ *
+ * @param output - The raw porcelain output.
+ * @returns The linked worktrees with their branches.
+ */
+export function parseWorktreeList(output: string): GitWorktree[] {
+  const worktrees: GitWorktree[] = [];
+
+  const entries = output.split(/\n\s*\n/).filter((entry) => entry.trim().length > 0);
+  for (const entry of entries.slice(1)) {
+    let worktreePath = '';
+    let branch = '';
+    for (const line of entry.split('\n')) {
+      if (line.startsWith('worktree ')) {
+        worktreePath = line.slice('worktree '.length);
+      } else if (line.startsWith('branch ')) {
+        branch = line.slice('branch '.length).replace(/^refs\/heads\//, '');
+      }
+    }
+    if (worktreePath && branch) {
+      worktrees.push({ path: worktreePath, branch });
+    }
+  }
+
+  return worktrees;
+}
+
+/**
+ * List the linked worktrees of a Git repository.
+ *
+ * @param projectPath - The main worktree of the repository.
+ * @returns The linked worktrees, or an empty list if Git fails.
+ */
+export async function detectWorktrees(projectPath: string): Promise<GitWorktree[]> {
+  try {
+    const output = await createGit(projectPath).raw(['worktree', 'list', '--porcelain']);
+    return parseWorktreeList(output);
+  } catch {
+    return [];
+  }
+}
+
+// ─── Restore ──────────────────────────────────────────────────────────────
+
+/**
+ * Remap a worktree path from the tracking machine to this machine.
+ *
+ * The path is kept relative to the project root, so a sibling directory
+ * stays a sibling and a nested one stays nested.
+ *
+ * @param worktreePath - The worktree path on the tracking machine.
+ * @param trackedProjectPath - The project path on the tracking machine.
+ * @param localPath - The project path on this machine.
+ * @returns The worktree path on this machine.
+ */
+export function remapWorktreePath(
+  worktreePath: string,
+  trackedProjectPath: string,
+  localPath: string,
+): string {
+  return path.resolve(localPath, path.relative(trackedProjectPath, worktreePath));
+}
+
+/**
+ * Recreate the worktrees that do not exist on this machine.
+ *
+ * A worktree is skipped if its remapped path already exists or its
+ * branch is already checked out here. Missing local branches are
+ * created from the matching remote-tracking branch (Git's default for
+ * `git worktree add <path> <branch>`). Remapped paths must pass
+ * `validateProjectPath()`.
+ *
+ * @param localPath - The project path on this machine.
+ * @param trackedProjectPath - The project path on the tracking machine.
+ * @param worktrees - The worktrees recorded in state.
+ * @returns The worktrees that were created and those that failed.
+ */
+export async function restoreWorktrees(
+  localPath: string,
+  trackedProjectPath: string,
+  worktrees: GitWorktree[],
+): Promise<WorktreeRestoreResult> {
+  const result: WorktreeRestoreResult = { created: [], failed: [] };
+
+  if (worktrees.length === 0 || !fs.existsSync(path.join(localPath, '.git'))) {
+    return result;
+  }
+
+  const git = createGit(localPath);
+  const checkedOut = new Set<string>();
+  try {
+    const { current } = await git.branch();
+    checkedOut.add(current);
+    for (const existing of await detectWorktrees(localPath)) {
+      checkedOut.add(existing.branch);
+    }
+  } catch {
+    // Not a usable repository — every add below fails and is reported
+  }
+
+  for (const worktree of worktrees) {
+    if (checkedOut.has(worktree.branch)) {
+      continue;
+    }
+
+    const target = remapWorktreePath(worktree.path, trackedProjectPath, localPath);
+    if (fs.existsSync(target)) {
+      continue;
+    }
+
+    try {
+      if (worktree.branch.startsWith('-')) {
+        throw new Error(`Invalid branch name: "${worktree.branch}"`);
+      }
+      const safeTarget = validateProjectPath(target);
+      await git.raw(['worktree', 'add', '--', safeTarget, worktree.branch]);
+      checkedOut.add(worktree.branch);
+      result.created.push({ path: safeTarget, branch: worktree.branch });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      result.failed.push({ path: target, branch: worktree.branch, error: message.trim() });
+    }
+  }
+
+  return result;
+}
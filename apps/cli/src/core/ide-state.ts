@@ -0,0 +1,576 @@
+/**
+ * IDE state module.
+ *
+ * Captures a project's VS Code state — installed extensions, workspace
+ * settings (`.vscode/settings.json`) that differ from the committed file,
+ * and the open editors with their cursor positions — and turns it back
+ * into commands on restore. IDE state is persisted in `ide-state.age`
+ * (encrypted), one entry per project.
+ *
+ * Open editors are read from VS Code's workspace storage database
+ * (`state.vscdb`), which needs the `sqlite3` CLI. Without it, or without
+ * VS Code, capture records whatever else is available.
+ *
+ * Restoring never runs anything directly: extension installs, the
+ * settings update and reopening the last file are returned as
+ * `PendingCommand`s for the approval workflow in `command-validator`.
+ *
+ * @module core/ide-state
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { IdeEditor, IdeState, ProjectIdeState } from '@ctx-sync/shared';
+import { readState, writeState } from './state-manager.js';
+import type { ReadStateOptions } from './state-manager.js';
+import { createGit } from './git-sync.js';
+import type { PendingCommand } from './command-validator.js';
+import type { PrivateKey } from './encryption.js';
+import { shellQuote } from '../utils/shell.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────
+
+/** Display label for VS Code commands */
+export const VSCODE_LABEL = '🧩 VS Code';
+
+/** Workspace settings file, relative to the project root */
+export const WORKSPACE_SETTINGS = path.join('.vscode', 'settings.json');
+
+/** Marketplace extension IDs (`publisher.name`) */
+const EXTENSION_ID = /^[a-z0-9][a-z0-9-]*\.[a-z0-9][a-z0-9-]*$/i;
+
+/** Workspace storage keys holding the editor layout and cursor positions */
+const EDITOR_PART_KEY = 'memento/workbench.parts.editor';
+const VIEW_STATE_KEY = 'memento/workbench.editors.files.textFileEditor';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+/**
+ * Build an empty `IdeState`.
+ */
+function emptyState(): IdeState {
+  return {};
+}
+
+/**
+ * Copy a JSON string literal starting at `start`.
+ *
+ * @returns The index of the closing quote.
+ */
+function skipString(text: string, start: number): number {
+  let i = start + 1;
+  while (i < text.length && text[i] !== '"') {
+    i += text[i] === '\\' ? 2 : 1;
+  }
+  return i;
+}
+
+/**
+ * Parse JSON with comments and trailing commas (VS Code's settings format).
+ *
+ * @throws If the text is not valid JSONC.
+ */
+export function parseJsonc(text: string): unknown {
+  let stripped = '';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') {
+      const end = skipString(text, i);
+      stripped += text.slice(i, end + 1);
+      i = end;
+    } else if (text.startsWith('//', i)) {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end - 1;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      stripped += text[i];
+    }
+  }
+
+  let json = '';
+  for (let i = 0; i < stripped.length; i++) {
+    if (stripped[i] === '"') {
+      const end = skipString(stripped, i);
+      json += stripped.slice(i, end + 1);
+      i = end;
+    } else if (stripped[i] === ',' && /^\s*[}\]]/.test(stripped.slice(i + 1))) {
+      // Trailing comma
+    } else {
+      json += stripped[i];
+    }
+  }
+
+  return JSON.parse(json);
+}
+
+/**
+ * Check whether `file` is inside `dir`.
+ */
+function isInside(dir: string, file: string): boolean {
+  const relative = path.relative(dir, file);
+  return relative.length > 0 && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * VS Code's user data directory on this machine.
+ */
+function vscodeUserDir(): string {
+  const home = process.env['CTX_SYNC_HOME'] ?? os.homedir();
+  switch (process.platform) {
+    case 'darwin':
+      return path.join(home, 'Library', 'Application Support', 'Code', 'User');
+    case 'win32':
+      return path.join(process.env['APPDATA'] ?? path.join(home, 'AppData', 'Roaming'), 'Code', 'User');
+    default:
+      return path.join(process.env['XDG_CONFIG_HOME'] ?? path.join(home, '.config'), 'Code', 'User');
+  }
+}
+
+/**
+ * Run the `code` CLI with the given arguments and return its stdout.
+ *
+ * @throws If VS Code is not installed or the command fails.
+ */
+function runCode(args: string[]): string {
+  return execFileSync('code', args, {
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+    timeout: 15000,
+  });
+}
+
+// ─── Capture ──────────────────────────────────────────────────────────────
+
+/**
+ * Check if the VS Code CLI (`code`) is available on this machine.
+ */
+export function isVSCodeAvailable(): boolean {
+  try {
+    runCode(['--version']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List the installed VS Code extensions.
+ *
+ * @returns Extension IDs, or an empty list if VS Code is not installed.
+ */
+export function listExtensions(): string[] {
+  try {
+    return runCode(['--list-extensions'])
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((id) => EXTENSION_ID.test(id));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read a project's workspace settings.
+ *
+ * @param projectPath - The project directory.
+ * @returns The settings, or `null` if the file is missing or invalid.
+ */
+export function readWorkspaceSettings(projectPath: string): Record<string, unknown> | null {
+  try {
+    const settings = parseJsonc(fs.readFileSync(path.join(projectPath, WORKSPACE_SETTINGS), 'utf-8'));
+    return typeof settings === 'object' && settings !== null && !Array.isArray(settings)
+      ? (settings as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keep the settings whose values differ from `base`.
+ */
+function diffSettings(
+  settings: Record<string, unknown>,
+  base: Record<string, unknown>,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(settings).filter(
+      ([key, value]) => !Object.hasOwn(base, key) || JSON.stringify(base[key]) !== JSON.stringify(value),
+    ),
+  );
+}
+
+/**
+ * Find the workspace settings that are not in the committed file.
+ *
+ * If `.vscode/settings.json` is not committed (or the project is not a
+ * Git repository), every setting counts as a local change.
+ *
+ * @param projectPath - The project directory.
+ * @returns The changed or added settings.
+ */
+export async function detectSettingsDelta(projectPath: string): Promise<Record<string, unknown>> {
+  const settings = readWorkspaceSettings(projectPath);
+  if (!settings) {
+    return {};
+  }
+
+  let committed: Record<string, unknown> = {};
+  try {
+    const content = await createGit(projectPath).show([`HEAD:${WORKSPACE_SETTINGS.split(path.sep).join('/')}`]);
+    const parsed = parseJsonc(content);
+    if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+      committed = parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Not committed — the whole file is local
+  }
+
+  return diffSettings(settings, committed);
+}
+
+/**
+ * Find the VS Code workspace storage directory of a project folder.
+ *
+ * @returns The most recently used matching directory, or `null`.
+ */
+function findWorkspaceStorage(projectPath: string): string | null {
+  const storageRoot = path.join(vscodeUserDir(), 'workspaceStorage');
+  const folder = pathToFileURL(projectPath).href;
+
+  let best: { dir: string; mtime: number } | null = null;
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(storageRoot);
+  } catch {
+    return null;
+  }
+  for (const entry of entries) {
+    const dir = path.join(storageRoot, entry);
+    try {
+      const workspace = JSON.parse(fs.readFileSync(path.join(dir, 'workspace.json'), 'utf-8')) as {
+        folder?: unknown;
+      };
+      if (typeof workspace.folder !== 'string' || decodeURIComponent(workspace.folder) !== decodeURIComponent(folder)) {
+        continue;
+      }
+      const mtime = fs.statSync(path.join(dir, 'state.vscdb')).mtimeMs;
+      if (!best || mtime > best.mtime) {
+        best = { dir, mtime };
+      }
+    } catch {
+      // Not a folder workspace, or no state database yet
+    }
+  }
+  return best?.dir ?? null;
+}
+
+/**
+ * Convert a serialized VS Code resource to a local file path.
+ */
+function resourceToPath(resource: unknown): string | null {
+  if (typeof resource === 'string') {
+    return resource.startsWith('file:') ? fileURLToPath(resource) : null;
+  }
+  if (typeof resource !== 'object' || resource === null) {
+    return null;
+  }
+  const r = resource as Record<string, unknown>;
+  if (r['scheme'] !== 'file') {
+    return null;
+  }
+  const fsPath = r['fsPath'] ?? r['path'];
+  return typeof fsPath === 'string' ? fsPath : null;
+}
+
+/**
+ * Collect the editor groups (grid leaves) of a serialized editor layout.
+ */
+function collectEditorGroups(
+  node: unknown,
+  groups: Array<{ id: number; editors: unknown[]; mru: number[] }>,
+): void {
+  if (typeof node !== 'object' || node === null) return;
+  const n = node as Record<string, unknown>;
+  const data = n['data'];
+
+  if (n['type'] === 'leaf' && typeof data === 'object' && data !== null && !Array.isArray(data)) {
+    const group = data as Record<string, unknown>;
+    if (Array.isArray(group['editors'])) {
+      const editors = group['editors'] as unknown[];
+      const mru = Array.isArray(group['mru']) ? (group['mru'] as unknown[]).filter((i) => typeof i === 'number') : [];
+      groups.push({
+        id: typeof group['id'] === 'number' ? group['id'] : groups.length,
+        editors,
+        mru: mru.length > 0 ? mru : editors.map((_, i) => i),
+      });
+    }
+  } else if (Array.isArray(data)) {
+    for (const child of data) {
+      collectEditorGroups(child, groups);
+    }
+  }
+}
+
+/**
+ * Parse VS Code's stored editor layout and cursor positions.
+ *
+ * @param editorPart - The `memento/workbench.parts.editor` value.
+ * @param viewState  - The `memento/workbench.editors.files.textFileEditor` value.
+ * @returns Open files, most recently used first (groups in the order they
+ *          were last active). Files without a stored cursor open at 1:1.
+ */
+export function parseEditorMemento(editorPart: string, viewState?: string): IdeEditor[] {
+  const cursors = new Map<string, Record<string, unknown>>();
+  try {
+    const parsed = JSON.parse(viewState ?? '{}') as { textEditorViewState?: unknown };
+    if (Array.isArray(parsed.textEditorViewState)) {
+      for (const entry of parsed.textEditorViewState as unknown[]) {
+        if (!Array.isArray(entry)) continue;
+        const [resource, states] = entry as [unknown, unknown];
+        const file = resourceToPath(resource);
+        if (file && typeof states === 'object' && states !== null) {
+          cursors.set(file, states as Record<string, unknown>);
+        }
+      }
+    }
+  } catch {
+    // No cursor positions
+  }
+
+  let part: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(editorPart) as Record<string, unknown>;
+    part = (parsed['editorpart.state'] ?? parsed) as Record<string, unknown>;
+  } catch {
+    return [];
+  }
+
+  const groups: Array<{ id: number; editors: unknown[]; mru: number[] }> = [];
+  collectEditorGroups((part['serializedGrid'] as Record<string, unknown> | undefined)?.['root'], groups);
+  const recent = Array.isArray(part['mostRecentActiveGroups']) ? (part['mostRecentActiveGroups'] as unknown[]) : [];
+  const rank = (id: number): number => {
+    const index = recent.indexOf(id);
+    return index === -1 ? recent.length : index;
+  };
+  groups.sort((a, b) => rank(a.id) - rank(b.id));
+
+  const editors: IdeEditor[] = [];
+  const seen = new Set<string>();
+  for (const group of groups) {
+    for (const index of group.mru) {
+      const editor = group.editors[index] as { value?: unknown } | undefined;
+      let file: string | null = null;
+      try {
+        const value = JSON.parse(typeof editor?.value === 'string' ? editor.value : '{}') as {
+          resourceJSON?: unknown;
+        };
+        file = resourceToPath(value.resourceJSON);
+      } catch {
+        // Not a file editor
+      }
+      if (!file || seen.has(file)) continue;
+      seen.add(file);
+
+      const states = cursors.get(file);
+      const state = (states?.[String(group.id)] ?? Object.values(states ?? {})[0]) as
+        | { cursorState?: Array<{ position?: { lineNumber?: unknown; column?: unknown } }> }
+        | undefined;
+      const position = state?.cursorState?.[0]?.position;
+      editors.push({
+        file,
+        line: typeof position?.lineNumber === 'number' ? position.lineNumber : 1,
+        column: typeof position?.column === 'number' ? position.column : 1,
+      });
+    }
+  }
+
+  return editors;
+}
+
+/**
+ * Read the editors open in VS Code for a project folder.
+ *
+ * @param projectPath - The project directory (opened as a VS Code folder).
+ * @returns Open files inside the project, most recently used first, or
+ *          an empty list if the state cannot be read.
+ */
+export function readOpenEditors(projectPath: string): IdeEditor[] {
+  const storage = findWorkspaceStorage(projectPath);
+  if (!storage) {
+    return [];
+  }
+
+  try {
+    const output = execFileSync(
+      'sqlite3',
+      [
+        '-readonly',
+        '-json',
+        path.join(storage, 'state.vscdb'),
+        `SELECT key, value FROM ItemTable WHERE key IN ('${EDITOR_PART_KEY}', '${VIEW_STATE_KEY}')`,
+      ],
+      { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'], timeout: 5000 },
+    );
+    const rows = JSON.parse(output.trim() || '[]') as Array<{ key: string; value: string }>;
+    const editorPart = rows.find((row) => row.key === EDITOR_PART_KEY)?.value;
+    if (!editorPart) {
+      return [];
+    }
+    const viewState = rows.find((row) => row.key === VIEW_STATE_KEY)?.value;
+    return parseEditorMemento(editorPart, viewState).filter((editor) => isInside(projectPath, editor.file));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Capture the VS Code state of a project.
+ *
+ * @param projectPath - The project directory on this machine.
+ * @returns The captured state, or `null` if nothing was found.
+ */
+export async function captureIdeState(projectPath: string): Promise<ProjectIdeState | null> {
+  const extensions = listExtensions();
+  const settings = await detectSettingsDelta(projectPath);
+  const editors = readOpenEditors(projectPath);
+
+  if (extensions.length === 0 && Object.keys(settings).length === 0 && editors.length === 0) {
+    return null;
+  }
+
+  return {
+    projectPath,
+    capturedAt: new Date().toISOString(),
+    vscode: { extensions, settings, editors },
+  };
+}
+
+// ─── Persistence ──────────────────────────────────────────────────────────
+
+/**
+ * Load all captured IDE state from encrypted state.
+ *
+ * @param syncDir     - The sync directory.
+ * @param privateKey  - Age private key for decryption.
+ * @param readOptions - Repair options passed through to `readState()`.
+ * @returns The decrypted `IdeState`, or an empty state if the file does
+ *          not exist.
+ */
+export async function loadIdeState(
+  syncDir: string,
+  privateKey: PrivateKey,
+  readOptions: ReadStateOptions = {},
+): Promise<IdeState> {
+  const state = await readState<IdeState>(syncDir, privateKey, 'ide-state', readOptions);
+  return state ?? emptyState();
+}
+
+/**
+ * Save (or replace) the captured IDE state of a project.
+ *
+ * @param syncDir     - The sync directory.
+ * @param projectName - The project the state belongs to.
+ * @param ideState    - The captured state.
+ * @param recipients  - Age public key(s) to encrypt for.
+ * @param privateKey  - Age private key for decryption.
+ */
+export async function saveIdeState(
+  syncDir: string,
+  projectName: string,
+  ideState: ProjectIdeState,
+  recipients: string | string[],
+  privateKey: PrivateKey,
+): Promise<void> {
+  const state = await loadIdeState(syncDir, privateKey);
+  state[projectName] = ideState;
+  await writeState(syncDir, state, recipients, 'ide-state');
+}
+
+// ─── Restore ──────────────────────────────────────────────────────────────
+
+/**
+ * Merge settings into a workspace settings file, creating it if needed.
+ *
+ * Existing settings are kept unless overridden. The file is rewritten as
+ * plain JSON, so comments in it are not preserved.
+ *
+ * @param file     - The settings file.
+ * @param settings - The settings to set.
+ * @throws If the existing file is not valid JSONC.
+ */
+export function applyWorkspaceSettings(file: string, settings: Record<string, unknown>): void {
+  let existing: Record<string, unknown> = {};
+  if (fs.existsSync(file)) {
+    const parsed = parseJsonc(fs.readFileSync(file, 'utf-8'));
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error(`${file} does not contain a JSON object.`);
+    }
+    existing = parsed as Record<string, unknown>;
+  }
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify({ ...existing, ...settings }, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Build the commands that restore a project's VS Code state.
+ *
+ * Returns, in order: one `code --install-extension` per extension that
+ * is not installed here, a settings update for captured settings that
+ * differ from the local file (applied by `applyWorkspaceSettings()`),
+ * and `code -g` to reopen the most recently used file at its cursor.
+ * Extensions and the editor are skipped if VS Code is not installed;
+ * the editor is skipped if the file does not exist here.
+ *
+ * @param ideState            - The captured state.
+ * @param localPath           - The project path on this machine.
+ * @param installedExtensions - Extensions installed here, or `null` if
+ *                              VS Code is not installed.
+ * @returns Commands to present for approval, in execution order.
+ */
+export function buildIdeCommands(
+  ideState: ProjectIdeState,
+  localPath: string,
+  installedExtensions: string[] | null,
+): PendingCommand[] {
+  const commands: PendingCommand[] = [];
+  const { extensions, settings, editors } = ideState.vscode;
+
+  if (installedExtensions) {
+    const installed = new Set(installedExtensions.map((id) => id.toLowerCase()));
+    for (const id of extensions) {
+      if (EXTENSION_ID.test(id) && !installed.has(id.toLowerCase())) {
+        commands.push({ command: `code --install-extension ${id}`, label: VSCODE_LABEL });
+      }
+    }
+  }
+
+  const changed = diffSettings(settings, readWorkspaceSettings(localPath) ?? {});
+  if (Object.keys(changed).length > 0) {
+    commands.push({
+      command: `update ${WORKSPACE_SETTINGS}`,
+      label: VSCODE_LABEL,
+      cwd: localPath,
+      settingsFile: { path: path.join(localPath, WORKSPACE_SETTINGS), settings: changed },
+    });
+  }
+
+  const [last] = editors;
+  if (installedExtensions && last && isInside(ideState.projectPath, last.file)) {
+    const file = path.join(localPath, path.relative(ideState.projectPath, last.file));
+    if (fs.existsSync(file)) {
+      commands.push({
+        command: `code -g ${shellQuote(`${file}:${String(last.line)}:${String(last.column)}`)}`,
+        label: VSCODE_LABEL,
+        cwd: localPath,
+      });
+    }
+  }
+
+  return commands;
+}
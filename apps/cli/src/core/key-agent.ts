@@ -0,0 +1,325 @@
+/**
+ * Key agent module.
+ *
+ * `ctx-sync agent start` (or `ctx-sync key unlock` for a passphrase-
+ * protected key) runs a small background process that holds the Age
+ * identity in memory, much like ssh-agent. Later commands ask it to
+ * unwrap file keys and sign roster entries over a Unix domain socket
+ * instead of reading `key.txt`, so the identity never enters their
+ * process. The agent forgets the key when its TTL (if any) runs out or
+ * `ctx-sync agent stop` / `ctx-sync key lock` stops it. The identity is
+ * never written to disk.
+ *
+ * The socket lives in the config directory (0o700) and is itself
+ * 0o600. Requests and responses are single JSON lines. Besides what
+ * the CLI uses, the agent answers `decrypt` requests for a whole
+ * armored file, for scripts that talk to the socket directly.
+ *
+ * @module core/key-agent
+ */
+
+import * as fs from 'node:fs';
+import * as net from 'node:net';
+import * as path from 'node:path';
+import { Decrypter } from 'age-encryption';
+import { decrypt, getPublicKey } from './encryption.js';
+import type { AgentKey } from './encryption.js';
+import { getSigningPublicKey, signWithSigningKey } from './roster.js';
+
+/** Socket file name (under the config dir) */
+export const AGENT_SOCKET_FILE = 'agent.sock';
+
+/** Default time `key unlock` keeps the key unlocked */
+export const DEFAULT_UNLOCK_TTL_MS = 15 * 60 * 1000;
+
+/** How long a client waits for the agent to answer */
+const REQUEST_TIMEOUT_MS = 5000;
+
+/** A request to the agent */
+interface AgentRequest {
+  op: 'status' | 'unwrap' | 'decrypt' | 'sign' | 'lock';
+  /** Base64 Age header (`unwrap`) or data (`sign`), or armored file (`decrypt`) */
+  data?: string;
+}
+
+/** The agent's answer */
+interface AgentResponse {
+  publicKey?: string;
+  signingKey?: string;
+  /** ISO timestamp, or `null` when the agent has no TTL */
+  expiresAt?: string | null;
+  /** Base64 file key, signature, or the decrypted plaintext */
+  result?: string;
+  error?: string;
+}
+
+/** Handle to a running agent */
+export interface KeyAgent {
+  /** When the agent forgets the key and exits (`null`: when stopped) */
+  expiresAt: Date | null;
+  /** Resolves once the agent has stopped */
+  done: Promise<void>;
+  /** Forget the key and stop serving */
+  stop: () => void;
+}
+
+/** What a running agent reports about itself */
+export interface AgentStatus {
+  /** Age public key of the held identity */
+  publicKey: string;
+  /** When the agent forgets the key (`null`: when stopped) */
+  expiresAt: Date | null;
+}
+
+/**
+ * Path of the agent socket for a config directory.
+ */
+export function agentSocketPath(configDir: string): string {
+  return path.join(configDir, AGENT_SOCKET_FILE);
+}
+
+// ─── Client ───────────────────────────────────────────────────────────────
+
+/**
+ * Send one request to the agent.
+ *
+ * @returns The response, or `null` if no agent is listening (a stale
+ *   socket file is removed).
+ */
+async function requestAgent(configDir: string, request: AgentRequest): Promise<AgentResponse | null> {
+  const socketPath = agentSocketPath(configDir);
+  if (!fs.existsSync(socketPath)) {
+    return null;
+  }
+
+  return new Promise((resolve) => {
+    const socket = net.createConnection(socketPath);
+    let data = '';
+    const finish = (response: AgentResponse | null): void => {
+      socket.destroy();
+      resolve(response);
+    };
+
+    socket.setTimeout(REQUEST_TIMEOUT_MS, () => finish(null));
+    socket.on('connect', () => socket.write(JSON.stringify(request) + '\n'));
+    socket.on('data', (chunk) => {
+      data += chunk.toString('utf-8');
+      const end = data.indexOf('\n');
+      if (end !== -1) {
+        try {
+          finish(JSON.parse(data.slice(0, end)) as AgentResponse);
+        } catch {
+          finish(null);
+        }
+      }
+    });
+    socket.on('error', (err: NodeJS.ErrnoException) => {
+      if (err.code === 'ECONNREFUSED') {
+        fs.rmSync(socketPath, { force: true });
+      }
+      finish(null);
+    });
+  });
+}
+
+/**
+ * Send a request that must produce a result.
+ *
+ * @throws If the agent has gone away or reports an error.
+ */
+async function requestResult(configDir: string, request: AgentRequest): Promise<string> {
+  const response = await requestAgent(configDir, request);
+  if (!response) {
+    throw new Error('The key agent stopped while this command was running. Run it again.');
+  }
+  if (response.error !== undefined || response.result === undefined) {
+    throw new Error(response.error ?? 'The key agent sent an empty response.');
+  }
+  return response.result;
+}
+
+/**
+ * Check whether an agent is holding a key.
+ *
+ * @param configDir - The config directory path.
+ * @returns The agent's status, or `null` if none is running.
+ */
+export async function getAgentStatus(configDir: string): Promise<AgentStatus | null> {
+  const response = await requestAgent(configDir, { op: 'status' });
+  if (!response?.publicKey) {
+    return null;
+  }
+  return {
+    publicKey: response.publicKey,
+    expiresAt: response.expiresAt ? new Date(response.expiresAt) : null,
+  };
+}
+
+/**
+ * Get a handle to the key held by a running agent.
+ *
+ * @param configDir - The config directory path.
+ * @returns A key that decrypts and signs through the agent, or `null`
+ *   if no agent is running.
+ */
+export async function connectAgentKey(configDir: string): Promise<AgentKey | null> {
+  const response = await requestAgent(configDir, { op: 'status' });
+  if (!response?.publicKey || !response.signingKey) {
+    return null;
+  }
+
+  return {
+    publicKey: response.publicKey,
+    signingKey: response.signingKey,
+    unwrapFileKey: async (header) => {
+      const data = Buffer.from(header).toString('base64');
+      return Buffer.from(await requestResult(configDir, { op: 'unwrap', data }), 'base64');
+    },
+    sign: async (data) => {
+      const signature = await requestResult(configDir, { op: 'sign', data: data.toString('base64') });
+      return Buffer.from(signature, 'base64');
+    },
+  };
+}
+
+/**
+ * Ask a running agent to decrypt a whole armored Age file.
+ *
+ * @param configDir - The config directory path.
+ * @param ciphertext - The ASCII-armored Age ciphertext.
+ * @returns The plaintext.
+ * @throws If no agent is running or its key cannot decrypt the file.
+ */
+export async function agentDecrypt(configDir: string, ciphertext: string): Promise<string> {
+  return requestResult(configDir, { op: 'decrypt', data: ciphertext });
+}
+
+/**
+ * Tell a running agent to forget the key and exit.
+ *
+ * @param configDir - The config directory path.
+ * @returns Whether an agent was running.
+ */
+export async function lockKeyAgent(configDir: string): Promise<boolean> {
+  return (await requestAgent(configDir, { op: 'lock' })) !== null;
+}
+
+// ─── Agent ────────────────────────────────────────────────────────────────
+
+/**
+ * Answer one request with the held identity.
+ */
+async function handleRequest(
+  identity: string,
+  request: AgentRequest,
+): Promise<AgentResponse> {
+  const data = request.data ?? '';
+  switch (request.op) {
+    case 'unwrap': {
+      const decrypter = new Decrypter();
+      decrypter.addIdentity(identity);
+      const fileKey = await decrypter.decryptHeader(Buffer.from(data, 'base64'));
+      return { result: Buffer.from(fileKey).toString('base64') };
+    }
+    case 'decrypt':
+      return { result: await decrypt(data, identity) };
+    case 'sign': {
+      const signature = await signWithSigningKey(identity, Buffer.from(data, 'base64'));
+      return { result: signature.toString('base64') };
+    }
+    default:
+      return { error: 'Unknown request.' };
+  }
+}
+
+/**
+ * Start serving an identity on the agent socket.
+ *
+ * @param configDir - The config directory path.
+ * @param identity - The Age private key.
+ * @param ttlMs - How long to keep the key; omit to keep it until stopped.
+ * @returns A handle to the running agent, once it is listening.
+ * @throws If another agent is already listening.
+ */
+export async function startKeyAgent(
+  configDir: string,
+  identity: string,
+  ttlMs?: number,
+): Promise<KeyAgent> {
+  const socketPath = agentSocketPath(configDir);
+  if (await requestAgent(configDir, { op: 'status' })) {
+    throw new Error('The key agent is already running. Stop it first with: ctx-sync agent stop');
+  }
+  fs.rmSync(socketPath, { force: true });
+
+  let key: string | null = identity;
+  const status: AgentResponse = {
+    publicKey: await getPublicKey(identity),
+    signingKey: getSigningPublicKey(identity),
+    expiresAt: ttlMs === undefined ? null : new Date(Date.now() + ttlMs).toISOString(),
+  };
+  let resolveDone: () => void = () => undefined;
+  const done = new Promise<void>((resolve) => {
+    resolveDone = resolve;
+  });
+
+  const server = net.createServer((socket) => {
+    let data = '';
+    socket.on('data', (chunk) => {
+      data += chunk.toString('utf-8');
+      const end = data.indexOf('\n');
+      if (end === -1) return;
+
+      let request: AgentRequest;
+      try {
+        request = JSON.parse(data.slice(0, end)) as AgentRequest;
+      } catch {
+        socket.end(JSON.stringify({ error: 'Malformed request.' }) + '\n');
+        return;
+      }
+
+      const held = key;
+      if (held === null) {
+        socket.destroy();
+        return;
+      }
+      if (request.op === 'lock') {
+        socket.end(JSON.stringify({}) + '\n');
+        stop();
+        return;
+      }
+      if (request.op === 'status') {
+        socket.end(JSON.stringify(status) + '\n');
+        return;
+      }
+      handleRequest(held, request).then(
+        (response) => socket.end(JSON.stringify(response) + '\n'),
+        (err: unknown) =>
+          socket.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }) + '\n'),
+      );
+    });
+    socket.on('error', () => socket.destroy());
+  });
+
+  const timer = ttlMs === undefined ? null : setTimeout(() => stop(), ttlMs);
+  timer?.unref();
+
+  function stop(): void {
+    if (key === null) return;
+    key = null;
+    if (timer) clearTimeout(timer);
+    server.close(() => resolveDone());
+    fs.rmSync(socketPath, { force: true });
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(socketPath, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  fs.chmodSync(socketPath, 0o600);
+
+  return { expiresAt: status.expiresAt ? new Date(status.expiresAt) : null, done, stop };
+}
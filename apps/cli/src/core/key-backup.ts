@@ -0,0 +1,305 @@
+/**
+ * Key backup module.
+ *
+ * Splits the Age private key into shares with Shamir's secret sharing,
+ * so it can be backed up on paper without any single copy being enough
+ * to read the data: any `threshold` of the shares rebuild the key, and
+ * fewer reveal nothing about it. Everything happens offline.
+ *
+ * Each byte of the key is split independently over GF(2^8). A share is
+ * a single line of QR-alphanumeric-safe text:
+ *
+ *   CTXS1-<key id>-<threshold>-<index>-<base32 data>-<checksum>
+ *
+ * The key id is a hash of the public key, so shares of different keys
+ * are not mixed up, and the checksum catches typos when a share is typed
+ * back in from paper. After combining, the rebuilt key is checked
+ * against the key id.
+ *
+ * @module core/key-backup
+ */
+
+import * as crypto from 'node:crypto';
+import { withSecretSync } from '../utils/secure-memory.js';
+import { getPublicKey } from './encryption.js';
+
+/** Prefix (and format version) of every share */
+export const SHARE_PREFIX = 'CTXS1';
+
+/** Most shares a key can be split into (share indices are 1–255) */
+export const MAX_SHARES = 255;
+
+/** RFC 4648 base32 alphabet (also valid in QR alphanumeric mode) */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** Characters per group when a share is printed */
+const PRINT_GROUP_SIZE = 5;
+
+/** Groups per line when a share is printed */
+const PRINT_GROUPS_PER_LINE = 8;
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** A parsed share */
+export interface KeyShare {
+  /** Hash prefix of the public key the share belongs to */
+  keyId: string;
+  /** Shares needed to rebuild the key */
+  threshold: number;
+  /** Share index (the x coordinate, 1–255) */
+  index: number;
+  /** Share bytes (one per byte of the key) */
+  data: Buffer;
+}
+
+// ─── GF(2^8) Arithmetic ───────────────────────────────────────────────────
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+// Tables for the AES field (x^8 + x^4 + x^3 + x + 1) with generator 3
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  EXP[i + 255] = x;
+  LOG[x] = i;
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+}
+
+function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[(LOG[a] ?? 0) + (LOG[b] ?? 0)] ?? 0;
+}
+
+function gfDiv(a: number, b: number): number {
+  if (a === 0) return 0;
+  return EXP[(LOG[a] ?? 0) + 255 - (LOG[b] ?? 0)] ?? 0;
+}
+
+// ─── Encoding ─────────────────────────────────────────────────────────────
+
+function base32Encode(data: Buffer): string {
+  let out = '';
+  let bits = 0;
+  let value = 0;
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET.charAt((value >>> (bits - 5)) & 31);
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    out += BASE32_ALPHABET.charAt((value << (5 - bits)) & 31);
+  }
+  return out;
+}
+
+function base32Decode(text: string): Buffer | null {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of text) {
+    const digit = BASE32_ALPHABET.indexOf(char);
+    if (digit === -1) return null;
+    value = ((value << 5) | digit) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hashPrefix(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex').slice(0, 8).toUpperCase();
+}
+
+/**
+ * Key id that shares of a key carry: the first 4 bytes of the SHA-256
+ * of its public key, in hex.
+ */
+export function computeKeyId(publicKey: string): string {
+  return hashPrefix(publicKey);
+}
+
+function encodeShare(share: KeyShare): string {
+  const body = [SHARE_PREFIX, share.keyId, share.threshold, share.index, base32Encode(share.data)].join('-');
+  return `${body}-${hashPrefix(body)}`;
+}
+
+// ─── Split / Combine ──────────────────────────────────────────────────────
+
+/**
+ * Split a private key into `shares` shares, any `threshold` of which
+ * rebuild it.
+ *
+ * @param privateKey - The Age private key (`AGE-SECRET-KEY-1...`).
+ * @param shares - Number of shares to make (threshold–255).
+ * @param threshold - Shares needed to rebuild the key (at least 2).
+ * @returns The shares, as text.
+ * @throws If the counts are out of range or the key is not an Age key.
+ */
+export async function splitKey(privateKey: string, shares: number, threshold: number): Promise<string[]> {
+  if (!Number.isInteger(threshold) || threshold < 2) {
+    throw new Error('Threshold must be a whole number of at least 2.');
+  }
+  if (!Number.isInteger(shares) || shares < threshold || shares > MAX_SHARES) {
+    throw new Error(`Number of shares must be between the threshold and ${String(MAX_SHARES)}.`);
+  }
+  if (!privateKey.startsWith('AGE-SECRET-KEY-')) {
+    throw new Error('Invalid private key format. Expected key starting with AGE-SECRET-KEY-.');
+  }
+
+  const keyId = computeKeyId(await getPublicKey(privateKey));
+
+  return withSecretSync(Buffer.from(privateKey, 'utf-8'), (secret) => {
+    const points = Array.from({ length: shares }, () => Buffer.alloc(secret.length));
+    const coefficients = Buffer.alloc(threshold - 1);
+
+    for (let b = 0; b < secret.length; b++) {
+      crypto.randomFillSync(coefficients);
+      points.forEach((point, i) => {
+        // Horner's rule: f(x) = secret + c1·x + … + c(k-1)·x^(k-1)
+        const x = i + 1;
+        let y = 0;
+        for (let c = coefficients.length - 1; c >= 0; c--) {
+          y = gfMul(y ^ (coefficients[c] ?? 0), x);
+        }
+        point[b] = y ^ (secret[b] ?? 0);
+      });
+    }
+    coefficients.fill(0);
+
+    return points.map((data, i) => encodeShare({ keyId, threshold, index: i + 1, data }));
+  });
+}
+
+/**
+ * Parse one share, checking its checksum. Whitespace (from printing)
+ * is ignored, and so is case.
+ *
+ * @param text - The share text.
+ * @param position - Position of the share, for error messages.
+ * @throws If the share is malformed or its checksum does not match.
+ */
+export function parseShare(text: string, position = 1): KeyShare {
+  const compact = text.replace(/\s+/g, '').toUpperCase();
+  const match = /^CTXS1-([0-9A-F]{8})-(\d{1,3})-(\d{1,3})-([A-Z2-7]+)-([0-9A-F]{8})$/.exec(compact);
+  if (!match) {
+    throw new Error(`Share ${String(position)} is not a ctx-sync key share.`);
+  }
+
+  const [, keyId = '', threshold = '', index = '', data = '', checksum = ''] = match;
+  if (hashPrefix(compact.slice(0, -checksum.length - 1)) !== checksum) {
+    throw new Error(`Share ${String(position)} has a bad checksum. Check it for typos.`);
+  }
+
+  const decoded = base32Decode(data);
+  const share = { keyId, threshold: Number(threshold), index: Number(index), data: decoded ?? Buffer.alloc(0) };
+  if (!decoded || share.threshold < 2 || share.index < 1 || share.index > MAX_SHARES) {
+    throw new Error(`Share ${String(position)} is not a ctx-sync key share.`);
+  }
+  return share;
+}
+
+/**
+ * Split text holding one or more shares (pasted, piped in or read from
+ * share files) into the individual shares. Lines with characters a
+ * share never has, such as headings and QR codes, are skipped.
+ */
+export function splitShareText(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => /^[0-9A-Za-z -]+$/.test(line.trim()))
+    .join('')
+    .replace(/\s+/g, '')
+    .toUpperCase()
+    .split(new RegExp(`(?=${SHARE_PREFIX}-)`))
+    .filter((share) => share.length > 0);
+}
+
+/**
+ * Rebuild a private key from its shares.
+ *
+ * Repeated shares are ignored. Any `threshold` distinct shares of the
+ * same key are enough; extra shares are not needed.
+ *
+ * @param shareTexts - The shares, as text.
+ * @returns The private key.
+ * @throws If a share is malformed, the shares belong to different keys,
+ *   there are too few of them, or the rebuilt key does not match.
+ */
+export async function combineShares(shareTexts: string[]): Promise<string> {
+  const parsed = shareTexts.map((text, i) => parseShare(text, i + 1));
+  const first = parsed[0];
+  if (!first) {
+    throw new Error('No key shares given.');
+  }
+
+  const byIndex = new Map<number, KeyShare>();
+  for (const share of parsed) {
+    if (share.keyId !== first.keyId) {
+      throw new Error('These shares belong to different keys.');
+    }
+    if (share.threshold !== first.threshold || share.data.length !== first.data.length) {
+      throw new Error('These shares come from different backups of the key.');
+    }
+    const seen = byIndex.get(share.index);
+    if (seen && !seen.data.equals(share.data)) {
+      throw new Error(`Two different shares have number ${String(share.index)}.`);
+    }
+    byIndex.set(share.index, share);
+  }
+
+  const shares = [...byIndex.values()].slice(0, first.threshold);
+  if (shares.length < first.threshold) {
+    throw new Error(
+      `Need at least ${String(first.threshold)} different shares to rebuild the key (got ${String(byIndex.size)}).`,
+    );
+  }
+
+  // Lagrange interpolation at x = 0
+  const secret = Buffer.alloc(first.data.length);
+  shares.forEach((share, i) => {
+    let basis = 1;
+    shares.forEach((other, j) => {
+      if (i !== j) {
+        basis = gfMul(basis, gfDiv(other.index, other.index ^ share.index));
+      }
+    });
+    for (let b = 0; b < secret.length; b++) {
+      secret[b] = (secret[b] ?? 0) ^ gfMul(share.data[b] ?? 0, basis);
+    }
+  });
+
+  const privateKey = withSecretSync(secret, (buf) => buf.toString('utf-8'));
+  let matches = false;
+  if (privateKey.startsWith('AGE-SECRET-KEY-')) {
+    try {
+      matches = computeKeyId(await getPublicKey(privateKey)) === first.keyId;
+    } catch {
+      // Not a valid key
+    }
+  }
+  if (!matches) {
+    throw new Error('The shares did not rebuild a valid key. One of them may be mistyped or from another backup.');
+  }
+  return privateKey;
+}
+
+// ─── Printing ─────────────────────────────────────────────────────────────
+
+/**
+ * Lay a share out for printing: groups of five characters, several
+ * groups per line. `parseShare` accepts it back as is.
+ */
+export function formatShare(share: string): string {
+  const groups = share.match(new RegExp(`.{1,${String(PRINT_GROUP_SIZE)}}`, 'g')) ?? [];
+  const lines: string[] = [];
+  for (let i = 0; i < groups.length; i += PRINT_GROUPS_PER_LINE) {
+    lines.push(groups.slice(i, i + PRINT_GROUPS_PER_LINE).join(' '));
+  }
+  return lines.join('\n');
+}
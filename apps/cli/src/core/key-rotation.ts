@@ -0,0 +1,149 @@
+/**
+ * Key rotation records.
+ *
+ * After `key rotate`, every state file is encrypted for the new key, so
+ * the key's other machines can no longer read anything until they run
+ * `key update`. To tell them why, rotation appends a record to
+ * `key-rotations.jsonl` in the sync repo: the old and new public keys,
+ * the machine it ran on and when.
+ *
+ * Each record is signed with the old key's roster signing key (see
+ * `core/roster`). A machine only trusts a record about its own key, so
+ * it can always check the signature itself, and nobody else can make
+ * it believe its key was rotated. The file holds public keys only and
+ * is committed as plaintext.
+ *
+ * @module core/key-rotation
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { STATE_FILES } from '@ctx-sync/shared';
+import type { KeyRotationRecord } from '@ctx-sync/shared';
+import { getPublicKey } from './encryption.js';
+import type { PrivateKey } from './encryption.js';
+import { getSigningPublicKey, signWithSigningKey, verifySignature } from './roster.js';
+
+/**
+ * Serialise the signed part of a record with a fixed key order.
+ */
+function signedPayload(record: Omit<KeyRotationRecord, 'signature'>): Buffer {
+  return Buffer.from(
+    JSON.stringify({
+      oldPublicKey: record.oldPublicKey,
+      newPublicKey: record.newPublicKey,
+      machine: record.machine,
+      at: record.at,
+    }),
+  );
+}
+
+/**
+ * Parse the well-formed records of a log, in file order (malformed
+ * lines are skipped).
+ */
+function parseRecords(text: string): KeyRotationRecord[] {
+  const records: KeyRotationRecord[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as KeyRotationRecord;
+      const fields = [record.oldPublicKey, record.newPublicKey, record.machine, record.at, record.signature];
+      if (fields.every((field) => typeof field === 'string')) {
+        records.push(record);
+      }
+    } catch {
+      // Not JSON — ignore
+    }
+  }
+  return records;
+}
+
+/**
+ * Read the well-formed records, oldest first (malformed lines are
+ * skipped).
+ */
+function readRecords(syncDir: string): KeyRotationRecord[] {
+  const filePath = path.join(syncDir, STATE_FILES.KEY_ROTATIONS);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  return parseRecords(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Merge two versions of the log that both had records appended.
+ *
+ * Every record from either side is kept once (records are told apart
+ * by their signature), oldest first. Malformed lines are dropped.
+ *
+ * @param local - The local log text.
+ * @param remote - The remote log text.
+ * @returns The merged log text.
+ */
+export function mergeKeyRotations(local: string, remote: string): string {
+  const bySignature = new Map<string, KeyRotationRecord>();
+  for (const record of [...parseRecords(local), ...parseRecords(remote)]) {
+    if (!bySignature.has(record.signature)) {
+      bySignature.set(record.signature, record);
+    }
+  }
+  const records = [...bySignature.values()].sort((a, b) => a.at.localeCompare(b.at));
+  return records.map((record) => JSON.stringify(record) + '\n').join('');
+}
+
+/**
+ * Append a record that `oldPrivateKey` was rotated to `newPublicKey`.
+ *
+ * @param syncDir - The sync directory path.
+ * @param oldPrivateKey - The key being rotated away from (signs the record).
+ * @param newPublicKey - The public key that replaces it.
+ * @returns The appended record.
+ */
+export async function recordKeyRotation(
+  syncDir: string,
+  oldPrivateKey: PrivateKey,
+  newPublicKey: string,
+): Promise<KeyRotationRecord> {
+  const unsigned: Omit<KeyRotationRecord, 'signature'> = {
+    oldPublicKey: await getPublicKey(oldPrivateKey),
+    newPublicKey,
+    machine: os.hostname(),
+    at: new Date().toISOString(),
+  };
+  const record: KeyRotationRecord = {
+    ...unsigned,
+    signature: (await signWithSigningKey(oldPrivateKey, signedPayload(unsigned))).toString('base64'),
+  };
+
+  fs.mkdirSync(syncDir, { recursive: true });
+  fs.appendFileSync(path.join(syncDir, STATE_FILES.KEY_ROTATIONS), JSON.stringify(record) + '\n', 'utf-8');
+  return record;
+}
+
+/**
+ * Find out whether the given key was rotated on another machine.
+ *
+ * @param syncDir - The sync directory path.
+ * @param privateKey - This machine's key.
+ * @returns The latest record that rotated this key away, with a valid
+ *   signature by it, or `null` if the key is current.
+ */
+export async function findKeyRotation(
+  syncDir: string,
+  privateKey: PrivateKey,
+): Promise<KeyRotationRecord | null> {
+  const records = readRecords(syncDir);
+  if (records.length === 0) {
+    return null;
+  }
+
+  const publicKey = await getPublicKey(privateKey);
+  const signingKey = getSigningPublicKey(privateKey);
+  const matches = records.filter(
+    ({ signature, ...unsigned }) =>
+      unsigned.oldPublicKey === publicKey && verifySignature(signedPayload(unsigned), signature, signingKey),
+  );
+  return matches[matches.length - 1] ?? null;
+}
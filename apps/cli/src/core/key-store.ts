@@ -6,11 +6,20 @@
  * is stored at 0o600 (owner read/write only) and the config
  * directory at 0o700 (owner read/write/execute only).
  *
+ * The key file may instead hold the identity wrapped with an scrypt
+ * passphrase, in the same armored format as `age -p`. Commands get the
+ * key through `resolvePrivateKey()`, which prefers the key agent (see
+ * `core/key-agent`) over reading the file, and prompts for the
+ * passphrase only as a last resort.
+ *
  * @module core/key-store
  */
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { Encrypter, Decrypter, armor } from 'age-encryption';
+import { connectAgentKey } from './key-agent.js';
+import type { PrivateKey } from './encryption.js';
 
 /** Required permissions for the private key file */
 export const KEY_FILE_PERMS = 0o600;
@@ -21,6 +30,12 @@ export const CONFIG_DIR_PERMS = 0o700;
 /** Default key file name */
 export const KEY_FILE_NAME = 'key.txt';
 
+/** scrypt work factor (log2 N) for wrapping the key, as `age -p` uses */
+export const KEY_WRAP_WORK_FACTOR = 18;
+
+/** First line of an armored (wrapped) key file */
+const ARMOR_HEADER = '-----BEGIN AGE ENCRYPTED FILE-----';
+
 /**
  * Save a private key to disk with strict permissions.
  *
@@ -47,16 +62,11 @@ export function saveKey(configDir: string, privateKey: string): void {
 }
 
 /**
- * Load a private key from disk, verifying permissions are secure.
+ * Read the key file, verifying it exists and its permissions are secure.
  *
- * Checks that the key file exists and has exactly 0o600 permissions
- * before reading. Throws with a helpful error if permissions are insecure.
- *
- * @param configDir - The config directory path (e.g. ~/.config/ctx-sync).
- * @returns The Age private key string.
- * @throws If the key file does not exist or has insecure permissions.
+ * @returns The trimmed file contents.
  */
-export function loadKey(configDir: string): string {
+function readKeyFile(configDir: string): string {
   const keyPath = path.join(configDir, KEY_FILE_NAME);
 
   // Check file exists
@@ -81,9 +91,15 @@ export function loadKey(configDir: string): string {
     }
   }
 
-  const key = fs.readFileSync(keyPath, 'utf-8').trim();
+  return fs.readFileSync(keyPath, 'utf-8').trim();
+}
 
-  // Validate key format
+/**
+ * Check that a string is an Age private key.
+ *
+ * @throws If it does not start with AGE-SECRET-KEY-.
+ */
+function assertKeyFormat(key: string, keyPath: string): void {
   if (!key.startsWith('AGE-SECRET-KEY-')) {
     throw new Error(
       `Invalid key format in ${keyPath}.\n` +
@@ -91,10 +107,156 @@ export function loadKey(configDir: string): string {
         'Re-initialize with: ctx-sync init --restore',
     );
   }
+}
+
+/**
+ * Load a private key from disk, verifying permissions are secure.
+ *
+ * Checks that the key file exists and has exactly 0o600 permissions
+ * before reading. Throws with a helpful error if permissions are insecure.
+ *
+ * @param configDir - The config directory path (e.g. ~/.config/ctx-sync).
+ * @returns The Age private key string.
+ * @throws If the key file does not exist or has insecure permissions.
+ * @throws If the key is passphrase-protected (use `resolvePrivateKey()`).
+ */
+export function loadKey(configDir: string): string {
+  const keyPath = path.join(configDir, KEY_FILE_NAME);
+  const key = readKeyFile(configDir);
+
+  if (key.startsWith(ARMOR_HEADER)) {
+    throw new Error(
+      `Key file ${keyPath} is passphrase-protected.\n` +
+        'Unlock it with: ctx-sync key unlock',
+    );
+  }
+
+  // Validate key format
+  assertKeyFormat(key, keyPath);
 
   return key;
 }
 
+/**
+ * Check whether the key file holds a passphrase-wrapped identity.
+ *
+ * @param configDir - The config directory path.
+ * @returns `false` if the key file is missing or holds a plain key.
+ */
+export function isKeyWrapped(configDir: string): boolean {
+  const keyPath = path.join(configDir, KEY_FILE_NAME);
+  if (!fs.existsSync(keyPath)) {
+    return false;
+  }
+  return fs.readFileSync(keyPath, 'utf-8').trimStart().startsWith(ARMOR_HEADER);
+}
+
+/**
+ * Wrap a private key with a passphrase and save it in place of the
+ * plain key, with the same strict permissions as `saveKey()`.
+ *
+ * @param configDir - The config directory path.
+ * @param privateKey - The Age private key to wrap.
+ * @param passphrase - The passphrase (never stored).
+ * @param workFactor - scrypt work factor (log2 N).
+ */
+export async function saveWrappedKey(
+  configDir: string,
+  privateKey: string,
+  passphrase: string,
+  workFactor: number = KEY_WRAP_WORK_FACTOR,
+): Promise<void> {
+  if (!passphrase) {
+    throw new Error('Passphrase must not be empty.');
+  }
+
+  const encrypter = new Encrypter();
+  encrypter.setPassphrase(passphrase);
+  encrypter.setScryptWorkFactor(workFactor);
+  const wrapped = armor.encode(await encrypter.encrypt(privateKey + '\n'));
+
+  saveKey(configDir, wrapped);
+}
+
+/**
+ * Unwrap a passphrase-protected key file.
+ *
+ * @param configDir - The config directory path.
+ * @param passphrase - The passphrase.
+ * @returns The Age private key.
+ * @throws If the key is not wrapped or the passphrase is wrong.
+ */
+export async function unwrapKey(configDir: string, passphrase: string): Promise<string> {
+  const keyPath = path.join(configDir, KEY_FILE_NAME);
+  const wrapped = readKeyFile(configDir);
+  if (!wrapped.startsWith(ARMOR_HEADER)) {
+    throw new Error(`Key file ${keyPath} is not passphrase-protected.`);
+  }
+
+  const decrypter = new Decrypter();
+  decrypter.addPassphrase(passphrase);
+  let key: string;
+  try {
+    key = (await decrypter.decrypt(armor.decode(wrapped), 'text')).trim();
+  } catch {
+    throw new Error('Incorrect passphrase.');
+  }
+
+  assertKeyFormat(key, keyPath);
+  return key;
+}
+
+/**
+ * Prompt for the key passphrase on the terminal.
+ */
+async function promptPassphrase(): Promise<string> {
+  const { default: Enquirer } = await import('enquirer');
+  const enquirer = new Enquirer<{ passphrase: string }>();
+  const response = await enquirer.prompt({
+    type: 'password',
+    name: 'passphrase',
+    message: 'Passphrase for your ctx-sync key:',
+  });
+  return response.passphrase;
+}
+
+/**
+ * Get the private key for a command.
+ *
+ * If the key agent is running, a handle to its key is returned and the
+ * key file is not read at all. Otherwise a plain key is loaded from
+ * disk, and a wrapped one is unwrapped after prompting for the
+ * passphrase (only on a terminal).
+ *
+ * @param configDir - The config directory path.
+ * @param options - `promptFn` overrides the passphrase prompt.
+ * @returns The agent's key, or the Age private key string.
+ * @throws If the key is wrapped, locked and there is no terminal to
+ *   prompt on, or for any error `loadKey()` throws.
+ */
+export async function resolvePrivateKey(
+  configDir: string,
+  options: { promptFn?: () => Promise<string> } = {},
+): Promise<PrivateKey> {
+  const fromAgent = await connectAgentKey(configDir);
+  if (fromAgent) {
+    return fromAgent;
+  }
+
+  if (!isKeyWrapped(configDir)) {
+    return loadKey(configDir);
+  }
+
+  if (!options.promptFn && !process.stdin.isTTY) {
+    throw new Error(
+      'Your key is passphrase-protected and locked.\n' +
+        'Unlock it for a while with: ctx-sync key unlock',
+    );
+  }
+
+  return unwrapKey(configDir, await (options.promptFn ?? promptPassphrase)());
+}
+
 /**
  * Verify that key file and config directory have correct permissions.
  *
@@ -0,0 +1,340 @@
+/**
+ * Per-machine state module.
+ *
+ * `state.age` holds one snapshot per machine, keyed by a machine ID
+ * derived from the hostname. Each machine only rewrites its own
+ * snapshot, so tracking the same project from a laptop and a desktop
+ * never clobbers the other machine's branch, stash count or
+ * `lastAccessed`. Readers merge the snapshots per project.
+ *
+ * State written by older CLIs (a single `machine` and a flat `projects`
+ * array) is read as a one-machine snapshot.
+ *
+ * A scoped project (see `core/state-manager`) also keeps a copy of its
+ * own record in `projects/<name>/state.age`, so a member who can only
+ * decrypt that project still finds it.
+ *
+ * @module core/machine-state
+ */
+
+import * as os from 'node:os';
+import * as crypto from 'node:crypto';
+import type {
+  Project,
+  MachineInfo,
+  MachineSnapshot,
+  StateFile,
+  LegacyStateFile,
+} from '@ctx-sync/shared';
+import {
+  isProjectScoped,
+  listScopedProjects,
+  projectStateFile,
+  readState,
+  readStateFile,
+  writeStateFile,
+} from './state-manager.js';
+import type { ReadStateOptions } from './state-manager.js';
+import type { PrivateKey } from './encryption.js';
+import { DecryptionError } from '../utils/errors.js';
+
+/** How a single machine last saw a project */
+export interface MachineProjectView {
+  machine: MachineInfo;
+  path: string;
+  git: Project['git'];
+  lastAccessed: string;
+}
+
+/**
+ * A project merged across all machine snapshots.
+ *
+ * The top-level `Project` fields come from the machine that touched the
+ * project most recently.
+ */
+export interface MergedProject extends Project {
+  /** The machine that touched this project most recently */
+  lastMachine: MachineInfo;
+  /** Every machine's view of the project (most recent first) */
+  machines: MachineProjectView[];
+}
+
+/**
+ * Derive the machine info for the current host.
+ *
+ * Uses hostname as a simple machine identifier. The ID is the key under
+ * which this machine's snapshot is stored in `state.age`.
+ */
+export function getMachineInfo(): MachineInfo {
+  const hostname = os.hostname();
+  return {
+    id: crypto.createHash('sha256').update(hostname).digest('hex').slice(0, 16),
+    hostname,
+  };
+}
+
+/**
+ * Check whether decrypted state uses the legacy single-machine layout.
+ */
+export function isLegacyStateFile(data: unknown): data is LegacyStateFile {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    !('machines' in data) &&
+    'projects' in data
+  );
+}
+
+/**
+ * Normalise decrypted state into the per-machine layout.
+ *
+ * Legacy state becomes a single snapshot for its recorded machine.
+ * A `null` input (no state file yet) becomes an empty state.
+ *
+ * @param data - The decrypted state, in either layout.
+ * @returns State in the per-machine layout.
+ */
+export function normalizeStateFile(data: StateFile | LegacyStateFile | null): StateFile {
+  if (!data) {
+    return { machines: {} };
+  }
+
+  if (!isLegacyStateFile(data)) {
+    return { machines: data.machines ?? {} };
+  }
+
+  const projects = data.projects ?? [];
+  const updatedAt = projects.reduce(
+    (latest, p) => (p.lastAccessed > latest ? p.lastAccessed : latest),
+    new Date(0).toISOString(),
+  );
+
+  return {
+    machines: {
+      [data.machine.id]: {
+        machine: data.machine,
+        projects,
+        updatedAt,
+      },
+    },
+  };
+}
+
+/**
+ * Get (or create) the snapshot for a machine.
+ *
+ * The machine info on an existing snapshot is refreshed so a renamed
+ * host shows its current hostname.
+ *
+ * @param state - The per-machine state (mutated when a snapshot is added).
+ * @param machine - The machine whose snapshot to return.
+ * @returns The machine's snapshot.
+ */
+export function getMachineSnapshot(state: StateFile, machine: MachineInfo): MachineSnapshot {
+  const existing = state.machines[machine.id];
+  if (existing) {
+    existing.machine = machine;
+    return existing;
+  }
+
+  const snapshot: MachineSnapshot = {
+    machine,
+    projects: [],
+    updatedAt: new Date().toISOString(),
+  };
+  state.machines[machine.id] = snapshot;
+  return snapshot;
+}
+
+/**
+ * Merge all machine snapshots into one entry per project.
+ *
+ * Projects are matched by name (the same key every other state file
+ * uses). The most recently accessed view provides the top-level fields.
+ *
+ * @param state - The per-machine state.
+ * @returns Merged projects, in first-seen order.
+ */
+export function mergeProjects(state: StateFile): MergedProject[] {
+  const views = new Map<string, Array<{ project: Project; view: MachineProjectView }>>();
+
+  for (const snapshot of Object.values(state.machines)) {
+    for (const project of snapshot.projects) {
+      const entries = views.get(project.name) ?? [];
+      entries.push({
+        project,
+        view: {
+          machine: snapshot.machine,
+          path: project.path,
+          git: project.git,
+          lastAccessed: project.lastAccessed,
+        },
+      });
+      views.set(project.name, entries);
+    }
+  }
+
+  const merged: MergedProject[] = [];
+  for (const entries of views.values()) {
+    const sorted = [...entries].sort((a, b) =>
+      b.view.lastAccessed.localeCompare(a.view.lastAccessed),
+    );
+    const latest = sorted[0];
+    if (!latest) continue;
+
+    merged.push({
+      ...latest.project,
+      lastMachine: latest.view.machine,
+      machines: sorted.map((e) => e.view),
+    });
+  }
+
+  return merged;
+}
+
+/**
+ * Read `state.age` and return the merged project list.
+ *
+ * A key that is not a recipient of `state.age` (a member scoped to
+ * some projects) gets the projects whose own records it can decrypt.
+ *
+ * @param syncDir - The sync directory path.
+ * @param privateKey - The Age private key for decryption.
+ * @param options - Repair options passed through to `readState()`.
+ * @returns Merged projects, or `null` if no state file exists.
+ * @throws DecryptionError if neither `state.age` nor any project record
+ *   can be decrypted.
+ */
+export async function readMergedProjects(
+  syncDir: string,
+  privateKey: PrivateKey,
+  options: ReadStateOptions = {},
+): Promise<MergedProject[] | null> {
+  let raw: StateFile | LegacyStateFile | null;
+  try {
+    raw = await readState<StateFile | LegacyStateFile>(syncDir, privateKey, 'state', options);
+  } catch (err) {
+    if (!(err instanceof DecryptionError && err.reason === 'not-a-recipient')) {
+      throw err;
+    }
+    const records = await readProjectRecords(syncDir, privateKey, options);
+    if (!records) {
+      throw err;
+    }
+    return mergeProjects(records);
+  }
+  if (!raw) {
+    return null;
+  }
+  return mergeProjects(normalizeStateFile(raw));
+}
+
+/**
+ * The part of `state` that records one project: each machine's entry
+ * for it, without the machine's other projects.
+ *
+ * @param state - The per-machine state.
+ * @param project - The project name.
+ */
+export function projectRecord(state: StateFile, project: string): StateFile {
+  const machines: StateFile['machines'] = {};
+  for (const [id, snapshot] of Object.entries(state.machines)) {
+    const projects = snapshot.projects.filter((p) => p.name === project);
+    if (projects.length > 0) {
+      machines[id] = { ...snapshot, projects };
+    }
+  }
+  return { machines };
+}
+
+/**
+ * Copy a scoped project's record from `state` into its own blob.
+ *
+ * @param syncDir - The sync directory path.
+ * @param state - The per-machine state holding the project.
+ * @param recipients - Recipients of the project's blobs.
+ * @param project - The project name.
+ * @returns The blob (relative to the sync dir), or `null` if the
+ *   project is not scoped.
+ */
+export async function writeProjectRecord(
+  syncDir: string,
+  state: StateFile,
+  recipients: string[],
+  project: string,
+): Promise<string | null> {
+  if (!isProjectScoped(syncDir, project)) {
+    return null;
+  }
+  const relPath = projectStateFile(syncDir, 'state', project);
+  await writeStateFile(syncDir, relPath, projectRecord(state, project), recipients, 'state');
+  return relPath;
+}
+
+/**
+ * Combine the records of every scoped project this key can decrypt.
+ *
+ * @returns The combined state, or `null` if no record is readable.
+ */
+async function readProjectRecords(
+  syncDir: string,
+  privateKey: PrivateKey,
+  options: ReadStateOptions,
+): Promise<StateFile | null> {
+  let combined: StateFile | null = null;
+
+  for (const project of listScopedProjects(syncDir)) {
+    let record: StateFile | LegacyStateFile | null;
+    try {
+      record = await readStateFile<StateFile | LegacyStateFile>(
+        syncDir,
+        projectStateFile(syncDir, 'state', project),
+        privateKey,
+        'state',
+        options,
+      );
+    } catch (err) {
+      if (err instanceof DecryptionError && err.reason === 'not-a-recipient') continue;
+      throw err;
+    }
+    if (!record) continue;
+
+    combined ??= { machines: {} };
+    for (const [id, snapshot] of Object.entries(normalizeStateFile(record).machines)) {
+      const existing = combined.machines[id];
+      combined.machines[id] = existing
+        ? { ...snapshot, projects: [...existing.projects, ...snapshot.projects] }
+        : snapshot;
+    }
+  }
+
+  return combined;
+}
+
+/**
+ * Find a merged project by name or ID.
+ *
+ * @param projects - The merged project list.
+ * @param nameOrId - A project name or ID.
+ * @returns The matching project, or `undefined`.
+ */
+export function findProject(
+  projects: MergedProject[],
+  nameOrId: string,
+): MergedProject | undefined {
+  return projects.find((p) => p.name === nameOrId || p.id === nameOrId);
+}
+
+/**
+ * Get this machine's view of a project, if it has one.
+ *
+ * @param project - The merged project.
+ * @param machine - The machine to look up (default: current host).
+ * @returns The machine's view, or `undefined` if it never tracked the project.
+ */
+export function getLocalView(
+  project: MergedProject,
+  machine: MachineInfo = getMachineInfo(),
+): MachineProjectView | undefined {
+  return project.machines.find((m) => m.machine.id === machine.id);
+}
@@ -0,0 +1,495 @@
+/**
+ * QR code module.
+ *
+ * A small, dependency-free QR code encoder (ISO/IEC 18004, model 2) so
+ * key backup shares can be printed as QR codes without going online or
+ * pulling in another package. It supports what the shares need: one
+ * alphanumeric or byte-mode segment at error correction level M, in the
+ * smallest version (1–40) that fits, with the mask chosen by the
+ * standard penalty rules.
+ *
+ * @module core/qr-code
+ */
+
+/** Characters allowed in alphanumeric mode, in code order */
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+/** Error correction codewords per block at level M, indexed by version */
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28,
+  28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+
+/** Error correction blocks at level M, indexed by version */
+const NUM_ECC_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25,
+  26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+
+/** Format-information bits for level M */
+const ECC_LEVEL_M_BITS = 0;
+
+/** Modules of light border around the symbol */
+const QUIET_ZONE = 4;
+
+/** An encoded QR symbol */
+export interface QrCode {
+  /** Version (1–40); the symbol is `17 + 4 * version` modules wide */
+  version: number;
+  /** Mask pattern applied (0–7) */
+  mask: number;
+  /** `modules[y][x]` is true for a dark module */
+  modules: boolean[][];
+}
+
+// ─── Reed-Solomon ─────────────────────────────────────────────────────────
+
+/**
+ * Multiply two elements of GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1.
+ */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+/**
+ * Generator polynomial coefficients for `degree` error correction
+ * codewords (highest power first, leading 1 omitted).
+ */
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j] ?? 0, root);
+      if (j + 1 < result.length) {
+        result[j] = (result[j] ?? 0) ^ (result[j + 1] ?? 0);
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+/**
+ * Error correction codewords for a block of data.
+ */
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() ?? 0);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] = (result[i] ?? 0) ^ gfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+// ─── Capacity ─────────────────────────────────────────────────────────────
+
+/**
+ * Number of modules available for data and error correction in a version.
+ */
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+/**
+ * Number of data codewords (excluding error correction) in a version.
+ */
+function dataCodewords(version: number): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    (ECC_CODEWORDS_PER_BLOCK[version] ?? 0) * (NUM_ECC_BLOCKS[version] ?? 0)
+  );
+}
+
+// ─── Data Encoding ────────────────────────────────────────────────────────
+
+/**
+ * Append `length` low bits of `value` to a bit buffer.
+ */
+function appendBits(bits: number[], value: number, length: number): void {
+  for (let i = length - 1; i >= 0; i--) {
+    bits.push((value >>> i) & 1);
+  }
+}
+
+/**
+ * Encode text as one segment (mode, count and data bits) for a version.
+ */
+function encodeSegment(text: string, version: number): number[] {
+  const bits: number[] = [];
+  const alphanumeric = [...text].every((c) => ALPHANUMERIC_CHARSET.includes(c));
+
+  if (alphanumeric) {
+    appendBits(bits, 0b0010, 4);
+    appendBits(bits, text.length, version < 10 ? 9 : version < 27 ? 11 : 13);
+    for (let i = 0; i + 1 < text.length; i += 2) {
+      const pair = ALPHANUMERIC_CHARSET.indexOf(text.charAt(i)) * 45 + ALPHANUMERIC_CHARSET.indexOf(text.charAt(i + 1));
+      appendBits(bits, pair, 11);
+    }
+    if (text.length % 2 === 1) {
+      appendBits(bits, ALPHANUMERIC_CHARSET.indexOf(text.charAt(text.length - 1)), 6);
+    }
+  } else {
+    const bytes = Buffer.from(text, 'utf-8');
+    appendBits(bits, 0b0100, 4);
+    appendBits(bits, bytes.length, version < 10 ? 8 : 16);
+    for (const b of bytes) {
+      appendBits(bits, b, 8);
+    }
+  }
+  return bits;
+}
+
+/**
+ * Split data into blocks, add error correction and interleave them.
+ */
+function addErrorCorrection(data: number[], version: number): number[] {
+  const numBlocks = NUM_ECC_BLOCKS[version] ?? 1;
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[version] ?? 0;
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < (blocks[0]?.length ?? 0); i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i] ?? 0);
+      }
+    });
+  }
+  return result;
+}
+
+// ─── Symbol Layout ────────────────────────────────────────────────────────
+
+/** A symbol being drawn, with the function-pattern modules marked */
+interface Canvas {
+  size: number;
+  modules: boolean[][];
+  isFunction: boolean[][];
+}
+
+function setFunctionModule(canvas: Canvas, x: number, y: number, dark: boolean): void {
+  const row = canvas.modules[y];
+  const fnRow = canvas.isFunction[y];
+  if (row && fnRow) {
+    row[x] = dark;
+    fnRow[x] = true;
+  }
+}
+
+/**
+ * Centre positions of the alignment patterns for a version.
+ */
+function alignmentPositions(version: number, size: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+/**
+ * Draw the format information (level M and the mask) in both copies.
+ */
+function drawFormatBits(canvas: Canvas, mask: number): void {
+  const data = (ECC_LEVEL_M_BITS << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) {
+    rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | rem) ^ 0x5412;
+  const bit = (i: number): boolean => ((bits >>> i) & 1) !== 0;
+  const { size } = canvas;
+
+  for (let i = 0; i <= 5; i++) setFunctionModule(canvas, 8, i, bit(i));
+  setFunctionModule(canvas, 8, 7, bit(6));
+  setFunctionModule(canvas, 8, 8, bit(7));
+  setFunctionModule(canvas, 7, 8, bit(8));
+  for (let i = 9; i < 15; i++) setFunctionModule(canvas, 14 - i, 8, bit(i));
+
+  for (let i = 0; i < 8; i++) setFunctionModule(canvas, size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) setFunctionModule(canvas, 8, size - 15 + i, bit(i));
+  setFunctionModule(canvas, 8, size - 8, true);
+}
+
+/**
+ * Draw finder, timing and alignment patterns, plus version information
+ * for versions 7 and up. Format bits are reserved with a dummy mask.
+ */
+function drawFunctionPatterns(canvas: Canvas, version: number): void {
+  const { size } = canvas;
+
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(canvas, 6, i, i % 2 === 0);
+    setFunctionModule(canvas, i, 6, i % 2 === 0);
+  }
+
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]] as const) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          setFunctionModule(canvas, x, y, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  }
+
+  const positions = alignmentPositions(version, size);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => {
+    positions.forEach((cy, j) => {
+      // Skip the three corners taken by finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunctionModule(canvas, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  drawFormatBits(canvas, 0);
+
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) {
+      rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    }
+    const bits = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunctionModule(canvas, a, b, dark);
+      setFunctionModule(canvas, b, a, dark);
+    }
+  }
+}
+
+/**
+ * Place the codewords in the zigzag order, skipping function patterns.
+ */
+function drawCodewords(canvas: Canvas, codewords: number[]): void {
+  const { size } = canvas;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        const row = canvas.modules[y];
+        if (row && !canvas.isFunction[y]?.[x] && i < codewords.length * 8) {
+          row[x] = (((codewords[i >>> 3] ?? 0) >>> (7 - (i & 7))) & 1) !== 0;
+          i++;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Whether mask pattern `mask` inverts the module at (x, y).
+ */
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+/**
+ * XOR a mask over the data modules (applying it twice undoes it).
+ */
+function applyMask(canvas: Canvas, mask: number): void {
+  canvas.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (!canvas.isFunction[y]?.[x] && maskApplies(mask, x, y)) {
+        row[x] = !dark;
+      }
+    });
+  });
+}
+
+/**
+ * Penalty score of a finished symbol (lower scans more reliably).
+ */
+function penaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  const at = (x: number, y: number): boolean => modules[y]?.[x] ?? false;
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i] ?? []);
+    lines.push(modules.map((row) => row[i] ?? false));
+  }
+
+  let result = 0;
+
+  // Runs of five or more modules of one colour
+  for (const line of lines) {
+    let run = 1;
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) result += run - 2;
+        run = 1;
+      }
+    }
+  }
+
+  // 2x2 blocks of one colour
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = at(x, y);
+      if (c === at(x + 1, y) && c === at(x, y + 1) && c === at(x + 1, y + 1)) result += 3;
+    }
+  }
+
+  // Patterns that look like finder patterns
+  for (const line of lines) {
+    const text = line.map((dark) => (dark ? '1' : '0')).join('');
+    for (const pattern of ['10111010000', '00001011101']) {
+      for (let i = text.indexOf(pattern); i !== -1; i = text.indexOf(pattern, i + 1)) {
+        result += 40;
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+  return result;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────
+
+/**
+ * Encode text as a QR code at error correction level M.
+ *
+ * Text made only of digits, upper-case letters and ` $%*+-./:` uses the
+ * denser alphanumeric mode; anything else is encoded as UTF-8 bytes.
+ *
+ * @param text - The text to encode.
+ * @returns The QR symbol.
+ * @throws If the text is too long for a version 40 symbol.
+ */
+export function encodeQr(text: string): QrCode {
+  let version = 1;
+  let bits = encodeSegment(text, version);
+  while (bits.length > dataCodewords(version) * 8) {
+    if (++version > 40) {
+      throw new Error('Text is too long to fit in a QR code.');
+    }
+    bits = encodeSegment(text, version);
+  }
+
+  // Terminator, byte alignment and pad bytes
+  const capacityBits = dataCodewords(version) * 8;
+  appendBits(bits, 0, Math.min(4, capacityBits - bits.length));
+  appendBits(bits, 0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(bits, pad, 8);
+  }
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  const size = version * 4 + 17;
+  const canvas: Canvas = {
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+  drawFunctionPatterns(canvas, version);
+  drawCodewords(canvas, addErrorCorrection(data, version));
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(canvas, mask);
+    drawFormatBits(canvas, mask);
+    const score = penaltyScore(canvas.modules);
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    applyMask(canvas, mask);
+  }
+  applyMask(canvas, bestMask);
+  drawFormatBits(canvas, bestMask);
+
+  return { version, mask: bestMask, modules: canvas.modules };
+}
+
+/**
+ * Render a QR code as text, two module rows per line, with a quiet zone.
+ *
+ * Dark modules are drawn with block characters, so the result scans
+ * when printed dark-on-light.
+ *
+ * @param qr - The QR symbol.
+ * @returns Lines of text joined with `\n`.
+ */
+export function renderQr(qr: QrCode): string {
+  const size = qr.modules.length + QUIET_ZONE * 2;
+  const dark = (x: number, y: number): boolean =>
+    qr.modules[y - QUIET_ZONE]?.[x - QUIET_ZONE] ?? false;
+
+  const lines: string[] = [];
+  for (let y = 0; y < size; y += 2) {
+    let line = '';
+    for (let x = 0; x < size; x++) {
+      const top = dark(x, y);
+      const bottom = dark(x, y + 1);
+      line += top && bottom ? '█' : top ? '▀' : bottom ? '▄' : ' ';
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
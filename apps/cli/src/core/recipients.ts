@@ -3,12 +3,18 @@
  *
  * Manages the list of team members (recipients) who can decrypt
  * encrypted state files. The recipients configuration is stored
- * locally in the config directory and is NEVER synced to Git.
+ * locally in the config directory and is NEVER synced to Git; team
+ * changes reach other machines through the signed roster instead (see
+ * `core/roster`).
  *
  * When multiple recipients are configured, all state files are
  * encrypted for all recipients simultaneously using Age's
  * multi-recipient support.
  *
+ * A member added with `--project` is scoped: they are a recipient only
+ * of that project's own state blobs (see `core/state-manager`), never
+ * of the repo-wide files.
+ *
  * @module core/recipients
  */
 
@@ -16,6 +22,8 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as crypto from 'node:crypto';
 import type { TeamMember, RecipientsConfig } from '@ctx-sync/shared';
+import { getPublicKey } from './encryption.js';
+import type { PrivateKey } from './encryption.js';
 
 /** Recipients config file name (stored in config dir, never synced) */
 export const RECIPIENTS_FILE = 'recipients.json';
@@ -100,19 +108,34 @@ export function initRecipients(
   return config;
 }
 
+/**
+ * Check whether a team member may decrypt a project's state.
+ *
+ * @param member - The team member.
+ * @param project - The project name, or `undefined` for repo-wide files.
+ */
+export function memberHasAccess(member: TeamMember, project?: string): boolean {
+  if (!member.projects) return true;
+  return project !== undefined && member.projects.includes(project);
+}
+
 /**
  * Get all public keys that should be used for encryption.
  *
- * Returns the owner's key plus all team member keys. If no recipients
- * config exists, returns only the provided owner key.
+ * Returns the owner's key plus every team member with access: members
+ * without a project scope always, and members scoped to `project` when
+ * one is given. If no recipients config exists, returns only the
+ * provided owner key.
  *
  * @param configDir - The config directory path.
  * @param ownerPublicKey - The owner's Age public key (fallback if no config).
+ * @param project - The project whose own state blobs are being written.
  * @returns Array of all recipient public keys.
  */
 export function getAllRecipientKeys(
   configDir: string,
   ownerPublicKey: string,
+  project?: string,
 ): string[] {
   const config = getRecipients(configDir);
 
@@ -122,19 +145,50 @@ export function getAllRecipientKeys(
 
   const keys = [config.ownerPublicKey];
   for (const member of config.members) {
-    keys.push(member.publicKey);
+    if (memberHasAccess(member, project)) {
+      keys.push(member.publicKey);
+    }
   }
 
   return keys;
 }
 
+/**
+ * Resolve the recipients a state file must be encrypted for.
+ *
+ * Every state writer goes through this, so that a file rewritten after
+ * `team add` stays readable by the whole team rather than only the
+ * machine that last wrote it.
+ *
+ * @param configDir - The config directory path.
+ * @param privateKey - The local Age private key (its public key is the
+ *   owner fallback when no recipients config exists).
+ * @param project - The project whose own state blobs are being written.
+ * @returns Array of all recipient public keys.
+ */
+export async function resolveRecipients(
+  configDir: string,
+  privateKey: PrivateKey,
+  project?: string,
+): Promise<string[]> {
+  const ownerPublicKey = await getPublicKey(privateKey);
+  return getAllRecipientKeys(configDir, ownerPublicKey, project);
+}
+
 /**
  * Add a team member to the recipients list.
  *
+ * With `project`, the member is scoped to that project. Adding an
+ * already-scoped member's key again with another project extends their
+ * scope instead of failing.
+ *
  * @param configDir - The config directory path.
  * @param name - A human-readable name for the team member.
  * @param publicKey - The member's Age public key (age1...).
- * @returns The added team member object.
+ * @param project - Limit the member to this project's state.
+ * @param signingKey - The member's roster signing key, if they may
+ *   approve team changes.
+ * @returns The added (or extended) team member object.
  * @throws If the public key is already in the recipients list.
  * @throws If the public key format is invalid.
  */
@@ -142,6 +196,8 @@ export function addRecipient(
   configDir: string,
   name: string,
   publicKey: string,
+  project?: string,
+  signingKey?: string,
 ): TeamMember {
   // Validate key format
   if (!publicKey.startsWith('age1')) {
@@ -165,6 +221,16 @@ export function addRecipient(
   const existingMember = config.members.find(
     (m) => m.publicKey === publicKey,
   );
+  if (existingMember?.projects && project) {
+    if (existingMember.projects.includes(project)) {
+      throw new Error(
+        `Team member "${existingMember.name}" already has access to project "${project}".`,
+      );
+    }
+    existingMember.projects.push(project);
+    saveRecipients(configDir, config);
+    return existingMember;
+  }
   if (existingMember) {
     throw new Error(
       `Public key already registered for team member "${existingMember.name}".`,
@@ -188,6 +254,8 @@ export function addRecipient(
     publicKey,
     addedAt: new Date().toISOString(),
     fingerprint,
+    ...(project ? { projects: [project] } : {}),
+    ...(signingKey ? { signingKey } : {}),
   };
 
   config.members.push(member);
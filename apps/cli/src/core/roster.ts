@@ -0,0 +1,839 @@
+/**
+ * Team roster module.
+ *
+ * `recipients.json` is local to each machine, so on its own a team
+ * change made by one member never reaches the others. The roster is
+ * the synced record of membership: `roster.jsonl` in the sync repo, an
+ * append-only log with one JSON entry per line (`genesis`, `add`,
+ * `remove`, `revoke`, and `rotate` when a member replaces their key).
+ *
+ * Every entry carries the SHA-256 of the line before it and an Ed25519
+ * signature by the member who made the change. The genesis entry is
+ * self-signed by whoever started the roster; every later entry must be
+ * signed by a member who has full (unscoped) access and a registered
+ * signing key at that point in the log. A client replays and verifies
+ * the whole chain before trusting any recipient in it, and pins the
+ * genesis hash and the last entry it applied in its local recipients
+ * config, so the log can neither be swapped for a different one nor
+ * cut back to before a removal. Until a genesis is pinned, only a roster
+ * started by this machine's own key or one of its local recipients is
+ * trusted; a cloned sync repo pins its roster when it is cloned.
+ *
+ * Signing keys are derived from the Age private key, so no extra
+ * secret has to be stored or backed up. The roster only ever holds
+ * public keys and is committed as plaintext.
+ *
+ * @module core/roster
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import { STATE_FILES } from '@ctx-sync/shared';
+import type {
+  RecipientsConfig,
+  RosterAction,
+  RosterEntry,
+  RosterMember,
+  TeamMember,
+} from '@ctx-sync/shared';
+import { SecurityError, SyncConflictError } from '../utils/errors.js';
+import { getPublicKey } from './encryption.js';
+import type { PrivateKey } from './encryption.js';
+import {
+  computeFingerprint,
+  getRecipients,
+  initRecipients,
+  saveRecipients,
+} from './recipients.js';
+
+/** HKDF info string for deriving the roster signing key */
+const SIGNING_KEY_INFO = 'ctx-sync roster signing v1';
+
+/** DER prefix of a PKCS#8 Ed25519 private key (followed by the 32-byte seed) */
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+/** DER prefix of an SPKI Ed25519 public key (followed by the 32-byte key) */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** One verified roster change, for display */
+export interface RosterHistoryItem {
+  seq: number;
+  action: RosterAction;
+  /** Name of the member the change is about */
+  member: string;
+  /** Name of the member who signed the change */
+  approvedBy: string;
+  at: string;
+}
+
+/** The membership a verified roster ends up with */
+export interface RosterState {
+  /** Current members, in the order they were added */
+  members: RosterMember[];
+  /** Every change, oldest first */
+  history: RosterHistoryItem[];
+  /** Hash of the genesis line */
+  genesis: string;
+  /** The member who started the roster (signed the genesis entry) */
+  founder: RosterMember;
+  /** Hash of the last line */
+  head: string;
+  /** Hash of every line, by sequence number */
+  hashes: string[];
+}
+
+/** Changes made to the local recipients by applying the roster */
+export interface RosterChanges {
+  /** Names of members who became recipients */
+  added: string[];
+  /** Names of members who are no longer recipients */
+  removed: string[];
+}
+
+// ─── Signing Keys ─────────────────────────────────────────────────────────
+
+/**
+ * Derive the Ed25519 roster signing key from an Age private key.
+ *
+ * @param privateKey - The Age private key (AGE-SECRET-KEY-...).
+ * @returns The signing key and its public half (base64).
+ */
+function deriveSigningKey(privateKey: string): { key: crypto.KeyObject; publicKey: string } {
+  const seed = Buffer.from(
+    crypto.hkdfSync('sha256', privateKey, Buffer.alloc(0), SIGNING_KEY_INFO, 32),
+  );
+  const key = crypto.createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  const spki = crypto.createPublicKey(key).export({ format: 'der', type: 'spki' });
+  return { key, publicKey: spki.subarray(ED25519_SPKI_PREFIX.length).toString('base64') };
+}
+
+/**
+ * Get the public roster signing key for an Age private key.
+ *
+ * This is what a member hands over alongside their Age public key so
+ * that they can approve roster changes themselves.
+ *
+ * @param privateKey - The Age private key, or a handle to one in the agent.
+ * @returns The base64 Ed25519 public key.
+ */
+export function getSigningPublicKey(privateKey: PrivateKey): string {
+  return typeof privateKey === 'string' ? deriveSigningKey(privateKey).publicKey : privateKey.signingKey;
+}
+
+/**
+ * Sign data with the roster signing key of an Age private key.
+ *
+ * @param privateKey - The Age private key, or a handle to one in the agent.
+ * @param data - The bytes to sign.
+ * @returns The Ed25519 signature.
+ */
+export async function signWithSigningKey(privateKey: PrivateKey, data: Buffer): Promise<Buffer> {
+  return typeof privateKey === 'string'
+    ? crypto.sign(null, data, deriveSigningKey(privateKey).key)
+    : privateKey.sign(data);
+}
+
+/**
+ * Check that a string is a base64 Ed25519 public key.
+ *
+ * @param signingKey - The candidate key.
+ */
+export function isValidSigningKey(signingKey: string): boolean {
+  if (!/^[A-Za-z0-9+/]{43}=$/.test(signingKey)) return false;
+  return Buffer.from(signingKey, 'base64').length === 32;
+}
+
+/**
+ * Verify an Ed25519 signature made with a roster signing key.
+ *
+ * @param payload - The signed bytes.
+ * @param signature - The signature (base64).
+ * @param signingKey - The base64 Ed25519 public key.
+ */
+export function verifySignature(payload: Buffer, signature: string, signingKey: string): boolean {
+  if (!isValidSigningKey(signingKey)) return false;
+  const key = crypto.createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(signingKey, 'base64')]),
+    format: 'der',
+    type: 'spki',
+  });
+  return crypto.verify(null, payload, key, Buffer.from(signature, 'base64'));
+}
+
+// ─── Entries ──────────────────────────────────────────────────────────────
+
+/**
+ * Hash a raw roster line (the `prev` of the entry after it).
+ */
+function hashLine(line: string): string {
+  return crypto.createHash('sha256').update(line).digest('hex');
+}
+
+/**
+ * Serialise the signed part of an entry with a fixed key order, so the
+ * signature does not depend on how the line was written.
+ */
+function signedPayload(entry: Omit<RosterEntry, 'signature'>): Buffer {
+  const { name, publicKey, signingKey, projects } = entry.member;
+  return Buffer.from(
+    JSON.stringify({
+      seq: entry.seq,
+      prev: entry.prev,
+      action: entry.action,
+      member: {
+        name,
+        publicKey,
+        ...(signingKey ? { signingKey } : {}),
+        ...(projects ? { projects } : {}),
+      },
+      at: entry.at,
+      signer: entry.signer,
+    }),
+  );
+}
+
+/**
+ * Parse one roster line, checking the fields have the right types.
+ *
+ * @throws With a reason if the line is not a well-formed entry.
+ */
+function parseEntry(line: string): RosterEntry {
+  let entry: RosterEntry;
+  try {
+    entry = JSON.parse(line) as RosterEntry;
+  } catch {
+    throw new Error('not valid JSON');
+  }
+
+  const member = entry.member as RosterMember | undefined;
+  const wellFormed =
+    typeof entry.seq === 'number' &&
+    (entry.prev === null || typeof entry.prev === 'string') &&
+    ['genesis', 'add', 'remove', 'revoke', 'rotate'].includes(entry.action) &&
+    typeof member?.name === 'string' &&
+    typeof member.publicKey === 'string' &&
+    (member.signingKey === undefined || typeof member.signingKey === 'string') &&
+    (member.projects === undefined ||
+      (Array.isArray(member.projects) && member.projects.every((p) => typeof p === 'string'))) &&
+    typeof entry.at === 'string' &&
+    typeof entry.signer === 'string' &&
+    typeof entry.signature === 'string';
+  if (!wellFormed) {
+    throw new Error('malformed entry');
+  }
+
+  return entry;
+}
+
+/**
+ * Check that an entry may follow the given membership, and apply it.
+ *
+ * @param members - Membership before the entry (mutated).
+ * @param entry - The entry to apply.
+ * @param seq - The expected sequence number.
+ * @param prev - Hash of the previous line, or `null` for the first entry.
+ * @returns The name of the member who signed the entry.
+ * @throws With a reason if the entry is not allowed.
+ */
+function applyEntry(
+  members: RosterMember[],
+  entry: RosterEntry,
+  seq: number,
+  prev: string | null,
+): string {
+  if (entry.seq !== seq) {
+    throw new Error(`expected sequence number ${String(seq)}, found ${String(entry.seq)}`);
+  }
+  if (entry.prev !== prev) {
+    throw new Error('it does not follow the previous entry (hash mismatch)');
+  }
+
+  const target = entry.member;
+  let signer: RosterMember | undefined;
+
+  if (seq === 0) {
+    if (entry.action !== 'genesis') {
+      throw new Error('the first entry must be the genesis entry');
+    }
+    if (entry.signer !== target.publicKey || target.projects) {
+      throw new Error('the genesis entry must be self-signed by a member with full access');
+    }
+    signer = target;
+  } else {
+    if (entry.action === 'genesis') {
+      throw new Error('only the first entry can be a genesis entry');
+    }
+    signer = members.find((m) => m.publicKey === entry.signer);
+    if (!signer) {
+      throw new Error('it is signed by someone who is not a member');
+    }
+    if (signer.projects) {
+      throw new Error(`it is signed by ${signer.name}, who only has access to some projects`);
+    }
+  }
+
+  if (!signer.signingKey) {
+    throw new Error(`it is signed by ${signer.name}, who has no signing key`);
+  }
+  const { signature, ...unsigned } = entry;
+  if (!verifySignature(signedPayload(unsigned), signature, signer.signingKey)) {
+    throw new Error(`the signature by ${signer.name} is not valid`);
+  }
+
+  const index = members.findIndex((m) => m.publicKey === target.publicKey);
+  const existing = members[index];
+  if (entry.action === 'rotate') {
+    // Signed with the old key, so only the member themselves can rotate it
+    if (existing) {
+      throw new Error(`it rotates ${signer.name} to a key that is already a member`);
+    }
+    members.splice(members.indexOf(signer), 1, target);
+  } else if (entry.action === 'genesis' || entry.action === 'add') {
+    if (existing && !(existing.projects && target.projects)) {
+      throw new Error(`it adds ${target.name}, who is already a member`);
+    }
+    if (existing) {
+      members.splice(index, 1, target);
+    } else {
+      members.push(target);
+    }
+  } else {
+    if (!existing) {
+      throw new Error(`it removes ${target.name}, who is not a member`);
+    }
+    members.splice(index, 1);
+  }
+  if (!members.some((m) => !m.projects && m.signingKey)) {
+    throw new Error('it leaves nobody who can approve further changes');
+  }
+
+  return signer.name;
+}
+
+// ─── Roster File ──────────────────────────────────────────────────────────
+
+/**
+ * Read the raw lines of the roster.
+ *
+ * @returns The lines, or `null` if the sync repo has no roster.
+ */
+function readRosterLines(syncDir: string): string[] | null {
+  const filePath = path.join(syncDir, STATE_FILES.ROSTER);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return splitLines(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Replay roster lines from the start, verifying every entry.
+ *
+ * @throws {SecurityError} If any entry fails verification.
+ */
+function replay(lines: string[]): RosterState {
+  const members: RosterMember[] = [];
+  const history: RosterHistoryItem[] = [];
+  const hashes: string[] = [];
+  let prev: string | null = null;
+  let founder: RosterMember | undefined;
+
+  for (const [seq, line] of lines.entries()) {
+    try {
+      const entry = parseEntry(line);
+      const approvedBy = applyEntry(members, entry, seq, prev);
+      founder ??= entry.member;
+      history.push({
+        seq,
+        action: entry.action,
+        member: entry.member.name,
+        approvedBy,
+        at: entry.at,
+      });
+    } catch (err) {
+      throw new SecurityError(
+        `Team roster failed verification at entry ${String(seq)}: ` +
+          `${err instanceof Error ? err.message : String(err)}.`,
+        `${STATE_FILES.ROSTER} in the sync repo may have been tampered with. ` +
+          'Team membership was not updated.\n' +
+          `  Inspect its history with: git -C <sync dir> log -p ${STATE_FILES.ROSTER}`,
+      );
+    }
+    prev = hashLine(line);
+    hashes.push(prev);
+  }
+
+  if (prev === null || !founder) {
+    throw new SecurityError(`Team roster ${STATE_FILES.ROSTER} is empty.`);
+  }
+
+  return { members, history, genesis: hashLine(lines[0] ?? ''), founder, head: prev, hashes };
+}
+
+/**
+ * Read and verify the roster in the sync repo.
+ *
+ * @param syncDir - The sync directory path.
+ * @returns The verified membership, or `null` if there is no roster.
+ * @throws {SecurityError} If the chain or any signature does not verify.
+ */
+export function verifyRoster(syncDir: string): RosterState | null {
+  const lines = readRosterLines(syncDir);
+  return lines ? replay(lines) : null;
+}
+
+/**
+ * Check that the roster is the one this machine trusts, and still holds
+ * every entry this machine has applied.
+ *
+ * With no genesis pinned yet, the roster must have been started by this
+ * machine's own key or one of its local recipients: anyone can sign a
+ * genesis entry that lists this machine's key.
+ *
+ * @param configDir - The config directory path.
+ * @param state - The verified roster.
+ * @throws {SecurityError} If a different genesis hash is pinned locally,
+ *   nothing is pinned and the roster was started by a key this machine
+ *   does not know, or the roster lacks the last entry applied here (it
+ *   was cut back, e.g. by a force-push dropping a `remove`).
+ */
+export function checkPinnedRoster(configDir: string, state: RosterState): void {
+  const config = getRecipients(configDir);
+  if (!config?.rosterGenesis) {
+    const founderKey = state.founder.publicKey;
+    const known =
+      config?.ownerPublicKey === founderKey ||
+      config?.members.some((m) => m.publicKey === founderKey && !m.projects);
+    if (!known) {
+      throw new SecurityError(
+        `The team roster in the sync repo was started by ${state.founder.name}, whose key this machine does not know.`,
+        `Someone may have replaced ${STATE_FILES.ROSTER}. Team membership was not updated.\n` +
+          '  To join a team, clone its sync repo with `ctx-sync init --restore --remote <url>`.',
+      );
+    }
+  } else if (config.rosterGenesis !== state.genesis) {
+    throw new SecurityError(
+      'The team roster in the sync repo was started from a different genesis entry than the one this machine trusts.',
+      `Someone may have replaced ${STATE_FILES.ROSTER}. Team membership was not updated.`,
+    );
+  }
+
+  const head = config?.rosterHead;
+  if (head && state.hashes[head.seq] !== head.hash) {
+    throw new SecurityError(
+      `The team roster in the sync repo does not hold entry ${String(head.seq)}, which this machine has already applied.`,
+      `Someone may have truncated or rewritten ${STATE_FILES.ROSTER}, which can undo a removal. ` +
+        'Team membership was not updated.\n' +
+        `  Inspect its history with: git -C <sync dir> log -p ${STATE_FILES.ROSTER}`,
+    );
+  }
+}
+
+/**
+ * Pin the roster's genesis hash and last entry in the local recipients
+ * config.
+ */
+function pinRoster(configDir: string, state: RosterState): void {
+  const config = getRecipients(configDir);
+  if (config) {
+    saveRecipients(configDir, withPinnedRoster(config, state));
+  }
+}
+
+/**
+ * A recipients config with the roster's genesis and last entry pinned.
+ */
+function withPinnedRoster(config: RecipientsConfig, state: RosterState): RecipientsConfig {
+  config.rosterGenesis = state.genesis;
+  config.rosterHead = { seq: state.hashes.length - 1, hash: state.head };
+  return config;
+}
+
+/**
+ * Sign an entry that follows the given roster lines.
+ *
+ * The entry is checked against the verified roster first, so a change
+ * other clients would reject is never signed.
+ *
+ * @throws If the change is not allowed.
+ */
+async function signEntry(
+  lines: string[],
+  state: RosterState | null,
+  privateKey: PrivateKey,
+  action: RosterAction,
+  member: RosterMember,
+): Promise<RosterEntry> {
+  const prev = state ? state.head : null;
+  const unsigned: Omit<RosterEntry, 'signature'> = {
+    seq: lines.length,
+    prev,
+    action,
+    member,
+    at: new Date().toISOString(),
+    signer: await getPublicKey(privateKey),
+  };
+  const entry: RosterEntry = {
+    ...unsigned,
+    signature: (await signWithSigningKey(privateKey, signedPayload(unsigned))).toString('base64'),
+  };
+
+  try {
+    applyEntry(state ? [...state.members] : [], entry, lines.length, prev);
+  } catch (err) {
+    throw new Error(
+      `Cannot record this team change: ${err instanceof Error ? err.message : String(err)}.`,
+    );
+  }
+  return entry;
+}
+
+/**
+ * Sign an entry and append it to the roster.
+ */
+async function appendEntry(
+  syncDir: string,
+  lines: string[],
+  state: RosterState | null,
+  privateKey: PrivateKey,
+  action: RosterAction,
+  member: RosterMember,
+): Promise<RosterEntry> {
+  const entry = await signEntry(lines, state, privateKey, action, member);
+  const line = JSON.stringify(entry);
+  fs.writeFileSync(path.join(syncDir, STATE_FILES.ROSTER), [...lines, line].join('\n') + '\n', 'utf-8');
+  lines.push(line);
+  return entry;
+}
+
+/**
+ * Convert a local team member to its roster form.
+ */
+function toRosterMember(member: TeamMember): RosterMember {
+  return {
+    name: member.name,
+    publicKey: member.publicKey,
+    ...(member.signingKey ? { signingKey: member.signingKey } : {}),
+    ...(member.projects ? { projects: [...member.projects] } : {}),
+  };
+}
+
+/**
+ * Make sure the sync repo has a roster this machine may change.
+ *
+ * If there is none yet, one is started: a genesis entry for this
+ * machine's key, followed by an `add` for every member already in the
+ * local recipients config.
+ *
+ * @param syncDir - The sync directory path.
+ * @param configDir - The config directory path.
+ * @param privateKey - The local Age private key.
+ * @returns The verified roster.
+ * @throws {SecurityError} If the existing roster does not verify.
+ * @throws If this key may not sign roster changes.
+ */
+export async function ensureRoster(
+  syncDir: string,
+  configDir: string,
+  privateKey: PrivateKey,
+): Promise<RosterState> {
+  const ownKey = await getPublicKey(privateKey);
+  const existing = verifyRoster(syncDir);
+
+  if (existing) {
+    const self = existing.members.find((m) => m.publicKey === ownKey);
+    if (!self || self.projects || self.signingKey !== getSigningPublicKey(privateKey)) {
+      throw new Error(
+        'Only members with full access and a registered signing key can change the team roster.\n' +
+          'Ask a team member to add you with `ctx-sync team add --signing-key <key>` ' +
+          '(your signing key is shown by `ctx-sync key show`).',
+      );
+    }
+    checkPinnedRoster(configDir, existing);
+    pinRoster(configDir, existing);
+    return existing;
+  }
+
+  const lines: string[] = [];
+  await appendEntry(syncDir, lines, null, privateKey, 'genesis', {
+    name: os.userInfo().username,
+    publicKey: ownKey,
+    signingKey: getSigningPublicKey(privateKey),
+  });
+  for (const member of getRecipients(configDir)?.members ?? []) {
+    await appendEntry(syncDir, lines, replay(lines), privateKey, 'add', toRosterMember(member));
+  }
+
+  const state = replay(lines);
+  pinRoster(configDir, state);
+  return state;
+}
+
+/**
+ * Trust the roster of a freshly cloned sync repo.
+ *
+ * Cloning is when the user chooses the team's remote, so the roster it
+ * holds then is pinned. Does nothing if the repo has no roster or a
+ * roster is already pinned here.
+ *
+ * @param syncDir - The sync directory path.
+ * @param configDir - The config directory path.
+ * @param ownerPublicKey - This machine's Age public key.
+ * @returns The pinned roster, or `null` if none was pinned.
+ * @throws {SecurityError} If the roster does not verify.
+ */
+export function pinClonedRoster(
+  syncDir: string,
+  configDir: string,
+  ownerPublicKey: string,
+): RosterState | null {
+  const state = verifyRoster(syncDir);
+  if (!state || getRecipients(configDir)?.rosterGenesis) {
+    return null;
+  }
+
+  saveRecipients(configDir, withPinnedRoster(initRecipients(configDir, ownerPublicKey), state));
+  return state;
+}
+
+/**
+ * Record a team change in the roster.
+ *
+ * @param syncDir - The sync directory path.
+ * @param privateKey - The local Age private key (signs the entry).
+ * @param action - `add`, `remove` or `revoke`.
+ * @param member - The member the change is about, as they are after an
+ *   `add` (for a scoped member, with all of their projects).
+ * @returns The appended entry.
+ * @throws If the roster is missing or the change is not allowed.
+ */
+export async function appendRosterEntry(
+  syncDir: string,
+  privateKey: PrivateKey,
+  action: Exclude<RosterAction, 'genesis'>,
+  member: TeamMember,
+): Promise<RosterEntry> {
+  const lines = readRosterLines(syncDir);
+  if (!lines) {
+    throw new Error('No team roster found in the sync repo.');
+  }
+  return appendEntry(syncDir, lines, replay(lines), privateKey, action, toRosterMember(member));
+}
+
+/**
+ * Record in the roster that this machine's key was rotated, so the
+ * other members' machines encrypt for the new key after they pull.
+ *
+ * The entry is signed with the old key and carries the new Age public
+ * key and signing key. Only members who may sign roster changes can
+ * record their own rotation; scoped members have to be added again.
+ *
+ * @param syncDir - The sync directory path.
+ * @param configDir - The config directory path.
+ * @param oldPrivateKey - The key being rotated away from (signs the entry).
+ * @param newPrivateKey - The new Age private key.
+ * @returns The appended entry, or `null` if there is no roster or the
+ *   old key may not sign roster changes.
+ * @throws {SecurityError} If the roster does not verify or is not the
+ *   one this machine trusts.
+ */
+export async function rotateRosterKey(
+  syncDir: string,
+  configDir: string,
+  oldPrivateKey: PrivateKey,
+  newPrivateKey: string,
+): Promise<RosterEntry | null> {
+  const lines = readRosterLines(syncDir);
+  if (!lines) {
+    return null;
+  }
+  const state = replay(lines);
+  const oldKey = await getPublicKey(oldPrivateKey);
+  const self = state.members.find((m) => m.publicKey === oldKey);
+  if (!self || self.projects || self.signingKey !== getSigningPublicKey(oldPrivateKey)) {
+    return null;
+  }
+  checkPinnedRoster(configDir, state);
+
+  return appendEntry(syncDir, lines, state, oldPrivateKey, 'rotate', {
+    name: self.name,
+    publicKey: await getPublicKey(newPrivateKey),
+    signingKey: getSigningPublicKey(newPrivateKey),
+  });
+}
+
+/**
+ * Split roster text into its lines.
+ */
+function splitLines(text: string): string[] {
+  return text.split('\n').filter((line) => line.trim() !== '');
+}
+
+/**
+ * Whether two roster members have the same keys and access.
+ */
+function sameMember(a: RosterMember, b: RosterMember): boolean {
+  return (
+    a.publicKey === b.publicKey &&
+    a.signingKey === b.signingKey &&
+    JSON.stringify(a.projects ?? null) === JSON.stringify(b.projects ?? null)
+  );
+}
+
+/**
+ * Merge a roster that two machines appended to at the same time.
+ *
+ * Both sides are verified and must start from the same genesis entry.
+ * The remote log is kept as it is, since other machines may already
+ * have applied it. The local entries after the common part are moved
+ * on top of it and signed again with this machine's key; a local change
+ * the remote side already made (the same add or removal) is dropped.
+ *
+ * @param configDir - The config directory path.
+ * @param local - The local roster text.
+ * @param remote - The remote roster text.
+ * @param privateKey - This machine's Age private key.
+ * @returns The merged roster text.
+ * @throws {SecurityError} If either side does not verify, they start
+ *   from different genesis entries, or the local side is not the one
+ *   this machine trusts.
+ * @throws {SyncConflictError} If a local entry cannot be moved: it was
+ *   signed with another key, is a key rotation, or is no longer allowed
+ *   after the remote changes.
+ */
+export async function mergeRosters(
+  configDir: string,
+  local: string,
+  remote: string,
+  privateKey: PrivateKey,
+): Promise<string> {
+  const localLines = splitLines(local);
+  const localState = replay(localLines);
+  const lines = splitLines(remote);
+  const remoteState = replay(lines);
+
+  checkPinnedRoster(configDir, localState);
+  if (remoteState.genesis !== localState.genesis) {
+    throw new SecurityError(
+      'The local and remote team rosters were started from different genesis entries.',
+      `Someone may have replaced ${STATE_FILES.ROSTER}. Team membership was not updated.`,
+    );
+  }
+
+  let common = 0;
+  while (common < localLines.length && localLines[common] === lines[common]) common++;
+
+  const ownKey = await getPublicKey(privateKey);
+  for (const line of localLines.slice(common)) {
+    const entry = parseEntry(line);
+    const state = replay(lines);
+    if (entry.seq === lines.length && entry.prev === state.head) {
+      // The remote log is a prefix of the local one
+      lines.push(line);
+      continue;
+    }
+
+    const existing = state.members.find((m) => m.publicKey === entry.member.publicKey);
+    const alreadyDone =
+      entry.action === 'add' ? existing !== undefined && sameMember(existing, entry.member) :
+      entry.action === 'remove' || entry.action === 'revoke' ? existing === undefined :
+      false;
+    if (alreadyDone) continue;
+
+    const field = `entry ${String(entry.seq)} (${entry.action} ${entry.member.name})`;
+    const suggestion =
+      `Take the remote roster (git -C <sync dir> checkout --theirs ${STATE_FILES.ROSTER}), ` +
+      'finish the sync, then make this team change again.';
+    if (entry.signer !== ownKey || entry.action === 'rotate') {
+      throw new SyncConflictError(STATE_FILES.ROSTER, field, suggestion);
+    }
+    try {
+      lines.push(
+        JSON.stringify(await signEntry(lines, state, privateKey, entry.action, entry.member)),
+      );
+    } catch {
+      throw new SyncConflictError(STATE_FILES.ROSTER, field, suggestion);
+    }
+  }
+
+  // A local entry pinned here was signed again: fall back to the common part
+  const config = getRecipients(configDir);
+  if (config?.rosterHead && config.rosterHead.seq >= common && common > 0) {
+    config.rosterHead = { seq: common - 1, hash: localState.hashes[common - 1] as string };
+    saveRecipients(configDir, config);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Bring the local recipients in line with a verified roster.
+ *
+ * Called after pulling, so that a member added or removed on another
+ * machine becomes (or stops being) a recipient here too. Nothing is
+ * changed until the whole chain verifies, and nothing is changed on a
+ * machine whose own key is not in the roster.
+ *
+ * @param syncDir - The sync directory path.
+ * @param configDir - The config directory path.
+ * @param privateKey - The local Age private key.
+ * @returns The changes made, or `null` if there is no roster to apply.
+ * @throws {SecurityError} If the roster does not verify or is not the
+ *   one this machine trusts.
+ */
+export async function applyRoster(
+  syncDir: string,
+  configDir: string,
+  privateKey: PrivateKey,
+): Promise<RosterChanges | null> {
+  const state = verifyRoster(syncDir);
+  const config = getRecipients(configDir);
+  if (!state || !config) {
+    return null;
+  }
+
+  const ownKey = await getPublicKey(privateKey);
+  if (!state.members.some((m) => m.publicKey === ownKey)) {
+    return null;
+  }
+  checkPinnedRoster(configDir, state);
+
+  const members: TeamMember[] = state.members
+    .filter((m) => m.publicKey !== ownKey)
+    .map((m) => {
+      const local = config.members.find((l) => l.publicKey === m.publicKey);
+      const addedAt =
+        local?.addedAt ??
+        [...state.history].reverse().find((h) => h.member === m.name && h.action === 'add')?.at ??
+        new Date().toISOString();
+      return {
+        name: m.name,
+        publicKey: m.publicKey,
+        addedAt,
+        fingerprint: computeFingerprint(m.publicKey),
+        ...(m.projects ? { projects: [...m.projects] } : {}),
+        ...(m.signingKey ? { signingKey: m.signingKey } : {}),
+      };
+    });
+
+  const changes: RosterChanges = {
+    added: members
+      .filter((m) => !config.members.some((l) => l.publicKey === m.publicKey))
+      .map((m) => m.name),
+    removed: config.members
+      .filter((l) => !members.some((m) => m.publicKey === l.publicKey))
+      .map((l) => l.name),
+  };
+
+  config.members = members;
+  saveRecipients(configDir, withPinnedRoster(config, state));
+
+  return changes;
+}
@@ -0,0 +1,249 @@
+/**
+ * Secret references module.
+ *
+ * An env var can hold a reference to a secret kept by an external
+ * provider instead of the secret itself — `op://vault/item/field`
+ * (1Password), `pass:team/db` (pass) or `vault:secret/data/db#password`
+ * (HashiCorp Vault). The reference is what gets stored and synced; the
+ * secret is read from the provider's CLI each time the var is used
+ * (`restore`, `exec`, `env export`, `env list --show-values`) and is
+ * never written back to the sync repo.
+ *
+ * Providers are pluggable: entries in `secretProviders` of the local
+ * `config.json` are tried before the built-in ones, so a team can add
+ * e.g. Bitwarden or replace how `op://` references are read.
+ *
+ * @module core/secret-refs
+ */
+
+import { spawn } from 'node:child_process';
+import type { EnvVarEntry, SecretProviderConfig } from '@ctx-sync/shared';
+import { getUserConfig } from './config-store.js';
+import { ConfigError, SecretRefError } from '../utils/errors.js';
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** A CLI that prints the secret for references starting with `prefix` */
+export interface SecretProvider {
+  /** Reference prefix, e.g. `op://` */
+  prefix: string;
+  /**
+   * The command (program, then arguments) that prints the secret.
+   *
+   * @throws SecretRefError if the reference is malformed for this provider.
+   */
+  command(ref: string): string[];
+  /** Extract the secret from the command's output (default: drop the final newline) */
+  parse?(output: string): string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────
+
+/** How long a provider CLI may take (it may be waiting for a sign-in) */
+export const SECRET_PROVIDER_TIMEOUT_MS = 120_000;
+
+/** The providers known without any configuration */
+export const BUILTIN_SECRET_PROVIDERS: readonly SecretProvider[] = [
+  {
+    // 1Password: op://vault/item/field
+    prefix: 'op://',
+    command: (ref) => ['op', 'read', '--no-newline', ref],
+  },
+  {
+    // pass: the secret is the first line of the entry
+    prefix: 'pass:',
+    command: (ref) => ['pass', 'show', ref.slice('pass:'.length)],
+    parse: (output) => output.split('\n')[0] ?? '',
+  },
+  {
+    // HashiCorp Vault (KV): vault:<path>#<field>
+    prefix: 'vault:',
+    command: (ref) => {
+      const [secretPath, field] = ref.slice('vault:'.length).split('#');
+      if (!secretPath || !field) {
+        throw new SecretRefError(
+          ref,
+          'a Vault reference names a path and a field',
+          'Write it as vault:<path>#<field>, e.g. vault:secret/data/db#password',
+        );
+      }
+      return ['vault', 'kv', 'get', `-field=${field}`, secretPath];
+    },
+  },
+];
+
+// ─── Providers ────────────────────────────────────────────────────────────
+
+/**
+ * Turn a provider from `config.json` into a SecretProvider.
+ *
+ * `{ref}` in the command is replaced by the whole reference and
+ * `{path}` by the part after the prefix.
+ *
+ * @throws ConfigError if the entry has no prefix or no command.
+ */
+export function providerFromConfig(config: SecretProviderConfig): SecretProvider {
+  const { prefix, command } = config as Partial<SecretProviderConfig>;
+  if (
+    typeof prefix !== 'string' ||
+    prefix.length === 0 ||
+    !Array.isArray(command) ||
+    command.length === 0 ||
+    !command.every((part) => typeof part === 'string')
+  ) {
+    throw new ConfigError(
+      `Invalid secret provider in config.json: ${JSON.stringify(config)}`,
+      'Each provider needs a prefix and a command, e.g. ' +
+        '{ "prefix": "bw:", "command": ["bw", "get", "password", "{path}"] }',
+    );
+  }
+
+  return {
+    prefix,
+    command: (ref) =>
+      command.map((part) =>
+        part.replaceAll('{ref}', ref).replaceAll('{path}', ref.slice(prefix.length)),
+      ),
+  };
+}
+
+/**
+ * Get the secret providers for this machine: the configured ones
+ * first, then the built-in ones.
+ *
+ * @param configDir - The config directory path (~/.config/ctx-sync).
+ */
+export function getSecretProviders(configDir: string): SecretProvider[] {
+  const configured = getUserConfig(configDir)?.secretProviders ?? [];
+  return [...configured.map(providerFromConfig), ...BUILTIN_SECRET_PROVIDERS];
+}
+
+/**
+ * Find the provider for a reference (the first whose prefix matches).
+ *
+ * @returns The provider, or `undefined` if none matches.
+ */
+export function findSecretProvider(
+  ref: string,
+  providers: readonly SecretProvider[],
+): SecretProvider | undefined {
+  return providers.find((provider) => ref.startsWith(provider.prefix));
+}
+
+/**
+ * Check that a reference has a provider and is well formed for it.
+ * Nothing is run.
+ *
+ * @returns The reference.
+ * @throws SecretRefError if no provider handles it or it is malformed.
+ */
+export function validateSecretRef(ref: string, providers: readonly SecretProvider[]): string {
+  const provider = findSecretProvider(ref, providers);
+  if (!provider || ref.length === provider.prefix.length) {
+    throw new SecretRefError(
+      ref,
+      'not a known secret reference',
+      `Start it with one of: ${providers.map((p) => p.prefix).join(', ')}\n` +
+        '  Other providers can be added under "secretProviders" in config.json.',
+    );
+  }
+  provider.command(ref);
+  return ref;
+}
+
+// ─── Resolution ───────────────────────────────────────────────────────────
+
+/**
+ * Run a provider command and collect what it prints.
+ *
+ * stdin is inherited so the provider can ask the user to sign in.
+ */
+function runProvider(ref: string, program: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(program, args, { env: process.env, stdio: ['inherit', 'pipe', 'pipe'] });
+    // Not spawn's `timeout` option: its timer outlives a CLI that never started
+    const timer = setTimeout(() => child.kill(), SECRET_PROVIDER_TIMEOUT_MS);
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+    child.on('error', (err: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(
+        new SecretRefError(
+          ref,
+          err.code === 'ENOENT' ? `\`${program}\` is not installed or not on PATH` : err.message,
+        ),
+      );
+    });
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString('utf-8'));
+        return;
+      }
+      const lastLine = Buffer.concat(stderr)
+        .toString('utf-8')
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .pop();
+      const status = signal ? `was stopped (${signal})` : `exited with code ${String(code)}`;
+      reject(new SecretRefError(ref, lastLine ?? `\`${program}\` ${status}`));
+    });
+  });
+}
+
+/**
+ * Read the secret a reference points to from its provider's CLI.
+ *
+ * @param ref - The reference (e.g. `op://vault/item/field`).
+ * @param providers - The providers to use (see `getSecretProviders`).
+ * @returns The secret.
+ * @throws SecretRefError if no provider handles the reference or its
+ *   CLI is missing, fails or times out.
+ */
+export async function resolveSecretRef(
+  ref: string,
+  providers: readonly SecretProvider[],
+): Promise<string> {
+  validateSecretRef(ref, providers);
+  const provider = findSecretProvider(ref, providers) as SecretProvider;
+  const [program, ...args] = provider.command(ref);
+
+  const output = await runProvider(ref, program as string, args);
+  return provider.parse ? provider.parse(output) : output.replace(/\r?\n$/, '');
+}
+
+/**
+ * Replace the references among env var entries by their secrets.
+ *
+ * Providers are asked one at a time (they may prompt), once per
+ * distinct reference. The entries given are not modified.
+ *
+ * @param entries - Key → entry, e.g. from `resolveEnvProfile`.
+ * @param providers - The providers to use (see `getSecretProviders`).
+ * @returns Key → entry, with plain values only.
+ * @throws SecretRefError if a reference cannot be resolved.
+ */
+export async function resolveSecretRefs(
+  entries: Record<string, EnvVarEntry>,
+  providers: readonly SecretProvider[],
+): Promise<Record<string, EnvVarEntry>> {
+  const secrets = new Map<string, string>();
+  const resolved: Record<string, EnvVarEntry> = {};
+
+  for (const [key, entry] of Object.entries(entries)) {
+    if (!entry.ref) {
+      resolved[key] = entry;
+      continue;
+    }
+    if (!secrets.has(entry.value)) {
+      secrets.set(entry.value, await resolveSecretRef(entry.value, providers));
+    }
+    resolved[key] = { value: secrets.get(entry.value) as string, addedAt: entry.addedAt };
+  }
+
+  return resolved;
+}
@@ -11,6 +11,7 @@
 
 import type { Service, ServiceState } from '@ctx-sync/shared';
 import { readState, writeState } from './state-manager.js';
+import type { PrivateKey } from './encryption.js';
 
 // ─── Helpers ──────────────────────────────────────────────────────────────
 
@@ -85,7 +86,7 @@ export function validateService(service: Service): string[] {
  */
 export async function loadServices(
   syncDir: string,
-  privateKey: string,
+  privateKey: PrivateKey,
 ): Promise<ServiceState> {
   const state = await readState<ServiceState>(syncDir, privateKey, 'services');
   return state ?? emptyState();
@@ -101,7 +102,7 @@ export async function loadServices(
  */
 export async function loadProjectServices(
   syncDir: string,
-  privateKey: string,
+  privateKey: PrivateKey,
   project: string,
 ): Promise<Service[]> {
   const state = await loadServices(syncDir, privateKey);
@@ -111,16 +112,16 @@ export async function loadProjectServices(
 /**
  * Save (overwrite) the entire services state.
  *
- * @param syncDir   - The sync directory.
- * @param state     - The complete `ServiceState` to persist.
- * @param publicKey - Age public key for encryption.
+ * @param syncDir    - The sync directory.
+ * @param state      - The complete `ServiceState` to persist.
+ * @param recipients - Age public key(s) to encrypt for.
  */
 export async function saveServices(
   syncDir: string,
   state: ServiceState,
-  publicKey: string,
+  recipients: string | string[],
 ): Promise<void> {
-  await writeState(syncDir, state, publicKey, 'services');
+  await writeState(syncDir, state, recipients, 'services');
 }
 
 /**
@@ -131,14 +132,14 @@ export async function saveServices(
  *
  * @param syncDir    - The sync directory.
  * @param service    - The service to add/replace.
- * @param publicKey  - Age public key for encryption.
+ * @param recipients - Age public key(s) to encrypt for.
  * @param privateKey - Age private key for decryption (needed to read existing state).
  */
 export async function addService(
   syncDir: string,
   service: Service,
-  publicKey: string,
-  privateKey: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
 ): Promise<void> {
   const state = await loadServices(syncDir, privateKey);
 
@@ -148,7 +149,7 @@ export async function addService(
   );
   state.services.push(service);
 
-  await saveServices(syncDir, state, publicKey);
+  await saveServices(syncDir, state, recipients);
 }
 
 /**
@@ -157,7 +158,7 @@ export async function addService(
  * @param syncDir    - The sync directory.
  * @param project    - Project name.
  * @param name       - Service name.
- * @param publicKey  - Age public key for encryption.
+ * @param recipients - Age public key(s) to encrypt for.
  * @param privateKey - Age private key for decryption.
  * @returns `true` if a service was removed, `false` if it was not found.
  */
@@ -165,8 +166,8 @@ export async function removeService(
   syncDir: string,
   project: string,
   name: string,
-  publicKey: string,
-  privateKey: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
 ): Promise<boolean> {
   const state = await loadServices(syncDir, privateKey);
   const before = state.services.length;
@@ -178,7 +179,7 @@ export async function removeService(
     return false;
   }
 
-  await saveServices(syncDir, state, publicKey);
+  await saveServices(syncDir, state, recipients);
   return true;
 }
 
@@ -187,15 +188,15 @@ export async function removeService(
  *
  * @param syncDir    - The sync directory.
  * @param project    - Project name.
- * @param publicKey  - Age public key for encryption.
+ * @param recipients - Age public key(s) to encrypt for.
  * @param privateKey - Age private key for decryption.
  * @returns Number of services removed.
  */
 export async function removeProjectServices(
   syncDir: string,
   project: string,
-  publicKey: string,
-  privateKey: string,
+  recipients: string | string[],
+  privateKey: PrivateKey,
 ): Promise<number> {
   const state = await loadServices(syncDir, privateKey);
   const before = state.services.length;
@@ -203,7 +204,7 @@ export async function removeProjectServices(
   const removed = before - state.services.length;
 
   if (removed > 0) {
-    await saveServices(syncDir, state, publicKey);
+    await saveServices(syncDir, state, recipients);
   }
 
   return removed;
@@ -218,7 +219,7 @@ export async function removeProjectServices(
  */
 export async function listServiceProjects(
   syncDir: string,
-  privateKey: string,
+  privateKey: PrivateKey,
 ): Promise<string[]> {
   const state = await loadServices(syncDir, privateKey);
   const projects = new Set(state.services.map((s) => s.project));
@@ -238,7 +239,7 @@ export async function listServiceProjects(
  */
 export async function getAutoStartServices(
   syncDir: string,
-  privateKey: string,
+  privateKey: PrivateKey,
   project: string,
 ): Promise<Service[]> {
   const services = await loadProjectServices(syncDir, privateKey, project);
@@ -0,0 +1,369 @@
+/**
+ * Session handler module.
+ *
+ * Captures tmux sessions (windows, panes, working directories and the
+ * program running in each pane) and turns a captured session back into
+ * tmux commands on restore. Sessions are persisted in `sessions.age`
+ * (encrypted), one per project.
+ *
+ * Restoring never runs anything directly: the session layout and every
+ * pane command are returned as `PendingCommand`s for the approval
+ * workflow in `command-validator`. Pane commands are typed into their
+ * pane with `tmux send-keys` once approved.
+ *
+ * **Graceful degradation:** If tmux is not installed, restore skips the
+ * session instead of failing.
+ *
+ * @module core/session-handler
+ */
+
+import { execFileSync } from 'node:child_process';
+import type { SessionState, TmuxSession, TmuxWindow } from '@ctx-sync/shared';
+import { readState, writeState } from './state-manager.js';
+import type { ReadStateOptions } from './state-manager.js';
+import type { PendingCommand } from './command-validator.js';
+import type { PrivateKey } from './encryption.js';
+import { shellQuote } from '../utils/shell.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────
+
+/**
+ * Format passed to `tmux list-panes -a -F` (tab-separated fields).
+ */
+export const TMUX_PANE_FORMAT = [
+  '#{session_name}',
+  '#{window_index}',
+  '#{window_name}',
+  '#{window_layout}',
+  '#{pane_index}',
+  '#{pane_active}',
+  '#{pane_current_path}',
+  '#{pane_current_command}',
+].join('\t');
+
+/**
+ * Programs that mean "idle shell" — there is nothing to re-run.
+ */
+const SHELLS: ReadonlySet<string> = new Set([
+  'bash',
+  'zsh',
+  'fish',
+  'sh',
+  'dash',
+  'ksh',
+  'tcsh',
+  'csh',
+  'nu',
+]);
+
+/** Display label for the command that recreates the session layout */
+export const SESSION_LABEL = '🖥️  tmux session';
+
+/** Display label for commands typed into panes */
+export const PANE_LABEL = '🖥️  tmux panes';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+/**
+ * Build an empty `SessionState`.
+ */
+function emptyState(): SessionState {
+  return {};
+}
+
+/**
+ * Run tmux with the given arguments and return its stdout.
+ *
+ * @throws If tmux is not installed or exits non-zero.
+ */
+export function runTmux(args: string[]): string {
+  return execFileSync('tmux', args, {
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+    timeout: 5000,
+  });
+}
+
+// ─── Capture ──────────────────────────────────────────────────────────────
+
+/**
+ * Check if tmux is available on this machine.
+ */
+export function isTmuxAvailable(): boolean {
+  try {
+    runTmux(['-V']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a tmux session with exactly this name is running.
+ */
+export function tmuxSessionExists(name: string): boolean {
+  try {
+    runTmux(['has-session', '-t', `=${name}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse `tmux list-panes -a -F TMUX_PANE_FORMAT` output.
+ *
+ * @param output - The raw tmux output.
+ * @returns Windows (with panes) per session name, in tmux index order.
+ */
+export function parseTmuxPanes(output: string): Record<string, TmuxWindow[]> {
+  const rows: Array<{
+    session: string;
+    windowIndex: number;
+    windowName: string;
+    layout: string;
+    paneIndex: number;
+    active: boolean;
+    cwd: string;
+    command: string;
+  }> = [];
+
+  for (const line of output.split('\n')) {
+    const fields = line.split('\t');
+    if (fields.length < 8) continue;
+    const [session, windowIndex, windowName, layout, paneIndex, active, cwd, command] = fields as [
+      string, string, string, string, string, string, string, string,
+    ];
+    const program = command.replace(/^-/, '');
+    rows.push({
+      session,
+      windowIndex: Number(windowIndex),
+      windowName,
+      layout,
+      paneIndex: Number(paneIndex),
+      active: active === '1',
+      cwd,
+      command: SHELLS.has(program) ? '' : program,
+    });
+  }
+
+  rows.sort((a, b) => a.windowIndex - b.windowIndex || a.paneIndex - b.paneIndex);
+
+  const sessions: Record<string, Map<number, TmuxWindow>> = {};
+  for (const row of rows) {
+    const windows = (sessions[row.session] ??= new Map());
+    let window = windows.get(row.windowIndex);
+    if (!window) {
+      window = { name: row.windowName, layout: row.layout, panes: [] };
+      windows.set(row.windowIndex, window);
+    }
+    window.panes.push({ cwd: row.cwd, command: row.command, active: row.active });
+  }
+
+  return Object.fromEntries(
+    Object.entries(sessions).map(([name, windows]) => [name, [...windows.values()]]),
+  );
+}
+
+/**
+ * List all panes of all running tmux sessions.
+ *
+ * @returns Windows per session name.
+ * @throws If tmux is not installed or no server is running.
+ */
+export function listTmuxSessions(): Record<string, TmuxWindow[]> {
+  let output: string;
+  try {
+    output = runTmux(['list-panes', '-a', '-F', TMUX_PANE_FORMAT]);
+  } catch {
+    throw new Error('No tmux sessions found. Is tmux installed and running?');
+  }
+  return parseTmuxPanes(output);
+}
+
+/**
+ * Name of the tmux session this process runs in, if any.
+ */
+export function currentTmuxSession(): string | null {
+  if (!process.env['TMUX']) {
+    return null;
+  }
+  try {
+    return runTmux(['display-message', '-p', '#{session_name}']).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Capture a running tmux session.
+ *
+ * @param sessionName - The tmux session to capture.
+ * @param projectPath - The project directory on this machine.
+ * @param windows     - Output of `listTmuxSessions()` (re-read if omitted).
+ * @returns The captured session.
+ * @throws If the session is not running.
+ */
+export function captureTmuxSession(
+  sessionName: string,
+  projectPath: string,
+  windows: Record<string, TmuxWindow[]> = listTmuxSessions(),
+): TmuxSession {
+  const sessionWindows = windows[sessionName];
+  if (!sessionWindows) {
+    const available = Object.keys(windows);
+    throw new Error(
+      `tmux session "${sessionName}" not found.\n` +
+        (available.length > 0
+          ? `Running sessions: ${available.join(', ')}`
+          : 'No tmux sessions are running.'),
+    );
+  }
+
+  return {
+    name: sessionName,
+    projectPath,
+    capturedAt: new Date().toISOString(),
+    windows: sessionWindows,
+  };
+}
+
+// ─── Persistence ──────────────────────────────────────────────────────────
+
+/**
+ * Load all captured sessions from encrypted state.
+ *
+ * @param syncDir     - The sync directory.
+ * @param privateKey  - Age private key for decryption.
+ * @param readOptions - Repair options passed through to `readState()`.
+ * @returns The decrypted `SessionState`, or an empty state if the file
+ *          does not exist.
+ */
+export async function loadSessions(
+  syncDir: string,
+  privateKey: PrivateKey,
+  readOptions: ReadStateOptions = {},
+): Promise<SessionState> {
+  const state = await readState<SessionState>(syncDir, privateKey, 'sessions', readOptions);
+  return state ?? emptyState();
+}
+
+/**
+ * Save (or replace) the captured session of a project.
+ *
+ * @param syncDir     - The sync directory.
+ * @param projectName - The project the session belongs to.
+ * @param session     - The captured session.
+ * @param recipients  - Age public key(s) to encrypt for.
+ * @param privateKey  - Age private key for decryption.
+ */
+export async function saveSession(
+  syncDir: string,
+  projectName: string,
+  session: TmuxSession,
+  recipients: string | string[],
+  privateKey: PrivateKey,
+): Promise<void> {
+  const state = await loadSessions(syncDir, privateKey);
+  state[projectName] = session;
+  await writeState(syncDir, state, recipients, 'sessions');
+}
+
+// ─── Restore ──────────────────────────────────────────────────────────────
+
+/**
+ * Build the commands that recreate a captured session.
+ *
+ * Returns one command that recreates every window and pane (with its
+ * layout and remapped working directory), followed by one command per
+ * pane that had a program running. Pane commands carry a `tmuxPane`
+ * target and are typed into that pane by `sendToPane()`.
+ *
+ * @param session    - The captured session.
+ * @param resolveCwd - Maps a captured pane cwd to a directory on this machine.
+ * @returns Commands to present for approval, in execution order.
+ */
+export function buildSessionCommands(
+  session: TmuxSession,
+  resolveCwd: (cwd: string) => string,
+): PendingCommand[] {
+  const target = shellQuote(`=${session.name}:`);
+  const steps: string[] = [];
+  const paneCommands: PendingCommand[] = [];
+
+  session.windows.forEach((window, w) => {
+    const cwds = window.panes.map((pane) => resolveCwd(pane.cwd));
+    const [firstCwd, ...restCwds] = cwds;
+
+    steps.push(
+      w === 0
+        ? `new-session -d -s ${shellQuote(session.name)} -n ${shellQuote(window.name)} -c ${shellQuote(firstCwd ?? '.')}`
+        : `new-window -a -t ${target} -n ${shellQuote(window.name)} -c ${shellQuote(firstCwd ?? '.')}`,
+    );
+    for (const cwd of restCwds) {
+      steps.push(`split-window -t ${target} -c ${shellQuote(cwd)}`);
+    }
+    if (window.panes.length > 1 && window.layout) {
+      steps.push(`select-layout -t ${target} ${shellQuote(window.layout)}`);
+    }
+
+    window.panes.forEach((pane, p) => {
+      if (pane.command.trim().length > 0) {
+        paneCommands.push({
+          command: pane.command,
+          label: PANE_LABEL,
+          cwd: cwds[p],
+          tmuxPane: { session: session.name, window: w, pane: p },
+        });
+      }
+    });
+  });
+
+  if (steps.length === 0) {
+    return [];
+  }
+  steps.push(`select-window -t ${shellQuote(`=${session.name}:^`)}`);
+
+  return [{ command: `tmux ${steps.join(' \\; ')}`, label: SESSION_LABEL }, ...paneCommands];
+}
+
+/**
+ * Type a command into a pane of a restored session and press Enter.
+ *
+ * The pane is addressed by position (nth window, nth pane), so it works
+ * regardless of this machine's `base-index` settings.
+ *
+ * @param target  - Session name and window/pane positions (0-based).
+ * @param command - The command to type.
+ * @throws If the pane does not exist or tmux fails.
+ */
+export function sendToPane(
+  target: { session: string; window: number; pane: number },
+  command: string,
+): void {
+  const output = runTmux(['list-panes', '-s', '-t', `=${target.session}`, '-F', '#{window_index} #{pane_index}']);
+
+  const panesByWindow = new Map<number, number[]>();
+  for (const line of output.split('\n')) {
+    const [w, p] = line.trim().split(' ').map(Number);
+    if (w === undefined || p === undefined || Number.isNaN(w) || Number.isNaN(p)) continue;
+    const panes = panesByWindow.get(w) ?? [];
+    panes.push(p);
+    panesByWindow.set(w, panes);
+  }
+
+  const windowIndex = [...panesByWindow.keys()].sort((a, b) => a - b)[target.window];
+  const paneIndex =
+    windowIndex === undefined
+      ? undefined
+      : panesByWindow.get(windowIndex)?.sort((a, b) => a - b)[target.pane];
+  if (windowIndex === undefined || paneIndex === undefined) {
+    throw new Error(
+      `tmux pane ${String(target.pane + 1)} of window ${String(target.window + 1)} not found in session "${target.session}".`,
+    );
+  }
+
+  const pane = `=${target.session}:${String(windowIndex)}.${String(paneIndex)}`;
+  runTmux(['send-keys', '-t', pane, '-l', command]);
+  runTmux(['send-keys', '-t', pane, 'Enter']);
+}
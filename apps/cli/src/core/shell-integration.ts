@@ -0,0 +1,237 @@
+/**
+ * Shell integration module.
+ *
+ * Renders the hook printed by `ctx-sync shell-init <shell>` and manages
+ * the visit queue it writes to.
+ *
+ * The hook never starts `ctx-sync` on every `cd`. It appends the new
+ * working directory to a queue file in the config directory (a shell
+ * builtin, so it costs nothing) and flushes the queue in the background
+ * with `ctx-sync dir flush` once every `VISIT_FLUSH_THRESHOLD` visits.
+ * Paths are only ever written by hook functions, never typed or passed
+ * as arguments, so they stay out of shell history and the process list.
+ *
+ * @module core/shell-integration
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { shellQuote } from '../utils/shell.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────
+
+/** Shells `ctx-sync shell-init` can generate a hook for */
+export const SUPPORTED_SHELLS = ['bash', 'zsh', 'fish'] as const;
+
+/** A supported shell */
+export type ShellName = (typeof SUPPORTED_SHELLS)[number];
+
+/** Queue file name (under the config dir) */
+export const VISIT_QUEUE_FILE = 'dir-visits.queue';
+
+/** Number of queued visits after which a shell flushes the queue */
+export const VISIT_FLUSH_THRESHOLD = 20;
+
+/** Age after which a flush lock is considered stale */
+const FLUSH_LOCK_STALE_MS = 60 * 1000;
+
+/** Default name of the shell function that jumps to a directory */
+export const DEFAULT_JUMP_FUNCTION = 'j';
+
+/** Options for renderShellHook() */
+export interface ShellHookOptions {
+  /** Absolute path of the visit queue file */
+  queueFile: string;
+  /** Name of the jump function (default `j`) */
+  jumpFunction?: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+/**
+ * Quote a string for fish (single quotes, `\` and `'` backslash-escaped).
+ */
+function quoteFish(value: string): string {
+  return `'${value.replace(/[\\']/g, '\\$&')}'`;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────
+
+/**
+ * Check whether a string names a supported shell.
+ */
+export function isSupportedShell(shell: string): shell is ShellName {
+  return (SUPPORTED_SHELLS as readonly string[]).includes(shell);
+}
+
+/**
+ * Render the shell hook script for the given shell.
+ *
+ * @param shell   - The target shell.
+ * @param options - Queue file path and jump function name.
+ * @returns The script, meant to be `eval`ed (or `source`d in fish).
+ * @throws If the jump function name is not a valid identifier.
+ */
+export function renderShellHook(shell: ShellName, options: ShellHookOptions): string {
+  const fn = options.jumpFunction ?? DEFAULT_JUMP_FUNCTION;
+  if (!/^[A-Za-z_][A-Za-z0-9_-]*$/.test(fn)) {
+    throw new Error(`Invalid function name: "${fn}". Use letters, digits, "_" or "-".`);
+  }
+  const threshold = String(VISIT_FLUSH_THRESHOLD);
+
+  if (shell === 'fish') {
+    return [
+      '# ctx-sync shell integration (fish)',
+      `set -g __ctx_sync_queue ${quoteFish(options.queueFile)}`,
+      'set -g __ctx_sync_pending 0',
+      '',
+      'function __ctx_sync_hook --on-variable PWD',
+      '    status --is-command-substitution; and return',
+      '    printf \'%s\\n\' "$PWD" >> $__ctx_sync_queue',
+      '    set -g __ctx_sync_pending (math $__ctx_sync_pending + 1)',
+      `    if test $__ctx_sync_pending -ge ${threshold}`,
+      '        set -g __ctx_sync_pending 0',
+      '        command ctx-sync dir flush >/dev/null 2>&1 &',
+      '        disown',
+      '    end',
+      'end',
+      '',
+      `function ${fn}`,
+      '    set -l dir (command ctx-sync jump -- $argv); and builtin cd -- $dir',
+      'end',
+      '',
+    ].join('\n');
+  }
+
+  const register =
+    shell === 'zsh'
+      ? ['autoload -Uz add-zsh-hook', 'add-zsh-hook chpwd __ctx_sync_hook']
+      : [
+          'case ";${PROMPT_COMMAND:-};" in',
+          '  *";__ctx_sync_hook;"*) ;;',
+          '  *) PROMPT_COMMAND="__ctx_sync_hook${PROMPT_COMMAND:+;$PROMPT_COMMAND}" ;;',
+          'esac',
+        ];
+
+  return [
+    `# ctx-sync shell integration (${shell})`,
+    `__ctx_sync_queue=${shellQuote(options.queueFile)}`,
+    '__ctx_sync_last_dir="$PWD"',
+    '__ctx_sync_pending=0',
+    '',
+    '__ctx_sync_hook() {',
+    '  [ "$PWD" = "$__ctx_sync_last_dir" ] && return',
+    '  __ctx_sync_last_dir="$PWD"',
+    '  printf \'%s\\n\' "$PWD" >> "$__ctx_sync_queue"',
+    '  __ctx_sync_pending=$((__ctx_sync_pending + 1))',
+    `  if [ "$__ctx_sync_pending" -ge ${threshold} ]; then`,
+    '    __ctx_sync_pending=0',
+    '    (command ctx-sync dir flush >/dev/null 2>&1 &)',
+    '  fi',
+    '}',
+    ...register,
+    '',
+    `${fn}() {`,
+    '  local dir',
+    '  dir="$(command ctx-sync jump -- "$@")" && builtin cd -- "$dir"',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Create the visit queue (permissions 600) if it does not exist.
+ *
+ * @param configDir - The config directory path.
+ * @returns The queue file path.
+ */
+export function ensureVisitQueue(configDir: string): string {
+  fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
+  const queueFile = path.join(configDir, VISIT_QUEUE_FILE);
+  fs.writeFileSync(queueFile, '', { flag: 'a', mode: 0o600 });
+  fs.chmodSync(queueFile, 0o600);
+  return queueFile;
+}
+
+/**
+ * Read the queued visits without consuming them.
+ *
+ * @param configDir - The config directory path.
+ * @returns Queued paths, oldest first (including a pending flush).
+ */
+export function peekVisitQueue(configDir: string): string[] {
+  const queueFile = path.join(configDir, VISIT_QUEUE_FILE);
+  return [`${queueFile}.flushing`, queueFile].flatMap((file) =>
+    fs.existsSync(file) ? fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean) : [],
+  );
+}
+
+/**
+ * Take the queued visits for flushing.
+ *
+ * The queue is moved aside to `dir-visits.queue.flushing` so shells can
+ * keep appending while the batch is recorded. Call
+ * `completeVisitFlush()` once the batch is saved; if the flush fails,
+ * the batch is picked up again by the next one.
+ *
+ * @param configDir - The config directory path.
+ * @returns Queued paths, oldest first.
+ */
+export function takeVisitQueue(configDir: string): string[] {
+  const queueFile = path.join(configDir, VISIT_QUEUE_FILE);
+  const flushingFile = `${queueFile}.flushing`;
+
+  if (fs.existsSync(queueFile)) {
+    if (fs.existsSync(flushingFile)) {
+      // Move first so no append lands between the read and the delete
+      const movedFile = `${queueFile}.moving`;
+      fs.renameSync(queueFile, movedFile);
+      fs.appendFileSync(flushingFile, fs.readFileSync(movedFile, 'utf-8'));
+      fs.rmSync(movedFile);
+    } else {
+      fs.renameSync(queueFile, flushingFile);
+    }
+    ensureVisitQueue(configDir);
+  }
+
+  if (!fs.existsSync(flushingFile)) {
+    return [];
+  }
+  return fs.readFileSync(flushingFile, 'utf-8').split('\n').filter(Boolean);
+}
+
+/**
+ * Discard the batch returned by `takeVisitQueue()` after it was saved.
+ *
+ * @param configDir - The config directory path.
+ */
+export function completeVisitFlush(configDir: string): void {
+  fs.rmSync(path.join(configDir, `${VISIT_QUEUE_FILE}.flushing`), { force: true });
+}
+
+/**
+ * Take the flush lock so two shells never record the same batch.
+ *
+ * A lock older than a minute is treated as left behind by a crashed
+ * flush and taken over.
+ *
+ * @param configDir - The config directory path.
+ * @returns A release function, or `null` if another flush holds the lock.
+ */
+export function acquireFlushLock(configDir: string): (() => void) | null {
+  const lockFile = path.join(configDir, `${VISIT_QUEUE_FILE}.lock`);
+
+  if (fs.existsSync(lockFile) && Date.now() - fs.statSync(lockFile).mtimeMs > FLUSH_LOCK_STALE_MS) {
+    fs.rmSync(lockFile, { force: true });
+  }
+
+  try {
+    fs.closeSync(fs.openSync(lockFile, 'wx', 0o600));
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+      return null;
+    }
+    throw err;
+  }
+  return () => fs.rmSync(lockFile, { force: true });
+}
@@ -0,0 +1,352 @@
+/**
+ * Structural diff of encrypted state.
+ *
+ * `git diff` on `.age` files only shows ciphertext churn. This module
+ * decrypts two versions of a state file in memory, flattens each into
+ * `path → value` leaves (e.g. `my-app.branch` or
+ * `projects[api].git.branch`), and compares the leaves.
+ *
+ * Env var values never appear in the output. Each one is replaced by
+ * a short hash keyed with a secret derived from the user's private key,
+ * so a diff shows whether a value changed without revealing it, and
+ * nobody without the key can test guesses against a hash. Hashes are
+ * stable across runs, which lets the same flattening serve as a Git
+ * `textconv` driver (`git log -p` on the sync repo).
+ *
+ * @module core/state-diff
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { STATE_FILES } from '@ctx-sync/shared';
+import { decryptState } from './encryption.js';
+import type { PrivateKey } from './encryption.js';
+import {
+  listFilesAtCommit,
+  listIndexFiles,
+  readFileAtCommit,
+  readFileInIndex,
+} from './git-sync.js';
+import { STATE_FILE_MAP, listStateFiles, stateFileTypeOf } from './state-manager.js';
+import type { StateFileType } from './state-manager.js';
+import { decryptStateVersion } from './state-history.js';
+import { signWithSigningKey } from './roster.js';
+
+/** Hex characters kept from an env value hash */
+const HASH_LENGTH = 12;
+
+/** Signed to derive the env value hash key */
+const HASH_KEY_LABEL = 'ctx-sync diff env value hash v1';
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/**
+ * One side of a diff: the working tree, the index, or a commit (any
+ * commit-ish Git resolves).
+ */
+export type DiffSide = { kind: 'worktree' } | { kind: 'index' } | { kind: 'commit'; ref: string };
+
+/** A leaf that differs between the two sides */
+export interface StateDiffLine {
+  /** `+` added, `-` removed, `~` changed */
+  op: '+' | '-' | '~';
+  /** The leaf path, e.g. `my-app.STRIPE_KEY.value` */
+  path: string;
+  /** The old value, as JSON (absent for `+`) */
+  before?: string;
+  /** The new value, as JSON (absent for `-`) */
+  after?: string;
+}
+
+/** The diff of one state file */
+export interface StateFileDiff {
+  /** The state file, relative to the sync dir */
+  file: string;
+  /** The differing leaves; empty when only the ciphertext changed */
+  lines: StateDiffLine[];
+  /** Set when this key cannot decrypt one of the sides */
+  unreadable: boolean;
+}
+
+// ─── Flattening ───────────────────────────────────────────────────────────
+
+/**
+ * Derive the key env value hashes are made with.
+ *
+ * It is the roster signing key's signature over a fixed label: secret
+ * (only the private key can make it), the same on every run (Ed25519
+ * signatures are deterministic), and available from the key agent
+ * without the private key itself.
+ *
+ * @param privateKey - The Age private key, or the key agent.
+ */
+export async function deriveHashKey(privateKey: PrivateKey): Promise<Buffer> {
+  return signWithSigningKey(privateKey, Buffer.from(HASH_KEY_LABEL));
+}
+
+/**
+ * Hash an env var value for display. Keyed with a secret (see
+ * `deriveHashKey`), so nobody with only the sync repo can find the
+ * value by hashing likely candidates.
+ */
+export function hashEnvValue(value: string, hashKey: Buffer): string {
+  const digest = crypto.createHmac('sha256', hashKey).update(value).digest('hex');
+  return `hash:${digest.slice(0, HASH_LENGTH)}`;
+}
+
+/** Replace every env var value with its hash */
+function hashEnvVars(data: unknown, hashKey: Buffer): unknown {
+  if (!data || typeof data !== 'object') return data;
+  return Object.fromEntries(
+    Object.entries(data as Record<string, Record<string, Record<string, unknown>>>).map(
+      ([project, vars]) => [
+        project,
+        Object.fromEntries(
+          Object.entries(vars).map(([key, entry]) => [
+            key,
+            { ...entry, value: hashEnvValue(String(entry['value']), hashKey) },
+          ]),
+        ),
+      ],
+    ),
+  );
+}
+
+/** The key identifying an array element, if it has a name or id */
+function elementKey(element: unknown): string | null {
+  if (!element || typeof element !== 'object') return null;
+  const { name, id } = element as { name?: unknown; id?: unknown };
+  if (typeof name === 'string') return name;
+  return typeof id === 'string' ? id : null;
+}
+
+function flattenInto(value: unknown, prefix: string, leaves: Map<string, string>): void {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      leaves.set(prefix, '[]');
+      return;
+    }
+    // Named elements are keyed by name, so reordering is not a change
+    const keys = value.map(elementKey);
+    const named = keys.every((key) => key !== null) && new Set(keys).size === keys.length;
+    value.forEach((element, i) => {
+      flattenInto(element, `${prefix}[${named ? String(keys[i]) : String(i)}]`, leaves);
+    });
+    return;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      leaves.set(prefix, '{}');
+      return;
+    }
+    for (const [key, child] of entries) {
+      flattenInto(child, prefix ? `${prefix}.${key}` : key, leaves);
+    }
+    return;
+  }
+
+  leaves.set(prefix, JSON.stringify(value));
+}
+
+/**
+ * Flatten decrypted state into `path → value` leaves, with env var
+ * values replaced by their hashes.
+ *
+ * @param fileType - The state file type.
+ * @param data - The decrypted state (`null` for none).
+ * @param hashKey - Keys the env value hashes (see `deriveHashKey`).
+ * @returns The leaves, in document order.
+ */
+export function flattenState(
+  fileType: StateFileType,
+  data: unknown,
+  hashKey: Buffer,
+): Map<string, string> {
+  const leaves = new Map<string, string>();
+  if (data !== null && data !== undefined) {
+    flattenInto(fileType === 'env-vars' ? hashEnvVars(data, hashKey) : data, '', leaves);
+  }
+  return leaves;
+}
+
+/**
+ * Compare two flattened versions.
+ *
+ * @returns Added and changed leaves in the new version's order, then
+ *   removed leaves.
+ */
+export function diffLeaves(
+  before: Map<string, string>,
+  after: Map<string, string>,
+): StateDiffLine[] {
+  const lines: StateDiffLine[] = [];
+  for (const [leaf, value] of after) {
+    const old = before.get(leaf);
+    if (old === undefined) {
+      lines.push({ op: '+', path: leaf, after: value });
+    } else if (old !== value) {
+      lines.push({ op: '~', path: leaf, before: old, after: value });
+    }
+  }
+  for (const [leaf, value] of before) {
+    if (!after.has(leaf)) {
+      lines.push({ op: '-', path: leaf, before: value });
+    }
+  }
+  return lines;
+}
+
+// ─── Reading Sides ────────────────────────────────────────────────────────
+
+function readSideFile(syncDir: string, side: DiffSide, relPath: string): Promise<string | null> {
+  switch (side.kind) {
+    case 'worktree': {
+      const filePath = path.join(syncDir, relPath);
+      return Promise.resolve(fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null);
+    }
+    case 'index':
+      return readFileInIndex(syncDir, relPath);
+    case 'commit':
+      return readFileAtCommit(syncDir, side.ref, relPath);
+  }
+}
+
+function listSideFiles(syncDir: string, side: DiffSide): Promise<string[]> {
+  switch (side.kind) {
+    case 'worktree':
+      return Promise.resolve(listStateFiles(syncDir));
+    case 'index':
+      return listIndexFiles(syncDir);
+    case 'commit':
+      return listFilesAtCommit(syncDir, side.ref);
+  }
+}
+
+/**
+ * Decrypt a state file as it is on one side of the diff, upgraded to
+ * the current schema version.
+ *
+ * @returns The state, or `null` if the file does not exist on that side.
+ */
+export async function readStateOnSide(
+  syncDir: string,
+  side: DiffSide,
+  relPath: string,
+  privateKey: PrivateKey,
+): Promise<unknown> {
+  return decryptStateVersion(
+    relPath,
+    await readSideFile(syncDir, side, relPath),
+    await readSideFile(syncDir, side, STATE_FILES.MANIFEST),
+    privateKey,
+  );
+}
+
+// ─── Diff ─────────────────────────────────────────────────────────────────
+
+/**
+ * Diff every state file between two sides.
+ *
+ * @param syncDir - The sync directory path.
+ * @param base - The old side (`null` when there is none yet, e.g. no
+ *   commits).
+ * @param target - The new side.
+ * @param privateKey - The key to decrypt with (its public key keys the
+ *   env value hashes).
+ * @param fileType - Only diff this state file type.
+ * @returns One diff per state file that changed.
+ */
+export async function diffStateSides(
+  syncDir: string,
+  base: DiffSide | null,
+  target: DiffSide,
+  privateKey: PrivateKey,
+  fileType?: StateFileType,
+): Promise<StateFileDiff[]> {
+  const hashKey = await deriveHashKey(privateKey);
+  const baseFiles = base ? await listSideFiles(syncDir, base) : [];
+  const files = [...new Set([...baseFiles, ...(await listSideFiles(syncDir, target))])].filter(
+    (file) => {
+      const type = stateFileTypeOf(file);
+      return type !== null && (!fileType || type === fileType);
+    },
+  );
+
+  const diffs: StateFileDiff[] = [];
+  for (const file of files) {
+    const type = stateFileTypeOf(file);
+    if (!type) continue;
+
+    const baseText = base ? await readSideFile(syncDir, base, file) : null;
+    const targetText = await readSideFile(syncDir, target, file);
+    if (baseText === targetText) continue;
+
+    try {
+      const before = base ? await readStateOnSide(syncDir, base, file, privateKey) : null;
+      const after = await readStateOnSide(syncDir, target, file, privateKey);
+      diffs.push({
+        file,
+        lines: diffLeaves(flattenState(type, before, hashKey), flattenState(type, after, hashKey)),
+        unreadable: false,
+      });
+    } catch {
+      diffs.push({ file, lines: [], unreadable: true });
+    }
+  }
+  return diffs;
+}
+
+// ─── Textconv ─────────────────────────────────────────────────────────────
+
+/**
+ * The state file type of a file Git hands a textconv driver. Git
+ * passes older blobs as temp files named `XXXXXX_<basename>`.
+ */
+function textconvFileType(filePath: string): StateFileType | null {
+  const base = path.basename(filePath);
+  const entry = Object.entries(STATE_FILE_MAP).find(
+    ([, name]) => base === name || base.endsWith(`_${name}`),
+  );
+  return entry ? (entry[0] as StateFileType) : null;
+}
+
+/**
+ * Convert an encrypted state file to text Git can diff: one
+ * `path = value` line per leaf, env var values hashed.
+ *
+ * The file is decrypted as written (no schema migration — a blob from
+ * an old commit has no manifest to go by). Files that are not state,
+ * or that this key cannot decrypt, get a one-line placeholder instead
+ * of an error, so `git log -p` keeps going.
+ *
+ * @param filePath - The file Git passes to the driver.
+ * @param privateKey - The key to decrypt with, or `null` if none is usable.
+ * @returns The text, ending in a newline.
+ */
+export async function textconvState(
+  filePath: string,
+  privateKey: PrivateKey | null,
+): Promise<string> {
+  const fileType = textconvFileType(filePath);
+  const ciphertext = fs.readFileSync(filePath, 'utf-8');
+  if (!fileType || !ciphertext.trim()) {
+    return `(${ciphertext.trim() ? 'not a ctx-sync state file' : 'empty'})\n`;
+  }
+  if (!privateKey) {
+    return '(encrypted — no usable key; unlock it with: ctx-sync key unlock)\n';
+  }
+
+  let data: unknown;
+  try {
+    data = await decryptState<unknown>(ciphertext, privateKey);
+  } catch {
+    return '(encrypted — cannot be decrypted with this key)\n';
+  }
+
+  const hashKey = await deriveHashKey(privateKey);
+  const lines = [...flattenState(fileType, data, hashKey)].map(([leaf, value]) => `${leaf} = ${value}`);
+  return lines.join('\n') + '\n';
+}
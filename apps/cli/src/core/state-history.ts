@@ -0,0 +1,419 @@
+/**
+ * State history module.
+ *
+ * The sync repo is a Git history of encrypted snapshots. This module
+ * reads past versions of the state files, decrypts them in memory and
+ * summarises what changed between consecutive versions: projects added,
+ * env var keys changed, blockers resolved, and so on.
+ *
+ * Summaries never contain env var values — only key names. Other state
+ * (project names, tasks, blockers, paths) is shown as `ctx-sync show`
+ * would show it.
+ *
+ * @module core/state-history
+ */
+
+import * as path from 'node:path';
+import { STATE_FILES } from '@ctx-sync/shared';
+import type {
+  Manifest,
+  StateFile,
+  EnvVars,
+  DockerState,
+  MentalContext,
+  ServiceState,
+  DirectoryState,
+  SessionState,
+  IdeState,
+} from '@ctx-sync/shared';
+import { decryptState } from './encryption.js';
+import { parseEnvGroupKey, parseEnvGroupRef } from './env-handler.js';
+import type { PrivateKey } from './encryption.js';
+import { listFileCommits, readFileAtCommit } from './git-sync.js';
+import { mergeProjects, normalizeStateFile } from './machine-state.js';
+import type { MergedProject } from './machine-state.js';
+import { STATE_FILE_MAP, listStateFiles, migrateState, stateFileTypeOf } from './state-manager.js';
+import type { StateFileType } from './state-manager.js';
+
+/** Commits shown by default */
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** What happened to one state file in a commit */
+export interface StateFileChange {
+  /** The state file, relative to the sync dir (e.g. 'env-vars.age') */
+  file: string;
+  /** One line per change; never contains env var values */
+  summary: string[];
+  /** Set when this key cannot decrypt the file at this commit or the one before */
+  unreadable: boolean;
+}
+
+/** A commit that changed state */
+export interface HistoryEntry {
+  /** Full commit hash */
+  hash: string;
+  /** Commit date (ISO 8601) */
+  date: string;
+  /** Commit subject */
+  message: string;
+  /** The state files it changed */
+  changes: StateFileChange[];
+}
+
+/** Options for `getStateHistory()` */
+export interface StateHistoryOptions {
+  /** Only this state file type */
+  fileType?: StateFileType;
+  /** Most commits to return (default: 20) */
+  limit?: number;
+}
+
+// ─── File Names ───────────────────────────────────────────────────────────
+
+/**
+ * Parse a state file name given on the command line: a type such as
+ * `env-vars`, or its file name (`env-vars.age`).
+ *
+ * @throws If it names no state file.
+ */
+export function parseStateFileType(name: string): StateFileType {
+  const fileType = stateFileTypeOf(name.endsWith('.age') ? name : `${name}.age`);
+  if (!fileType) {
+    throw new Error(
+      `Unknown state file: ${name}\n` + `Valid files: ${Object.keys(STATE_FILE_MAP).join(', ')}`,
+    );
+  }
+  return fileType;
+}
+
+// ─── Reading Past Versions ────────────────────────────────────────────────
+
+/**
+ * Decrypt a state file as it was at a commit, upgraded to the current
+ * schema version (per the manifest of that commit).
+ *
+ * @param syncDir - The sync directory path.
+ * @param commit - The commit hash.
+ * @param relPath - The state file, relative to `syncDir`.
+ * @param privateKey - The key to decrypt with.
+ * @returns The decrypted state, or `null` if the file did not exist
+ *   (or was empty) at that commit.
+ * @throws If the file cannot be decrypted or is newer than this CLI.
+ */
+export async function readStateAtCommit(
+  syncDir: string,
+  commit: string,
+  relPath: string,
+  privateKey: PrivateKey,
+): Promise<unknown> {
+  const ciphertext = await readFileAtCommit(syncDir, commit, relPath);
+  const manifestText = await readFileAtCommit(syncDir, commit, STATE_FILES.MANIFEST);
+  return decryptStateVersion(relPath, ciphertext, manifestText, privateKey);
+}
+
+/**
+ * Decrypt one version of a state file and upgrade it to the current
+ * schema version, per the manifest written alongside it.
+ *
+ * @param relPath - The state file, relative to the sync dir.
+ * @param ciphertext - That version's contents (`null` if it did not exist).
+ * @param manifestText - The manifest of the same version, if any.
+ * @param privateKey - The key to decrypt with.
+ * @returns The decrypted state, or `null` if there is none.
+ * @throws If the file cannot be decrypted or is newer than this CLI.
+ */
+export async function decryptStateVersion(
+  relPath: string,
+  ciphertext: string | null,
+  manifestText: string | null,
+  privateKey: PrivateKey,
+): Promise<unknown> {
+  const fileType = stateFileTypeOf(relPath);
+  if (!fileType || !ciphertext?.trim()) {
+    return null;
+  }
+
+  let schemaVersion = 1;
+  try {
+    const manifest = manifestText ? (JSON.parse(manifestText) as Manifest) : null;
+    schemaVersion = manifest?.files[relPath]?.schemaVersion ?? 1;
+  } catch {
+    // Unreadable manifest — assume the first schema version
+  }
+
+  return migrateState(fileType, await decryptState<unknown>(ciphertext, privateKey), schemaVersion);
+}
+
+// ─── Summaries ────────────────────────────────────────────────────────────
+
+type Summarizer = (before: unknown, after: unknown) => string[];
+
+/** Names in `after` but not `before`, and the other way round */
+function addedRemoved(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  return {
+    added: after.filter((name) => !before.includes(name)),
+    removed: before.filter((name) => !after.includes(name)),
+  };
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Summarise a keyed-by-project file with a per-project summariser */
+function perProject<T>(
+  label: string,
+  summarizeProject: (name: string, before: T, after: T) => string[],
+): Summarizer {
+  return (before, after) => {
+    const b = (before ?? {}) as Record<string, T>;
+    const a = (after ?? {}) as Record<string, T>;
+    const { added, removed } = addedRemoved(Object.keys(b), Object.keys(a));
+    const lines = [
+      ...added.map((name) => `${name}: ${label} added`),
+      ...removed.map((name) => `${name}: ${label} removed`),
+    ];
+    for (const name of Object.keys(a)) {
+      const prev = b[name];
+      const next = a[name];
+      if (prev !== undefined && next !== undefined && !same(prev, next)) {
+        lines.push(...summarizeProject(name, prev, next));
+      }
+    }
+    return lines;
+  };
+}
+
+const summarizeState: Summarizer = (before, after) => {
+  const projectsOf = (data: unknown): MergedProject[] =>
+    data ? mergeProjects(normalizeStateFile(data as StateFile)) : [];
+  const b = projectsOf(before);
+  const a = projectsOf(after);
+  const { added, removed } = addedRemoved(b.map((p) => p.name), a.map((p) => p.name));
+  const lines = [
+    ...added.map((name) => `project added: ${name}`),
+    ...removed.map((name) => `project removed: ${name}`),
+  ];
+  for (const project of a) {
+    const prev = b.find((p) => p.name === project.name);
+    if (prev && prev.git.branch !== project.git.branch) {
+      lines.push(`${project.name}: branch ${prev.git.branch} → ${project.git.branch}`);
+    } else if (prev && prev.path !== project.path) {
+      lines.push(`${project.name}: moved to ${project.path}`);
+    }
+  }
+  return lines;
+};
+
+const summarizeEnvVarsByKey = perProject<EnvVars[string]>('env vars', (name, before, after) => {
+  const { added, removed } = addedRemoved(Object.keys(before), Object.keys(after));
+  const changed = Object.keys(after).filter(
+    (key) => before[key] !== undefined && before[key]?.value !== after[key]?.value,
+  );
+  const parts = [
+    added.length > 0 ? `added ${added.join(', ')}` : '',
+    changed.length > 0 ? `changed ${changed.join(', ')}` : '',
+    removed.length > 0 ? `removed ${removed.join(', ')}` : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? [`${name}: ${parts.join('; ')}`] : [];
+});
+
+/**
+ * Env vars per project, profile and group, with group references
+ * summarised as a project starting or stopping to use a group.
+ */
+const summarizeEnvVars: Summarizer = (before, after) => {
+  const split = (data: unknown): { vars: EnvVars; refs: string[] } => {
+    const vars: EnvVars = {};
+    const refs: string[] = [];
+    for (const [key, entry] of Object.entries((data ?? {}) as EnvVars)) {
+      if (parseEnvGroupRef(key)) {
+        refs.push(key);
+      } else {
+        const group = parseEnvGroupKey(key);
+        vars[group !== null ? `group ${group}` : key] = entry;
+      }
+    }
+    return { vars, refs };
+  };
+  const b = split(before);
+  const a = split(after);
+  const { added, removed } = addedRemoved(b.refs, a.refs);
+  const describe = (key: string, verb: string): string => {
+    const ref = parseEnvGroupRef(key);
+    return `${ref?.project ?? key}: ${verb} group ${ref?.group ?? ''}`;
+  };
+  return [
+    ...summarizeEnvVarsByKey(b.vars, a.vars),
+    ...added.map((key) => describe(key, 'uses')),
+    ...removed.map((key) => describe(key, 'no longer uses')),
+  ];
+};
+
+const summarizeDocker = perProject<DockerState[string]>('Docker services', (name, before, after) => {
+  const { added, removed } = addedRemoved(
+    before.services.map((s) => s.name),
+    after.services.map((s) => s.name),
+  );
+  return [
+    ...added.map((service) => `${name}: service added: ${service}`),
+    ...removed.map((service) => `${name}: service removed: ${service}`),
+  ];
+});
+
+const summarizeMentalContext = perProject<MentalContext[string]>('context', (name, before, after) => {
+  const lines: string[] = [];
+  if (before.currentTask !== after.currentTask) {
+    lines.push(`${name}: task → "${after.currentTask}"`);
+  }
+  const blockers = addedRemoved(
+    before.blockers.map((b) => b.description),
+    after.blockers.map((b) => b.description),
+  );
+  lines.push(...blockers.added.map((blocker) => `${name}: blocker added: ${blocker}`));
+  lines.push(...blockers.removed.map((blocker) => `${name}: blocker resolved: ${blocker}`));
+  const steps = addedRemoved(before.nextSteps, after.nextSteps);
+  lines.push(...steps.added.map((step) => `${name}: next step added: ${step}`));
+  lines.push(...steps.removed.map((step) => `${name}: next step done: ${step}`));
+  const notes = after.breadcrumbs.length - before.breadcrumbs.length;
+  if (notes > 0) {
+    lines.push(`${name}: ${String(notes)} breadcrumb(s) added`);
+  }
+  if (after.lastWorkingOn && !same(before.lastWorkingOn, after.lastWorkingOn)) {
+    lines.push(`${name}: working on ${after.lastWorkingOn.file}:${String(after.lastWorkingOn.line)}`);
+  }
+  return lines;
+});
+
+const summarizeServices: Summarizer = (before, after) => {
+  const names = (data: unknown): string[] =>
+    ((data as ServiceState | null)?.services ?? []).map((s) => `${s.project}/${s.name}`);
+  const { added, removed } = addedRemoved(names(before), names(after));
+  return [
+    ...added.map((service) => `service added: ${service}`),
+    ...removed.map((service) => `service removed: ${service}`),
+  ];
+};
+
+const summarizeDirectories: Summarizer = (before, after) => {
+  const b = before as DirectoryState | null;
+  const a = after as DirectoryState | null;
+  const pinned = addedRemoved(b?.pinnedDirs ?? [], a?.pinnedDirs ?? []);
+  const lines = [
+    ...pinned.added.map((dir) => `pinned: ${dir}`),
+    ...pinned.removed.map((dir) => `unpinned: ${dir}`),
+  ];
+  if (!same(b?.recentDirs ?? [], a?.recentDirs ?? [])) {
+    lines.push('recent directories updated');
+  }
+  return lines;
+};
+
+const summarizeSessions = perProject<SessionState[string]>('tmux session', (name, _before, after) => [
+  `${name}: tmux session recaptured (${String(after.windows.length)} window(s))`,
+]);
+
+const summarizeIde = perProject<IdeState[string]>('IDE state', (name, before, after) => {
+  const extensions = addedRemoved(before.vscode.extensions, after.vscode.extensions);
+  return [
+    `${name}: IDE state recaptured`,
+    ...extensions.added.map((ext) => `${name}: extension added: ${ext}`),
+    ...extensions.removed.map((ext) => `${name}: extension removed: ${ext}`),
+  ];
+});
+
+const SUMMARIZERS: Record<StateFileType, Summarizer> = {
+  state: summarizeState,
+  'env-vars': summarizeEnvVars,
+  'docker-state': summarizeDocker,
+  'mental-context': summarizeMentalContext,
+  services: summarizeServices,
+  directories: summarizeDirectories,
+  sessions: summarizeSessions,
+  'ide-state': summarizeIde,
+};
+
+/**
+ * Summarise the change between two versions of a state file.
+ *
+ * @param fileType - The state file type.
+ * @param before - The older version (`null` if the file was created).
+ * @param after - The newer version (`null` if the file was removed).
+ * @returns One line per change; never contains env var values.
+ */
+export function summarizeStateChange(
+  fileType: StateFileType,
+  before: unknown,
+  after: unknown,
+): string[] {
+  if (after === null && before !== null) {
+    return ['file removed'];
+  }
+  const lines = SUMMARIZERS[fileType](before, after);
+  if (lines.length > 0) {
+    return lines;
+  }
+  return same(before, after) ? ['re-encrypted (no content change)'] : ['details changed'];
+}
+
+// ─── History ──────────────────────────────────────────────────────────────
+
+/**
+ * List the commits that changed state, newest first, each with a
+ * summary of what changed in every state file it touched.
+ *
+ * @param syncDir - The sync directory path.
+ * @param privateKey - The key to decrypt past versions with.
+ * @param options - File type filter and commit limit.
+ * @returns The history entries.
+ */
+export async function getStateHistory(
+  syncDir: string,
+  privateKey: PrivateKey,
+  options: StateHistoryOptions = {},
+): Promise<HistoryEntry[]> {
+  const limit = options.limit ?? DEFAULT_HISTORY_LIMIT;
+  const wanted = options.fileType ? STATE_FILE_MAP[options.fileType] : null;
+  const files = [...new Set([...Object.values(STATE_FILE_MAP), ...listStateFiles(syncDir)])].filter(
+    (file) => !wanted || path.basename(file) === wanted,
+  );
+
+  const entries = new Map<string, HistoryEntry>();
+  for (const relPath of files) {
+    const fileType = stateFileTypeOf(relPath);
+    if (!fileType) continue;
+
+    const commits = (await listFileCommits(syncDir, relPath)).slice(0, limit + 1);
+    const read = async (hash: string | undefined): Promise<{ data: unknown; ok: boolean }> => {
+      if (!hash) return { data: null, ok: true };
+      try {
+        return { data: await readStateAtCommit(syncDir, hash, relPath, privateKey), ok: true };
+      } catch {
+        return { data: null, ok: false };
+      }
+    };
+
+    let after = await read(commits[0]?.hash);
+    for (let i = 0; i < Math.min(commits.length, limit); i++) {
+      const commit = commits[i];
+      if (!commit) break;
+      const before = await read(commits[i + 1]?.hash);
+      const unreadable = !after.ok || !before.ok;
+
+      const entry = entries.get(commit.hash) ?? { ...commit, changes: [] };
+      entry.changes.push({
+        file: relPath,
+        summary: unreadable ? [] : summarizeStateChange(fileType, before.data, after.data),
+        unreadable,
+      });
+      entries.set(commit.hash, entry);
+      after = before;
+    }
+  }
+
+  return [...entries.values()]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, limit);
+}
@@ -4,35 +4,77 @@
  * Provides read/write operations for all encrypted state files (.age)
  * and the plaintext manifest. State is always encrypted before writing
  * to disk — no plaintext JSON is ever written (except manifest.json
- * which contains only version and timestamps).
+ * which contains only versions and timestamps).
+ *
+ * Each state file has a schema version, recorded in its manifest entry.
+ * Older payloads are upgraded on read through `STATE_MIGRATIONS`; a
+ * payload newer than this CLI understands is refused rather than
+ * misread.
+ *
+ * A project shared with scoped team members keeps its env vars, Docker
+ * state and mental context in its own blobs under `projects/<name>/`,
+ * encrypted for that project's recipients. `readProjectState()` and
+ * `writeProjectState()` pick the blob or the repo-wide file.
  *
  * @module core/state-manager
  */
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { STATE_FILES, VERSION } from '@ctx-sync/shared';
+import {
+  STATE_FILES,
+  STATE_SCHEMA_VERSIONS,
+  VERSION,
+  validateStateFile,
+  validateEnvVars,
+  validateDockerState,
+  validateMentalContext,
+  validateServiceState,
+  validateDirectoryState,
+  validateSessionState,
+  validateIdeState,
+  repairStateFile,
+  repairEnvVars,
+  repairDockerState,
+  repairMentalContext,
+  repairServiceState,
+  repairDirectoryState,
+  repairSessionState,
+  repairIdeState,
+} from '@ctx-sync/shared';
 import type {
+  ValidationResult,
+  RepairResult,
   StateFile,
+  LegacyStateFile,
   EnvVars,
   DockerState,
   MentalContext,
   ServiceState,
   DirectoryState,
+  SessionState,
+  IdeState,
   Manifest,
 } from '@ctx-sync/shared';
 import { encryptState, encryptStateForRecipients, decryptState } from './encryption.js';
+import type { PrivateKey } from './encryption.js';
+import { StateValidationError, StateVersionError } from '../utils/errors.js';
+import type { DecryptionError } from '../utils/errors.js';
+import { diagnoseDecryptionFailure } from './decryption-failure.js';
 
 /**
  * Union of all encrypted state data types.
  */
 export type StateData =
   | StateFile
+  | LegacyStateFile
   | EnvVars
   | DockerState
   | MentalContext
   | ServiceState
-  | DirectoryState;
+  | DirectoryState
+  | SessionState
+  | IdeState;
 
 /**
  * Map of state file type to filename constant.
@@ -44,30 +86,242 @@ export const STATE_FILE_MAP = {
   'mental-context': STATE_FILES.MENTAL_CONTEXT,
   services: STATE_FILES.SERVICES,
   directories: STATE_FILES.DIRECTORIES,
+  sessions: STATE_FILES.SESSIONS,
+  'ide-state': STATE_FILES.IDE_STATE,
 } as const;
 
 /** Valid state file types */
 export type StateFileType = keyof typeof STATE_FILE_MAP;
 
+/**
+ * The type of a state file, from its path relative to the sync dir
+ * (repo-wide or a project blob), or `null` if it is not a state file.
+ */
+export function stateFileTypeOf(relPath: string): StateFileType | null {
+  const filename = path.basename(relPath);
+  const entry = Object.entries(STATE_FILE_MAP).find(([, name]) => name === filename);
+  return entry ? (entry[0] as StateFileType) : null;
+}
+
+/**
+ * Schema validator for each state file type.
+ */
+export const STATE_VALIDATORS: Record<StateFileType, (data: unknown) => ValidationResult> = {
+  state: validateStateFile,
+  'env-vars': validateEnvVars,
+  'docker-state': validateDockerState,
+  'mental-context': validateMentalContext,
+  services: validateServiceState,
+  directories: validateDirectoryState,
+  sessions: validateSessionState,
+  'ide-state': validateIdeState,
+};
+
+/**
+ * Repair function for each state file type (drops malformed entries).
+ */
+const STATE_REPAIRERS: Record<StateFileType, (data: unknown) => RepairResult<unknown>> = {
+  state: repairStateFile,
+  'env-vars': repairEnvVars,
+  'docker-state': repairDockerState,
+  'mental-context': repairMentalContext,
+  services: repairServiceState,
+  directories: repairDirectoryState,
+  sessions: repairSessionState,
+  'ide-state': repairIdeState,
+};
+
+/**
+ * Upgrade of a state payload from one schema version to the next.
+ */
+export interface StateMigration {
+  /** Version the migration upgrades from (it produces `from + 1`) */
+  from: number;
+  /** Short description of the change, shown by `ctx-sync migrate` */
+  description: string;
+  /** Transform a decrypted payload; must not drop data it does not recognise */
+  migrate: (data: unknown) => unknown;
+}
+
+/**
+ * Registered migrations per state file type, in ascending `from` order.
+ *
+ * When a file's entry in `STATE_SCHEMA_VERSIONS` is bumped, a migration
+ * from the previous version must be added here.
+ */
+export const STATE_MIGRATIONS: Record<StateFileType, StateMigration[]> = {
+  state: [
+    {
+      from: 1,
+      description: 'Store one snapshot per machine',
+      migrate: (data) => {
+        const d = data as Partial<LegacyStateFile> & Partial<StateFile>;
+        if (d.machines !== undefined || d.machine === undefined) {
+          return data;
+        }
+        const projects = d.projects ?? [];
+        const updatedAt = projects.reduce(
+          (latest, p) => (p.lastAccessed > latest ? p.lastAccessed : latest),
+          new Date(0).toISOString(),
+        );
+        return { machines: { [d.machine.id]: { machine: d.machine, projects, updatedAt } } };
+      },
+    },
+  ],
+  'env-vars': [
+    {
+      from: 1,
+      description: 'Allow secret references, env profiles and env groups',
+      // Version 1 data is valid version 2 data; the bump only keeps older CLIs out
+      migrate: (data) => data,
+    },
+  ],
+  'docker-state': [],
+  'mental-context': [],
+  services: [],
+  directories: [],
+  sessions: [],
+  'ide-state': [],
+};
+
+/**
+ * The schema version this CLI writes for a state file type.
+ */
+export function currentSchemaVersion(fileType: StateFileType): number {
+  return STATE_SCHEMA_VERSIONS[STATE_FILE_MAP[fileType]] ?? 1;
+}
+
+/**
+ * The schema version recorded for a state file in the manifest.
+ *
+ * Files written before versioning existed have no recorded version and
+ * are treated as version 1.
+ *
+ * @param stateDir - The sync directory path.
+ * @param fileType - The type of state file.
+ */
+export function getSchemaVersion(stateDir: string, fileType: StateFileType): number {
+  return getStateFileSchemaVersion(stateDir, STATE_FILE_MAP[fileType]);
+}
+
+/**
+ * The schema version recorded in the manifest for a file path relative
+ * to the sync directory — a repo-wide file or a project blob.
+ *
+ * @param stateDir - The sync directory path.
+ * @param relPath - The state file, relative to `stateDir`.
+ */
+export function getStateFileSchemaVersion(stateDir: string, relPath: string): number {
+  const manifest = readManifest(stateDir);
+  return manifest?.files[relPath]?.schemaVersion ?? 1;
+}
+
+/**
+ * Upgrade a decrypted payload to the current schema version.
+ *
+ * @param fileType - The type of state file.
+ * @param data - The decrypted payload.
+ * @param fromVersion - The schema version the payload was written in.
+ * @returns The payload in the current schema version.
+ * @throws StateVersionError if the payload is newer than this CLI supports.
+ */
+export function migrateState(fileType: StateFileType, data: unknown, fromVersion: number): unknown {
+  const current = currentSchemaVersion(fileType);
+  if (fromVersion > current) {
+    throw new StateVersionError(STATE_FILE_MAP[fileType], fromVersion, current);
+  }
+
+  let migrated = data;
+  for (const migration of STATE_MIGRATIONS[fileType]) {
+    if (migration.from >= fromVersion && migration.from < current) {
+      migrated = migration.migrate(migrated);
+    }
+  }
+  return migrated;
+}
+
+/** Options for readState() */
+export interface ReadStateOptions {
+  /**
+   * Drop malformed entries instead of throwing `StateValidationError`.
+   * The repaired data is returned; nothing is written back to disk.
+   */
+  repair?: boolean;
+  /** Called with the dropped field paths when a repair removed entries */
+  onRepair?: (file: string, dropped: string[]) => void;
+}
+
+/**
+ * Validate decrypted (or about-to-be-encrypted) state against its schema.
+ *
+ * @param fileType - The type of state file.
+ * @param data - The state data.
+ * @throws StateValidationError naming every invalid field path.
+ */
+export function validateState(fileType: StateFileType, data: unknown): void {
+  const result = STATE_VALIDATORS[fileType](data);
+  if (!result.valid) {
+    throw new StateValidationError(STATE_FILE_MAP[fileType], result.errors);
+  }
+}
+
 /**
  * Read and decrypt an encrypted state file.
  *
  * Reads the specified `.age` file from the sync directory, decrypts it
- * using the provided private key, and returns the parsed typed data.
+ * using the provided private key, upgrades it to the current schema
+ * version, and validates the result against the schema for its file
+ * type before returning it.
  *
  * @param stateDir - The sync directory path (e.g. ~/.context-sync).
  * @param privateKey - The Age private key for decryption.
  * @param fileType - The type of state file to read.
+ * @param options - Repair behaviour for malformed data.
  * @returns The decrypted and parsed state data, or `null` if the file does not exist.
- * @throws If decryption fails (wrong key, corrupted file, etc.).
+ * @throws DecryptionError if decryption fails, classified by cause.
+ * @throws StateVersionError if the file was written in a newer schema version.
+ * @throws StateValidationError if the data is malformed and `repair` is not set.
  */
 export async function readState<T = StateData>(
   stateDir: string,
-  privateKey: string,
+  privateKey: PrivateKey,
   fileType: StateFileType,
+  options: ReadStateOptions = {},
 ): Promise<T | null> {
-  const filename = STATE_FILE_MAP[fileType];
-  const filePath = path.join(stateDir, filename);
+  return readStateAt<T>(stateDir, STATE_FILE_MAP[fileType], privateKey, fileType, options);
+}
+
+/**
+ * Read state from a path relative to the sync dir — a repo-wide file or
+ * a project blob. Same checks as `readState()`.
+ *
+ * @param stateDir - The sync directory path.
+ * @param relPath - The state file, relative to `stateDir`.
+ * @param privateKey - The Age private key for decryption.
+ * @param fileType - The type of state file to read.
+ * @param options - Repair behaviour for malformed data.
+ */
+export async function readStateFile<T = StateData>(
+  stateDir: string,
+  relPath: string,
+  privateKey: PrivateKey,
+  fileType: StateFileType,
+  options: ReadStateOptions = {},
+): Promise<T | null> {
+  return readStateAt<T>(stateDir, relPath, privateKey, fileType, options);
+}
+
+/**
+ * Read, decrypt, migrate and validate the state file at `relPath`.
+ */
+async function readStateAt<T>(
+  stateDir: string,
+  relPath: string,
+  privateKey: PrivateKey,
+  fileType: StateFileType,
+  options: ReadStateOptions,
+): Promise<T | null> {
+  const filePath = path.join(stateDir, relPath);
 
   if (!fs.existsSync(filePath)) {
     return null;
@@ -79,26 +333,47 @@ export async function readState<T = StateData>(
     return null;
   }
 
-  return decryptState<T>(ciphertext, privateKey);
+  let decrypted: unknown;
+  try {
+    decrypted = await decryptState<unknown>(ciphertext, privateKey);
+  } catch (err) {
+    throw await diagnoseDecryptionFailure(stateDir, relPath, ciphertext, privateKey, err);
+  }
+
+  const data = migrateState(fileType, decrypted, getStateFileSchemaVersion(stateDir, relPath));
+
+  if (options.repair && !STATE_VALIDATORS[fileType](data).valid) {
+    const repaired = STATE_REPAIRERS[fileType](data);
+    if (repaired.dropped.length > 0) {
+      options.onRepair?.(relPath, repaired.dropped);
+    }
+    return repaired.data as T;
+  }
+
+  validateState(fileType, data);
+  return data as T;
 }
 
 /**
  * Encrypt and write state data to disk.
  *
- * Serialises the data as JSON in memory, encrypts it with Age, and writes
- * the resulting `.age` file. **Never writes plaintext JSON to disk.**
+ * Validates the data against its schema, serialises it as JSON in memory,
+ * encrypts it with Age, and writes the resulting `.age` file.
+ * **Never writes plaintext JSON to disk.**
  *
  * Supports both single-recipient and multi-recipient encryption. When
  * `publicKey` is a single string, encrypts for one recipient. When
  * it is an array, encrypts for all recipients (team support).
  *
- * Also updates the manifest to record the file's modification time.
+ * Also updates the manifest to record the file's modification time and
+ * the current schema version.
  *
  * @param stateDir - The sync directory path.
  * @param data - The state data to encrypt and write.
  * @param publicKey - A single Age public key or an array of public keys.
  * @param fileType - The type of state file to write.
  * @throws If the filename ends in `.json` (safety check against plaintext writes).
+ * @throws StateValidationError if the data does not match its schema.
  */
 export async function writeState(
   stateDir: string,
@@ -106,7 +381,41 @@ export async function writeState(
   publicKey: string | string[],
   fileType: StateFileType,
 ): Promise<void> {
-  const filename = STATE_FILE_MAP[fileType];
+  await writeStateAt(stateDir, STATE_FILE_MAP[fileType], data, publicKey, fileType);
+}
+
+/**
+ * Encrypt and write state to a path relative to the sync dir — a
+ * repo-wide file or a project blob. Same checks as `writeState()`.
+ *
+ * @param stateDir - The sync directory path.
+ * @param relPath - The state file, relative to `stateDir`.
+ * @param data - The state data to encrypt and write.
+ * @param publicKey - A single Age public key or an array of public keys.
+ * @param fileType - The type of state file to write.
+ */
+export async function writeStateFile(
+  stateDir: string,
+  relPath: string,
+  data: StateData,
+  publicKey: string | string[],
+  fileType: StateFileType,
+): Promise<void> {
+  await writeStateAt(stateDir, relPath, data, publicKey, fileType);
+}
+
+/**
+ * Validate, encrypt and write state to `relPath`, recording it in the
+ * manifest.
+ */
+async function writeStateAt(
+  stateDir: string,
+  relPath: string,
+  data: StateData,
+  publicKey: string | string[],
+  fileType: StateFileType,
+): Promise<void> {
+  const filename = path.basename(relPath);
 
   // Safety check: never write plaintext JSON state files
   if (filename.endsWith('.json')) {
@@ -116,25 +425,237 @@ export async function writeState(
     );
   }
 
+  // Never encrypt malformed state — other machines would have to repair it
+  validateState(fileType, data);
+
+  const filePath = path.join(stateDir, relPath);
+
   // Ensure the directory exists
-  fs.mkdirSync(stateDir, { recursive: true });
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
 
   // Encrypt for single or multiple recipients
   const ciphertext = Array.isArray(publicKey)
     ? await encryptStateForRecipients(data, publicKey)
     : await encryptState(data, publicKey);
 
-  const filePath = path.join(stateDir, filename);
   fs.writeFileSync(filePath, ciphertext, 'utf-8');
 
-  // Update manifest with new modification timestamp
-  updateManifestEntry(stateDir, filename);
+  // Update manifest with new modification timestamp and schema version
+  updateManifestEntry(stateDir, relPath, currentSchemaVersion(fileType));
+}
+
+// ─── Project-Scoped State ─────────────────────────────────────────────────
+
+/** Directory (relative to the sync dir) holding per-project state blobs */
+export const PROJECT_STATE_DIR = 'projects';
+
+/** State file types that move into a project's own blobs when it is shared */
+export const PROJECT_SCOPED_TYPES: readonly StateFileType[] = [
+  'env-vars',
+  'docker-state',
+  'mental-context',
+];
+
+/** Project-keyed state: one entry per project name */
+type ProjectKeyedState = EnvVars | DockerState | MentalContext;
+
+/**
+ * Separates a project name from a sub-entry key in project-keyed state
+ * (e.g. `api/staging` for an env profile). Project names never contain it.
+ */
+export const PROJECT_KEY_SEPARATOR = '/';
+
+/** The entries of project-keyed state that belong to a project: its own and its sub-entries */
+function projectEntries(data: ProjectKeyedState, project: string): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).filter(
+      ([key]) => key === project || key.startsWith(`${project}${PROJECT_KEY_SEPARATOR}`),
+    ),
+  );
+}
+
+/**
+ * Check whether a project has its own state blobs.
+ *
+ * @param stateDir - The sync directory path.
+ * @param project - The project name.
+ */
+export function isProjectScoped(stateDir: string, project: string): boolean {
+  return isScopableName(project) && fs.existsSync(path.join(stateDir, projectStateRoot(project)));
+}
+
+/**
+ * List the projects that have their own state blobs.
+ *
+ * @param stateDir - The sync directory path.
+ */
+export function listScopedProjects(stateDir: string): string[] {
+  const root = path.join(stateDir, PROJECT_STATE_DIR);
+  if (!fs.existsSync(root)) {
+    return [];
+  }
+  return fs
+    .readdirSync(root, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * The path (relative to the sync dir) a project's state of the given
+ * type is stored at: its own blob when the project is scoped, otherwise
+ * the repo-wide file.
+ *
+ * @param stateDir - The sync directory path.
+ * @param fileType - A project-keyed state file type.
+ * @param project - The project name.
+ */
+export function projectStateFile(
+  stateDir: string,
+  fileType: StateFileType,
+  project: string,
+): string {
+  return isProjectScoped(stateDir, project)
+    ? path.join(projectStateRoot(project), STATE_FILE_MAP[fileType])
+    : STATE_FILE_MAP[fileType];
+}
+
+/**
+ * The project a state file belongs to, from its path relative to the
+ * sync dir, or `null` for repo-wide files.
+ */
+export function projectOfStateFile(relPath: string): string | null {
+  const parts = relPath.split(/[\\/]/);
+  return parts.length === 3 && parts[0] === PROJECT_STATE_DIR ? (parts[1] ?? null) : null;
+}
+
+/**
+ * Read the project-keyed state that holds `project`.
+ *
+ * Returns the project's own blob when it is scoped (containing only
+ * that project), otherwise the repo-wide file.
+ *
+ * @param stateDir - The sync directory path.
+ * @param privateKey - The Age private key for decryption.
+ * @param fileType - A project-keyed state file type.
+ * @param project - The project name.
+ * @param options - Repair behaviour for malformed data.
+ */
+export async function readProjectState<T = StateData>(
+  stateDir: string,
+  privateKey: PrivateKey,
+  fileType: StateFileType,
+  project: string,
+  options: ReadStateOptions = {},
+): Promise<T | null> {
+  return readStateAt<T>(
+    stateDir,
+    projectStateFile(stateDir, fileType, project),
+    privateKey,
+    fileType,
+    options,
+  );
+}
+
+/**
+ * Write project-keyed state that holds `project`.
+ *
+ * For a scoped project only its own entries (including sub-entries such
+ * as env profiles) are written to its blob, so a
+ * caller holding the repo-wide data can never leak other projects to
+ * the project's recipients.
+ *
+ * @param stateDir - The sync directory path.
+ * @param data - The project-keyed state.
+ * @param recipients - Age public key(s) to encrypt for.
+ * @param fileType - A project-keyed state file type.
+ * @param project - The project name.
+ */
+export async function writeProjectState(
+  stateDir: string,
+  data: ProjectKeyedState,
+  recipients: string | string[],
+  fileType: StateFileType,
+  project: string,
+): Promise<void> {
+  const relPath = projectStateFile(stateDir, fileType, project);
+  const scoped = relPath !== STATE_FILE_MAP[fileType];
+  const payload = scoped ? projectEntries(data, project) : data;
+  await writeStateAt(stateDir, relPath, payload as StateData, recipients, fileType);
+}
+
+/**
+ * Move a project's env vars, Docker state and mental context out of the
+ * repo-wide files into its own blobs.
+ *
+ * Every blob is written (empty when there is nothing to move) so the
+ * project directory is tracked by Git and other machines see the scope.
+ * Does nothing if the project is already scoped.
+ *
+ * @param stateDir - The sync directory path.
+ * @param project - The project name.
+ * @param privateKey - The Age private key for decryption.
+ * @param projectRecipients - Recipients of the project's blobs.
+ * @param sharedRecipients - Recipients of the repo-wide files.
+ * @returns Paths (relative to the sync dir) that were written.
+ */
+export async function scopeProjectState(
+  stateDir: string,
+  project: string,
+  privateKey: PrivateKey,
+  projectRecipients: string[],
+  sharedRecipients: string[],
+): Promise<string[]> {
+  if (isProjectScoped(stateDir, project)) {
+    return [];
+  }
+
+  const written: string[] = [];
+  const moved: Array<{ fileType: StateFileType; rest: ProjectKeyedState }> = [];
+  for (const fileType of PROJECT_SCOPED_TYPES) {
+    const shared = await readState<ProjectKeyedState>(stateDir, privateKey, fileType);
+    const entries = shared ? projectEntries(shared, project) : {};
+    const relPath = path.join(projectStateRoot(project), STATE_FILE_MAP[fileType]);
+    await writeStateAt(stateDir, relPath, entries as StateData, projectRecipients, fileType);
+    written.push(relPath);
+    if (shared && Object.keys(entries).length > 0) {
+      const rest = Object.fromEntries(
+        Object.entries(shared).filter(([name]) => !(name in entries)),
+      ) as ProjectKeyedState;
+      moved.push({ fileType, rest });
+    }
+  }
+
+  // Only drop the entries from the repo-wide files once every blob exists
+  for (const { fileType, rest } of moved) {
+    await writeState(stateDir, rest, sharedRecipients, fileType);
+    written.push(STATE_FILE_MAP[fileType]);
+  }
+
+  return written;
+}
+
+/** Whether a project name can be used as a single path segment */
+function isScopableName(project: string): boolean {
+  return project !== '' && !project.startsWith('.') && !/[\\/]/.test(project);
+}
+
+/**
+ * The directory (relative to the sync dir) of a project's blobs.
+ *
+ * @throws If the name cannot be used as a single path segment.
+ */
+function projectStateRoot(project: string): string {
+  if (!isScopableName(project)) {
+    throw new Error(`Project "${project}" cannot have its own state blobs (invalid directory name).`);
+  }
+  return path.join(PROJECT_STATE_DIR, project);
 }
 
 /**
  * Read the plaintext manifest.json from the sync directory.
  *
- * The manifest contains only version and timestamps — no sensitive data.
+ * The manifest contains only versions and timestamps — no sensitive data.
  * If the file does not exist, returns `null`.
  *
  * @param stateDir - The sync directory path.
@@ -160,7 +681,7 @@ export function readManifest(stateDir: string): Manifest | null {
  * Write the plaintext manifest.json to the sync directory.
  *
  * The manifest is the only plaintext file in the sync repo.
- * It contains only version and timestamps — no sensitive data.
+ * It contains only versions and timestamps — no sensitive data.
  *
  * @param stateDir - The sync directory path.
  * @param data - The manifest data to write.
@@ -180,8 +701,9 @@ export function writeManifest(stateDir: string, data: Manifest): void {
  *
  * @param stateDir - The sync directory path.
  * @param filename - The state file name (e.g. 'state.age').
+ * @param schemaVersion - The schema version the file was written in.
  */
-function updateManifestEntry(stateDir: string, filename: string): void {
+function updateManifestEntry(stateDir: string, filename: string, schemaVersion: number): void {
   const manifest = readManifest(stateDir) ?? {
     version: VERSION,
     lastSync: new Date().toISOString(),
@@ -190,6 +712,7 @@ function updateManifestEntry(stateDir: string, filename: string): void {
 
   manifest.files[filename] = {
     lastModified: new Date().toISOString(),
+    schemaVersion,
   };
   manifest.lastSync = new Date().toISOString();
 
@@ -199,6 +722,9 @@ function updateManifestEntry(stateDir: string, filename: string): void {
 /**
  * List all encrypted state files present in the sync directory.
  *
+ * Project blobs are listed after the repo-wide files, as paths relative
+ * to the sync directory (e.g. `projects/api/env-vars.age`).
+ *
  * @param stateDir - The sync directory path.
  * @returns Array of filenames that exist on disk.
  */
@@ -208,7 +734,49 @@ export function listStateFiles(stateDir: string): string[] {
   }
 
   const entries = fs.readdirSync(stateDir);
-  return entries.filter((entry) => entry.endsWith('.age'));
+  const files = entries.filter((entry) => entry.endsWith('.age'));
+
+  for (const project of listScopedProjects(stateDir)) {
+    const root = path.join(PROJECT_STATE_DIR, project);
+    for (const entry of fs.readdirSync(path.join(stateDir, root)).sort()) {
+      if (entry.endsWith('.age')) {
+        files.push(path.join(root, entry));
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Find the state files a key cannot decrypt, and why.
+ *
+ * Only decryption is checked; schema validation is left to `readState()`.
+ *
+ * @param stateDir - The sync directory path.
+ * @param privateKey - The key to try.
+ * @param files - The files to check (default: every state file).
+ * @returns One classified error per unreadable file.
+ */
+export async function findUnreadableStateFiles(
+  stateDir: string,
+  privateKey: PrivateKey,
+  files: string[] = listStateFiles(stateDir),
+): Promise<DecryptionError[]> {
+  const failures: DecryptionError[] = [];
+
+  for (const relPath of files) {
+    const ciphertext = fs.readFileSync(path.join(stateDir, relPath), 'utf-8');
+    if (!ciphertext.trim()) continue;
+
+    try {
+      await decryptState<unknown>(ciphertext, privateKey);
+    } catch (err) {
+      failures.push(await diagnoseDecryptionFailure(stateDir, relPath, ciphertext, privateKey, err));
+    }
+  }
+
+  return failures;
 }
 
 /**
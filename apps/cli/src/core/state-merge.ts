@@ -0,0 +1,713 @@
+/**
+ * Semantic three-way merge for decrypted state.
+ *
+ * When a sync pull conflicts on an `.age` file, the base, local and
+ * remote blobs are decrypted **in memory** and merged record by record
+ * instead of keeping one whole file:
+ *
+ *   - `state.age` — machine snapshots by machine ID, projects by `id`.
+ *   - `env-vars.age` — vars by key; when both sides changed a key, the
+ *     entry with the newer `addedAt` wins.
+ *   - `mental-context.age` — blockers, next steps, links and breadcrumbs
+ *     are unioned; scalar fields are merged three-way.
+ *   - `services.age`, `docker-state.age`, `directories.age` — by record.
+ *   - `sessions.age`, `ide-state.age` — by project; when both sides
+ *     recaptured a project, the newer capture wins.
+ *
+ * A field only becomes a conflict (and is handed to the resolver) when
+ * both sides changed it to different values. This module never touches
+ * the filesystem — callers are responsible for re-encrypting the result.
+ *
+ * @module core/state-merge
+ */
+
+import type {
+  StateFile,
+  LegacyStateFile,
+  MachineSnapshot,
+  Project,
+  EnvVars,
+  EnvVarEntry,
+  MentalContext,
+  ProjectMentalContext,
+  ServiceState,
+  DockerState,
+  DirectoryState,
+  RecentDirectory,
+  SessionState,
+  IdeState,
+  Manifest,
+} from '@ctx-sync/shared';
+import type { StateFileType } from './state-manager.js';
+import { normalizeStateFile } from './machine-state.js';
+import { sortRecent, MAX_RECENT_DIRS } from './directories-handler.js';
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** A field that both sides changed to different values */
+export interface MergeConflict {
+  /** The state file being merged (e.g. 'mental-context.age') */
+  file: string;
+  /** Human-readable location of the field (e.g. 'my-app › currentTask') */
+  field: string;
+  /** Display summary of the local value (secrets are masked) */
+  local: string;
+  /** Display summary of the remote value (secrets are masked) */
+  remote: string;
+}
+
+/** Which side of a conflict to keep */
+export type ConflictChoice = 'local' | 'remote';
+
+/** Callback used to settle a real conflict */
+export type ConflictResolver = (conflict: MergeConflict) => Promise<ConflictChoice>;
+
+/** A conflict together with the side that was kept */
+export interface ResolvedConflict extends MergeConflict {
+  choice: ConflictChoice;
+}
+
+/** Result of merging one state file */
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: ResolvedConflict[];
+}
+
+/** Per-merge context threaded through the helpers */
+interface MergeContext {
+  file: string;
+  resolve: ConflictResolver;
+  conflicts: ResolvedConflict[];
+}
+
+// ─── Generic Helpers ──────────────────────────────────────────────────────
+
+/** Structural equality for JSON-shaped values (key order insensitive). */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isEqual(v, b[i]));
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord).filter((k) => aRecord[k] !== undefined);
+  const bKeys = Object.keys(bRecord).filter((k) => bRecord[k] !== undefined);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((k) => isEqual(aRecord[k], bRecord[k]))
+  );
+}
+
+/** Short display summary of a value for conflict prompts. */
+function summarize(value: unknown): string {
+  if (value === undefined) return '(deleted)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/** Return the later of two ISO timestamps. */
+function latest(a: string, b: string): string {
+  return a >= b ? a : b;
+}
+
+/**
+ * Hand a conflict to the resolver and record the outcome.
+ */
+async function settle<T>(
+  ctx: MergeContext,
+  field: string,
+  local: T,
+  remote: T,
+  display: (value: T) => string = summarize,
+): Promise<T> {
+  const conflict: MergeConflict = {
+    file: ctx.file,
+    field,
+    local: display(local),
+    remote: display(remote),
+  };
+  const choice = await ctx.resolve(conflict);
+  ctx.conflicts.push({ ...conflict, choice });
+  return choice === 'local' ? local : remote;
+}
+
+/**
+ * Three-way merge of a single value.
+ *
+ * If only one side changed it, that side wins. If both changed it to
+ * the same value, that value is kept. Otherwise the resolver decides.
+ */
+async function mergeValue<T>(
+  ctx: MergeContext,
+  field: string,
+  base: T | undefined,
+  local: T,
+  remote: T,
+  display?: (value: T) => string,
+): Promise<T> {
+  if (isEqual(local, remote)) return local;
+  if (isEqual(base, local)) return remote;
+  if (isEqual(base, remote)) return local;
+  return settle(ctx, field, local, remote, display);
+}
+
+/**
+ * Three-way merge of a keyed collection.
+ *
+ * Additions from either side are kept. A record deleted on one side is
+ * dropped if the other side left it untouched; if the other side
+ * modified it, the resolver decides. Records present on both sides are
+ * combined with `mergeEntry`.
+ */
+async function mergeRecords<T>(
+  ctx: MergeContext,
+  fieldPrefix: string,
+  base: Record<string, T>,
+  local: Record<string, T>,
+  remote: Record<string, T>,
+  mergeEntry: (key: string, base: T | undefined, local: T, remote: T) => Promise<T>,
+  display?: (value: T | undefined) => string,
+): Promise<Record<string, T>> {
+  const result: Record<string, T> = {};
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  for (const key of keys) {
+    const b = base[key];
+    const l = local[key];
+    const r = remote[key];
+    const field = fieldPrefix ? `${fieldPrefix} › ${key}` : key;
+
+    if (l !== undefined && r !== undefined) {
+      result[key] = await mergeEntry(key, b, l, r);
+      continue;
+    }
+
+    const present = (l ?? r) as T;
+    if (b === undefined) {
+      // Added on one side only
+      result[key] = present;
+    } else if (!isEqual(b, present)) {
+      // Deleted on one side, modified on the other
+      const kept = await settle<T | undefined>(ctx, field, l, r, display);
+      if (kept !== undefined) result[key] = kept;
+    }
+    // Otherwise: deleted on one side, untouched on the other — drop it
+  }
+
+  return result;
+}
+
+/**
+ * Three-way merge of a list as a set, keyed by `keyOf`.
+ *
+ * Items added on either side are kept (local order first, then new
+ * remote items). Items that existed in the base and were removed on
+ * either side are dropped.
+ */
+function mergeList<T>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  keyOf: (item: T) => string,
+): T[] {
+  const baseKeys = new Set(base.map(keyOf));
+  const localKeys = new Set(local.map(keyOf));
+  const remoteKeys = new Set(remote.map(keyOf));
+  const removed = (key: string): boolean =>
+    baseKeys.has(key) && (!localKeys.has(key) || !remoteKeys.has(key));
+
+  const result: T[] = [];
+  const seen = new Set<string>();
+  for (const item of [...local, ...remote]) {
+    const key = keyOf(item);
+    if (seen.has(key) || removed(key)) continue;
+    seen.add(key);
+    result.push(item);
+  }
+  return result;
+}
+
+/** Index an array of records by key. */
+function indexBy<T>(items: T[], keyOf: (item: T) => string): Record<string, T> {
+  const result: Record<string, T> = {};
+  for (const item of items) {
+    result[keyOf(item)] = item;
+  }
+  return result;
+}
+
+// ─── Per-File Mergers ─────────────────────────────────────────────────────
+
+/**
+ * Merge `state.age`: machine snapshots by ID, then projects by `id`.
+ */
+export async function mergeStateFiles(
+  base: StateFile | LegacyStateFile | null,
+  local: StateFile | LegacyStateFile,
+  remote: StateFile | LegacyStateFile,
+  resolve: ConflictResolver,
+): Promise<MergeResult<StateFile>> {
+  const ctx: MergeContext = { file: 'state.age', resolve, conflicts: [] };
+  const b = normalizeStateFile(base);
+  const l = normalizeStateFile(local);
+  const r = normalizeStateFile(remote);
+
+  const machines = await mergeRecords<MachineSnapshot>(
+    ctx,
+    '',
+    b.machines,
+    l.machines,
+    r.machines,
+    async (machineId, bs, ls, rs) => {
+      const host = ls.machine.hostname;
+      const projects = await mergeRecords<Project>(
+        ctx,
+        host,
+        indexBy(bs?.projects ?? [], (p) => p.id),
+        indexBy(ls.projects, (p) => p.id),
+        indexBy(rs.projects, (p) => p.id),
+        async (_id, bp, lp, rp) => {
+          const field = `${host} › ${lp.name}`;
+          const name = await mergeValue(ctx, `${field} › name`, bp?.name, lp.name, rp.name);
+          const path = await mergeValue(ctx, `${field} › path`, bp?.path, lp.path, rp.path);
+          const git = await mergeValue(ctx, `${field} › git`, bp?.git, lp.git, rp.git);
+          const tools = await mergeValue(ctx, `${field} › tools`, bp?.tools, lp.tools, rp.tools);
+          return {
+            id: lp.id,
+            name,
+            path,
+            git,
+            ...(tools ? { tools } : {}),
+            lastAccessed: latest(lp.lastAccessed, rp.lastAccessed),
+          };
+        },
+        (p) => (p ? `${p.name} (${p.path})` : '(deleted)'),
+      );
+
+      return {
+        machine: ls.updatedAt >= rs.updatedAt ? ls.machine : rs.machine,
+        projects: Object.values(projects),
+        updatedAt: latest(ls.updatedAt, rs.updatedAt),
+      };
+    },
+    (s) => (s ? `${s.machine.hostname} (${String(s.projects.length)} projects)` : '(deleted)'),
+  );
+
+  return { merged: { machines }, conflicts: ctx.conflicts };
+}
+
+/** Display an env var entry without revealing its value. */
+function maskEnvEntry(entry: EnvVarEntry | undefined): string {
+  return entry ? `•••••••• (added ${entry.addedAt})` : '(deleted)';
+}
+
+/**
+ * Merge `env-vars.age`: projects, then vars by key.
+ *
+ * When both sides changed the same key, the entry with the newer
+ * `addedAt` wins. Only identical timestamps with different values are
+ * handed to the resolver. Values are never included in conflicts.
+ */
+export async function mergeEnvVars(
+  base: EnvVars | null,
+  local: EnvVars,
+  remote: EnvVars,
+  resolve: ConflictResolver,
+): Promise<MergeResult<EnvVars>> {
+  const ctx: MergeContext = { file: 'env-vars.age', resolve, conflicts: [] };
+
+  const merged = await mergeRecords(
+    ctx,
+    '',
+    base ?? {},
+    local,
+    remote,
+    (project, bp, lp, rp) =>
+      mergeRecords<EnvVarEntry>(
+        ctx,
+        project,
+        bp ?? {},
+        lp,
+        rp,
+        async (key, be, le, re) => {
+          if (isEqual(le, re)) return le;
+          if (isEqual(be, le)) return re;
+          if (isEqual(be, re)) return le;
+          if (le.addedAt !== re.addedAt) {
+            return le.addedAt > re.addedAt ? le : re;
+          }
+          return settle(ctx, `${project} › ${key}`, le, re, maskEnvEntry);
+        },
+        maskEnvEntry,
+      ),
+    (vars) => (vars ? `${String(Object.keys(vars).length)} vars` : '(deleted)'),
+  );
+
+  return { merged, conflicts: ctx.conflicts };
+}
+
+/**
+ * Merge `mental-context.age`.
+ *
+ * Blockers (by description), next steps, related links (by URL) and
+ * breadcrumbs are unioned. `currentTask` and `lastWorkingOn` are merged
+ * three-way.
+ */
+export async function mergeMentalContext(
+  base: MentalContext | null,
+  local: MentalContext,
+  remote: MentalContext,
+  resolve: ConflictResolver,
+): Promise<MergeResult<MentalContext>> {
+  const ctx: MergeContext = { file: 'mental-context.age', resolve, conflicts: [] };
+
+  const merged = await mergeRecords<ProjectMentalContext>(
+    ctx,
+    '',
+    base ?? {},
+    local,
+    remote,
+    async (project, bc, lc, rc) => {
+      const result: ProjectMentalContext = {
+        currentTask: await mergeValue(
+          ctx,
+          `${project} › currentTask`,
+          bc?.currentTask,
+          lc.currentTask,
+          rc.currentTask,
+        ),
+        blockers: mergeList(
+          bc?.blockers ?? [],
+          lc.blockers,
+          rc.blockers,
+          (item) => item.description.toLowerCase(),
+        ),
+        nextSteps: mergeList(
+          bc?.nextSteps ?? [],
+          lc.nextSteps,
+          rc.nextSteps,
+          (step) => step.toLowerCase(),
+        ),
+        relatedLinks: mergeList(
+          bc?.relatedLinks ?? [],
+          lc.relatedLinks,
+          rc.relatedLinks,
+          (link) => link.url,
+        ),
+        breadcrumbs: mergeList(
+          bc?.breadcrumbs ?? [],
+          lc.breadcrumbs,
+          rc.breadcrumbs,
+          (crumb) => `${crumb.timestamp}\n${crumb.note}`,
+        ).sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+      };
+
+      const lastWorkingOn = await mergeValue(
+        ctx,
+        `${project} › lastWorkingOn`,
+        bc?.lastWorkingOn,
+        lc.lastWorkingOn,
+        rc.lastWorkingOn,
+        (v) => (v ? `${v.file}:${String(v.line)} — ${v.description}` : '(none)'),
+      );
+      if (lastWorkingOn) {
+        result.lastWorkingOn = lastWorkingOn;
+      }
+
+      return result;
+    },
+    (c) => (c ? c.currentTask || '(no task)' : '(deleted)'),
+  );
+
+  return { merged, conflicts: ctx.conflicts };
+}
+
+/**
+ * Merge `services.age`: services keyed by project and name.
+ */
+export async function mergeServices(
+  base: ServiceState | null,
+  local: ServiceState,
+  remote: ServiceState,
+  resolve: ConflictResolver,
+): Promise<MergeResult<ServiceState>> {
+  const ctx: MergeContext = { file: 'services.age', resolve, conflicts: [] };
+  const keyOf = (s: { project: string; name: string }): string => `${s.project}/${s.name}`;
+
+  const services = await mergeRecords(
+    ctx,
+    '',
+    indexBy(base?.services ?? [], keyOf),
+    indexBy(local.services, keyOf),
+    indexBy(remote.services, keyOf),
+    (key, b, l, r) => mergeValue(ctx, key, b, l, r),
+  );
+
+  return { merged: { services: Object.values(services) }, conflicts: ctx.conflicts };
+}
+
+/**
+ * Merge `docker-state.age`: projects, then Docker services by name.
+ */
+export async function mergeDockerState(
+  base: DockerState | null,
+  local: DockerState,
+  remote: DockerState,
+  resolve: ConflictResolver,
+): Promise<MergeResult<DockerState>> {
+  const ctx: MergeContext = { file: 'docker-state.age', resolve, conflicts: [] };
+
+  const merged = await mergeRecords(
+    ctx,
+    '',
+    base ?? {},
+    local,
+    remote,
+    async (project, bp, lp, rp) => {
+      const services = await mergeRecords(
+        ctx,
+        project,
+        indexBy(bp?.services ?? [], (s) => s.name),
+        indexBy(lp.services, (s) => s.name),
+        indexBy(rp.services, (s) => s.name),
+        (name, b, l, r) => mergeValue(ctx, `${project} › ${name}`, b, l, r),
+      );
+
+      const result: DockerState[string] = {
+        composeFile: await mergeValue(
+          ctx,
+          `${project} › composeFile`,
+          bp?.composeFile,
+          lp.composeFile,
+          rp.composeFile,
+        ),
+        services: Object.values(services),
+      };
+
+      const networks = await mergeValue(
+        ctx,
+        `${project} › networks`,
+        bp?.networks,
+        lp.networks,
+        rp.networks,
+      );
+      if (networks) result.networks = networks;
+
+      if (lp.lastStarted || rp.lastStarted) {
+        result.lastStarted = latest(lp.lastStarted ?? '', rp.lastStarted ?? '');
+      }
+
+      return result;
+    },
+  );
+
+  return { merged, conflicts: ctx.conflicts };
+}
+
+/**
+ * Merge `directories.age`.
+ *
+ * Visit counts from both sides are combined (visits made since the base
+ * are added together) and the latest visit time is kept. Pinned
+ * directories are merged as a set. Never produces conflicts.
+ */
+export function mergeDirectories(
+  base: DirectoryState | null,
+  local: DirectoryState,
+  remote: DirectoryState,
+): MergeResult<DirectoryState> {
+  const baseDirs = indexBy(base?.recentDirs ?? [], (d) => d.path);
+  const localDirs = indexBy(local.recentDirs, (d) => d.path);
+  const remoteDirs = indexBy(remote.recentDirs, (d) => d.path);
+
+  const recentDirs: RecentDirectory[] = [];
+  for (const dirPath of new Set([...Object.keys(localDirs), ...Object.keys(remoteDirs)])) {
+    const b = baseDirs[dirPath];
+    const l = localDirs[dirPath];
+    const r = remoteDirs[dirPath];
+
+    if (l && r) {
+      recentDirs.push({
+        path: dirPath,
+        frequency: l.frequency + r.frequency - (b?.frequency ?? 0),
+        lastVisit: latest(l.lastVisit, r.lastVisit),
+      });
+    } else {
+      const present = (l ?? r) as RecentDirectory;
+      // Keep unless it was removed on the other side
+      if (!b || !isEqual(b, present)) recentDirs.push(present);
+    }
+  }
+
+  return {
+    merged: {
+      recentDirs: sortRecent(recentDirs).slice(0, MAX_RECENT_DIRS),
+      pinnedDirs: mergeList(
+        base?.pinnedDirs ?? [],
+        local.pinnedDirs,
+        remote.pinnedDirs,
+        (p) => p,
+      ),
+    },
+    conflicts: [],
+  };
+}
+
+/**
+ * Merge `sessions.age`: one captured tmux session per project.
+ *
+ * A session is a snapshot, so when both sides recaptured it the newer
+ * capture wins.
+ */
+export async function mergeSessions(
+  base: SessionState | null,
+  local: SessionState,
+  remote: SessionState,
+  resolve: ConflictResolver,
+): Promise<MergeResult<SessionState>> {
+  const ctx: MergeContext = { file: 'sessions.age', resolve, conflicts: [] };
+
+  const merged = await mergeRecords(
+    ctx,
+    '',
+    base ?? {},
+    local,
+    remote,
+    (_project, b, l, r) => {
+      if (isEqual(l, r) || isEqual(b, r)) return Promise.resolve(l);
+      if (isEqual(b, l)) return Promise.resolve(r);
+      return Promise.resolve(l.capturedAt >= r.capturedAt ? l : r);
+    },
+    (s) => (s ? `${s.name} (captured ${s.capturedAt})` : '(deleted)'),
+  );
+
+  return { merged, conflicts: ctx.conflicts };
+}
+
+/**
+ * Merge `ide-state.age`: one captured IDE state per project.
+ *
+ * Like sessions, the newer capture wins when both sides recaptured it.
+ */
+export async function mergeIdeState(
+  base: IdeState | null,
+  local: IdeState,
+  remote: IdeState,
+  resolve: ConflictResolver,
+): Promise<MergeResult<IdeState>> {
+  const ctx: MergeContext = { file: 'ide-state.age', resolve, conflicts: [] };
+
+  const merged = await mergeRecords(
+    ctx,
+    '',
+    base ?? {},
+    local,
+    remote,
+    (_project, b, l, r) => {
+      if (isEqual(l, r) || isEqual(b, r)) return Promise.resolve(l);
+      if (isEqual(b, l)) return Promise.resolve(r);
+      return Promise.resolve(l.capturedAt >= r.capturedAt ? l : r);
+    },
+    (s) => (s ? `captured ${s.capturedAt}` : '(deleted)'),
+  );
+
+  return { merged, conflicts: ctx.conflicts };
+}
+
+/**
+ * Merge the plaintext `manifest.json`.
+ *
+ * Keeps the newest timestamp for every file entry and for `lastSync`.
+ */
+export function mergeManifests(local: Manifest, remote: Manifest): Manifest {
+  const files: Manifest['files'] = { ...remote.files };
+  for (const [name, entry] of Object.entries(local.files)) {
+    const other = files[name];
+    files[name] = other && other.lastModified > entry.lastModified ? other : entry;
+  }
+
+  return {
+    version: local.version,
+    lastSync: latest(local.lastSync, remote.lastSync),
+    files,
+  };
+}
+
+// ─── Dispatch ─────────────────────────────────────────────────────────────
+
+/**
+ * Merge decrypted base, local and remote versions of a state file.
+ *
+ * @param fileType - The state file type.
+ * @param base - The common ancestor (null if the file was added on both sides).
+ * @param local - Our version.
+ * @param remote - Their version.
+ * @param resolve - Called for each field that really diverged.
+ * @returns The merged data and the conflicts that were settled.
+ */
+export async function mergeState(
+  fileType: StateFileType,
+  base: unknown,
+  local: unknown,
+  remote: unknown,
+  resolve: ConflictResolver,
+): Promise<MergeResult<unknown>> {
+  switch (fileType) {
+    case 'state':
+      return mergeStateFiles(
+        base as StateFile | null,
+        local as StateFile,
+        remote as StateFile,
+        resolve,
+      );
+    case 'env-vars':
+      return mergeEnvVars(base as EnvVars | null, local as EnvVars, remote as EnvVars, resolve);
+    case 'mental-context':
+      return mergeMentalContext(
+        base as MentalContext | null,
+        local as MentalContext,
+        remote as MentalContext,
+        resolve,
+      );
+    case 'services':
+      return mergeServices(
+        base as ServiceState | null,
+        local as ServiceState,
+        remote as ServiceState,
+        resolve,
+      );
+    case 'docker-state':
+      return mergeDockerState(
+        base as DockerState | null,
+        local as DockerState,
+        remote as DockerState,
+        resolve,
+      );
+    case 'directories':
+      return mergeDirectories(
+        base as DirectoryState | null,
+        local as DirectoryState,
+        remote as DirectoryState,
+      );
+    case 'sessions':
+      return mergeSessions(
+        base as SessionState | null,
+        local as SessionState,
+        remote as SessionState,
+        resolve,
+      );
+    case 'ide-state':
+      return mergeIdeState(
+        base as IdeState | null,
+        local as IdeState,
+        remote as IdeState,
+        resolve,
+      );
+  }
+}
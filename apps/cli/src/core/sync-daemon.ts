@@ -0,0 +1,299 @@
+/**
+ * Background sync daemon module.
+ *
+ * Runs sync unattended: local changes to `.age` files are debounced into
+ * a single sync, the remote is pulled on a fixed interval, and failed
+ * syncs (usually because the machine is offline) are retried with
+ * exponential backoff.
+ *
+ * The daemon never settles a conflict on its own. When a sync hits a
+ * field that both machines changed, the merge is aborted and the daemon
+ * stops so the user can run `ctx-sync sync` interactively.
+ *
+ * The pidfile and log live in the config directory, which is never
+ * synced. Every log line is passed through `sanitizeForLog()`.
+ *
+ * @module core/sync-daemon
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { sanitizeForLog } from './log-sanitizer.js';
+import { SyncConflictError } from '../utils/errors.js';
+import type { ConflictResolver } from './state-merge.js';
+
+/** Pidfile name (under the config dir) */
+export const DAEMON_PID_FILE = 'daemon.pid';
+
+/** Log file name (under the config dir) */
+export const DAEMON_LOG_FILE = 'daemon.log';
+
+/** Log size at which the log is rotated to `daemon.log.1` */
+const MAX_LOG_BYTES = 1024 * 1024;
+
+/** Default time between pulls */
+export const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Default quiet period after a local change before syncing */
+export const DEFAULT_DEBOUNCE_MS = 10 * 1000;
+
+/** Default upper bound for the offline backoff */
+export const DEFAULT_MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+/** Why the daemon loop ended */
+export type DaemonStopReason = 'stopped' | 'conflict';
+
+/** Summary of one sync, used for the log line */
+export interface DaemonSyncSummary {
+  pulled: boolean;
+  committed: boolean;
+  pushed: boolean;
+  mergedFiles: string[];
+}
+
+/** Options for startSyncDaemon() */
+export interface SyncDaemonOptions {
+  /** Runs one sync, settling conflicts with the given resolver */
+  sync: (resolveFn: ConflictResolver) => Promise<DaemonSyncSummary>;
+  /** Called after a conflict to put the repo back to its pre-pull state */
+  abortMerge: () => Promise<void>;
+  /** Writes one log line */
+  log: (message: string) => void;
+  /** Subscribes to local state changes; returns an unsubscribe function */
+  watch?: (onChange: () => void) => () => void;
+  /** Time between pulls (default 5 minutes) */
+  intervalMs?: number;
+  /** Quiet period after a local change (default 10 seconds) */
+  debounceMs?: number;
+  /** Upper bound for the offline backoff (default 1 hour) */
+  maxBackoffMs?: number;
+}
+
+/** Handle to a running daemon loop */
+export interface SyncDaemon {
+  /** Resolves when the loop ends */
+  done: Promise<DaemonStopReason>;
+  /** Schedule a debounced sync after a local change */
+  notifyChange: () => void;
+  /** Stop the loop after any sync in progress */
+  stop: () => void;
+}
+
+/**
+ * Resolver for unattended syncs: any field that needs a decision stops
+ * the sync instead of being resolved automatically.
+ */
+export const refuseConflict: ConflictResolver = (conflict) =>
+  Promise.reject(new SyncConflictError(conflict.file, conflict.field));
+
+/**
+ * Compute the delay before the next attempt after consecutive failures.
+ *
+ * @param intervalMs - The normal interval.
+ * @param failures - Number of consecutive failed syncs (>= 1).
+ * @param maxBackoffMs - Upper bound for the delay.
+ */
+export function backoffDelay(intervalMs: number, failures: number, maxBackoffMs: number): number {
+  return Math.min(intervalMs * 2 ** failures, maxBackoffMs);
+}
+
+/**
+ * Start the daemon loop.
+ *
+ * Syncs once immediately, then every `intervalMs`. Local changes
+ * reported through `watch` or `notifyChange()` trigger a sync after
+ * `debounceMs` of quiet. Syncs never overlap.
+ *
+ * @param options - Sync, logging and timing hooks.
+ * @returns A handle to notify, stop and await the loop.
+ */
+export function startSyncDaemon(options: SyncDaemonOptions): SyncDaemon {
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let syncing = false;
+  let changedDuringSync = false;
+  let failures = 0;
+  let finished = false;
+  let finish: (reason: DaemonStopReason) => void = () => undefined;
+
+  const done = new Promise<DaemonStopReason>((resolve) => {
+    finish = resolve;
+  });
+
+  const schedule = (delay: number): void => {
+    if (finished) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void runOnce(), delay);
+  };
+
+  const end = (reason: DaemonStopReason): void => {
+    if (finished) return;
+    finished = true;
+    if (timer) clearTimeout(timer);
+    unwatch();
+    options.log(`daemon stopped (${reason})`);
+    finish(reason);
+  };
+
+  const runOnce = async (): Promise<void> => {
+    timer = null;
+    syncing = true;
+    changedDuringSync = false;
+
+    try {
+      const result = await options.sync(refuseConflict);
+      failures = 0;
+      const parts = [
+        result.pulled ? 'pulled' : null,
+        result.committed ? 'committed' : null,
+        result.pushed ? 'pushed' : null,
+        result.mergedFiles.length > 0 ? `merged ${result.mergedFiles.join(', ')}` : null,
+      ].filter(Boolean);
+      options.log(`sync ok${parts.length > 0 ? `: ${parts.join(', ')}` : ''}`);
+      schedule(changedDuringSync ? debounceMs : intervalMs);
+    } catch (err: unknown) {
+      if (err instanceof SyncConflictError) {
+        options.log(`conflict needs a decision — ${err.message} ${err.suggestion}`);
+        try {
+          await options.abortMerge();
+        } catch (abortErr: unknown) {
+          options.log(`could not abort merge: ${abortErr instanceof Error ? abortErr.message : String(abortErr)}`);
+        }
+        end('conflict');
+        return;
+      }
+
+      failures += 1;
+      const delay = backoffDelay(intervalMs, failures, maxBackoffMs);
+      const message = err instanceof Error ? err.message : String(err);
+      options.log(`sync failed (${message}); retrying in ${String(Math.round(delay / 1000))}s`);
+      schedule(delay);
+    } finally {
+      syncing = false;
+    }
+  };
+
+  const notifyChange = (): void => {
+    if (finished) return;
+    if (syncing) {
+      changedDuringSync = true;
+      return;
+    }
+    // While backing off, the pending retry picks the change up
+    if (failures === 0) {
+      schedule(debounceMs);
+    }
+  };
+
+  const unwatch = options.watch?.(notifyChange) ?? (() => undefined);
+
+  options.log(
+    `daemon started (interval ${String(Math.round(intervalMs / 1000))}s, debounce ${String(Math.round(debounceMs / 1000))}s)`,
+  );
+  schedule(0);
+
+  return { done, notifyChange, stop: () => end('stopped') };
+}
+
+/**
+ * Watch the sync directory for changes to encrypted state files,
+ * including the project blobs under `projects/<name>/`.
+ *
+ * @param syncDir - The sync directory path.
+ * @param onChange - Called for every change to a `.age` file.
+ * @returns A function that stops watching.
+ */
+export function watchStateFiles(syncDir: string, onChange: () => void): () => void {
+  const watcher = fs.watch(syncDir, { recursive: true }, (_event, filename) => {
+    const relPath = filename?.toString();
+    if (relPath?.endsWith('.age') && !relPath.split(path.sep).includes('.git')) {
+      onChange();
+    }
+  });
+  return () => watcher.close();
+}
+
+/**
+ * Append a timestamped, sanitized line to the daemon log.
+ *
+ * Multi-line messages (e.g. Git errors) are folded onto one line. The log
+ * is rotated to `daemon.log.1` once it exceeds 1 MB.
+ *
+ * @param configDir - The config directory path.
+ * @param message - The message to log.
+ */
+export function appendDaemonLog(configDir: string, message: string): void {
+  const logPath = path.join(configDir, DAEMON_LOG_FILE);
+
+  if (fs.existsSync(logPath) && fs.statSync(logPath).size > MAX_LOG_BYTES) {
+    fs.renameSync(logPath, `${logPath}.1`);
+  }
+
+  const line = sanitizeForLog(message).replace(/\s*\n\s*/g, ' ').trim();
+  fs.appendFileSync(logPath, `${new Date().toISOString()} ${line}\n`, {
+    encoding: 'utf-8',
+    mode: 0o600,
+  });
+}
+
+/**
+ * Read the last lines of the daemon log.
+ *
+ * @param configDir - The config directory path.
+ * @param count - Number of lines to return.
+ */
+export function readDaemonLog(configDir: string, count: number): string[] {
+  const logPath = path.join(configDir, DAEMON_LOG_FILE);
+  if (!fs.existsSync(logPath)) {
+    return [];
+  }
+  return fs.readFileSync(logPath, 'utf-8').trimEnd().split('\n').filter(Boolean).slice(-count);
+}
+
+/**
+ * Read the daemon's pid from the pidfile.
+ *
+ * @returns The pid, or `null` if there is no (valid) pidfile.
+ */
+export function readDaemonPid(configDir: string): number | null {
+  const pidPath = path.join(configDir, DAEMON_PID_FILE);
+  if (!fs.existsSync(pidPath)) {
+    return null;
+  }
+  const pid = Number.parseInt(fs.readFileSync(pidPath, 'utf-8').trim(), 10);
+  return Number.isInteger(pid) && pid > 0 ? pid : null;
+}
+
+/**
+ * Write the daemon's pid to the pidfile (permissions 600).
+ */
+export function writeDaemonPid(configDir: string, pid: number): void {
+  fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
+  fs.writeFileSync(path.join(configDir, DAEMON_PID_FILE), `${String(pid)}\n`, {
+    encoding: 'utf-8',
+    mode: 0o600,
+  });
+}
+
+/**
+ * Remove the pidfile if it exists.
+ */
+export function removeDaemonPid(configDir: string): void {
+  fs.rmSync(path.join(configDir, DAEMON_PID_FILE), { force: true });
+}
+
+/**
+ * Check whether a process with the given pid is alive.
+ */
+export function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: unknown) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,448 @@
+/**
+ * Tool versions module.
+ *
+ * Captures the runtime versions a project pins (`.nvmrc`,
+ * `.node-version`, `.python-version`, `.tool-versions` and
+ * `package.json#engines`) together with the versions installed on the
+ * tracking machine, and checks them against this machine's binaries.
+ *
+ * Install commands for missing or mismatched versions (via mise, asdf or
+ * nvm — whichever is available) are returned as `PendingCommand`s for
+ * the approval workflow in `command-validator`. Nothing is installed
+ * directly.
+ *
+ * @module core/tool-versions
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execFileSync } from 'node:child_process';
+import type { ToolRequirement, ToolVersions } from '@ctx-sync/shared';
+import type { PendingCommand } from './command-validator.js';
+import { shellQuote } from '../utils/shell.js';
+
+// ─── Interfaces ───────────────────────────────────────────────────────────
+
+/** How a pinned version compares with this machine */
+export type ToolCheckStatus = 'ok' | 'mismatch' | 'missing' | 'unknown';
+
+/** A requirement checked against the installed binary */
+export interface ToolCheck extends ToolRequirement {
+  /** Version installed on this machine (`null` if not installed) */
+  installed: string | null;
+  /** `unknown` when the tool or the version spec cannot be checked */
+  status: ToolCheckStatus;
+}
+
+/** A version manager that can install runtimes */
+export type VersionManager = 'mise' | 'asdf' | 'nvm';
+
+// ─── Constants ────────────────────────────────────────────────────────────
+
+/** Display label for install commands */
+export const TOOLS_LABEL = '🧰 Tool versions';
+
+/**
+ * How to ask each known tool for its version.
+ */
+const TOOL_BINARIES: ReadonlyMap<string, readonly string[]> = new Map([
+  ['node', ['node', '--version']],
+  ['npm', ['npm', '--version']],
+  ['pnpm', ['pnpm', '--version']],
+  ['yarn', ['yarn', '--version']],
+  ['bun', ['bun', '--version']],
+  ['deno', ['deno', '--version']],
+  ['python', ['python3', '--version']],
+  ['ruby', ['ruby', '--version']],
+  ['go', ['go', 'version']],
+]);
+
+/** Alternative names used by asdf, mise and package managers */
+const TOOL_ALIASES: ReadonlyMap<string, string> = new Map([
+  ['nodejs', 'node'],
+  ['python3', 'python'],
+  ['golang', 'go'],
+]);
+
+/** Tool and plugin names as asdf and mise use them (e.g. `nodejs`, `rust-analyzer`) */
+const TOOL_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/** asdf plugin names that differ from the tool name */
+const ASDF_PLUGINS: ReadonlyMap<string, string> = new Map([
+  ['node', 'nodejs'],
+  ['go', 'golang'],
+]);
+
+/** Single-version files and the tool they pin */
+const VERSION_FILES: ReadonlyArray<{ file: string; tool: string }> = [
+  { file: '.nvmrc', tool: 'node' },
+  { file: '.node-version', tool: 'node' },
+  { file: '.python-version', tool: 'python' },
+];
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+/**
+ * Map a tool name to its canonical name (`nodejs` → `node`).
+ */
+function normalizeTool(name: string): string {
+  const lower = name.trim().toLowerCase();
+  return TOOL_ALIASES.get(lower) ?? lower;
+}
+
+/**
+ * Read the non-empty, non-comment lines of a file in the project.
+ */
+function readLines(projectPath: string, file: string): string[] {
+  try {
+    return fs
+      .readFileSync(path.join(projectPath, file), 'utf-8')
+      .split('\n')
+      .map((line) => line.replace(/#.*$/, '').trim())
+      .filter((line) => line.length > 0);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse the leading numeric components of a version (`v20.11.0` → [20, 11, 0]).
+ */
+function parseNumbers(version: string): number[] | null {
+  const digits = /^v?(\d+(?:\.\d+)*)/.exec(version.trim())?.[1];
+  return digits ? digits.split('.').map(Number) : null;
+}
+
+/**
+ * Compare two versions component by component (missing components are 0).
+ */
+function compareNumbers(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Check a version against one comparator (`>=18`, `^20.1`, `3.11`, `20.x`).
+ *
+ * @returns `null` if the comparator is not understood.
+ */
+function matchesComparator(installed: number[], comparator: string): boolean | null {
+  const match = /^(>=|<=|>|<|=|\^|~)?v?((?:\d+|[xX*])(?:\.(?:\d+|[xX*]))*)$/.exec(comparator);
+  if (!match) return null;
+
+  const [, operator = '', version = ''] = match;
+  const parts = version.split('.');
+  const wildcard = parts.findIndex((part) => !/^\d+$/.test(part));
+  const fixed = (wildcard === -1 ? parts : parts.slice(0, wildcard)).map(Number);
+  if (fixed.length === 0) return true;
+
+  // "20" and "20.x" mean any 20.*.*
+  const partial = wildcard !== -1 || parts.length < 3;
+  const prefix = installed.slice(0, fixed.length);
+
+  switch (operator) {
+    case '>=':
+      return compareNumbers(installed, fixed) >= 0;
+    case '>':
+      return compareNumbers(partial ? prefix : installed, fixed) > 0;
+    case '<':
+      return compareNumbers(installed, fixed) < 0;
+    case '<=':
+      return compareNumbers(partial ? prefix : installed, fixed) <= 0;
+    case '^': {
+      // Same leftmost non-zero component, and not older
+      const firstNonZero = fixed.findIndex((n) => n !== 0);
+      const keep = (firstNonZero === -1 ? fixed.length - 1 : firstNonZero) + 1;
+      return (
+        compareNumbers(installed, fixed) >= 0 &&
+        compareNumbers(installed.slice(0, keep), fixed.slice(0, keep)) === 0
+      );
+    }
+    case '~': {
+      const keep = fixed.length >= 2 ? 2 : 1;
+      return (
+        compareNumbers(installed, fixed) >= 0 &&
+        compareNumbers(installed.slice(0, keep), fixed.slice(0, keep)) === 0
+      );
+    }
+    default:
+      return compareNumbers(partial ? prefix : installed, fixed) === 0;
+  }
+}
+
+/**
+ * Path of the nvm script on this machine.
+ */
+function nvmScript(): string {
+  return path.join(process.env['NVM_DIR'] ?? path.join(os.homedir(), '.nvm'), 'nvm.sh');
+}
+
+// ─── Detection ────────────────────────────────────────────────────────────
+
+/**
+ * Read the runtime versions a project pins.
+ *
+ * @param projectPath - The project directory.
+ * @returns Requirements in file order (a tool may appear more than once).
+ */
+export function readToolRequirements(projectPath: string): ToolRequirement[] {
+  const required: ToolRequirement[] = [];
+
+  for (const { file, tool } of VERSION_FILES) {
+    const [version] = readLines(projectPath, file);
+    if (version) {
+      required.push({ tool, version, source: file });
+    }
+  }
+
+  for (const line of readLines(projectPath, '.tool-versions')) {
+    const [tool, version] = line.split(/\s+/);
+    if (tool && version) {
+      required.push({ tool: normalizeTool(tool), version, source: '.tool-versions' });
+    }
+  }
+
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(projectPath, 'package.json'), 'utf-8')) as {
+      engines?: unknown;
+    };
+    if (typeof pkg.engines === 'object' && pkg.engines !== null) {
+      for (const [tool, version] of Object.entries(pkg.engines)) {
+        if (typeof version === 'string' && version.trim().length > 0) {
+          required.push({ tool: normalizeTool(tool), version: version.trim(), source: 'package.json#engines' });
+        }
+      }
+    }
+  } catch {
+    // No package.json, or not valid JSON
+  }
+
+  return required;
+}
+
+/**
+ * Ask an installed binary for its version.
+ *
+ * @param tool - A known tool name (e.g. `node`, `python`).
+ * @returns The version (e.g. `20.11.0`), or `null` if the tool is
+ *          unknown or not installed.
+ */
+export function detectInstalledVersion(tool: string): string | null {
+  const [command, ...args] = TOOL_BINARIES.get(tool) ?? [];
+  if (!command) {
+    return null;
+  }
+  try {
+    const output = execFileSync(command, args, {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      timeout: 5000,
+    });
+    return /\d+(?:\.\d+)+/.exec(output)?.[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Capture a project's pinned versions and the installed binaries.
+ *
+ * @param projectPath - The project directory.
+ * @returns The captured versions, or `null` if the project pins none.
+ */
+export function detectToolVersions(projectPath: string): ToolVersions | null {
+  const required = readToolRequirements(projectPath);
+  if (required.length === 0) {
+    return null;
+  }
+
+  const installed: Record<string, string> = {};
+  for (const tool of new Set(required.map((r) => r.tool))) {
+    const version = detectInstalledVersion(tool);
+    if (version) {
+      installed[tool] = version;
+    }
+  }
+
+  return { required, installed };
+}
+
+// ─── Checks ───────────────────────────────────────────────────────────────
+
+/**
+ * Check an installed version against a version spec.
+ *
+ * Supports exact and partial versions (`20`, `3.11`, `20.x`), comparison
+ * operators, `^` and `~` ranges, hyphen ranges and `||` alternatives.
+ *
+ * @param installed - The installed version (e.g. `20.11.0`).
+ * @param spec - The required version or range.
+ * @returns `null` if the spec cannot be checked (e.g. `lts/iron`).
+ */
+export function satisfiesVersion(installed: string, spec: string): boolean | null {
+  const version = parseNumbers(installed);
+  if (!version) return null;
+
+  let unknown = false;
+  for (const alternative of spec.split('||')) {
+    const hyphen = /^\s*(\S+)\s+-\s+(\S+)\s*$/.exec(alternative);
+    const comparators = hyphen
+      ? [`>=${hyphen[1] ?? ''}`, `<=${hyphen[2] ?? ''}`]
+      : alternative
+          .trim()
+          .replace(/(>=|<=|>|<|=|\^|~)\s+/g, '$1')
+          .split(/\s+/)
+          .filter((c) => c.length > 0);
+    if (comparators.length === 0) continue;
+
+    const results = comparators.map((c) => matchesComparator(version, c));
+    if (results.includes(null)) {
+      unknown = true;
+      continue;
+    }
+    if (results.every(Boolean)) return true;
+  }
+
+  return unknown ? null : false;
+}
+
+/**
+ * Check pinned versions against the binaries on this machine.
+ *
+ * @param required - The project's pinned versions.
+ * @param detect - Version lookup (defaults to running the binary).
+ * @returns One check per requirement.
+ */
+export function checkToolVersions(
+  required: ToolRequirement[],
+  detect: (tool: string) => string | null = detectInstalledVersion,
+): ToolCheck[] {
+  const installedVersions = new Map<string, string | null>();
+
+  return required.map((requirement) => {
+    const { tool } = requirement;
+    if (!TOOL_BINARIES.has(tool)) {
+      return { ...requirement, installed: null, status: 'unknown' };
+    }
+
+    if (!installedVersions.has(tool)) {
+      installedVersions.set(tool, detect(tool));
+    }
+    const installed = installedVersions.get(tool) ?? null;
+    if (installed === null) {
+      return { ...requirement, installed, status: 'missing' };
+    }
+
+    const satisfied = satisfiesVersion(installed, requirement.version);
+    return {
+      ...requirement,
+      installed,
+      status: satisfied === null ? 'unknown' : satisfied ? 'ok' : 'mismatch',
+    };
+  });
+}
+
+/**
+ * Describe a check for display (e.g. `node 20.11.0 required by .nvmrc — found 18.19.0`).
+ */
+export function formatToolCheck(check: ToolCheck): string {
+  const found = check.installed === null ? 'not installed' : `found ${check.installed}`;
+  return `${check.tool} ${check.version} required by ${check.source} — ${found}`;
+}
+
+// ─── Install Commands ─────────────────────────────────────────────────────
+
+/**
+ * List the version managers available on this machine, in order of
+ * preference.
+ */
+export function detectVersionManagers(): VersionManager[] {
+  const managers: VersionManager[] = [];
+  const probes: Array<[VersionManager, string[]]> = [
+    ['mise', ['--version']],
+    ['asdf', ['version']],
+  ];
+  for (const [manager, args] of probes) {
+    try {
+      execFileSync(manager, args, { stdio: 'ignore', timeout: 5000 });
+      managers.push(manager);
+    } catch {
+      // Not installed
+    }
+  }
+  if (fs.existsSync(nvmScript())) {
+    managers.push('nvm');
+  }
+  return managers;
+}
+
+/**
+ * Pick a concrete version to install for a failed check.
+ *
+ * A pinned version is installed as-is. For a range, the version the
+ * tracking machine had is used if it satisfies the range.
+ */
+function installVersion(check: ToolCheck, trackedInstalled: Record<string, string>): string | null {
+  const pinned = /^v?(\d+(?:\.\d+)*)$/.exec(check.version.trim())?.[1];
+  if (pinned) {
+    return pinned;
+  }
+
+  const tracked = Object.hasOwn(trackedInstalled, check.tool) ? trackedInstalled[check.tool] : undefined;
+  if (tracked && /^\d+(?:\.\d+)*$/.test(tracked) && satisfiesVersion(tracked, check.version)) {
+    return tracked;
+  }
+  return null;
+}
+
+/**
+ * Build install commands for missing or mismatched versions.
+ *
+ * Uses the first available manager that supports the tool (nvm only
+ * installs Node). Checks without a concrete version to install, without
+ * a suitable manager, or whose tool name (synced from `.tool-versions`)
+ * is not a plain plugin name get no command.
+ *
+ * @param checks - The results of `checkToolVersions()`.
+ * @param trackedInstalled - Versions installed on the tracking machine.
+ * @param managers - Available version managers (see `detectVersionManagers()`).
+ * @returns Commands to present for approval.
+ */
+export function buildToolInstallCommands(
+  checks: ToolCheck[],
+  trackedInstalled: Record<string, string>,
+  managers: VersionManager[],
+): PendingCommand[] {
+  const commands: PendingCommand[] = [];
+  const seen = new Set<string>();
+
+  for (const check of checks) {
+    if (check.status !== 'missing' && check.status !== 'mismatch') continue;
+    if (!TOOL_NAME.test(check.tool)) continue;
+
+    const version = installVersion(check, trackedInstalled);
+    const manager = managers.find((m) => m !== 'nvm' || check.tool === 'node');
+    if (!version || !manager || seen.has(`${check.tool}@${version}`)) continue;
+    seen.add(`${check.tool}@${version}`);
+
+    let command: string;
+    switch (manager) {
+      case 'mise':
+        command = `mise install ${check.tool}@${version}`;
+        break;
+      case 'asdf':
+        command = `asdf install ${ASDF_PLUGINS.get(check.tool) ?? check.tool} ${version}`;
+        break;
+      case 'nvm':
+        command = `. ${shellQuote(nvmScript())} && nvm install ${version}`;
+        break;
+    }
+    commands.push({ command, label: TOOLS_LABEL });
+  }
+
+  return commands;
+}
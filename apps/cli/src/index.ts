@@ -22,16 +22,27 @@ import { registerEnvCommand } from './commands/env.js';
 import { registerSyncCommand } from './commands/sync.js';
 import { registerPushCommand } from './commands/push.js';
 import { registerPullCommand } from './commands/pull.js';
+import { registerHistoryCommand } from './commands/history.js';
+import { registerRollbackCommand } from './commands/rollback.js';
+import { registerDiffCommand } from './commands/diff.js';
 import { registerRestoreCommand } from './commands/restore.js';
+import { registerExecCommand } from './commands/exec.js';
 import { registerNoteCommand } from './commands/note.js';
 import { registerShowCommand } from './commands/show.js';
 import { registerDockerCommand } from './commands/docker.js';
 import { registerServiceCommand } from './commands/service.js';
 import { registerDirCommand } from './commands/dir.js';
 import { registerKeyCommand } from './commands/key.js';
+import { registerAgentCommand } from './commands/agent.js';
 import { registerAuditCommand } from './commands/audit.js';
 import { registerTeamCommand } from './commands/team.js';
 import { registerConfigCommand } from './commands/config.js';
+import { registerMigrateCommand } from './commands/migrate.js';
+import { registerDaemonCommand } from './commands/daemon.js';
+import { registerShellInitCommand } from './commands/shell-init.js';
+import { registerJumpCommand } from './commands/jump.js';
+import { registerSessionCommand } from './commands/session.js';
+import { registerIdeCommand } from './commands/ide.js';
 
 /**
  * Create and configure the root CLI program.
@@ -55,16 +66,27 @@ export function createProgram(): Command {
   registerSyncCommand(program);
   registerPushCommand(program);
   registerPullCommand(program);
+  registerHistoryCommand(program);
+  registerRollbackCommand(program);
+  registerDiffCommand(program);
   registerRestoreCommand(program);
+  registerExecCommand(program);
   registerNoteCommand(program);
   registerShowCommand(program);
   registerDockerCommand(program);
   registerServiceCommand(program);
   registerDirCommand(program);
   registerKeyCommand(program);
+  registerAgentCommand(program);
   registerAuditCommand(program);
   registerTeamCommand(program);
   registerConfigCommand(program);
+  registerMigrateCommand(program);
+  registerDaemonCommand(program);
+  registerShellInitCommand(program);
+  registerJumpCommand(program);
+  registerSessionCommand(program);
+  registerIdeCommand(program);
 
   return program;
 }
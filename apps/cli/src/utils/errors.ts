@@ -48,6 +48,39 @@ export class EncryptionError extends CtxSyncError {
   }
 }
 
+/** Why an encrypted state file could not be read. */
+export type DecryptionFailureReason =
+  | 'wrong-identity'
+  | 'not-a-recipient'
+  | 'truncated'
+  | 'schema-mismatch';
+
+/** A state file that could not be decrypted, classified by cause. */
+export class DecryptionError extends CtxSyncError {
+  /** The state file that failed (e.g. 'env-vars.age'). */
+  readonly file: string;
+
+  /** What went wrong. */
+  readonly reason: DecryptionFailureReason;
+
+  /** Recipient stanza types in the file's header (empty if unreadable). */
+  readonly stanzas: string[];
+
+  constructor(
+    file: string,
+    reason: DecryptionFailureReason,
+    message: string,
+    suggestion: string,
+    stanzas: string[] = [],
+  ) {
+    super(message, 'DECRYPTION_FAILED', suggestion);
+    this.name = 'DecryptionError';
+    this.file = file;
+    this.reason = reason;
+    this.stanzas = stanzas;
+  }
+}
+
 /** Git sync failures. */
 export class SyncError extends CtxSyncError {
   constructor(message: string, suggestion?: string) {
@@ -109,6 +142,92 @@ export class EdgeCaseError extends CtxSyncError {
   }
 }
 
+/** Decrypted state that does not match its schema. */
+export class StateValidationError extends CtxSyncError {
+  /** The state file that failed validation (e.g. 'env-vars.age'). */
+  readonly file: string;
+
+  /** Field paths and reasons reported by the schema validator. */
+  readonly fieldErrors: string[];
+
+  constructor(file: string, fieldErrors: string[], suggestion?: string) {
+    const shown = fieldErrors.slice(0, 5).join('; ');
+    const more = fieldErrors.length > 5 ? ` (and ${String(fieldErrors.length - 5)} more)` : '';
+    super(
+      `Invalid state in ${file}: ${shown}${more}`,
+      'STATE_INVALID',
+      suggestion ??
+        'The file may have been written by a buggy or tampered client.\n' +
+          '  Run `ctx-sync restore <project> --repair` to drop malformed entries.',
+    );
+    this.name = 'StateValidationError';
+    this.file = file;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/** A sync conflict that needs a human decision (raised in unattended mode). */
+export class SyncConflictError extends CtxSyncError {
+  /** The conflicted file (e.g. 'mental-context.age'). */
+  readonly file: string;
+
+  /** The field both machines changed. */
+  readonly field: string;
+
+  constructor(file: string, field: string, suggestion?: string) {
+    super(
+      `${file}: ${field} changed on both machines.`,
+      'SYNC_CONFLICT',
+      suggestion ?? 'Run `ctx-sync sync` to choose which version to keep.',
+    );
+    this.name = 'SyncConflictError';
+    this.file = file;
+    this.field = field;
+  }
+}
+
+/** State written in a schema version newer than this CLI understands. */
+export class StateVersionError extends CtxSyncError {
+  /** The state file with the unsupported version (e.g. 'state.age'). */
+  readonly file: string;
+
+  /** Schema version recorded for the file. */
+  readonly version: number;
+
+  /** Newest schema version this CLI can read. */
+  readonly supported: number;
+
+  constructor(file: string, version: number, supported: number, suggestion?: string) {
+    super(
+      `${file} uses schema version ${String(version)}, but this ctx-sync only supports up to version ${String(supported)}.`,
+      'STATE_VERSION_UNSUPPORTED',
+      suggestion ??
+        'Another machine wrote this file with a newer ctx-sync.\n' +
+          '  Upgrade ctx-sync on this machine: npm install -g ctx-sync@latest',
+    );
+    this.name = 'StateVersionError';
+    this.file = file;
+    this.version = version;
+    this.supported = supported;
+  }
+}
+
+/** An env var reference that its secret provider could not resolve. */
+export class SecretRefError extends CtxSyncError {
+  /** The reference (e.g. 'op://vault/item/field'), never the secret. */
+  readonly ref: string;
+
+  constructor(ref: string, reason: string, suggestion?: string) {
+    super(
+      `Could not resolve ${ref}: ${reason}`,
+      'SECRET_REF_FAILED',
+      suggestion ?? "Check that the provider's CLI is installed, signed in and can read the secret.",
+    );
+    this.name = 'SecretRefError';
+    this.ref = ref;
+  }
+}
+
 /**
  * Determine whether verbose/debug output should be shown.
  *
@@ -153,11 +272,12 @@ export function classifyError(err: unknown): CtxSyncError {
 
   // Encryption / decryption problems
   // Note: avoid matching "age" alone — it also appears in "Invalid Age public key format".
-  // Only match "age:" (library prefix) or "age ciphertext" patterns.
+  // Only match "age:" (library prefix) or "age ciphertext" as whole words, so
+  // "Usage:" in a command hint is not taken for an age error.
   if (
     lowerMsg.includes('decrypt') ||
-    lowerMsg.includes('age:') ||
-    lowerMsg.includes('age ciphertext') ||
+    /\bage:/.test(lowerMsg) ||
+    /\bage ciphertext/.test(lowerMsg) ||
     lowerMsg.includes('ciphertext') ||
     lowerMsg.includes('encrypted')
   ) {
@@ -0,0 +1,22 @@
+/**
+ * Shell quoting utilities.
+ *
+ * Every command line ctx-sync builds from synced or user-supplied values
+ * (tmux steps, tool installs, `code -g`, env exports, shell hooks) quotes
+ * those values here, so there is one rule to review.
+ *
+ * @module utils/shell
+ */
+
+/**
+ * Quote a value for a POSIX shell command line (bash, zsh, sh).
+ *
+ * The value is wrapped in single quotes, inside which nothing is special
+ * but `'` itself, written as `'\''`.
+ *
+ * @param value - The value to quote.
+ * @returns The quoted value, safe to paste as a single word.
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,89 @@
+/**
+ * E2E tests for `ctx-sync daemon start|status|stop`.
+ *
+ * Starts a real detached daemon via the CLI, waits for its first sync
+ * in the log, then stops it.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { TestEnvironment } from './helpers/test-env.js';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+/** Poll until `check` returns true or the timeout expires */
+async function waitFor(check: () => boolean, timeoutMs = 20000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (check()) return true;
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  return check();
+}
+
+describe('E2E: ctx-sync daemon', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    env = new TestEnvironment('daemon');
+    await env.setup();
+  });
+
+  afterEach(async () => {
+    // Never leave a daemon behind, even if an assertion failed
+    const pidFile = path.join(env.configDir, 'daemon.pid');
+    if (fs.existsSync(pidFile)) {
+      try {
+        process.kill(Number(fs.readFileSync(pidFile, 'utf-8').trim()), 'SIGTERM');
+      } catch {
+        // Already gone
+      }
+    }
+    await env.cleanup();
+  });
+
+  it('daemon start should fail before init', () => {
+    const result = env.execCommand('daemon start');
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr + result.stdout).toContain('No sync repository found');
+  });
+
+  it('daemon status should report a stopped daemon', () => {
+    const result = env.execCommand('daemon status');
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('not running');
+  });
+
+  it('should start, sync, report status and stop', async () => {
+    env.execCommand('init --no-interactive');
+
+    const start = env.execCommand('daemon start --interval 60');
+    expect(start.exitCode).toBe(0);
+    expect(start.stdout).toContain('Sync daemon started');
+
+    const logFile = path.join(env.configDir, 'daemon.log');
+    const synced = await waitFor(
+      () => fs.existsSync(logFile) && fs.readFileSync(logFile, 'utf-8').includes('sync ok'),
+    );
+    expect(synced).toBe(true);
+
+    const status = env.execCommand('daemon status');
+    expect(status.stdout).toContain('Sync daemon is running');
+    expect(status.stdout).toContain('sync ok');
+
+    const second = env.execCommand('daemon start');
+    expect(second.exitCode).not.toBe(0);
+    expect(second.stderr + second.stdout).toContain('already running');
+
+    const stop = env.execCommand('daemon stop');
+    expect(stop.stdout).toContain('Stopped sync daemon');
+
+    const stopped = await waitFor(() => fs.readFileSync(logFile, 'utf-8').includes('daemon stopped (stopped)'));
+    expect(stopped).toBe(true);
+    expect(fs.existsSync(path.join(env.configDir, 'daemon.pid'))).toBe(false);
+  }, 60000);
+});
@@ -0,0 +1,107 @@
+/**
+ * E2E tests for `ctx-sync ide capture` and VS Code restore.
+ *
+ * Uses real CLI invocations via tsx with a fake `code` binary first on
+ * PATH, so VS Code is not needed.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execSync } from 'node:child_process';
+import { TestEnvironment } from './helpers/test-env.js';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const ORIGINAL_PATH = process.env['PATH'];
+
+/**
+ * Install a fake `code` that lists the extensions in `extensions.txt`
+ * and logs every invocation.
+ */
+function installFakeCode(homeDir: string, extensions: string[]): { log: string; extensionsFile: string } {
+  const binDir = path.join(homeDir, 'bin');
+  const log = path.join(binDir, 'code.log');
+  const extensionsFile = path.join(binDir, 'extensions.txt');
+  fs.mkdirSync(binDir, { recursive: true });
+  fs.writeFileSync(extensionsFile, extensions.join('\n') + '\n');
+  fs.writeFileSync(
+    path.join(binDir, 'code'),
+    [
+      '#!/bin/sh',
+      `printf '%s\\n' "$*" >> '${log}'`,
+      'case "$1" in',
+      '  --version) echo "1.87.0" ;;',
+      `  --list-extensions) cat '${extensionsFile}' ;;`,
+      'esac',
+      '',
+    ].join('\n'),
+    { mode: 0o755 },
+  );
+  process.env['PATH'] = `${binDir}:${ORIGINAL_PATH ?? ''}`;
+  return { log, extensionsFile };
+}
+
+describe('E2E: ctx-sync ide', () => {
+  let env: TestEnvironment;
+  let projectDir: string;
+
+  beforeEach(async () => {
+    env = new TestEnvironment('ide');
+    await env.setup();
+    env.execCommand('init --no-interactive');
+
+    projectDir = path.join(env.homeDir, 'projects', 'test-app');
+    fs.mkdirSync(path.join(projectDir, '.vscode'), { recursive: true });
+    fs.writeFileSync(
+      path.join(projectDir, '.vscode', 'settings.json'),
+      '{\n  // local only\n  "editor.formatOnSave": true,\n}\n',
+    );
+    execSync('git init', { cwd: projectDir });
+    execSync('git config user.email "test@test.com"', { cwd: projectDir });
+    execSync('git config user.name "Test"', { cwd: projectDir });
+  });
+
+  afterEach(async () => {
+    process.env['PATH'] = ORIGINAL_PATH;
+    await env.cleanup();
+  });
+
+  it('should capture VS Code state on track and offer it on restore', () => {
+    const { log, extensionsFile } = installFakeCode(env.homeDir, ['dbaeumer.vscode-eslint', 'github.copilot']);
+
+    const track = env.execCommand(`track --path ${projectDir} --no-interactive`);
+    expect(track.exitCode).toBe(0);
+    expect(track.stdout).toContain('VS Code state saved (2 extensions');
+
+    const ideFile = fs.readFileSync(path.join(env.syncDir, 'ide-state.age'), 'utf-8');
+    expect(ideFile).toContain('-----BEGIN AGE ENCRYPTED FILE-----');
+    expect(ideFile).not.toContain('vscode-eslint');
+
+    // A "new machine": one extension missing, settings file gone
+    fs.writeFileSync(extensionsFile, 'github.copilot\n');
+    fs.rmSync(path.join(projectDir, '.vscode'), { recursive: true });
+
+    const restore = env.execCommand('restore test-app --no-interactive');
+    expect(restore.exitCode).toBe(0);
+    expect(restore.stdout).toContain('code --install-extension dbaeumer.vscode-eslint');
+    expect(restore.stdout).not.toContain('--install-extension github.copilot');
+    expect(restore.stdout).toContain('editor.formatOnSave = true');
+    expect(restore.stdout).toContain('Skipped');
+
+    // Nothing is installed or written without approval
+    expect(fs.readFileSync(log, 'utf-8')).not.toContain('--install-extension');
+    expect(fs.existsSync(path.join(projectDir, '.vscode', 'settings.json'))).toBe(false);
+  });
+
+  it('should capture VS Code state with ide capture', () => {
+    installFakeCode(env.homeDir, ['dbaeumer.vscode-eslint']);
+    env.execCommand(`track --path ${projectDir} --no-interactive`);
+
+    const result = env.execCommand('ide capture test-app --no-sync');
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('Captured VS Code state for test-app (1 extensions, 1 settings, 0 open editors)');
+  });
+});
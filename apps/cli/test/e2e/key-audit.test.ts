@@ -32,6 +32,7 @@ describe('E2E: key show', () => {
 
     expect(result.exitCode).toBe(0);
     expect(result.stdout).toContain('Public key: age1');
+    expect(result.stdout).toMatch(/Signing key: [A-Za-z0-9+/]{43}=/);
   });
 
   it('should never display the private key', () => {
@@ -86,7 +87,9 @@ describe('E2E: key rotate', () => {
     expect(result.exitCode).toBe(0);
     expect(result.stdout).toContain('Key rotation complete');
     expect(result.stdout).toContain('New public key');
+    expect(result.stdout).toContain('Git history: kept');
     expect(result.stdout).toContain('IMPORTANT');
+    expect(fs.existsSync(path.join(env.syncDir, 'key-rotations.jsonl'))).toBe(true);
 
     // Verify new key is different
     const newKeyResult = env.execCommand('key show');
@@ -140,6 +143,89 @@ describe('E2E: key update', () => {
   });
 });
 
+// ─── Key Protect / Unlock ─────────────────────────────────────────────────
+
+describe('E2E: key protect and unlock', () => {
+  afterEach(() => {
+    env.execCommand('key lock');
+  });
+
+  it('should need an unlock before commands can use a protected key', () => {
+    const protect = env.execCommand('key protect --stdin', { stdin: 'correct horse\n' });
+    expect(protect.exitCode).toBe(0);
+    expect(fs.readFileSync(path.join(env.configDir, 'key.txt'), 'utf-8')).not.toContain('AGE-SECRET-KEY-');
+    expect(env.execCommand('key verify').stdout).toContain('Key: passphrase-protected');
+
+    const locked = env.execCommand('key show');
+    expect(locked.exitCode).not.toBe(0);
+    expect(locked.stderr).toContain('ctx-sync key unlock');
+
+    const unlock = env.execCommand('key unlock --ttl 1 --stdin', { stdin: 'correct horse\n' });
+    expect(unlock.exitCode).toBe(0);
+    expect(unlock.stdout).toContain('Key unlocked until');
+    expect(env.execCommand('key show').stdout).toContain('Public key: age1');
+
+    expect(env.execCommand('key lock').stdout).toContain('Key locked');
+    expect(env.execCommand('key show').exitCode).not.toBe(0);
+  });
+});
+
+describe('E2E: key agent', () => {
+  const keyPath = (): string => path.join(env.configDir, 'key.txt');
+
+  afterEach(() => {
+    env.execCommand('agent stop');
+    if (fs.existsSync(keyPath() + '.bak')) {
+      fs.renameSync(keyPath() + '.bak', keyPath());
+    }
+  });
+
+  it('should serve the key to other commands without the key file', () => {
+    const start = env.execCommand('agent start');
+    expect(start.exitCode).toBe(0);
+    expect(start.stdout).toContain('Key agent started');
+    expect(env.execCommand('agent status').stdout).toContain('until stopped');
+
+    fs.renameSync(keyPath(), keyPath() + '.bak');
+    const show = env.execCommand('key show');
+    expect(show.exitCode).toBe(0);
+    expect(show.stdout).toContain('Public key: age1');
+
+    expect(env.execCommand('agent stop').stdout).toContain('Key agent stopped');
+    expect(env.execCommand('key show').exitCode).not.toBe(0);
+    expect(env.execCommand('agent status').stdout).toContain('not running');
+  });
+});
+
+// ─── Key Backup ───────────────────────────────────────────────────────────
+
+describe('E2E: key backup', () => {
+  it('should print shares that restore the key on a new machine', () => {
+    const backup = env.execCommand('key backup --shares 5 --threshold 3 --qr');
+    expect(backup.exitCode).toBe(0);
+    expect(backup.stdout).toContain('ctx-sync key share 5 of 5 (any 3 rebuild the key)');
+    expect(backup.stdout).toContain('█');
+    expect(backup.stdout).not.toContain('AGE-SECRET-KEY-');
+
+    const shares = backup.stdout.split('─'.repeat(60));
+    const origKey = env.getKey();
+    fs.rmSync(path.join(env.configDir, 'key.txt'));
+
+    const tooFew = env.execCommand('init --restore --from-shares --stdin --no-interactive', {
+      stdin: [shares[0], shares[4]].join('\n'),
+    });
+    expect(tooFew.exitCode).toBe(1);
+    expect(tooFew.stderr).toContain('Need at least 3');
+
+    const restore = env.execCommand('init --restore --from-shares --stdin --no-interactive', {
+      stdin: [shares[0], shares[2], shares[4]].join('\n'),
+    });
+    expect(restore.exitCode).toBe(0);
+    expect(restore.stdout).toContain('Key rebuilt from shares');
+    expect(env.getKey()).toBe(origKey);
+  });
+});
+
 // ─── Audit ────────────────────────────────────────────────────────────────
 
 describe('E2E: audit', () => {
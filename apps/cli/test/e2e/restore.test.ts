@@ -14,6 +14,8 @@ declare global {
   var TEST_DIR: string;
 }
 
+const { generateKey } = await import('../../src/core/encryption.js');
+
 describe('E2E: ctx-sync restore', () => {
   let env: TestEnvironment;
 
@@ -261,6 +263,66 @@ describe('E2E: ctx-sync restore', () => {
     expect(result.stdout).toContain(projectDir);
   });
 
+  it('restore should report pinned tool mismatches and offer installs', () => {
+    env.execCommand('init --no-interactive');
+
+    const projectDir = path.join(env.homeDir, 'projects', 'test-app');
+    fs.mkdirSync(projectDir, { recursive: true });
+    execSync('git init', { cwd: projectDir });
+    execSync('git config user.email "test@test.com"', { cwd: projectDir });
+    execSync('git config user.name "Test"', { cwd: projectDir });
+    fs.writeFileSync(path.join(projectDir, '.python-version'), '3.11.8\n');
+
+    // Fake python3 and mise first on PATH
+    const binDir = path.join(env.homeDir, 'bin');
+    fs.mkdirSync(binDir, { recursive: true });
+    fs.writeFileSync(path.join(binDir, 'python3'), '#!/bin/sh\necho "Python 3.12.1"\n', { mode: 0o755 });
+    fs.writeFileSync(path.join(binDir, 'mise'), '#!/bin/sh\necho "2024.2.0"\n', { mode: 0o755 });
+    const originalPath = process.env['PATH'];
+    process.env['PATH'] = `${binDir}:${originalPath ?? ''}`;
+
+    try {
+      const track = env.execCommand(`track --path ${projectDir} --no-interactive`);
+      expect(track.stdout).toContain('Tools: python 3.11.8');
+
+      const result = env.execCommand('restore test-app --no-interactive');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('python 3.11.8 required by .python-version — found 3.12.1');
+      expect(result.stdout).toContain('mise install python@3.11.8');
+      expect(result.stdout).toContain('Skipped');
+
+      const show = env.execCommand('show test-app');
+      expect(show.stdout).toContain('⚠ python 3.11.8 required by .python-version');
+    } finally {
+      process.env['PATH'] = originalPath;
+    }
+  });
+
+  it('restore should work for a member scoped to the project', async () => {
+    env.execCommand('init --no-interactive');
+
+    const projectDir = path.join(env.homeDir, 'projects', 'api');
+    fs.mkdirSync(projectDir, { recursive: true });
+    fs.writeFileSync(path.join(projectDir, '.env'), 'PORT=3000\nSECRET=sk_test_123\n');
+    execSync('git init', { cwd: projectDir });
+    env.execCommand(`track --path ${projectDir} --no-interactive`);
+    env.execCommand(`env import api ${path.join(projectDir, '.env')}`);
+
+    const carolKeys = await generateKey();
+    env.execCommand(`team add --name Carol --key ${carolKeys.publicKey} --project api --no-verify`);
+
+    // Carol's machine: same sync repo, her key, which cannot read state.age
+    fs.writeFileSync(path.join(env.configDir, 'key.txt'), carolKeys.privateKey, { mode: 0o600 });
+    fs.rmSync(path.join(projectDir, '.env'));
+
+    const result = env.execCommand('restore api --no-interactive');
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('Env vars: 2 decrypted');
+    expect(fs.readFileSync(path.join(projectDir, '.env'), 'utf-8')).toContain('SECRET=');
+  });
+
   it('restore should fail with wrong encryption key', () => {
     env.execCommand('init --no-interactive');
 
@@ -0,0 +1,107 @@
+/**
+ * E2E tests for `ctx-sync session capture` and tmux restore.
+ *
+ * Uses real CLI invocations via tsx with a fake `tmux` binary first on
+ * PATH, so no tmux server is needed.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execSync } from 'node:child_process';
+import { TestEnvironment } from './helpers/test-env.js';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const ORIGINAL_PATH = process.env['PATH'];
+
+/**
+ * Install a fake tmux that prints `panes` for `list-panes`, reports no
+ * running sessions and logs every invocation.
+ */
+function installFakeTmux(homeDir: string, panes: string): string {
+  const binDir = path.join(homeDir, 'bin');
+  const log = path.join(binDir, 'tmux.log');
+  const panesFile = path.join(binDir, 'panes.txt');
+  fs.mkdirSync(binDir, { recursive: true });
+  fs.writeFileSync(panesFile, panes);
+  fs.writeFileSync(
+    path.join(binDir, 'tmux'),
+    [
+      '#!/bin/sh',
+      `printf '%s\\n' "$*" >> '${log}'`,
+      'case "$1" in',
+      '  -V) echo "tmux 3.4" ;;',
+      `  list-panes) cat '${panesFile}' ;;`,
+      '  has-session) exit 1 ;;',
+      'esac',
+      '',
+    ].join('\n'),
+    { mode: 0o755 },
+  );
+  process.env['PATH'] = `${binDir}:${ORIGINAL_PATH ?? ''}`;
+  return log;
+}
+
+describe('E2E: ctx-sync session', () => {
+  let env: TestEnvironment;
+  let projectDir: string;
+
+  beforeEach(async () => {
+    env = new TestEnvironment('session');
+    await env.setup();
+    env.execCommand('init --no-interactive');
+
+    projectDir = path.join(env.homeDir, 'projects', 'test-app');
+    fs.mkdirSync(path.join(projectDir, 'src'), { recursive: true });
+    execSync('git init', { cwd: projectDir });
+    execSync('git config user.email "test@test.com"', { cwd: projectDir });
+    execSync('git config user.name "Test"', { cwd: projectDir });
+    env.execCommand(`track --path ${projectDir} --no-interactive`);
+  });
+
+  afterEach(async () => {
+    process.env['PATH'] = ORIGINAL_PATH;
+    await env.cleanup();
+  });
+
+  it('should capture a tmux session and present it on restore', () => {
+    const log = installFakeTmux(
+      env.homeDir,
+      [
+        ['test-app', '0', 'editor', 'tiled', '0', '1', path.join(projectDir, 'src'), 'nvim'],
+        ['test-app', '1', 'shell', 'tiled', '0', '1', projectDir, 'zsh'],
+      ]
+        .map((fields) => fields.join('\t'))
+        .join('\n'),
+    );
+
+    const capture = env.execCommand('session capture test-app --no-sync');
+    expect(capture.exitCode).toBe(0);
+    expect(capture.stdout).toContain('Captured tmux session "test-app"');
+    expect(capture.stdout).toContain('2 windows, 2 panes');
+
+    const sessionsFile = fs.readFileSync(path.join(env.syncDir, 'sessions.age'), 'utf-8');
+    expect(sessionsFile).toContain('-----BEGIN AGE ENCRYPTED FILE-----');
+    expect(sessionsFile).not.toContain('nvim');
+
+    const restore = env.execCommand('restore test-app --no-interactive');
+    expect(restore.exitCode).toBe(0);
+    expect(restore.stdout).toContain('tmux new-session -d -s');
+    expect(restore.stdout).toContain('nvim');
+    expect(restore.stdout).toContain('Skipped');
+
+    // Nothing is run without approval
+    expect(fs.readFileSync(log, 'utf-8')).not.toContain('new-session');
+  });
+
+  it('should fail when no tmux session matches', () => {
+    installFakeTmux(env.homeDir, '');
+
+    const result = env.execCommand('session capture test-app --no-sync');
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr + result.stdout).toContain('--session');
+  });
+});
@@ -4,6 +4,9 @@
  * Uses the TestEnvironment to run the full CLI and verify output.
  */
 
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execSync } from 'node:child_process';
 import { TestEnvironment } from './helpers/test-env.js';
 
 declare global {
@@ -47,6 +50,17 @@ describe('E2E: team list', () => {
     expect(result.stdout).toContain('Fingerprint:');
     expect(result.stdout).toContain('Team members (1)');
   });
+
+  it('should show who approved each roster change', async () => {
+    const bobKeys = await generateKey();
+    env.execCommand(`team add --name Bob --key ${bobKeys.publicKey} --no-verify`);
+
+    const result = env.execCommand('team list');
+
+    expect(result.stdout).toContain('Roster (verified):');
+    expect(result.stdout).toMatch(/#1 {2}\d{4}-\d{2}-\d{2} {2}add Bob — approved by /);
+    expect(fs.existsSync(path.join(env.syncDir, 'roster.jsonl'))).toBe(true);
+  });
 });
 
 // ─── Team Add ─────────────────────────────────────────────────────────────
@@ -86,6 +100,26 @@ describe('E2E: team add', () => {
     expect(result.exitCode).not.toBe(0);
     expect(result.stderr).toContain('already exists');
   });
+
+  it('should share a single project with --project', async () => {
+    const projectDir = path.join(env.homeDir, 'projects', 'api');
+    fs.mkdirSync(projectDir, { recursive: true });
+    execSync('git init', { cwd: projectDir });
+    env.execCommand(`track --path ${projectDir} --no-interactive`);
+    const carolKeys = await generateKey();
+
+    const result = env.execCommand(
+      `team add --name Carol --key ${carolKeys.publicKey} --project api --no-verify`,
+    );
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('Projects: api');
+    expect(fs.existsSync(path.join(env.syncDir, 'projects', 'api', 'env-vars.age'))).toBe(true);
+
+    const list = env.execCommand('team list');
+    expect(list.stdout).toContain('Member  all  api');
+    expect(list.stdout).toContain('Carol   ·    ✓');
+  });
 });
 
 // ─── Team Remove ──────────────────────────────────────────────────────────
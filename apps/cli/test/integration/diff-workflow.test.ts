@@ -0,0 +1,120 @@
+/**
+ * Integration tests for the diff workflow.
+ *
+ * Real filesystem, real encryption and real Git (no mocks): the
+ * working tree, the index and the remote branch are compared with
+ * decrypted, structural diffs that never contain env values.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execSync } from 'node:child_process';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const { executeInit } = await import('../../src/commands/init.js');
+const { executeDiff, executeSetupTextconv } = await import('../../src/commands/diff.js');
+const { loadKey } = await import('../../src/core/key-store.js');
+const { commitState } = await import('../../src/core/git-sync.js');
+const { importEnvVars } = await import('../../src/core/env-handler.js');
+const { deriveHashKey, hashEnvValue } = await import('../../src/core/state-diff.js');
+const { identityToRecipient } = await import('age-encryption');
+
+describe('Integration: Diff', () => {
+  let testHome: string;
+  let syncDir: string;
+  let privateKey: string;
+  let publicKey: string;
+  let originalEnv: string | undefined;
+
+  async function setEnv(vars: Array<{ key: string; value: string }>): Promise<void> {
+    await importEnvVars('my-app', vars, syncDir, publicKey, privateKey);
+  }
+
+  beforeEach(async () => {
+    testHome = path.join(globalThis.TEST_DIR, `diff-integ-${Date.now()}`);
+    fs.mkdirSync(testHome, { recursive: true });
+
+    originalEnv = process.env['CTX_SYNC_HOME'];
+    process.env['CTX_SYNC_HOME'] = testHome;
+
+    await executeInit({ noInteractive: true });
+
+    syncDir = path.join(testHome, '.context-sync');
+    privateKey = loadKey(path.join(testHome, '.config', 'ctx-sync'));
+    publicKey = await identityToRecipient(privateKey);
+    execSync('git config user.email "test@ctx-sync.dev"', { cwd: syncDir });
+    execSync('git config user.name "Test User"', { cwd: syncDir });
+
+    await setEnv([{ key: 'STRIPE_KEY', value: 'sk_live_first' }]);
+    await commitState(syncDir, ['env-vars.age', 'manifest.json'], 'env: add stripe');
+  });
+
+  afterEach(() => {
+    if (originalEnv === undefined) {
+      delete process.env['CTX_SYNC_HOME'];
+    } else {
+      process.env['CTX_SYNC_HOME'] = originalEnv;
+    }
+  });
+
+  it('should diff the working tree against the last commit with hashed values', async () => {
+    await setEnv([{ key: 'STRIPE_KEY', value: 'sk_live_second' }, { key: 'DEBUG', value: 'on' }]);
+
+    const result = await executeDiff();
+    const hashKey = await deriveHashKey(privateKey);
+
+    expect(result.files).toHaveLength(1);
+    expect(result.files[0]?.file).toBe('env-vars.age');
+    expect(result.files[0]?.lines).toEqual(
+      expect.arrayContaining([
+        {
+          op: '~',
+          path: 'my-app.STRIPE_KEY.value',
+          before: JSON.stringify(hashEnvValue('sk_live_first', hashKey)),
+          after: JSON.stringify(hashEnvValue('sk_live_second', hashKey)),
+        },
+        { op: '+', path: 'my-app.DEBUG.value', after: JSON.stringify(hashEnvValue('on', hashKey)) },
+      ]),
+    );
+    expect(JSON.stringify(result)).not.toMatch(/sk_live|"on"/);
+  });
+
+  it('should only show staged changes with --staged', async () => {
+    await setEnv([{ key: 'STAGED', value: '1' }]);
+    execSync('git add env-vars.age', { cwd: syncDir });
+    await setEnv([{ key: 'UNSTAGED', value: '2' }]);
+
+    const staged = await executeDiff({ staged: true });
+    const paths = staged.files.flatMap((f) => f.lines.map((l) => l.path));
+
+    expect(paths).toContain('my-app.STAGED.value');
+    expect(paths).not.toContain('my-app.UNSTAGED.value');
+  });
+
+  it('should report no changes for a clean tree, and filter by file', async () => {
+    expect((await executeDiff()).files).toEqual([]);
+
+    await setEnv([{ key: 'NEW', value: '1' }]);
+
+    expect((await executeDiff({ file: 'mental-context' })).files).toEqual([]);
+  });
+
+  it('should require a remote branch for --remote and reject --staged with it', async () => {
+    await expect(executeDiff({ remote: true })).rejects.toThrow('No remote branch to compare with');
+    await expect(executeDiff({ remote: true, staged: true })).rejects.toThrow('not both');
+  });
+
+  it('should register the textconv driver once', async () => {
+    await executeSetupTextconv();
+    await executeSetupTextconv();
+
+    const attributes = fs.readFileSync(path.join(syncDir, '.git', 'info', 'attributes'), 'utf-8');
+    expect(attributes.match(/\*\.age diff=ctx-sync/g)).toHaveLength(1);
+    expect(execSync('git config diff.ctx-sync.textconv', { cwd: syncDir, encoding: 'utf-8' }).trim()).toBe(
+      'ctx-sync diff --textconv',
+    );
+  });
+});
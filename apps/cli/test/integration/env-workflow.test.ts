@@ -23,6 +23,16 @@ const {
   listEnvVars,
   parseEnvFile,
 } = await import('../../src/core/env-handler.js');
+const {
+  executeEnvAdd,
+  executeEnvExport,
+  executeEnvImport,
+  executeEnvGroupImport,
+  executeEnvGroupAdd,
+  executeEnvGroupList,
+  executeEnvLink,
+} = await import('../../src/commands/env.js');
+const { simpleGit } = await import('simple-git');
 
 describe('Integration: Env Variable Workflow', () => {
   let testHome: string;
@@ -240,4 +250,110 @@ describe('Integration: Env Variable Workflow', () => {
     expect(fs.existsSync(envFilePath)).toBe(true);
     expect(fs.readFileSync(envFilePath, 'utf-8')).toBe(originalContent);
   });
+
+  it('should export the decrypted vars in the requested format', async () => {
+    await importEnvVars(
+      'my-app',
+      [
+        { key: 'STRIPE_KEY', value: 'sk_live_abc123' },
+        { key: 'NODE_ENV', value: 'development' },
+        { key: 'DEBUG', value: 'true' },
+      ],
+      syncDir,
+      publicKey,
+      privateKey,
+    );
+
+    const sh = await executeEnvExport({ project: 'my-app', format: 'sh', except: ['DEBUG'] });
+    const json = await executeEnvExport({ project: 'my-app', format: 'json', only: ['NODE_ENV'] });
+
+    expect(sh).toBe("export STRIPE_KEY='sk_live_abc123'\nexport NODE_ENV='development'\n");
+    expect(JSON.parse(json)).toEqual({ NODE_ENV: 'development' });
+    await expect(executeEnvExport({ project: 'my-app', format: 'xml' })).rejects.toThrow(
+      'Unknown format: xml',
+    );
+  });
+
+  it('should keep env profiles apart and inherit the base vars', async () => {
+    const git = simpleGit(syncDir);
+    await git.addConfig('user.email', 'test@example.com');
+    await git.addConfig('user.name', 'Test');
+    const baseFile = path.join(testHome, '.env');
+    const stagingFile = path.join(testHome, '.env.staging');
+    fs.writeFileSync(baseFile, 'API_URL=http://localhost:3000\nLOG_LEVEL=debug\n');
+    fs.writeFileSync(stagingFile, 'API_URL=https://staging.example.com\n');
+
+    await executeEnvImport({ project: 'my-app', file: baseFile });
+    await executeEnvImport({ project: 'my-app', file: stagingFile, profile: 'staging' });
+
+    expect(await executeEnvExport({ project: 'my-app', format: 'dotenv' })).toBe(
+      'API_URL=http://localhost:3000\nLOG_LEVEL=debug\n',
+    );
+    expect(await executeEnvExport({ project: 'my-app', format: 'dotenv', profile: 'staging' })).toBe(
+      'API_URL=https://staging.example.com\nLOG_LEVEL=debug\n',
+    );
+    const log = await git.log();
+    expect(log.latest?.message).toBe('feat: import 1 env vars for my-app (staging)');
+  });
+
+  it('should share a group across projects and pick up a rotated token', async () => {
+    const git = simpleGit(syncDir);
+    await git.addConfig('user.email', 'test@example.com');
+    await git.addConfig('user.name', 'Test');
+    const groupFile = path.join(testHome, 'aws.env');
+    fs.writeFileSync(groupFile, 'AWS_REGION=eu-west-1\nAWS_TOKEN=old-token\n');
+
+    await executeEnvGroupImport({ group: 'aws', file: groupFile });
+    await addEnvVar('api', 'AWS_REGION', 'us-east-1', syncDir, publicKey, privateKey);
+    await executeEnvLink({ project: 'api', group: 'aws' });
+    await executeEnvLink({ project: 'web', group: 'aws' });
+    await executeEnvGroupAdd({ group: 'aws', key: 'AWS_TOKEN', value: 'new-token' });
+
+    expect(await executeEnvExport({ project: 'api', format: 'dotenv' })).toBe(
+      'AWS_REGION=us-east-1\nAWS_TOKEN=new-token\n',
+    );
+    expect(await executeEnvExport({ project: 'web', format: 'dotenv' })).toBe(
+      'AWS_REGION=eu-west-1\nAWS_TOKEN=new-token\n',
+    );
+    expect(await executeEnvGroupList()).toEqual([
+      { group: 'aws', keys: ['AWS_REGION', 'AWS_TOKEN'] },
+    ]);
+    const log = await git.log();
+    expect(log.all.slice(0, 4).map((c) => c.message)).toEqual([
+      'feat: add env var AWS_TOKEN to group aws',
+      'feat: web uses env group aws',
+      'feat: api uses env group aws',
+      'feat: import 2 env vars into group aws',
+    ]);
+  });
+
+  it('should sync a secret reference and read the secret from the provider on export', async () => {
+    const binDir = path.join(testHome, 'bin');
+    fs.mkdirSync(binDir);
+    fs.writeFileSync(path.join(binDir, 'op'), '#!/bin/sh\nprintf "s3cr3t-from-vault"\n', {
+      mode: 0o755,
+    });
+    const originalPath = process.env['PATH'];
+    process.env['PATH'] = `${binDir}${path.delimiter}${originalPath ?? ''}`;
+
+    try {
+      await executeEnvAdd({
+        project: 'my-app',
+        key: 'DB_PASSWORD',
+        ref: 'op://dev/db/password',
+        noSync: true,
+      });
+
+      expect(await executeEnvExport({ project: 'my-app', format: 'dotenv' })).toBe(
+        'DB_PASSWORD=s3cr3t-from-vault\n',
+      );
+      const stored = await listEnvVars('my-app', syncDir, privateKey, true);
+      expect(stored).toMatchObject([{ key: 'DB_PASSWORD', value: 'op://dev/db/password' }]);
+      await expect(
+        executeEnvAdd({ project: 'my-app', key: 'TOKEN', ref: 'https://example.com', noSync: true }),
+      ).rejects.toThrow('not a known secret reference');
+    } finally {
+      process.env['PATH'] = originalPath;
+    }
+  });
 });
@@ -1,7 +1,18 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { execSync } from 'node:child_process';
-import { initRepo, addRemote, commitState, pushState, pullState, getStatus } from '../../src/core/git-sync.js';
+import {
+  initRepo,
+  addRemote,
+  commitState,
+  pushState,
+  pullState,
+  getStatus,
+  listFileCommits,
+  readFileAtCommit,
+  findLastDecryptableCommit,
+} from '../../src/core/git-sync.js';
+import { encryptState, encryptStateForRecipients, generateKey } from '../../src/core/encryption.js';
 
 // Ensure globalThis.TEST_DIR is typed — needed because transitive import
 // of simple-git (ESM package) changes ts-jest's compilation context.
@@ -215,6 +226,49 @@ describe('Git Operations Integration', () => {
     });
   });
 
+  describe('file history — real Git', () => {
+    beforeEach(async () => {
+      await initRepo(repoDir);
+      execSync('git config user.email "test@ctx-sync.dev"', { cwd: repoDir });
+      execSync('git config user.name "Test User"', { cwd: repoDir });
+    });
+
+    it('should list the commits that changed a file, newest first', async () => {
+      fs.writeFileSync(path.join(repoDir, 'state.age'), 'v1');
+      await commitState(repoDir, ['state.age'], 'First');
+      fs.writeFileSync(path.join(repoDir, 'other.age'), 'x');
+      await commitState(repoDir, ['other.age'], 'Unrelated');
+      fs.writeFileSync(path.join(repoDir, 'state.age'), 'v2');
+      await commitState(repoDir, ['state.age'], 'Second');
+
+      const commits = await listFileCommits(repoDir, 'state.age');
+
+      expect(commits.map((c) => c.message)).toEqual(['Second', 'First']);
+      expect(await readFileAtCommit(repoDir, commits[1]?.hash ?? '', 'state.age')).toBe('v1');
+      expect(await readFileAtCommit(repoDir, commits[1]?.hash ?? '', 'missing.age')).toBeNull();
+    });
+
+    it('should find the last version a key can decrypt', async () => {
+      const me = await generateKey();
+      const teammate = await generateKey();
+      fs.writeFileSync(path.join(repoDir, 'env-vars.age'), await encryptState({ v: 1 }, me.publicKey));
+      await commitState(repoDir, ['env-vars.age'], 'Mine');
+      fs.writeFileSync(
+        path.join(repoDir, 'env-vars.age'),
+        await encryptStateForRecipients({ v: 2 }, [me.publicKey, teammate.publicKey]),
+      );
+      await commitState(repoDir, ['env-vars.age'], 'Shared');
+      fs.writeFileSync(path.join(repoDir, 'env-vars.age'), await encryptState({ v: 3 }, teammate.publicKey));
+      await commitState(repoDir, ['env-vars.age'], 'Removed me');
+
+      expect((await findLastDecryptableCommit(repoDir, 'env-vars.age', me.privateKey))?.message).toBe('Shared');
+      expect((await findLastDecryptableCommit(repoDir, 'env-vars.age', teammate.privateKey))?.message).toBe(
+        'Removed me',
+      );
+      expect(await findLastDecryptableCommit(repoDir, 'env-vars.age', (await generateKey()).privateKey)).toBeNull();
+    });
+  });
+
   describe('addRemote() — real Git', () => {
     beforeEach(async () => {
       await initRepo(repoDir);
@@ -0,0 +1,120 @@
+/**
+ * Integration tests for the history and rollback workflow.
+ *
+ * Real filesystem, real encryption and real Git (no mocks): state is
+ * changed over several commits, `history` summarises them without
+ * revealing env values, and `rollback` restores a past version as a
+ * new commit.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execSync } from 'node:child_process';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const { executeInit } = await import('../../src/commands/init.js');
+const { executeHistory } = await import('../../src/commands/history.js');
+const { executeRollback } = await import('../../src/commands/rollback.js');
+const { loadKey } = await import('../../src/core/key-store.js');
+const { commitState } = await import('../../src/core/git-sync.js');
+const { importEnvVars, listEnvVars } = await import('../../src/core/env-handler.js');
+const { identityToRecipient } = await import('age-encryption');
+
+describe('Integration: History and Rollback', () => {
+  let testHome: string;
+  let syncDir: string;
+  let privateKey: string;
+  let publicKey: string;
+  let originalEnv: string | undefined;
+
+  /** Import env vars and commit them, returning the commit hash */
+  async function commitEnv(vars: Array<{ key: string; value: string }>, message: string): Promise<string> {
+    await importEnvVars('my-app', vars, syncDir, publicKey, privateKey);
+    return (await commitState(syncDir, ['env-vars.age', 'manifest.json'], message)) ?? '';
+  }
+
+  beforeEach(async () => {
+    testHome = path.join(globalThis.TEST_DIR, `history-integ-${Date.now()}`);
+    fs.mkdirSync(testHome, { recursive: true });
+
+    originalEnv = process.env['CTX_SYNC_HOME'];
+    process.env['CTX_SYNC_HOME'] = testHome;
+
+    await executeInit({ noInteractive: true });
+
+    syncDir = path.join(testHome, '.context-sync');
+    privateKey = loadKey(path.join(testHome, '.config', 'ctx-sync'));
+    publicKey = await identityToRecipient(privateKey);
+    execSync('git config user.email "test@ctx-sync.dev"', { cwd: syncDir });
+    execSync('git config user.name "Test User"', { cwd: syncDir });
+  });
+
+  afterEach(() => {
+    if (originalEnv === undefined) {
+      delete process.env['CTX_SYNC_HOME'];
+    } else {
+      process.env['CTX_SYNC_HOME'] = originalEnv;
+    }
+  });
+
+  it('should summarise each commit without showing env values', async () => {
+    await commitEnv([{ key: 'STRIPE_KEY', value: 'sk_live_first' }], 'env: add stripe');
+    await commitEnv([{ key: 'STRIPE_KEY', value: 'sk_live_second' }, { key: 'DEBUG', value: 'yes' }], 'env: update');
+
+    const entries = await executeHistory({ file: 'env-vars' });
+
+    expect(entries.map((e) => e.message)).toEqual(['env: update', 'env: add stripe']);
+    expect(entries[0]?.changes).toEqual([
+      { file: 'env-vars.age', summary: ['my-app: added DEBUG; changed STRIPE_KEY'], unreadable: false },
+    ]);
+    expect(entries[1]?.changes[0]?.summary).toEqual(['my-app: env vars added']);
+    expect(JSON.stringify(entries)).not.toMatch(/sk_live|yes/);
+  });
+
+  it('should honour the limit', async () => {
+    await commitEnv([{ key: 'A', value: '1' }], 'one');
+    await commitEnv([{ key: 'B', value: '2' }], 'two');
+
+    const entries = await executeHistory({ limit: 1 });
+
+    expect(entries.map((e) => e.message)).toEqual(['two']);
+  });
+
+  it('should roll a file back as a new commit', async () => {
+    const first = await commitEnv([{ key: 'STRIPE_KEY', value: 'sk_live_first' }], 'env: add stripe');
+    await commitEnv([{ key: 'STRIPE_KEY', value: 'sk_live_second' }], 'env: rotate stripe');
+
+    const result = await executeRollback(first.slice(0, 7), { file: 'env-vars' });
+
+    expect(result.restored).toEqual(['env-vars.age']);
+    expect(result.newCommit).toBeTruthy();
+    const [stripe] = await listEnvVars('my-app', syncDir, privateKey, true);
+    expect(stripe?.value).toBe('sk_live_first');
+    const log = execSync('git log -3 --format=%s', { cwd: syncDir, encoding: 'utf-8' });
+    expect(log.trim().split('\n')).toEqual([
+      `rollback: env-vars to ${first.slice(0, 7)}`,
+      'env: rotate stripe',
+      'env: add stripe',
+    ]);
+  });
+
+  it('should do nothing when the state already matches', async () => {
+    const first = await commitEnv([{ key: 'A', value: '1' }], 'one');
+
+    const result = await executeRollback(first);
+
+    expect(result.restored).toEqual([]);
+    expect(result.newCommit).toBeNull();
+  });
+
+  it('should reject an unknown commit or file', async () => {
+    await commitEnv([{ key: 'A', value: '1' }], 'one');
+
+    await expect(executeRollback('deadbeef')).rejects.toThrow('Unknown commit: deadbeef');
+    await expect(executeRollback('HEAD', { file: 'secrets' })).rejects.toThrow('Unknown state file');
+    await expect(executeRollback('HEAD', { file: 'services' })).rejects.toThrow('has no services to restore');
+  });
+});
@@ -20,6 +20,10 @@ const { executeInit, executeRestore } = await import(
   '../../src/commands/init.js'
 );
 const { generateKey } = await import('../../src/core/encryption.js');
+const { executeKeyBackup } = await import('../../src/commands/key.js');
+const { splitShareText } = await import('../../src/core/key-backup.js');
+const { initRecipients, getRecipients } = await import('../../src/core/recipients.js');
+const { ensureRoster, verifyRoster } = await import('../../src/core/roster.js');
 const { KEY_FILE_PERMS, CONFIG_DIR_PERMS } = await import(
   '../../src/core/key-store.js'
 );
@@ -186,5 +190,67 @@ describe('Integration: Init Workflow', () => {
       // Cleanup machine B
       fs.rmSync(testHomeB, { recursive: true, force: true });
     });
+
+    it('should pin the team roster of the cloned repo', async () => {
+      const { execSync } = await import('node:child_process');
+
+      // Alice's sync repo, with a roster she started
+      const alice = await generateKey();
+      const aliceConfig = path.join(testHome, 'alice-config');
+      const aliceRepo = path.join(testHome, 'alice-repo');
+      const bareRepo = path.join(testHome, 'remote.git');
+      fs.mkdirSync(aliceConfig, { recursive: true });
+      fs.mkdirSync(aliceRepo, { recursive: true });
+      initRecipients(aliceConfig, alice.publicKey);
+      execSync(`git init -q -b main && git init -q --bare -b main "${bareRepo}"`, { cwd: aliceRepo });
+      await ensureRoster(aliceRepo, aliceConfig, alice.privateKey);
+      execSync(
+        'git add roster.jsonl && git -c user.email=a@ctx-sync.dev -c user.name=Alice commit -qm roster && ' +
+          `git push -q "${bareRepo}" main`,
+        { cwd: aliceRepo },
+      );
+
+      const { privateKey } = await generateKey();
+      await executeRestore({ noInteractive: true, key: privateKey, remote: bareRepo });
+
+      const syncDir = path.join(testHome, '.context-sync');
+      expect(getRecipients(path.join(testHome, '.config', 'ctx-sync'))?.rosterGenesis).toBe(
+        verifyRoster(syncDir)?.genesis,
+      );
+    });
+
+    it('should rebuild the key from backup shares on a new machine', async () => {
+      // Init and back up on "machine A"
+      await executeInit({ noInteractive: true });
+      const privateKey = fs.readFileSync(path.join(testHome, '.config', 'ctx-sync', 'key.txt'), 'utf-8').trim();
+      const { files } = await executeKeyBackup({
+        shares: 5,
+        threshold: 3,
+        qr: true,
+        outputDir: path.join(testHome, 'shares'),
+      });
+
+      // Restore on "machine B" from three of the share files
+      const testHomeB = path.join(globalThis.TEST_DIR, `init-integ-shares-${Date.now()}`);
+      fs.mkdirSync(testHomeB, { recursive: true });
+      process.env['CTX_SYNC_HOME'] = testHomeB;
+      const text = [files[1], files[3], files[4]].map((file) => fs.readFileSync(file ?? '', 'utf-8')).join('\n');
+
+      await executeRestore({ noInteractive: true, shares: splitShareText(text) });
+
+      const keyPathB = path.join(testHomeB, '.config', 'ctx-sync', 'key.txt');
+      expect(fs.readFileSync(keyPathB, 'utf-8').trim()).toBe(privateKey);
+      expect(fs.statSync(keyPathB).mode & 0o777).toBe(KEY_FILE_PERMS);
+
+      // Too few shares are refused before anything is saved
+      const testHomeC = path.join(globalThis.TEST_DIR, `init-integ-shares-c-${Date.now()}`);
+      process.env['CTX_SYNC_HOME'] = testHomeC;
+      await expect(
+        executeRestore({ noInteractive: true, shares: splitShareText(text).slice(0, 2) }),
+      ).rejects.toThrow('Need at least 3');
+      expect(fs.existsSync(path.join(testHomeC, '.config', 'ctx-sync', 'key.txt'))).toBe(false);
+
+      fs.rmSync(testHomeB, { recursive: true, force: true });
+    });
   });
 });
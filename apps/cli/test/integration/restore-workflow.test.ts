@@ -10,7 +10,7 @@ import * as path from 'node:path';
 import { generateKey } from '../../src/core/encryption.js';
 import { saveKey } from '../../src/core/key-store.js';
 import { writeState, readState } from '../../src/core/state-manager.js';
-import type { StateFile, EnvVars, MentalContext, ServiceState } from '@ctx-sync/shared';
+import type { LegacyStateFile, EnvVars, MentalContext, ServiceState } from '@ctx-sync/shared';
 
 declare global {
   var TEST_DIR: string;
@@ -53,7 +53,7 @@ describe('Integration: Restore Workflow', () => {
     const projectPath = path.join(homeDir, 'projects', 'my-app');
     fs.mkdirSync(projectPath, { recursive: true });
 
-    const state: StateFile = {
+    const state: LegacyStateFile = {
       machine: { id: 'test-machine', hostname: 'test-host' },
       projects: [
         {
@@ -76,7 +76,7 @@ describe('Integration: Restore Workflow', () => {
     expect(rawOnDisk).not.toContain('feature/payments');
 
     // Read it back (simulating restore decryption)
-    const decrypted = await readState<StateFile>(syncDir, privateKey, 'state');
+    const decrypted = await readState<LegacyStateFile>(syncDir, privateKey, 'state');
     expect(decrypted).not.toBeNull();
     expect(decrypted!.projects[0]!.name).toBe('my-app');
     expect(decrypted!.projects[0]!.git.branch).toBe('feature/payments');
@@ -205,7 +205,7 @@ describe('Integration: Restore Workflow', () => {
     const wrongKeys = await generateKey();
 
     await expect(
-      readState<StateFile>(syncDir, wrongKeys.privateKey, 'state'),
+      readState<LegacyStateFile>(syncDir, wrongKeys.privateKey, 'state'),
     ).rejects.toThrow();
   });
 
@@ -218,7 +218,7 @@ describe('Integration: Restore Workflow', () => {
     fs.mkdirSync(machineBPath, { recursive: true });
 
     // Write state with Machine A's path (which doesn't exist on Machine B)
-    const state: StateFile = {
+    const state: LegacyStateFile = {
       machine: { id: 'machine-a', hostname: 'machine-a-host' },
       projects: [
         {
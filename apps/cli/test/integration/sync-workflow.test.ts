@@ -11,8 +11,28 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { execSync } from 'node:child_process';
 import { initRepo, addRemote, commitState, pushState, pullState, getStatus } from '../../src/core/git-sync.js';
-import { writeManifest, readManifest } from '../../src/core/state-manager.js';
-import { collectSyncFiles, validateSyncRemote } from '../../src/commands/sync.js';
+import {
+  writeManifest,
+  readManifest,
+  writeState,
+  readState,
+  writeStateFile,
+} from '../../src/core/state-manager.js';
+import {
+  collectSyncFiles,
+  validateSyncRemote,
+  pullWithConflictDetection,
+  mergeConflicts,
+} from '../../src/commands/sync.js';
+import { executePull } from '../../src/commands/pull.js';
+import { generateKey, decryptState } from '../../src/core/encryption.js';
+import { saveKey } from '../../src/core/key-store.js';
+import { initRecipients, addRecipient, getRecipients } from '../../src/core/recipients.js';
+import { ensureRoster, appendRosterEntry, verifyRoster } from '../../src/core/roster.js';
+import { recordKeyRotation } from '../../src/core/key-rotation.js';
+import { refuseConflict } from '../../src/core/sync-daemon.js';
+import { SyncConflictError } from '../../src/utils/errors.js';
+import type { EnvVars, MentalContext } from '@ctx-sync/shared';
 
 declare global {
   var TEST_DIR: string;
@@ -192,6 +212,307 @@ describe('Sync Workflow Integration', () => {
     });
   });
 
+  describe('semantic merge of conflicting .age files', () => {
+    let publicKey: string;
+    let privateKey: string;
+    let originalHome: string | undefined;
+
+    beforeEach(async () => {
+      ({ publicKey, privateKey } = await generateKey());
+      originalHome = process.env['CTX_SYNC_HOME'];
+      process.env['CTX_SYNC_HOME'] = path.join(globalThis.TEST_DIR, 'merge-home');
+      saveKey(path.join(globalThis.TEST_DIR, 'merge-home', '.config', 'ctx-sync'), privateKey);
+    });
+
+    afterEach(() => {
+      if (originalHome === undefined) {
+        delete process.env['CTX_SYNC_HOME'];
+      } else {
+        process.env['CTX_SYNC_HOME'] = originalHome;
+      }
+    });
+
+    function withBreadcrumb(note: string, timestamp: string): MentalContext {
+      return {
+        'my-app': {
+          currentTask: 'Payments',
+          blockers: [],
+          nextSteps: [],
+          relatedLinks: [],
+          breadcrumbs: [
+            { note: 'start', timestamp: '2025-01-01T00:00:00.000Z' },
+            { note, timestamp },
+          ],
+        },
+      };
+    }
+
+    it('should keep breadcrumbs from both machines without writing plaintext', async () => {
+      // Shared starting point on both machines
+      await writeState(
+        machineADir,
+        {
+          'my-app': {
+            currentTask: 'Payments',
+            blockers: [],
+            nextSteps: [],
+            relatedLinks: [],
+            breadcrumbs: [{ note: 'start', timestamp: '2025-01-01T00:00:00.000Z' }],
+          },
+        },
+        publicKey,
+        'mental-context',
+      );
+      await commitState(machineADir, ['mental-context.age', 'manifest.json'], 'base');
+      await pushState(machineADir);
+
+      execSync(`git clone -q "${bareRemoteDir}" "${machineBDir}"`);
+      execSync('git config user.email "b@ctx-sync.dev"', { cwd: machineBDir });
+      execSync('git config user.name "Machine B"', { cwd: machineBDir });
+
+      // Machine B adds a breadcrumb and pushes
+      await writeState(
+        machineBDir,
+        withBreadcrumb('desktop note', '2025-01-02T00:00:00.000Z'),
+        publicKey,
+        'mental-context',
+      );
+      await commitState(machineBDir, ['mental-context.age', 'manifest.json'], 'desktop');
+      await pushState(machineBDir);
+
+      // Machine A adds a different breadcrumb, then pulls
+      await writeState(
+        machineADir,
+        withBreadcrumb('laptop note', '2025-01-03T00:00:00.000Z'),
+        publicKey,
+        'mental-context',
+      );
+      await commitState(machineADir, ['mental-context.age', 'manifest.json'], 'laptop');
+
+      const pull = await pullWithConflictDetection(machineADir);
+      expect(pull.conflictFiles).toContain('mental-context.age');
+
+      const result = await mergeConflicts(machineADir, pull.conflictFiles);
+      expect(result.merged).toContain('mental-context.age');
+      expect(result.fallback).toEqual([]);
+      expect(result.conflicts).toEqual([]);
+
+      const raw = fs.readFileSync(path.join(machineADir, 'mental-context.age'), 'utf-8');
+      expect(raw).toContain('-----BEGIN AGE ENCRYPTED FILE-----');
+      expect(raw).not.toContain('laptop note');
+
+      const merged = await readState<MentalContext>(machineADir, privateKey, 'mental-context');
+      expect(merged!['my-app']!.breadcrumbs.map((b) => b.note)).toEqual([
+        'start',
+        'desktop note',
+        'laptop note',
+      ]);
+
+      const status = execSync('git status --porcelain', { cwd: machineADir, encoding: 'utf-8' });
+      expect(status).not.toMatch(/^(UU|AA) /m);
+    });
+
+    /**
+     * Clone the remote as the machine `pull` runs on: the sync dir
+     * under CTX_SYNC_HOME.
+     */
+    function cloneLocal(): string {
+      const localDir = path.join(globalThis.TEST_DIR, 'merge-home', '.context-sync');
+      execSync(`git clone -q "${bareRemoteDir}" "${localDir}"`);
+      execSync('git config user.email "l@ctx-sync.dev"', { cwd: localDir });
+      execSync('git config user.name "Local"', { cwd: localDir });
+      return localDir;
+    }
+
+    it('should merge a conflict during pull instead of keeping one side', async () => {
+      const base = withBreadcrumb('start', '2025-01-01T00:00:00.000Z');
+      base['my-app']!.breadcrumbs.pop();
+      await writeState(machineADir, base, publicKey, 'mental-context');
+      await commitState(machineADir, ['mental-context.age', 'manifest.json'], 'base');
+      await pushState(machineADir);
+
+      const localDir = cloneLocal();
+
+      await writeState(machineADir, withBreadcrumb('desktop note', '2025-01-02T00:00:00.000Z'), publicKey, 'mental-context');
+      await commitState(machineADir, ['mental-context.age', 'manifest.json'], 'desktop');
+      await pushState(machineADir);
+
+      await writeState(localDir, withBreadcrumb('laptop note', '2025-01-03T00:00:00.000Z'), publicKey, 'mental-context');
+      await commitState(localDir, ['mental-context.age', 'manifest.json'], 'laptop');
+
+      const result = await executePull({ noInteractive: true });
+
+      expect(result.conflictFiles).toContain('mental-context.age');
+      expect(result.mergedFiles).toContain('mental-context.age');
+      const merged = await readState<MentalContext>(localDir, privateKey, 'mental-context');
+      expect(merged!['my-app']!.breadcrumbs.map((b) => b.note)).toEqual([
+        'start',
+        'desktop note',
+        'laptop note',
+      ]);
+    });
+
+    it('should merge a roster conflict during pull and apply both sides\' changes', async () => {
+      const configDir = path.join(globalThis.TEST_DIR, 'merge-home', '.config', 'ctx-sync');
+      const machineAConfig = path.join(globalThis.TEST_DIR, 'machine-a-config');
+      fs.mkdirSync(machineAConfig, { recursive: true });
+      initRecipients(configDir, publicKey);
+      initRecipients(machineAConfig, publicKey);
+      const member = async (name: string) => ({
+        name,
+        publicKey: (await generateKey()).publicKey,
+        addedAt: '2025-01-01T00:00:00.000Z',
+        fingerprint: 'FP',
+      });
+
+      await ensureRoster(machineADir, machineAConfig, privateKey);
+      await commitState(machineADir, ['roster.jsonl'], 'roster');
+      await pushState(machineADir);
+      const localDir = cloneLocal();
+
+      await appendRosterEntry(machineADir, privateKey, 'add', await member('Bob'));
+      await commitState(machineADir, ['roster.jsonl'], 'add Bob');
+      await pushState(machineADir);
+
+      await appendRosterEntry(localDir, privateKey, 'add', await member('Carol'));
+      await commitState(localDir, ['roster.jsonl'], 'add Carol');
+
+      const result = await executePull({ noInteractive: true });
+
+      expect(result.mergedFiles).toEqual(['roster.jsonl']);
+      expect(result.rosterError).toBeNull();
+      expect(verifyRoster(localDir)?.members.map((m) => m.name).slice(1)).toEqual(['Bob', 'Carol']);
+      expect(getRecipients(configDir)?.members.map((m) => m.name)).toEqual(['Bob', 'Carol']);
+    });
+
+    it('should keep another machine\'s key rotation record when pull merges the log', async () => {
+      const laptopKey = await generateKey();
+      await recordKeyRotation(machineADir, laptopKey.privateKey, (await generateKey()).publicKey);
+      await commitState(machineADir, ['key-rotations.jsonl'], 'base');
+      await pushState(machineADir);
+      const localDir = cloneLocal();
+
+      // This machine's key is rotated on machine A...
+      const { publicKey: newPublicKey } = await generateKey();
+      await recordKeyRotation(machineADir, privateKey, newPublicKey);
+      await commitState(machineADir, ['key-rotations.jsonl'], 'rotate');
+      await pushState(machineADir);
+
+      // ...while another rotation is recorded here
+      await recordKeyRotation(localDir, laptopKey.privateKey, (await generateKey()).publicKey);
+      await commitState(localDir, ['key-rotations.jsonl'], 'rotate laptop again');
+
+      const result = await executePull({ noInteractive: true });
+
+      expect(result.mergedFiles).toEqual(['key-rotations.jsonl']);
+      expect(result.keyRotation?.newPublicKey).toBe(newPublicKey);
+      const log = fs.readFileSync(path.join(localDir, 'key-rotations.jsonl'), 'utf-8');
+      expect(log.trim().split('\n')).toHaveLength(3);
+    });
+
+    it('should stop without resolving when the resolver refuses a conflict', async () => {
+      const withTask = (currentTask: string): MentalContext => ({
+        'my-app': { currentTask, blockers: [], nextSteps: [], relatedLinks: [], breadcrumbs: [] },
+      });
+
+      await writeState(machineADir, withTask('Payments'), publicKey, 'mental-context');
+      await commitState(machineADir, ['mental-context.age', 'manifest.json'], 'base');
+      await pushState(machineADir);
+
+      execSync(`git clone -q "${bareRemoteDir}" "${machineBDir}"`);
+      execSync('git config user.email "b@ctx-sync.dev"', { cwd: machineBDir });
+      execSync('git config user.name "Machine B"', { cwd: machineBDir });
+      await writeState(machineBDir, withTask('Desktop task'), publicKey, 'mental-context');
+      await commitState(machineBDir, ['mental-context.age', 'manifest.json'], 'desktop');
+      await pushState(machineBDir);
+
+      await writeState(machineADir, withTask('Laptop task'), publicKey, 'mental-context');
+      await commitState(machineADir, ['mental-context.age', 'manifest.json'], 'laptop');
+
+      const pull = await pullWithConflictDetection(machineADir);
+      await expect(mergeConflicts(machineADir, pull.conflictFiles, refuseConflict)).rejects.toThrow(
+        SyncConflictError,
+      );
+
+      // Nothing was resolved: the merge can still be aborted cleanly
+      execSync('git merge --abort', { cwd: machineADir });
+      const local = await readState<MentalContext>(machineADir, privateKey, 'mental-context');
+      expect(local!['my-app']!.currentTask).toBe('Laptop task');
+    });
+
+    it('should merge a project blob and encrypt it for that project\'s members only', async () => {
+      const configDir = path.join(globalThis.TEST_DIR, 'merge-home', '.config', 'ctx-sync');
+      const bob = await generateKey();
+      const carol = await generateKey();
+      initRecipients(configDir, publicKey);
+      addRecipient(configDir, 'bob', bob.publicKey, 'api');
+      addRecipient(configDir, 'carol', carol.publicKey, 'web');
+
+      const blob = 'projects/api/env-vars.age';
+      const recipients = [publicKey, bob.publicKey];
+      const withVars = (...keys: string[]): EnvVars => ({
+        api: Object.fromEntries(
+          keys.map((key) => [key, { value: key.toLowerCase(), addedAt: '2025-01-01T00:00:00.000Z' }]),
+        ),
+      });
+
+      await writeStateFile(machineADir, blob, withVars('BASE'), recipients, 'env-vars');
+      await commitState(machineADir, [blob, 'manifest.json'], 'base');
+      await pushState(machineADir);
+
+      execSync(`git clone -q "${bareRemoteDir}" "${machineBDir}"`);
+      execSync('git config user.email "b@ctx-sync.dev"', { cwd: machineBDir });
+      execSync('git config user.name "Machine B"', { cwd: machineBDir });
+      await writeStateFile(machineBDir, blob, withVars('BASE', 'DESKTOP'), recipients, 'env-vars');
+      await commitState(machineBDir, [blob, 'manifest.json'], 'desktop');
+      await pushState(machineBDir);
+
+      await writeStateFile(machineADir, blob, withVars('BASE', 'LAPTOP'), recipients, 'env-vars');
+      await commitState(machineADir, [blob, 'manifest.json'], 'laptop');
+
+      const pull = await pullWithConflictDetection(machineADir);
+      expect(pull.conflictFiles).toContain(blob);
+
+      const result = await mergeConflicts(machineADir, pull.conflictFiles);
+      expect(result.merged).toContain(blob);
+      expect(result.fallback).toEqual([]);
+
+      const raw = fs.readFileSync(path.join(machineADir, blob), 'utf-8');
+      const merged = await decryptState<EnvVars>(raw, bob.privateKey);
+      expect(Object.keys(merged['api'] ?? {}).sort()).toEqual(['BASE', 'DESKTOP', 'LAPTOP']);
+      await expect(decryptState(raw, carol.privateKey)).rejects.toThrow();
+    });
+
+    it('should keep a whole version when the remote uses a newer schema version', async () => {
+      await writeState(machineADir, withBreadcrumb('base', '2025-01-01T00:00:00.000Z'), publicKey, 'mental-context');
+      await commitState(machineADir, ['mental-context.age', 'manifest.json'], 'base');
+      await pushState(machineADir);
+
+      execSync(`git clone -q "${bareRemoteDir}" "${machineBDir}"`);
+      execSync('git config user.email "b@ctx-sync.dev"', { cwd: machineBDir });
+      execSync('git config user.name "Machine B"', { cwd: machineBDir });
+
+      // Machine B runs a newer CLI with a different mental-context layout
+      await writeState(machineBDir, withBreadcrumb('desktop note', '2025-01-02T00:00:00.000Z'), publicKey, 'mental-context');
+      const manifest = readManifest(machineBDir)!;
+      manifest.files['mental-context.age']!.schemaVersion = 2;
+      writeManifest(machineBDir, manifest);
+      await commitState(machineBDir, ['mental-context.age', 'manifest.json'], 'desktop');
+      await pushState(machineBDir);
+
+      await writeState(machineADir, withBreadcrumb('laptop note', '2025-01-03T00:00:00.000Z'), publicKey, 'mental-context');
+      await commitState(machineADir, ['mental-context.age', 'manifest.json'], 'laptop');
+
+      const pull = await pullWithConflictDetection(machineADir);
+      const result = await mergeConflicts(machineADir, pull.conflictFiles);
+
+      expect(result.merged).not.toContain('mental-context.age');
+      expect(result.fallback).toContain('mental-context.age');
+      // The kept local file is still version 1
+      expect(readManifest(machineADir)!.files['mental-context.age']!.schemaVersion).toBe(1);
+    });
+  });
+
   describe('offline mode (no remote)', () => {
     it('should commit locally when no remote is configured', async () => {
       const localOnlyDir = path.join(globalThis.TEST_DIR, 'local-only');
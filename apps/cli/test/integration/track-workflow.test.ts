@@ -8,7 +8,9 @@
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import * as os from 'node:os';
 import { execSync } from 'node:child_process';
+import type { StateFile } from '@ctx-sync/shared';
 
 declare global {
   var TEST_DIR: string;
@@ -114,21 +116,15 @@ describe('Integration: Track Workflow', () => {
       path.join(syncDir, 'state.age'),
       'utf-8',
     );
-    const state = await decryptState<{
-      machine: { id: string; hostname: string };
-      projects: Array<{
-        id: string;
-        name: string;
-        path: string;
-        git: { branch: string };
-        lastAccessed: string;
-      }>;
-    }>(ciphertext, privateKey);
-
-    expect(state.machine).toBeDefined();
-    expect(state.machine.hostname).toBeDefined();
-    expect(state.projects).toHaveLength(1);
-    const project = state.projects[0]!;
+    const state = await decryptState<StateFile>(ciphertext, privateKey);
+
+    const snapshots = Object.values(state.machines);
+    expect(snapshots).toHaveLength(1);
+    const snapshot = snapshots[0]!;
+    expect(snapshot.machine.hostname).toBe(os.hostname());
+    expect(snapshot.updatedAt).toBeDefined();
+    expect(snapshot.projects).toHaveLength(1);
+    const project = snapshot.projects[0]!;
     expect(project.name).toBe('test-project');
     expect(project.path).toBe(projectDir);
     expect(project.git.branch).toBe('main');
@@ -194,13 +190,12 @@ describe('Integration: Track Workflow', () => {
       path.join(syncDir, 'state.age'),
       'utf-8',
     );
-    const state = await decryptState<{
-      projects: Array<{ name: string; git: { branch: string } }>;
-    }>(ciphertext, privateKey);
+    const state = await decryptState<StateFile>(ciphertext, privateKey);
+    const projects = Object.values(state.machines).flatMap((m) => m.projects);
 
-    expect(state.projects).toHaveLength(2);
-    expect(state.projects.map((p) => p.name)).toContain('test-project');
-    expect(state.projects.map((p) => p.name)).toContain('project-two');
+    expect(projects).toHaveLength(2);
+    expect(projects.map((p) => p.name)).toContain('test-project');
+    expect(projects.map((p) => p.name)).toContain('project-two');
   });
 
   it('should handle tracking a directory without git', async () => {
@@ -27,7 +27,7 @@ import {
 import { readState, writeState, readManifest } from '../../src/core/state-manager.js';
 import { jest } from '@jest/globals';
 import type {
-  StateFile,
+  LegacyStateFile,
   EnvVars,
   DockerState,
   MentalContext,
@@ -60,7 +60,7 @@ function makeProject(index: number): Project {
 }
 
 /** Helper: generate a realistic state file with N projects */
-function makeStateFile(projectCount: number): StateFile {
+function makeStateFile(projectCount: number): LegacyStateFile {
   return {
     machine: { id: 'bench-machine', hostname: 'bench.local' },
     projects: Array.from({ length: projectCount }, (_, i) => makeProject(i)),
@@ -297,7 +297,7 @@ describe('Performance Benchmarks', () => {
       const json = JSON.stringify(state);
 
       const start = performance.now();
-      const parsed = JSON.parse(json) as StateFile;
+      const parsed = JSON.parse(json) as LegacyStateFile;
       const duration = performance.now() - start;
 
       expect(duration).toBeLessThan(100);
@@ -309,7 +309,7 @@ describe('Performance Benchmarks', () => {
 
       const start = performance.now();
       const json = JSON.stringify(state);
-      const parsed = JSON.parse(json) as StateFile;
+      const parsed = JSON.parse(json) as LegacyStateFile;
       const duration = performance.now() - start;
 
       expect(duration).toBeLessThan(100);
@@ -334,7 +334,7 @@ describe('Performance Benchmarks', () => {
 
       const duration = await measure(async () => {
         await writeState(stateDir, state, publicKey, 'state');
-        const loaded = await readState<StateFile>(stateDir, privateKey, 'state');
+        const loaded = await readState<LegacyStateFile>(stateDir, privateKey, 'state');
         expect(loaded?.projects).toHaveLength(10);
       });
 
@@ -355,7 +355,7 @@ describe('Performance Benchmarks', () => {
 
     it('should write + read all 6 state file types in < 3 seconds', async () => {
       const payloads: Array<{
-        data: StateFile | EnvVars | DockerState | MentalContext | ServiceState | DirectoryState;
+        data: LegacyStateFile | EnvVars | DockerState | MentalContext | ServiceState | DirectoryState;
         type: 'state' | 'env-vars' | 'docker-state' | 'mental-context' | 'services' | 'directories';
       }> = [
         { data: makeStateFile(10), type: 'state' },
@@ -525,7 +525,7 @@ describe('Performance Benchmarks', () => {
 
       const duration = await measure(async () => {
         const ciphertext = await encryptState(state, publicKey);
-        const decrypted = await decryptState<StateFile>(ciphertext, privateKey);
+        const decrypted = await decryptState<LegacyStateFile>(ciphertext, privateKey);
         expect(decrypted.projects).toHaveLength(1000);
       });
 
@@ -218,7 +218,15 @@ describe('Security: Penetration Tests', () => {
         state: {
           data: {
             machine: { id: 'macbook', hostname: 'dev.local' },
-            projects: [{ name: 'secret-project', path: '~/projects/secret' }],
+            projects: [
+              {
+                id: 'p1',
+                name: 'secret-project',
+                path: '~/projects/secret',
+                git: { branch: 'main', remote: 'origin', hasUncommitted: false, stashCount: 0 },
+                lastAccessed: '2025-01-01T00:00:00.000Z',
+              },
+            ],
           },
           fileType: 'state',
           sensitiveParts: ['macbook', 'dev.local', 'secret-project'],
@@ -229,22 +237,38 @@ describe('Security: Penetration Tests', () => {
           sensitiveParts: ['top-secret-value', 'my-app'],
         },
         docker: {
-          data: { 'my-app': { services: [{ name: 'postgres', image: 'postgres:15', port: 5432 }] } },
+          data: {
+            'my-app': {
+              composeFile: '~/projects/my-app/docker-compose.yml',
+              services: [{ name: 'postgres', container: 'pg', image: 'postgres:15', port: 5432, autoStart: true }],
+            },
+          },
           fileType: 'docker-state',
           sensitiveParts: ['my-app'],
         },
         mental: {
-          data: { 'my-app': { currentTask: 'Fixing auth bug', blockers: ['Waiting on API keys'] } },
+          data: {
+            'my-app': {
+              currentTask: 'Fixing auth bug',
+              blockers: [{ description: 'Waiting on API keys', addedAt: '2025-01-01T00:00:00.000Z', priority: 'high' }],
+              nextSteps: [],
+              relatedLinks: [],
+              breadcrumbs: [],
+            },
+          },
           fileType: 'mental-context',
           sensitiveParts: ['Fixing auth bug', 'Waiting on API keys'],
         },
         services: {
-          data: { services: [{ name: 'dev', command: 'npm run dev', port: 3000 }] },
+          data: { services: [{ project: 'my-app', name: 'dev', command: 'npm run dev', port: 3000, autoStart: false }] },
           fileType: 'services',
           sensitiveParts: ['npm run dev'],
         },
         directories: {
-          data: { recentDirs: [{ path: '~/secret/path', frequency: 5 }], pinnedDirs: [] },
+          data: {
+            recentDirs: [{ path: '~/secret/path', frequency: 5, lastVisit: '2025-01-01T00:00:00.000Z' }],
+            pinnedDirs: [],
+          },
           fileType: 'directories',
           sensitiveParts: ['~/secret/path'],
         },
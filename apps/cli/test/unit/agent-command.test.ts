@@ -0,0 +1,117 @@
+import { jest } from '@jest/globals';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const { executeAgentStart, executeAgentStop, executeAgentStatus } = await import(
+  '../../src/commands/agent.js'
+);
+const { generateKey } = await import('../../src/core/encryption.js');
+const { saveKey, saveWrappedKey, resolvePrivateKey } = await import('../../src/core/key-store.js');
+const { startKeyAgent, lockKeyAgent } = await import('../../src/core/key-agent.js');
+
+describe('Agent Command', () => {
+  let originalHome: string | undefined;
+  let configDir: string;
+  let privateKey: string;
+  let publicKey: string;
+
+  /** Starts the agent in this process instead of a detached one */
+  const inProcessAgent = (args: string[], identity: string) => {
+    const ttl = args.indexOf('--ttl');
+    void startKeyAgent(configDir, identity, ttl === -1 ? undefined : Number(args[ttl + 1]) * 60_000);
+    return { pid: process.pid };
+  };
+
+  beforeAll(async () => {
+    ({ privateKey, publicKey } = await generateKey());
+  });
+
+  beforeEach(() => {
+    originalHome = process.env['CTX_SYNC_HOME'];
+    const homeDir = path.join(globalThis.TEST_DIR, `agent-cmd-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`);
+    configDir = path.join(homeDir, '.config', 'ctx-sync');
+    saveKey(configDir, privateKey);
+    process.env['CTX_SYNC_HOME'] = homeDir;
+  });
+
+  afterEach(async () => {
+    await lockKeyAgent(configDir);
+    if (originalHome !== undefined) {
+      process.env['CTX_SYNC_HOME'] = originalHome;
+    } else {
+      delete process.env['CTX_SYNC_HOME'];
+    }
+  });
+
+  describe('executeAgentStart()', () => {
+    it('should serve the key until stopped and let commands use it', async () => {
+      const spawnFn = jest.fn(inProcessAgent);
+
+      const result = await executeAgentStart({ spawnFn });
+
+      expect(spawnFn).toHaveBeenCalledWith(['agent', 'start', '--serve'], privateKey);
+      expect(result).toEqual({ pid: process.pid, publicKey, expiresAt: null });
+      expect(await resolvePrivateKey(configDir)).toMatchObject({ publicKey });
+    });
+
+    it('should pass the TTL to the agent', async () => {
+      const spawnFn = jest.fn(inProcessAgent);
+
+      const result = await executeAgentStart({ ttlMinutes: 2, spawnFn });
+
+      expect(spawnFn).toHaveBeenCalledWith(['agent', 'start', '--serve', '--ttl', '2'], privateKey);
+      expect(result.expiresAt?.getTime()).toBeGreaterThan(Date.now() + 60_000);
+    });
+
+    it('should replace a running agent', async () => {
+      await executeAgentStart({ spawnFn: inProcessAgent });
+
+      const result = await executeAgentStart({ ttlMinutes: 1, spawnFn: inProcessAgent });
+
+      expect(result.expiresAt).not.toBeNull();
+    });
+
+    it('should need the passphrase for a protected key', async () => {
+      await saveWrappedKey(configDir, privateKey, 'correct horse', 10);
+
+      await expect(executeAgentStart({ spawnFn: inProcessAgent })).rejects.toThrow('ctx-sync key unlock');
+      await expect(
+        executeAgentStart({ passphrase: 'wrong', spawnFn: inProcessAgent }),
+      ).rejects.toThrow('Incorrect passphrase');
+      expect((await executeAgentStart({ passphrase: 'correct horse', spawnFn: inProcessAgent })).publicKey).toBe(
+        publicKey,
+      );
+    });
+
+    it('should reject a non-positive TTL', async () => {
+      await expect(
+        executeAgentStart({ ttlMinutes: -1, spawnFn: inProcessAgent }),
+      ).rejects.toThrow('TTL must be a positive number of minutes');
+    });
+
+    it('should fail when the agent does not start', async () => {
+      await expect(executeAgentStart({ spawnFn: () => ({ pid: undefined }) })).rejects.toThrow(
+        'Failed to start the key agent',
+      );
+    });
+  });
+
+  describe('executeAgentStop() / executeAgentStatus()', () => {
+    it('should report and stop a running agent', async () => {
+      await executeAgentStart({ spawnFn: inProcessAgent });
+
+      expect(await executeAgentStatus()).toEqual({ running: true, publicKey, expiresAt: null });
+      expect(await executeAgentStop()).toEqual({ wasRunning: true });
+      expect(await executeAgentStatus()).toEqual({ running: false, publicKey: null, expiresAt: null });
+    });
+
+    it('should report when no agent is running', async () => {
+      expect(await executeAgentStop()).toEqual({ wasRunning: false });
+      expect(fs.existsSync(path.join(configDir, 'agent.sock'))).toBe(false);
+    });
+  });
+});
@@ -8,10 +8,16 @@ declare global {
 const { generateKey } = await import(
   '../../src/core/encryption.js'
 );
-const { writeState } = await import('../../src/core/state-manager.js');
+const { writeState, scopeProjectState } = await import('../../src/core/state-manager.js');
+const { initRecipients, addRecipient, removeRecipientByName } = await import(
+  '../../src/core/recipients.js'
+);
+const { ensureRoster } = await import('../../src/core/roster.js');
 const {
   checkPermissions,
   checkStateFiles,
+  checkRecipientCoverage,
+  checkRoster,
   checkRemoteTransport,
   checkRepoSize,
   formatBytes,
@@ -159,8 +165,128 @@ describe('Audit Command', () => {
     });
   });
 
+  // ── checkRecipientCoverage() ──────────────────────────────────────
+
+  describe('checkRecipientCoverage()', () => {
+    const state = { machine: { id: 'test', hostname: 'test' }, projects: [] };
+
+    it('should report info when every file covers every recipient', async () => {
+      const { configDir, syncDir, publicKey } = await setupTestEnv();
+      initRecipients(configDir, publicKey);
+      const bobKey = (await generateKey()).publicKey;
+      addRecipient(configDir, 'Bob', bobKey);
+      await writeState(syncDir, state, [publicKey, bobKey], 'state');
+
+      const findings = checkRecipientCoverage(configDir, syncDir);
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]!.severity).toBe('info');
+      expect(findings[0]!.message).toContain('all of their recipients');
+    });
+
+    it('should report critical when a file was written for the owner only', async () => {
+      const { configDir, syncDir, publicKey } = await setupTestEnv();
+      initRecipients(configDir, publicKey);
+      const bobKey = (await generateKey()).publicKey;
+      addRecipient(configDir, 'Bob', bobKey);
+      await writeState(syncDir, state, [publicKey, bobKey], 'state');
+      await writeState(syncDir, { recentDirs: [], pinnedDirs: [] }, publicKey, 'directories');
+
+      const findings = checkRecipientCoverage(configDir, syncDir);
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]!.severity).toBe('critical');
+      expect(findings[0]!.message).toContain('directories.age is encrypted for 1 of 2 recipients');
+    });
+
+    it('should warn when a file is still encrypted for a removed member', async () => {
+      const { configDir, syncDir, publicKey } = await setupTestEnv();
+      initRecipients(configDir, publicKey);
+      const bobKey = (await generateKey()).publicKey;
+      addRecipient(configDir, 'Bob', bobKey);
+      await writeState(syncDir, state, [publicKey, bobKey], 'state');
+      removeRecipientByName(configDir, 'Bob');
+
+      const findings = checkRecipientCoverage(configDir, syncDir);
+
+      expect(findings.map((f) => f.severity)).toEqual(['warning']);
+      expect(findings[0]!.message).toContain('only 1 are configured');
+    });
+
+    it('should expect a project\'s scoped members on its own blobs only', async () => {
+      const { configDir, syncDir, publicKey, privateKey } = await setupTestEnv();
+      initRecipients(configDir, publicKey);
+      const carolKey = (await generateKey()).publicKey;
+      addRecipient(configDir, 'Carol', carolKey, 'api');
+      await writeState(syncDir, state, publicKey, 'state');
+      await scopeProjectState(syncDir, 'api', privateKey, [publicKey, carolKey], [publicKey]);
+
+      expect(checkRecipientCoverage(configDir, syncDir).map((f) => f.severity)).toEqual(['info']);
+
+      await scopeProjectState(syncDir, 'web', privateKey, [publicKey], [publicKey]);
+      addRecipient(configDir, 'Carol', carolKey, 'web');
+      const findings = checkRecipientCoverage(configDir, syncDir);
+
+      expect(findings).toHaveLength(3);
+      for (const finding of findings) {
+        expect(finding.severity).toBe('critical');
+        expect(finding.message).toContain(`${path.join('projects', 'web')}${path.sep}`);
+      }
+    });
+  });
+
   // ── checkRemoteTransport() ────────────────────────────────────────
 
+  describe('checkRoster()', () => {
+    it('should report nothing without a roster', async () => {
+      const { configDir, syncDir } = await setupTestEnv();
+
+      expect(checkRoster(configDir, syncDir)).toEqual([]);
+    });
+
+    it('should report info when the roster verifies', async () => {
+      const { configDir, syncDir, publicKey, privateKey } = await setupTestEnv();
+      initRecipients(configDir, publicKey);
+      await ensureRoster(syncDir, configDir, privateKey);
+
+      const findings = checkRoster(configDir, syncDir);
+
+      expect(findings).toEqual([
+        { severity: 'info', check: 'roster', message: 'Team roster verified (1 entries, 1 members).' },
+      ]);
+    });
+
+    it('should report critical when the roster was tampered with', async () => {
+      const { configDir, syncDir, publicKey, privateKey } = await setupTestEnv();
+      initRecipients(configDir, publicKey);
+      await ensureRoster(syncDir, configDir, privateKey);
+      const rosterPath = path.join(syncDir, 'roster.jsonl');
+      fs.writeFileSync(rosterPath, fs.readFileSync(rosterPath, 'utf-8').replace('"genesis"', '"add"'));
+
+      const findings = checkRoster(configDir, syncDir);
+
+      expect(findings[0]!.severity).toBe('critical');
+      expect(findings[0]!.message).toContain('Team roster failed verification at entry 0');
+    });
+
+    it('should report critical when the roster was replaced', async () => {
+      const { configDir, syncDir, publicKey, privateKey } = await setupTestEnv();
+      initRecipients(configDir, publicKey);
+      await ensureRoster(syncDir, configDir, privateKey);
+
+      // A roster started by someone else
+      const other = await setupTestEnv();
+      initRecipients(other.configDir, other.publicKey);
+      await ensureRoster(other.syncDir, other.configDir, other.privateKey);
+      fs.copyFileSync(path.join(other.syncDir, 'roster.jsonl'), path.join(syncDir, 'roster.jsonl'));
+
+      const findings = checkRoster(configDir, syncDir);
+
+      expect(findings[0]!.severity).toBe('critical');
+      expect(findings[0]!.message).toContain('different genesis entry');
+    });
+  });
+
   describe('checkRemoteTransport()', () => {
     it('should report warning when no git repo exists', async () => {
       const { syncDir } = await setupTestEnv();
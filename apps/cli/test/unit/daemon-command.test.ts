@@ -0,0 +1,134 @@
+import { jest } from '@jest/globals';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { spawn } from 'node:child_process';
+import type { ChildProcess } from 'node:child_process';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const { executeDaemonStart, executeDaemonStop, executeDaemonStatus } = await import(
+  '../../src/commands/daemon.js'
+);
+const { appendDaemonLog, readDaemonPid, writeDaemonPid } = await import('../../src/core/sync-daemon.js');
+
+describe('Daemon Command', () => {
+  let originalHome: string | undefined;
+  let configDir: string;
+  let sleeper: ChildProcess | null = null;
+
+  /** Start a long-running child process that stands in for the daemon */
+  function startSleeper(): number {
+    sleeper = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 60000)'], { stdio: 'ignore' });
+    return sleeper.pid!;
+  }
+
+  beforeEach(() => {
+    originalHome = process.env['CTX_SYNC_HOME'];
+    const homeDir = path.join(globalThis.TEST_DIR, `daemon-cmd-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`);
+    configDir = path.join(homeDir, '.config', 'ctx-sync');
+    fs.mkdirSync(configDir, { recursive: true });
+    fs.mkdirSync(path.join(homeDir, '.context-sync', '.git'), { recursive: true });
+    process.env['CTX_SYNC_HOME'] = homeDir;
+  });
+
+  afterEach(() => {
+    if (sleeper && sleeper.exitCode === null && sleeper.signalCode === null) {
+      sleeper.kill();
+    }
+    sleeper = null;
+    if (originalHome !== undefined) {
+      process.env['CTX_SYNC_HOME'] = originalHome;
+    } else {
+      delete process.env['CTX_SYNC_HOME'];
+    }
+  });
+
+  describe('executeDaemonStart()', () => {
+    it('should spawn a detached foreground daemon and record its pid', async () => {
+      const spawnFn = jest.fn((_args: string[]) => ({ pid: 4242 }));
+
+      const result = await executeDaemonStart({ intervalMinutes: 2, spawnFn });
+
+      expect(spawnFn).toHaveBeenCalledWith(['daemon', 'start', '--foreground', '--interval', '2']);
+      expect(result.pid).toBe(4242);
+      expect(result.logFile).toBe(path.join(configDir, 'daemon.log'));
+      expect(readDaemonPid(configDir)).toBe(4242);
+    });
+
+    it('should refuse to start a second daemon', async () => {
+      const pid = startSleeper();
+      writeDaemonPid(configDir, pid);
+
+      await expect(executeDaemonStart({ spawnFn: () => ({ pid: 1 }) })).rejects.toThrow(
+        `Daemon is already running (pid ${String(pid)})`,
+      );
+    });
+
+    it('should replace a stale pidfile', async () => {
+      writeDaemonPid(configDir, 2 ** 22 + 1);
+
+      const result = await executeDaemonStart({ spawnFn: () => ({ pid: 4343 }) });
+
+      expect(result.pid).toBe(4343);
+    });
+
+    it('should reject a non-positive interval', async () => {
+      await expect(
+        executeDaemonStart({ intervalMinutes: 0, spawnFn: () => ({ pid: 1 }) }),
+      ).rejects.toThrow('Interval must be a positive number of minutes');
+    });
+
+    it('should throw if no sync repo exists', async () => {
+      process.env['CTX_SYNC_HOME'] = path.join(globalThis.TEST_DIR, `daemon-none-${Date.now()}`);
+
+      await expect(executeDaemonStart({ spawnFn: () => ({ pid: 1 }) })).rejects.toThrow(
+        'No sync repository found',
+      );
+    });
+  });
+
+  describe('executeDaemonStop()', () => {
+    it('should signal the daemon and remove the pidfile', async () => {
+      const pid = startSleeper();
+      writeDaemonPid(configDir, pid);
+      const exited = new Promise((resolve) => sleeper!.once('exit', resolve));
+
+      const result = executeDaemonStop();
+
+      expect(result).toEqual({ wasRunning: true, pid });
+      expect(readDaemonPid(configDir)).toBeNull();
+      await expect(exited).resolves.toBeNull();
+    });
+
+    it('should report when no daemon is running', () => {
+      expect(executeDaemonStop()).toEqual({ wasRunning: false, pid: null });
+    });
+  });
+
+  describe('executeDaemonStatus()', () => {
+    it('should report a running daemon with its recent log', () => {
+      const pid = startSleeper();
+      writeDaemonPid(configDir, pid);
+      appendDaemonLog(configDir, 'daemon started');
+      appendDaemonLog(configDir, 'sync ok: pulled');
+
+      const result = executeDaemonStatus(1);
+
+      expect(result.running).toBe(true);
+      expect(result.pid).toBe(pid);
+      expect(result.recentLog).toHaveLength(1);
+      expect(result.recentLog[0]).toContain('sync ok: pulled');
+    });
+
+    it('should report a stopped daemon', () => {
+      writeDaemonPid(configDir, 2 ** 22 + 1);
+
+      const result = executeDaemonStatus();
+
+      expect(result.running).toBe(false);
+      expect(result.pid).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the decryption failure diagnosis module.
+ *
+ * Verifies each cause is told apart:
+ *   - wrong-identity (a single other key, or a key rotated elsewhere)
+ *   - not-a-recipient (shared without this key, or left out of the roster
+ *     or scoped to other projects by it)
+ *   - truncated (cut-off armor or payload)
+ *   - schema-mismatch (decrypts, but is not JSON)
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { encrypt, encryptState, encryptStateForRecipients, decryptState, generateKey } from '../../src/core/encryption.js';
+import { diagnoseDecryptionFailure } from '../../src/core/decryption-failure.js';
+import { recordKeyRotation } from '../../src/core/key-rotation.js';
+import { addRecipient, initRecipients } from '../../src/core/recipients.js';
+import { appendRosterEntry, ensureRoster } from '../../src/core/roster.js';
+import { DecryptionError } from '../../src/utils/errors.js';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+function makeDir(name: string): string {
+  const dir = path.join(globalThis.TEST_DIR, `${name}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`);
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+/** Try to decrypt the way readState does and diagnose the failure */
+async function diagnose(syncDir: string, ciphertext: string, privateKey: string): Promise<DecryptionError> {
+  try {
+    await decryptState<unknown>(ciphertext, privateKey);
+  } catch (err) {
+    return diagnoseDecryptionFailure(syncDir, 'env-vars.age', ciphertext, privateKey, err);
+  }
+  throw new Error('Expected decryption to fail');
+}
+
+describe('Decryption Failure Diagnosis', () => {
+  let syncDir: string;
+  let mine: { publicKey: string; privateKey: string };
+  let other: { publicKey: string; privateKey: string };
+
+  beforeEach(async () => {
+    syncDir = makeDir('decrypt-fail');
+    mine = await generateKey();
+    other = await generateKey();
+  });
+
+  it('should call a file for one other key a wrong identity', async () => {
+    const ciphertext = await encryptState({ a: 1 }, other.publicKey);
+
+    const error = await diagnose(syncDir, ciphertext, mine.privateKey);
+
+    expect(error).toBeInstanceOf(DecryptionError);
+    expect(error.reason).toBe('wrong-identity');
+    expect(error.stanzas).toEqual(['X25519']);
+    expect(error.message).toContain(mine.publicKey);
+    expect(error.suggestion).toContain('ctx-sync init --restore');
+  });
+
+  it('should point at key update when the key was rotated elsewhere', async () => {
+    const ciphertext = await encryptState({ a: 1 }, other.publicKey);
+    await recordKeyRotation(syncDir, mine.privateKey, other.publicKey);
+
+    const error = await diagnose(syncDir, ciphertext, mine.privateKey);
+
+    expect(error.reason).toBe('wrong-identity');
+    expect(error.message).toContain('yours was rotated on');
+    expect(error.suggestion).toContain('ctx-sync key update');
+  });
+
+  it('should list the stanzas of a shared file this key is not a recipient of', async () => {
+    const third = await generateKey();
+    const ciphertext = await encryptStateForRecipients({ a: 1 }, [other.publicKey, third.publicKey]);
+
+    const error = await diagnose(syncDir, ciphertext, mine.privateKey);
+
+    expect(error.reason).toBe('not-a-recipient');
+    expect(error.message).toContain('Recipient stanzas: X25519, X25519 (2)');
+    expect(error.message).toContain(`Your public key:   ${mine.publicKey} — matches none of them`);
+    expect(error.message).not.toContain('team roster');
+    expect(error.suggestion).toContain('roll back');
+  });
+
+  it('should say so when the team roster leaves this key out', async () => {
+    const configDir = makeDir('decrypt-fail-config');
+    initRecipients(configDir, other.publicKey);
+    await ensureRoster(syncDir, configDir, other.privateKey);
+    const ciphertext = await encryptState({ a: 1 }, other.publicKey);
+
+    const error = await diagnose(syncDir, ciphertext, mine.privateKey);
+
+    expect(error.reason).toBe('not-a-recipient');
+    expect(error.message).toContain('The team roster does not list your key.');
+  });
+
+  it('should say so when the team roster scopes this key to other projects', async () => {
+    const configDir = makeDir('decrypt-fail-config');
+    initRecipients(configDir, other.publicKey);
+    await ensureRoster(syncDir, configDir, other.privateKey);
+    const member = addRecipient(configDir, 'Me', mine.publicKey, 'api');
+    await appendRosterEntry(syncDir, other.privateKey, 'add', member);
+    const ciphertext = await encryptState({ a: 1 }, other.publicKey);
+
+    const error = await diagnose(syncDir, ciphertext, mine.privateKey);
+
+    expect(error.reason).toBe('not-a-recipient');
+    expect(error.message).toContain('The team roster only shares api with your key.');
+  });
+
+  it('should call cut-off armor truncated', async () => {
+    const ciphertext = await encryptState({ a: 1 }, mine.publicKey);
+    const truncated = ciphertext.slice(0, ciphertext.length - 40);
+
+    const error = await diagnose(syncDir, truncated, mine.privateKey);
+
+    expect(error.reason).toBe('truncated');
+    expect(error.message).toContain('env-vars.age is truncated or damaged');
+  });
+
+  it('should call a damaged payload truncated', async () => {
+    const lines = (await encryptState({ a: 1 }, mine.publicKey)).split('\n');
+    const last = lines.length - 3;
+    lines[last] = (lines[last] ?? '').replace(/^./, (c) => (c === 'A' ? 'B' : 'A'));
+
+    const error = await diagnose(syncDir, lines.join('\n'), mine.privateKey);
+
+    expect(error.reason).toBe('truncated');
+  });
+
+  it('should call a file that decrypts to something other than JSON a schema mismatch', async () => {
+    const ciphertext = await encrypt('not json', mine.publicKey);
+
+    const error = await diagnose(syncDir, ciphertext, mine.privateKey);
+
+    expect(error.reason).toBe('schema-mismatch');
+    expect(error.message).toContain('does not contain ctx-sync state');
+  });
+});
@@ -28,7 +28,11 @@ const {
   executeDirUnpin,
   executeDirRemove,
   executeDirList,
+  executeDirFlush,
 } = await import('../../src/commands/dir.js');
+const { loadDirectories } = await import('../../src/core/directories-handler.js');
+const { ensureVisitQueue, acquireFlushLock } = await import('../../src/core/shell-integration.js');
+const { initRecipients, addRecipient } = await import('../../src/core/recipients.js');
 
 // ─── Helpers ──────────────────────────────────────────────────────────────
 
@@ -103,6 +107,18 @@ describe('Dir Command', () => {
       const result = await executeDirPin(dir, true);
       expect(result.alreadyPinned).toBe(true);
     });
+
+    it('should keep team members able to decrypt after a pin', async () => {
+      const { testHome, configDir, syncDir, publicKey } = await setupTestEnv();
+      const bob = await generateKey();
+      initRecipients(configDir, publicKey);
+      addRecipient(configDir, 'Bob', bob.publicKey);
+
+      await executeDirPin(validDir(testHome, 'team-pin'), true);
+
+      const state = await loadDirectories(syncDir, bob.privateKey);
+      expect(state.pinnedDirs).toEqual([path.join(testHome, 'team-pin')]);
+    });
   });
 
   // ── executeDirRemove() ──────────────────────────────────────────────
@@ -150,4 +166,41 @@ describe('Dir Command', () => {
       expect(result.recent).toEqual([]);
     });
   });
+
+  // ── executeDirFlush() ───────────────────────────────────────────────
+
+  describe('executeDirFlush()', () => {
+    it('should record queued visits and empty the queue', async () => {
+      const { testHome, configDir, syncDir, privateKey } = await setupTestEnv();
+      const dir1 = validDir(testHome, 'flush-one');
+      const dir2 = validDir(testHome, 'flush-two');
+      const queueFile = ensureVisitQueue(configDir);
+      fs.appendFileSync(queueFile, `${dir1}\n${dir2}\n/etc\n${dir1}\n`);
+
+      const result = await executeDirFlush(true);
+
+      expect(result).toEqual({ queued: 4, recorded: 3, busy: false });
+      expect(fs.readFileSync(queueFile, 'utf-8')).toBe('');
+      const state = await loadDirectories(syncDir, privateKey);
+      expect(state.recentDirs.find((d) => d.path === dir1)?.frequency).toBe(2);
+    });
+
+    it('should do nothing when the queue is empty', async () => {
+      await setupTestEnv();
+
+      expect(await executeDirFlush(true)).toEqual({ queued: 0, recorded: 0, busy: false });
+    });
+
+    it('should skip while another flush holds the lock', async () => {
+      const { testHome, configDir } = await setupTestEnv();
+      fs.appendFileSync(ensureVisitQueue(configDir), `${validDir(testHome, 'flush-busy')}\n`);
+      const release = acquireFlushLock(configDir);
+
+      const result = await executeDirFlush(true);
+      release!();
+
+      expect(result.busy).toBe(true);
+      expect(fs.readFileSync(path.join(configDir, 'dir-visits.queue'), 'utf-8')).not.toBe('');
+    });
+  });
 });
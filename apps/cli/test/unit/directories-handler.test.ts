@@ -9,6 +9,10 @@ const {
   loadDirectories,
   saveDirectories,
   visitDirectory,
+  visitDirectories,
+  addVisits,
+  frecencyScore,
+  rankDirectories,
   pinDirectory,
   unpinDirectory,
   removeRecentDirectory,
@@ -181,6 +185,117 @@ describe('Directories Handler', () => {
     });
   });
 
+  // ── visitDirectories() ──────────────────────────────────────────────
+
+  describe('visitDirectories()', () => {
+    it('should record a batch of visits in one write', async () => {
+      const { syncDir, publicKey, privateKey } = await setupTestEnv();
+      const dir1 = validDir('batch-one');
+      const dir2 = validDir('batch-two');
+
+      const recorded = await visitDirectories(syncDir, [dir1, dir2, dir1], publicKey, privateKey);
+
+      expect(recorded).toEqual([dir1, dir2, dir1]);
+      const state = await loadDirectories(syncDir, privateKey);
+      expect(state.recentDirs.map((d) => [d.path, d.frequency])).toEqual([
+        [dir1, 2],
+        [dir2, 1],
+      ]);
+    });
+
+    it('should skip invalid paths instead of failing the batch', async () => {
+      const { syncDir, publicKey, privateKey } = await setupTestEnv();
+      const dir = validDir('batch-valid');
+
+      const recorded = await visitDirectories(syncDir, ['/etc', dir, '../../x'], publicKey, privateKey);
+
+      expect(recorded).toEqual([dir]);
+    });
+
+    it('should not write anything when no path is valid', async () => {
+      const { syncDir, publicKey, privateKey } = await setupTestEnv();
+
+      expect(await visitDirectories(syncDir, ['/etc'], publicKey, privateKey)).toEqual([]);
+      expect(fs.existsSync(path.join(syncDir, 'directories.age'))).toBe(false);
+    });
+  });
+
+  describe('addVisits()', () => {
+    it('should update the state in memory and prune to MAX_RECENT_DIRS', () => {
+      const state = {
+        recentDirs: Array.from({ length: MAX_RECENT_DIRS }, (_, i) => ({
+          path: `/old/${String(i)}`,
+          frequency: 5,
+          lastVisit: '2025-01-01T00:00:00.000Z',
+        })),
+        pinnedDirs: [],
+      };
+      const dir = validDir('add-visits');
+
+      addVisits(state, [dir], '2026-01-01T00:00:00.000Z');
+
+      expect(state.recentDirs).toHaveLength(MAX_RECENT_DIRS);
+      expect(state.recentDirs.some((d) => d.path === dir)).toBe(false);
+    });
+  });
+
+  // ── frecencyScore() / rankDirectories() ─────────────────────────────
+
+  describe('frecencyScore()', () => {
+    const now = Date.parse('2026-06-01T12:00:00.000Z');
+    const visitedAgo = (ms: number) => ({
+      path: '/home/u/x',
+      frequency: 8,
+      lastVisit: new Date(now - ms).toISOString(),
+    });
+    const hour = 60 * 60 * 1000;
+
+    it('should weight frequency by recency', () => {
+      expect(frecencyScore(visitedAgo(10 * 60 * 1000), now)).toBe(32);
+      expect(frecencyScore(visitedAgo(3 * hour), now)).toBe(16);
+      expect(frecencyScore(visitedAgo(3 * 24 * hour), now)).toBe(4);
+      expect(frecencyScore(visitedAgo(30 * 24 * hour), now)).toBe(2);
+    });
+  });
+
+  describe('rankDirectories()', () => {
+    const now = Date.parse('2026-06-01T12:00:00.000Z');
+    const recent = new Date(now - 60 * 1000).toISOString();
+    const lastMonth = new Date(now - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const dirs = [
+      { path: '/home/u/code/ctx-sync/apps/cli', frequency: 3, lastVisit: recent },
+      { path: '/home/u/code/cli-tools/ctx', frequency: 9, lastVisit: lastMonth },
+      { path: '/home/u/code/ctx-sync', frequency: 20, lastVisit: lastMonth },
+      { path: '/home/u/code/ctx-web', frequency: 2, lastVisit: recent },
+    ];
+
+    it('should prefer recent visits over older frequent ones', () => {
+      const ranked = rankDirectories(dirs, ['ctx'], now);
+      expect(ranked.map((d) => d.path)).toEqual([
+        '/home/u/code/ctx-web',
+        '/home/u/code/ctx-sync',
+        '/home/u/code/cli-tools/ctx',
+      ]);
+    });
+
+    it('should require keywords in order with the last one in the final component', () => {
+      expect(rankDirectories(dirs, ['ctx', 'cli'], now).map((d) => d.path)).toEqual([
+        '/home/u/code/ctx-sync/apps/cli',
+      ]);
+      expect(rankDirectories(dirs, ['cli', 'ctx'], now).map((d) => d.path)).toEqual([
+        '/home/u/code/cli-tools/ctx',
+      ]);
+    });
+
+    it('should match case-insensitively', () => {
+      expect(rankDirectories(dirs, ['CTX-SYNC'], now)).toHaveLength(1);
+    });
+
+    it('should return everything when no keywords are given', () => {
+      expect(rankDirectories(dirs, [], now)).toHaveLength(4);
+    });
+  });
+
   // ── pinDirectory() / unpinDirectory() ───────────────────────────────
 
   describe('pinDirectory() / unpinDirectory()', () => {
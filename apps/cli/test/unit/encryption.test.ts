@@ -1,4 +1,12 @@
-import { generateKey, encrypt, decrypt, encryptState, decryptState } from '../../src/core/encryption.js';
+import {
+  generateKey,
+  encrypt,
+  decrypt,
+  encryptState,
+  decryptState,
+  encryptForRecipients,
+  readRecipientStanzas,
+} from '../../src/core/encryption.js';
 
 describe('Encryption Module', () => {
   let publicKey: string;
@@ -201,4 +209,19 @@ describe('Encryption Module', () => {
       await expect(decryptState(encrypted, wrongKeys.privateKey)).rejects.toThrow();
     });
   });
+
+  describe('readRecipientStanzas()', () => {
+    it('should list one X25519 stanza per recipient', async () => {
+      const other = await generateKey();
+
+      expect(readRecipientStanzas(await encrypt('x', publicKey))).toEqual(['X25519']);
+      expect(
+        readRecipientStanzas(await encryptForRecipients('x', [publicKey, other.publicKey])),
+      ).toEqual(['X25519', 'X25519']);
+    });
+
+    it('should throw for input that is not an Age file', () => {
+      expect(() => readRecipientStanzas('not-valid-age-ciphertext')).toThrow();
+    });
+  });
 });
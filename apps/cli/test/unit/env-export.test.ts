@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the env export formats.
+ *
+ * Verifies each format's quoting (checked against a real shell for
+ * `sh`), key filtering, and that unrepresentable keys and values are
+ * refused by key name, never by value.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { filterEnvVars, formatEnvVars } from '../../src/core/env-export.js';
+
+const tricky = [
+  { key: 'PLAIN', value: 'abc123' },
+  { key: 'QUOTES', value: `it's a "test"` },
+  { key: 'SHELL', value: '$HOME `id` \\ $(whoami)' },
+  { key: 'EMPTY', value: '' },
+];
+
+describe('Env Export', () => {
+  describe('formatEnvVars()', () => {
+    it('should write dotenv lines, quoting only when needed', () => {
+      expect(formatEnvVars(tricky, 'dotenv')).toBe(
+        'PLAIN=abc123\n' +
+          'QUOTES="it\'s a \\"test\\""\n' +
+          'SHELL="$HOME `id` \\\\ $(whoami)"\n' +
+          'EMPTY=""\n',
+      );
+    });
+
+    it('should write a JSON object', () => {
+      expect(JSON.parse(formatEnvVars(tricky, 'json'))).toEqual(
+        Object.fromEntries(tricky.map((v) => [v.key, v.value])),
+      );
+    });
+
+    it('should write sh exports a POSIX shell reads back verbatim', () => {
+      const vars = [...tricky, { key: 'MULTI', value: 'line1\nline2' }];
+      const script =
+        formatEnvVars(vars, 'sh') + vars.map((v) => `printf '%s\\0' "$${v.key}"`).join('\n');
+
+      const output = execFileSync('sh', ['-c', script], { encoding: 'utf-8' });
+
+      expect(output.split('\0').slice(0, -1)).toEqual(vars.map((v) => v.value));
+    });
+
+    it('should write fish set commands with fish escaping', () => {
+      expect(formatEnvVars(tricky, 'fish')).toBe(
+        "set -gx PLAIN 'abc123'\n" +
+          "set -gx QUOTES 'it\\'s a \"test\"'\n" +
+          "set -gx SHELL '$HOME `id` \\\\ $(whoami)'\n" +
+          "set -gx EMPTY ''\n",
+      );
+    });
+
+    it('should write Docker env-file lines unquoted and refuse line breaks', () => {
+      expect(formatEnvVars(tricky, 'docker')).toBe(
+        'PLAIN=abc123\n' + `QUOTES=it's a "test"\n` + 'SHELL=$HOME `id` \\ $(whoami)\n' + 'EMPTY=\n',
+      );
+      expect(() => formatEnvVars([{ key: 'CERT', value: 'a\nsecret-b' }], 'docker')).toThrow(
+        /Cannot export CERT as docker/,
+      );
+    });
+
+    it('should write a Kubernetes Secret with base64 data', () => {
+      const yaml = formatEnvVars(tricky.slice(0, 2), 'k8s-secret', { secretName: 'My_App' });
+
+      expect(yaml).toBe(
+        'apiVersion: v1\n' +
+          'kind: Secret\n' +
+          'metadata:\n' +
+          '  name: my-app\n' +
+          'type: Opaque\n' +
+          'data:\n' +
+          `  "PLAIN": ${Buffer.from('abc123').toString('base64')}\n` +
+          `  "QUOTES": ${Buffer.from(`it's a "test"`).toString('base64')}\n`,
+      );
+      expect(formatEnvVars([], 'k8s-secret')).toContain('data: {}\n');
+    });
+
+    it('should refuse keys a shell cannot assign, naming only the key', () => {
+      const vars = [{ key: 'BAD-KEY', value: 'sk_live_secret' }];
+
+      expect(() => formatEnvVars(vars, 'sh')).toThrow(/Cannot export "BAD-KEY" as sh/);
+      expect(() => formatEnvVars(vars, 'sh')).not.toThrow(/sk_live_secret/);
+      expect(formatEnvVars(vars, 'dotenv')).toBe('BAD-KEY=sk_live_secret\n');
+    });
+  });
+
+  describe('filterEnvVars()', () => {
+    it('should keep only the listed keys, then drop the excluded ones', () => {
+      expect(filterEnvVars(tricky, ['PLAIN', 'EMPTY']).map((v) => v.key)).toEqual(['PLAIN', 'EMPTY']);
+      expect(filterEnvVars(tricky, [], ['SHELL', 'EMPTY']).map((v) => v.key)).toEqual(['PLAIN', 'QUOTES']);
+      expect(filterEnvVars(tricky, ['PLAIN', 'EMPTY'], ['EMPTY']).map((v) => v.key)).toEqual(['PLAIN']);
+    });
+
+    it('should fail on keys in --only that are not set', () => {
+      expect(() => filterEnvVars(tricky, ['PLAIN', 'MISSING'])).toThrow('Not set for this project: MISSING');
+    });
+  });
+});
@@ -2,7 +2,8 @@
  * Unit tests for the env-handler core module.
  *
  * Covers: shouldEncrypt, hasHighEntropy, containsCredentialPattern,
- * parseEnvFile, validateKeyArg, importEnvVars, addEnvVar, listEnvVars.
+ * parseEnvFile, validateKeyArg, importEnvVars, addEnvVar, addEnvRef,
+ * listEnvVars, env profiles and env groups.
  */
 
 import { jest } from '@jest/globals';
@@ -78,10 +79,25 @@ const {
   validateKeyArg,
   importEnvVars,
   addEnvVar,
+  addEnvRef,
   listEnvVars,
+  envVarsKey,
+  listEnvProfiles,
+  resolveEnvProfile,
+  envGroupKey,
+  envGroupRefKey,
+  parseEnvGroupRef,
+  listEnvGroups,
+  listLinkedGroups,
+  importEnvGroup,
+  linkEnvGroup,
+  unlinkEnvGroup,
+  readEnvVars,
 } = await import('../../src/core/env-handler.js');
+const { scopeProjectState } = await import('../../src/core/state-manager.js');
 
 const { generateKey } = await import('../../src/core/encryption.js');
+const { DecryptionError } = await import('../../src/utils/errors.js');
 
 describe('Env Handler Module', () => {
   // ─── shouldEncrypt ──────────────────────────────────────────────────
@@ -509,5 +525,194 @@ describe('Env Handler Module', () => {
       // Should be a valid ISO date
       expect(new Date(vars[0]!.addedAt).toISOString()).toBe(vars[0]!.addedAt);
     });
+
+    it('addEnvRef should store the reference and list it even when values are hidden', async () => {
+      await addEnvVar('my-app', 'DB_PASSWORD', 'plain', testDir, publicKey, privateKey);
+      await addEnvRef('my-app', 'DB_PASSWORD', 'op://dev/db/password', testDir, publicKey, privateKey);
+      await addEnvVar('my-app', 'NODE_ENV', 'op://not-a-ref', testDir, publicKey, privateKey);
+
+      const entries = resolveEnvProfile(await readEnvVars(testDir, privateKey, 'my-app'), 'my-app');
+      expect(entries['DB_PASSWORD']).toMatchObject({ value: 'op://dev/db/password', ref: true });
+      expect(entries['NODE_ENV']).not.toHaveProperty('ref');
+
+      const hidden = await listEnvVars('my-app', testDir, privateKey, false);
+      expect(hidden.map(({ key, value, ref }) => ({ key, value, ref }))).toEqual([
+        { key: 'DB_PASSWORD', value: '********', ref: 'op://dev/db/password' },
+        { key: 'NODE_ENV', value: '********', ref: undefined },
+      ]);
+    });
+  });
+
+  // ─── Profiles ───────────────────────────────────────────────────────
+  describe('env profiles', () => {
+    const entry = (value: string): { value: string; addedAt: string } => ({
+      value,
+      addedAt: '2025-01-01T00:00:00.000Z',
+    });
+    const envVars = {
+      'my-app': { DATABASE_URL: entry('postgres://localhost/dev'), LOG_LEVEL: entry('debug') },
+      'my-app/staging': { DATABASE_URL: entry('postgres://staging/db') },
+      'my-app/prod': {},
+      'my-app-2': { OTHER: entry('x') },
+    };
+
+    it('should key named profiles under <project>/<profile>', () => {
+      expect(envVarsKey('my-app')).toBe('my-app');
+      expect(envVarsKey('my-app', 'default')).toBe('my-app');
+      expect(envVarsKey('my-app', 'staging')).toBe('my-app/staging');
+      expect(() => envVarsKey('my-app', '../x')).toThrow('Invalid env profile name');
+    });
+
+    it('should list profile names, default first, without other projects', () => {
+      expect(listEnvProfiles(envVars, 'my-app')).toEqual(['default', 'prod', 'staging']);
+      expect(listEnvProfiles(envVars, 'my-app-2')).toEqual(['default']);
+      expect(listEnvProfiles(envVars, 'nope')).toEqual([]);
+    });
+
+    it('should resolve a profile over the base vars', () => {
+      expect(resolveEnvProfile(envVars, 'my-app', 'staging')).toEqual({
+        DATABASE_URL: entry('postgres://staging/db'),
+        LOG_LEVEL: entry('debug'),
+      });
+      expect(resolveEnvProfile(envVars, 'my-app')).toEqual(envVars['my-app']);
+    });
+
+    it('should refuse an unknown profile instead of falling back to the base', () => {
+      expect(() => resolveEnvProfile(envVars, 'my-app', 'qa')).toThrow(
+        'Env profile "qa" not found for my-app.\nProfiles: default, prod, staging',
+      );
+    });
+
+    it('should import into a profile and list inherited vars', async () => {
+      const testDir = path.join(globalThis.TEST_DIR, `env-profile-${Date.now()}`);
+      fs.mkdirSync(testDir, { recursive: true });
+      const { publicKey, privateKey } = await generateKey();
+
+      await importEnvVars(
+        'my-app',
+        [
+          { key: 'A', value: 'base-a' },
+          { key: 'B', value: 'base-b' },
+        ],
+        testDir,
+        publicKey,
+        privateKey,
+      );
+      await addEnvVar('my-app', 'B', 'staging-b', testDir, publicKey, privateKey, 'staging');
+
+      const staging = await listEnvVars('my-app', testDir, privateKey, true, 'staging');
+      expect(staging.map(({ key, value, inherited }) => ({ key, value, inherited }))).toEqual([
+        { key: 'A', value: 'base-a', inherited: true },
+        { key: 'B', value: 'staging-b', inherited: false },
+      ]);
+      expect((await listEnvVars('my-app', testDir, privateKey, true)).map((v) => v.value)).toEqual([
+        'base-a',
+        'base-b',
+      ]);
+    });
+  });
+
+  // ─── Groups ─────────────────────────────────────────────────────────
+  describe('env groups', () => {
+    const entry = (value: string): { value: string; addedAt: string } => ({
+      value,
+      addedAt: '2025-01-01T00:00:00.000Z',
+    });
+    const envVars = {
+      '/aws': { AWS_REGION: entry('eu-west-1'), AWS_KEY: entry('AKIA-shared') },
+      '/sentry': { SENTRY_DSN: entry('https://sentry/1'), AWS_REGION: entry('us-east-1') },
+      'my-app': { AWS_KEY: entry('AKIA-own') },
+      'my-app/@aws': {},
+      'my-app/@sentry': {},
+      'my-app/staging': { SENTRY_DSN: entry('https://sentry/staging') },
+    };
+
+    it('should store groups under keys no project can own', () => {
+      expect(envGroupKey('aws')).toBe('/aws');
+      expect(envGroupRefKey('my-app', 'aws')).toBe('my-app/@aws');
+      expect(parseEnvGroupRef('my-app/@aws')).toEqual({ project: 'my-app', group: 'aws' });
+      expect(parseEnvGroupRef('my-app/staging')).toBeNull();
+      expect(() => envGroupKey('a/b')).toThrow('Invalid env group name');
+    });
+
+    it('should list groups and the groups a project uses, apart from profiles', () => {
+      expect(listEnvGroups(envVars)).toEqual(['aws', 'sentry']);
+      expect(listLinkedGroups(envVars, 'my-app')).toEqual(['aws', 'sentry']);
+      expect(listEnvProfiles(envVars, 'my-app')).toEqual(['default', 'staging']);
+    });
+
+    it('should let the project win over its groups, and a later group over an earlier one', () => {
+      expect(resolveEnvProfile(envVars, 'my-app')).toEqual({
+        AWS_REGION: entry('us-east-1'),
+        AWS_KEY: entry('AKIA-own'),
+        SENTRY_DSN: entry('https://sentry/1'),
+      });
+      expect(resolveEnvProfile(envVars, 'my-app', 'staging')['SENTRY_DSN']).toEqual(
+        entry('https://sentry/staging'),
+      );
+    });
+
+    it('should link groups, list where each value came from, and unlink', async () => {
+      const testDir = path.join(globalThis.TEST_DIR, `env-group-${Date.now()}`);
+      fs.mkdirSync(testDir, { recursive: true });
+      const { publicKey, privateKey } = await generateKey();
+      const aws = [{ key: 'AWS_KEY', value: 'AKIA-shared' }];
+
+      await importEnvGroup('aws', aws, testDir, publicKey, privateKey);
+      await addEnvVar('my-app', 'PORT', '3000', testDir, publicKey, privateKey);
+
+      await expect(linkEnvGroup('my-app', 'gcp', testDir, publicKey, privateKey)).rejects.toThrow(
+        'Env group "gcp" not found.\nGroups: aws',
+      );
+      expect(await linkEnvGroup('my-app', 'aws', testDir, publicKey, privateKey)).toBe(true);
+      expect(await linkEnvGroup('my-app', 'aws', testDir, publicKey, privateKey)).toBe(false);
+
+      const listed = await listEnvVars('my-app', testDir, privateKey, true);
+      expect(listed.map(({ key, value, group }) => ({ key, value, group }))).toEqual([
+        { key: 'AWS_KEY', value: 'AKIA-shared', group: 'aws' },
+        { key: 'PORT', value: '3000', group: undefined },
+      ]);
+
+      expect(await unlinkEnvGroup('my-app', 'aws', testDir, publicKey, privateKey)).toBe(true);
+      const unlinked = await listEnvVars('my-app', testDir, privateKey, true);
+      expect(unlinked.map((v) => v.key)).toEqual(['PORT']);
+    });
+
+    it('should resolve the groups of a scoped project from the repo-wide file', async () => {
+      const testDir = path.join(globalThis.TEST_DIR, `env-group-scoped-${Date.now()}`);
+      fs.mkdirSync(testDir, { recursive: true });
+      const owner = await generateKey();
+      const teammate = await generateKey();
+      const contractor = await generateKey();
+      const aws = [{ key: 'AWS_KEY', value: 'AKIA-shared' }];
+      const port = [{ key: 'PORT', value: '3000' }];
+
+      await importEnvGroup('aws', aws, testDir, owner.publicKey, owner.privateKey);
+      await importEnvVars('api', port, testDir, owner.publicKey, owner.privateKey);
+      await linkEnvGroup('api', 'aws', testDir, owner.publicKey, owner.privateKey);
+      await scopeProjectState(
+        testDir,
+        'api',
+        owner.privateKey,
+        [owner.publicKey, contractor.publicKey],
+        [owner.publicKey, teammate.publicKey],
+      );
+
+      const forOwner = await readEnvVars(testDir, owner.privateKey, 'api');
+      expect(Object.keys(resolveEnvProfile(forOwner, 'api'))).toEqual(['AWS_KEY', 'PORT']);
+      // The contractor was never given the shared groups
+      const skipped: string[][] = [];
+      const forContractor = await readEnvVars(testDir, contractor.privateKey, 'api', {
+        onSkippedGroups: (groups) => skipped.push(groups),
+      });
+      expect(Object.keys(resolveEnvProfile(forContractor, 'api'))).toEqual(['PORT']);
+      expect(skipped).toEqual([['aws']]);
+
+      // Any other failure to decrypt the shared file is not hidden
+      const sharedPath = path.join(testDir, 'env-vars.age');
+      const ciphertext = fs.readFileSync(sharedPath, 'utf-8');
+      fs.writeFileSync(sharedPath, ciphertext.slice(0, ciphertext.length / 2));
+      await expect(readEnvVars(testDir, owner.privateKey, 'api')).rejects.toThrow(DecryptionError);
+    });
   });
 });
@@ -20,6 +20,10 @@ const {
   SecurityError,
   ProjectError,
   EdgeCaseError,
+  StateVersionError,
+  SecretRefError,
+  SyncConflictError,
+  DecryptionError,
   classifyError,
   formatError,
   isVerbose,
@@ -108,6 +112,49 @@ describe('Custom Error Classes', () => {
       expect(err.suggestion).toContain('permissions');
     });
   });
+
+  describe('SyncConflictError', () => {
+    it('should name the file and field but not the values', () => {
+      const err = new SyncConflictError('env-vars.age', 'app › KEY');
+      expect(err.code).toBe('SYNC_CONFLICT');
+      expect(err.name).toBe('SyncConflictError');
+      expect(err.message).toBe('env-vars.age: app › KEY changed on both machines.');
+      expect(err.suggestion).toContain('ctx-sync sync');
+    });
+  });
+
+  describe('StateVersionError', () => {
+    it('should name the file and both versions', () => {
+      const err = new StateVersionError('state.age', 3, 2);
+      expect(err.code).toBe('STATE_VERSION_UNSUPPORTED');
+      expect(err.name).toBe('StateVersionError');
+      expect(err.message).toBe(
+        'state.age uses schema version 3, but this ctx-sync only supports up to version 2.',
+      );
+      expect(err.suggestion).toContain('Upgrade ctx-sync');
+    });
+  });
+
+  describe('SecretRefError', () => {
+    it('should name the reference and pass through classifyError', () => {
+      const err = new SecretRefError('pass:team/db', 'gpg: decryption failed: No secret key');
+      expect(err.code).toBe('SECRET_REF_FAILED');
+      expect(err.name).toBe('SecretRefError');
+      expect(err.ref).toBe('pass:team/db');
+      expect(err.message).toBe('Could not resolve pass:team/db: gpg: decryption failed: No secret key');
+      expect(classifyError(err)).toBe(err);
+    });
+  });
+
+  describe('DecryptionError', () => {
+    it('should keep the file, cause and stanzas and pass through classifyError', () => {
+      const err = new DecryptionError('env-vars.age', 'not-a-recipient', 'Not yours.', 'Ask.', ['X25519']);
+      expect(err.code).toBe('DECRYPTION_FAILED');
+      expect(err.name).toBe('DecryptionError');
+      expect(err).toMatchObject({ file: 'env-vars.age', reason: 'not-a-recipient', stanzas: ['X25519'] });
+      expect(classifyError(err)).toBe(err);
+    });
+  });
 });
 
 describe('classifyError', () => {
@@ -129,6 +176,13 @@ describe('classifyError', () => {
     expect(result).toBeInstanceOf(EncryptionError);
   });
 
+  it('should not take a "Usage:" hint for an age error', () => {
+    const err = new Error('Invalid key.\nUsage: ctx-sync env add <project> <key>');
+    const result = classifyError(err);
+    expect(result).not.toBeInstanceOf(EncryptionError);
+    expect(result.message).toBe(err.message);
+  });
+
   it('should classify "no identity matched" as EncryptionError with multi-machine guidance', () => {
     const err = new Error("no identity matched any of the file's recipients");
     const result = classifyError(err);
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the exec command and the env-exec module.
+ *
+ * Verifies:
+ *   - The project's env vars reach the child, over the current environment.
+ *   - No .env file (or any plaintext) is written.
+ *   - Exit codes and signals are reported; forwarded signals reach the child.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { executeExec } from '../../src/commands/exec.js';
+import { buildExecEnv, exitCodeOf, runWithEnv } from '../../src/core/env-exec.js';
+import { generateKey } from '../../src/core/encryption.js';
+import { saveKey } from '../../src/core/key-store.js';
+import { writeState } from '../../src/core/state-manager.js';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+async function setupTestEnv(): Promise<{ homeDir: string; syncDir: string; publicKey: string }> {
+  const homeDir = path.join(globalThis.TEST_DIR, `exec-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`);
+  const configDir = path.join(homeDir, '.config', 'ctx-sync');
+  const syncDir = path.join(homeDir, '.context-sync');
+  fs.mkdirSync(configDir, { recursive: true });
+  fs.mkdirSync(path.join(syncDir, '.git'), { recursive: true });
+
+  const { publicKey, privateKey } = await generateKey();
+  saveKey(configDir, privateKey);
+  process.env['CTX_SYNC_HOME'] = homeDir;
+
+  await writeState(
+    syncDir,
+    {
+      machine: { id: 'test', hostname: 'test-host' },
+      projects: [
+        {
+          id: 'app-id',
+          name: 'my-app',
+          path: path.join(homeDir, 'my-app'),
+          git: { branch: 'main', remote: '', hasUncommitted: false, stashCount: 0 },
+          lastAccessed: new Date().toISOString(),
+        },
+      ],
+    },
+    publicKey,
+    'state',
+  );
+  await writeState(
+    syncDir,
+    { 'my-app': { API_KEY: { value: 'sk_live_secret', addedAt: new Date().toISOString() } } },
+    publicKey,
+    'env-vars',
+  );
+
+  return { homeDir, syncDir, publicKey };
+}
+
+/** Run node with an inline script */
+function node(script: string): string[] {
+  return [process.execPath, '-e', script];
+}
+
+describe('Exec Command', () => {
+  let originalHome: string | undefined;
+
+  beforeEach(() => {
+    originalHome = process.env['CTX_SYNC_HOME'];
+  });
+
+  afterEach(() => {
+    if (originalHome === undefined) {
+      delete process.env['CTX_SYNC_HOME'];
+    } else {
+      process.env['CTX_SYNC_HOME'] = originalHome;
+    }
+  });
+
+  describe('executeExec()', () => {
+    it('should pass the decrypted env vars to the command without writing a file', async () => {
+      const { homeDir } = await setupTestEnv();
+      const out = path.join(homeDir, 'out.txt');
+
+      const outcome = await executeExec(
+        'my-app',
+        node(`require('fs').writeFileSync(${JSON.stringify(out)}, process.env.API_KEY + ':' + process.env.CTX_SYNC_HOME)`),
+        { cwd: homeDir },
+      );
+
+      expect(outcome).toEqual({ exitCode: 0, signal: null });
+      expect(fs.readFileSync(out, 'utf-8')).toBe(`sk_live_secret:${homeDir}`);
+      expect(fs.readdirSync(homeDir).filter((f) => f.includes('.env'))).toEqual([]);
+    });
+
+    it('should report the command exit code', async () => {
+      await setupTestEnv();
+
+      expect(await executeExec('my-app', node('process.exit(7)'))).toEqual({ exitCode: 7, signal: null });
+    });
+
+    it('should reject an unknown project or a missing command', async () => {
+      await setupTestEnv();
+
+      await expect(executeExec('nope', ['true'])).rejects.toThrow('Project "nope" not found');
+      await expect(executeExec('my-app', [])).rejects.toThrow('No command given');
+    });
+
+    it('should fail clearly when the command does not exist', async () => {
+      await setupTestEnv();
+
+      await expect(executeExec('my-app', ['ctx-sync-no-such-command'])).rejects.toThrow(
+        'Command not found: ctx-sync-no-such-command',
+      );
+    });
+  });
+
+  describe('env-exec', () => {
+    it('should let decrypted values win over the current environment', () => {
+      const env = buildExecEnv({ PATH: '/bin', API_KEY: 'old' }, { API_KEY: { value: 'new', addedAt: '' } });
+
+      expect(env).toEqual({ PATH: '/bin', API_KEY: 'new' });
+    });
+
+    it('should forward signals to the command', async () => {
+      const listeners = process.listenerCount('SIGTERM');
+      const running = runWithEnv(process.execPath, ['-e', 'setTimeout(() => {}, 10000)'], process.env);
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      process.emit('SIGTERM');
+
+      const outcome = await running;
+      expect(outcome).toEqual({ exitCode: null, signal: 'SIGTERM' });
+      expect(exitCodeOf(outcome)).toBe(143);
+      expect(process.listenerCount('SIGTERM')).toBe(listeners);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execFileSync } from 'node:child_process';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const { parseWorktreeList, detectWorktrees, remapWorktreePath, restoreWorktrees } = await import(
+  '../../src/core/git-worktrees.js'
+);
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, env: process.env, encoding: 'utf-8', stdio: 'pipe' });
+}
+
+/** Create a test home with a repo that has `main` and `feature` branches */
+function setupRepo(): { home: string; repo: string } {
+  const home = path.join(
+    globalThis.TEST_DIR,
+    `worktrees-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  );
+  const repo = path.join(home, 'code', 'app');
+  fs.mkdirSync(repo, { recursive: true });
+  process.env['CTX_SYNC_HOME'] = home;
+
+  git(repo, 'init', '-q', '-b', 'main');
+  fs.writeFileSync(path.join(repo, 'README.md'), '# app\n');
+  git(repo, 'add', 'README.md');
+  git(repo, 'commit', '-q', '-m', 'init');
+  git(repo, 'branch', 'feature');
+  git(repo, 'branch', 'hotfix');
+  return { home, repo };
+}
+
+/** Clone `repo` to a second "machine" under the same test home */
+function cloneRepo(home: string, repo: string): string {
+  const clone = path.join(home, 'other-machine', 'app');
+  fs.mkdirSync(path.dirname(clone), { recursive: true });
+  git(home, 'clone', '-q', repo, clone);
+  return clone;
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────
+
+describe('Git Worktrees', () => {
+  describe('parseWorktreeList()', () => {
+    it('should return linked worktrees with their branches', () => {
+      const output = [
+        'worktree /home/u/code/app',
+        'HEAD 1111111111111111111111111111111111111111',
+        'branch refs/heads/main',
+        '',
+        'worktree /home/u/code/app-feature',
+        'HEAD 2222222222222222222222222222222222222222',
+        'branch refs/heads/feature/login',
+        'locked',
+        '',
+        'worktree /home/u/code/app-bisect',
+        'HEAD 3333333333333333333333333333333333333333',
+        'detached',
+        '',
+      ].join('\n');
+
+      expect(parseWorktreeList(output)).toEqual([
+        { path: '/home/u/code/app-feature', branch: 'feature/login' },
+      ]);
+    });
+
+    it('should return nothing for a repository without linked worktrees', () => {
+      expect(parseWorktreeList('worktree /home/u/code/app\nHEAD 1111\nbranch refs/heads/main\n')).toEqual([]);
+      expect(parseWorktreeList('')).toEqual([]);
+    });
+  });
+
+  describe('remapWorktreePath()', () => {
+    it('should keep sibling and nested worktrees relative to the project', () => {
+      expect(remapWorktreePath('/Users/a/code/app-feature', '/Users/a/code/app', '/home/b/src/app')).toBe(
+        '/home/b/src/app-feature',
+      );
+      expect(remapWorktreePath('/Users/a/code/app/.trees/fix', '/Users/a/code/app', '/home/b/src/app')).toBe(
+        '/home/b/src/app/.trees/fix',
+      );
+    });
+  });
+
+  describe('detectWorktrees()', () => {
+    it('should list worktrees added with git worktree add', async () => {
+      const { repo } = setupRepo();
+      const worktreePath = path.join(path.dirname(repo), 'app-feature');
+      git(repo, 'worktree', 'add', '-q', worktreePath, 'feature');
+
+      expect(await detectWorktrees(repo)).toEqual([{ path: worktreePath, branch: 'feature' }]);
+    });
+
+    it('should return an empty list outside a repository', async () => {
+      const dir = path.join(globalThis.TEST_DIR, `not-a-repo-${Date.now()}`);
+      fs.mkdirSync(dir, { recursive: true });
+
+      expect(await detectWorktrees(dir)).toEqual([]);
+    });
+  });
+
+  describe('restoreWorktrees()', () => {
+    it('should recreate worktrees from remote branches next to the local path', async () => {
+      const { home, repo } = setupRepo();
+      const clone = cloneRepo(home, repo);
+
+      const result = await restoreWorktrees(clone, repo, [
+        { path: path.join(path.dirname(repo), 'app-feature'), branch: 'feature' },
+        { path: path.join(repo, '.trees', 'hotfix'), branch: 'hotfix' },
+      ]);
+
+      const featurePath = path.join(path.dirname(clone), 'app-feature');
+      const hotfixPath = path.join(clone, '.trees', 'hotfix');
+      expect(result.failed).toEqual([]);
+      expect(result.created).toEqual([
+        { path: featurePath, branch: 'feature' },
+        { path: hotfixPath, branch: 'hotfix' },
+      ]);
+      expect(git(featurePath, 'branch', '--show-current').trim()).toBe('feature');
+      expect(await detectWorktrees(clone)).toHaveLength(2);
+    });
+
+    it('should skip worktrees that already exist or whose branch is checked out', async () => {
+      const { home, repo } = setupRepo();
+      const clone = cloneRepo(home, repo);
+      fs.mkdirSync(path.join(path.dirname(clone), 'app-feature'));
+
+      const result = await restoreWorktrees(clone, repo, [
+        { path: path.join(path.dirname(repo), 'app-feature'), branch: 'feature' },
+        { path: path.join(path.dirname(repo), 'app-main'), branch: 'main' },
+      ]);
+
+      expect(result).toEqual({ created: [], failed: [] });
+    });
+
+    it('should report branches that do not exist', async () => {
+      const { home, repo } = setupRepo();
+      const clone = cloneRepo(home, repo);
+
+      const result = await restoreWorktrees(clone, repo, [
+        { path: path.join(path.dirname(repo), 'app-gone'), branch: 'gone' },
+      ]);
+
+      expect(result.created).toEqual([]);
+      expect(result.failed).toEqual([
+        expect.objectContaining({ path: path.join(path.dirname(clone), 'app-gone'), branch: 'gone' }),
+      ]);
+    });
+
+    it('should refuse worktree paths outside the home directory', async () => {
+      const { home, repo } = setupRepo();
+      const clone = cloneRepo(home, repo);
+
+      const result = await restoreWorktrees(clone, repo, [
+        { path: '/tmp/elsewhere/app-feature', branch: 'feature' },
+        { path: path.join(path.dirname(repo), 'app-opt'), branch: '--orphan' },
+      ]);
+
+      expect(result.created).toEqual([]);
+      expect(result.failed.map((f) => f.error)).toEqual([
+        expect.stringContaining('Path must be within home directory'),
+        'Invalid branch name: "--orphan"',
+      ]);
+      expect(fs.existsSync('/tmp/elsewhere/app-feature')).toBe(false);
+    });
+
+    it('should do nothing when the local path is not a repository', async () => {
+      const dir = path.join(globalThis.TEST_DIR, `no-repo-${Date.now()}`);
+      fs.mkdirSync(dir, { recursive: true });
+
+      const result = await restoreWorktrees(dir, '/Users/a/code/app', [
+        { path: '/Users/a/code/app-feature', branch: 'feature' },
+      ]);
+
+      expect(result).toEqual({ created: [], failed: [] });
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { jest } from '@jest/globals';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+// --- Mock child_process with a fake `code` ---
+const fakeCode = {
+  installed: true,
+  extensions: [] as string[],
+};
+
+const mockExecFileSync = jest.fn((file: string, args: string[]) => {
+  if (file !== 'code' || !fakeCode.installed) {
+    throw new Error(`spawnSync ${file} ENOENT`);
+  }
+  return args[0] === '--list-extensions' ? fakeCode.extensions.join('\n') : '1.87.0\n';
+});
+const mockExecSync = jest.fn();
+
+jest.unstable_mockModule('node:child_process', () => ({
+  execFileSync: mockExecFileSync,
+  execSync: mockExecSync,
+  spawn: jest.fn(),
+}));
+
+const { generateKey } = await import('../../src/core/encryption.js');
+const { writeState } = await import('../../src/core/state-manager.js');
+const { loadIdeState, saveIdeState } = await import('../../src/core/ide-state.js');
+const { formatCommandsForDisplay } = await import('../../src/core/command-validator.js');
+const { collectRestoreCommands, executeRestore } = await import('../../src/commands/restore.js');
+const { executeIdeCapture } = await import('../../src/commands/ide.js');
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+async function setupTestEnv() {
+  const testHome = path.join(
+    TEST_DIR,
+    `ide-cmd-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  );
+  const configDir = path.join(testHome, '.config', 'ctx-sync');
+  const syncDir = path.join(testHome, '.context-sync');
+  const projectPath = path.join(testHome, 'projects', 'my-app');
+
+  fs.mkdirSync(configDir, { recursive: true });
+  fs.mkdirSync(path.join(syncDir, '.git'), { recursive: true });
+  fs.mkdirSync(path.join(projectPath, 'src'), { recursive: true });
+
+  process.env['CTX_SYNC_HOME'] = testHome;
+
+  const { publicKey, privateKey } = await generateKey();
+  fs.writeFileSync(path.join(configDir, 'key.txt'), privateKey, {
+    mode: 0o600,
+  });
+
+  await writeState(
+    syncDir,
+    {
+      machine: { id: 'test', hostname: 'test-host' },
+      projects: [
+        {
+          id: 'app-id',
+          name: 'my-app',
+          path: projectPath,
+          git: { branch: 'main', remote: '', hasUncommitted: false, stashCount: 0 },
+          lastAccessed: new Date().toISOString(),
+        },
+      ],
+    },
+    publicKey,
+    'state',
+  );
+
+  return { testHome, syncDir, projectPath, publicKey, privateKey };
+}
+
+async function setupWithIdeState() {
+  const env = await setupTestEnv();
+  fs.writeFileSync(path.join(env.projectPath, 'src', 'index.ts'), '');
+  await saveIdeState(
+    env.syncDir,
+    'my-app',
+    {
+      projectPath: '/Users/other/code/my-app',
+      capturedAt: new Date().toISOString(),
+      vscode: {
+        extensions: ['dbaeumer.vscode-eslint'],
+        settings: { 'editor.formatOnSave': true },
+        editors: [{ file: '/Users/other/code/my-app/src/index.ts', line: 42, column: 7 }],
+      },
+    },
+    env.publicKey,
+    env.privateKey,
+  );
+  return env;
+}
+
+beforeEach(() => {
+  Object.assign(fakeCode, { installed: true, extensions: [] });
+  mockExecSync.mockClear();
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────
+
+describe('IDE Command', () => {
+  describe('executeIdeCapture()', () => {
+    it('should save the project\'s VS Code state', async () => {
+      const { syncDir, projectPath, privateKey } = await setupTestEnv();
+      fakeCode.extensions = ['dbaeumer.vscode-eslint', 'github.copilot'];
+
+      const result = await executeIdeCapture('my-app', { noSync: true });
+
+      expect(result.project).toBe('my-app');
+      expect(result.ideState.projectPath).toBe(projectPath);
+      expect(result.ideState.vscode.extensions).toEqual(['dbaeumer.vscode-eslint', 'github.copilot']);
+
+      const state = await loadIdeState(syncDir, privateKey);
+      expect(state['my-app']!.vscode.extensions).toHaveLength(2);
+    });
+
+    it('should fail when no VS Code state is found', async () => {
+      await setupTestEnv();
+      fakeCode.installed = false;
+
+      await expect(executeIdeCapture('my-app', { noSync: true })).rejects.toThrow(
+        'No VS Code state found for "my-app"',
+      );
+    });
+
+    it('should reject an untracked project', async () => {
+      await setupTestEnv();
+
+      await expect(executeIdeCapture('nope', { noSync: true })).rejects.toThrow(
+        'Project "nope" not found',
+      );
+    });
+  });
+
+  describe('collectRestoreCommands() with VS Code state', () => {
+    it('should offer extensions, settings and the last file remapped to the local path', async () => {
+      const { syncDir, privateKey, projectPath } = await setupWithIdeState();
+
+      const commands = await collectRestoreCommands('my-app', syncDir, privateKey, projectPath);
+
+      expect(commands.map((c) => c.command)).toEqual([
+        'code --install-extension dbaeumer.vscode-eslint',
+        `update ${path.join('.vscode', 'settings.json')}`,
+        `code -g '${path.join(projectPath, 'src', 'index.ts')}:42:7'`,
+      ]);
+      expect(formatCommandsForDisplay(commands)).toContain('editor.formatOnSave = true');
+    });
+
+    it('should only offer settings if VS Code is not installed', async () => {
+      const { syncDir, privateKey, projectPath } = await setupWithIdeState();
+      fakeCode.installed = false;
+
+      const commands = await collectRestoreCommands('my-app', syncDir, privateKey, projectPath);
+
+      expect(commands.map((c) => c.command)).toEqual([`update ${path.join('.vscode', 'settings.json')}`]);
+    });
+  });
+
+  describe('executeRestore() with VS Code state', () => {
+    it('should write approved settings instead of running them', async () => {
+      const { projectPath } = await setupWithIdeState();
+
+      const result = await executeRestore('my-app', {
+        noPull: true,
+        promptFn: () => Promise.resolve('all'),
+      });
+
+      expect(result.failedCommands).toEqual([]);
+      expect(result.executedCommands).toHaveLength(3);
+      expect(
+        JSON.parse(fs.readFileSync(path.join(projectPath, '.vscode', 'settings.json'), 'utf-8')),
+      ).toEqual({ 'editor.formatOnSave': true });
+      expect(mockExecSync.mock.calls.map((call) => call[0] as string)).toEqual([
+        'code --install-extension dbaeumer.vscode-eslint',
+        `code -g '${path.join(projectPath, 'src', 'index.ts')}:42:7'`,
+      ]);
+    });
+  });
+});
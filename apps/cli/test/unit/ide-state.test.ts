@@ -0,0 +1,400 @@
+import { jest } from '@jest/globals';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execFileSync as realExecFileSync, spawn as realSpawn } from 'node:child_process';
+import { pathToFileURL } from 'node:url';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+// --- Mock child_process with fake `code` and `sqlite3` ---
+const fakeTools = {
+  codeInstalled: true,
+  extensions: [] as string[],
+  sqliteRows: null as Array<{ key: string; value: string }> | null,
+};
+
+const mockExecFileSync = jest.fn((file: string, args: string[]) => {
+  if (file === 'code' && fakeTools.codeInstalled) {
+    return args[0] === '--list-extensions' ? fakeTools.extensions.join('\n') + '\n' : '1.87.0\n';
+  }
+  if (file === 'sqlite3' && fakeTools.sqliteRows) {
+    return JSON.stringify(fakeTools.sqliteRows);
+  }
+  throw new Error(`spawnSync ${file} ENOENT`);
+});
+
+jest.unstable_mockModule('node:child_process', () => ({
+  execFileSync: mockExecFileSync,
+  execSync: jest.fn(),
+  // simple-git runs the real git
+  spawn: realSpawn,
+}));
+
+const {
+  parseJsonc,
+  parseEditorMemento,
+  isVSCodeAvailable,
+  listExtensions,
+  readWorkspaceSettings,
+  detectSettingsDelta,
+  readOpenEditors,
+  captureIdeState,
+  loadIdeState,
+  saveIdeState,
+  applyWorkspaceSettings,
+  buildIdeCommands,
+  VSCODE_LABEL,
+} = await import('../../src/core/ide-state.js');
+const { generateKey } = await import('../../src/core/encryption.js');
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+const ORIGINAL_XDG_CONFIG_HOME = process.env['XDG_CONFIG_HOME'];
+
+function setupProject(): { home: string; project: string } {
+  const home = path.join(
+    globalThis.TEST_DIR,
+    `ide-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  );
+  const project = path.join(home, 'code', 'app');
+  fs.mkdirSync(path.join(project, 'src'), { recursive: true });
+  process.env['CTX_SYNC_HOME'] = home;
+  return { home, project };
+}
+
+function writeSettings(project: string, content: string): void {
+  fs.mkdirSync(path.join(project, '.vscode'), { recursive: true });
+  fs.writeFileSync(path.join(project, '.vscode', 'settings.json'), content);
+}
+
+function git(cwd: string, ...args: string[]): void {
+  realExecFileSync('git', args, { cwd, env: process.env, stdio: 'pipe' });
+}
+
+/** Serialized editor layout with one group per entry of `groups` */
+function editorPart(groups: Array<{ id: number; files: string[]; mru?: number[] }>, recent: number[]): string {
+  return JSON.stringify({
+    'editorpart.state': {
+      serializedGrid: {
+        root: {
+          type: 'branch',
+          data: groups.map((group) => ({
+            type: 'leaf',
+            data: {
+              id: group.id,
+              editors: group.files.map((file) => ({
+                id: 'workbench.editors.files.fileEditorInput',
+                value: JSON.stringify({
+                  resourceJSON: { $mid: 1, fsPath: file, path: file, scheme: 'file' },
+                }),
+              })),
+              mru: group.mru ?? group.files.map((_, i) => i),
+            },
+          })),
+        },
+      },
+      activeGroup: recent[0],
+      mostRecentActiveGroups: recent,
+    },
+  });
+}
+
+/** Serialized cursor positions per file and group */
+function viewState(cursors: Array<[string, number, number, number]>): string {
+  return JSON.stringify({
+    textEditorViewState: cursors.map(([file, group, lineNumber, column]) => [
+      pathToFileURL(file).href,
+      { [String(group)]: { cursorState: [{ inSelectionMode: false, position: { lineNumber, column } }] } },
+    ]),
+  });
+}
+
+beforeEach(() => {
+  Object.assign(fakeTools, { codeInstalled: true, extensions: [], sqliteRows: null });
+  delete process.env['XDG_CONFIG_HOME'];
+});
+
+afterAll(() => {
+  if (ORIGINAL_XDG_CONFIG_HOME !== undefined) {
+    process.env['XDG_CONFIG_HOME'] = ORIGINAL_XDG_CONFIG_HOME;
+  }
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────
+
+describe('IDE State', () => {
+  describe('parseJsonc()', () => {
+    it('should ignore comments and trailing commas outside strings', () => {
+      const text = [
+        '{',
+        '  // Format on save',
+        '  "editor.formatOnSave": true, /* block */',
+        '  "url": "https://example.com/a//b",',
+        '  "list": ["a,]", "b",],',
+        '}',
+      ].join('\n');
+
+      expect(parseJsonc(text)).toEqual({
+        'editor.formatOnSave': true,
+        url: 'https://example.com/a//b',
+        list: ['a,]', 'b'],
+      });
+    });
+
+    it('should throw on invalid JSON', () => {
+      expect(() => parseJsonc('{ "a": }')).toThrow();
+    });
+  });
+
+  describe('parseEditorMemento()', () => {
+    it('should list files most recently used first with their cursors', () => {
+      const part = editorPart(
+        [
+          { id: 0, files: ['/u/app/README.md', '/u/app/src/a.ts'], mru: [1, 0] },
+          { id: 1, files: ['/u/app/src/b.ts', '/u/app/src/a.ts'] },
+        ],
+        [1, 0],
+      );
+      const cursors = viewState([
+        ['/u/app/src/b.ts', 1, 42, 7],
+        ['/u/app/src/a.ts', 0, 10, 3],
+      ]);
+
+      expect(parseEditorMemento(part, cursors)).toEqual([
+        { file: '/u/app/src/b.ts', line: 42, column: 7 },
+        { file: '/u/app/src/a.ts', line: 10, column: 3 },
+        { file: '/u/app/README.md', line: 1, column: 1 },
+      ]);
+    });
+
+    it('should skip editors that are not files', () => {
+      const part = JSON.parse(editorPart([{ id: 0, files: ['/u/app/a.ts'] }], [0])) as {
+        'editorpart.state': { serializedGrid: { root: { data: Array<{ data: { editors: unknown[]; mru: number[] } }> } } };
+      };
+      const group = part['editorpart.state'].serializedGrid.root.data[0]!.data;
+      group.editors.unshift({
+        id: 'workbench.editors.untitledEditorInput',
+        value: JSON.stringify({ resourceJSON: { scheme: 'untitled', path: 'Untitled-1' } }),
+      });
+      group.mru = [0, 1];
+
+      expect(parseEditorMemento(JSON.stringify(part))).toEqual([{ file: '/u/app/a.ts', line: 1, column: 1 }]);
+    });
+
+    it('should return nothing for unreadable state', () => {
+      expect(parseEditorMemento('not json')).toEqual([]);
+      expect(parseEditorMemento('{}')).toEqual([]);
+    });
+  });
+
+  describe('VS Code CLI', () => {
+    it('should list valid extension IDs', () => {
+      fakeTools.extensions = ['dbaeumer.vscode-eslint', 'esbenp.prettier-vscode', 'Extensions installed on WSL:'];
+
+      expect(isVSCodeAvailable()).toBe(true);
+      expect(listExtensions()).toEqual(['dbaeumer.vscode-eslint', 'esbenp.prettier-vscode']);
+    });
+
+    it('should degrade gracefully without VS Code', () => {
+      fakeTools.codeInstalled = false;
+
+      expect(isVSCodeAvailable()).toBe(false);
+      expect(listExtensions()).toEqual([]);
+    });
+  });
+
+  describe('detectSettingsDelta()', () => {
+    it('should return every setting when the file is not committed', async () => {
+      const { project } = setupProject();
+      writeSettings(project, '{ "editor.tabSize": 2, // local\n }');
+
+      expect(readWorkspaceSettings(project)).toEqual({ 'editor.tabSize': 2 });
+      expect(await detectSettingsDelta(project)).toEqual({ 'editor.tabSize': 2 });
+    });
+
+    it('should return only settings that differ from the committed file', async () => {
+      const { project } = setupProject();
+      writeSettings(project, JSON.stringify({ 'editor.tabSize': 2, 'files.eol': '\n' }));
+      git(project, 'init', '-q', '-b', 'main');
+      git(project, 'add', '.vscode/settings.json');
+      git(project, '-c', 'user.name=Test', '-c', 'user.email=test@test.com', 'commit', '-q', '-m', 'init');
+      writeSettings(project, JSON.stringify({ 'editor.tabSize': 4, 'files.eol': '\n', 'editor.formatOnSave': true }));
+
+      expect(await detectSettingsDelta(project)).toEqual({ 'editor.tabSize': 4, 'editor.formatOnSave': true });
+    });
+
+    it('should return nothing without a settings file', async () => {
+      const { project } = setupProject();
+
+      expect(await detectSettingsDelta(project)).toEqual({});
+    });
+  });
+
+  describe('readOpenEditors()', () => {
+    function setupStorage(home: string, project: string): string {
+      const storage = path.join(home, '.config', 'Code', 'User', 'workspaceStorage', 'a1b2c3');
+      fs.mkdirSync(storage, { recursive: true });
+      fs.writeFileSync(path.join(storage, 'workspace.json'), JSON.stringify({ folder: pathToFileURL(project).href }));
+      fs.writeFileSync(path.join(storage, 'state.vscdb'), '');
+      return storage;
+    }
+
+    it('should read the editors of the project folder', () => {
+      const { home, project } = setupProject();
+      const storage = setupStorage(home, project);
+      const file = path.join(project, 'src', 'index.ts');
+      fakeTools.sqliteRows = [
+        { key: 'memento/workbench.parts.editor', value: editorPart([{ id: 0, files: [file, '/etc/hosts'] }], [0]) },
+        { key: 'memento/workbench.editors.files.textFileEditor', value: viewState([[file, 0, 12, 5]]) },
+      ];
+
+      expect(readOpenEditors(project)).toEqual([{ file, line: 12, column: 5 }]);
+      expect(mockExecFileSync).toHaveBeenCalledWith(
+        'sqlite3',
+        expect.arrayContaining(['-readonly', path.join(storage, 'state.vscdb')]),
+        expect.anything(),
+      );
+    });
+
+    it('should return nothing without workspace storage or sqlite3', () => {
+      const { home, project } = setupProject();
+      expect(readOpenEditors(project)).toEqual([]);
+
+      setupStorage(home, project);
+      expect(readOpenEditors(project)).toEqual([]);
+    });
+  });
+
+  describe('captureIdeState()', () => {
+    it('should capture extensions and settings', async () => {
+      const { project } = setupProject();
+      fakeTools.extensions = ['dbaeumer.vscode-eslint'];
+      writeSettings(project, '{ "editor.formatOnSave": true }');
+
+      const state = await captureIdeState(project);
+
+      expect(state).toMatchObject({
+        projectPath: project,
+        vscode: {
+          extensions: ['dbaeumer.vscode-eslint'],
+          settings: { 'editor.formatOnSave': true },
+          editors: [],
+        },
+      });
+    });
+
+    it('should return null when nothing is found', async () => {
+      const { project } = setupProject();
+      fakeTools.codeInstalled = false;
+
+      expect(await captureIdeState(project)).toBeNull();
+    });
+  });
+
+  describe('saveIdeState() / loadIdeState()', () => {
+    it('should round-trip per-project state through ide-state.age', async () => {
+      const { home, project } = setupProject();
+      const syncDir = path.join(home, '.context-sync');
+      fs.mkdirSync(syncDir, { recursive: true });
+      const { publicKey, privateKey } = await generateKey();
+      const ideState = {
+        projectPath: project,
+        capturedAt: new Date().toISOString(),
+        vscode: { extensions: ['a.b'], settings: {}, editors: [{ file: path.join(project, 'x.ts'), line: 3, column: 1 }] },
+      };
+
+      await saveIdeState(syncDir, 'app', ideState, publicKey, privateKey);
+
+      const raw = fs.readFileSync(path.join(syncDir, 'ide-state.age'), 'utf-8');
+      expect(raw).toContain('-----BEGIN AGE ENCRYPTED FILE-----');
+      expect(raw).not.toContain('x.ts');
+      expect(await loadIdeState(syncDir, privateKey)).toEqual({ app: ideState });
+    });
+  });
+
+  describe('applyWorkspaceSettings()', () => {
+    it('should merge into an existing settings file', () => {
+      const { project } = setupProject();
+      writeSettings(project, '{\n  // keep\n  "a": 1,\n  "b": 2,\n}');
+      const file = path.join(project, '.vscode', 'settings.json');
+
+      applyWorkspaceSettings(file, { b: 3, c: true });
+
+      expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual({ a: 1, b: 3, c: true });
+    });
+
+    it('should create the file if needed and refuse to overwrite invalid JSON', () => {
+      const { project } = setupProject();
+      const file = path.join(project, '.vscode', 'settings.json');
+
+      applyWorkspaceSettings(file, { a: 1 });
+      expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual({ a: 1 });
+
+      fs.writeFileSync(file, '{ broken');
+      expect(() => applyWorkspaceSettings(file, { a: 2 })).toThrow();
+      expect(fs.readFileSync(file, 'utf-8')).toBe('{ broken');
+    });
+  });
+
+  describe('buildIdeCommands()', () => {
+    function captured(files: Record<string, unknown> = {}) {
+      return {
+        projectPath: '/Users/other/code/app',
+        capturedAt: new Date().toISOString(),
+        vscode: {
+          extensions: ['dbaeumer.vscode-eslint', 'GitHub.copilot', 'bad;rm -rf ~'],
+          settings: { 'editor.formatOnSave': true, 'editor.tabSize': 2 },
+          editors: [{ file: '/Users/other/code/app/src/index.ts', line: 42, column: 7 }],
+          ...files,
+        },
+      };
+    }
+
+    it('should install missing extensions, update settings and reopen the last file', () => {
+      const { project } = setupProject();
+      fs.writeFileSync(path.join(project, 'src', 'index.ts'), '');
+      writeSettings(project, '{ "editor.tabSize": 2 }');
+
+      const commands = buildIdeCommands(captured(), project, ['github.copilot']);
+
+      expect(commands).toEqual([
+        { command: 'code --install-extension dbaeumer.vscode-eslint', label: VSCODE_LABEL },
+        {
+          command: `update ${path.join('.vscode', 'settings.json')}`,
+          label: VSCODE_LABEL,
+          cwd: project,
+          settingsFile: {
+            path: path.join(project, '.vscode', 'settings.json'),
+            settings: { 'editor.formatOnSave': true },
+          },
+        },
+        {
+          command: `code -g '${path.join(project, 'src', 'index.ts')}:42:7'`,
+          label: VSCODE_LABEL,
+          cwd: project,
+        },
+      ]);
+    });
+
+    it('should only offer settings when VS Code is not installed', () => {
+      const { project } = setupProject();
+      fs.writeFileSync(path.join(project, 'src', 'index.ts'), '');
+
+      const commands = buildIdeCommands(captured(), project, null);
+
+      expect(commands.map((c) => c.command)).toEqual([`update ${path.join('.vscode', 'settings.json')}`]);
+    });
+
+    it('should skip what is already in place', () => {
+      const { project } = setupProject();
+      writeSettings(project, '{ "editor.formatOnSave": true, "editor.tabSize": 2 }');
+
+      const commands = buildIdeCommands(captured(), project, ['dbaeumer.vscode-eslint', 'github.copilot']);
+
+      // Settings match, extensions are installed and the last file does not exist here
+      expect(commands).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const { generateKey } = await import('../../src/core/encryption.js');
+const { saveDirectories } = await import('../../src/core/directories-handler.js');
+const { ensureVisitQueue } = await import('../../src/core/shell-integration.js');
+const { executeJump } = await import('../../src/commands/jump.js');
+const { executeShellInit } = await import('../../src/commands/shell-init.js');
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+async function setupTestEnv() {
+  const testHome = path.join(
+    TEST_DIR,
+    `jump-cmd-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  );
+  const configDir = path.join(testHome, '.config', 'ctx-sync');
+  const syncDir = path.join(testHome, '.context-sync');
+
+  fs.mkdirSync(configDir, { recursive: true });
+  fs.mkdirSync(syncDir, { recursive: true });
+
+  process.env['CTX_SYNC_HOME'] = testHome;
+
+  const { publicKey, privateKey } = await generateKey();
+  fs.writeFileSync(path.join(configDir, 'key.txt'), privateKey, {
+    mode: 0o600,
+  });
+
+  return { testHome, configDir, syncDir, publicKey };
+}
+
+/** Create a directory inside the test home */
+function validDir(testHome: string, name: string): string {
+  const dirPath = path.join(testHome, name);
+  fs.mkdirSync(dirPath, { recursive: true });
+  return dirPath;
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────
+
+describe('Jump Command', () => {
+  describe('executeJump()', () => {
+    it('should return the best frecency match', async () => {
+      const { testHome, syncDir, publicKey } = await setupTestEnv();
+      const often = validDir(testHome, 'code/api-server');
+      const recent = validDir(testHome, 'code/api-client');
+      const lastMonth = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+
+      await saveDirectories(
+        syncDir,
+        {
+          recentDirs: [
+            { path: often, frequency: 10, lastVisit: lastMonth },
+            { path: recent, frequency: 2, lastVisit: new Date().toISOString() },
+          ],
+          pinnedDirs: [],
+        },
+        publicKey,
+      );
+
+      const result = await executeJump(['api'], { cwd: testHome });
+
+      expect(result.path).toBe(recent);
+      expect(result.candidates.map((c) => c.path)).toEqual([recent, often]);
+    });
+
+    it('should include visits still waiting in the queue', async () => {
+      const { testHome, configDir } = await setupTestEnv();
+      const dir = validDir(testHome, 'queued-project');
+      fs.appendFileSync(ensureVisitQueue(configDir), `${dir}\n`);
+
+      const result = await executeJump(['queued'], { cwd: testHome });
+
+      expect(result.path).toBe(dir);
+    });
+
+    it('should skip the current directory and directories missing here', async () => {
+      const { testHome, syncDir, publicKey } = await setupTestEnv();
+      const here = validDir(testHome, 'web-here');
+      const now = new Date().toISOString();
+
+      await saveDirectories(
+        syncDir,
+        {
+          recentDirs: [
+            { path: here, frequency: 5, lastVisit: now },
+            { path: path.join(testHome, 'web-other-machine'), frequency: 9, lastVisit: now },
+          ],
+          pinnedDirs: [],
+        },
+        publicKey,
+      );
+
+      await expect(executeJump(['web'], { cwd: here })).rejects.toThrow(
+        'No tracked directory matches "web"',
+      );
+    });
+
+    it('should explain how to start tracking when nothing is tracked', async () => {
+      const { testHome } = await setupTestEnv();
+
+      await expect(executeJump([], { cwd: testHome })).rejects.toThrow('ctx-sync shell-init');
+    });
+  });
+
+  describe('executeShellInit()', () => {
+    it('should create the queue and point the hook at it', async () => {
+      const { configDir } = await setupTestEnv();
+
+      const script = executeShellInit('zsh', { jumpFunction: 'cdj' });
+
+      const queueFile = path.join(configDir, 'dir-visits.queue');
+      expect(fs.existsSync(queueFile)).toBe(true);
+      expect(script).toContain(queueFile);
+      expect(script).toContain('cdj() {');
+    });
+
+    it('should reject an unsupported shell', () => {
+      expect(() => executeShellInit('tcsh')).toThrow('Unsupported shell: "tcsh"');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for the key agent module.
+ *
+ * Verifies:
+ *   - The agent listens on a 0o600 socket and reports its public keys.
+ *   - State decrypts and roster entries sign through the agent, and the
+ *     results match using the key directly.
+ *   - It forgets the key when its TTL runs out or it is locked.
+ *   - Clients get `null` when no agent is running, and stale sockets
+ *     are cleaned up.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const {
+  startKeyAgent,
+  connectAgentKey,
+  agentDecrypt,
+  getAgentStatus,
+  lockKeyAgent,
+  agentSocketPath,
+} = await import('../../src/core/key-agent.js');
+const { generateKey, encrypt, decrypt, decryptState, encryptStateForRecipients } = await import(
+  '../../src/core/encryption.js'
+);
+const { getSigningPublicKey, signWithSigningKey } = await import('../../src/core/roster.js');
+
+function makeConfigDir(): string {
+  const dir = path.join(TEST_DIR, `agent-${Math.random().toString(36).slice(2, 8)}`);
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  return dir;
+}
+
+describe('Key Agent', () => {
+  let configDir: string;
+  let privateKey: string;
+  let publicKey: string;
+
+  beforeAll(async () => {
+    ({ privateKey, publicKey } = await generateKey());
+  });
+
+  beforeEach(() => {
+    configDir = makeConfigDir();
+  });
+
+  afterEach(async () => {
+    await lockKeyAgent(configDir);
+  });
+
+  it('should listen on a 0600 socket and report its public keys', async () => {
+    const agent = await startKeyAgent(configDir, privateKey, 60_000);
+
+    expect(fs.statSync(agentSocketPath(configDir)).mode & 0o777).toBe(0o600);
+    expect(await getAgentStatus(configDir)).toEqual({ publicKey, expiresAt: agent.expiresAt });
+    expect(await connectAgentKey(configDir)).toMatchObject({
+      publicKey,
+      signingKey: getSigningPublicKey(privateKey),
+    });
+  });
+
+  it('should keep the key until stopped when started without a TTL', async () => {
+    const agent = await startKeyAgent(configDir, privateKey);
+
+    expect(agent.expiresAt).toBeNull();
+    expect((await getAgentStatus(configDir))?.expiresAt).toBeNull();
+  });
+
+  it('should decrypt state through the agent', async () => {
+    await startKeyAgent(configDir, privateKey, 60_000);
+    const other = await generateKey();
+    const ciphertext = await encryptStateForRecipients({ secret: 'value' }, [other.publicKey, publicKey]);
+
+    const agentKey = await connectAgentKey(configDir);
+
+    expect(agentKey).not.toBeNull();
+    if (!agentKey) return;
+    expect(await decryptState(ciphertext, agentKey)).toEqual({ secret: 'value' });
+    expect(await agentDecrypt(configDir, ciphertext)).toBe('{"secret":"value"}');
+  });
+
+  it('should fail to decrypt files not encrypted for its key', async () => {
+    await startKeyAgent(configDir, privateKey, 60_000);
+    const other = await generateKey();
+    const ciphertext = await encrypt('hidden', other.publicKey);
+
+    const agentKey = await connectAgentKey(configDir);
+
+    expect(agentKey).not.toBeNull();
+    if (!agentKey) return;
+    await expect(decrypt(ciphertext, agentKey)).rejects.toThrow("no identity matched any of the file's recipients");
+  });
+
+  it('should sign with the roster signing key', async () => {
+    await startKeyAgent(configDir, privateKey, 60_000);
+    const data = Buffer.from('roster entry');
+
+    const agentKey = await connectAgentKey(configDir);
+
+    expect(agentKey).not.toBeNull();
+    if (!agentKey) return;
+    const signature = await signWithSigningKey(agentKey, data);
+    expect(signature.equals(await signWithSigningKey(privateKey, data))).toBe(true);
+    const spki = Buffer.concat([
+      Buffer.from('302a300506032b6570032100', 'hex'),
+      Buffer.from(agentKey.signingKey, 'base64'),
+    ]);
+    const key = crypto.createPublicKey({ key: spki, format: 'der', type: 'spki' });
+    expect(crypto.verify(null, data, key, signature)).toBe(true);
+  });
+
+  it('should forget the key when locked', async () => {
+    const agent = await startKeyAgent(configDir, privateKey, 60_000);
+    const agentKey = await connectAgentKey(configDir);
+
+    expect(await lockKeyAgent(configDir)).toBe(true);
+    await agent.done;
+
+    expect(await connectAgentKey(configDir)).toBeNull();
+    expect(fs.existsSync(agentSocketPath(configDir))).toBe(false);
+    expect(await lockKeyAgent(configDir)).toBe(false);
+    await expect(agentKey?.sign(Buffer.from('late'))).rejects.toThrow('key agent stopped');
+  });
+
+  it('should forget the key when the TTL runs out', async () => {
+    const agent = await startKeyAgent(configDir, privateKey, 50);
+
+    await agent.done;
+
+    expect(await getAgentStatus(configDir)).toBeNull();
+  });
+
+  it('should refuse to start twice', async () => {
+    await startKeyAgent(configDir, privateKey, 60_000);
+
+    await expect(startKeyAgent(configDir, privateKey, 60_000)).rejects.toThrow('already running');
+  });
+
+  it('should return null and remove a stale socket when no agent is listening', async () => {
+    fs.writeFileSync(agentSocketPath(configDir), '');
+
+    expect(await connectAgentKey(configDir)).toBeNull();
+    expect(fs.existsSync(agentSocketPath(configDir))).toBe(false);
+    expect(await getAgentStatus(configDir)).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the key backup module.
+ *
+ * Verifies:
+ *   - Any `threshold` of the shares rebuild the key; fewer do not.
+ *   - Shares are QR-alphanumeric-safe and survive printing.
+ *   - Typos, shares of other keys and mixed backups are caught.
+ */
+
+import { generateKey } from '../../src/core/encryption.js';
+import {
+  splitKey,
+  combineShares,
+  parseShare,
+  splitShareText,
+  formatShare,
+  computeKeyId,
+} from '../../src/core/key-backup.js';
+
+describe('Key Backup', () => {
+  let privateKey: string;
+  let publicKey: string;
+
+  beforeAll(async () => {
+    ({ privateKey, publicKey } = await generateKey());
+  });
+
+  describe('splitKey()', () => {
+    it('should make the requested number of shares', async () => {
+      const shares = await splitKey(privateKey, 5, 3);
+
+      expect(shares).toHaveLength(5);
+      expect(new Set(shares).size).toBe(5);
+      shares.forEach((share, i) => {
+        expect(share).toMatch(/^CTXS1-[0-9A-F]{8}-3-\d+-[A-Z2-7]+-[0-9A-F]{8}$/);
+        expect(parseShare(share)).toMatchObject({ keyId: computeKeyId(publicKey), threshold: 3, index: i + 1 });
+      });
+    });
+
+    it('should not put the key itself in any share', async () => {
+      const shares = await splitKey(privateKey, 3, 2);
+
+      for (const share of shares) {
+        expect(parseShare(share).data.toString('utf-8')).not.toContain('AGE-SECRET-KEY-');
+      }
+    });
+
+    it('should reject invalid counts', async () => {
+      await expect(splitKey(privateKey, 5, 1)).rejects.toThrow('at least 2');
+      await expect(splitKey(privateKey, 2, 3)).rejects.toThrow('between the threshold and 255');
+      await expect(splitKey(privateKey, 256, 3)).rejects.toThrow('between the threshold and 255');
+      await expect(splitKey(privateKey, 5, 2.5)).rejects.toThrow('at least 2');
+    });
+
+    it('should reject something that is not an Age key', async () => {
+      await expect(splitKey('not-a-key', 3, 2)).rejects.toThrow('Invalid private key format');
+    });
+  });
+
+  describe('combineShares()', () => {
+    it('should rebuild the key from any threshold-sized subset', async () => {
+      const shares = await splitKey(privateKey, 5, 3);
+      const subsets = [[0, 1, 2], [0, 2, 4], [4, 3, 1], [1, 2, 3, 4]];
+
+      for (const subset of subsets) {
+        expect(await combineShares(subset.map((i) => shares[i] ?? ''))).toBe(privateKey);
+      }
+    });
+
+    it('should refuse to rebuild from fewer shares than the threshold', async () => {
+      const shares = await splitKey(privateKey, 5, 3);
+
+      await expect(combineShares(shares.slice(0, 2))).rejects.toThrow('Need at least 3 different shares');
+      await expect(combineShares([shares[0] ?? '', shares[0] ?? '', shares[1] ?? ''])).rejects.toThrow(
+        'Need at least 3',
+      );
+    });
+
+    it('should catch a mistyped share by its checksum', async () => {
+      const [first = '', second = ''] = await splitKey(privateKey, 2, 2);
+      const dataStart = first.lastIndexOf('-') - 10;
+      const typo = first.slice(0, dataStart) + (first[dataStart] === 'A' ? 'B' : 'A') + first.slice(dataStart + 1);
+
+      await expect(combineShares([second, typo])).rejects.toThrow('Share 2 has a bad checksum');
+    });
+
+    it('should refuse shares of different keys', async () => {
+      const other = await generateKey();
+      const [mine = ''] = await splitKey(privateKey, 3, 2);
+      const [theirs = ''] = await splitKey(other.privateKey, 3, 2);
+
+      await expect(combineShares([mine, theirs])).rejects.toThrow('different keys');
+    });
+
+    it('should refuse to mix shares from two backups of the same key', async () => {
+      const [a1 = ''] = await splitKey(privateKey, 3, 2);
+      const [, b2 = ''] = await splitKey(privateKey, 3, 2);
+      const [, , c3 = ''] = await splitKey(privateKey, 4, 3);
+
+      await expect(combineShares([a1, b2])).rejects.toThrow('did not rebuild a valid key');
+      await expect(combineShares([a1, c3])).rejects.toThrow('different backups');
+    });
+
+    it('should refuse two different shares with the same number', async () => {
+      const [a1 = ''] = await splitKey(privateKey, 3, 2);
+      const [b1 = ''] = await splitKey(privateKey, 3, 2);
+
+      await expect(combineShares([a1, b1])).rejects.toThrow('Two different shares have number 1');
+    });
+
+    it('should reject text that is not a share', async () => {
+      await expect(combineShares(['hello'])).rejects.toThrow('Share 1 is not a ctx-sync key share');
+      await expect(combineShares([])).rejects.toThrow('No key shares given');
+    });
+  });
+
+  describe('printing', () => {
+    it('should lay shares out in groups of five and read them back', async () => {
+      const shares = await splitKey(privateKey, 3, 2);
+
+      const printed = shares.map(formatShare);
+
+      expect(printed[0]?.split('\n')[0]).toMatch(/^(\S{5} ){7}\S{5}$/);
+      expect(await combineShares([printed[2] ?? '', (printed[0] ?? '').toLowerCase()])).toBe(privateKey);
+    });
+
+    it('should pick shares out of pasted text and share files', async () => {
+      const shares = await splitKey(privateKey, 3, 2);
+      const text = [
+        'ctx-sync key share 1 of 3 (any 2 rebuild the key)',
+        `Public key: ${publicKey}`,
+        formatShare(shares[0] ?? ''),
+        ' ▄▄▄ █▀█ ',
+        `${shares[1] ?? ''} ${shares[2] ?? ''}`,
+      ].join('\n');
+
+      expect(splitShareText(text)).toEqual(shares);
+    });
+  });
+});
@@ -8,26 +8,33 @@ declare global {
 
 // ─── Mocks ────────────────────────────────────────────────────────────────
 
+const mockEnv = jest.fn<(...args: unknown[]) => unknown>();
+
+const mockGitInstance = {
+  add: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+  commit: jest
+    .fn<() => Promise<{ commit: string }>>()
+    .mockResolvedValue({ commit: 'abc123' }),
+  status: jest
+    .fn<() => Promise<{ files: Array<{ path: string }>; staged: string[]; created: string[]; deleted: string[] }>>()
+    .mockResolvedValue({ files: [{ path: 'state.age' }], staged: ['state.age'], created: [], deleted: [] }),
+  checkout: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+  branch: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+  branchLocal: jest
+    .fn<() => Promise<{ all: string[]; current: string }>>()
+    .mockResolvedValue({ all: ['main'], current: 'main' }),
+  raw: jest.fn<() => Promise<string>>().mockResolvedValue(''),
+  env: mockEnv,
+};
+
+mockEnv.mockReturnValue(mockGitInstance);
+
 jest.unstable_mockModule('simple-git', () => ({
-  simpleGit: jest.fn().mockReturnValue({
-    add: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
-    commit: jest
-      .fn<() => Promise<{ commit: string }>>()
-      .mockResolvedValue({ commit: 'abc123' }),
-    status: jest
-      .fn<() => Promise<{ files: Array<{ path: string }> }>>()
-      .mockResolvedValue({ files: [{ path: 'state.age' }] }),
-    checkout: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
-    branch: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
-    branchLocal: jest
-      .fn<() => Promise<{ all: string[]; current: string }>>()
-      .mockResolvedValue({ all: ['main'], current: 'main' }),
-    raw: jest.fn<() => Promise<string>>().mockResolvedValue(''),
-  }),
+  simpleGit: jest.fn().mockReturnValue(mockGitInstance),
   default: jest.fn(),
 }));
 
-const { generateKey } = await import(
+const { generateKey, decryptState, getPublicKey } = await import(
   '../../src/core/encryption.js'
 );
 const { writeState } = await import('../../src/core/state-manager.js');
@@ -36,7 +43,17 @@ const {
   executeKeyVerify,
   executeKeyRotate,
   executeKeyUpdate,
+  executeKeyProtect,
+  executeKeyUnprotect,
+  executeKeyUnlock,
+  executeKeyLock,
+  executeKeyBackup,
 } = await import('../../src/commands/key.js');
+const { combineShares, splitShareText } = await import('../../src/core/key-backup.js');
+const { isKeyWrapped, resolvePrivateKey, unwrapKey } = await import('../../src/core/key-store.js');
+const { startKeyAgent, lockKeyAgent } = await import('../../src/core/key-agent.js');
+const { initRecipients, addRecipient, getRecipients } = await import('../../src/core/recipients.js');
+const { findKeyRotation } = await import('../../src/core/key-rotation.js');
 
 // ─── Helpers ──────────────────────────────────────────────────────────────
 
@@ -112,6 +129,7 @@ describe('Key Command', () => {
       expect(result.keyFilePerms).toBe(0o600);
       expect(result.configDirPerms).toBe(0o700);
       expect(result.issues).toHaveLength(0);
+      expect(result.wrapped).toBe(false);
     });
 
     it('should detect insecure key file permissions', async () => {
@@ -217,6 +235,55 @@ describe('Key Command', () => {
       const newKey = fs.readFileSync(keyPath, 'utf-8').trim();
       expect(newKey).toContain('AGE-SECRET-KEY-');
     });
+
+    it('should keep team members as recipients', async () => {
+      const { publicKey, syncDir, configDir } = await setupTestEnv();
+      const teammate = await generateKey();
+      initRecipients(configDir, publicKey);
+      addRecipient(configDir, 'alice', teammate.publicKey);
+      await writeState(
+        syncDir,
+        { machine: { id: 'test', hostname: 'test' }, projects: [] },
+        publicKey,
+        'state',
+      );
+
+      const result = await executeKeyRotate({ noInteractive: true });
+
+      const ciphertext = fs.readFileSync(path.join(syncDir, 'state.age'), 'utf-8');
+      await expect(decryptState(ciphertext, teammate.privateKey)).resolves.toMatchObject({
+        machine: { id: 'test' },
+      });
+      expect(getRecipients(configDir)?.ownerPublicKey).toBe(result.newPublicKey);
+    });
+
+    it('should record the rotation for the old key\'s other machines', async () => {
+      const { privateKey, syncDir } = await setupTestEnv();
+
+      const result = await executeKeyRotate({ noInteractive: true });
+
+      const record = await findKeyRotation(syncDir, privateKey);
+      expect(record?.newPublicKey).toBe(result.newPublicKey);
+      expect(result.rosterSeq).toBeNull();
+      expect(result.rosterNeedsReAdd).toBe(false);
+    });
+
+    it('should commit without rewriting history unless asked to', async () => {
+      const { publicKey, syncDir } = await setupTestEnv();
+      fs.mkdirSync(path.join(syncDir, '.git'));
+      await writeState(
+        syncDir,
+        { machine: { id: 'test', hostname: 'test' }, projects: [] },
+        publicKey,
+        'state',
+      );
+
+      const kept = await executeKeyRotate({ noInteractive: true });
+      const rewritten = await executeKeyRotate({ noInteractive: true, rewriteHistory: true });
+
+      expect(kept).toMatchObject({ committed: true, gitHistoryRewritten: false });
+      expect(rewritten).toMatchObject({ committed: true, gitHistoryRewritten: true });
+    });
   });
 
   // ── executeKeyUpdate() ────────────────────────────────────────────
@@ -258,4 +325,157 @@ describe('Key Command', () => {
       expect(result.publicKey).toMatch(/^age1[a-z0-9]+$/);
     });
   });
+
+  // ── passphrase protection ─────────────────────────────────────────
+
+  describe('passphrase protection', () => {
+    let configDir: string;
+
+    afterEach(async () => {
+      await lockKeyAgent(configDir);
+    });
+
+    /** Starts the agent in this process instead of a detached one */
+    const inProcessAgent = (args: string[], identity: string) => {
+      void startKeyAgent(configDir, identity, Number(args[args.indexOf('--ttl') + 1]) * 60_000);
+      return { pid: process.pid };
+    };
+
+    it('should wrap the key and report it in key verify', async () => {
+      ({ configDir } = await setupTestEnv());
+
+      await executeKeyProtect({ passphrase: 'correct horse' });
+
+      expect(isKeyWrapped(configDir)).toBe(true);
+      expect(executeKeyVerify()).toMatchObject({ valid: true, wrapped: true });
+      await expect(executeKeyProtect({ passphrase: 'again' })).rejects.toThrow('already passphrase-protected');
+    });
+
+    it('should unwrap the key again', async () => {
+      let privateKey: string;
+      ({ configDir, privateKey } = await setupTestEnv());
+      await executeKeyProtect({ passphrase: 'correct horse' });
+
+      await expect(executeKeyUnprotect({ passphrase: 'wrong' })).rejects.toThrow('Incorrect passphrase');
+      await executeKeyUnprotect({ passphrase: 'correct horse' });
+
+      expect(fs.readFileSync(path.join(configDir, 'key.txt'), 'utf-8')).toBe(privateKey);
+    });
+
+    it('should keep the key unlocked in the agent until locked', async () => {
+      let publicKey: string;
+      ({ configDir, publicKey } = await setupTestEnv());
+      await executeKeyProtect({ passphrase: 'correct horse' });
+
+      const result = await executeKeyUnlock({
+        passphrase: 'correct horse',
+        ttlMinutes: 5,
+        spawnFn: inProcessAgent,
+      });
+
+      expect(result.expiresAt?.getTime()).toBeGreaterThan(Date.now() + 4 * 60_000);
+      expect(await resolvePrivateKey(configDir)).toMatchObject({ publicKey });
+      expect((await executeKeyShow()).publicKey).toMatch(/^age1/);
+
+      expect(await executeKeyLock()).toEqual({ wasUnlocked: true });
+      await expect(resolvePrivateKey(configDir)).rejects.toThrow('passphrase-protected and locked');
+    });
+
+    it('should not unlock with the wrong passphrase', async () => {
+      ({ configDir } = await setupTestEnv());
+      await executeKeyProtect({ passphrase: 'correct horse' });
+
+      await expect(
+        executeKeyUnlock({ passphrase: 'wrong', spawnFn: inProcessAgent }),
+      ).rejects.toThrow('Incorrect passphrase');
+    });
+
+    it('should point at agent start for a key without a passphrase', async () => {
+      ({ configDir } = await setupTestEnv());
+
+      await expect(
+        executeKeyUnlock({ passphrase: 'x', spawnFn: inProcessAgent }),
+      ).rejects.toThrow('ctx-sync agent start');
+    });
+
+    it('should keep a rotated key passphrase-protected', async () => {
+      ({ configDir } = await setupTestEnv());
+      await executeKeyProtect({ passphrase: 'correct horse' });
+      await executeKeyUnlock({ passphrase: 'correct horse', spawnFn: inProcessAgent });
+
+      await expect(executeKeyRotate({ noInteractive: true })).rejects.toThrow(
+        'Enter a passphrase for the new key',
+      );
+      const result = await executeKeyRotate({ noInteractive: true, passphrase: 'battery staple' });
+
+      expect(result.wrapped).toBe(true);
+      expect(isKeyWrapped(configDir)).toBe(true);
+      const newKey = await unwrapKey(configDir, 'battery staple');
+      expect(await getPublicKey(newKey)).toBe(result.newPublicKey);
+    });
+
+    it('should reject a TTL that is not a positive number', async () => {
+      ({ configDir } = await setupTestEnv());
+      await executeKeyProtect({ passphrase: 'x' });
+
+      await expect(
+        executeKeyUnlock({ passphrase: 'x', ttlMinutes: 0, spawnFn: inProcessAgent }),
+      ).rejects.toThrow('TTL must be a positive number');
+    });
+  });
+
+  // ── executeKeyBackup() ────────────────────────────────────────────
+
+  describe('executeKeyBackup()', () => {
+    it('should split the key into shares that rebuild it', async () => {
+      const { privateKey, publicKey } = await setupTestEnv();
+
+      const result = await executeKeyBackup({ shares: 5, threshold: 3 });
+
+      expect(result).toMatchObject({ publicKey, threshold: 3, files: [] });
+      expect(result.shares).toHaveLength(5);
+      expect(result.sheets[1]).toContain('ctx-sync key share 2 of 5 (any 3 rebuild the key)');
+      expect(result.sheets[1]).not.toContain(privateKey);
+      expect(await combineShares([result.shares[4] ?? '', result.shares[0] ?? '', result.shares[2] ?? ''])).toBe(
+        privateKey,
+      );
+    });
+
+    it('should add QR codes and write 0600 share files', async () => {
+      const { testHome, privateKey } = await setupTestEnv();
+      const outputDir = path.join(testHome, 'shares');
+
+      const result = await executeKeyBackup({ shares: 3, threshold: 2, qr: true, outputDir });
+
+      expect(result.files.map((file) => path.basename(file))).toEqual([
+        'ctx-sync-share-1-of-3.txt',
+        'ctx-sync-share-2-of-3.txt',
+        'ctx-sync-share-3-of-3.txt',
+      ]);
+      for (const file of result.files) {
+        expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+      }
+      const sheets = result.files.slice(1).map((file) => fs.readFileSync(file, 'utf-8'));
+      expect(sheets[0]).toContain('█');
+      expect(await combineShares(splitShareText(sheets.join('\n')))).toBe(privateKey);
+    });
+
+    it('should need the passphrase for a protected key', async () => {
+      const { privateKey } = await setupTestEnv();
+      await executeKeyProtect({ passphrase: 'correct horse' });
+
+      await expect(executeKeyBackup({ shares: 3, threshold: 2 })).rejects.toThrow('passphrase-protected');
+      await expect(executeKeyBackup({ shares: 3, threshold: 2, passphrase: 'wrong' })).rejects.toThrow(
+        'Incorrect passphrase',
+      );
+      const result = await executeKeyBackup({ shares: 3, threshold: 2, passphrase: 'correct horse' });
+      expect(await combineShares(result.shares.slice(0, 2))).toBe(privateKey);
+    });
+
+    it('should reject a threshold above the number of shares', async () => {
+      await setupTestEnv();
+
+      await expect(executeKeyBackup({ shares: 2, threshold: 3 })).rejects.toThrow('between the threshold');
+    });
+  });
 });
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the key rotation records module.
+ *
+ * Verifies:
+ *   - A rotation is recorded with the machine it ran on and signed by
+ *     the old key.
+ *   - The old key's machines find the record; current keys do not.
+ *   - Records not signed by the old key are ignored.
+ *   - Two logs merge into one holding each record once, oldest first.
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { generateKey } from '../../src/core/encryption.js';
+import {
+  recordKeyRotation,
+  findKeyRotation,
+  mergeKeyRotations,
+} from '../../src/core/key-rotation.js';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+function makeSyncDir(): string {
+  const dir = path.join(globalThis.TEST_DIR, `key-rotation-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`);
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+describe('Key Rotation Records', () => {
+  let syncDir: string;
+  let oldKey: { publicKey: string; privateKey: string };
+  let newKey: { publicKey: string; privateKey: string };
+
+  beforeEach(async () => {
+    syncDir = makeSyncDir();
+    oldKey = await generateKey();
+    newKey = await generateKey();
+  });
+
+  it('should record the rotation and let the old key find it', async () => {
+    const record = await recordKeyRotation(syncDir, oldKey.privateKey, newKey.publicKey);
+
+    expect(record).toMatchObject({
+      oldPublicKey: oldKey.publicKey,
+      newPublicKey: newKey.publicKey,
+      machine: os.hostname(),
+    });
+    expect(fs.readFileSync(path.join(syncDir, 'key-rotations.jsonl'), 'utf-8')).not.toContain('AGE-SECRET-KEY-');
+    expect(await findKeyRotation(syncDir, oldKey.privateKey)).toEqual(record);
+  });
+
+  it('should return null for a key that was not rotated', async () => {
+    expect(await findKeyRotation(syncDir, oldKey.privateKey)).toBeNull();
+
+    await recordKeyRotation(syncDir, oldKey.privateKey, newKey.publicKey);
+
+    expect(await findKeyRotation(syncDir, newKey.privateKey)).toBeNull();
+  });
+
+  it('should return the latest rotation of the key', async () => {
+    await recordKeyRotation(syncDir, oldKey.privateKey, newKey.publicKey);
+    const other = await generateKey();
+    const latest = await recordKeyRotation(syncDir, oldKey.privateKey, other.publicKey);
+
+    expect(await findKeyRotation(syncDir, oldKey.privateKey)).toEqual(latest);
+  });
+
+  it('should ignore records not signed by the old key', async () => {
+    // Someone else claims the victim's key was rotated
+    const mallory = await generateKey();
+    const forged = await recordKeyRotation(syncDir, mallory.privateKey, newKey.publicKey);
+    fs.writeFileSync(
+      path.join(syncDir, 'key-rotations.jsonl'),
+      JSON.stringify({ ...forged, oldPublicKey: oldKey.publicKey }) + '\nnot json\n',
+    );
+
+    expect(await findKeyRotation(syncDir, oldKey.privateKey)).toBeNull();
+  });
+
+  it('should merge two logs into one holding each record once', async () => {
+    const logPath = path.join(syncDir, 'key-rotations.jsonl');
+    const shared = await recordKeyRotation(syncDir, oldKey.privateKey, newKey.publicKey);
+    const base = fs.readFileSync(logPath, 'utf-8');
+    const other = await generateKey();
+    const local = await recordKeyRotation(syncDir, other.privateKey, oldKey.publicKey);
+    const localLog = fs.readFileSync(logPath, 'utf-8');
+    fs.writeFileSync(logPath, base);
+    const remote = await recordKeyRotation(syncDir, newKey.privateKey, other.publicKey);
+    const remoteLog = fs.readFileSync(logPath, 'utf-8');
+
+    const merged = mergeKeyRotations(localLog, remoteLog + 'not json\n');
+
+    expect(merged.trim().split('\n').map((line) => JSON.parse(line) as unknown)).toEqual([
+      shared,
+      local,
+      remote,
+    ]);
+  });
+});
@@ -3,11 +3,24 @@ import * as path from 'node:path';
 import {
   saveKey,
   loadKey,
+  saveWrappedKey,
+  unwrapKey,
+  isKeyWrapped,
+  resolvePrivateKey,
   verifyPermissions,
   KEY_FILE_PERMS,
   CONFIG_DIR_PERMS,
   KEY_FILE_NAME,
 } from '../../src/core/key-store.js';
+import { startKeyAgent, lockKeyAgent } from '../../src/core/key-agent.js';
+import { generateKey } from '../../src/core/encryption.js';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+/** Low scrypt work factor so the tests stay fast */
+const TEST_WORK_FACTOR = 10;
 
 describe('Key Store Module', () => {
   let configDir: string;
@@ -203,4 +216,79 @@ describe('Key Store Module', () => {
       expect(result.issues.some((i) => i.includes('644'))).toBe(true);
     });
   });
+
+  describe('passphrase-wrapped keys', () => {
+    let key: string;
+    let publicKey: string;
+
+    beforeAll(async () => {
+      ({ privateKey: key, publicKey } = await generateKey());
+    });
+
+    afterEach(async () => {
+      await lockKeyAgent(configDir);
+    });
+
+    it('should wrap the key in the age armored format with 0o600 permissions', async () => {
+      await saveWrappedKey(configDir, key, 'correct horse', TEST_WORK_FACTOR);
+
+      const content = fs.readFileSync(path.join(configDir, KEY_FILE_NAME), 'utf-8');
+      expect(content).toContain('-----BEGIN AGE ENCRYPTED FILE-----');
+      expect(content).not.toContain('AGE-SECRET-KEY-');
+      expect(fs.statSync(path.join(configDir, KEY_FILE_NAME)).mode & 0o777).toBe(KEY_FILE_PERMS);
+      expect(isKeyWrapped(configDir)).toBe(true);
+    });
+
+    it('should unwrap with the right passphrase only', async () => {
+      await saveWrappedKey(configDir, key, 'correct horse', TEST_WORK_FACTOR);
+
+      expect(await unwrapKey(configDir, 'correct horse')).toBe(key);
+      await expect(unwrapKey(configDir, 'wrong')).rejects.toThrow('Incorrect passphrase');
+    });
+
+    it('should reject an empty passphrase', async () => {
+      await expect(saveWrappedKey(configDir, key, '', TEST_WORK_FACTOR)).rejects.toThrow('must not be empty');
+    });
+
+    it('should make loadKey() point at key unlock', async () => {
+      await saveWrappedKey(configDir, key, 'correct horse', TEST_WORK_FACTOR);
+
+      expect(() => loadKey(configDir)).toThrow('ctx-sync key unlock');
+    });
+
+    it('should resolve a plain key without prompting', async () => {
+      saveKey(configDir, key);
+
+      expect(isKeyWrapped(configDir)).toBe(false);
+      expect(await resolvePrivateKey(configDir, { promptFn: () => Promise.reject(new Error('prompted')) })).toBe(key);
+    });
+
+    it('should resolve a wrapped key to the agent without prompting', async () => {
+      await saveWrappedKey(configDir, key, 'correct horse', TEST_WORK_FACTOR);
+      await startKeyAgent(configDir, key, 60_000);
+
+      const resolved = await resolvePrivateKey(configDir, { promptFn: () => Promise.reject(new Error('prompted')) });
+      expect(resolved).toMatchObject({ publicKey });
+    });
+
+    it('should prefer the agent over reading the key file', async () => {
+      saveKey(configDir, key);
+      await startKeyAgent(configDir, key);
+      fs.rmSync(path.join(configDir, KEY_FILE_NAME));
+
+      expect(await resolvePrivateKey(configDir)).toMatchObject({ publicKey });
+    });
+
+    it('should prompt for the passphrase when the agent is not running', async () => {
+      await saveWrappedKey(configDir, key, 'correct horse', TEST_WORK_FACTOR);
+
+      expect(await resolvePrivateKey(configDir, { promptFn: () => Promise.resolve('correct horse') })).toBe(key);
+    });
+
+    it('should fail when locked and there is no terminal to prompt on', async () => {
+      await saveWrappedKey(configDir, key, 'correct horse', TEST_WORK_FACTOR);
+
+      await expect(resolvePrivateKey(configDir)).rejects.toThrow('passphrase-protected and locked');
+    });
+  });
 });
@@ -0,0 +1,227 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Project, StateFile, LegacyStateFile } from '@ctx-sync/shared';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const {
+  getMachineInfo,
+  isLegacyStateFile,
+  normalizeStateFile,
+  getMachineSnapshot,
+  mergeProjects,
+  readMergedProjects,
+  writeProjectRecord,
+  findProject,
+  getLocalView,
+} = await import('../../src/core/machine-state.js');
+
+const { writeState } = await import('../../src/core/state-manager.js');
+const { generateKey } = await import('../../src/core/encryption.js');
+const { DecryptionError } = await import('../../src/utils/errors.js');
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+function makeProject(overrides: Partial<Project> = {}): Project {
+  return {
+    id: 'proj-1',
+    name: 'my-app',
+    path: '/home/user/projects/my-app',
+    git: { branch: 'main', remote: 'origin', hasUncommitted: false, stashCount: 0 },
+    lastAccessed: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const laptop = { id: 'laptop-id', hostname: 'laptop' };
+const desktop = { id: 'desktop-id', hostname: 'desktop' };
+
+// ─── Tests ────────────────────────────────────────────────────────────────
+
+describe('Machine State', () => {
+  describe('getMachineInfo()', () => {
+    it('should use the hostname and a stable 16-char ID', () => {
+      const info = getMachineInfo();
+      expect(info.hostname).toBe(os.hostname());
+      expect(info.id).toMatch(/^[0-9a-f]{16}$/);
+      expect(getMachineInfo().id).toBe(info.id);
+    });
+  });
+
+  describe('normalizeStateFile()', () => {
+    it('should return empty state for null', () => {
+      expect(normalizeStateFile(null)).toEqual({ machines: {} });
+    });
+
+    it('should convert legacy state into a single snapshot', () => {
+      const legacy: LegacyStateFile = {
+        machine: laptop,
+        projects: [
+          makeProject({ lastAccessed: '2025-01-02T00:00:00.000Z' }),
+          makeProject({ name: 'api', lastAccessed: '2025-01-03T00:00:00.000Z' }),
+        ],
+      };
+
+      expect(isLegacyStateFile(legacy)).toBe(true);
+      const state = normalizeStateFile(legacy);
+
+      expect(Object.keys(state.machines)).toEqual(['laptop-id']);
+      expect(state.machines['laptop-id']!.machine).toEqual(laptop);
+      expect(state.machines['laptop-id']!.projects).toHaveLength(2);
+      expect(state.machines['laptop-id']!.updatedAt).toBe('2025-01-03T00:00:00.000Z');
+    });
+
+    it('should pass per-machine state through unchanged', () => {
+      const state: StateFile = {
+        machines: {
+          'laptop-id': { machine: laptop, projects: [makeProject()], updatedAt: 'x' },
+        },
+      };
+      expect(isLegacyStateFile(state)).toBe(false);
+      expect(normalizeStateFile(state)).toEqual(state);
+    });
+  });
+
+  describe('getMachineSnapshot()', () => {
+    it('should create a snapshot for a new machine', () => {
+      const state: StateFile = { machines: {} };
+      const snapshot = getMachineSnapshot(state, laptop);
+
+      expect(snapshot.projects).toEqual([]);
+      expect(state.machines['laptop-id']).toBe(snapshot);
+    });
+
+    it('should leave other machines untouched', () => {
+      const desktopProject = makeProject({ git: { branch: 'feature/x', remote: 'origin', hasUncommitted: true, stashCount: 2 } });
+      const state: StateFile = {
+        machines: {
+          'desktop-id': { machine: desktop, projects: [desktopProject], updatedAt: 'x' },
+        },
+      };
+
+      const snapshot = getMachineSnapshot(state, laptop);
+      snapshot.projects.push(makeProject());
+
+      expect(state.machines['desktop-id']!.projects).toEqual([desktopProject]);
+    });
+
+    it('should refresh the hostname of an existing snapshot', () => {
+      const state: StateFile = {
+        machines: { 'laptop-id': { machine: laptop, projects: [], updatedAt: 'x' } },
+      };
+      const snapshot = getMachineSnapshot(state, { id: 'laptop-id', hostname: 'renamed' });
+      expect(snapshot.machine.hostname).toBe('renamed');
+    });
+  });
+
+  describe('mergeProjects()', () => {
+    const state: StateFile = {
+      machines: {
+        'laptop-id': {
+          machine: laptop,
+          updatedAt: '2025-01-01T00:00:00.000Z',
+          projects: [
+            makeProject({ path: '/laptop/my-app', lastAccessed: '2025-01-01T00:00:00.000Z' }),
+          ],
+        },
+        'desktop-id': {
+          machine: desktop,
+          updatedAt: '2025-01-05T00:00:00.000Z',
+          projects: [
+            makeProject({
+              path: '/desktop/my-app',
+              git: { branch: 'feature/y', remote: 'origin', hasUncommitted: true, stashCount: 1 },
+              lastAccessed: '2025-01-05T00:00:00.000Z',
+            }),
+            makeProject({ id: 'proj-2', name: 'api', path: '/desktop/api' }),
+          ],
+        },
+      },
+    };
+
+    it('should produce one entry per project name', () => {
+      const merged = mergeProjects(state);
+      expect(merged.map((p) => p.name).sort()).toEqual(['api', 'my-app']);
+    });
+
+    it('should use the most recently accessed machine for top-level fields', () => {
+      const app = findProject(mergeProjects(state), 'my-app')!;
+      expect(app.lastMachine).toEqual(desktop);
+      expect(app.path).toBe('/desktop/my-app');
+      expect(app.git.branch).toBe('feature/y');
+    });
+
+    it('should list every machine view, most recent first', () => {
+      const app = findProject(mergeProjects(state), 'my-app')!;
+      expect(app.machines.map((m) => m.machine.hostname)).toEqual(['desktop', 'laptop']);
+      expect(app.machines[1]!.git.branch).toBe('main');
+      expect(app.machines[1]!.path).toBe('/laptop/my-app');
+    });
+
+    it('should find projects by ID', () => {
+      expect(findProject(mergeProjects(state), 'proj-2')?.name).toBe('api');
+      expect(findProject(mergeProjects(state), 'missing')).toBeUndefined();
+    });
+
+    it('should return the view for a given machine', () => {
+      const app = findProject(mergeProjects(state), 'my-app')!;
+      expect(getLocalView(app, laptop)?.path).toBe('/laptop/my-app');
+      expect(getLocalView(app, { id: 'other', hostname: 'other' })).toBeUndefined();
+    });
+  });
+
+  describe('readMergedProjects()', () => {
+    it('should return null when no state file exists', async () => {
+      const syncDir = path.join(TEST_DIR, `machine-state-${Date.now()}`, '.context-sync');
+      fs.mkdirSync(syncDir, { recursive: true });
+      const { privateKey } = await generateKey();
+
+      expect(await readMergedProjects(syncDir, privateKey)).toBeNull();
+    });
+
+    it('should read legacy state written by older versions', async () => {
+      const syncDir = path.join(TEST_DIR, `machine-state-legacy-${Date.now()}`, '.context-sync');
+      fs.mkdirSync(syncDir, { recursive: true });
+      const { publicKey, privateKey } = await generateKey();
+
+      const legacy: LegacyStateFile = { machine: laptop, projects: [makeProject()] };
+      await writeState(syncDir, legacy, publicKey, 'state');
+
+      const projects = await readMergedProjects(syncDir, privateKey);
+      expect(projects).toHaveLength(1);
+      expect(projects![0]!.lastMachine).toEqual(laptop);
+    });
+
+    it('should fall back to the project records a scoped key can read', async () => {
+      const syncDir = path.join(TEST_DIR, `machine-state-scoped-${Date.now()}`, '.context-sync');
+      const [owner, teammate, scoped] = await Promise.all([generateKey(), generateKey(), generateKey()]);
+      const state: StateFile = {
+        machines: {
+          'laptop-id': {
+            machine: laptop,
+            updatedAt: '2025-01-01T00:00:00.000Z',
+            projects: [makeProject(), makeProject({ id: 'proj-2', name: 'api', path: '/laptop/api' })],
+          },
+        },
+      };
+      fs.mkdirSync(path.join(syncDir, 'projects', 'api'), { recursive: true });
+      fs.mkdirSync(path.join(syncDir, 'projects', 'web'), { recursive: true });
+      await writeState(syncDir, state, [owner.publicKey, teammate.publicKey], 'state');
+      await writeProjectRecord(syncDir, state, [owner.publicKey, scoped.publicKey], 'api');
+      await writeProjectRecord(syncDir, state, [owner.publicKey, teammate.publicKey], 'web');
+
+      const projects = await readMergedProjects(syncDir, scoped.privateKey);
+
+      expect(projects?.map((p) => p.name)).toEqual(['api']);
+      expect(projects![0]!.path).toBe('/laptop/api');
+
+      const stranger = await generateKey();
+      await expect(readMergedProjects(syncDir, stranger.privateKey)).rejects.toBeInstanceOf(
+        DecryptionError,
+      );
+    });
+  });
+});
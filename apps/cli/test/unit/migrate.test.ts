@@ -0,0 +1,174 @@
+import { jest } from '@jest/globals';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+// --- Mock simple-git ---
+const mockAdd = jest.fn<(files: string | string[]) => Promise<void>>().mockResolvedValue(undefined);
+const mockCommit = jest.fn<(message: string) => Promise<{ commit: string }>>().mockResolvedValue({ commit: 'abc123' });
+const mockStatus = jest.fn<() => Promise<{ staged: string[]; created: string[]; deleted: string[] }>>().mockResolvedValue({
+  staged: ['state.age'],
+  created: [],
+  deleted: [],
+});
+const mockEnv = jest.fn<(...args: unknown[]) => unknown>();
+
+const mockGitInstance = {
+  add: mockAdd,
+  commit: mockCommit,
+  status: mockStatus,
+  env: mockEnv,
+};
+
+mockEnv.mockReturnValue(mockGitInstance);
+
+const mockSimpleGit = jest.fn().mockReturnValue(mockGitInstance);
+
+jest.unstable_mockModule('simple-git', () => ({
+  simpleGit: mockSimpleGit,
+  default: mockSimpleGit,
+}));
+
+// Import modules under test (after mocks)
+const { executeMigrate } = await import('../../src/commands/migrate.js');
+const { generateKey, encryptState, decryptState } = await import('../../src/core/encryption.js');
+const { initRecipients, addRecipient } = await import('../../src/core/recipients.js');
+const { saveKey } = await import('../../src/core/key-store.js');
+const { readState, writeState, writeStateFile, readManifest, writeManifest } = await import(
+  '../../src/core/state-manager.js'
+);
+
+const legacyState = {
+  machine: { id: 'laptop', hostname: 'laptop.local' },
+  projects: [
+    {
+      id: 'my-app',
+      name: 'my-app',
+      path: '~/projects/my-app',
+      git: { branch: 'main', remote: 'origin', hasUncommitted: false, stashCount: 0 },
+      lastAccessed: '2025-02-10T14:30:00.000Z',
+    },
+  ],
+};
+
+// Helper to set up a sync dir holding a pre-versioning state file
+async function setupTestEnv(): Promise<{ syncDir: string; privateKey: string; publicKey: string }> {
+  const homeDir = path.join(globalThis.TEST_DIR, `migrate-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`);
+  const configDir = path.join(homeDir, '.config', 'ctx-sync');
+  const syncDir = path.join(homeDir, '.context-sync');
+
+  fs.mkdirSync(configDir, { recursive: true });
+  fs.mkdirSync(path.join(syncDir, '.git'), { recursive: true });
+
+  const { publicKey, privateKey } = await generateKey();
+  saveKey(configDir, privateKey);
+  process.env['CTX_SYNC_HOME'] = homeDir;
+
+  // Written by an older CLI: no manifest entry, single-machine layout
+  fs.writeFileSync(path.join(syncDir, 'state.age'), await encryptState(legacyState, publicKey));
+
+  return { syncDir, privateKey, publicKey };
+}
+
+describe('Migrate Command', () => {
+  let originalHome: string | undefined;
+
+  beforeEach(() => {
+    originalHome = process.env['CTX_SYNC_HOME'];
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    if (originalHome !== undefined) {
+      process.env['CTX_SYNC_HOME'] = originalHome;
+    } else {
+      delete process.env['CTX_SYNC_HOME'];
+    }
+  });
+
+  it('should throw if no sync repo exists', async () => {
+    const homeDir = path.join(globalThis.TEST_DIR, `migrate-nosync-${Date.now()}`);
+    fs.mkdirSync(homeDir, { recursive: true });
+    process.env['CTX_SYNC_HOME'] = homeDir;
+
+    await expect(executeMigrate()).rejects.toThrow('No sync repository found');
+  });
+
+  it('should upgrade old files and record the new version', async () => {
+    const { syncDir, privateKey, publicKey } = await setupTestEnv();
+    await writeState(syncDir, { recentDirs: [], pinnedDirs: [] }, publicKey, 'directories');
+
+    const result = await executeMigrate();
+
+    expect(result.files).toEqual([
+      { file: 'directories.age', from: 1, to: 1, applied: [] },
+      { file: 'state.age', from: 1, to: 2, applied: ['Store one snapshot per machine'] },
+    ]);
+    expect(readManifest(syncDir)!.files['state.age']!.schemaVersion).toBe(2);
+
+    // Readable as version 2 without migrating again
+    const state = await readState(syncDir, privateKey, 'state');
+    expect(state).toHaveProperty(['machines', 'laptop', 'projects', 0, 'name'], 'my-app');
+
+    expect(mockCommit).toHaveBeenCalledWith('migrate: upgrade state to current schema versions');
+    expect(result.committed).toBe(true);
+  });
+
+  it('should re-encrypt project blobs for that project\'s recipients only', async () => {
+    const { syncDir, publicKey } = await setupTestEnv();
+    const configDir = path.join(path.dirname(syncDir), '.config', 'ctx-sync');
+    const bob = await generateKey();
+    const carol = await generateKey();
+    initRecipients(configDir, publicKey);
+    addRecipient(configDir, 'bob', bob.publicKey, 'api');
+    addRecipient(configDir, 'carol', carol.publicKey, 'web');
+
+    const blob = path.join('projects', 'api', 'env-vars.age');
+    const vars = { api: { TOKEN: { value: 'secret', addedAt: '2025-01-01T00:00:00.000Z' } } };
+    await writeStateFile(syncDir, blob, vars, [publicKey, bob.publicKey], 'env-vars');
+
+    const result = await executeMigrate();
+
+    expect(result.files.map((f) => f.file)).toEqual(['state.age', blob]);
+    const raw = fs.readFileSync(path.join(syncDir, blob), 'utf-8');
+    await expect(decryptState(raw, bob.privateKey)).resolves.toEqual(vars);
+    await expect(decryptState(raw, carol.privateKey)).rejects.toThrow();
+    expect(mockAdd).toHaveBeenCalledWith(['state.age', blob, 'manifest.json']);
+  });
+
+  it('should not write anything in dry-run mode', async () => {
+    const { syncDir } = await setupTestEnv();
+    const before = fs.readFileSync(path.join(syncDir, 'state.age'), 'utf-8');
+
+    const result = await executeMigrate({ dryRun: true });
+
+    expect(result.files).toHaveLength(1);
+    expect(fs.readFileSync(path.join(syncDir, 'state.age'), 'utf-8')).toBe(before);
+    expect(readManifest(syncDir)).toBeNull();
+    expect(mockCommit).not.toHaveBeenCalled();
+  });
+
+  it('should skip the commit with --no-sync', async () => {
+    await setupTestEnv();
+
+    const result = await executeMigrate({ noSync: true });
+
+    expect(result.committed).toBe(false);
+    expect(mockCommit).not.toHaveBeenCalled();
+  });
+
+  it('should refuse files from a newer CLI without touching the others', async () => {
+    const { syncDir, publicKey } = await setupTestEnv();
+    await writeState(syncDir, { services: [] }, publicKey, 'services');
+    const manifest = readManifest(syncDir)!;
+    manifest.files['services.age']!.schemaVersion = 99;
+    writeManifest(syncDir, manifest);
+    const before = fs.readFileSync(path.join(syncDir, 'state.age'), 'utf-8');
+
+    await expect(executeMigrate()).rejects.toThrow('services.age uses schema version 99');
+    expect(fs.readFileSync(path.join(syncDir, 'state.age'), 'utf-8')).toBe(before);
+  });
+});
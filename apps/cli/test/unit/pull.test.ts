@@ -40,6 +40,10 @@ const mockStatus = jest.fn<() => Promise<MockStatusResult>>().mockResolvedValue(
   isClean: () => true,
 });
 const mockGetRemotes = jest.fn<() => Promise<MockRemoteEntry[]>>().mockResolvedValue([]);
+const mockLog = jest.fn<() => Promise<{ all: { hash: string; date: string; message: string }[] }>>().mockResolvedValue({
+  all: [],
+});
+const mockShow = jest.fn<(args: string[]) => Promise<string>>().mockResolvedValue('');
 
 const mockInit = jest.fn<() => Promise<void>>().mockResolvedValue(undefined);
 const mockAddRemote = jest.fn<(name: string, url: string) => Promise<void>>().mockResolvedValue(undefined);
@@ -55,6 +59,8 @@ const mockGitInstance = {
   checkout: mockCheckout,
   status: mockStatus,
   getRemotes: mockGetRemotes,
+  log: mockLog,
+  show: mockShow,
   addRemote: mockAddRemote,
   remote: mockRemote,
   env: mockEnv,
@@ -94,11 +100,28 @@ let executePull: (options?: { noInteractive?: boolean }) => Promise<{
   conflictFiles: string[];
   stateFileCount: number;
   hasRemote: boolean;
+  rosterChanges: { added: string[]; removed: string[] } | null;
+  rosterError: string | null;
+  keyRotation: { machine: string; newPublicKey: string } | null;
+  unreadable: Array<{ error: { file: string; reason: string }; rollbackTo: { hash: string } | null }>;
 }>;
+let rollbackUnreadable: (file: { error: { file: string }; rollbackTo: { hash: string } | null }) => Promise<
+  string | null
+>;
+
+const { generateKey, encryptState, encryptStateForRecipients, decryptState } = await import(
+  '../../src/core/encryption.js'
+);
+const { initRecipients, addRecipient, getRecipients } = await import('../../src/core/recipients.js');
+const { ensureRoster, appendRosterEntry, pinClonedRoster } = await import(
+  '../../src/core/roster.js'
+);
+const { recordKeyRotation } = await import('../../src/core/key-rotation.js');
 
 beforeAll(async () => {
   const mod = await import('../../src/commands/pull.js');
   executePull = mod.executePull;
+  rollbackUnreadable = mod.rollbackUnreadable as typeof rollbackUnreadable;
 });
 
 describe('Pull Command', () => {
@@ -203,4 +226,160 @@ describe('Pull Command', () => {
 
     expect(result.stateFileCount).toBe(3);
   });
+
+  describe('key rotation', () => {
+    const configDir = () => path.join(globalThis.TEST_DIR, '.config', 'ctx-sync');
+
+    afterEach(() => {
+      fs.rmSync(path.join(syncDir, 'key-rotations.jsonl'), { force: true });
+      fs.rmSync(configDir(), { recursive: true, force: true });
+    });
+
+    it('should report that this machine\'s key was rotated elsewhere', async () => {
+      const local = await generateKey();
+      fs.mkdirSync(configDir(), { recursive: true });
+      fs.writeFileSync(path.join(configDir(), 'key.txt'), local.privateKey, { mode: 0o600 });
+      const rotated = await generateKey();
+      await recordKeyRotation(syncDir, local.privateKey, rotated.publicKey);
+
+      const result = await executePull();
+
+      expect(result.keyRotation?.newPublicKey).toBe(rotated.publicKey);
+    });
+
+    it('should report nothing once the key is updated', async () => {
+      const local = await generateKey();
+      const rotated = await generateKey();
+      await recordKeyRotation(syncDir, local.privateKey, rotated.publicKey);
+      fs.mkdirSync(configDir(), { recursive: true });
+      fs.writeFileSync(path.join(configDir(), 'key.txt'), rotated.privateKey, { mode: 0o600 });
+
+      const result = await executePull();
+
+      expect(result.keyRotation).toBeNull();
+    });
+  });
+
+  describe('unreadable state', () => {
+    const configDir = () => path.join(globalThis.TEST_DIR, '.config', 'ctx-sync');
+
+    afterEach(() => {
+      fs.rmSync(path.join(syncDir, 'env-vars.age'), { force: true });
+      fs.rmSync(configDir(), { recursive: true, force: true });
+    });
+
+    it('should classify files this key cannot decrypt and find a version to roll back to', async () => {
+      mockGetRemotes.mockResolvedValue([
+        { name: 'origin', refs: { fetch: 'git@github.com:user/repo.git', push: 'git@github.com:user/repo.git' } },
+      ]);
+      const local = await generateKey();
+      fs.mkdirSync(configDir(), { recursive: true });
+      fs.writeFileSync(path.join(configDir(), 'key.txt'), local.privateKey, { mode: 0o600 });
+      const alice = await generateKey();
+      const bob = await generateKey();
+      const current = await encryptStateForRecipients({}, [alice.publicKey, bob.publicKey]);
+      fs.writeFileSync(path.join(syncDir, 'env-vars.age'), current);
+      mockLog.mockResolvedValue({
+        all: [
+          { hash: 'bbbbbbbbbb', date: '2026-10-02T00:00:00Z', message: 'sync' },
+          { hash: 'aaaaaaaaaa', date: '2026-10-01T00:00:00Z', message: 'sync' },
+        ],
+      });
+      const vars = { 'my-app': { NODE_ENV: { value: 'production', addedAt: '2026-10-01T00:00:00Z' } } };
+      const readable = await encryptState(vars, local.publicKey);
+      mockShow.mockImplementation(([spec]) =>
+        Promise.resolve(
+          spec === 'aaaaaaaaaa:env-vars.age' ? readable : spec?.endsWith(':manifest.json') ? '' : current,
+        ),
+      );
+
+      const result = await executePull();
+
+      expect(result.unreadable).toHaveLength(1);
+      expect(result.unreadable[0]?.error).toMatchObject({ file: 'env-vars.age', reason: 'not-a-recipient' });
+      expect(result.unreadable[0]?.rollbackTo?.hash).toBe('aaaaaaaaaa');
+
+      initRecipients(configDir(), local.publicKey);
+      addRecipient(configDir(), 'alice', alice.publicKey);
+      await rollbackUnreadable(result.unreadable[0] ?? { error: { file: '' }, rollbackTo: null });
+
+      // The old version is encrypted again for the current recipients
+      const restored = fs.readFileSync(path.join(syncDir, 'env-vars.age'), 'utf-8');
+      expect(await decryptState(restored, alice.privateKey)).toEqual(vars);
+      expect(await decryptState(restored, local.privateKey)).toEqual(vars);
+      await expect(decryptState(restored, bob.privateKey)).rejects.toThrow();
+      expect(mockAdd).toHaveBeenCalledWith(['env-vars.age', 'manifest.json']);
+    });
+
+    it('should skip the check when the key is passphrase-protected and locked', async () => {
+      mockGetRemotes.mockResolvedValue([
+        { name: 'origin', refs: { fetch: 'git@github.com:user/repo.git', push: 'git@github.com:user/repo.git' } },
+      ]);
+      fs.mkdirSync(configDir(), { recursive: true });
+      fs.writeFileSync(path.join(configDir(), 'key.txt'), '-----BEGIN AGE ENCRYPTED FILE-----\n', { mode: 0o600 });
+      fs.writeFileSync(path.join(syncDir, 'env-vars.age'), 'garbage');
+
+      const result = await executePull();
+
+      expect(result.unreadable).toEqual([]);
+    });
+  });
+
+  describe('team roster', () => {
+    const configDir = () => path.join(globalThis.TEST_DIR, '.config', 'ctx-sync');
+
+    /** Alice starts a roster elsewhere and adds this machine's key */
+    async function pullRosterAddingThisMachine() {
+      mockGetRemotes.mockResolvedValue([
+        { name: 'origin', refs: { fetch: 'git@github.com:user/repo.git', push: 'git@github.com:user/repo.git' } },
+      ]);
+      const local = await generateKey();
+      fs.mkdirSync(configDir(), { recursive: true });
+      fs.writeFileSync(path.join(configDir(), 'key.txt'), local.privateKey, { mode: 0o600 });
+      initRecipients(configDir(), local.publicKey);
+
+      const alice = await generateKey();
+      const aliceConfig = path.join(globalThis.TEST_DIR, 'alice-config');
+      fs.mkdirSync(aliceConfig, { recursive: true });
+      initRecipients(aliceConfig, alice.publicKey);
+      await ensureRoster(syncDir, aliceConfig, alice.privateKey);
+      // This machine cloned the repo after Alice started the roster
+      pinClonedRoster(syncDir, configDir(), local.publicKey);
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', {
+        name: 'me',
+        publicKey: local.publicKey,
+        addedAt: new Date().toISOString(),
+        fingerprint: 'FP',
+      });
+      return alice;
+    }
+
+    afterEach(() => {
+      fs.rmSync(path.join(syncDir, 'roster.jsonl'), { force: true });
+      fs.rmSync(configDir(), { recursive: true, force: true });
+      fs.rmSync(path.join(globalThis.TEST_DIR, 'alice-config'), { recursive: true, force: true });
+    });
+
+    it('should make members from a verified roster recipients', async () => {
+      const alice = await pullRosterAddingThisMachine();
+
+      const result = await executePull();
+
+      expect(result.rosterError).toBeNull();
+      expect(result.rosterChanges?.added).toHaveLength(1);
+      expect(getRecipients(configDir())?.members.map((m) => m.publicKey)).toEqual([alice.publicKey]);
+    });
+
+    it('should report a roster that fails verification and change nothing', async () => {
+      await pullRosterAddingThisMachine();
+      const rosterPath = path.join(syncDir, 'roster.jsonl');
+      fs.writeFileSync(rosterPath, fs.readFileSync(rosterPath, 'utf-8').replace('"me"', '"mallory"'));
+
+      const result = await executePull();
+
+      expect(result.rosterError).toContain('Team roster failed verification at entry 1');
+      expect(result.rosterChanges).toBeNull();
+      expect(getRecipients(configDir())?.members).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,252 @@
+/**
+ * Unit tests for the QR code encoder.
+ *
+ * The encoder is checked against an independent reader written from
+ * the QR specification tables (alignment positions and block layout
+ * for level M): it reads the format and version information, unmasks
+ * and de-interleaves the codewords, checks every Reed-Solomon block
+ * and decodes the payload back to the input text.
+ */
+
+import { encodeQr, renderQr } from '../../src/core/qr-code.js';
+
+// ─── Reference reader ─────────────────────────────────────────────────────
+
+/** Alignment pattern centres, versions 1-10 (ISO/IEC 18004 Annex E) */
+const ALIGNMENT: Record<number, number[]> = {
+  1: [], 2: [6, 18], 3: [6, 22], 4: [6, 26], 5: [6, 30], 6: [6, 34],
+  7: [6, 22, 38], 8: [6, 24, 42], 9: [6, 26, 46], 10: [6, 28, 50],
+};
+
+/** Level M block layout, versions 1-10: ECC per block and data lengths */
+const BLOCKS_M: Record<number, { ecc: number; data: number[] }> = {
+  1: { ecc: 10, data: [16] },
+  2: { ecc: 16, data: [28] },
+  3: { ecc: 26, data: [44] },
+  4: { ecc: 18, data: [32, 32] },
+  5: { ecc: 24, data: [43, 43] },
+  6: { ecc: 16, data: [27, 27, 27, 27] },
+  7: { ecc: 18, data: [31, 31, 31, 31] },
+  8: { ecc: 22, data: [38, 38, 39, 39] },
+  9: { ecc: 22, data: [36, 36, 36, 37, 37] },
+  10: { ecc: 26, data: [43, 43, 43, 43, 44] },
+};
+
+const ALNUM = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+function gfMul(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+/** BCH remainder, used to check format and version information */
+function bchRemainder(value: number, bits: number, generator: number, degree: number): number {
+  let rem = value << degree;
+  for (let i = bits + degree - 1; i >= degree; i--) {
+    if ((rem >>> i) & 1) rem ^= generator << (i - degree);
+  }
+  return rem;
+}
+
+function isFunctionModule(version: number, x: number, y: number): boolean {
+  const size = version * 4 + 17;
+  if ((x < 9 && y < 9) || (x >= size - 8 && y < 9) || (x < 9 && y >= size - 8)) return true;
+  if (x === 6 || y === 6) return true;
+  if (version >= 7 && ((x >= size - 11 && x < size - 8 && y < 6) || (y >= size - 11 && y < size - 8 && x < 6))) {
+    return true;
+  }
+  const centres = ALIGNMENT[version] ?? [];
+  const last = centres.length - 1;
+  return centres.some((cx, i) =>
+    centres.some((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return false;
+      return Math.abs(x - cx) <= 2 && Math.abs(y - cy) <= 2;
+    }),
+  );
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(y / 2) + Math.floor(x / 3)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/** Read a symbol back: level, mask, per-block codewords and the text */
+function readQr(modules: boolean[][]) {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  const at = (x: number, y: number): number => (modules[y]?.[x] ? 1 : 0);
+
+  // Format information (first copy, around the top-left finder)
+  const formatPositions: Array<[number, number]> = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8],
+    [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+  ];
+  let format = 0;
+  formatPositions.forEach(([x, y], i) => {
+    format |= at(x, y) << i;
+  });
+  format ^= 0x5412;
+  const formatData = format >>> 10;
+  expect(format & 0x3ff).toBe(bchRemainder(formatData, 5, 0x537, 10));
+
+  let versionInfo: number | null = null;
+  if (version >= 7) {
+    versionInfo = 0;
+    for (let i = 0; i < 18; i++) {
+      versionInfo |= at(size - 11 + (i % 3), Math.floor(i / 3)) << i;
+    }
+    expect(versionInfo & 0xfff).toBe(bchRemainder(versionInfo >>> 12, 6, 0x1f25, 12));
+  }
+
+  // Unmask and read the codewords in zigzag order
+  const mask = MASKS[formatData & 7] ?? (() => false);
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = ((right + 1) & 2) === 0 ? size - 1 - vert : vert;
+        if (!isFunctionModule(version, x, y)) {
+          bits.push(at(x, y) ^ (mask(x, y) ? 1 : 0));
+        }
+      }
+    }
+  }
+  const codewords: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((b, bit) => (b << 1) | bit, 0));
+  }
+
+  // De-interleave into blocks
+  const layout = BLOCKS_M[version];
+  if (!layout) throw new Error(`No reference layout for version ${String(version)}`);
+  const blocks = layout.data.map(() => [] as number[]);
+  let k = 0;
+  const maxData = Math.max(...layout.data);
+  for (let i = 0; i < maxData; i++) {
+    layout.data.forEach((len, b) => {
+      if (i < len) blocks[b]?.push(codewords[k++] ?? -1);
+    });
+  }
+  for (let i = 0; i < layout.ecc; i++) {
+    blocks.forEach((block) => block.push(codewords[k++] ?? -1));
+  }
+
+  // Every block must be a Reed-Solomon codeword (all syndromes zero)
+  for (const block of blocks) {
+    let alpha = 1;
+    for (let s = 0; s < layout.ecc; s++) {
+      const syndrome = block.reduce((acc, c) => gfMul(acc, alpha) ^ c, 0);
+      expect(syndrome).toBe(0);
+      alpha = gfMul(alpha, 2);
+    }
+  }
+
+  // Decode the single segment
+  const data = blocks.flatMap((block, b) => block.slice(0, layout.data[b]));
+  const dataBits = data.flatMap((byte) => [7, 6, 5, 4, 3, 2, 1, 0].map((i) => (byte >>> i) & 1));
+  let pos = 0;
+  const read = (n: number): number => {
+    let v = 0;
+    for (let i = 0; i < n; i++) v = (v << 1) | (dataBits[pos++] ?? 0);
+    return v;
+  };
+  const mode = read(4);
+  let text = '';
+  if (mode === 0b0010) {
+    const count = read(version < 10 ? 9 : 11);
+    for (let i = 0; i + 1 < count; i += 2) {
+      const pair = read(11);
+      text += ALNUM.charAt(Math.floor(pair / 45)) + ALNUM.charAt(pair % 45);
+    }
+    if (count % 2 === 1) text += ALNUM.charAt(read(6));
+  } else if (mode === 0b0100) {
+    const count = read(version < 10 ? 8 : 16);
+    text = Buffer.from(Array.from({ length: count }, () => read(8))).toString('utf-8');
+  }
+
+  return { level: formatData >>> 3, mask: formatData & 7, versionInfo, blocks, text };
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────
+
+describe('QR Code', () => {
+  it('should encode HELLO WORLD as version 1-M with the textbook codewords', () => {
+    const qr = encodeQr('HELLO WORLD');
+
+    expect(qr.version).toBe(1);
+    expect(qr.modules).toHaveLength(21);
+    const read = readQr(qr.modules);
+    expect(read.level).toBe(0);
+    expect(read.mask).toBe(qr.mask);
+    expect(read.blocks[0]).toEqual([
+      32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17,
+      196, 35, 39, 119, 235, 215, 231, 226, 93, 23,
+    ]);
+    expect(read.text).toBe('HELLO WORLD');
+  });
+
+  it('should round-trip a key-share-sized alphanumeric payload', () => {
+    const text = 'CTXS1-0A1B2C3D-3-1-' + 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'.repeat(4) + '-89ABCDEF';
+
+    const qr = encodeQr(text);
+
+    expect(qr.version).toBe(7);
+    expect(readQr(qr.modules).text).toBe(text);
+  });
+
+  it('should use byte mode for other text', () => {
+    const text = 'ctx-sync share: lower case & ünïcode';
+
+    const qr = encodeQr(text);
+
+    expect(readQr(qr.modules).text).toBe(text);
+  });
+
+  it('should add version information from version 7', () => {
+    const text = 'A1'.repeat(125);
+
+    const qr = encodeQr(text);
+
+    expect(qr.version).toBeGreaterThanOrEqual(7);
+    const read = readQr(qr.modules);
+    expect((read.versionInfo ?? 0) >>> 12).toBe(qr.version);
+    expect(read.text).toBe(text);
+  });
+
+  it('should draw finder patterns in three corners', () => {
+    const { modules } = encodeQr('HELLO WORLD');
+    const size = modules.length;
+
+    for (const [x, y] of [[0, 0], [size - 7, 0], [0, size - 7]] as const) {
+      expect(modules[y]?.slice(x, x + 7)).toEqual(new Array(7).fill(true));
+      expect(modules[y + 3]?.slice(x, x + 7)).toEqual([true, false, true, true, true, false, true]);
+    }
+  });
+
+  it('should reject text that does not fit', () => {
+    expect(() => encodeQr('x'.repeat(3000))).toThrow('too long');
+  });
+
+  it('should render two module rows per line inside a quiet zone', () => {
+    const qr = encodeQr('HELLO WORLD');
+
+    const lines = renderQr(qr).split('\n');
+
+    expect(lines).toHaveLength(Math.ceil((21 + 8) / 2));
+    expect(lines.every((line) => line.length === 29)).toBe(true);
+    expect(lines[0]?.trim()).toBe('');
+    expect(lines[2]).toContain('█');
+  });
+});
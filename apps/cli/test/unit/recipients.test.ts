@@ -7,7 +7,8 @@
  *   - initRecipients creates a valid config with owner key.
  *   - addRecipient validates keys, detects duplicates.
  *   - removeRecipientByName / removeRecipientByKey work correctly.
- *   - getAllRecipientKeys returns owner + members.
+ *   - getAllRecipientKeys returns owner + members, honouring project scopes.
+ *   - resolveRecipients derives the owner key from the private key.
  *   - listRecipients returns current members.
  */
 
@@ -28,6 +29,7 @@ const {
   removeRecipientByName,
   removeRecipientByKey,
   getAllRecipientKeys,
+  resolveRecipients,
   listRecipients,
   RECIPIENTS_FILE,
 } = await import('../../src/core/recipients.js');
@@ -229,6 +231,31 @@ describe('Recipients Store', () => {
         addRecipient(configDir, 'Bob', 'age1test'),
       ).toThrow('not initialised');
     });
+
+    it('should scope a member to a project and extend the scope', async () => {
+      const { configDir, publicKey } = await setupTestEnv();
+      initRecipients(configDir, publicKey);
+
+      const carolKey = (await generateKey()).publicKey;
+      addRecipient(configDir, 'Carol', carolKey, 'api');
+      const member = addRecipient(configDir, 'Carol', carolKey, 'web');
+
+      expect(member.projects).toEqual(['api', 'web']);
+      expect(getRecipients(configDir)?.members).toHaveLength(1);
+      expect(() => addRecipient(configDir, 'Carol', carolKey, 'api')).toThrow(
+        'already has access to project "api"',
+      );
+    });
+
+    it('should not scope a member who already has access to everything', async () => {
+      const { configDir, publicKey } = await setupTestEnv();
+      initRecipients(configDir, publicKey);
+
+      const bobKey = (await generateKey()).publicKey;
+      addRecipient(configDir, 'Bob', bobKey);
+
+      expect(() => addRecipient(configDir, 'Bob', bobKey, 'api')).toThrow('already registered');
+    });
   });
 
   // ── removeRecipientByName ─────────────────────────────────────────
@@ -319,6 +346,39 @@ describe('Recipients Store', () => {
       expect(keys).toContain(publicKey);
       expect(keys).toContain(bobKey);
     });
+
+    it('should only include scoped members for their projects', async () => {
+      const { configDir, publicKey } = await setupTestEnv();
+      initRecipients(configDir, publicKey);
+
+      const bobKey = (await generateKey()).publicKey;
+      const carolKey = (await generateKey()).publicKey;
+      addRecipient(configDir, 'Bob', bobKey);
+      addRecipient(configDir, 'Carol', carolKey, 'api');
+
+      expect(getAllRecipientKeys(configDir, publicKey)).toEqual([publicKey, bobKey]);
+      expect(getAllRecipientKeys(configDir, publicKey, 'web')).toEqual([publicKey, bobKey]);
+      expect(getAllRecipientKeys(configDir, publicKey, 'api')).toEqual([publicKey, bobKey, carolKey]);
+    });
+  });
+
+  // ── resolveRecipients ─────────────────────────────────────────────
+
+  describe('resolveRecipients()', () => {
+    it('should fall back to the key\'s own public key when no config', async () => {
+      const { configDir, publicKey, privateKey } = await setupTestEnv();
+
+      expect(await resolveRecipients(configDir, privateKey)).toEqual([publicKey]);
+    });
+
+    it('should include every team member', async () => {
+      const { configDir, publicKey, privateKey } = await setupTestEnv();
+      initRecipients(configDir, publicKey);
+      const bobKey = (await generateKey()).publicKey;
+      addRecipient(configDir, 'Bob', bobKey);
+
+      expect(await resolveRecipients(configDir, privateKey)).toEqual([publicKey, bobKey]);
+    });
   });
 
   // ── listRecipients ────────────────────────────────────────────────
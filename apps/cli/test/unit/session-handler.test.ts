@@ -0,0 +1,275 @@
+import { jest } from '@jest/globals';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { TmuxSession } from '@ctx-sync/shared';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+// --- Mock child_process with a fake tmux ---
+const fakeTmux = {
+  installed: true,
+  running: false,
+  panes: '',
+  positions: '',
+  calls: [] as string[][],
+};
+
+const mockExecFileSync = jest.fn((file: string, args: string[]) => {
+  if (file !== 'tmux' || !fakeTmux.installed) {
+    throw new Error(`spawnSync ${file} ENOENT`);
+  }
+  fakeTmux.calls.push(args);
+  switch (`${args[0]} ${args[1] ?? ''}`) {
+    case '-V ':
+      return 'tmux 3.4\n';
+    case 'list-panes -a':
+      return fakeTmux.panes;
+    case 'list-panes -s':
+      return fakeTmux.positions;
+    case 'has-session -t':
+      if (!fakeTmux.running) throw new Error(`can't find session: ${args[2] ?? ''}`);
+      return '';
+    case 'display-message -p':
+      return 'work\n';
+    default:
+      return '';
+  }
+});
+
+jest.unstable_mockModule('node:child_process', () => ({
+  execFileSync: mockExecFileSync,
+}));
+
+const {
+  parseTmuxPanes,
+  listTmuxSessions,
+  currentTmuxSession,
+  captureTmuxSession,
+  isTmuxAvailable,
+  tmuxSessionExists,
+  buildSessionCommands,
+  sendToPane,
+  loadSessions,
+  saveSession,
+  TMUX_PANE_FORMAT,
+  SESSION_LABEL,
+  PANE_LABEL,
+} = await import('../../src/core/session-handler.js');
+const { generateKey } = await import('../../src/core/encryption.js');
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+const ORIGINAL_TMUX = process.env['TMUX'];
+
+function paneRow(...fields: string[]): string {
+  return fields.join('\t');
+}
+
+const PANES = [
+  paneRow('work', '2', 'server', 'even-horizontal', '1', '0', '/home/u/app', 'node'),
+  paneRow('work', '1', 'editor', 'tiled', '0', '1', '/home/u/app/src', 'nvim'),
+  paneRow('work', '2', 'server', 'even-horizontal', '0', '1', '/home/u/app', '-zsh'),
+  paneRow('other', '0', 'misc', 'tiled', '0', '1', '/tmp', 'bash'),
+].join('\n');
+
+beforeEach(() => {
+  Object.assign(fakeTmux, { installed: true, running: false, panes: '', positions: '', calls: [] });
+});
+
+afterEach(() => {
+  if (ORIGINAL_TMUX === undefined) {
+    delete process.env['TMUX'];
+  } else {
+    process.env['TMUX'] = ORIGINAL_TMUX;
+  }
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────
+
+describe('Session Handler', () => {
+  describe('parseTmuxPanes()', () => {
+    it('should group panes by session and window in index order', () => {
+      const sessions = parseTmuxPanes(PANES);
+
+      expect(Object.keys(sessions).sort()).toEqual(['other', 'work']);
+      expect(sessions['work']).toEqual([
+        { name: 'editor', layout: 'tiled', panes: [{ cwd: '/home/u/app/src', command: 'nvim', active: true }] },
+        {
+          name: 'server',
+          layout: 'even-horizontal',
+          panes: [
+            { cwd: '/home/u/app', command: '', active: true },
+            { cwd: '/home/u/app', command: 'node', active: false },
+          ],
+        },
+      ]);
+    });
+
+    it('should treat idle shells (including login shells) as no command', () => {
+      const sessions = parseTmuxPanes(PANES);
+      expect(sessions['other']![0]!.panes[0]!.command).toBe('');
+      expect(sessions['work']![1]!.panes[0]!.command).toBe('');
+    });
+
+    it('should ignore malformed lines', () => {
+      expect(parseTmuxPanes('garbage\n\n')).toEqual({});
+    });
+  });
+
+  describe('tmux queries', () => {
+    it('should detect tmux and running sessions', () => {
+      fakeTmux.running = true;
+      expect(isTmuxAvailable()).toBe(true);
+      expect(tmuxSessionExists('work')).toBe(true);
+      expect(fakeTmux.calls).toContainEqual(['has-session', '-t', '=work']);
+
+      fakeTmux.running = false;
+      expect(tmuxSessionExists('work')).toBe(false);
+    });
+
+    it('should report tmux as unavailable when it is not installed', () => {
+      fakeTmux.installed = false;
+      expect(isTmuxAvailable()).toBe(false);
+    });
+
+    it('should list sessions with the pane format', () => {
+      fakeTmux.panes = PANES;
+
+      expect(Object.keys(listTmuxSessions())).toContain('work');
+      expect(fakeTmux.calls).toContainEqual(['list-panes', '-a', '-F', TMUX_PANE_FORMAT]);
+    });
+
+    it('should fail clearly when no tmux server is running', () => {
+      fakeTmux.installed = false;
+
+      expect(() => listTmuxSessions()).toThrow('No tmux sessions found. Is tmux installed and running?');
+    });
+
+    it('should capture a session with the project path', () => {
+      fakeTmux.panes = PANES;
+
+      const session = captureTmuxSession('work', '/home/u/app');
+
+      expect(session.name).toBe('work');
+      expect(session.projectPath).toBe('/home/u/app');
+      expect(session.windows).toHaveLength(2);
+      expect(new Date(session.capturedAt).getTime()).not.toBeNaN();
+    });
+
+    it('should list running sessions when the requested one is missing', () => {
+      fakeTmux.panes = PANES;
+
+      expect(() => captureTmuxSession('nope', '/home/u/app')).toThrow(
+        /tmux session "nope" not found[\s\S]*Running sessions: other, work/,
+      );
+    });
+
+    it('should read the current session only inside tmux', () => {
+      delete process.env['TMUX'];
+      expect(currentTmuxSession()).toBeNull();
+
+      process.env['TMUX'] = '/tmp/tmux-1000/default,123,0';
+      expect(currentTmuxSession()).toBe('work');
+    });
+
+    it('should type a command into the pane at the given position', () => {
+      fakeTmux.positions = '1 1\n1 2\n3 1\n';
+
+      sendToPane({ session: 'work', window: 1, pane: 0 }, 'npm run dev');
+
+      expect(fakeTmux.calls.slice(-2)).toEqual([
+        ['send-keys', '-t', '=work:3.1', '-l', 'npm run dev'],
+        ['send-keys', '-t', '=work:3.1', 'Enter'],
+      ]);
+    });
+
+    it('should fail when the pane does not exist', () => {
+      fakeTmux.positions = '0 0\n';
+
+      expect(() => sendToPane({ session: 'work', window: 0, pane: 2 }, 'ls')).toThrow(
+        'tmux pane 3 of window 1 not found in session "work"',
+      );
+    });
+  });
+
+  describe('buildSessionCommands()', () => {
+    const session: TmuxSession = {
+      name: 'work',
+      projectPath: '/home/u/app',
+      capturedAt: new Date().toISOString(),
+      windows: [
+        { name: 'editor', layout: 'tiled', panes: [{ cwd: '/home/u/app/src', command: 'nvim', active: true }] },
+        {
+          name: "o'clock",
+          layout: 'even-horizontal',
+          panes: [
+            { cwd: '/home/u/app', command: '', active: true },
+            { cwd: '/home/u/app', command: 'npm run dev', active: false },
+          ],
+        },
+      ],
+    };
+
+    it('should recreate windows, panes and layouts in one tmux command', () => {
+      const [layout] = buildSessionCommands(session, (cwd) => cwd.replace('/home/u', '/Users/u'));
+
+      expect(layout!.label).toBe(SESSION_LABEL);
+      expect(layout!.tmuxPane).toBeUndefined();
+      expect(layout!.command).toBe(
+        "tmux new-session -d -s 'work' -n 'editor' -c '/Users/u/app/src'" +
+          " \\; new-window -a -t '=work:' -n 'o'\\''clock' -c '/Users/u/app'" +
+          " \\; split-window -t '=work:' -c '/Users/u/app'" +
+          " \\; select-layout -t '=work:' 'even-horizontal'" +
+          " \\; select-window -t '=work:^'",
+      );
+    });
+
+    it('should add one command per pane that was running a program', () => {
+      const commands = buildSessionCommands(session, (cwd) => cwd);
+
+      expect(commands.slice(1)).toEqual([
+        {
+          command: 'nvim',
+          label: PANE_LABEL,
+          cwd: '/home/u/app/src',
+          tmuxPane: { session: 'work', window: 0, pane: 0 },
+        },
+        {
+          command: 'npm run dev',
+          label: PANE_LABEL,
+          cwd: '/home/u/app',
+          tmuxPane: { session: 'work', window: 1, pane: 1 },
+        },
+      ]);
+    });
+
+    it('should return nothing for a session without windows', () => {
+      expect(buildSessionCommands({ ...session, windows: [] }, (cwd) => cwd)).toEqual([]);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should save sessions per project and read them back', async () => {
+      const syncDir = path.join(globalThis.TEST_DIR, `sessions-${Date.now()}`);
+      fs.mkdirSync(syncDir, { recursive: true });
+      const { publicKey, privateKey } = await generateKey();
+
+      expect(await loadSessions(syncDir, privateKey)).toEqual({});
+
+      const session: TmuxSession = {
+        name: 'work',
+        projectPath: '/home/u/app',
+        capturedAt: new Date().toISOString(),
+        windows: [{ name: 'main', layout: '', panes: [{ cwd: '/home/u/app', command: '', active: true }] }],
+      };
+      await saveSession(syncDir, 'my-app', session, publicKey, privateKey);
+
+      const raw = fs.readFileSync(path.join(syncDir, 'sessions.age'), 'utf-8');
+      expect(raw).toContain('-----BEGIN AGE ENCRYPTED FILE-----');
+      expect(raw).not.toContain('/home/u/app');
+      expect(await loadSessions(syncDir, privateKey)).toEqual({ 'my-app': session });
+    });
+  });
+});
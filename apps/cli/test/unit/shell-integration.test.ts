@@ -0,0 +1,163 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execFileSync } from 'node:child_process';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+const {
+  renderShellHook,
+  isSupportedShell,
+  ensureVisitQueue,
+  peekVisitQueue,
+  takeVisitQueue,
+  completeVisitFlush,
+  acquireFlushLock,
+  VISIT_QUEUE_FILE,
+  VISIT_FLUSH_THRESHOLD,
+} = await import('../../src/core/shell-integration.js');
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+function makeConfigDir(): string {
+  const configDir = path.join(
+    globalThis.TEST_DIR,
+    `shell-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  );
+  fs.mkdirSync(configDir, { recursive: true });
+  return configDir;
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────
+
+describe('Shell Integration', () => {
+  describe('renderShellHook()', () => {
+    it.each(['bash', 'zsh', 'fish'] as const)('should define the hook and jump function for %s', (shell) => {
+      const script = renderShellHook(shell, { queueFile: '/home/u/.config/ctx-sync/dir-visits.queue' });
+
+      expect(script).toContain(`ctx-sync shell integration (${shell})`);
+      expect(script).toContain('/home/u/.config/ctx-sync/dir-visits.queue');
+      expect(script).toContain('ctx-sync dir flush');
+      expect(script).toContain('ctx-sync jump --');
+      expect(script).toContain(String(VISIT_FLUSH_THRESHOLD));
+    });
+
+    it('should register with chpwd in zsh and PROMPT_COMMAND in bash', () => {
+      expect(renderShellHook('zsh', { queueFile: '/q' })).toContain('add-zsh-hook chpwd __ctx_sync_hook');
+      expect(renderShellHook('bash', { queueFile: '/q' })).toContain('PROMPT_COMMAND=');
+      expect(renderShellHook('fish', { queueFile: '/q' })).toContain('--on-variable PWD');
+    });
+
+    it('should use a custom jump function name', () => {
+      expect(renderShellHook('bash', { queueFile: '/q', jumpFunction: 'cdj' })).toContain('cdj() {');
+      expect(renderShellHook('fish', { queueFile: '/q', jumpFunction: 'cdj' })).toContain('function cdj');
+    });
+
+    it('should reject a function name that is not an identifier', () => {
+      expect(() => renderShellHook('bash', { queueFile: '/q', jumpFunction: 'j; rm -rf ~' })).toThrow(
+        'Invalid function name',
+      );
+    });
+
+    it('should quote the queue path for each shell', () => {
+      expect(renderShellHook('bash', { queueFile: "/home/o'brien/q" })).toContain(
+        `__ctx_sync_queue='/home/o'\\''brien/q'`,
+      );
+      expect(renderShellHook('fish', { queueFile: "/home/o'brien/q" })).toContain(
+        `set -g __ctx_sync_queue '/home/o\\'brien/q'`,
+      );
+    });
+
+    it('should queue each new directory once from bash', () => {
+      const configDir = makeConfigDir();
+      const queueFile = ensureVisitQueue(configDir);
+      const dirA = path.join(configDir, 'a');
+      const dirB = path.join(configDir, 'b');
+      fs.mkdirSync(dirA);
+      fs.mkdirSync(dirB);
+
+      const script = [
+        renderShellHook('bash', { queueFile }),
+        `cd '${dirA}'; __ctx_sync_hook; __ctx_sync_hook`,
+        `cd '${dirB}'; __ctx_sync_hook`,
+        'echo "$__ctx_sync_pending"',
+      ].join('\n');
+      const pending = execFileSync('bash', ['--norc', '-c', script], { encoding: 'utf-8', timeout: 10000 });
+
+      expect(pending.trim()).toBe('2');
+      expect(fs.readFileSync(queueFile, 'utf-8')).toBe(`${dirA}\n${dirB}\n`);
+    });
+  });
+
+  describe('isSupportedShell()', () => {
+    it('should accept bash, zsh and fish only', () => {
+      expect(isSupportedShell('zsh')).toBe(true);
+      expect(isSupportedShell('powershell')).toBe(false);
+    });
+  });
+
+  describe('visit queue', () => {
+    it('should create the queue with permissions 600', () => {
+      const configDir = makeConfigDir();
+      const queueFile = ensureVisitQueue(configDir);
+
+      expect(queueFile).toBe(path.join(configDir, VISIT_QUEUE_FILE));
+      expect(fs.statSync(queueFile).mode & 0o777).toBe(0o600);
+    });
+
+    it('should move the queue aside for flushing and recreate it', () => {
+      const configDir = makeConfigDir();
+      const queueFile = ensureVisitQueue(configDir);
+      fs.appendFileSync(queueFile, '/home/u/a\n/home/u/b\n');
+
+      expect(takeVisitQueue(configDir)).toEqual(['/home/u/a', '/home/u/b']);
+      expect(fs.readFileSync(queueFile, 'utf-8')).toBe('');
+      expect(fs.statSync(queueFile).mode & 0o777).toBe(0o600);
+
+      completeVisitFlush(configDir);
+      expect(takeVisitQueue(configDir)).toEqual([]);
+    });
+
+    it('should keep a failed batch for the next flush', () => {
+      const configDir = makeConfigDir();
+      const queueFile = ensureVisitQueue(configDir);
+      fs.appendFileSync(queueFile, '/home/u/a\n');
+      takeVisitQueue(configDir);
+
+      fs.appendFileSync(queueFile, '/home/u/b\n');
+
+      expect(peekVisitQueue(configDir)).toEqual(['/home/u/a', '/home/u/b']);
+      expect(takeVisitQueue(configDir)).toEqual(['/home/u/a', '/home/u/b']);
+    });
+
+    it('should return nothing when there is no queue', () => {
+      const configDir = makeConfigDir();
+      expect(peekVisitQueue(configDir)).toEqual([]);
+      expect(takeVisitQueue(configDir)).toEqual([]);
+    });
+  });
+
+  describe('acquireFlushLock()', () => {
+    it('should allow one holder at a time', () => {
+      const configDir = makeConfigDir();
+
+      const release = acquireFlushLock(configDir);
+      expect(release).not.toBeNull();
+      expect(acquireFlushLock(configDir)).toBeNull();
+
+      release!();
+      expect(acquireFlushLock(configDir)).not.toBeNull();
+    });
+
+    it('should take over a stale lock', () => {
+      const configDir = makeConfigDir();
+      const lockFile = path.join(configDir, `${VISIT_QUEUE_FILE}.lock`);
+      fs.writeFileSync(lockFile, '');
+      const old = new Date(Date.now() - 5 * 60 * 1000);
+      fs.utimesSync(lockFile, old, old);
+
+      expect(acquireFlushLock(configDir)).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { execFileSync } from 'node:child_process';
+import { shellQuote } from '../../src/utils/shell.js';
+
+describe('Shell Module', () => {
+  describe('shellQuote()', () => {
+    it('should wrap a value in single quotes', () => {
+      expect(shellQuote('hello world')).toBe("'hello world'");
+      expect(shellQuote('')).toBe("''");
+    });
+
+    it('should escape single quotes', () => {
+      expect(shellQuote("it's")).toBe("'it'\\''s'");
+    });
+
+    it('should round-trip through sh as a single word', () => {
+      const value = `$(touch /tmp/x) \`id\` "q" 'it's' ; | & \\ * ~ $HOME\nnext`;
+
+      const echoed = execFileSync('sh', ['-c', `printf %s ${shellQuote(value)}`], {
+        encoding: 'utf-8',
+      });
+
+      expect(echoed).toBe(value);
+    });
+  });
+});
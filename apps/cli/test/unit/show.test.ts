@@ -187,6 +187,37 @@ describe('Show Command', () => {
       const result = await executeShow('my-app');
 
       expect(result.envVarCount).toBe(3);
+      expect(result.envProfiles).toBeUndefined();
+    });
+
+    it('should list env profile and group names without their values', async () => {
+      const { syncDir, publicKey } = await setupTestEnv();
+
+      await writeProject(syncDir, publicKey, 'my-app', '/path/to/app');
+
+      const addedAt = new Date().toISOString();
+      await writeState(
+        syncDir,
+        {
+          'my-app': { PORT: { value: '3000', addedAt } },
+          'my-app/staging': { API_KEY: { value: 'sk_test_staging', addedAt } },
+          'my-app/prod-readonly': { API_KEY: { value: 'sk_live_prod', addedAt } },
+          '/aws': { AWS_KEY: { value: 'sk_aws_shared', addedAt } },
+          'my-app/@aws': {},
+        },
+        publicKey,
+        'env-vars',
+      );
+
+      const result = await executeShow('my-app');
+      const output = formatShowOutput(result);
+
+      expect(result.envVarCount).toBe(2);
+      expect(result.envProfiles).toEqual(['default', 'prod-readonly', 'staging']);
+      expect(result.envGroups).toEqual(['aws']);
+      expect(output).toContain('Profiles:  default, prod-readonly, staging');
+      expect(output).toContain('Groups:    aws');
+      expect(output).not.toContain('sk_');
     });
 
     it('should load mental context when available', async () => {
@@ -373,6 +404,7 @@ describe('Show Command', () => {
           lastAccessed: new Date().toISOString(),
         },
         envVarCount: 5,
+        toolChecks: [],
         mentalContext: null,
         dockerServices: [],
         services: [],
@@ -384,6 +416,35 @@ describe('Show Command', () => {
       expect(output).toContain('5');
     });
 
+    it('should list pinned tool versions with their status', () => {
+      const output = formatShowOutput({
+        project: {
+          id: 'test-id',
+          name: 'my-app',
+          path: '/path',
+          git: {
+            branch: 'main',
+            remote: '',
+            hasUncommitted: false,
+            stashCount: 0,
+          },
+          lastAccessed: new Date().toISOString(),
+        },
+        envVarCount: 0,
+        toolChecks: [
+          { tool: 'node', version: '>=18', source: 'package.json#engines', installed: '20.11.0', status: 'ok' },
+          { tool: 'python', version: '3.11', source: '.python-version', installed: '3.12.1', status: 'mismatch' },
+        ],
+        mentalContext: null,
+        dockerServices: [],
+        services: [],
+      });
+
+      expect(output).toContain('🧰 Tools:');
+      expect(output).toContain('✓ node >=18 required by package.json#engines — found 20.11.0');
+      expect(output).toContain('⚠ python 3.11 required by .python-version — found 3.12.1');
+    });
+
     it('should show uncommitted changes indicator', () => {
       const output = formatShowOutput({
         project: {
@@ -399,6 +460,7 @@ describe('Show Command', () => {
           lastAccessed: new Date().toISOString(),
         },
         envVarCount: 0,
+        toolChecks: [],
         mentalContext: null,
         dockerServices: [],
         services: [],
@@ -423,6 +485,7 @@ describe('Show Command', () => {
           lastAccessed: new Date().toISOString(),
         },
         envVarCount: 0,
+        toolChecks: [],
         mentalContext: {
           currentTask: 'Implementing Stripe webhooks',
           lastWorkingOn: {
@@ -486,6 +549,7 @@ describe('Show Command', () => {
           lastAccessed: new Date().toISOString(),
         },
         envVarCount: 0,
+        toolChecks: [],
         mentalContext: null,
         dockerServices: [
           {
@@ -520,6 +584,7 @@ describe('Show Command', () => {
           lastAccessed: new Date().toISOString(),
         },
         envVarCount: 0,
+        toolChecks: [],
         mentalContext: null,
         dockerServices: [],
         services: [
@@ -553,6 +618,7 @@ describe('Show Command', () => {
           lastAccessed: new Date().toISOString(),
         },
         envVarCount: 0,
+        toolChecks: [],
         mentalContext: null,
         dockerServices: [],
         services: [],
@@ -578,6 +644,7 @@ describe('Show Command', () => {
           lastAccessed: new Date().toISOString(),
         },
         envVarCount: 3,
+        toolChecks: [],
         mentalContext: {
           currentTask: 'Working',
           blockers: [],
@@ -613,6 +680,7 @@ describe('Show Command', () => {
           lastAccessed: new Date().toISOString(),
         },
         envVarCount: 0,
+        toolChecks: [],
         mentalContext: {
           currentTask: 'Testing',
           blockers: [],
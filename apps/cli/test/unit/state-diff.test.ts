@@ -0,0 +1,143 @@
+/**
+ * Unit tests for the state diff module.
+ *
+ * Verifies:
+ *   - State is flattened into leaf paths, named array elements keyed by name.
+ *   - Env var values are replaced by stable hashes keyed with a secret
+ *     derived from the private key.
+ *   - Leaf diffs report added, changed and removed paths.
+ *   - The textconv conversion hashes values and degrades to placeholders.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { encryptState, generateKey } from '../../src/core/encryption.js';
+import {
+  deriveHashKey,
+  hashEnvValue,
+  flattenState,
+  diffLeaves,
+  textconvState,
+} from '../../src/core/state-diff.js';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+function makeDir(): string {
+  const dir = path.join(globalThis.TEST_DIR, `state-diff-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`);
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+const now = '2026-10-01T10:00:00.000Z';
+
+describe('State Diff', () => {
+  let key: { publicKey: string; privateKey: string };
+  let hashKey: Buffer;
+
+  beforeEach(async () => {
+    key = await generateKey();
+    hashKey = await deriveHashKey(key.privateKey);
+  });
+
+  describe('hashEnvValue()', () => {
+    it('should be stable for a key and differ across keys and values', async () => {
+      const otherKey = await deriveHashKey((await generateKey()).privateKey);
+
+      expect(await deriveHashKey(key.privateKey)).toEqual(hashKey);
+      expect(hashEnvValue('sk_live_1', hashKey)).toBe(hashEnvValue('sk_live_1', hashKey));
+      expect(hashEnvValue('sk_live_1', hashKey)).not.toBe(hashEnvValue('sk_live_2', hashKey));
+      expect(hashEnvValue('sk_live_1', hashKey)).not.toBe(hashEnvValue('sk_live_1', otherKey));
+      expect(hashEnvValue('sk_live_1', hashKey)).toMatch(/^hash:[0-9a-f]{12}$/);
+    });
+
+    it('should not be keyed with anything public', () => {
+      expect(hashEnvValue('sk_live_1', hashKey)).not.toBe(
+        hashEnvValue('sk_live_1', Buffer.from(key.publicKey)),
+      );
+    });
+  });
+
+  describe('flattenState()', () => {
+    it('should key named array elements by name', () => {
+      const leaves = flattenState(
+        'docker-state',
+        { api: { services: [{ name: 'db', port: 5432 }, { name: 'redis', port: 6379 }] } },
+        hashKey,
+      );
+
+      expect([...leaves]).toEqual([
+        ['api.services[db].name', '"db"'],
+        ['api.services[db].port', '5432'],
+        ['api.services[redis].name', '"redis"'],
+        ['api.services[redis].port', '6379'],
+      ]);
+    });
+
+    it('should hash env var values and keep other fields', () => {
+      const leaves = flattenState(
+        'env-vars',
+        { api: { STRIPE_KEY: { value: 'sk_live_secret', addedAt: now } } },
+        hashKey,
+      );
+
+      expect(leaves.get('api.STRIPE_KEY.value')).toBe(JSON.stringify(hashEnvValue('sk_live_secret', hashKey)));
+      expect(leaves.get('api.STRIPE_KEY.addedAt')).toBe(JSON.stringify(now));
+      expect(JSON.stringify([...leaves])).not.toContain('sk_live_secret');
+    });
+
+    it('should keep empty containers as leaves', () => {
+      expect([...flattenState('mental-context', { api: { blockers: [], meta: {} } }, hashKey)]).toEqual([
+        ['api.blockers', '[]'],
+        ['api.meta', '{}'],
+      ]);
+    });
+  });
+
+  describe('diffLeaves()', () => {
+    it('should report added, changed and removed leaves', () => {
+      const before = new Map([['a', '1'], ['b', '2'], ['c', '3']]);
+      const after = new Map([['a', '1'], ['b', '20'], ['d', '4']]);
+
+      expect(diffLeaves(before, after)).toEqual([
+        { op: '~', path: 'b', before: '2', after: '20' },
+        { op: '+', path: 'd', after: '4' },
+        { op: '-', path: 'c', before: '3' },
+      ]);
+    });
+  });
+
+  describe('textconvState()', () => {
+    it('should print one line per leaf with env values hashed', async () => {
+      const dir = makeDir();
+      // Git hands older blobs over as temp files named XXXXXX_<basename>
+      const file = path.join(dir, 'a1B2c3_env-vars.age');
+      fs.writeFileSync(file, await encryptState({ api: { TOKEN: { value: 'tok_123', addedAt: now } } }, key.publicKey));
+
+      const text = await textconvState(file, key.privateKey);
+
+      expect(text).toBe(
+        `api.TOKEN.value = "${hashEnvValue('tok_123', hashKey)}"\n` + `api.TOKEN.addedAt = "${now}"\n`,
+      );
+    });
+
+    it('should print a placeholder when the file cannot be decrypted', async () => {
+      const dir = makeDir();
+      const other = await generateKey();
+      const file = path.join(dir, 'state.age');
+      fs.writeFileSync(file, await encryptState({ projects: [] }, other.publicKey));
+
+      expect(await textconvState(file, key.privateKey)).toBe('(encrypted — cannot be decrypted with this key)\n');
+      expect(await textconvState(file, null)).toContain('no usable key');
+    });
+
+    it('should leave files that are not state alone', async () => {
+      const dir = makeDir();
+      const file = path.join(dir, 'notes.age');
+      fs.writeFileSync(file, 'whatever');
+
+      expect(await textconvState(file, key.privateKey)).toBe('(not a ctx-sync state file)\n');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the state history module.
+ *
+ * Verifies:
+ *   - Changes are summarised per state file type.
+ *   - Env var summaries name keys and never contain values.
+ *   - Unchanged content is reported as a re-encryption.
+ *   - State file names are parsed from the command line.
+ */
+
+import { summarizeStateChange, parseStateFileType } from '../../src/core/state-history.js';
+
+const now = '2026-10-01T10:00:00.000Z';
+
+function project(name: string, branch = 'main') {
+  return {
+    id: name,
+    name,
+    path: `~/projects/${name}`,
+    git: { branch, remote: 'origin', hasUncommitted: false, stashCount: 0 },
+    lastAccessed: now,
+  };
+}
+
+function context(overrides: Record<string, unknown> = {}) {
+  return {
+    currentTask: 'Fix login',
+    blockers: [] as Array<{ description: string; addedAt: string; priority: string }>,
+    nextSteps: [] as string[],
+    relatedLinks: [],
+    breadcrumbs: [] as Array<{ note: string; timestamp: string }>,
+    ...overrides,
+  };
+}
+
+describe('State History', () => {
+  describe('summarizeStateChange()', () => {
+    it('should list projects added, removed and switched branch', () => {
+      const before = { machine: { id: 'm', hostname: 'm' }, projects: [project('api'), project('old')] };
+      const after = { machine: { id: 'm', hostname: 'm' }, projects: [project('api', 'feat/x'), project('web')] };
+
+      expect(summarizeStateChange('state', before, after)).toEqual([
+        'project added: web',
+        'project removed: old',
+        'api: branch main → feat/x',
+      ]);
+    });
+
+    it('should name env keys added, changed and removed without their values', () => {
+      const before = {
+        api: {
+          STRIPE_KEY: { value: 'sk_live_old', addedAt: now },
+          DEBUG: { value: 'true', addedAt: now },
+        },
+      };
+      const after = {
+        api: {
+          STRIPE_KEY: { value: 'sk_live_new', addedAt: now },
+          DATABASE_URL: { value: 'postgres://user:pass@db/app', addedAt: now },
+        },
+        web: { TOKEN: { value: 'secret-token', addedAt: now } },
+      };
+
+      const summary = summarizeStateChange('env-vars', before, after);
+
+      expect(summary).toEqual([
+        'web: env vars added',
+        'api: added DATABASE_URL; changed STRIPE_KEY; removed DEBUG',
+      ]);
+      const text = summary.join('\n');
+      for (const value of ['sk_live_old', 'sk_live_new', 'postgres://', 'secret-token', 'true']) {
+        expect(text).not.toContain(value);
+      }
+    });
+
+    it('should describe env groups and the projects that use them', () => {
+      const before = {
+        '/aws': { AWS_KEY: { value: 'AKIA-old', addedAt: now } },
+        'api/@aws': {},
+      };
+      const after = {
+        '/aws': { AWS_KEY: { value: 'AKIA-new', addedAt: now } },
+        'web/@aws': {},
+      };
+
+      expect(summarizeStateChange('env-vars', before, after)).toEqual([
+        'group aws: changed AWS_KEY',
+        'web: uses group aws',
+        'api: no longer uses group aws',
+      ]);
+    });
+
+    it('should report blockers resolved and the new task', () => {
+      const blocker = { description: 'Waiting on API keys', addedAt: now, priority: 'high' };
+      const before = { api: context({ blockers: [blocker] }) };
+      const after = {
+        api: context({
+          currentTask: 'Ship checkout',
+          nextSteps: ['Write tests'],
+          breadcrumbs: [{ note: 'Started on checkout', timestamp: now }],
+        }),
+      };
+
+      expect(summarizeStateChange('mental-context', before, after)).toEqual([
+        'api: task → "Ship checkout"',
+        'api: blocker resolved: Waiting on API keys',
+        'api: next step added: Write tests',
+        'api: 1 breadcrumb(s) added',
+      ]);
+    });
+
+    it('should report Docker services and pinned directories', () => {
+      const service = (name: string) => ({ name, container: name, image: `${name}:1`, port: 1, autoStart: true });
+
+      expect(
+        summarizeStateChange(
+          'docker-state',
+          { api: { composeFile: 'docker-compose.yml', services: [service('db')] } },
+          { api: { composeFile: 'docker-compose.yml', services: [service('db'), service('redis')] } },
+        ),
+      ).toEqual(['api: service added: redis']);
+      expect(
+        summarizeStateChange(
+          'directories',
+          { recentDirs: [], pinnedDirs: ['~/a'] },
+          { recentDirs: [], pinnedDirs: ['~/b'] },
+        ),
+      ).toEqual(['pinned: ~/b', 'unpinned: ~/a']);
+    });
+
+    it('should call identical content a re-encryption', () => {
+      const data = { api: context() };
+
+      expect(summarizeStateChange('mental-context', data, structuredClone(data))).toEqual([
+        're-encrypted (no content change)',
+      ]);
+    });
+
+    it('should report a file created from nothing and a file removed', () => {
+      expect(summarizeStateChange('env-vars', null, { api: {} })).toEqual(['api: env vars added']);
+      expect(summarizeStateChange('env-vars', { api: {} }, null)).toEqual(['file removed']);
+    });
+  });
+
+  describe('parseStateFileType()', () => {
+    it('should accept a type or its file name', () => {
+      expect(parseStateFileType('env-vars')).toBe('env-vars');
+      expect(parseStateFileType('mental-context.age')).toBe('mental-context');
+    });
+
+    it('should reject other names and list the valid ones', () => {
+      expect(() => parseStateFileType('secrets')).toThrow(/Unknown state file: secrets[\s\S]*env-vars/);
+    });
+  });
+});
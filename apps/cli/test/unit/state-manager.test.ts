@@ -1,3 +1,5 @@
+import { jest } from '@jest/globals';
+import type { ServiceState, StateFile } from '@ctx-sync/shared';
 import { VERSION } from '@ctx-sync/shared';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
@@ -7,7 +9,7 @@ declare global {
 }
 
 // Import modules under test (top-level await, same pattern as other tests)
-const { generateKey } = await import('../../src/core/encryption.js');
+const { generateKey, encryptState } = await import('../../src/core/encryption.js');
 const {
   readState,
   writeState,
@@ -15,8 +17,18 @@ const {
   writeManifest,
   listStateFiles,
   stateFileExists,
+  findUnreadableStateFiles,
+  migrateState,
+  getSchemaVersion,
+  readProjectState,
+  writeProjectState,
+  scopeProjectState,
+  projectStateFile,
+  projectOfStateFile,
+  isProjectScoped,
 } = await import('../../src/core/state-manager.js');
 const { STATE_FILES } = await import('@ctx-sync/shared');
+const { StateValidationError, StateVersionError, DecryptionError } = await import('../../src/utils/errors.js');
 
 describe('State Manager Module', () => {
   let publicKey: string;
@@ -175,7 +187,11 @@ describe('State Manager Module', () => {
 
     it('should throw on corrupted ciphertext', async () => {
       fs.writeFileSync(path.join(stateDir, STATE_FILES.STATE), 'not-a-valid-age-file', 'utf-8');
-      await expect(readState(stateDir, privateKey, 'state')).rejects.toThrow();
+      await expect(readState(stateDir, privateKey, 'state')).rejects.toMatchObject({
+        name: 'DecryptionError',
+        file: 'state.age',
+        reason: 'truncated',
+      });
     });
 
     it('should throw with wrong private key', async () => {
@@ -189,7 +205,10 @@ describe('State Manager Module', () => {
       const wrongKeys = await generateKey();
       await expect(
         readState(stateDir, wrongKeys.privateKey, 'state'),
-      ).rejects.toThrow();
+      ).rejects.toThrow(DecryptionError);
+      await expect(
+        readState(stateDir, wrongKeys.privateKey, 'state'),
+      ).rejects.toMatchObject({ reason: 'wrong-identity', stanzas: ['X25519'] });
     });
 
     it('should round-trip env-vars correctly', async () => {
@@ -302,6 +321,19 @@ describe('State Manager Module', () => {
     });
   });
 
+  describe('findUnreadableStateFiles()', () => {
+    it('should report only the files the key cannot decrypt', async () => {
+      const other = await generateKey();
+      await writeState(stateDir, { machine: { id: 't', hostname: 't' }, projects: [] }, publicKey, 'state');
+      await writeState(stateDir, { web: {} }, [other.publicKey, publicKey], 'env-vars');
+      await writeState(stateDir, {}, other.publicKey, 'docker-state');
+
+      const failures = await findUnreadableStateFiles(stateDir, privateKey);
+
+      expect(failures.map((f) => [f.file, f.reason])).toEqual([['docker-state.age', 'wrong-identity']]);
+    });
+  });
+
   describe('listStateFiles()', () => {
     it('should list all .age files in the directory', async () => {
       const state = {
@@ -347,6 +379,317 @@ describe('State Manager Module', () => {
     });
   });
 
+  describe('Project-scoped state', () => {
+    const entry = (value: string) => ({ KEY: { value, addedAt: new Date().toISOString() } });
+
+    it('should use the repo-wide file until a project is scoped', async () => {
+      await writeProjectState(stateDir, { api: entry('a') }, publicKey, 'env-vars', 'api');
+
+      expect(isProjectScoped(stateDir, 'api')).toBe(false);
+      expect(projectStateFile(stateDir, 'env-vars', 'api')).toBe('env-vars.age');
+      const data = await readProjectState<Record<string, unknown>>(stateDir, privateKey, 'env-vars', 'api');
+      expect(Object.keys(data ?? {})).toEqual(['api']);
+    });
+
+    it('should move a project into its own blobs encrypted for its recipients', async () => {
+      const contractor = await generateKey();
+      await writeState(stateDir, { api: entry('a'), web: entry('w') }, publicKey, 'env-vars');
+
+      const written = await scopeProjectState(
+        stateDir,
+        'api',
+        privateKey,
+        [publicKey, contractor.publicKey],
+        [publicKey],
+      );
+
+      expect(written).toEqual([
+        path.join('projects', 'api', 'env-vars.age'),
+        path.join('projects', 'api', 'docker-state.age'),
+        path.join('projects', 'api', 'mental-context.age'),
+        'env-vars.age',
+      ]);
+      expect(Object.keys((await readState(stateDir, privateKey, 'env-vars')) ?? {})).toEqual(['web']);
+      expect(
+        await readProjectState(stateDir, contractor.privateKey, 'env-vars', 'api'),
+      ).toMatchObject({ api: { KEY: { value: 'a' } } });
+      await expect(readState(stateDir, contractor.privateKey, 'env-vars')).rejects.toThrow();
+      expect(listStateFiles(stateDir)).toContain(path.join('projects', 'api', 'env-vars.age'));
+    });
+
+    it('should only write the scoped project\'s entry to its blob', async () => {
+      await scopeProjectState(stateDir, 'api', privateKey, [publicKey], [publicKey]);
+
+      await writeProjectState(stateDir, { api: entry('a'), web: entry('w') }, publicKey, 'env-vars', 'api');
+
+      const blob = await readProjectState<Record<string, unknown>>(stateDir, privateKey, 'env-vars', 'api');
+      expect(Object.keys(blob ?? {})).toEqual(['api']);
+      expect(readManifest(stateDir)?.files[path.join('projects', 'api', 'env-vars.age')]).toBeDefined();
+    });
+
+    it('should move and write a project\'s env profiles with it', async () => {
+      await writeState(
+        stateDir,
+        { api: entry('a'), 'api/staging': entry('s'), 'api-2': entry('x') },
+        publicKey,
+        'env-vars',
+      );
+
+      await scopeProjectState(stateDir, 'api', privateKey, [publicKey], [publicKey]);
+      expect(Object.keys((await readState(stateDir, privateKey, 'env-vars')) ?? {})).toEqual(['api-2']);
+
+      await writeProjectState(
+        stateDir,
+        { api: entry('a'), 'api/staging': entry('s2'), 'api-2': entry('x') },
+        publicKey,
+        'env-vars',
+        'api',
+      );
+      const blob = await readProjectState<Record<string, unknown>>(stateDir, privateKey, 'env-vars', 'api');
+      expect(blob).toMatchObject({ api: { KEY: { value: 'a' } }, 'api/staging': { KEY: { value: 's2' } } });
+      expect(Object.keys(blob ?? {})).toEqual(['api', 'api/staging']);
+    });
+
+    it('should map blob paths back to their project', () => {
+      expect(projectOfStateFile(path.join('projects', 'api', 'env-vars.age'))).toBe('api');
+      expect(projectOfStateFile('env-vars.age')).toBeNull();
+    });
+
+    it('should refuse project names that are not a single path segment', async () => {
+      await expect(
+        scopeProjectState(stateDir, '../escape', privateKey, [publicKey], [publicKey]),
+      ).rejects.toThrow('cannot have its own state blobs');
+      expect(isProjectScoped(stateDir, '../escape')).toBe(false);
+    });
+  });
+
+  describe('Schema validation', () => {
+    const tampered = {
+      'my-app': {
+        GOOD: { value: 'ok', addedAt: '2025-02-10T10:00:00Z' },
+        BAD: { value: 42, addedAt: 'yesterday' },
+      },
+    };
+
+    it('should refuse to write data that does not match the schema', async () => {
+      const invalid = { services: [{ name: 'dev', command: 'npm run dev' }] } as unknown as ServiceState;
+
+      await expect(writeState(stateDir, invalid, publicKey, 'services')).rejects.toThrow(
+        StateValidationError,
+      );
+      expect(fs.existsSync(path.join(stateDir, STATE_FILES.SERVICES))).toBe(false);
+    });
+
+    it('should name the field paths but never the values', async () => {
+      fs.writeFileSync(
+        path.join(stateDir, STATE_FILES.ENV_VARS),
+        await encryptState({ app: { KEY: { value: 'sk_live_secret', addedAt: 1 } } }, publicKey),
+      );
+
+      const err = await readState(stateDir, privateKey, 'env-vars').catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(StateValidationError);
+      const validation = err as InstanceType<typeof StateValidationError>;
+      expect(validation.file).toBe(STATE_FILES.ENV_VARS);
+      expect(validation.fieldErrors.join()).toContain('app.KEY.addedAt');
+      expect(validation.message).not.toContain('sk_live_secret');
+    });
+
+    it('should drop malformed entries when repair is requested', async () => {
+      fs.writeFileSync(path.join(stateDir, STATE_FILES.ENV_VARS), await encryptState(tampered, publicKey));
+      const onRepair = jest.fn();
+
+      const result = await readState(stateDir, privateKey, 'env-vars', { repair: true, onRepair });
+
+      expect(result).toEqual({ 'my-app': { GOOD: tampered['my-app'].GOOD } });
+      expect(onRepair).toHaveBeenCalledWith(STATE_FILES.ENV_VARS, ['EnvVars.my-app.BAD']);
+    });
+
+    it('should validate recorded worktrees but accept projects without them', async () => {
+      const project = {
+        id: 'p1',
+        name: 'app',
+        path: '/home/u/app',
+        git: { branch: 'main', remote: '', hasUncommitted: false, stashCount: 0 },
+        lastAccessed: '2025-02-10T10:00:00Z',
+      };
+      const withWorktrees = (worktrees: unknown): StateFile =>
+        ({
+          machines: {
+            m1: {
+              machine: { id: 'm1', hostname: 'host' },
+              projects: [{ ...project, git: { ...project.git, worktrees } }],
+              updatedAt: '2025-02-10T10:00:00Z',
+            },
+          },
+        }) as StateFile;
+
+      await writeState(stateDir, withWorktrees([{ path: '/home/u/app-fix', branch: 'fix' }]), publicKey, 'state');
+      await expect(writeState(stateDir, withWorktrees([{ path: '/home/u/app-fix' }]), publicKey, 'state')).rejects.toThrow(
+        StateValidationError,
+      );
+      await writeState(
+        stateDir,
+        { machines: { m1: { machine: { id: 'm1', hostname: 'host' }, projects: [project], updatedAt: '2025-02-10T10:00:00Z' } } },
+        publicKey,
+        'state',
+      );
+    });
+
+    it('should validate recorded tool versions', async () => {
+      const withTools = (tools: unknown): StateFile =>
+        ({
+          machines: {
+            m1: {
+              machine: { id: 'm1', hostname: 'host' },
+              projects: [
+                {
+                  id: 'p1',
+                  name: 'app',
+                  path: '/home/u/app',
+                  git: { branch: 'main', remote: '', hasUncommitted: false, stashCount: 0 },
+                  tools,
+                  lastAccessed: '2025-02-10T10:00:00Z',
+                },
+              ],
+              updatedAt: '2025-02-10T10:00:00Z',
+            },
+          },
+        }) as StateFile;
+
+      await writeState(
+        stateDir,
+        withTools({ required: [{ tool: 'node', version: '20', source: '.nvmrc' }], installed: { node: '20.11.0' } }),
+        publicKey,
+        'state',
+      );
+      await expect(
+        writeState(stateDir, withTools({ required: [{ tool: 'node' }], installed: {} }), publicKey, 'state'),
+      ).rejects.toThrow(StateValidationError);
+      await expect(
+        writeState(stateDir, withTools({ required: [], installed: { node: 20 } }), publicKey, 'state'),
+      ).rejects.toThrow(StateValidationError);
+    });
+
+    it('should drop malformed IDE state entries on repair', async () => {
+      const projectIdeState = {
+        projectPath: '/home/u/app',
+        capturedAt: '2025-02-10T10:00:00Z',
+        vscode: {
+          extensions: ['dbaeumer.vscode-eslint', ''],
+          settings: { 'editor.tabSize': 2 },
+          editors: [{ file: '/home/u/app/a.ts', line: 3, column: 1 }, { file: '/home/u/app/b.ts' }],
+        },
+      };
+      fs.writeFileSync(
+        path.join(stateDir, STATE_FILES.IDE_STATE),
+        await encryptState({ app: projectIdeState, api: { projectPath: '/home/u/api' } }, publicKey),
+      );
+
+      await expect(readState(stateDir, privateKey, 'ide-state')).rejects.toThrow(StateValidationError);
+
+      const onRepair = jest.fn();
+      const repaired = await readState(stateDir, privateKey, 'ide-state', { repair: true, onRepair });
+
+      expect(repaired).toEqual({
+        app: {
+          ...projectIdeState,
+          vscode: {
+            extensions: ['dbaeumer.vscode-eslint'],
+            settings: { 'editor.tabSize': 2 },
+            editors: [{ file: '/home/u/app/a.ts', line: 3, column: 1 }],
+          },
+        },
+      });
+      expect(onRepair).toHaveBeenCalledWith(STATE_FILES.IDE_STATE, [
+        'IdeState.app.vscode.extensions[1]',
+        'IdeState.app.vscode.editors[1]',
+        'IdeState.api',
+      ]);
+    });
+
+    it('should not report a repair for valid data', async () => {
+      await writeState(stateDir, { recentDirs: [], pinnedDirs: [] }, publicKey, 'directories');
+      const onRepair = jest.fn();
+
+      await readState(stateDir, privateKey, 'directories', { repair: true, onRepair });
+
+      expect(onRepair).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Schema versions', () => {
+    const legacy = {
+      machine: { id: 'laptop', hostname: 'laptop.local' },
+      projects: [
+        {
+          id: 'my-app',
+          name: 'my-app',
+          path: '~/projects/my-app',
+          git: { branch: 'main', remote: 'origin', hasUncommitted: false, stashCount: 0 },
+          lastAccessed: '2025-02-10T14:30:00.000Z',
+        },
+      ],
+    };
+
+    it('should record the schema version in the manifest on write', async () => {
+      await writeState(stateDir, { machines: {} }, publicKey, 'state');
+      await writeState(stateDir, { recentDirs: [], pinnedDirs: [] }, publicKey, 'directories');
+
+      const manifest = readManifest(stateDir);
+      expect(manifest!.files[STATE_FILES.STATE]!.schemaVersion).toBe(2);
+      expect(manifest!.files[STATE_FILES.DIRECTORIES]!.schemaVersion).toBe(1);
+    });
+
+    it('should treat files without a recorded version as version 1', () => {
+      expect(getSchemaVersion(stateDir, 'state')).toBe(1);
+    });
+
+    it('should upgrade version 1 state to per-machine snapshots on read', async () => {
+      fs.writeFileSync(path.join(stateDir, STATE_FILES.STATE), await encryptState(legacy, publicKey));
+
+      const result = await readState(stateDir, privateKey, 'state');
+
+      expect(result).toEqual({
+        machines: {
+          laptop: {
+            machine: legacy.machine,
+            projects: legacy.projects,
+            updatedAt: '2025-02-10T14:30:00.000Z',
+          },
+        },
+      });
+    });
+
+    it('should leave current payloads untouched', () => {
+      const current = { machines: {} };
+      expect(migrateState('state', current, 1)).toBe(current);
+      expect(migrateState('state', legacy, 2)).toBe(legacy);
+    });
+
+    it('should write env vars at version 2 and read version 1 files unchanged', async () => {
+      const vars = {
+        'my-app': { DB_URL: { value: 'postgres://db', addedAt: '2025-01-01T00:00:00.000Z' } },
+      };
+      fs.writeFileSync(path.join(stateDir, STATE_FILES.ENV_VARS), await encryptState(vars, publicKey));
+
+      await expect(readState(stateDir, privateKey, 'env-vars')).resolves.toEqual(vars);
+
+      await writeState(stateDir, vars, publicKey, 'env-vars');
+      expect(readManifest(stateDir)!.files[STATE_FILES.ENV_VARS]!.schemaVersion).toBe(2);
+    });
+
+    it('should refuse files written in a newer schema version', async () => {
+      await writeState(stateDir, { 'my-app': {} }, publicKey, 'env-vars');
+      const manifest = readManifest(stateDir)!;
+      manifest.files[STATE_FILES.ENV_VARS]!.schemaVersion = 7;
+      writeManifest(stateDir, manifest);
+
+      const err = await readState(stateDir, privateKey, 'env-vars').catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(StateVersionError);
+      expect((err as Error).message).toContain('env-vars.age uses schema version 7');
+    });
+  });
+
   describe('Security: No plaintext writes', () => {
     it('should never write .json state files to disk', async () => {
       const state = {
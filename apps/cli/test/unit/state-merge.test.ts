@@ -0,0 +1,357 @@
+import { jest } from '@jest/globals';
+import type {
+  Project,
+  StateFile,
+  MentalContext,
+  ProjectMentalContext,
+  DirectoryState,
+  ServiceState,
+  SessionState,
+  TmuxSession,
+  IdeState,
+  ProjectIdeState,
+  Manifest,
+} from '@ctx-sync/shared';
+import type { ConflictResolver, MergeConflict } from '../../src/core/state-merge.js';
+
+const {
+  isEqual,
+  mergeStateFiles,
+  mergeEnvVars,
+  mergeMentalContext,
+  mergeServices,
+  mergeDirectories,
+  mergeSessions,
+  mergeIdeState,
+  mergeManifests,
+} = await import('../../src/core/state-merge.js');
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+function context(overrides: Partial<ProjectMentalContext> = {}): ProjectMentalContext {
+  return {
+    currentTask: 'Build payments',
+    blockers: [],
+    nextSteps: [],
+    relatedLinks: [],
+    breadcrumbs: [],
+    ...overrides,
+  };
+}
+
+const keepLocal: ConflictResolver = () => Promise.resolve('local');
+const keepRemote: ConflictResolver = () => Promise.resolve('remote');
+
+// ─── Tests ────────────────────────────────────────────────────────────────
+
+describe('State Merge', () => {
+  describe('isEqual()', () => {
+    it('should ignore key order', () => {
+      expect(isEqual({ a: 1, b: [1, { c: 2 }] }, { b: [1, { c: 2 }], a: 1 })).toBe(true);
+    });
+
+    it('should detect differences', () => {
+      expect(isEqual({ a: 1 }, { a: 2 })).toBe(false);
+      expect(isEqual([1, 2], [2, 1])).toBe(false);
+      expect(isEqual(undefined, {})).toBe(false);
+    });
+  });
+
+  describe('mergeMentalContext()', () => {
+    it('should union breadcrumbs added on both sides', async () => {
+      const base: MentalContext = {
+        app: context({ breadcrumbs: [{ note: 'start', timestamp: '2025-01-01T00:00:00Z' }] }),
+      };
+      const local: MentalContext = {
+        app: context({
+          breadcrumbs: [
+            { note: 'start', timestamp: '2025-01-01T00:00:00Z' },
+            { note: 'laptop note', timestamp: '2025-01-03T00:00:00Z' },
+          ],
+        }),
+      };
+      const remote: MentalContext = {
+        app: context({
+          breadcrumbs: [
+            { note: 'start', timestamp: '2025-01-01T00:00:00Z' },
+            { note: 'desktop note', timestamp: '2025-01-02T00:00:00Z' },
+          ],
+        }),
+      };
+
+      const resolve = jest.fn(keepLocal);
+      const { merged, conflicts } = await mergeMentalContext(base, local, remote, resolve);
+
+      expect(merged['app']!.breadcrumbs.map((b) => b.note)).toEqual([
+        'start',
+        'desktop note',
+        'laptop note',
+      ]);
+      expect(conflicts).toEqual([]);
+      expect(resolve).not.toHaveBeenCalled();
+    });
+
+    it('should union blockers and next steps, dropping ones removed on either side', async () => {
+      const blocker = { description: 'Waiting on API', addedAt: 'x', priority: 'medium' as const };
+      const base: MentalContext = { app: context({ blockers: [blocker], nextSteps: ['old step'] }) };
+      const local: MentalContext = {
+        app: context({ blockers: [], nextSteps: ['old step', 'write tests'] }),
+      };
+      const remote: MentalContext = {
+        app: context({
+          blockers: [blocker, { description: 'CI broken', addedAt: 'y', priority: 'high' }],
+          nextSteps: ['deploy'],
+        }),
+      };
+
+      const { merged } = await mergeMentalContext(base, local, remote, keepLocal);
+
+      expect(merged['app']!.blockers.map((b) => b.description)).toEqual(['CI broken']);
+      expect(merged['app']!.nextSteps).toEqual(['write tests', 'deploy']);
+    });
+
+    it('should take a one-sided currentTask change without asking', async () => {
+      const base: MentalContext = { app: context() };
+      const local: MentalContext = { app: context() };
+      const remote: MentalContext = { app: context({ currentTask: 'Fix webhook' }) };
+
+      const resolve = jest.fn(keepLocal);
+      const { merged } = await mergeMentalContext(base, local, remote, resolve);
+
+      expect(merged['app']!.currentTask).toBe('Fix webhook');
+      expect(resolve).not.toHaveBeenCalled();
+    });
+
+    it('should ask when currentTask diverged on both sides', async () => {
+      const base: MentalContext = { app: context() };
+      const local: MentalContext = { app: context({ currentTask: 'Local task' }) };
+      const remote: MentalContext = { app: context({ currentTask: 'Remote task' }) };
+
+      const asked: MergeConflict[] = [];
+      const { merged, conflicts } = await mergeMentalContext(base, local, remote, (c) => {
+        asked.push(c);
+        return Promise.resolve('remote');
+      });
+
+      expect(merged['app']!.currentTask).toBe('Remote task');
+      expect(asked).toHaveLength(1);
+      expect(asked[0]!.field).toBe('app › currentTask');
+      expect(conflicts[0]!.choice).toBe('remote');
+    });
+
+    it('should keep projects added on either side', async () => {
+      const { merged } = await mergeMentalContext(
+        {},
+        { a: context() },
+        { b: context() },
+        keepLocal,
+      );
+      expect(Object.keys(merged).sort()).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('mergeEnvVars()', () => {
+    it('should merge keys added on each side', async () => {
+      const { merged } = await mergeEnvVars(
+        { app: {} },
+        { app: { A: { value: '1', addedAt: '2025-01-01' } } },
+        { app: { B: { value: '2', addedAt: '2025-01-01' } } },
+        keepLocal,
+      );
+      expect(Object.keys(merged['app']!).sort()).toEqual(['A', 'B']);
+    });
+
+    it('should prefer the newer addedAt when both sides changed a key', async () => {
+      const resolve = jest.fn(keepLocal);
+      const { merged } = await mergeEnvVars(
+        { app: { KEY: { value: 'old', addedAt: '2025-01-01' } } },
+        { app: { KEY: { value: 'local', addedAt: '2025-01-02' } } },
+        { app: { KEY: { value: 'remote', addedAt: '2025-01-03' } } },
+        resolve,
+      );
+      expect(merged['app']!['KEY']!.value).toBe('remote');
+      expect(resolve).not.toHaveBeenCalled();
+    });
+
+    it('should never reveal values in conflicts', async () => {
+      const { conflicts } = await mergeEnvVars(
+        { app: { KEY: { value: 'old', addedAt: '2025-01-01' } } },
+        { app: { KEY: { value: 'sk_live_local', addedAt: '2025-01-02' } } },
+        { app: { KEY: { value: 'sk_live_remote', addedAt: '2025-01-02' } } },
+        keepLocal,
+      );
+      expect(conflicts).toHaveLength(1);
+      expect(JSON.stringify(conflicts)).not.toContain('sk_live');
+    });
+
+    it('should drop keys deleted on one side and untouched on the other', async () => {
+      const entry = { value: 'v', addedAt: '2025-01-01' };
+      const { merged } = await mergeEnvVars(
+        { app: { GONE: entry, KEPT: entry } },
+        { app: { KEPT: entry } },
+        { app: { GONE: entry, KEPT: entry } },
+        keepLocal,
+      );
+      expect(Object.keys(merged['app']!)).toEqual(['KEPT']);
+    });
+  });
+
+  describe('mergeStateFiles()', () => {
+    const project = {
+      id: 'p1',
+      name: 'app',
+      path: '/a',
+      git: { branch: 'main', remote: 'origin', hasUncommitted: false, stashCount: 0 },
+      lastAccessed: '2025-01-01T00:00:00Z',
+    };
+
+    it('should keep snapshots from both machines', async () => {
+      const local: StateFile = {
+        machines: { a: { machine: { id: 'a', hostname: 'a' }, projects: [project], updatedAt: 'x' } },
+      };
+      const remote: StateFile = {
+        machines: { b: { machine: { id: 'b', hostname: 'b' }, projects: [project], updatedAt: 'y' } },
+      };
+
+      const { merged } = await mergeStateFiles(null, local, remote, keepLocal);
+      expect(Object.keys(merged.machines).sort()).toEqual(['a', 'b']);
+    });
+
+    it('should merge projects by id and keep the latest lastAccessed', async () => {
+      const snapshot = (projects: typeof project[]): StateFile => ({
+        machines: { a: { machine: { id: 'a', hostname: 'a' }, projects, updatedAt: 'x' } },
+      });
+      const base = snapshot([project]);
+      const local = snapshot([{ ...project, lastAccessed: '2025-01-05T00:00:00Z' }]);
+      const remote = snapshot([
+        { ...project, git: { ...project.git, branch: 'feature' } },
+        { ...project, id: 'p2', name: 'api' },
+      ]);
+
+      const { merged, conflicts } = await mergeStateFiles(base, local, remote, keepRemote);
+      const projects = merged.machines['a']!.projects;
+
+      expect(projects.map((p) => p.id)).toEqual(['p1', 'p2']);
+      expect(projects[0]!.git.branch).toBe('feature');
+      expect(projects[0]!.lastAccessed).toBe('2025-01-05T00:00:00Z');
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should keep the runtime versions of projects', async () => {
+      const tools = {
+        required: [{ tool: 'node', version: '20', source: '.nvmrc' }],
+        installed: { node: '20.11.0' },
+      };
+      const snapshot = (projects: Project[]): StateFile => ({
+        machines: { a: { machine: { id: 'a', hostname: 'a' }, projects, updatedAt: 'x' } },
+      });
+      const base = snapshot([project, { ...project, id: 'p2', tools }]);
+      const local = snapshot([
+        { ...project, tools },
+        { ...project, id: 'p2', tools, lastAccessed: '2025-01-05T00:00:00Z' },
+      ]);
+      const remote = snapshot([project, { ...project, id: 'p2', tools }]);
+
+      const { merged } = await mergeStateFiles(base, local, remote, keepRemote);
+      const projects = merged.machines['a']!.projects;
+
+      expect(projects[0]!.tools).toEqual(tools);
+      expect(projects[1]!.tools).toEqual(tools);
+      // A project that pins no versions stays without the field
+      const { merged: plain } = await mergeStateFiles(null, base, remote, keepLocal);
+      expect(plain.machines['a']!.projects[0]).not.toHaveProperty('tools');
+    });
+  });
+
+  describe('mergeServices()', () => {
+    it('should merge services by project and name', async () => {
+      const svc = { project: 'app', name: 'api', port: 3000, command: 'npm start', autoStart: false };
+      const base: ServiceState = { services: [svc] };
+      const local: ServiceState = { services: [{ ...svc, port: 4000 }] };
+      const remote: ServiceState = { services: [svc, { ...svc, name: 'worker' }] };
+
+      const { merged } = await mergeServices(base, local, remote, keepLocal);
+      expect(merged.services).toEqual([{ ...svc, port: 4000 }, { ...svc, name: 'worker' }]);
+    });
+  });
+
+  describe('mergeDirectories()', () => {
+    it('should add up visits made on both sides', () => {
+      const base: DirectoryState = {
+        recentDirs: [{ path: '/p', frequency: 2, lastVisit: '2025-01-01' }],
+        pinnedDirs: ['/pinned'],
+      };
+      const local: DirectoryState = {
+        recentDirs: [{ path: '/p', frequency: 4, lastVisit: '2025-01-03' }],
+        pinnedDirs: ['/pinned', '/local'],
+      };
+      const remote: DirectoryState = {
+        recentDirs: [{ path: '/p', frequency: 3, lastVisit: '2025-01-02' }],
+        pinnedDirs: [],
+      };
+
+      const { merged } = mergeDirectories(base, local, remote);
+      expect(merged.recentDirs).toEqual([{ path: '/p', frequency: 5, lastVisit: '2025-01-03' }]);
+      expect(merged.pinnedDirs).toEqual(['/local']);
+    });
+  });
+
+  describe('mergeSessions()', () => {
+    const session = (capturedAt: string, name = 'app'): TmuxSession => ({
+      name,
+      projectPath: '/p',
+      capturedAt,
+      windows: [{ name: 'main', layout: '', panes: [{ cwd: '/p', command: '', active: true }] }],
+    });
+
+    it('should keep the newer capture when both sides recaptured', async () => {
+      const base: SessionState = { app: session('2025-01-01') };
+      const local: SessionState = { app: session('2025-01-03', 'local') };
+      const remote: SessionState = { app: session('2025-01-02', 'remote'), api: session('2025-01-02') };
+
+      const { merged, conflicts } = await mergeSessions(base, local, remote, keepRemote);
+      expect(merged['app']!.name).toBe('local');
+      expect(merged['api']).toEqual(session('2025-01-02'));
+      expect(conflicts).toEqual([]);
+    });
+  });
+
+  describe('mergeIdeState()', () => {
+    const ideState = (capturedAt: string, extensions: string[] = []): ProjectIdeState => ({
+      projectPath: '/p',
+      capturedAt,
+      vscode: { extensions, settings: {}, editors: [] },
+    });
+
+    it('should keep the newer capture when both sides recaptured', async () => {
+      const base: IdeState = { app: ideState('2025-01-01') };
+      const local: IdeState = { app: ideState('2025-01-02', ['local.ext']) };
+      const remote: IdeState = { app: ideState('2025-01-03', ['remote.ext']), api: ideState('2025-01-02') };
+
+      const { merged, conflicts } = await mergeIdeState(base, local, remote, keepLocal);
+      expect(merged['app']!.vscode.extensions).toEqual(['remote.ext']);
+      expect(merged['api']).toEqual(ideState('2025-01-02'));
+      expect(conflicts).toEqual([]);
+    });
+  });
+
+  describe('mergeManifests()', () => {
+    it('should keep the newest timestamp per file', () => {
+      const local: Manifest = {
+        version: '1.0.0',
+        lastSync: '2025-01-02',
+        files: { 'state.age': { lastModified: '2025-01-02' }, 'env-vars.age': { lastModified: '2025-01-01' } },
+      };
+      const remote: Manifest = {
+        version: '1.0.0',
+        lastSync: '2025-01-03',
+        files: { 'env-vars.age': { lastModified: '2025-01-03' } },
+      };
+
+      const merged = mergeManifests(local, remote);
+      expect(merged.lastSync).toBe('2025-01-03');
+      expect(merged.files['state.age']!.lastModified).toBe('2025-01-02');
+      expect(merged.files['env-vars.age']!.lastModified).toBe('2025-01-03');
+    });
+  });
+});
@@ -30,7 +30,7 @@ const mockInit = jest.fn<() => Promise<void>>().mockResolvedValue(undefined);
 const mockAdd = jest.fn<(files: string | string[]) => Promise<void>>().mockResolvedValue(undefined);
 const mockCommit = jest.fn<(message: string) => Promise<{ commit: string }>>().mockResolvedValue({ commit: 'abc123' });
 const mockPush = jest.fn<(remote: string, branch: string, options: string[]) => Promise<void>>().mockResolvedValue(undefined);
-const mockPull = jest.fn<(remote: string, branch: string) => Promise<void>>().mockResolvedValue(undefined);
+const mockPull = jest.fn<(remote: string, branch: string, options?: string[]) => Promise<void>>().mockResolvedValue(undefined);
 const mockCheckout = jest.fn<(args: string[]) => Promise<void>>().mockResolvedValue(undefined);
 const mockStatus = jest.fn<() => Promise<MockStatusResult>>().mockResolvedValue({
   files: [],
@@ -178,7 +178,7 @@ describe('Sync Command', () => {
 
       expect(result.pulled).toBe(true);
       expect(result.conflictFiles).toEqual([]);
-      expect(mockPull).toHaveBeenCalledWith('origin', 'main');
+      expect(mockPull).toHaveBeenCalledWith('origin', 'main', ['--no-rebase']);
     });
 
     it('should skip pull when no remote is configured', async () => {
@@ -281,6 +281,14 @@ describe('Sync Command', () => {
       expect(files).toContain('manifest.json');
     });
 
+    it('should include the team roster', () => {
+      const rosterDir = path.join(globalThis.TEST_DIR, 'roster-sync');
+      fs.mkdirSync(rosterDir, { recursive: true });
+      fs.writeFileSync(path.join(rosterDir, 'roster.jsonl'), '{}\n');
+
+      expect(collectSyncFiles(rosterDir)).toEqual(['roster.jsonl']);
+    });
+
     it('should not include non-.age, non-manifest files', () => {
       fs.writeFileSync(path.join(syncDir, 'state.age'), 'encrypted');
       fs.writeFileSync(path.join(syncDir, 'some-other.txt'), 'data');
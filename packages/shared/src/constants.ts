@@ -30,9 +30,38 @@ export const STATE_FILES = {
   MENTAL_CONTEXT: 'mental-context.age',
   SERVICES: 'services.age',
   DIRECTORIES: 'directories.age',
+  SESSIONS: 'sessions.age',
+  IDE_STATE: 'ide-state.age',
   MANIFEST: 'manifest.json',
+  ROSTER: 'roster.jsonl',
+  KEY_ROTATIONS: 'key-rotations.jsonl',
 } as const;
 
+/**
+ * Current schema version of each encrypted state file.
+ *
+ * Bump a file's version whenever the shape of its decrypted payload
+ * changes, and register a migration from the previous version in the
+ * CLI's state manager. Files without a recorded version are version 1.
+ *
+ * `state.age` version 1 is the single-machine layout (`machine` +
+ * `projects`); version 2 keeps one snapshot per machine.
+ *
+ * `env-vars.age` version 2 may hold secret references (`ref: true`),
+ * env profiles and env groups, which an older CLI would take for plain
+ * values or projects.
+ */
+export const STATE_SCHEMA_VERSIONS: Readonly<Record<string, number>> = {
+  [STATE_FILES.STATE]: 2,
+  [STATE_FILES.ENV_VARS]: 2,
+  [STATE_FILES.DOCKER_STATE]: 1,
+  [STATE_FILES.MENTAL_CONTEXT]: 1,
+  [STATE_FILES.SERVICES]: 1,
+  [STATE_FILES.DIRECTORIES]: 1,
+  [STATE_FILES.SESSIONS]: 1,
+  [STATE_FILES.IDE_STATE]: 1,
+};
+
 /** Local config directory name (under ~/.config/) — NEVER synced to Git */
 export const CONFIG_DIR = 'ctx-sync';
 
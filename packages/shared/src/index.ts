@@ -4,11 +4,23 @@
  * @module @ctx-sync/shared
  */
 
-export { VERSION, DEFAULT_SAFE_LIST, STATE_FILES, CONFIG_DIR, SYNC_DIR } from './constants.js';
+export {
+  VERSION,
+  DEFAULT_SAFE_LIST,
+  STATE_FILES,
+  STATE_SCHEMA_VERSIONS,
+  CONFIG_DIR,
+  SYNC_DIR,
+} from './constants.js';
 export type {
   Project,
+  GitWorktree,
+  ToolRequirement,
+  ToolVersions,
   MachineInfo,
+  MachineSnapshot,
   StateFile,
+  LegacyStateFile,
   EnvVarEntry,
   EnvVars,
   DockerService,
@@ -22,13 +34,26 @@ export type {
   ServiceState,
   RecentDirectory,
   DirectoryState,
+  TmuxPane,
+  TmuxWindow,
+  TmuxSession,
+  SessionState,
+  IdeEditor,
+  VSCodeState,
+  ProjectIdeState,
+  IdeState,
   TeamMember,
   RecipientsConfig,
+  RosterAction,
+  RosterMember,
+  RosterEntry,
+  KeyRotationRecord,
   UserConfig,
+  SecretProviderConfig,
   ManifestFileEntry,
   Manifest,
 } from './types.js';
-export type { ValidationResult } from './schemas.js';
+export type { ValidationResult, RepairResult } from './schemas.js';
 export {
   validateStateFile,
   validateEnvVars,
@@ -37,4 +62,14 @@ export {
   validateMentalContext,
   validateServiceState,
   validateDirectoryState,
+  validateSessionState,
+  validateIdeState,
+  repairStateFile,
+  repairEnvVars,
+  repairDockerState,
+  repairMentalContext,
+  repairServiceState,
+  repairDirectoryState,
+  repairSessionState,
+  repairIdeState,
 } from './schemas.js';
@@ -116,11 +116,168 @@ function validateProject(project: unknown, prefix: string, errors: string[]): vo
     isString(git['remote'], `${prefix}.git.remote`, errors);
     isBoolean(git['hasUncommitted'], `${prefix}.git.hasUncommitted`, errors);
     isNumber(git['stashCount'], `${prefix}.git.stashCount`, errors);
+
+    // Optional: older clients do not record worktrees
+    if (git['worktrees'] !== undefined && isArray(git['worktrees'], `${prefix}.git.worktrees`, errors)) {
+      (git['worktrees'] as unknown[]).forEach((worktree, i) => {
+        const field = `${prefix}.git.worktrees[${i}]`;
+        if (!isObject(worktree, field, errors)) return;
+        const w = worktree as Record<string, unknown>;
+        isNonEmptyString(w['path'], `${field}.path`, errors);
+        isNonEmptyString(w['branch'], `${field}.branch`, errors);
+      });
+    }
+  }
+
+  // Optional: only present when the project pins runtime versions
+  if (p['tools'] !== undefined && isObject(p['tools'], `${prefix}.tools`, errors)) {
+    const tools = p['tools'] as Record<string, unknown>;
+    if (isArray(tools['required'], `${prefix}.tools.required`, errors)) {
+      (tools['required'] as unknown[]).forEach((requirement, i) => {
+        const field = `${prefix}.tools.required[${i}]`;
+        if (!isObject(requirement, field, errors)) return;
+        const r = requirement as Record<string, unknown>;
+        isNonEmptyString(r['tool'], `${field}.tool`, errors);
+        isNonEmptyString(r['version'], `${field}.version`, errors);
+        isNonEmptyString(r['source'], `${field}.source`, errors);
+      });
+    }
+    if (isObject(tools['installed'], `${prefix}.tools.installed`, errors)) {
+      for (const [tool, version] of Object.entries(tools['installed'] as Record<string, unknown>)) {
+        isString(version, `${prefix}.tools.installed.${tool}`, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a MachineInfo object.
+ */
+function validateMachineInfo(machine: unknown, prefix: string, errors: string[]): void {
+  if (!isObject(machine, prefix, errors)) return;
+  const m = machine as Record<string, unknown>;
+  isNonEmptyString(m['id'], `${prefix}.id`, errors);
+  isNonEmptyString(m['hostname'], `${prefix}.hostname`, errors);
+}
+
+/**
+ * Validate a project list.
+ */
+function validateProjects(projects: unknown, prefix: string, errors: string[]): void {
+  if (!isArray(projects, prefix, errors)) return;
+  const list = projects as unknown[];
+  for (let i = 0; i < list.length; i++) {
+    validateProject(list[i], `${prefix}[${i}]`, errors);
+  }
+}
+
+/**
+ * Validate a single Docker service entry.
+ */
+function validateDockerService(service: unknown, prefix: string, errors: string[]): void {
+  if (!isObject(service, prefix, errors)) return;
+  const svc = service as Record<string, unknown>;
+  isNonEmptyString(svc['name'], `${prefix}.name`, errors);
+  isString(svc['image'], `${prefix}.image`, errors);
+  isNumber(svc['port'], `${prefix}.port`, errors);
+  isBoolean(svc['autoStart'], `${prefix}.autoStart`, errors);
+}
+
+/**
+ * Validate a single running service entry.
+ */
+function validateService(service: unknown, prefix: string, errors: string[]): void {
+  if (!isObject(service, prefix, errors)) return;
+  const svc = service as Record<string, unknown>;
+  isString(svc['project'], `${prefix}.project`, errors);
+  isNonEmptyString(svc['name'], `${prefix}.name`, errors);
+  isNumber(svc['port'], `${prefix}.port`, errors);
+  isString(svc['command'], `${prefix}.command`, errors);
+  isBoolean(svc['autoStart'], `${prefix}.autoStart`, errors);
+}
+
+/**
+ * Validate a single recent directory entry.
+ */
+function validateRecentDirectory(dir: unknown, prefix: string, errors: string[]): void {
+  if (!isObject(dir, prefix, errors)) return;
+  const entry = dir as Record<string, unknown>;
+  isNonEmptyString(entry['path'], `${prefix}.path`, errors);
+  isNumber(entry['frequency'], `${prefix}.frequency`, errors);
+  isISODateString(entry['lastVisit'], `${prefix}.lastVisit`, errors);
+}
+
+/**
+ * Validate a single tmux pane entry.
+ */
+function validateTmuxPane(pane: unknown, prefix: string, errors: string[]): void {
+  if (!isObject(pane, prefix, errors)) return;
+  const p = pane as Record<string, unknown>;
+  isNonEmptyString(p['cwd'], `${prefix}.cwd`, errors);
+  isString(p['command'], `${prefix}.command`, errors);
+  isBoolean(p['active'], `${prefix}.active`, errors);
+}
+
+/**
+ * Validate a single tmux window entry (including its panes).
+ */
+function validateTmuxWindow(window: unknown, prefix: string, errors: string[]): void {
+  if (!isObject(window, prefix, errors)) return;
+  const w = window as Record<string, unknown>;
+  isString(w['name'], `${prefix}.name`, errors);
+  isString(w['layout'], `${prefix}.layout`, errors);
+
+  if (isArray(w['panes'], `${prefix}.panes`, errors)) {
+    const panes = w['panes'] as unknown[];
+    if (panes.length === 0) {
+      errors.push(`${prefix}.panes must not be empty`);
+    }
+    for (let i = 0; i < panes.length; i++) {
+      validateTmuxPane(panes[i], `${prefix}.panes[${i}]`, errors);
+    }
+  }
+}
+
+/**
+ * Validate a single VS Code editor entry.
+ */
+function validateIdeEditor(editor: unknown, prefix: string, errors: string[]): void {
+  if (!isObject(editor, prefix, errors)) return;
+  const e = editor as Record<string, unknown>;
+  isNonEmptyString(e['file'], `${prefix}.file`, errors);
+  isNumber(e['line'], `${prefix}.line`, errors);
+  isNumber(e['column'], `${prefix}.column`, errors);
+}
+
+/**
+ * Validate the VS Code part of a project's IDE state.
+ */
+function validateVSCodeState(vscode: unknown, prefix: string, errors: string[]): void {
+  if (!isObject(vscode, prefix, errors)) return;
+  const v = vscode as Record<string, unknown>;
+
+  if (isArray(v['extensions'], `${prefix}.extensions`, errors)) {
+    const extensions = v['extensions'] as unknown[];
+    for (let i = 0; i < extensions.length; i++) {
+      isNonEmptyString(extensions[i], `${prefix}.extensions[${i}]`, errors);
+    }
+  }
+
+  isObject(v['settings'], `${prefix}.settings`, errors);
+
+  if (isArray(v['editors'], `${prefix}.editors`, errors)) {
+    const editors = v['editors'] as unknown[];
+    for (let i = 0; i < editors.length; i++) {
+      validateIdeEditor(editors[i], `${prefix}.editors[${i}]`, errors);
+    }
   }
 }
 
 /**
  * Validate a StateFile structure (decrypted state.age).
+ *
+ * Accepts both the per-machine layout (`machines`) and the legacy
+ * single-machine layout (`machine` + `projects`).
  */
 export function validateStateFile(data: unknown): ValidationResult {
   const errors: string[] = [];
@@ -131,18 +288,23 @@ export function validateStateFile(data: unknown): ValidationResult {
 
   const d = data as Record<string, unknown>;
 
-  // machine
-  if (isObject(d['machine'], 'machine', errors)) {
-    const machine = d['machine'] as Record<string, unknown>;
-    isNonEmptyString(machine['id'], 'machine.id', errors);
-    isNonEmptyString(machine['hostname'], 'machine.hostname', errors);
+  // Legacy layout
+  if (d['machines'] === undefined) {
+    validateMachineInfo(d['machine'], 'machine', errors);
+    validateProjects(d['projects'], 'projects', errors);
+    return { valid: errors.length === 0, errors };
   }
 
-  // projects
-  if (isArray(d['projects'], 'projects', errors)) {
-    const projects = d['projects'] as unknown[];
-    for (let i = 0; i < projects.length; i++) {
-      validateProject(projects[i], `projects[${i}]`, errors);
+  if (isObject(d['machines'], 'machines', errors)) {
+    const machines = d['machines'] as Record<string, unknown>;
+    for (const [machineId, snapshot] of Object.entries(machines)) {
+      const prefix = `machines.${machineId}`;
+      if (!isObject(snapshot, prefix, errors)) continue;
+
+      const s = snapshot as Record<string, unknown>;
+      validateMachineInfo(s['machine'], `${prefix}.machine`, errors);
+      isISODateString(s['updatedAt'], `${prefix}.updatedAt`, errors);
+      validateProjects(s['projects'], `${prefix}.projects`, errors);
     }
   }
 
@@ -171,6 +333,9 @@ export function validateEnvVars(data: unknown): ValidationResult {
         const e = entry as Record<string, unknown>;
         isString(e['value'], `${prefix}.value`, errors);
         isISODateString(e['addedAt'], `${prefix}.addedAt`, errors);
+        if (e['ref'] !== undefined) {
+          isBoolean(e['ref'], `${prefix}.ref`, errors);
+        }
       }
     }
   }
@@ -198,6 +363,12 @@ export function validateManifest(data: unknown): ValidationResult {
       if (isObject(entry, `files.${filename}`, errors)) {
         const e = entry as Record<string, unknown>;
         isISODateString(e['lastModified'], `files.${filename}.lastModified`, errors);
+        if (
+          e['schemaVersion'] !== undefined &&
+          (!Number.isInteger(e['schemaVersion']) || (e['schemaVersion'] as number) < 1)
+        ) {
+          errors.push(`files.${filename}.schemaVersion must be a positive integer`);
+        }
       }
     }
   }
@@ -226,14 +397,7 @@ export function validateDockerState(data: unknown): ValidationResult {
     if (isArray(s['services'], `${prefix}.services`, errors)) {
       const services = s['services'] as unknown[];
       for (let i = 0; i < services.length; i++) {
-        const sp = `${prefix}.services[${i}]`;
-        if (isObject(services[i], sp, errors)) {
-          const svc = services[i] as Record<string, unknown>;
-          isNonEmptyString(svc['name'], `${sp}.name`, errors);
-          isString(svc['image'], `${sp}.image`, errors);
-          isNumber(svc['port'], `${sp}.port`, errors);
-          isBoolean(svc['autoStart'], `${sp}.autoStart`, errors);
-        }
+        validateDockerService(services[i], `${prefix}.services[${i}]`, errors);
       }
     }
   }
@@ -291,15 +455,7 @@ export function validateServiceState(data: unknown): ValidationResult {
   if (isArray(d['services'], 'services', errors)) {
     const services = d['services'] as unknown[];
     for (let i = 0; i < services.length; i++) {
-      const prefix = `services[${i}]`;
-      if (isObject(services[i], prefix, errors)) {
-        const svc = services[i] as Record<string, unknown>;
-        isString(svc['project'], `${prefix}.project`, errors);
-        isNonEmptyString(svc['name'], `${prefix}.name`, errors);
-        isNumber(svc['port'], `${prefix}.port`, errors);
-        isString(svc['command'], `${prefix}.command`, errors);
-        isBoolean(svc['autoStart'], `${prefix}.autoStart`, errors);
-      }
+      validateService(services[i], `services[${i}]`, errors);
     }
   }
 
@@ -321,13 +477,7 @@ export function validateDirectoryState(data: unknown): ValidationResult {
   if (isArray(d['recentDirs'], 'recentDirs', errors)) {
     const dirs = d['recentDirs'] as unknown[];
     for (let i = 0; i < dirs.length; i++) {
-      const prefix = `recentDirs[${i}]`;
-      if (isObject(dirs[i], prefix, errors)) {
-        const dir = dirs[i] as Record<string, unknown>;
-        isNonEmptyString(dir['path'], `${prefix}.path`, errors);
-        isNumber(dir['frequency'], `${prefix}.frequency`, errors);
-        isISODateString(dir['lastVisit'], `${prefix}.lastVisit`, errors);
-      }
+      validateRecentDirectory(dirs[i], `recentDirs[${i}]`, errors);
     }
   }
 
@@ -340,3 +490,349 @@ export function validateDirectoryState(data: unknown): ValidationResult {
 
   return { valid: errors.length === 0, errors };
 }
+
+/**
+ * Validate a SessionState structure (decrypted sessions.age).
+ */
+export function validateSessionState(data: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!isObject(data, 'SessionState', errors)) {
+    return { valid: false, errors };
+  }
+
+  const d = data as Record<string, unknown>;
+  for (const [projectName, session] of Object.entries(d)) {
+    const prefix = `SessionState.${projectName}`;
+    if (!isObject(session, prefix, errors)) continue;
+
+    const s = session as Record<string, unknown>;
+    isNonEmptyString(s['name'], `${prefix}.name`, errors);
+    isNonEmptyString(s['projectPath'], `${prefix}.projectPath`, errors);
+    isISODateString(s['capturedAt'], `${prefix}.capturedAt`, errors);
+
+    if (isArray(s['windows'], `${prefix}.windows`, errors)) {
+      const windows = s['windows'] as unknown[];
+      for (let i = 0; i < windows.length; i++) {
+        validateTmuxWindow(windows[i], `${prefix}.windows[${i}]`, errors);
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Validate an IdeState structure (decrypted ide-state.age).
+ */
+export function validateIdeState(data: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!isObject(data, 'IdeState', errors)) {
+    return { valid: false, errors };
+  }
+
+  const d = data as Record<string, unknown>;
+  for (const [projectName, ideState] of Object.entries(d)) {
+    const prefix = `IdeState.${projectName}`;
+    if (!isObject(ideState, prefix, errors)) continue;
+
+    const s = ideState as Record<string, unknown>;
+    isNonEmptyString(s['projectPath'], `${prefix}.projectPath`, errors);
+    isISODateString(s['capturedAt'], `${prefix}.capturedAt`, errors);
+    validateVSCodeState(s['vscode'], `${prefix}.vscode`, errors);
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// ─── Repair ──────────────────────────────────────────────────────────────
+
+/**
+ * Result of repairing a state structure.
+ */
+export interface RepairResult<T> {
+  /** The data with malformed entries removed */
+  data: T;
+  /** Field paths of the entries that were dropped */
+  dropped: string[];
+}
+
+/**
+ * Run an entry-level validator and report whether the entry is clean.
+ */
+function isValidEntry(
+  validate: (value: unknown, prefix: string, errors: string[]) => void,
+  value: unknown,
+  prefix: string,
+): boolean {
+  const errors: string[] = [];
+  validate(value, prefix, errors);
+  return errors.length === 0;
+}
+
+/**
+ * Keep only the valid items of an array, recording dropped paths.
+ */
+function keepValid<T>(
+  items: unknown,
+  prefix: string,
+  validate: (value: unknown, prefix: string, errors: string[]) => void,
+  dropped: string[],
+): T[] {
+  if (!Array.isArray(items)) {
+    dropped.push(prefix);
+    return [];
+  }
+  const kept: T[] = [];
+  items.forEach((item, i) => {
+    if (isValidEntry(validate, item, `${prefix}[${i}]`)) {
+      kept.push(item as T);
+    } else {
+      dropped.push(`${prefix}[${i}]`);
+    }
+  });
+  return kept;
+}
+
+/**
+ * Keep only the valid values of a keyed object, recording dropped paths.
+ */
+function keepValidKeys<T>(
+  data: unknown,
+  prefix: string,
+  repairEntry: (value: unknown, path: string) => T | null,
+  dropped: string[],
+): Record<string, T> {
+  const result: Record<string, T> = {};
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    dropped.push(prefix);
+    return result;
+  }
+  for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+    const path = `${prefix}.${key}`;
+    const repaired = repairEntry(value, path);
+    if (repaired === null) {
+      dropped.push(path);
+    } else {
+      result[key] = repaired;
+    }
+  }
+  return result;
+}
+
+/**
+ * Repair a StateFile by dropping malformed machine snapshots and projects.
+ *
+ * Legacy data is repaired in place; if its machine info is unusable the
+ * whole structure is replaced with an empty per-machine state.
+ */
+export function repairStateFile(data: unknown): RepairResult<Record<string, unknown>> {
+  const dropped: string[] = [];
+  const d = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+
+  if (d['machines'] === undefined && d['machine'] !== undefined) {
+    if (!isValidEntry(validateMachineInfo, d['machine'], 'machine')) {
+      dropped.push('machine');
+      return { data: { machines: {} }, dropped };
+    }
+    return {
+      data: {
+        machine: d['machine'],
+        projects: keepValid(d['projects'], 'projects', validateProject, dropped),
+      },
+      dropped,
+    };
+  }
+
+  const machines = keepValidKeys(
+    d['machines'],
+    'machines',
+    (snapshot, path) => {
+      if (typeof snapshot !== 'object' || snapshot === null) return null;
+      const s = snapshot as Record<string, unknown>;
+      if (!isValidEntry(validateMachineInfo, s['machine'], `${path}.machine`)) return null;
+      if (!isValidEntry(isISODateString, s['updatedAt'], `${path}.updatedAt`)) return null;
+      return {
+        machine: s['machine'],
+        updatedAt: s['updatedAt'],
+        projects: keepValid(s['projects'], `${path}.projects`, validateProject, dropped),
+      };
+    },
+    dropped,
+  );
+
+  return { data: { machines }, dropped };
+}
+
+/**
+ * Repair an EnvVars structure by dropping malformed projects and entries.
+ */
+export function repairEnvVars(data: unknown): RepairResult<Record<string, unknown>> {
+  const dropped: string[] = [];
+  const result = keepValidKeys(
+    data,
+    'EnvVars',
+    (vars, path) => {
+      if (typeof vars !== 'object' || vars === null || Array.isArray(vars)) return null;
+      return keepValidKeys(
+        vars,
+        path,
+        (entry, entryPath) => {
+          const errors: string[] = [];
+          if (isObject(entry, entryPath, errors)) {
+            const e = entry as Record<string, unknown>;
+            isString(e['value'], `${entryPath}.value`, errors);
+            isISODateString(e['addedAt'], `${entryPath}.addedAt`, errors);
+            if (e['ref'] !== undefined) {
+              isBoolean(e['ref'], `${entryPath}.ref`, errors);
+            }
+          }
+          return errors.length === 0 ? entry : null;
+        },
+        dropped,
+      );
+    },
+    dropped,
+  );
+  return { data: result, dropped };
+}
+
+/**
+ * Repair a DockerState structure by dropping malformed projects and services.
+ */
+export function repairDockerState(data: unknown): RepairResult<Record<string, unknown>> {
+  const dropped: string[] = [];
+  const result = keepValidKeys(
+    data,
+    'DockerState',
+    (state, path) => {
+      if (typeof state !== 'object' || state === null || Array.isArray(state)) return null;
+      const s = state as Record<string, unknown>;
+      if (typeof s['composeFile'] !== 'string') return null;
+      return {
+        ...s,
+        services: keepValid(s['services'], `${path}.services`, validateDockerService, dropped),
+      };
+    },
+    dropped,
+  );
+  return { data: result, dropped };
+}
+
+/**
+ * Repair a MentalContext structure.
+ *
+ * Drops project contexts without a string `currentTask` and resets any
+ * list field that is not an array.
+ */
+export function repairMentalContext(data: unknown): RepairResult<Record<string, unknown>> {
+  const dropped: string[] = [];
+  const result = keepValidKeys(
+    data,
+    'MentalContext',
+    (context, path) => {
+      if (typeof context !== 'object' || context === null || Array.isArray(context)) return null;
+      const c = { ...(context as Record<string, unknown>) };
+      if (typeof c['currentTask'] !== 'string') return null;
+      for (const field of ['blockers', 'nextSteps', 'relatedLinks', 'breadcrumbs']) {
+        if (!Array.isArray(c[field])) {
+          if (c[field] !== undefined) dropped.push(`${path}.${field}`);
+          c[field] = [];
+        }
+      }
+      return c;
+    },
+    dropped,
+  );
+  return { data: result, dropped };
+}
+
+/**
+ * Repair a ServiceState structure by dropping malformed services.
+ */
+export function repairServiceState(data: unknown): RepairResult<Record<string, unknown>> {
+  const dropped: string[] = [];
+  const d = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  return {
+    data: { services: keepValid(d['services'], 'services', validateService, dropped) },
+    dropped,
+  };
+}
+
+/**
+ * Repair a DirectoryState structure by dropping malformed entries.
+ */
+export function repairDirectoryState(data: unknown): RepairResult<Record<string, unknown>> {
+  const dropped: string[] = [];
+  const d = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  return {
+    data: {
+      recentDirs: keepValid(d['recentDirs'], 'recentDirs', validateRecentDirectory, dropped),
+      pinnedDirs: keepValid(d['pinnedDirs'], 'pinnedDirs', isString, dropped),
+    },
+    dropped,
+  };
+}
+
+/**
+ * Repair a SessionState structure by dropping malformed sessions and windows.
+ */
+export function repairSessionState(data: unknown): RepairResult<Record<string, unknown>> {
+  const dropped: string[] = [];
+  const result = keepValidKeys(
+    data,
+    'SessionState',
+    (session, path) => {
+      if (typeof session !== 'object' || session === null || Array.isArray(session)) return null;
+      const s = session as Record<string, unknown>;
+      const errors: string[] = [];
+      isNonEmptyString(s['name'], `${path}.name`, errors);
+      isNonEmptyString(s['projectPath'], `${path}.projectPath`, errors);
+      isISODateString(s['capturedAt'], `${path}.capturedAt`, errors);
+      if (errors.length > 0) return null;
+      return {
+        ...s,
+        windows: keepValid(s['windows'], `${path}.windows`, validateTmuxWindow, dropped),
+      };
+    },
+    dropped,
+  );
+  return { data: result, dropped };
+}
+
+/**
+ * Repair an IdeState structure by dropping malformed projects, extensions
+ * and editors.
+ */
+export function repairIdeState(data: unknown): RepairResult<Record<string, unknown>> {
+  const dropped: string[] = [];
+  const result = keepValidKeys(
+    data,
+    'IdeState',
+    (ideState, path) => {
+      if (typeof ideState !== 'object' || ideState === null || Array.isArray(ideState)) return null;
+      const s = ideState as Record<string, unknown>;
+      const errors: string[] = [];
+      isNonEmptyString(s['projectPath'], `${path}.projectPath`, errors);
+      isISODateString(s['capturedAt'], `${path}.capturedAt`, errors);
+      if (!isObject(s['vscode'], `${path}.vscode`, errors) || errors.length > 0) return null;
+
+      const v = s['vscode'] as Record<string, unknown>;
+      const settingsValid = isValidEntry(isObject, v['settings'], `${path}.vscode.settings`);
+      if (!settingsValid) {
+        dropped.push(`${path}.vscode.settings`);
+      }
+      return {
+        ...s,
+        vscode: {
+          extensions: keepValid(v['extensions'], `${path}.vscode.extensions`, isNonEmptyString, dropped),
+          settings: settingsValid ? v['settings'] : {},
+          editors: keepValid(v['editors'], `${path}.vscode.editors`, validateIdeEditor, dropped),
+        },
+      };
+    },
+    dropped,
+  );
+  return { data: result, dropped };
+}
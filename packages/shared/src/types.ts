@@ -5,6 +5,32 @@
  * of each state file. On disk and in Git, all state is encrypted as .age blobs.
  */
 
+/** A linked Git worktree of a tracked project */
+export interface GitWorktree {
+  /** Absolute path of the worktree on the tracking machine */
+  path: string;
+  /** Branch checked out in the worktree */
+  branch: string;
+}
+
+/** A runtime version pinned by a project file */
+export interface ToolRequirement {
+  /** Tool name (e.g. `node`, `python`) */
+  tool: string;
+  /** Version or range as written (e.g. `20.11.0`, `>=18`, `lts/iron`) */
+  version: string;
+  /** File the requirement came from (e.g. `.nvmrc`, `package.json#engines`) */
+  source: string;
+}
+
+/** Runtime versions of a project, captured by `track` */
+export interface ToolVersions {
+  /** Versions pinned by the project's files */
+  required: ToolRequirement[];
+  /** Versions installed on the tracking machine, per tool */
+  installed: Record<string, string>;
+}
+
 /** A tracked project */
 export interface Project {
   id: string;
@@ -15,7 +41,11 @@ export interface Project {
     remote: string;
     hasUncommitted: boolean;
     stashCount: number;
+    /** Linked worktrees (the main worktree is the project itself) */
+    worktrees?: GitWorktree[];
   };
+  /** Runtime versions (absent if the project pins none) */
+  tools?: ToolVersions;
   lastAccessed: string;
 }
 
@@ -25,8 +55,30 @@ export interface MachineInfo {
   hostname: string;
 }
 
-/** Decrypted state.age structure */
+/** One machine's snapshot of the projects it tracks */
+export interface MachineSnapshot {
+  machine: MachineInfo;
+  projects: Project[];
+  /** When this machine last wrote its snapshot */
+  updatedAt: string;
+}
+
+/**
+ * Decrypted state.age structure.
+ *
+ * Each machine only ever writes its own snapshot (keyed by machine ID),
+ * so `track` on one machine never overwrites another machine's branch,
+ * stash count or `lastAccessed`. Snapshots are merged per project at
+ * read time.
+ */
 export interface StateFile {
+  machines: {
+    [machineId: string]: MachineSnapshot;
+  };
+}
+
+/** Legacy state.age structure (single machine, flat project list) */
+export interface LegacyStateFile {
   machine: MachineInfo;
   projects: Project[];
 }
@@ -35,9 +87,20 @@ export interface StateFile {
 export interface EnvVarEntry {
   value: string;
   addedAt: string;
+  /**
+   * When `true`, `value` is a reference to a secret kept by an external
+   * provider (e.g. `op://vault/item/field`), resolved by the provider's
+   * CLI whenever the var is used. The secret itself is never stored.
+   */
+  ref?: boolean;
 }
 
-/** Decrypted env-vars.age structure: project name → key → entry */
+/**
+ * Decrypted env-vars.age structure: project name → key → entry.
+ *
+ * A project's named env profiles (e.g. `staging`) are stored under
+ * `<project>/<profile>` and inherit the project's own vars.
+ */
 export interface EnvVars {
   [projectName: string]: {
     [key: string]: EnvVarEntry;
@@ -132,6 +195,72 @@ export interface DirectoryState {
   pinnedDirs: string[];
 }
 
+/** A tmux pane */
+export interface TmuxPane {
+  /** Working directory on the capturing machine */
+  cwd: string;
+  /** Program running in the pane ('' for an idle shell) */
+  command: string;
+  /** Whether this was the active pane of its window */
+  active: boolean;
+}
+
+/** A tmux window */
+export interface TmuxWindow {
+  name: string;
+  /** tmux layout string (restores pane sizes and arrangement) */
+  layout: string;
+  panes: TmuxPane[];
+}
+
+/** A captured tmux session */
+export interface TmuxSession {
+  /** tmux session name */
+  name: string;
+  /** Project directory on the capturing machine (pane cwds are relative to it) */
+  projectPath: string;
+  capturedAt: string;
+  windows: TmuxWindow[];
+}
+
+/** Decrypted sessions.age structure: project name → tmux session */
+export interface SessionState {
+  [projectName: string]: TmuxSession;
+}
+
+/** An editor open in VS Code */
+export interface IdeEditor {
+  /** File path on the capturing machine */
+  file: string;
+  /** Cursor line (1-based) */
+  line: number;
+  /** Cursor column (1-based) */
+  column: number;
+}
+
+/** Captured VS Code state */
+export interface VSCodeState {
+  /** Installed extension IDs (`code --list-extensions`) */
+  extensions: string[];
+  /** Workspace settings (`.vscode/settings.json`) that differ from the committed file */
+  settings: Record<string, unknown>;
+  /** Open editors, most recently used first */
+  editors: IdeEditor[];
+}
+
+/** Captured IDE state of a project */
+export interface ProjectIdeState {
+  /** Project directory on the capturing machine (editor paths are relative to it) */
+  projectPath: string;
+  capturedAt: string;
+  vscode: VSCodeState;
+}
+
+/** Decrypted ide-state.age structure: project name → IDE state */
+export interface IdeState {
+  [projectName: string]: ProjectIdeState;
+}
+
 /** A team member / recipient */
 export interface TeamMember {
   name: string;
@@ -139,6 +268,10 @@ export interface TeamMember {
   addedAt: string;
   /** Key fingerprint for out-of-band verification */
   fingerprint: string;
+  /** Projects this member may decrypt; unset means every project */
+  projects?: string[];
+  /** Ed25519 key the member signs roster entries with (base64) */
+  signingKey?: string;
 }
 
 /** Recipients configuration stored in config dir (never synced) */
@@ -147,6 +280,70 @@ export interface RecipientsConfig {
   ownerPublicKey: string;
   /** Team members (recipients) added by the owner */
   members: TeamMember[];
+  /** Hash of the trusted roster's genesis entry, pinned on first use */
+  rosterGenesis?: string;
+  /**
+   * The last roster entry applied on this machine. A roster that does
+   * not hold this entry at this position was cut back or rewritten.
+   */
+  rosterHead?: { seq: number; hash: string };
+}
+
+/**
+ * Kind of change recorded in the team roster. `rotate` replaces the
+ * signer's own keys with the member's in the entry.
+ */
+export type RosterAction = 'genesis' | 'add' | 'remove' | 'revoke' | 'rotate';
+
+/** A member as recorded in a roster entry */
+export interface RosterMember {
+  name: string;
+  /** Age public key (age1...) */
+  publicKey: string;
+  /** Ed25519 key the member signs roster entries with (base64) */
+  signingKey?: string;
+  /** Projects this member may decrypt; unset means every project */
+  projects?: string[];
+}
+
+/**
+ * One line of roster.jsonl — the synced, append-only membership log.
+ *
+ * Each entry is chained to the previous one by hash and signed by an
+ * existing member, so a client can verify the whole history before
+ * trusting a recipient it has not seen before.
+ */
+export interface RosterEntry {
+  /** Position in the log, starting at 0 for the genesis entry */
+  seq: number;
+  /** SHA-256 of the previous line (hex), or `null` for the genesis entry */
+  prev: string | null;
+  action: RosterAction;
+  member: RosterMember;
+  /** ISO 8601 timestamp */
+  at: string;
+  /** Age public key of the member who signed the entry */
+  signer: string;
+  /** Ed25519 signature over the entry without this field (base64) */
+  signature: string;
+}
+
+/**
+ * One line of key-rotations.jsonl — a note, left in the sync repo by
+ * `key rotate`, that a key was replaced, so the key's other machines can
+ * tell their user to run `key update`. Holds public keys only.
+ */
+export interface KeyRotationRecord {
+  /** Age public key that was rotated away from */
+  oldPublicKey: string;
+  /** Age public key that replaced it */
+  newPublicKey: string;
+  /** Hostname of the machine the key was rotated on */
+  machine: string;
+  /** ISO 8601 timestamp */
+  at: string;
+  /** Ed25519 signature by the old key's roster signing key (base64) */
+  signature: string;
 }
 
 /**
@@ -157,11 +354,27 @@ export interface RecipientsConfig {
 export interface UserConfig {
   /** Custom env var keys added to the safe-list (merged with DEFAULT_SAFE_LIST) */
   safeList?: string[];
+  /** Extra secret providers for env var references (tried before the built-in ones) */
+  secretProviders?: SecretProviderConfig[];
+}
+
+/**
+ * A secret provider CLI, for env var references starting with `prefix`.
+ *
+ * In `command`, `{ref}` is replaced by the whole reference and `{path}`
+ * by the part after the prefix, e.g.
+ * `{ "prefix": "bw:", "command": ["bw", "get", "password", "{path}"] }`.
+ */
+export interface SecretProviderConfig {
+  prefix: string;
+  command: string[];
 }
 
 /** File metadata in manifest */
 export interface ManifestFileEntry {
   lastModified: string;
+  /** Schema version of the decrypted payload (absent means version 1) */
+  schemaVersion?: number;
 }
 
 /** manifest.json structure (only plaintext file in Git) */